@@ -0,0 +1,59 @@
+/**
+ * Plinko RTP report
+ *
+ * Simulates every multiplier table without the physics/renderer and prints a
+ * JSON or markdown report. Exits with 1 if any table's theoretical RTP is
+ * outside RTP_BAND, so it can gate changes to MULTIPLIERS.
+ *
+ * Usage:
+ *   npm run plinko:report -- [--drops 100000] [--seed 1] [--format md|json] [--out file]
+ */
+
+import { writeFileSync } from 'node:fs';
+import { parseArgs } from 'node:util';
+import {
+  simulateAllTables,
+  formatReportMarkdown,
+} from '../src/features/games/plinko/engine/simulation';
+
+const { values } = parseArgs({
+  options: {
+    drops: { type: 'string', default: '100000' },
+    seed: { type: 'string', default: '1' },
+    format: { type: 'string', default: 'md' },
+    out: { type: 'string' },
+  },
+});
+
+const drops = parseInt(values.drops, 10);
+const seed = parseInt(values.seed, 10);
+
+if (isNaN(drops) || drops <= 0 || isNaN(seed)) {
+  console.error('--drops must be a positive integer and --seed an integer');
+  process.exit(2);
+}
+
+if (values.format !== 'md' && values.format !== 'json') {
+  console.error('--format must be "md" or "json"');
+  process.exit(2);
+}
+
+const reports = simulateAllTables(drops, seed);
+const output = values.format === 'json'
+  ? JSON.stringify({ drops, seed, reports }, null, 2) + '\n'
+  : formatReportMarkdown(reports);
+
+if (values.out) {
+  writeFileSync(values.out, output);
+  console.log(`Report written to ${values.out}`);
+} else {
+  process.stdout.write(output);
+}
+
+const outOfBand = reports.filter((r) => !r.inBand);
+if (outOfBand.length > 0) {
+  console.error(
+    `RTP out of band: ${outOfBand.map((r) => `${r.risk}/${r.rows} (${(r.expectedRTP * 100).toFixed(2)}%)`).join(', ')}`
+  );
+  process.exit(1);
+}
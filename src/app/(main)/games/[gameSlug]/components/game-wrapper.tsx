@@ -8,8 +8,12 @@ import { gameLogger } from '@/lib/utils/logger';
 // Register games
 import ticTacToeModule from '@/features/games/tic-tac-toe';
 import plinkoModule from '@/features/games/plinko';
+import connectFourModule from '@/features/games/connect-four';
+import chessModule from '@/features/games/chess';
 gameRegistry.register(ticTacToeModule);
 gameRegistry.register(plinkoModule);
+gameRegistry.register(connectFourModule);
+gameRegistry.register(chessModule);
 
 interface GameWrapperProps {
   gameSlug: string;
@@ -0,0 +1,121 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import dynamic from 'next/dynamic';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { ArrowLeft, Loader2, LogIn } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { useAuth } from '@/features/auth';
+import { gameRoomService } from '@/features/games/common/services/game-room-service';
+
+const AuthModal = dynamic(() => import('@/features/auth').then(m => m.AuthModal), { ssr: false });
+
+interface JoinInviteProps {
+  gameName: string;
+  gameIcon: string;
+  /** Normalized invite code (null = malformed link) */
+  inviteCode: string | null;
+}
+
+interface ResolvedInvite {
+  roomId: string;
+  gameType: string;
+}
+
+/**
+ * Landing for /games/<game>/join/<code>: resolves the code, asks to sign in if
+ * needed, then hands over to the game page, which joins with joinRoomById
+ */
+export function JoinInvite({ gameName, gameIcon, inviteCode }: JoinInviteProps) {
+  const router = useRouter();
+  const { isAuthenticated, isLoading: isAuthLoading } = useAuth();
+  const [invite, setInvite] = useState<ResolvedInvite | null>(null);
+  const [error, setError] = useState<string | null>(inviteCode ? null : 'El link de invitación no es válido');
+  const [showAuthModal, setShowAuthModal] = useState(false);
+
+  // Resolve the code first so an expired invite is reported before asking to sign in
+  useEffect(() => {
+    if (!inviteCode) return;
+
+    let cancelled = false;
+    gameRoomService.resolveInviteCode(inviteCode).then(({ roomId, gameType, error: resolveError }) => {
+      if (cancelled) return;
+      if (roomId && gameType) {
+        setInvite({ roomId, gameType });
+      } else {
+        setError(resolveError);
+      }
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [inviteCode]);
+
+  // Signed in: the game page picks up ?room= and joins
+  useEffect(() => {
+    if (!invite || isAuthLoading) return;
+
+    if (isAuthenticated) {
+      router.replace(`/games/${invite.gameType}?room=${invite.roomId}`);
+    } else {
+      setShowAuthModal(true); // eslint-disable-line react-hooks/set-state-in-effect -- prompt once the invite is valid
+    }
+  }, [invite, isAuthenticated, isAuthLoading, router]);
+
+  const isResolving = !error && !invite;
+
+  return (
+    <div className="game-container relative flex flex-col items-center justify-center min-h-[70vh] p-6">
+      <Link
+        href="/games"
+        className="absolute top-2 left-2 sm:top-4 sm:left-4 flex items-center gap-2 px-3 h-10 text-sm text-(--color-text-muted) hover:text-(--color-text)"
+      >
+        <ArrowLeft size={18} />
+        <span className="hidden sm:inline">Juegos</span>
+      </Link>
+
+      <div className="flex flex-col items-center gap-4 text-center max-w-sm">
+        <span className="text-5xl" aria-hidden="true">{gameIcon}</span>
+        <h1 className="text-2xl font-heading font-bold text-(--color-text)">
+          Invitación a {gameName}
+        </h1>
+
+        {error ? (
+          <>
+            <p className="text-(--color-text-muted)">{error}</p>
+            <p className="text-sm text-(--color-text-subtle)">
+              Pídele a tu amigo que cree otra sala y te envíe un link nuevo.
+            </p>
+          </>
+        ) : isResolving || isAuthLoading || isAuthenticated ? (
+          <div className="flex items-center gap-2 text-(--color-text-muted)">
+            <Loader2 className="animate-spin" size={18} />
+            <span>{isResolving ? 'Buscando la sala...' : 'Entrando a la sala...'}</span>
+          </div>
+        ) : (
+          <>
+            <p className="text-(--color-text-muted)">
+              Inicia sesión para unirte a la partida.
+            </p>
+            <Button onClick={() => setShowAuthModal(true)} className="gap-2">
+              <LogIn size={18} />
+              Iniciar sesión
+            </Button>
+          </>
+        )}
+      </div>
+
+      {showAuthModal && (
+        <AuthModal
+          isOpen={showAuthModal && !isAuthenticated}
+          onClose={() => setShowAuthModal(false)}
+          message="Inicia sesión para unirte a la partida de tu amigo"
+        />
+      )}
+    </div>
+  );
+}
+
+export default JoinInvite;
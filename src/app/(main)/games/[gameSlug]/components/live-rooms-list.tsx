@@ -0,0 +1,100 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import Link from 'next/link';
+import { motion } from 'framer-motion';
+import { ArrowLeft, Eye, Loader2, RefreshCw, Coins } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { gameRoomService, type GameRoomWithPlayers, type GameRoomMetadata } from '@/features/games/common/services/game-room-service';
+import { formatBalance } from '@/features/wallet/store/wallet-store';
+import type { GameConfig } from '@/features/games/registry/types';
+
+// Refresh the list while the page is open
+const REFRESH_INTERVAL_MS = 10000;
+
+interface LiveRoomsListProps {
+  config: GameConfig;
+}
+
+export function LiveRoomsList({ config }: LiveRoomsListProps) {
+  const [rooms, setRooms] = useState<GameRoomWithPlayers[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const loadRooms = useCallback(async () => {
+    const liveRooms = await gameRoomService.findLiveRooms(config.slug);
+    setRooms(liveRooms);
+    setIsLoading(false);
+  }, [config.slug]);
+
+  useEffect(() => {
+    // eslint-disable-next-line react-hooks/set-state-in-effect -- initial fetch
+    loadRooms();
+    const interval = setInterval(loadRooms, REFRESH_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [loadRooms]);
+
+  return (
+    <div className="game-container relative flex flex-col items-center p-4 sm:p-6">
+      <Link
+        href={`/games/${config.slug}`}
+        className="absolute top-2 left-2 sm:top-4 sm:left-4 flex items-center gap-2 px-3 h-10 text-sm text-(--color-text-muted) hover:text-(--color-text)"
+      >
+        <ArrowLeft size={18} />
+        <span className="hidden sm:inline">Volver</span>
+      </Link>
+
+      <motion.div
+        className="text-center mb-6 sm:mb-8 mt-8"
+        initial={{ opacity: 0, y: -20 }}
+        animate={{ opacity: 1, y: 0 }}
+      >
+        <h1 className="text-2xl sm:text-3xl font-heading font-bold text-(--color-text)">
+          {config.name} en vivo
+        </h1>
+        <p className="text-sm text-(--color-text-muted) mt-1">Elige una partida para mirar</p>
+      </motion.div>
+
+      <div className="w-full max-w-md space-y-2">
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="animate-spin text-(--color-primary)" size={32} />
+          </div>
+        ) : rooms.length === 0 ? (
+          <div className="text-center py-8">
+            <p className="text-(--color-text-muted)">No hay partidas públicas en curso</p>
+            <Button onClick={loadRooms} variant="ghost" size="sm" className="mt-3 gap-2">
+              <RefreshCw size={16} />
+              Actualizar
+            </Button>
+          </div>
+        ) : (
+          rooms.map((room) => {
+            const betAmount = (room.metadata as GameRoomMetadata | null)?.bet_amount;
+            return (
+              <Link
+                key={room.id}
+                href={`/games/${config.slug}/watch?room=${room.id}`}
+                className="flex items-center justify-between gap-3 p-3 rounded-xl border border-(--color-border) bg-(--color-surface) hover:border-(--color-primary) transition-colors"
+              >
+                <span className="min-w-0 truncate text-sm">
+                  <span className="font-semibold text-(--color-text)">{room.player1?.username || 'Jugador 1'}</span>
+                  <span className="text-(--color-text-muted)"> vs </span>
+                  <span className="font-semibold text-(--color-text)">{room.player2?.username || 'Jugador 2'}</span>
+                </span>
+                <span className="flex items-center gap-3 shrink-0 text-xs text-(--color-text-muted)">
+                  {betAmount && betAmount > 0 && (
+                    <span className="flex items-center gap-1 text-(--color-warning)">
+                      <Coins size={14} />
+                      {formatBalance(betAmount * 2)}
+                    </span>
+                  )}
+                  <Eye size={16} />
+                </span>
+              </Link>
+            );
+          })
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,106 @@
+'use client';
+
+import { useState, type ComponentType } from 'react';
+import Link from 'next/link';
+import { ArrowLeft, Eye, Loader2, Copy, Check, Coins } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { useAuth } from '@/features/auth';
+import { useSpectatorRoom } from '@/features/games/common/hooks';
+import type { GameRoomMetadata } from '@/features/games/common/services/game-room-service';
+import { formatBalance } from '@/features/wallet/store/wallet-store';
+import { gameLogger } from '@/lib/utils/logger';
+import type { GameConfig, SpectatorBoardProps } from '@/features/games/registry/types';
+
+interface SpectatorViewProps {
+  config: GameConfig;
+  roomId: string;
+  SpectatorBoard: ComponentType<SpectatorBoardProps>;
+}
+
+export function SpectatorView({ config, roomId, SpectatorBoard }: SpectatorViewProps) {
+  const { user } = useAuth();
+  const { room, isLoading, error, spectatorCount } = useSpectatorRoom({ roomId, userId: user?.id });
+  const [copied, setCopied] = useState(false);
+
+  const copyWatchLink = async () => {
+    const link = `${window.location.origin}/games/${config.slug}/watch?room=${roomId}`;
+    try {
+      await navigator.clipboard.writeText(link);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (err) {
+      gameLogger.error('Failed to copy link:', err);
+    }
+  };
+
+  const player1Name = room?.player1?.username || 'Jugador 1';
+  const player2Name = room?.player2?.username || 'Jugador 2';
+  const nameFor = (playerId: string | null) =>
+    playerId === room?.player1_id ? player1Name : player2Name;
+  const betAmount = (room?.metadata as GameRoomMetadata | null | undefined)?.bet_amount;
+
+  return (
+    <div className="game-container relative flex flex-col items-center p-4 sm:p-6">
+      <Link
+        href={`/games/${config.slug}/watch`}
+        className="absolute top-2 left-2 sm:top-4 sm:left-4 flex items-center gap-2 px-3 h-10 text-sm text-(--color-text-muted) hover:text-(--color-text)"
+      >
+        <ArrowLeft size={18} />
+        <span className="hidden sm:inline">Partidas</span>
+      </Link>
+
+      {isLoading ? (
+        <div className="flex flex-1 items-center justify-center py-16">
+          <Loader2 className="animate-spin text-(--color-primary)" size={32} />
+        </div>
+      ) : !room ? (
+        <p className="text-(--color-text-muted) py-16">{error || 'La partida no existe o ya no es pública'}</p>
+      ) : (
+        <>
+          <div className="text-center mt-8 mb-4">
+            <p className="text-lg">
+              <span className="font-semibold text-(--color-text)">{player1Name}</span>
+              <span className="text-(--color-text-muted)"> vs </span>
+              <span className="font-semibold text-(--color-text)">{player2Name}</span>
+            </p>
+
+            <div className="flex items-center justify-center gap-3 mt-2 text-sm text-(--color-text-muted)">
+              <span className="flex items-center gap-1" aria-label={`${spectatorCount} espectadores`}>
+                <Eye size={16} />
+                {spectatorCount}
+              </span>
+              {betAmount && betAmount > 0 && (
+                <span className="flex items-center gap-1 text-(--color-warning)">
+                  <Coins size={16} />
+                  Pot: {formatBalance(betAmount * 2)}
+                </span>
+              )}
+            </div>
+
+            {/* Game state */}
+            <p className="mt-3" role="status">
+              {room.status === 'playing' ? (
+                <span className="text-(--color-text-muted)">Turno de {nameFor(room.current_turn)}</span>
+              ) : room.status === 'finished' ? (
+                room.is_draw ? (
+                  <span className="font-bold text-(--color-accent)">¡Empate!</span>
+                ) : (
+                  <span className="font-bold text-(--color-success)">Ganó {nameFor(room.winner_id)}</span>
+                )
+              ) : (
+                <span className="text-(--color-text-muted)">Esperando jugadores...</span>
+              )}
+            </p>
+          </div>
+
+          <SpectatorBoard state={room.state} className="w-full max-w-md" />
+
+          <Button onClick={copyWatchLink} variant="outline" size="sm" className="mt-6 gap-2">
+            {copied ? <Check size={16} /> : <Copy size={16} />}
+            {copied ? '¡Link copiado!' : 'Compartir'}
+          </Button>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,49 @@
+'use client';
+
+import { gameRegistry } from '@/features/games/registry';
+import { ErrorBoundary } from '@/components/error/ErrorBoundary';
+import { gameLogger } from '@/lib/utils/logger';
+import { LiveRoomsList } from './live-rooms-list';
+import { SpectatorView } from './spectator-view';
+
+// Register games
+import ticTacToeModule from '@/features/games/tic-tac-toe';
+import plinkoModule from '@/features/games/plinko';
+import connectFourModule from '@/features/games/connect-four';
+import chessModule from '@/features/games/chess';
+gameRegistry.register(ticTacToeModule);
+gameRegistry.register(plinkoModule);
+gameRegistry.register(connectFourModule);
+gameRegistry.register(chessModule);
+
+interface SpectatorWrapperProps {
+  gameSlug: string;
+  /** Room to watch (null = list live rooms) */
+  roomId: string | null;
+}
+
+export function SpectatorWrapper({ gameSlug, roomId }: SpectatorWrapperProps) {
+  const game = gameRegistry.get(gameSlug);
+
+  if (!game?.SpectatorBoard) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <p className="text-(--color-text-muted)">Este juego no tiene modo espectador</p>
+      </div>
+    );
+  }
+
+  return (
+    <ErrorBoundary
+      onError={(error) => {
+        gameLogger.error(`[${gameSlug}] Spectator error:`, error);
+      }}
+    >
+      {roomId ? (
+        <SpectatorView config={game.config} roomId={roomId} SpectatorBoard={game.SpectatorBoard} />
+      ) : (
+        <LiveRoomsList config={game.config} />
+      )}
+    </ErrorBoundary>
+  );
+}
@@ -0,0 +1,53 @@
+import { notFound } from 'next/navigation';
+import { gameRegistry } from '@/features/games/registry';
+import { JoinInvite } from '../../components/join-invite';
+
+// Register games (ideally this should be in a central place)
+import ticTacToeModule from '@/features/games/tic-tac-toe';
+import plinkoModule from '@/features/games/plinko';
+import connectFourModule from '@/features/games/connect-four';
+import chessModule from '@/features/games/chess';
+gameRegistry.register(ticTacToeModule);
+gameRegistry.register(plinkoModule);
+gameRegistry.register(connectFourModule);
+gameRegistry.register(chessModule);
+
+// Invite codes are short alphanumerics; tolerate a dash typed by hand
+const INVITE_CODE_REGEX = /^[A-Za-z0-9-]{4,16}$/;
+
+interface JoinPageProps {
+  params: Promise<{
+    gameSlug: string;
+    code: string;
+  }>;
+}
+
+export async function generateMetadata({ params }: JoinPageProps) {
+  const { gameSlug } = await params;
+  const game = gameRegistry.get(gameSlug);
+
+  if (!game) {
+    return {
+      title: 'Juego no encontrado',
+    };
+  }
+
+  return {
+    title: `Invitación a ${game.config.name} | El Rincon de Charly`,
+    description: `Únete a una partida privada de ${game.config.name}`,
+  };
+}
+
+export default async function JoinPage({ params }: JoinPageProps) {
+  const { gameSlug, code } = await params;
+  const game = gameRegistry.get(gameSlug);
+
+  if (!game || !game.config.enabled || !game.config.supportsOnline) {
+    notFound();
+  }
+
+  // Validate code format before hitting the database
+  const inviteCode = INVITE_CODE_REGEX.test(code) ? code.replace(/-/g, '').toUpperCase() : null;
+
+  return <JoinInvite gameName={game.config.name} gameIcon={game.config.icon} inviteCode={inviteCode} />;
+}
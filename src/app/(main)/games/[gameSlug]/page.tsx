@@ -5,8 +5,12 @@ import { GameWrapper } from './components/game-wrapper';
 // Register games (ideally this should be in a central place)
 import ticTacToeModule from '@/features/games/tic-tac-toe';
 import plinkoModule from '@/features/games/plinko';
+import connectFourModule from '@/features/games/connect-four';
+import chessModule from '@/features/games/chess';
 gameRegistry.register(ticTacToeModule);
 gameRegistry.register(plinkoModule);
+gameRegistry.register(connectFourModule);
+gameRegistry.register(chessModule);
 
 interface GamePageProps {
   params: Promise<{
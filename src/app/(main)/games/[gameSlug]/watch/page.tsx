@@ -0,0 +1,56 @@
+import { notFound } from 'next/navigation';
+import { gameRegistry } from '@/features/games/registry';
+import { SpectatorWrapper } from '../components/spectator-wrapper';
+
+// Register games (ideally this should be in a central place)
+import ticTacToeModule from '@/features/games/tic-tac-toe';
+import plinkoModule from '@/features/games/plinko';
+import connectFourModule from '@/features/games/connect-four';
+import chessModule from '@/features/games/chess';
+gameRegistry.register(ticTacToeModule);
+gameRegistry.register(plinkoModule);
+gameRegistry.register(connectFourModule);
+gameRegistry.register(chessModule);
+
+// UUID v4 validation regex
+const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+
+interface WatchPageProps {
+  params: Promise<{
+    gameSlug: string;
+  }>;
+  searchParams: Promise<{
+    room?: string;
+  }>;
+}
+
+export async function generateMetadata({ params }: WatchPageProps) {
+  const { gameSlug } = await params;
+  const game = gameRegistry.get(gameSlug);
+
+  if (!game) {
+    return {
+      title: 'Juego no encontrado',
+    };
+  }
+
+  return {
+    title: `${game.config.name} en vivo | El Rincon de Charly`,
+    description: `Mira partidas de ${game.config.name} en tiempo real`,
+  };
+}
+
+export default async function WatchPage({ params, searchParams }: WatchPageProps) {
+  const { gameSlug } = await params;
+  const { room } = await searchParams;
+  const game = gameRegistry.get(gameSlug);
+
+  if (!game || !game.config.enabled || !game.SpectatorBoard) {
+    notFound();
+  }
+
+  // Validate room ID format to prevent enumeration attacks
+  const roomId = room && UUID_REGEX.test(room) ? room : null;
+
+  return <SpectatorWrapper gameSlug={gameSlug} roomId={roomId} />;
+}
@@ -29,7 +29,7 @@ interface GameCardProps {
 // Iconos para cada juego
 const gameIcons: Record<string, typeof Hash> = {
   'tic-tac-toe': Hash,
-  'connect-4': Circle,
+  'connect-four': Circle,
   chess: Crown,
   checkers: CircleDot,
   plinko: Pyramid,
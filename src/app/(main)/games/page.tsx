@@ -4,8 +4,12 @@ import { GamesHubClient } from './components/games-hub-client';
 // Register games
 import ticTacToeModule from '@/features/games/tic-tac-toe';
 import plinkoModule from '@/features/games/plinko';
+import connectFourModule from '@/features/games/connect-four';
+import chessModule from '@/features/games/chess';
 gameRegistry.register(ticTacToeModule);
 gameRegistry.register(plinkoModule);
+gameRegistry.register(connectFourModule);
+gameRegistry.register(chessModule);
 
 // Force dynamic rendering to ensure client providers are available
 export const dynamic = 'force-dynamic';
@@ -0,0 +1,26 @@
+import { notFound } from 'next/navigation';
+import { PublicProfileView } from '@/features/profile';
+
+// Same rule as usernames in account settings
+const USERNAME_REGEX = /^[a-zA-Z0-9_]{3,20}$/;
+
+interface PlayerPageProps {
+  params: Promise<{
+    username: string;
+  }>;
+}
+
+export const metadata = {
+  title: 'Perfil de jugador | El Rincon de Charly',
+  description: 'Rating e insignias del jugador',
+};
+
+export default async function PlayerPage({ params }: PlayerPageProps) {
+  const username = decodeURIComponent((await params).username);
+
+  if (!USERNAME_REGEX.test(username)) {
+    notFound();
+  }
+
+  return <PublicProfileView username={username} />;
+}
@@ -0,0 +1,37 @@
+import { notFound } from 'next/navigation';
+import { gameRegistry } from '@/features/games/registry';
+import { TournamentView } from '@/features/tournaments';
+
+// Register games
+import ticTacToeModule from '@/features/games/tic-tac-toe';
+import plinkoModule from '@/features/games/plinko';
+import connectFourModule from '@/features/games/connect-four';
+import chessModule from '@/features/games/chess';
+gameRegistry.register(ticTacToeModule);
+gameRegistry.register(plinkoModule);
+gameRegistry.register(connectFourModule);
+gameRegistry.register(chessModule);
+
+// UUID v4 validation regex
+const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+
+interface TournamentPageProps {
+  params: Promise<{
+    tournamentId: string;
+  }>;
+}
+
+export const metadata = {
+  title: 'Torneo | El Rincon de Charly',
+  description: 'Cuadro y resultados del torneo',
+};
+
+export default async function TournamentPage({ params }: TournamentPageProps) {
+  const { tournamentId } = await params;
+
+  if (!UUID_REGEX.test(tournamentId)) {
+    notFound();
+  }
+
+  return <TournamentView tournamentId={tournamentId} games={gameRegistry.getWithOnline()} />;
+}
@@ -0,0 +1,24 @@
+import { gameRegistry } from '@/features/games/registry';
+import { TournamentList } from '@/features/tournaments';
+
+// Register games
+import ticTacToeModule from '@/features/games/tic-tac-toe';
+import plinkoModule from '@/features/games/plinko';
+import connectFourModule from '@/features/games/connect-four';
+import chessModule from '@/features/games/chess';
+gameRegistry.register(ticTacToeModule);
+gameRegistry.register(plinkoModule);
+gameRegistry.register(connectFourModule);
+gameRegistry.register(chessModule);
+
+// Force dynamic rendering to ensure client providers are available
+export const dynamic = 'force-dynamic';
+
+export const metadata = {
+  title: 'Torneos | El Rincon de Charly',
+  description: 'Torneos de eliminación directa y todos contra todos',
+};
+
+export default function TournamentsPage() {
+  return <TournamentList games={gameRegistry.getWithOnline()} />;
+}
@@ -0,0 +1,142 @@
+import { NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { createAdminClient } from '@/lib/supabase/admin';
+import { getServerGame } from '@/features/games/registry/server';
+import type { RoomSnapshot } from '@/features/games/registry/types';
+import type { GameRoomMetadata } from '@/features/games/common/services/game-room-service';
+import { successResponse, errorResponse } from '@/actions/_shared/action-response';
+import { gameLogger } from '@/lib/utils/logger';
+import type { Json, Tables, UpdateTables } from '@/types/supabase.types';
+
+type GameRoomRow = Tables<'game_rooms'>;
+type GameRoomUpdate = UpdateTables<'game_rooms'>;
+
+interface MoveRouteContext {
+  params: Promise<{
+    gameSlug: string;
+    roomId: string;
+  }>;
+}
+
+function fail(message: string, errorCode: string, status: number) {
+  return NextResponse.json(errorResponse(message, errorCode), { status });
+}
+
+/**
+ * Apply a move to an online room
+ * The game engine validates the move against the stored state and derives
+ * winner/draw, so clients never write the board or the result themselves.
+ */
+export async function POST(request: Request, { params }: MoveRouteContext) {
+  const { gameSlug, roomId } = await params;
+
+  const game = getServerGame(gameSlug);
+  if (!game) {
+    return fail('Juego no soportado', 'UNKNOWN_GAME', 404);
+  }
+
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) {
+    return fail('Usuario no autenticado', 'UNAUTHENTICATED', 401);
+  }
+
+  let move: unknown;
+  try {
+    const body = await request.json() as { move?: unknown };
+    move = body.move;
+  } catch {
+    move = undefined;
+  }
+  if (move === undefined || move === null) {
+    return fail('Movimiento requerido', 'BAD_REQUEST', 400);
+  }
+
+  const admin = createAdminClient();
+
+  const { data, error: roomError } = await admin
+    .from('game_rooms')
+    .select('*')
+    .eq('id', roomId)
+    .single();
+
+  const room = data as GameRoomRow | null;
+  if (roomError || !room || room.game_type !== gameSlug) {
+    return fail('Sala no encontrada', 'NOT_FOUND', 404);
+  }
+
+  if (room.status !== 'playing') {
+    return fail('La partida no está en curso', 'CONFLICT', 409);
+  }
+
+  if (room.current_turn !== user.id) {
+    return fail('No es tu turno', 'CONFLICT', 409);
+  }
+
+  // Turn clock: a move after the deadline loses the game instead
+  const turnDeadline = (room.metadata as GameRoomMetadata | null)?.turn_deadline;
+  if (turnDeadline && Date.now() > new Date(turnDeadline).getTime()) {
+    // @ts-expect-error - Supabase RPC types require CLI regeneration (supabase gen types)
+    const { error: timeoutError } = await admin.rpc('check_turn_timeout', { p_room_id: roomId });
+    if (timeoutError) {
+      gameLogger.error('Turn timeout check failed:', roomId, timeoutError);
+    }
+    return fail('Se acabó el tiempo del turno', 'CONFLICT', 409);
+  }
+
+  const snapshot: RoomSnapshot = {
+    state: room.state,
+    current_turn: room.current_turn,
+    player1_id: room.player1_id,
+    player2_id: room.player2_id,
+  };
+
+  const playerKey = game.playerKey(snapshot, user.id);
+  if (!playerKey) {
+    return fail('No sos parte de esta sala', 'FORBIDDEN', 403);
+  }
+
+  const engine = new game.Engine();
+  const state = game.serializer.deserialize(snapshot.state);
+
+  if (!engine.isValidMove(state, move, playerKey)) {
+    return fail('Movimiento inválido', 'INVALID_MOVE', 422);
+  }
+
+  const nextState = engine.applyMove(state, move, playerKey);
+  const winnerKey = engine.getWinner(nextState);
+  const isDraw = !winnerKey && engine.isDraw(nextState);
+  const isOver = winnerKey !== null || isDraw;
+  const nextTurn = room.player1_id === user.id ? room.player2_id : room.player1_id;
+  const now = new Date().toISOString();
+  const moveLog = Array.isArray(room.move_log) ? room.move_log : [];
+
+  const updateData = {
+    state: game.serializer.serialize(nextState),
+    move_log: [...moveLog, { player_id: user.id, move: move as Json, created_at: now }],
+    current_turn: nextTurn,
+    updated_at: now,
+    ...(isOver && {
+      status: 'finished',
+      winner_id: winnerKey ? game.userIdForKey(snapshot, winnerKey) : null,
+      is_draw: isDraw,
+    }),
+  } satisfies GameRoomUpdate;
+
+  // Optimistic locking: only apply if it's still this player's turn
+  const { data: updatedRoom, error: updateError } = await (admin
+    .from('game_rooms') as ReturnType<typeof admin.from>)
+    .update(updateData)
+    .eq('id', roomId)
+    .eq('current_turn', user.id)
+    .eq('status', 'playing')
+    .select()
+    .single();
+
+  if (updateError || !updatedRoom) {
+    gameLogger.warn('Move conflict:', roomId, updateError);
+    return fail('El estado de la sala cambió', 'CONFLICT', 409);
+  }
+
+  return NextResponse.json(successResponse(updatedRoom as GameRoomRow));
+}
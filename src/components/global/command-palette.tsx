@@ -9,6 +9,8 @@ import {
   Moon,
   Flame,
   Triangle,
+  CircleDot,
+  Crown,
 } from 'lucide-react';
 import {
   CommandDialog,
@@ -25,12 +27,16 @@ import { useTheme, type Theme } from '@/components/client/theme-provider';
 const gameIcons: Record<string, typeof Hash> = {
   'tic-tac-toe': Hash,
   'plinko': Triangle,
+  'connect-four': CircleDot,
+  'chess': Crown,
 };
 
 // Available games (only show games that are actually playable)
 const games = [
   { slug: 'tic-tac-toe', name: 'Tic Tac Toe' },
   { slug: 'plinko', name: 'Plinko' },
+  { slug: 'connect-four', name: 'Conecta 4' },
+  { slug: 'chess', name: 'Ajedrez' },
 ];
 
 // Theme options
@@ -7,6 +7,7 @@ import { Menu } from 'lucide-react';
 import { ThemeSelector } from '@/features/settings';
 import { UserMenu } from '@/features/auth';
 import { WalletBalance } from '@/features/wallet';
+import { NotificationBell } from '@/features/notifications';
 import { cn } from '@/lib/utils';
 
 // Dynamic import for modal - reduces initial bundle
@@ -78,6 +79,7 @@ export function Header() {
             onClick={() => setIsWalletModalOpen(true)}
           />
           <ThemeSelector />
+          <NotificationBell />
           <UserMenu />
         </div>
       </header>
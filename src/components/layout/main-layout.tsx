@@ -5,6 +5,10 @@ import { Sidebar, MobileSidebar, useIsCollapsed } from './sidebar';
 import { MobileNav } from './mobile-nav';
 import { CommandPalette } from '@/components/global/command-palette';
 import { PageTransition } from '@/components/client/page-transition';
+import { PresenceTracker, ChallengeInvites } from '@/features/friends';
+import { BackgroundMusic } from '@/features/audio';
+import { NotificationFeeds } from '@/features/notifications';
+import { AchievementUnlocks } from '@/features/achievements';
 
 interface MainLayoutProps {
   children: React.ReactNode;
@@ -74,6 +78,15 @@ export function MainLayout({ children }: MainLayoutProps) {
         onOpenChange={setIsCommandPaletteOpen}
         isMobile={isMobile}
       />
+
+      {/* Friends presence and incoming challenges */}
+      <PresenceTracker />
+      <ChallengeInvites />
+      <NotificationFeeds />
+      <AchievementUnlocks />
+
+      {/* Background music (kept here so it survives route changes) */}
+      <BackgroundMusic />
     </div>
   );
 }
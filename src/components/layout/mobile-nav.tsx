@@ -5,6 +5,8 @@ import Link from 'next/link';
 import { usePathname } from 'next/navigation';
 import { Gamepad2, Search } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import { useAuth } from '@/features/auth';
+import { NotificationBell } from '@/features/notifications';
 
 interface MobileNavProps {
   onSearchClick: () => void;
@@ -16,6 +18,7 @@ export function MobileNav({
   mobileSidebar,
 }: MobileNavProps) {
   const pathname = usePathname();
+  const { isAuthenticated } = useAuth();
 
   // Check if we're on the games page or inside a game
   const isGamesActive = pathname?.startsWith('/games');
@@ -44,6 +47,12 @@ export function MobileNav({
         <Search size={20} aria-hidden="true" />
         <span>Buscar</span>
       </button>
+
+      {isAuthenticated && (
+        <div className="bottom-nav-item">
+          <NotificationBell side="top" />
+        </div>
+      )}
     </nav>
   );
 }
@@ -4,11 +4,13 @@ import { useState, useEffect } from 'react';
 import Link from 'next/link';
 import {
   Gamepad2,
+  Trophy,
   Search,
   Menu,
 } from 'lucide-react';
 import { Logo } from '@/components/brand/logo';
-import { UserMenu } from '@/features/auth';
+import { UserMenu, useAuth } from '@/features/auth';
+import { FriendsPanel } from '@/features/friends';
 import { Button } from '@/components/ui/button';
 import {
   Sheet,
@@ -24,6 +26,7 @@ interface MobileSidebarProps {
 
 export function MobileSidebar({ onSearchClick }: MobileSidebarProps) {
   const [isOpen, setIsOpen] = useState(false);
+  const { isAuthenticated } = useAuth();
   const [mounted, setMounted] = useState(false);
 
   // Prevent hydration mismatch with Radix UI generated IDs
@@ -75,6 +78,12 @@ export function MobileSidebar({ onSearchClick }: MobileSidebarProps) {
                 Juegos
               </Button>
             </Link>
+            <Link href="/tournaments" onClick={() => setIsOpen(false)} className="block mt-2">
+              <Button variant="ghost" className="w-full gap-2">
+                <Trophy size={18} />
+                Torneos
+              </Button>
+            </Link>
           </div>
 
           {/* Search */}
@@ -95,8 +104,10 @@ export function MobileSidebar({ onSearchClick }: MobileSidebarProps) {
             </Button>
           </div>
 
-          {/* Spacer */}
-          <div className="flex-1" />
+          {/* Friends (fills the remaining space) */}
+          <div className="flex-1 min-h-0 overflow-y-auto px-4 pb-4">
+            {isAuthenticated && <FriendsPanel />}
+          </div>
 
           {/* Footer */}
           <div className="p-4 border-t border-(--sidebar-border)">
@@ -4,13 +4,17 @@ import { useState, useEffect, useRef, useCallback } from 'react';
 import Link from 'next/link';
 import {
   Gamepad2,
+  Trophy,
   Search,
   PanelLeftClose,
   PanelLeft,
+  Users,
 } from 'lucide-react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { Logo, LogoIcon } from '@/components/brand/logo';
 import { UserMenu, useAuth } from '@/features/auth';
+import { FriendsPanel } from '@/features/friends';
+import { NotificationBell } from '@/features/notifications';
 import {
   Tooltip,
   TooltipContent,
@@ -210,12 +214,14 @@ export function Sidebar({ onSearchClick }: SidebarProps) {
           <AnimatePresence initial={false}>
             {showExpanded && (
               <motion.div
+                className="flex items-center gap-1"
                 variants={fadeInOut}
                 initial="initial"
                 animate="animate"
                 exit="exit"
                 transition={{ duration: 0.15 }}
               >
+                {isAuthenticated && <NotificationBell side="right" />}
                 <Tooltip>
                   <TooltipTrigger asChild>
                     <Button
@@ -262,6 +268,7 @@ export function Sidebar({ onSearchClick }: SidebarProps) {
                   Expandir (Ctrl+B)
                 </TooltipContent>
               </Tooltip>
+              {isAuthenticated && <NotificationBell side="right" className="w-full h-10 mt-2" />}
             </motion.div>
           )}
         </AnimatePresence>
@@ -292,6 +299,20 @@ export function Sidebar({ onSearchClick }: SidebarProps) {
                   </TooltipTrigger>
                   <TooltipContent side="right">Juegos</TooltipContent>
                 </Tooltip>
+                <Tooltip>
+                  <TooltipTrigger asChild>
+                    <Link href="/tournaments" className="block mt-2">
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="w-full h-10"
+                      >
+                        <Trophy size={18} />
+                      </Button>
+                    </Link>
+                  </TooltipTrigger>
+                  <TooltipContent side="right">Torneos</TooltipContent>
+                </Tooltip>
               </motion.div>
             ) : (
               <motion.div
@@ -311,6 +332,15 @@ export function Sidebar({ onSearchClick }: SidebarProps) {
                     Juegos
                   </Button>
                 </Link>
+                <Link href="/tournaments" className="block mt-2">
+                  <Button
+                    variant="ghost"
+                    className="w-full gap-2"
+                  >
+                    <Trophy size={18} />
+                    Torneos
+                  </Button>
+                </Link>
               </motion.div>
             )}
           </AnimatePresence>
@@ -370,8 +400,45 @@ export function Sidebar({ onSearchClick }: SidebarProps) {
           )}
         </AnimatePresence>
 
-        {/* Spacer */}
-        <div className="flex-1" />
+        {/* Friends (fills the remaining space) */}
+        <div className="flex-1 min-h-0 overflow-y-auto">
+          {isAuthenticated && (
+            <AnimatePresence mode="wait" initial={false}>
+              {showExpanded ? (
+                <motion.div
+                  key="expanded-friends"
+                  className="px-4 pb-4"
+                  variants={slideIn}
+                  initial="initial"
+                  animate="animate"
+                  exit="exit"
+                  transition={{ duration: 0.15 }}
+                >
+                  <FriendsPanel />
+                </motion.div>
+              ) : (
+                <motion.div
+                  key="collapsed-friends"
+                  className="p-2"
+                  variants={fadeInOut}
+                  initial="initial"
+                  animate="animate"
+                  exit="exit"
+                  transition={{ duration: 0.15 }}
+                >
+                  <Tooltip>
+                    <TooltipTrigger asChild>
+                      <Button variant="ghost" size="icon" className="w-full h-10" aria-label="Amigos" onClick={toggle}>
+                        <Users size={18} aria-hidden="true" />
+                      </Button>
+                    </TooltipTrigger>
+                    <TooltipContent side="right">Amigos</TooltipContent>
+                  </Tooltip>
+                </motion.div>
+              )}
+            </AnimatePresence>
+          )}
+        </div>
 
         {/* Footer */}
         <div className={cn('border-t border-(--sidebar-border) transition-all duration-200', showExpanded ? 'p-4' : 'p-3')}>
@@ -0,0 +1,130 @@
+'use client';
+
+import { Award, Lock, Loader2 } from 'lucide-react';
+import { cn } from '@/lib/utils/cn';
+import { formatBalance } from '@/features/wallet/store/wallet-store';
+import { useAchievements } from '../hooks/use-achievements';
+import { ACHIEVEMENT_ICONS, ACHIEVEMENT_TIERS } from '../constants';
+import type { AchievementStatus } from '../types';
+
+interface AchievementShowcaseProps {
+  userId: string | null;
+  /** Hide locked achievements (e.g. on other players' profiles) */
+  unlockedOnly?: boolean;
+  className?: string;
+}
+
+function formatUnlockDate(unlockedAt: string): string {
+  return new Date(unlockedAt).toLocaleDateString('es', { day: 'numeric', month: 'short', year: 'numeric' });
+}
+
+function AchievementBadge({ achievement }: { achievement: AchievementStatus }) {
+  const Icon = ACHIEVEMENT_ICONS[achievement.icon] || Award;
+  const tier = ACHIEVEMENT_TIERS[achievement.tier];
+  const isUnlocked = !!achievement.unlocked_at;
+  const percent = achievement.progress !== null && achievement.goal > 0
+    ? Math.round((achievement.progress / achievement.goal) * 100)
+    : null;
+
+  return (
+    <div
+      className={cn(
+        'flex items-start gap-3 p-3 rounded-xl border',
+        isUnlocked
+          ? 'bg-(--color-surface) border-(--color-border)'
+          : 'bg-(--color-background)/50 border-(--color-border)/50'
+      )}
+    >
+      <div
+        className={cn(
+          'relative w-11 h-11 rounded-full border flex items-center justify-center shrink-0',
+          isUnlocked ? tier.className : 'text-(--color-text-subtle) bg-(--color-background) border-(--color-border)'
+        )}
+        title={tier.label}
+      >
+        <Icon size={20} />
+        {!isUnlocked && (
+          <Lock size={12} className="absolute -bottom-0.5 -right-0.5 text-(--color-text-muted)" />
+        )}
+      </div>
+
+      <div className="flex-1 min-w-0">
+        <p className={cn('text-sm font-semibold truncate', isUnlocked ? 'text-(--color-text)' : 'text-(--color-text-muted)')}>
+          {achievement.name}
+        </p>
+        <p className="text-xs text-(--color-text-muted)">{achievement.description}</p>
+
+        {isUnlocked ? (
+          <p className="text-[11px] text-(--color-text-subtle) mt-1">
+            {formatUnlockDate(achievement.unlocked_at!)}
+          </p>
+        ) : percent !== null ? (
+          <div className="mt-1.5 h-1.5 rounded-full bg-(--color-border) overflow-hidden" title={`${percent}%`}>
+            <div className="h-full bg-(--color-primary)" style={{ width: `${percent}%` }} />
+          </div>
+        ) : null}
+      </div>
+
+      {achievement.bonus > 0 && (
+        <span
+          className={cn(
+            'text-[11px] font-semibold shrink-0',
+            isUnlocked ? 'text-(--color-success)' : 'text-(--color-text-subtle)'
+          )}
+        >
+          +{formatBalance(achievement.bonus)}
+        </span>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Badge showcase: unlocked achievements with their tier, locked ones with
+ * progress (only your own progress is visible).
+ */
+export function AchievementShowcase({ userId, unlockedOnly = false, className }: AchievementShowcaseProps) {
+  const { achievements, unlockedCount, isLoading } = useAchievements({ userId });
+
+  if (!userId) {
+    return (
+      <p className={cn('text-sm text-center text-(--color-text-muted) py-6', className)}>
+        Inicia sesión para desbloquear logros
+      </p>
+    );
+  }
+
+  if (isLoading) {
+    return (
+      <div className={cn('flex justify-center py-8', className)}>
+        <Loader2 size={20} className="animate-spin text-(--color-primary)" />
+      </div>
+    );
+  }
+
+  const visible = unlockedOnly
+    ? achievements.filter((achievement) => achievement.unlocked_at)
+    : achievements;
+
+  return (
+    <div className={cn('space-y-3', className)}>
+      <p className="text-xs font-medium text-(--color-text-muted)">
+        {unlockedCount} de {achievements.length} logros desbloqueados
+      </p>
+
+      {visible.length === 0 ? (
+        <p className="text-sm text-center text-(--color-text-muted) py-6">
+          Todavía no hay insignias
+        </p>
+      ) : (
+        <div className="grid gap-2 sm:grid-cols-2">
+          {visible.map((achievement) => (
+            <AchievementBadge key={achievement.id} achievement={achievement} />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default AchievementShowcase;
@@ -0,0 +1,42 @@
+'use client';
+
+import { useEffect } from 'react';
+import { useAuth } from '@/features/auth';
+import { notificationService } from '@/features/notifications';
+import { useWalletStore, formatBalance } from '@/features/wallet/store/wallet-store';
+import { achievementService } from '../services/achievement-service';
+
+/**
+ * Announces achievements unlocked by the server (toast + notification
+ * center) and refreshes the wallet when they pay a bonus. Renders nothing;
+ * mount once in the layout.
+ */
+export function AchievementUnlocks() {
+  const { user } = useAuth();
+  const userId = user?.id;
+
+  useEffect(() => {
+    if (!userId) return;
+
+    return achievementService.subscribeToUnlocks(userId, async (unlock) => {
+      const achievement = await achievementService.getAchievement(unlock.achievement_id);
+      if (!achievement) return;
+
+      notificationService.notify({
+        kind: 'achievement_unlocked',
+        title: `Logro desbloqueado: ${achievement.name}`,
+        body: achievement.bonus > 0
+          ? `${achievement.description} · +${formatBalance(achievement.bonus)}`
+          : achievement.description,
+      });
+
+      if (achievement.bonus > 0) {
+        useWalletStore.getState().refreshWallet();
+      }
+    });
+  }, [userId]);
+
+  return null;
+}
+
+export default AchievementUnlocks;
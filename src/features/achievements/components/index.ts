@@ -0,0 +1,2 @@
+export { AchievementShowcase } from './achievement-showcase';
+export { AchievementUnlocks } from './achievement-unlocks';
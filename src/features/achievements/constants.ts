@@ -0,0 +1,50 @@
+import {
+  Award,
+  Brain,
+  Clock,
+  Crown,
+  Flame,
+  Gem,
+  Globe,
+  Medal,
+  Sparkles,
+  Star,
+  Swords,
+  Trophy,
+  Users,
+  type LucideIcon,
+} from 'lucide-react';
+import type { AchievementTier } from './types';
+
+// Iconos referenciados por achievements.icon (los desconocidos se muestran con Award)
+export const ACHIEVEMENT_ICONS: Record<string, LucideIcon> = {
+  award: Award,
+  brain: Brain,
+  clock: Clock,
+  crown: Crown,
+  flame: Flame,
+  gem: Gem,
+  globe: Globe,
+  medal: Medal,
+  sparkles: Sparkles,
+  star: Star,
+  swords: Swords,
+  trophy: Trophy,
+  users: Users,
+};
+
+// Mismos colores que el podio del leaderboard
+export const ACHIEVEMENT_TIERS: Record<AchievementTier, { label: string; className: string }> = {
+  bronze: {
+    label: 'Bronce',
+    className: 'text-(--color-warning-muted) bg-(--color-warning-muted)/10 border-(--color-warning-muted)/30',
+  },
+  silver: {
+    label: 'Plata',
+    className: 'text-(--color-text-muted) bg-(--color-text-muted)/10 border-(--color-text-muted)/30',
+  },
+  gold: {
+    label: 'Oro',
+    className: 'text-(--color-warning) bg-(--color-warning)/10 border-(--color-warning)/30',
+  },
+};
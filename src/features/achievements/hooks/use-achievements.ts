@@ -0,0 +1,52 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { achievementService } from '../services/achievement-service';
+import type { AchievementStatus } from '../types';
+
+interface UseAchievementsOptions {
+  userId: string | null;
+}
+
+export function useAchievements({ userId }: UseAchievementsOptions) {
+  const [achievements, setAchievements] = useState<AchievementStatus[]>([]);
+  const [isLoading, setIsLoading] = useState(!!userId);
+
+  const fetchAchievements = useCallback(async () => {
+    if (!userId) {
+      setAchievements([]);
+      setIsLoading(false);
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      setAchievements(await achievementService.getAchievements(userId));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [userId]);
+
+  useEffect(() => {
+    fetchAchievements();
+  }, [fetchAchievements]);
+
+  // Refrescar al desbloquear uno nuevo mientras se está mirando la vitrina
+  useEffect(() => {
+    if (!userId) return;
+    return achievementService.subscribeToUnlocks(userId, () => {
+      fetchAchievements();
+    });
+  }, [userId, fetchAchievements]);
+
+  const unlockedCount = achievements.filter((achievement) => achievement.unlocked_at).length;
+
+  return {
+    achievements,
+    unlockedCount,
+    isLoading,
+    refetch: fetchAchievements,
+  };
+}
+
+export default useAchievements;
@@ -0,0 +1,5 @@
+export { achievementService } from './services/achievement-service';
+export { useAchievements } from './hooks/use-achievements';
+export { AchievementShowcase, AchievementUnlocks } from './components';
+export { ACHIEVEMENT_ICONS, ACHIEVEMENT_TIERS } from './constants';
+export type { Achievement, AchievementStatus, AchievementTier, AchievementUnlock } from './types';
@@ -0,0 +1,122 @@
+'use client';
+
+import { getClient } from '@/lib/supabase/client';
+import type { RealtimeChannel } from '@supabase/supabase-js';
+import { createLogger } from '@/lib/utils/logger';
+import type { Achievement, AchievementStatus, AchievementUnlock } from '../types';
+
+const log = createLogger({ prefix: 'AchievementService' });
+const realtimeLog = createLogger({ prefix: 'Realtime' });
+
+// DECIMAL y NUMERIC llegan como string desde PostgREST
+function toAchievementStatus(row: Record<string, unknown>): AchievementStatus {
+  return {
+    ...(row as unknown as AchievementStatus),
+    bonus: Number(row.bonus),
+    progress: row.progress === null ? null : Number(row.progress),
+    goal: Number(row.goal),
+  };
+}
+
+/**
+ * Achievements are unlocked server-side (see 026_achievements.sql); the
+ * client only reads them and listens for new unlocks.
+ */
+class AchievementService {
+  private catalog: Promise<Map<string, Achievement>> | null = null;
+  private unlockChannels: Map<
+    string,
+    { channel: RealtimeChannel; listeners: Set<(unlock: AchievementUnlock) => void> }
+  > = new Map();
+
+  private get supabase() {
+    return getClient();
+  }
+
+  // Catálogo completo con el estado del usuario (progreso solo para uno mismo)
+  async getAchievements(userId: string): Promise<AchievementStatus[]> {
+    // @ts-expect-error - Supabase RPC types require CLI regeneration (supabase gen types)
+    const { data, error } = await this.supabase.rpc('get_achievements', {
+      p_user_id: userId,
+    });
+
+    if (error) {
+      log.error('Error loading achievements:', error);
+      return [];
+    }
+
+    return ((data ?? []) as Record<string, unknown>[]).map(toAchievementStatus);
+  }
+
+  // Definición de un logro (el catálogo se carga una vez por sesión)
+  async getAchievement(achievementId: string): Promise<Achievement | null> {
+    if (!this.catalog) {
+      this.catalog = this.loadCatalog();
+    }
+
+    const catalog = await this.catalog;
+    return catalog.get(achievementId) ?? null;
+  }
+
+  // Escuchar los logros que desbloquea un usuario; los listeners comparten un canal por usuario
+  subscribeToUnlocks(userId: string, callback: (unlock: AchievementUnlock) => void): () => void {
+    let subscription = this.unlockChannels.get(userId);
+
+    if (!subscription) {
+      const listeners = new Set<(unlock: AchievementUnlock) => void>();
+      const channel = this.supabase
+        .channel(`achievements:${userId}`)
+        .on(
+          'postgres_changes',
+          {
+            event: 'INSERT',
+            schema: 'public',
+            table: 'user_achievements',
+            filter: `user_id=eq.${userId}`,
+          },
+          (payload) => {
+            listeners.forEach(listener => listener(payload.new as AchievementUnlock));
+          }
+        )
+        .subscribe((status) => {
+          realtimeLog.log('Achievements channel status:', status);
+        });
+
+      subscription = { channel, listeners };
+      this.unlockChannels.set(userId, subscription);
+    }
+
+    subscription.listeners.add(callback);
+
+    return () => {
+      const current = this.unlockChannels.get(userId);
+      if (!current) return;
+
+      current.listeners.delete(callback);
+      if (current.listeners.size === 0) {
+        this.supabase.removeChannel(current.channel);
+        this.unlockChannels.delete(userId);
+      }
+    };
+  }
+
+  private async loadCatalog(): Promise<Map<string, Achievement>> {
+    const { data, error } = await this.supabase
+      .from('achievements')
+      .select('id, name, description, icon, tier, bonus');
+
+    if (error) {
+      log.error('Error loading achievement catalog:', error);
+      // Permite reintentar en el próximo desbloqueo
+      this.catalog = null;
+      return new Map();
+    }
+
+    return new Map(
+      ((data ?? []) as Achievement[]).map((row) => [row.id, { ...row, bonus: Number(row.bonus) }])
+    );
+  }
+}
+
+export const achievementService = new AchievementService();
+export default achievementService;
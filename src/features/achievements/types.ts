@@ -0,0 +1,27 @@
+export type AchievementTier = 'bronze' | 'silver' | 'gold';
+
+// Fila del catálogo (ver 026_achievements.sql)
+export interface Achievement {
+  id: string;
+  name: string;
+  description: string;
+  /** Key into ACHIEVEMENT_ICONS */
+  icon: string;
+  tier: AchievementTier;
+  /** Credits paid to the wallet on unlock */
+  bonus: number;
+}
+
+// Logro del catálogo con el estado de un usuario
+export interface AchievementStatus extends Achievement {
+  unlocked_at: string | null;
+  /** Only available for your own achievements (null on other profiles) */
+  progress: number | null;
+  goal: number;
+}
+
+export interface AchievementUnlock {
+  user_id: string;
+  achievement_id: string;
+  unlocked_at: string;
+}
@@ -0,0 +1,51 @@
+'use client';
+
+import { useEffect, useMemo } from 'react';
+import { usePathname } from 'next/navigation';
+import { useTheme } from '@/components/client/theme-provider';
+import { useSettingsStore } from '@/features/settings/store/settings-store';
+import { gameRegistry } from '@/features/games/registry';
+import { soundEngine, musicPlayer, THEME_PLAYLISTS } from '../engine';
+
+const GAME_PATH_REGEX = /^\/games\/([^/]+)/;
+
+/**
+ * Drives the background music player from the settings, the current game
+ * and the theme. Renders nothing; mount once in the layout so the music
+ * survives route changes.
+ */
+export function BackgroundMusic() {
+  const pathname = usePathname();
+  const { theme } = useTheme();
+  const enabled = useSettingsStore((s) => s.musicEnabled);
+  const musicVolume = useSettingsStore((s) => s.musicVolume);
+  const muted = useSettingsStore((s) => s.soundMuted);
+  const master = useSettingsStore((s) => s.masterVolume);
+
+  // Games declare their own playlist in GameConfig; the rest of the site follows the theme
+  const gameSlug = pathname.match(GAME_PATH_REGEX)?.[1];
+  const playlist = useMemo(
+    () => (gameSlug && gameRegistry.get(gameSlug)?.config.music) || THEME_PLAYLISTS[theme],
+    [gameSlug, theme]
+  );
+
+  useEffect(() => {
+    soundEngine.listenForUnlock();
+  }, []);
+
+  useEffect(() => {
+    soundEngine.setVolumes({ muted, master, music: musicVolume });
+  }, [muted, master, musicVolume]);
+
+  useEffect(() => {
+    musicPlayer.setPlaylist(playlist);
+  }, [playlist]);
+
+  useEffect(() => {
+    musicPlayer.setEnabled(enabled);
+  }, [enabled]);
+
+  return null;
+}
+
+export default BackgroundMusic;
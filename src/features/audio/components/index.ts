@@ -0,0 +1 @@
+export { BackgroundMusic } from './background-music';
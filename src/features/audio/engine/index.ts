@@ -0,0 +1,4 @@
+export { soundEngine, type SoundVolumes, type PlaySoundOptions, type MusicOutput } from './sound-engine';
+export { SOUND_SPRITES, semitonesToRate, type SoundId, type SoundSprite } from './sound-sprites';
+export { musicPlayer } from './music-player';
+export { MUSIC_TRACKS, THEME_PLAYLISTS, type MusicTrack, type MusicTrackId } from './music-tracks';
@@ -0,0 +1,212 @@
+import { soundEngine, type MusicOutput } from './sound-engine';
+import { MUSIC_TRACKS, type MusicTrack, type MusicTrackId } from './music-tracks';
+
+const CROSSFADE_SECONDS = 4;
+const STOP_FADE_SECONDS = 1;
+const SCHEDULE_INTERVAL_MS = 100;
+const LOOKAHEAD_SECONDS = 0.3;
+const STEPS_PER_BAR = 8;
+
+// Brighter waveforms sound much louder at the same gain
+const WAVE_LEVEL: Record<OscillatorType, number> = {
+  sine: 1,
+  triangle: 0.9,
+  square: 0.4,
+  sawtooth: 0.35,
+  custom: 0.5,
+};
+
+interface TrackVoice {
+  id: MusicTrackId;
+  gain: GainNode;
+  step: number;
+  nextStepTime: number;
+  endTime: number;
+  /** Already on its way out; doesn't advance the playlist */
+  fading: boolean;
+}
+
+function midiToFrequency(note: number): number {
+  return 440 * Math.pow(2, (note - 69) / 12);
+}
+
+function getStepDuration(track: MusicTrack): number {
+  return 60 / track.bpm / 2;
+}
+
+/**
+ * Background music player.
+ *
+ * Lives outside React so it keeps playing across route changes. Notes are
+ * scheduled a little ahead of time on the shared AudioContext; switching
+ * playlist or reaching the end of a track crossfades into the next one.
+ */
+class MusicPlayer {
+  private enabled = false;
+  private playlist: MusicTrackId[] = [];
+  private voices: TrackVoice[] = [];
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private unsubscribeUnlock: (() => void) | null = null;
+
+  setEnabled(enabled: boolean): void {
+    this.enabled = enabled;
+    this.sync();
+  }
+
+  setPlaylist(playlist: MusicTrackId[]): void {
+    this.playlist = playlist;
+    this.sync();
+  }
+
+  getCurrentTrackId(): MusicTrackId | null {
+    return this.voices.find((voice) => !voice.fading)?.id ?? null;
+  }
+
+  private sync(): void {
+    // Audio is locked until the first gesture; retry then
+    if (!this.unsubscribeUnlock) {
+      this.unsubscribeUnlock = soundEngine.onUnlock(() => this.sync());
+    }
+
+    const output = soundEngine.getMusicOutput();
+    if (!output) return;
+
+    if (!this.enabled || this.playlist.length === 0) {
+      this.voices.forEach((voice) => this.fadeOut(voice, output, STOP_FADE_SECONDS));
+      return;
+    }
+
+    const current = this.voices.find((voice) => !voice.fading);
+    if (current && this.playlist.includes(current.id)) return;
+
+    if (current) this.fadeOut(current, output, CROSSFADE_SECONDS);
+    this.startTrack(this.playlist[0], output, current ? CROSSFADE_SECONDS : STOP_FADE_SECONDS);
+  }
+
+  private startTrack(id: MusicTrackId, output: MusicOutput, fadeInSeconds: number): void {
+    const { context, destination } = output;
+    const track = MUSIC_TRACKS[id];
+    const now = context.currentTime;
+
+    const gain = context.createGain();
+    gain.gain.setValueAtTime(0, now);
+    gain.gain.linearRampToValueAtTime(1, now + fadeInSeconds);
+    gain.connect(destination);
+
+    this.voices.push({
+      id,
+      gain,
+      step: 0,
+      nextStepTime: now + 0.05,
+      endTime: now + track.bars * STEPS_PER_BAR * getStepDuration(track),
+      fading: false,
+    });
+
+    if (!this.timer) {
+      this.timer = setInterval(() => this.tick(), SCHEDULE_INTERVAL_MS);
+    }
+  }
+
+  private fadeOut(voice: TrackVoice, output: MusicOutput, seconds: number): void {
+    const now = output.context.currentTime;
+    const gain = voice.gain.gain;
+    gain.cancelScheduledValues(now);
+    gain.setValueAtTime(gain.value, now);
+    gain.linearRampToValueAtTime(0, now + seconds);
+    voice.endTime = Math.min(voice.endTime, now + seconds);
+    voice.fading = true;
+  }
+
+  private tick(): void {
+    const output = soundEngine.getMusicOutput();
+    if (!output) return;
+    const now = output.context.currentTime;
+
+    for (const voice of [...this.voices]) {
+      // Crossfade into the next track before this one ends
+      if (!voice.fading && now >= voice.endTime - CROSSFADE_SECONDS) {
+        const index = this.playlist.indexOf(voice.id);
+        const nextId = this.playlist[(index + 1) % this.playlist.length] ?? voice.id;
+        this.fadeOut(voice, output, Math.max(0.5, voice.endTime - now));
+        this.startTrack(nextId, output, CROSSFADE_SECONDS);
+      }
+
+      const stepDuration = getStepDuration(MUSIC_TRACKS[voice.id]);
+
+      // Skip steps missed while the tab was throttled instead of bursting them out
+      while (voice.nextStepTime < now) {
+        voice.step++;
+        voice.nextStepTime += stepDuration;
+      }
+
+      while (voice.nextStepTime < now + LOOKAHEAD_SECONDS && voice.nextStepTime < voice.endTime) {
+        this.scheduleStep(voice, output.context);
+        voice.step++;
+        voice.nextStepTime += stepDuration;
+      }
+    }
+
+    const finished = this.voices.filter((voice) => now > voice.endTime + 0.1);
+    finished.forEach((voice) => voice.gain.disconnect());
+    this.voices = this.voices.filter((voice) => !finished.includes(voice));
+
+    if (this.voices.length === 0 && this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private scheduleStep(voice: TrackVoice, context: AudioContext): void {
+    const track = MUSIC_TRACKS[voice.id];
+    const stepDuration = getStepDuration(track);
+    const time = voice.nextStepTime;
+    const chord = track.chords[Math.floor(voice.step / STEPS_PER_BAR) % track.chords.length];
+    const position = voice.step % STEPS_PER_BAR;
+
+    if (position === 0) {
+      for (const note of chord) {
+        this.playNote(context, voice.gain, note, time, stepDuration * STEPS_PER_BAR, track.pad, 0.05, 0.4);
+      }
+    }
+
+    if (track.bass && position % 4 === 0) {
+      this.playNote(context, voice.gain, chord[0] - 12, time, stepDuration * 4, track.bass, 0.12, 0.02);
+    }
+
+    if (track.arpeggio) {
+      const note = chord[position % chord.length] + 12;
+      this.playNote(context, voice.gain, note, time, stepDuration * 0.9, track.arpeggio, 0.035, 0.01);
+    }
+  }
+
+  private playNote(
+    context: AudioContext,
+    destination: AudioNode,
+    note: number,
+    time: number,
+    duration: number,
+    type: OscillatorType,
+    level: number,
+    attack: number
+  ): void {
+    const peak = level * WAVE_LEVEL[type];
+
+    const oscillator = context.createOscillator();
+    oscillator.type = type;
+    oscillator.frequency.setValueAtTime(midiToFrequency(note), time);
+
+    const envelope = context.createGain();
+    envelope.gain.setValueAtTime(0, time);
+    envelope.gain.linearRampToValueAtTime(peak, time + attack);
+    envelope.gain.linearRampToValueAtTime(peak * 0.6, time + duration * 0.7);
+    envelope.gain.linearRampToValueAtTime(0, time + duration);
+
+    oscillator.connect(envelope);
+    envelope.connect(destination);
+    oscillator.onended = () => envelope.disconnect();
+    oscillator.start(time);
+    oscillator.stop(time + duration);
+  }
+}
+
+export const musicPlayer = new MusicPlayer();
@@ -0,0 +1,109 @@
+import type { Theme } from '@/components/client/theme-provider';
+
+/**
+ * Background music catalog.
+ *
+ * Tracks are generated live from a chord loop (pad + bass + optional arpeggio),
+ * so they cost nothing to download. Games pick tracks by ID in their
+ * `GameConfig.music`; everywhere else the theme playlist plays.
+ */
+
+export type MusicTrackId =
+  | 'ember-glow'
+  | 'ember-drift'
+  | 'midnight-tide'
+  | 'midnight-stars'
+  | 'neon-pulse'
+  | 'neon-grid'
+  | 'board-focus'
+  | 'arcade-rush';
+
+export interface MusicTrack {
+  title: string;
+  bpm: number;
+  /** One chord per bar, as MIDI note numbers */
+  chords: number[][];
+  pad: OscillatorType;
+  bass?: OscillatorType;
+  /** Eighth-note arpeggio over the current chord */
+  arpeggio?: OscillatorType;
+  /** Bars before moving on to the next track of the playlist */
+  bars: number;
+}
+
+export const MUSIC_TRACKS: Record<MusicTrackId, MusicTrack> = {
+  'ember-glow': {
+    title: 'Brasas',
+    bpm: 88,
+    chords: [[57, 60, 64], [53, 57, 60], [48, 52, 55], [55, 59, 62]],
+    pad: 'triangle',
+    bass: 'sine',
+    arpeggio: 'triangle',
+    bars: 32,
+  },
+  'ember-drift': {
+    title: 'Fogata',
+    bpm: 76,
+    chords: [[50, 53, 57], [46, 50, 53], [53, 57, 60], [48, 52, 55]],
+    pad: 'triangle',
+    bass: 'sine',
+    bars: 24,
+  },
+  'midnight-tide': {
+    title: 'Marea nocturna',
+    bpm: 64,
+    chords: [[48, 52, 55, 59], [45, 48, 52, 55], [41, 45, 48, 52], [43, 47, 50, 53]],
+    pad: 'sine',
+    bass: 'sine',
+    bars: 24,
+  },
+  'midnight-stars': {
+    title: 'Estrellas',
+    bpm: 72,
+    chords: [[52, 55, 59, 62], [48, 52, 55, 59], [45, 48, 52, 55], [47, 50, 54, 57]],
+    pad: 'sine',
+    arpeggio: 'sine',
+    bars: 32,
+  },
+  'neon-pulse': {
+    title: 'Pulso neón',
+    bpm: 118,
+    chords: [[52, 55, 59], [48, 52, 55], [43, 47, 50], [50, 54, 57]],
+    pad: 'sawtooth',
+    bass: 'square',
+    arpeggio: 'square',
+    bars: 48,
+  },
+  'neon-grid': {
+    title: 'Cuadrícula',
+    bpm: 108,
+    chords: [[45, 48, 52], [41, 45, 48], [48, 52, 55], [43, 47, 50]],
+    pad: 'sawtooth',
+    bass: 'triangle',
+    arpeggio: 'square',
+    bars: 40,
+  },
+  'board-focus': {
+    title: 'Concentración',
+    bpm: 60,
+    chords: [[53, 57, 60, 64], [52, 55, 59, 62], [50, 53, 57, 60], [48, 52, 55, 59]],
+    pad: 'sine',
+    bass: 'sine',
+    bars: 24,
+  },
+  'arcade-rush': {
+    title: 'Arcade',
+    bpm: 126,
+    chords: [[48, 52, 55], [43, 47, 50], [45, 48, 52], [41, 45, 48]],
+    pad: 'triangle',
+    bass: 'square',
+    arpeggio: 'square',
+    bars: 48,
+  },
+};
+
+export const THEME_PLAYLISTS: Record<Theme, MusicTrackId[]> = {
+  ember: ['ember-glow', 'ember-drift'],
+  midnight: ['midnight-tide', 'midnight-stars'],
+  neon: ['neon-pulse', 'neon-grid'],
+};
@@ -0,0 +1,256 @@
+import { createLogger } from '@/lib/utils/logger';
+import { prefersReducedMotion } from '@/lib/theme/animations';
+import { SOUND_SPRITES, type SoundId } from './sound-sprites';
+
+const log = createLogger({ prefix: 'Audio' });
+
+const SAMPLE_RATE = 44100;
+// Silence between sprites so a slice never bleeds into the next one
+const SPRITE_GAP_SECONDS = 0.05;
+const ENVELOPE_ATTACK_SECONDS = 0.005;
+const UNLOCK_EVENTS = ['pointerdown', 'keydown', 'touchend'] as const;
+// Music drops to this level while an effect or notification plays
+const DUCK_LEVEL = 0.35;
+const DUCK_RELEASE_SECONDS = 0.4;
+
+interface SpriteSlice {
+  offset: number;
+  duration: number;
+}
+
+export interface SoundVolumes {
+  muted: boolean;
+  master: number;
+  sfx: number;
+  music: number;
+}
+
+export interface MusicOutput {
+  context: AudioContext;
+  destination: AudioNode;
+}
+
+export interface PlaySoundOptions {
+  /** Playback rate; 2 is one octave up */
+  rate?: number;
+  /** Per-play volume, 0 to 1 */
+  volume?: number;
+}
+
+type AudioContextConstructor = typeof AudioContext;
+
+function getAudioContextClass(): AudioContextConstructor | null {
+  if (typeof window === 'undefined') return null;
+  return window.AudioContext
+    ?? (window as unknown as { webkitAudioContext?: AudioContextConstructor }).webkitAudioContext
+    ?? null;
+}
+
+/**
+ * Web Audio engine for short sound effects. Also owns the music bus, so
+ * effects can duck the background music.
+ *
+ * Browsers block audio until the user interacts with the page, so the
+ * AudioContext is only created on the first gesture; plays before that are dropped.
+ */
+class SoundEngine {
+  private context: AudioContext | null = null;
+  private masterGain: GainNode | null = null;
+  private sfxGain: GainNode | null = null;
+  private musicGain: GainNode | null = null;
+  private duckGain: GainNode | null = null;
+  private bank: AudioBuffer | null = null;
+  private slices = new Map<SoundId, SpriteSlice>();
+  private bankPromise: Promise<void> | null = null;
+  private lastPlayedAt = new Map<SoundId, number>();
+  private listening = false;
+  private volumes: SoundVolumes = { muted: false, master: 0.8, sfx: 0.8, music: 0.5 };
+  private unlockListeners = new Set<() => void>();
+
+  /**
+   * Wait for the first user gesture to unlock audio.
+   * Safe to call many times; listeners are only added once.
+   */
+  listenForUnlock(): void {
+    if (this.listening || typeof window === 'undefined' || !getAudioContextClass()) return;
+    this.listening = true;
+
+    const unlock = () => {
+      UNLOCK_EVENTS.forEach((event) => window.removeEventListener(event, unlock));
+      this.unlock();
+    };
+    UNLOCK_EVENTS.forEach((event) => window.addEventListener(event, unlock, { passive: true }));
+  }
+
+  /**
+   * Create (or resume) the AudioContext. Must run inside a user gesture.
+   */
+  unlock(): void {
+    const AudioContextClass = getAudioContextClass();
+    if (!AudioContextClass) return;
+
+    if (!this.context) {
+      this.context = new AudioContextClass();
+      this.masterGain = this.context.createGain();
+      this.sfxGain = this.context.createGain();
+      this.musicGain = this.context.createGain();
+      this.duckGain = this.context.createGain();
+      this.sfxGain.connect(this.masterGain);
+      this.musicGain.connect(this.duckGain);
+      this.duckGain.connect(this.masterGain);
+      this.masterGain.connect(this.context.destination);
+      this.applyVolumes();
+    }
+
+    if (this.context.state === 'suspended') {
+      this.context.resume().catch((err) => log.warn('Could not resume audio:', err));
+    }
+
+    this.preload();
+    this.unlockListeners.forEach((listener) => listener());
+  }
+
+  /**
+   * Subscribe to the audio unlock (fires right away if already unlocked).
+   * @returns Unsubscribe function
+   */
+  onUnlock(listener: () => void): () => void {
+    this.unlockListeners.add(listener);
+    if (this.context) listener();
+    return () => {
+      this.unlockListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Context and bus for the background music (null until unlocked)
+   */
+  getMusicOutput(): MusicOutput | null {
+    if (!this.context || !this.musicGain) return null;
+    return { context: this.context, destination: this.musicGain };
+  }
+
+  /**
+   * Lower the music for a moment so an effect or notification stands out
+   */
+  duck(seconds: number): void {
+    const { context, duckGain } = this;
+    if (!context || !duckGain) return;
+
+    const now = context.currentTime;
+    const gain = duckGain.gain;
+    gain.cancelScheduledValues(now);
+    gain.setValueAtTime(gain.value, now);
+    gain.linearRampToValueAtTime(DUCK_LEVEL, now + 0.05);
+    gain.setValueAtTime(DUCK_LEVEL, now + seconds);
+    gain.linearRampToValueAtTime(1, now + seconds + DUCK_RELEASE_SECONDS);
+  }
+
+  /**
+   * Render every sprite into the shared buffer. Offline rendering needs no
+   * user gesture, so this can run ahead of the first play.
+   */
+  preload(): Promise<void> {
+    if (this.bankPromise) return this.bankPromise;
+    if (typeof window === 'undefined' || typeof OfflineAudioContext === 'undefined') {
+      return Promise.resolve();
+    }
+
+    this.bankPromise = this.renderBank().catch((err) => {
+      log.error('Failed to render sound bank:', err);
+      this.bankPromise = null;
+    });
+    return this.bankPromise;
+  }
+
+  setVolumes(volumes: Partial<SoundVolumes>): void {
+    this.volumes = { ...this.volumes, ...volumes };
+    this.applyVolumes();
+  }
+
+  play(id: SoundId, options: PlaySoundOptions = {}): void {
+    const { context, bank, sfxGain } = this;
+    if (this.volumes.muted || !context || !bank || !sfxGain) return;
+    if (context.state !== 'running') return;
+
+    const sprite = SOUND_SPRITES[id];
+    if (sprite.reducible && prefersReducedMotion()) return;
+
+    const now = performance.now();
+    if (sprite.minIntervalMs && now - (this.lastPlayedAt.get(id) ?? 0) < sprite.minIntervalMs) return;
+    this.lastPlayedAt.set(id, now);
+
+    const slice = this.slices.get(id);
+    if (!slice) return;
+
+    const source = context.createBufferSource();
+    source.buffer = bank;
+    source.playbackRate.value = options.rate ?? 1;
+
+    const gain = context.createGain();
+    gain.gain.value = Math.min(1, Math.max(0, options.volume ?? 1));
+
+    source.connect(gain);
+    gain.connect(sfxGain);
+    source.onended = () => gain.disconnect();
+    source.start(0, slice.offset, slice.duration);
+
+    if (sprite.ducksMusic) {
+      this.duck(slice.duration / source.playbackRate.value);
+    }
+  }
+
+  private applyVolumes(): void {
+    if (!this.masterGain || !this.sfxGain || !this.musicGain) return;
+    this.masterGain.gain.value = this.volumes.muted ? 0 : this.volumes.master;
+    this.sfxGain.gain.value = this.volumes.sfx;
+    this.musicGain.gain.value = this.volumes.music;
+  }
+
+  private async renderBank(): Promise<void> {
+    const entries = Object.entries(SOUND_SPRITES) as [SoundId, (typeof SOUND_SPRITES)[SoundId]][];
+
+    // Lay the sprites out one after another
+    let cursor = 0;
+    const slices = new Map<SoundId, SpriteSlice>();
+    for (const [id, sprite] of entries) {
+      const duration = Math.max(...sprite.tones.map((tone) => tone.at + tone.duration));
+      slices.set(id, { offset: cursor, duration });
+      cursor += duration + SPRITE_GAP_SECONDS;
+    }
+
+    const offline = new OfflineAudioContext(1, Math.ceil(cursor * SAMPLE_RATE), SAMPLE_RATE);
+
+    for (const [id, sprite] of entries) {
+      const { offset } = slices.get(id)!;
+
+      for (const tone of sprite.tones) {
+        const start = offset + tone.at;
+        const end = start + tone.duration;
+
+        const oscillator = offline.createOscillator();
+        oscillator.type = tone.type;
+        oscillator.frequency.setValueAtTime(tone.frequency, start);
+        if (tone.toFrequency) {
+          oscillator.frequency.exponentialRampToValueAtTime(tone.toFrequency, end);
+        }
+
+        const envelope = offline.createGain();
+        envelope.gain.setValueAtTime(0, start);
+        envelope.gain.linearRampToValueAtTime(tone.gain, start + ENVELOPE_ATTACK_SECONDS);
+        envelope.gain.exponentialRampToValueAtTime(0.0001, end);
+
+        oscillator.connect(envelope);
+        envelope.connect(offline.destination);
+        oscillator.start(start);
+        oscillator.stop(end);
+      }
+    }
+
+    this.bank = await offline.startRendering();
+    this.slices = slices;
+    log.log(`Sound bank ready: ${slices.size} sprites, ${cursor.toFixed(2)}s`);
+  }
+}
+
+export const soundEngine = new SoundEngine();
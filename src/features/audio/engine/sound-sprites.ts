@@ -0,0 +1,110 @@
+/**
+ * Sound sprite definitions.
+ *
+ * Every effect is synthesized from a few oscillator tones and rendered once
+ * into a single buffer (the sprite bank); playing a sound just reads a slice of it.
+ */
+
+export type SoundId =
+  | 'click'
+  | 'move'
+  | 'win'
+  | 'loss'
+  | 'draw'
+  | 'pinHit'
+  | 'ballLanded'
+  | 'bigWin'
+  | 'notification';
+
+interface SpriteTone {
+  /** Start frequency in Hz */
+  frequency: number;
+  /** Optional end frequency for a pitch sweep */
+  toFrequency?: number;
+  /** Offset from the start of the sprite, in seconds */
+  at: number;
+  duration: number;
+  type: OscillatorType;
+  gain: number;
+}
+
+export interface SoundSprite {
+  tones: SpriteTone[];
+  /** Minimum time between two plays, so many balls don't stack into noise */
+  minIntervalMs?: number;
+  /** Busy, repetitive cue that is skipped when the user prefers reduced motion */
+  reducible?: boolean;
+  /** Lower the background music while it plays */
+  ducksMusic?: boolean;
+}
+
+export const SOUND_SPRITES: Record<SoundId, SoundSprite> = {
+  click: {
+    tones: [{ frequency: 1200, toFrequency: 800, at: 0, duration: 0.05, type: 'square', gain: 0.15 }],
+  },
+  move: {
+    tones: [
+      { frequency: 520, toFrequency: 340, at: 0, duration: 0.09, type: 'triangle', gain: 0.5 },
+      { frequency: 1040, at: 0, duration: 0.04, type: 'sine', gain: 0.15 },
+    ],
+  },
+  win: {
+    tones: [
+      { frequency: 523.25, at: 0, duration: 0.14, type: 'triangle', gain: 0.4 },
+      { frequency: 659.25, at: 0.12, duration: 0.14, type: 'triangle', gain: 0.4 },
+      { frequency: 783.99, at: 0.24, duration: 0.14, type: 'triangle', gain: 0.4 },
+      { frequency: 1046.5, at: 0.36, duration: 0.35, type: 'triangle', gain: 0.45 },
+    ],
+    ducksMusic: true,
+  },
+  loss: {
+    tones: [
+      { frequency: 392, at: 0, duration: 0.2, type: 'sawtooth', gain: 0.15 },
+      { frequency: 311.13, at: 0.18, duration: 0.2, type: 'sawtooth', gain: 0.15 },
+      { frequency: 261.63, toFrequency: 220, at: 0.36, duration: 0.4, type: 'sawtooth', gain: 0.15 },
+    ],
+    ducksMusic: true,
+  },
+  draw: {
+    tones: [
+      { frequency: 440, at: 0, duration: 0.18, type: 'sine', gain: 0.35 },
+      { frequency: 440, at: 0.2, duration: 0.25, type: 'sine', gain: 0.3 },
+    ],
+    ducksMusic: true,
+  },
+  pinHit: {
+    tones: [{ frequency: 1760, toFrequency: 1500, at: 0, duration: 0.06, type: 'sine', gain: 0.25 }],
+    minIntervalMs: 25,
+    reducible: true,
+  },
+  ballLanded: {
+    tones: [
+      { frequency: 660, at: 0, duration: 0.1, type: 'triangle', gain: 0.35 },
+      { frequency: 880, at: 0.06, duration: 0.12, type: 'triangle', gain: 0.3 },
+    ],
+    minIntervalMs: 40,
+  },
+  bigWin: {
+    tones: [
+      { frequency: 783.99, at: 0, duration: 0.1, type: 'square', gain: 0.12 },
+      { frequency: 1046.5, at: 0.08, duration: 0.1, type: 'square', gain: 0.12 },
+      { frequency: 1318.5, at: 0.16, duration: 0.1, type: 'square', gain: 0.12 },
+      { frequency: 1568, at: 0.24, duration: 0.3, type: 'triangle', gain: 0.35 },
+    ],
+    minIntervalMs: 120,
+    ducksMusic: true,
+  },
+  notification: {
+    tones: [
+      { frequency: 880, at: 0, duration: 0.12, type: 'sine', gain: 0.35 },
+      { frequency: 1318.5, at: 0.1, duration: 0.25, type: 'sine', gain: 0.3 },
+    ],
+    minIntervalMs: 500,
+    ducksMusic: true,
+  },
+};
+
+/** Converts a pitch shift in semitones into a playback rate */
+export function semitonesToRate(semitones: number): number {
+  return Math.pow(2, semitones / 12);
+}
@@ -0,0 +1 @@
+export { useSoundEffects, type UseSoundEffectsReturn } from './use-sound-effects';
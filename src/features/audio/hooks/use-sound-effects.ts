@@ -0,0 +1,34 @@
+'use client';
+
+import { useEffect, useCallback } from 'react';
+import { useSettingsStore } from '@/features/settings/store/settings-store';
+import { soundEngine, type PlaySoundOptions, type SoundId } from '../engine';
+
+export interface UseSoundEffectsReturn {
+  play: (id: SoundId, options?: PlaySoundOptions) => void;
+}
+
+/**
+ * Sound effects for game events.
+ * Keeps the engine in sync with the persisted volume settings and arms the
+ * autoplay unlock; `play` is a no-op until the user has interacted with the page.
+ */
+export function useSoundEffects(): UseSoundEffectsReturn {
+  const muted = useSettingsStore((s) => s.soundMuted);
+  const master = useSettingsStore((s) => s.masterVolume);
+  const sfx = useSettingsStore((s) => s.sfxVolume);
+
+  useEffect(() => {
+    soundEngine.listenForUnlock();
+  }, []);
+
+  useEffect(() => {
+    soundEngine.setVolumes({ muted, master, sfx });
+  }, [muted, master, sfx]);
+
+  const play = useCallback((id: SoundId, options?: PlaySoundOptions) => {
+    soundEngine.play(id, options);
+  }, []);
+
+  return { play };
+}
@@ -0,0 +1,20 @@
+export {
+  soundEngine,
+  musicPlayer,
+  SOUND_SPRITES,
+  MUSIC_TRACKS,
+  THEME_PLAYLISTS,
+  semitonesToRate,
+} from './engine';
+export { useSoundEffects } from './hooks';
+export { BackgroundMusic } from './components';
+export type {
+  SoundId,
+  SoundSprite,
+  SoundVolumes,
+  PlaySoundOptions,
+  MusicOutput,
+  MusicTrack,
+  MusicTrackId,
+} from './engine';
+export type { UseSoundEffectsReturn } from './hooks';
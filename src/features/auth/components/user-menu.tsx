@@ -13,7 +13,7 @@ const LeaderboardModal = dynamic(() => import('@/features/profile').then(m => m.
 const SettingsModal = dynamic(() => import('@/features/settings').then(m => m.SettingsModal), { ssr: false });
 const WalletModal = dynamic(() => import('@/features/wallet').then(m => m.WalletModal), { ssr: false });
 import { Button } from '@/components/ui/button';
-import { Avatar, AvatarFallback } from '@/components/ui/avatar';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -94,6 +94,7 @@ export function UserMenu({ className, compact = false, showBalance = true }: Use
               className={cn('w-10 h-10 p-0 rounded-full', className)}
             >
               <Avatar className="h-10 w-10">
+                <AvatarImage src={profile?.avatar_url ?? undefined} alt={profile?.username ?? 'Avatar'} />
                 <AvatarFallback className="bg-(--color-primary) text-white font-bold">
                   {userInitial}
                 </AvatarFallback>
@@ -112,6 +113,7 @@ export function UserMenu({ className, compact = false, showBalance = true }: Use
             >
               {/* Avatar */}
               <Avatar className="h-8 w-8">
+                <AvatarImage src={profile?.avatar_url ?? undefined} alt={profile?.username ?? 'Avatar'} />
                 <AvatarFallback className="bg-(--color-primary) text-white text-sm font-bold">
                   {userInitial}
                 </AvatarFallback>
@@ -151,6 +153,7 @@ export function UserMenu({ className, compact = false, showBalance = true }: Use
           {/* User Info Header */}
           <DropdownMenuLabel className="flex items-center gap-3 py-3">
             <Avatar className="h-9 w-9">
+              <AvatarImage src={profile?.avatar_url ?? undefined} alt={profile?.username ?? 'Avatar'} />
               <AvatarFallback className="bg-(--color-primary) text-white font-bold">
                 {userInitial}
               </AvatarFallback>
@@ -7,6 +7,16 @@ import { validateProfile } from '@/lib/validators/database-rows';
 import type { Profile } from '../types';
 import { authLogger } from '@/lib/utils/logger';
 
+// Letras, números y guion bajo; mismo formato que se muestra en el formulario
+const USERNAME_PATTERN = /^[a-zA-Z0-9_]{3,20}$/;
+
+export type LinkableProvider = 'google';
+
+// Escapa los comodines de ILIKE para comparar el nombre tal cual
+function escapeLikePattern(value: string): string {
+  return value.replace(/[\\%_]/g, (char) => `\\${char}`);
+}
+
 export function useAuth() {
   const {
     user,
@@ -126,12 +136,13 @@ export function useAuth() {
     return { data, error };
   }, [supabase]);
 
-  // Sign in with Google
+  // Sign in with Google (returns to the current page, e.g. an invite link)
   const signInWithProvider = useCallback(async (provider: 'google') => {
+    const next = encodeURIComponent(window.location.pathname);
     const { data, error } = await supabase.auth.signInWithOAuth({
       provider,
       options: {
-        redirectTo: `${window.location.origin}/auth/callback`,
+        redirectTo: `${window.location.origin}/auth/callback?next=${next}`,
       },
     });
 
@@ -151,6 +162,30 @@ export function useAuth() {
       return { error: { message: 'Not authenticated' } };
     }
 
+    if (updates.username !== undefined) {
+      const username = updates.username?.trim() ?? '';
+      if (!USERNAME_PATTERN.test(username)) {
+        return {
+          data: null,
+          error: { message: 'El nombre debe tener entre 3 y 20 letras, números o guiones bajos' },
+        };
+      }
+
+      // Unicidad sin distinguir mayúsculas (el índice único de la base es la garantía final)
+      const { data: existing } = await supabase
+        .from('profiles')
+        .select('id')
+        .ilike('username', escapeLikePattern(username))
+        .neq('id', user.id)
+        .limit(1);
+
+      if (existing && existing.length > 0) {
+        return { data: null, error: { message: 'Ese nombre de usuario ya está en uso' } };
+      }
+
+      updates = { ...updates, username };
+    }
+
     const { data, error } = await supabase
       .from('profiles')
       .update(updates as never)
@@ -167,9 +202,73 @@ export function useAuth() {
       }
     }
 
+    // 23505 = unique_violation: otro usuario tomó el nombre entre la comprobación y el update
+    if (error?.code === '23505') {
+      return { data: null, error: { message: 'Ese nombre de usuario ya está en uso' } };
+    }
+
     return { data, error };
   }, [user, supabase, setProfile]);
 
+  // Change email - Supabase sends a confirmation link to the new address
+  const updateEmail = useCallback(async (email: string) => {
+    const { data, error } = await supabase.auth.updateUser(
+      { email },
+      { emailRedirectTo: `${window.location.origin}/auth/callback` }
+    );
+
+    return { data, error };
+  }, [supabase]);
+
+  // Change password (also lets OAuth-only users add one)
+  const updatePassword = useCallback(async (password: string) => {
+    const { data, error } = await supabase.auth.updateUser({ password });
+
+    return { data, error };
+  }, [supabase]);
+
+  // Link an OAuth provider to the current account (redirects to the provider)
+  const linkProvider = useCallback(async (provider: LinkableProvider) => {
+    const next = encodeURIComponent(window.location.pathname);
+    const { data, error } = await supabase.auth.linkIdentity({
+      provider,
+      options: {
+        redirectTo: `${window.location.origin}/auth/callback?next=${next}`,
+      },
+    });
+
+    return { data, error };
+  }, [supabase]);
+
+  // Unlink an OAuth provider; the last identity can't be removed or the account would be unreachable
+  const unlinkProvider = useCallback(async (provider: LinkableProvider) => {
+    const { data, error } = await supabase.auth.getUserIdentities();
+    if (error) {
+      return { error };
+    }
+
+    const identity = data.identities.find((item) => item.provider === provider);
+    if (!identity) {
+      return { error: { message: 'Esa cuenta no está vinculada' } };
+    }
+    if (data.identities.length < 2) {
+      return { error: { message: 'No puedes desvincular tu único método de inicio de sesión' } };
+    }
+
+    const { error: unlinkError } = await supabase.auth.unlinkIdentity(identity);
+    if (unlinkError) {
+      return { error: unlinkError };
+    }
+
+    // Refresh the user so app_metadata.providers reflects the change
+    const { data: refreshed } = await supabase.auth.getUser();
+    if (refreshed.user) {
+      setUser(refreshed.user);
+    }
+
+    return { error: null };
+  }, [supabase, setUser]);
+
   // Store ref to fetchProfile to avoid effect dependency changes
   const fetchProfileRef = useRef(fetchProfile);
   fetchProfileRef.current = fetchProfile;
@@ -288,6 +387,10 @@ export function useAuth() {
     signInWithProvider,
     signOut,
     updateProfile,
+    updateEmail,
+    updatePassword,
+    linkProvider,
+    unlinkProvider,
     fetchProfile,
   }), [
     user,
@@ -300,6 +403,10 @@ export function useAuth() {
     signInWithProvider,
     signOut,
     updateProfile,
+    updateEmail,
+    updatePassword,
+    linkProvider,
+    unlinkProvider,
     fetchProfile,
   ]);
 }
@@ -1,6 +1,7 @@
 export { useAuth } from './hooks/use-auth';
 export { useAuthStore } from './store/auth-store';
 export { AuthModal, UserMenu } from './components';
+export { accountService } from './services/account-service';
 export type { Profile, AuthState } from './types';
 
 // Server component - import directly where needed:
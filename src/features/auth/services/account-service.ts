@@ -0,0 +1,105 @@
+'use client';
+
+import { getClient } from '@/lib/supabase/client';
+import { createLogger } from '@/lib/utils/logger';
+
+const log = createLogger({ prefix: 'AccountService' });
+
+// Bucket público de avatares; cada usuario sube a su carpeta <user_id>/ (ver 025_account_management.sql)
+const AVATAR_BUCKET = 'avatars';
+
+// Mensajes de las excepciones de las funciones SQL (ver 025_account_management.sql)
+const ACCOUNT_ERROR_MESSAGES: Record<string, string> = {
+  'Not authenticated': 'Usuario no autenticado',
+  'Finish your active games first': 'Termina tus partidas en curso antes de borrar la cuenta',
+  'Leave your active tournaments first': 'Sal de tus torneos activos antes de borrar la cuenta',
+};
+
+function rpcErrorMessage(error: { message: string }, fallback: string): string {
+  return ACCOUNT_ERROR_MESSAGES[error.message] ?? fallback;
+}
+
+class AccountService {
+  private get supabase() {
+    return getClient();
+  }
+
+  // Sube el avatar recortado y devuelve su URL pública; borra los avatares anteriores
+  async uploadAvatar(userId: string, image: Blob): Promise<{ url: string | null; error: string | null }> {
+    const extension = image.type.split('/')[1] ?? 'png';
+    // Nombre único para que el CDN y el navegador no sirvan la imagen vieja
+    const path = `${userId}/${Date.now()}.${extension}`;
+
+    const { error } = await this.supabase.storage
+      .from(AVATAR_BUCKET)
+      .upload(path, image, { contentType: image.type, upsert: false });
+
+    if (error) {
+      log.error('Error uploading avatar:', error);
+      return { url: null, error: 'No se pudo subir la imagen' };
+    }
+
+    await this.removeAvatars(userId, path);
+
+    const { data } = this.supabase.storage.from(AVATAR_BUCKET).getPublicUrl(path);
+    return { url: data.publicUrl, error: null };
+  }
+
+  // Todos los datos personales del usuario (perfil, billetera, partidas...) para descargarlos
+  async exportData(): Promise<{ data: unknown; error: string | null }> {
+    const { data, error } = await this.supabase.rpc('export_my_data');
+
+    if (error) {
+      log.error('Error exporting account data:', error);
+      return { data: null, error: rpcErrorMessage(error, 'No se pudieron exportar tus datos') };
+    }
+
+    return { data, error: null };
+  }
+
+  // Borra la cuenta y todo lo que cuelga de ella; la sesión queda inválida
+  async deleteAccount(userId: string): Promise<string | null> {
+    // Los archivos de Storage no se borran en cascada desde SQL y sus políticas
+    // dejan de valer sin el usuario: se limpian antes, una vez que sabemos que
+    // el borrado no va a ser rechazado
+    const { error: checkError } = await this.supabase.rpc('check_account_deletable');
+
+    if (checkError) {
+      log.error('Error checking account deletion:', checkError);
+      return rpcErrorMessage(checkError, 'No se pudo borrar la cuenta');
+    }
+
+    await this.removeAvatars(userId);
+
+    const { error } = await this.supabase.rpc('delete_my_account');
+
+    if (error) {
+      log.error('Error deleting account:', error);
+      return rpcErrorMessage(error, 'No se pudo borrar la cuenta');
+    }
+
+    return null;
+  }
+
+  private async removeAvatars(userId: string, keepPath?: string): Promise<void> {
+    const { data: files, error } = await this.supabase.storage.from(AVATAR_BUCKET).list(userId);
+
+    if (error) {
+      log.warn('Error listing avatars:', error);
+      return;
+    }
+
+    const paths = (files ?? [])
+      .map((file) => `${userId}/${file.name}`)
+      .filter((path) => path !== keepPath);
+
+    if (paths.length === 0) return;
+
+    const { error: removeError } = await this.supabase.storage.from(AVATAR_BUCKET).remove(paths);
+    if (removeError) {
+      log.warn('Error removing old avatars:', removeError);
+    }
+  }
+}
+
+export const accountService = new AccountService();
@@ -0,0 +1,95 @@
+'use client';
+
+import { useEffect, useCallback } from 'react';
+import { useRouter } from 'next/navigation';
+import { toast } from 'sonner';
+import { useAuth } from '@/features/auth';
+import { formatBalance } from '@/features/wallet/store/wallet-store';
+import { getOnlineGameConfig } from '@/features/profile/constants';
+import { useSoundEffects } from '@/features/audio';
+import { friendsService } from '../services/friends-service';
+import type { GameChallenge } from '../types';
+
+/**
+ * Shows incoming challenges as toasts (accept / decline) and tells the
+ * challenger how their challenge was answered. Renders nothing; mount once in the layout.
+ */
+export function ChallengeInvites() {
+  const { user } = useAuth();
+  const userId = user?.id;
+  const router = useRouter();
+  const { play } = useSoundEffects();
+
+  const respond = useCallback(async (challenge: GameChallenge, accept: boolean) => {
+    if (!userId) return;
+
+    const { challenge: updated, error } = await friendsService.respondChallenge(challenge.id, accept);
+    if (!updated) {
+      toast.error(error);
+      return;
+    }
+
+    friendsService.notifyUser(challenge.challenger_id, {
+      kind: 'challenge_response',
+      from: userId,
+      challengeId: challenge.id,
+    });
+
+    if (accept) {
+      // Same link as a private room invite: the game page joins the room
+      router.push(`/games/${challenge.game_type}?room=${challenge.room_id}`);
+    }
+  }, [userId, router]);
+
+  const showInvite = useCallback((challenge: GameChallenge) => {
+    const game = getOnlineGameConfig(challenge.game_type);
+    const bet = challenge.bet_amount ? ` por ${formatBalance(Number(challenge.bet_amount))}` : '';
+
+    // The challenge ID doubles as the toast ID, so refetches don't duplicate it
+    toast(`${challenge.challenger?.username || 'Un amigo'} te desafía`, {
+      id: challenge.id,
+      description: `${game?.icon ?? ''} ${game?.name ?? challenge.game_type}${bet}`,
+      duration: Math.max(0, new Date(challenge.expires_at).getTime() - Date.now()),
+      action: { label: 'Aceptar', onClick: () => respond(challenge, true) },
+      cancel: { label: 'Rechazar', onClick: () => respond(challenge, false) },
+    });
+  }, [respond]);
+
+  const loadPendingChallenges = useCallback(async () => {
+    if (!userId) return;
+    const challenges = await friendsService.getPendingChallenges(userId);
+    challenges.forEach(showInvite);
+  }, [userId, showInvite]);
+
+  // Answer to one of our challenges
+  const showResponse = useCallback(async (challengeId: string) => {
+    const challenge = await friendsService.getChallenge(challengeId);
+    const name = challenge?.challenged?.username || 'Tu amigo';
+
+    if (challenge?.status === 'accepted') {
+      toast.success(`${name} aceptó tu desafío`);
+    } else if (challenge?.status === 'declined') {
+      toast(`${name} rechazó tu desafío`);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!userId) return;
+
+    loadPendingChallenges();
+
+    return friendsService.subscribeToInbox(userId, (event) => {
+      if (event.kind === 'challenge') {
+        play('notification');
+        loadPendingChallenges();
+      } else if (event.kind === 'challenge_response' && event.challengeId) {
+        play('notification');
+        showResponse(event.challengeId);
+      }
+    });
+  }, [userId, loadPendingChallenges, showResponse, play]);
+
+  return null;
+}
+
+export default ChallengeInvites;
@@ -0,0 +1,154 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Coins, Loader2, Swords } from 'lucide-react';
+import { Modal, ModalContent, ModalHeader, ModalBody, ModalFooter, ModalTitle, ModalDescription } from '@/components/ui/modal';
+import { Button } from '@/components/ui/button';
+import { useWalletBalance, formatBalance } from '@/features/wallet/store/wallet-store';
+import { ONLINE_GAMES } from '@/features/profile/constants';
+import { BET_CONFIG } from '@/features/games/common/constants';
+import { friendsService } from '../services/friends-service';
+import type { FriendEntry } from '../types';
+import { cn } from '@/lib/utils/cn';
+
+interface ChallengeModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  /** Current user (sender of the invite) */
+  userId: string;
+  friend: FriendEntry;
+}
+
+export function ChallengeModal({ isOpen, onClose, userId, friend }: ChallengeModalProps) {
+  const router = useRouter();
+  const balance = useWalletBalance();
+  const [gameType, setGameType] = useState(ONLINE_GAMES[0]?.slug ?? '');
+  const [betInput, setBetInput] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const betAmount = Math.max(0, parseInt(betInput, 10) || 0);
+  const exceedsBalance = betAmount > balance;
+  const exceedsMax = betAmount > BET_CONFIG.MAX_BET;
+  const canSubmit = !!gameType && !exceedsBalance && !exceedsMax && !isSubmitting;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!canSubmit) return;
+
+    setIsSubmitting(true);
+    setError(null);
+    const { challenge, error: challengeError } = await friendsService.createChallenge(
+      friend.userId,
+      gameType,
+      betAmount
+    );
+
+    if (!challenge) {
+      setIsSubmitting(false);
+      setError(challengeError);
+      return;
+    }
+
+    friendsService.notifyUser(friend.userId, { kind: 'challenge', from: userId, challengeId: challenge.id });
+    // Wait for the friend in the private room the challenge created
+    router.push(`/games/${challenge.game_type}?room=${challenge.room_id}`);
+    onClose();
+  };
+
+  return (
+    <Modal open={isOpen} onClose={onClose}>
+      <ModalContent>
+        <ModalHeader>
+          <div className="flex items-center gap-3">
+            <div className="w-12 h-12 rounded-xl bg-(--color-primary)/20 flex items-center justify-center">
+              <Swords className="text-(--color-primary)" size={24} />
+            </div>
+            <div>
+              <ModalTitle>Desafiar a {friend.username}</ModalTitle>
+              <ModalDescription>Se crea una sala privada y le llega la invitación</ModalDescription>
+            </div>
+          </div>
+        </ModalHeader>
+
+        <form onSubmit={handleSubmit}>
+          <ModalBody className="space-y-5">
+            <div className="space-y-2">
+              <p className="text-sm font-medium text-(--color-text)">Juego</p>
+              <div className="flex gap-2" role="radiogroup" aria-label="Juego">
+                {ONLINE_GAMES.map((game) => (
+                  <button
+                    key={game.slug}
+                    type="button"
+                    role="radio"
+                    aria-checked={gameType === game.slug}
+                    onClick={() => setGameType(game.slug)}
+                    className={cn(
+                      'flex-1 px-3 py-2 rounded-xl text-sm font-medium border transition-colors',
+                      'focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-(--color-primary) focus-visible:ring-offset-2',
+                      gameType === game.slug
+                        ? 'bg-(--color-primary)/15 border-(--color-primary) text-(--color-primary)'
+                        : 'bg-(--color-background)/50 border-(--color-border) text-(--color-text-muted) hover:text-(--color-text)'
+                    )}
+                  >
+                    {game.icon} {game.name}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <label htmlFor="challenge-bet" className="text-sm font-medium text-(--color-text)">
+                Apuesta (opcional)
+              </label>
+              <div className="relative">
+                <Coins size={16} className="absolute left-4 top-1/2 -translate-y-1/2 text-(--color-text-muted)" />
+                <input
+                  id="challenge-bet"
+                  type="number"
+                  inputMode="numeric"
+                  min="0"
+                  max={BET_CONFIG.MAX_BET}
+                  value={betInput}
+                  onChange={(e) => setBetInput(e.target.value)}
+                  placeholder="Sin apuesta"
+                  className={cn(
+                    'w-full pl-11 pr-4 py-3 rounded-xl',
+                    'bg-(--color-background) border border-(--color-border)',
+                    'text-sm text-(--color-text) placeholder:text-(--color-text-subtle)',
+                    'focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-(--color-primary) focus-visible:ring-offset-2',
+                    '[appearance:textfield] [&::-webkit-outer-spin-button]:appearance-none [&::-webkit-inner-spin-button]:appearance-none'
+                  )}
+                />
+              </div>
+              <p className={cn('text-xs', exceedsBalance || exceedsMax ? 'text-(--color-error)' : 'text-(--color-text-muted)')}>
+                {exceedsMax
+                  ? `La apuesta maxima es ${formatBalance(BET_CONFIG.MAX_BET)}`
+                  : exceedsBalance
+                    ? `Tu saldo es ${formatBalance(balance)}`
+                    : 'Ambos apuestan lo mismo; el ganador se lleva el pozo.'}
+              </p>
+            </div>
+
+            {error && (
+              <p className="text-sm text-(--color-error)" role="alert">{error}</p>
+            )}
+          </ModalBody>
+
+          <ModalFooter>
+            <Button type="button" variant="ghost" onClick={onClose}>
+              Cancelar
+            </Button>
+            <Button type="submit" disabled={!canSubmit} className="gap-2">
+              {isSubmitting && <Loader2 size={16} className="animate-spin" />}
+              Enviar desafío
+            </Button>
+          </ModalFooter>
+        </form>
+      </ModalContent>
+    </Modal>
+  );
+}
+
+export default ChallengeModal;
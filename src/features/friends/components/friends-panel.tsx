@@ -0,0 +1,267 @@
+'use client';
+
+import { useState } from 'react';
+import { Check, X, UserPlus, MoreHorizontal, Swords, UserMinus, Ban, Loader2 } from 'lucide-react';
+import { useAuth } from '@/features/auth';
+import { getOnlineGameConfig } from '@/features/profile/constants';
+import { Avatar, AvatarFallback } from '@/components/ui/avatar';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { useFriends } from '../hooks/use-friends';
+import { usePresenceStore } from '../store/presence-store';
+import { ChallengeModal } from './challenge-modal';
+import type { FriendEntry, PresenceInfo } from '../types';
+import { cn } from '@/lib/utils/cn';
+
+interface FriendsPanelProps {
+  className?: string;
+}
+
+function presenceLabel(presence: PresenceInfo | undefined): string {
+  if (!presence) return 'Desconectado';
+  if (presence.status === 'in_game') {
+    const game = presence.gameType ? getOnlineGameConfig(presence.gameType) : undefined;
+    return game ? `Jugando ${game.name}` : 'En partida';
+  }
+  return 'En línea';
+}
+
+function FriendAvatar({ entry, presence }: { entry: FriendEntry; presence?: PresenceInfo }) {
+  return (
+    <div className="relative shrink-0">
+      <Avatar className="h-8 w-8">
+        <AvatarFallback className="bg-(--color-surface) text-(--color-text) text-xs font-bold">
+          {entry.username.charAt(0).toUpperCase()}
+        </AvatarFallback>
+      </Avatar>
+      {presence && (
+        <span
+          className={cn(
+            'absolute -bottom-0.5 -right-0.5 w-3 h-3 rounded-full border-2 border-(--sidebar-background)',
+            presence.status === 'in_game' ? 'bg-(--color-warning)' : 'bg-(--color-success)'
+          )}
+          aria-hidden="true"
+        />
+      )}
+    </div>
+  );
+}
+
+function SectionTitle({ children }: { children: React.ReactNode }) {
+  return (
+    <p className="px-1 pt-3 pb-1 text-xs font-semibold uppercase tracking-wide text-(--color-text-subtle)">
+      {children}
+    </p>
+  );
+}
+
+/**
+ * Friends list with presence, pending requests and challenge actions
+ */
+export function FriendsPanel({ className }: FriendsPanelProps) {
+  const { user } = useAuth();
+  const userId = user?.id;
+  const {
+    friends,
+    incomingRequests,
+    outgoingRequests,
+    blocked,
+    isLoading,
+    error,
+    sendRequest,
+    respond,
+    remove,
+    block,
+  } = useFriends(userId);
+  const onlineUsers = usePresenceStore((s) => s.onlineUsers);
+  const [username, setUsername] = useState('');
+  const [isSending, setIsSending] = useState(false);
+  const [challengeTarget, setChallengeTarget] = useState<FriendEntry | null>(null);
+
+  if (!userId) return null;
+
+  // Connected friends first
+  const sortedFriends = [...friends].sort(
+    (a, b) => Number(!!onlineUsers[b.userId]) - Number(!!onlineUsers[a.userId])
+  );
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const trimmed = username.trim();
+    if (!trimmed || isSending) return;
+
+    setIsSending(true);
+    const sent = await sendRequest(trimmed);
+    setIsSending(false);
+    if (sent) setUsername('');
+  };
+
+  return (
+    <div className={cn('space-y-1', className)}>
+      <form onSubmit={handleAdd} className="flex gap-2">
+        <input
+          type="text"
+          value={username}
+          onChange={(e) => setUsername(e.target.value)}
+          placeholder="Agregar por usuario"
+          aria-label="Nombre de usuario"
+          maxLength={30}
+          className={cn(
+            'flex-1 min-w-0 px-3 py-2 rounded-lg',
+            'bg-(--color-background) border border-(--color-border)',
+            'text-sm text-(--color-text) placeholder:text-(--color-text-subtle)',
+            'focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-(--color-primary)'
+          )}
+        />
+        <Button
+          type="submit"
+          variant="ghost"
+          size="icon"
+          className="h-9 w-9 shrink-0"
+          disabled={!username.trim() || isSending}
+          aria-label="Enviar solicitud"
+        >
+          {isSending ? <Loader2 size={16} className="animate-spin" /> : <UserPlus size={16} />}
+        </Button>
+      </form>
+
+      {error && (
+        <p className="px-1 text-xs text-(--color-error)" role="alert">{error}</p>
+      )}
+
+      {incomingRequests.length > 0 && (
+        <>
+          <SectionTitle>Solicitudes ({incomingRequests.length})</SectionTitle>
+          {incomingRequests.map((entry) => (
+            <div key={entry.friendshipId} className="flex items-center gap-2 px-1 py-1.5">
+              <FriendAvatar entry={entry} />
+              <span className="flex-1 min-w-0 text-sm text-(--color-text) truncate">{entry.username}</span>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7 text-(--color-success)"
+                onClick={() => respond(entry, true)}
+                aria-label={`Aceptar a ${entry.username}`}
+              >
+                <Check size={14} />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7 text-(--color-text-muted)"
+                onClick={() => respond(entry, false)}
+                aria-label={`Rechazar a ${entry.username}`}
+              >
+                <X size={14} />
+              </Button>
+            </div>
+          ))}
+        </>
+      )}
+
+      <SectionTitle>Amigos ({friends.length})</SectionTitle>
+      {isLoading ? (
+        <div className="flex justify-center py-3">
+          <Loader2 size={16} className="animate-spin text-(--color-text-muted)" />
+        </div>
+      ) : sortedFriends.length === 0 ? (
+        <p className="px-1 py-2 text-xs text-(--color-text-muted)">
+          Todavía no tienes amigos agregados.
+        </p>
+      ) : (
+        sortedFriends.map((entry) => {
+          const presence = onlineUsers[entry.userId];
+          return (
+            <div key={entry.friendshipId} className="flex items-center gap-2 px-1 py-1.5 rounded-lg hover:bg-(--color-background-hover)">
+              <FriendAvatar entry={entry} presence={presence} />
+              <div className="flex-1 min-w-0">
+                <p className="text-sm text-(--color-text) truncate">{entry.username}</p>
+                <p className="text-xs text-(--color-text-muted) truncate">{presenceLabel(presence)}</p>
+              </div>
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button variant="ghost" size="icon" className="h-7 w-7" aria-label={`Acciones para ${entry.username}`}>
+                    <MoreHorizontal size={14} />
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end" className="w-44">
+                  <DropdownMenuItem onClick={() => setChallengeTarget(entry)}>
+                    <Swords size={16} className="mr-2 text-(--color-primary)" />
+                    Desafiar
+                  </DropdownMenuItem>
+                  <DropdownMenuSeparator />
+                  <DropdownMenuItem onClick={() => remove(entry)}>
+                    <UserMinus size={16} className="mr-2" />
+                    Eliminar
+                  </DropdownMenuItem>
+                  <DropdownMenuItem onClick={() => block(entry)} className="text-(--color-error)">
+                    <Ban size={16} className="mr-2" />
+                    Bloquear
+                  </DropdownMenuItem>
+                </DropdownMenuContent>
+              </DropdownMenu>
+            </div>
+          );
+        })
+      )}
+
+      {outgoingRequests.length > 0 && (
+        <>
+          <SectionTitle>Enviadas</SectionTitle>
+          {outgoingRequests.map((entry) => (
+            <div key={entry.friendshipId} className="flex items-center gap-2 px-1 py-1.5">
+              <FriendAvatar entry={entry} />
+              <span className="flex-1 min-w-0 text-sm text-(--color-text-muted) truncate">{entry.username}</span>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7 text-(--color-text-muted)"
+                onClick={() => remove(entry)}
+                aria-label={`Cancelar solicitud a ${entry.username}`}
+              >
+                <X size={14} />
+              </Button>
+            </div>
+          ))}
+        </>
+      )}
+
+      {blocked.length > 0 && (
+        <>
+          <SectionTitle>Bloqueados</SectionTitle>
+          {blocked.map((entry) => (
+            <div key={entry.friendshipId} className="flex items-center gap-2 px-1 py-1.5">
+              <FriendAvatar entry={entry} />
+              <span className="flex-1 min-w-0 text-sm text-(--color-text-muted) truncate">{entry.username}</span>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-7 px-2 text-xs"
+                onClick={() => remove(entry)}
+              >
+                Desbloquear
+              </Button>
+            </div>
+          ))}
+        </>
+      )}
+
+      {challengeTarget && (
+        <ChallengeModal
+          isOpen
+          onClose={() => setChallengeTarget(null)}
+          userId={userId}
+          friend={challengeTarget}
+        />
+      )}
+    </div>
+  );
+}
+
+export default FriendsPanel;
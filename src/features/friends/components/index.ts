@@ -0,0 +1,4 @@
+export { FriendsPanel } from './friends-panel';
+export { ChallengeModal } from './challenge-modal';
+export { ChallengeInvites } from './challenge-invites';
+export { PresenceTracker } from './presence-tracker';
@@ -0,0 +1,44 @@
+'use client';
+
+import { useEffect, useRef } from 'react';
+import { useAuth } from '@/features/auth';
+import { friendsService, type PresenceHandle } from '../services/friends-service';
+import { usePresenceStore } from '../store/presence-store';
+
+/**
+ * Keeps the signed-in user on the global presence channel and mirrors
+ * everyone's presence into the store. Renders nothing; mount once in the layout.
+ */
+export function PresenceTracker() {
+  const { user } = useAuth();
+  const userId = user?.id;
+  const activity = usePresenceStore((s) => s.activity);
+  const handleRef = useRef<PresenceHandle | null>(null);
+  const activityRef = useRef(activity);
+
+  useEffect(() => {
+    activityRef.current = activity;
+    handleRef.current?.update(activity);
+  }, [activity]);
+
+  useEffect(() => {
+    if (!userId) return;
+
+    const handle = friendsService.joinPresence(
+      userId,
+      activityRef.current,
+      (users) => usePresenceStore.getState().setOnlineUsers(users)
+    );
+    handleRef.current = handle;
+
+    return () => {
+      handle.leave();
+      handleRef.current = null;
+      usePresenceStore.getState().setOnlineUsers({});
+    };
+  }, [userId]);
+
+  return null;
+}
+
+export default PresenceTracker;
@@ -0,0 +1,99 @@
+'use client';
+
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { friendsService } from '../services/friends-service';
+import type { Friendship, FriendEntry } from '../types';
+
+// Friendship row seen from the current user's side
+function toFriendEntry(friendship: Friendship, userId: string): FriendEntry {
+  const isRequester = friendship.requester_id === userId;
+  const other = isRequester ? friendship.addressee : friendship.requester;
+
+  return {
+    friendshipId: friendship.id,
+    userId: isRequester ? friendship.addressee_id : friendship.requester_id,
+    username: other?.username || 'Jugador',
+    avatarUrl: other?.avatar_url ?? null,
+    status: friendship.status,
+    direction: isRequester ? 'outgoing' : 'incoming',
+  };
+}
+
+export function useFriends(userId: string | null | undefined) {
+  const [friendships, setFriendships] = useState<Friendship[]>([]);
+  const [isLoading, setIsLoading] = useState(!!userId);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadFriendships = useCallback(async () => {
+    if (!userId) {
+      setFriendships([]);
+      setIsLoading(false);
+      return;
+    }
+    setFriendships(await friendsService.listFriendships(userId));
+    setIsLoading(false);
+  }, [userId]);
+
+  useEffect(() => {
+    // eslint-disable-next-line react-hooks/set-state-in-effect -- initial fetch
+    loadFriendships();
+    if (!userId) return;
+
+    // Requests and answers from other users arrive through the inbox
+    return friendsService.subscribeToInbox(userId, (event) => {
+      if (event.kind === 'friend_request' || event.kind === 'friend_update') {
+        loadFriendships();
+      }
+    });
+  }, [userId, loadFriendships]);
+
+  const entries = useMemo(
+    () => (userId ? friendships.map((friendship) => toFriendEntry(friendship, userId)) : []),
+    [friendships, userId]
+  );
+
+  // Run an action, notify the other user and reload
+  const runAction = useCallback(async (action: () => Promise<string | null>, notifyUserId?: string) => {
+    setError(null);
+    const actionError = await action();
+    if (actionError) {
+      setError(actionError);
+    } else if (notifyUserId && userId) {
+      friendsService.notifyUser(notifyUserId, { kind: 'friend_update', from: userId });
+    }
+    await loadFriendships();
+    return !actionError;
+  }, [userId, loadFriendships]);
+
+  const sendRequest = useCallback(async (username: string) => {
+    setError(null);
+    const { friendship, error: sendError } = await friendsService.sendFriendRequest(username);
+    if (!friendship || !userId) {
+      setError(sendError);
+      return false;
+    }
+    const otherId = friendship.requester_id === userId ? friendship.addressee_id : friendship.requester_id;
+    friendsService.notifyUser(otherId, { kind: 'friend_request', from: userId });
+    await loadFriendships();
+    return true;
+  }, [userId, loadFriendships]);
+
+  return {
+    friends: entries.filter((entry) => entry.status === 'accepted'),
+    incomingRequests: entries.filter((entry) => entry.status === 'pending' && entry.direction === 'incoming'),
+    outgoingRequests: entries.filter((entry) => entry.status === 'pending' && entry.direction === 'outgoing'),
+    blocked: entries.filter((entry) => entry.status === 'blocked'),
+    isLoading,
+    error,
+    sendRequest,
+    respond: (entry: FriendEntry, accept: boolean) =>
+      runAction(() => friendsService.respondFriendRequest(entry.friendshipId, accept), entry.userId),
+    remove: (entry: FriendEntry) =>
+      runAction(() => friendsService.removeFriendship(entry.friendshipId), entry.userId),
+    block: (entry: FriendEntry) =>
+      runAction(() => friendsService.blockUser(entry.userId)),
+    refetch: loadFriendships,
+  };
+}
+
+export default useFriends;
@@ -0,0 +1,13 @@
+export { friendsService } from './services/friends-service';
+export { useFriends } from './hooks/use-friends';
+export { usePresenceStore } from './store/presence-store';
+export { FriendsPanel, ChallengeModal, ChallengeInvites, PresenceTracker } from './components';
+export type {
+  Friendship,
+  FriendEntry,
+  FriendshipStatus,
+  GameChallenge,
+  ChallengeStatus,
+  PresenceInfo,
+  PresenceStatus,
+} from './types';
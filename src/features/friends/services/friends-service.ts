@@ -0,0 +1,323 @@
+'use client';
+
+import { getClient } from '@/lib/supabase/client';
+import type { RealtimeChannel } from '@supabase/supabase-js';
+import { createLogger } from '@/lib/utils/logger';
+import { BET_CONFIG } from '@/features/games/common/constants';
+import type { Friendship, GameChallenge, InboxEvent, PresenceInfo } from '../types';
+
+const log = createLogger({ prefix: 'FriendsService' });
+const realtimeLog = createLogger({ prefix: 'Realtime' });
+
+// Canal de presencia compartido por todos los usuarios conectados
+const PRESENCE_CHANNEL = 'presence:players';
+
+// Mensajes de las excepciones de las funciones SQL (ver 022_friends.sql)
+const RPC_ERROR_MESSAGES: Record<string, string> = {
+  'Not authenticated': 'Usuario no autenticado',
+  'User not found': 'No existe un usuario con ese nombre',
+  'Cannot add yourself': 'No puedes agregarte a ti mismo',
+  'User is blocked': 'Bloqueaste a este usuario',
+  'Request not found': 'La solicitud ya no existe',
+  'Friendship not found': 'La amistad ya no existe',
+  'Not friends': 'Solo puedes desafiar a tus amigos',
+  'Insufficient balance': 'Saldo insuficiente para esa apuesta',
+  'Bet above maximum': `La apuesta maxima es ${BET_CONFIG.MAX_BET}`,
+  'Game does not support online play': 'Este juego no se puede jugar online',
+  'Challenge not found': 'El desafío ya no existe',
+  'Challenge no longer available': 'El desafío ya no está disponible',
+  'Challenge expired': 'El desafío venció',
+};
+
+const FRIENDSHIP_SELECT = `
+  *,
+  requester:profiles!friendships_requester_id_fkey(id, username, avatar_url),
+  addressee:profiles!friendships_addressee_id_fkey(id, username, avatar_url)
+`;
+
+const CHALLENGE_SELECT = `
+  *,
+  challenger:profiles!game_challenges_challenger_id_fkey(id, username, avatar_url),
+  challenged:profiles!game_challenges_challenged_id_fkey(id, username, avatar_url)
+`;
+
+function rpcErrorMessage(error: { message: string }, fallback: string): string {
+  return RPC_ERROR_MESSAGES[error.message] ?? fallback;
+}
+
+export interface PresenceHandle {
+  /** Update what this user is doing (online / in a game) */
+  update: (info: PresenceInfo) => void;
+  leave: () => void;
+}
+
+class FriendsService {
+  // Canal del inbox propio y sus listeners (un canal por usuario conectado)
+  private inboxChannel: RealtimeChannel | null = null;
+  private inboxUserId: string | null = null;
+  private inboxListeners: Set<(event: InboxEvent) => void> = new Set();
+
+  private get supabase() {
+    return getClient();
+  }
+
+  // Amistades, solicitudes y bloqueos del usuario (RLS oculta los bloqueos que recibió)
+  async listFriendships(userId: string): Promise<Friendship[]> {
+    if (!userId) {
+      log.error('listFriendships: userId is required');
+      return [];
+    }
+
+    const { data, error } = await this.supabase
+      .from('friendships')
+      .select(FRIENDSHIP_SELECT)
+      .or(`requester_id.eq.${userId},addressee_id.eq.${userId}`)
+      .order('updated_at', { ascending: false });
+
+    if (error) {
+      log.error('Error listing friendships:', error);
+      return [];
+    }
+
+    return data as Friendship[];
+  }
+
+  // Enviar solicitud por nombre de usuario (si el otro ya la envió, queda aceptada)
+  async sendFriendRequest(username: string): Promise<{ friendship: Friendship | null; error: string | null }> {
+    // @ts-expect-error - Supabase RPC types require CLI regeneration (supabase gen types)
+    const { data, error } = await this.supabase.rpc('send_friend_request', {
+      p_username: username,
+    });
+
+    if (error) {
+      log.error('Error sending friend request:', error);
+      return { friendship: null, error: rpcErrorMessage(error, 'No se pudo enviar la solicitud') };
+    }
+
+    return { friendship: data as Friendship, error: null };
+  }
+
+  // Aceptar o rechazar una solicitud recibida
+  async respondFriendRequest(friendshipId: string, accept: boolean): Promise<string | null> {
+    // @ts-expect-error - Supabase RPC types require CLI regeneration (supabase gen types)
+    const { error } = await this.supabase.rpc('respond_friend_request', {
+      p_friendship_id: friendshipId,
+      p_accept: accept,
+    });
+
+    if (error) {
+      log.error('Error responding friend request:', error);
+      return rpcErrorMessage(error, 'No se pudo responder la solicitud');
+    }
+
+    return null;
+  }
+
+  // Eliminar amigo, cancelar solicitud enviada o desbloquear
+  async removeFriendship(friendshipId: string): Promise<string | null> {
+    // @ts-expect-error - Supabase RPC types require CLI regeneration (supabase gen types)
+    const { error } = await this.supabase.rpc('remove_friendship', {
+      p_friendship_id: friendshipId,
+    });
+
+    if (error) {
+      log.error('Error removing friendship:', error);
+      return rpcErrorMessage(error, 'No se pudo eliminar');
+    }
+
+    return null;
+  }
+
+  // Bloquear usuario (reemplaza la amistad y cancela desafíos pendientes)
+  async blockUser(userId: string): Promise<string | null> {
+    // @ts-expect-error - Supabase RPC types require CLI regeneration (supabase gen types)
+    const { error } = await this.supabase.rpc('block_user', {
+      p_user_id: userId,
+    });
+
+    if (error) {
+      log.error('Error blocking user:', error);
+      return rpcErrorMessage(error, 'No se pudo bloquear');
+    }
+
+    return null;
+  }
+
+  // ============================================
+  // DESAFÍOS
+  // ============================================
+
+  // Desafiar a un amigo: el servidor crea la sala privada (con apuesta opcional)
+  async createChallenge(
+    friendId: string,
+    gameType: string,
+    betAmount: number | null = null
+  ): Promise<{ challenge: GameChallenge | null; error: string | null }> {
+    // @ts-expect-error - Supabase RPC types require CLI regeneration (supabase gen types)
+    const { data, error } = await this.supabase.rpc('create_challenge', {
+      p_friend_id: friendId,
+      p_game_type: gameType,
+      p_bet_amount: betAmount,
+    });
+
+    if (error) {
+      log.error('Error creating challenge:', error);
+      return { challenge: null, error: rpcErrorMessage(error, 'No se pudo enviar el desafío') };
+    }
+
+    return { challenge: data as GameChallenge, error: null };
+  }
+
+  // Aceptar o rechazar un desafío recibido
+  async respondChallenge(
+    challengeId: string,
+    accept: boolean
+  ): Promise<{ challenge: GameChallenge | null; error: string | null }> {
+    // @ts-expect-error - Supabase RPC types require CLI regeneration (supabase gen types)
+    const { data, error } = await this.supabase.rpc('respond_challenge', {
+      p_challenge_id: challengeId,
+      p_accept: accept,
+    });
+
+    if (error) {
+      log.error('Error responding challenge:', error);
+      return { challenge: null, error: rpcErrorMessage(error, 'No se pudo responder el desafío') };
+    }
+
+    return { challenge: data as GameChallenge, error: null };
+  }
+
+  // Desafíos recibidos que siguen pendientes y sin vencer
+  async getPendingChallenges(userId: string): Promise<GameChallenge[]> {
+    if (!userId) {
+      return [];
+    }
+
+    const { data, error } = await this.supabase
+      .from('game_challenges')
+      .select(CHALLENGE_SELECT)
+      .eq('challenged_id', userId)
+      .eq('status', 'pending')
+      .gt('expires_at', new Date().toISOString())
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      log.error('Error getting pending challenges:', error);
+      return [];
+    }
+
+    return data as GameChallenge[];
+  }
+
+  // Obtener desafío por ID
+  async getChallenge(challengeId: string): Promise<GameChallenge | null> {
+    const { data, error } = await this.supabase
+      .from('game_challenges')
+      .select(CHALLENGE_SELECT)
+      .eq('id', challengeId)
+      .maybeSingle();
+
+    if (error) {
+      log.error('Error getting challenge:', error);
+      return null;
+    }
+
+    return data as GameChallenge | null;
+  }
+
+  // ============================================
+  // TIEMPO REAL: INBOX Y PRESENCIA
+  // ============================================
+
+  // Avisar a otro usuario que hay novedades (broadcast por REST, sin suscribirse a su canal)
+  async notifyUser(userId: string, event: InboxEvent): Promise<void> {
+    const channel = this.supabase.channel(`inbox:${userId}`);
+    try {
+      await channel.httpSend('inbox', event);
+    } catch (err) {
+      realtimeLog.error('Error notifying user:', err);
+    } finally {
+      this.supabase.removeChannel(channel);
+    }
+  }
+
+  // Escuchar el inbox propio; todos los listeners comparten un canal
+  subscribeToInbox(userId: string, callback: (event: InboxEvent) => void): () => void {
+    if (this.inboxChannel && this.inboxUserId !== userId) {
+      this.supabase.removeChannel(this.inboxChannel);
+      this.inboxChannel = null;
+      this.inboxListeners.clear();
+    }
+
+    this.inboxListeners.add(callback);
+
+    if (!this.inboxChannel) {
+      this.inboxUserId = userId;
+      this.inboxChannel = this.supabase
+        .channel(`inbox:${userId}`)
+        .on('broadcast', { event: 'inbox' }, ({ payload }) => {
+          this.inboxListeners.forEach(listener => listener(payload as InboxEvent));
+        })
+        .subscribe((status) => {
+          realtimeLog.log('Inbox channel status:', status);
+        });
+    }
+
+    return () => {
+      this.inboxListeners.delete(callback);
+      if (this.inboxListeners.size === 0 && this.inboxChannel) {
+        this.supabase.removeChannel(this.inboxChannel);
+        this.inboxChannel = null;
+        this.inboxUserId = null;
+      }
+    };
+  }
+
+  // Entrar al canal de presencia global; onSync recibe quién está conectado y qué hace
+  joinPresence(
+    userId: string,
+    info: PresenceInfo,
+    onSync: (users: Record<string, PresenceInfo>) => void
+  ): PresenceHandle {
+    let current = info;
+    let isSubscribed = false;
+
+    const channel = this.supabase.channel(PRESENCE_CHANNEL, {
+      config: { presence: { key: userId } },
+    });
+
+    channel
+      .on('presence', { event: 'sync' }, () => {
+        const users: Record<string, PresenceInfo> = {};
+        for (const [key, metas] of Object.entries(channel.presenceState<PresenceInfo>())) {
+          // Con varias pestañas abiertas, "en partida" gana sobre "en línea"
+          const inGame = metas.find(meta => meta.status === 'in_game');
+          users[key] = inGame
+            ? { status: 'in_game', gameType: inGame.gameType ?? null }
+            : { status: 'online' };
+        }
+        onSync(users);
+      })
+      .subscribe(async (status) => {
+        if (status === 'SUBSCRIBED') {
+          isSubscribed = true;
+          await channel.track(current);
+        }
+      });
+
+    return {
+      update: (next) => {
+        current = next;
+        if (isSubscribed) {
+          channel.track(next);
+        }
+      },
+      leave: () => {
+        this.supabase.removeChannel(channel);
+      },
+    };
+  }
+}
+
+export const friendsService = new FriendsService();
+export default friendsService;
@@ -0,0 +1,22 @@
+'use client';
+
+import { create } from 'zustand';
+import type { PresenceInfo } from '../types';
+
+interface PresenceState {
+  // Who is connected right now (by user ID), synced from the presence channel
+  onlineUsers: Record<string, PresenceInfo>;
+  setOnlineUsers: (users: Record<string, PresenceInfo>) => void;
+  // What this user is doing; PresenceTracker publishes it
+  activity: PresenceInfo;
+  setActivity: (activity: PresenceInfo) => void;
+}
+
+export const usePresenceStore = create<PresenceState>()((set) => ({
+  onlineUsers: {},
+  setOnlineUsers: (users) => set({ onlineUsers: users }),
+  activity: { status: 'online' },
+  setActivity: (activity) => set({ activity }),
+}));
+
+export default usePresenceStore;
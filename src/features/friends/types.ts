@@ -0,0 +1,67 @@
+export type FriendshipStatus = 'pending' | 'accepted' | 'blocked';
+
+export type ChallengeStatus = 'pending' | 'accepted' | 'declined' | 'cancelled';
+
+export interface FriendProfile {
+  id: string;
+  username: string;
+  avatar_url: string | null;
+}
+
+export interface Friendship {
+  id: string;
+  // Quien envió la solicitud (o quien bloqueó)
+  requester_id: string;
+  addressee_id: string;
+  status: FriendshipStatus;
+  created_at: string;
+  updated_at: string;
+  requester?: FriendProfile;
+  addressee?: FriendProfile;
+}
+
+/**
+ * A friendship seen from the current user's side
+ */
+export interface FriendEntry {
+  friendshipId: string;
+  userId: string;
+  username: string;
+  avatarUrl: string | null;
+  status: FriendshipStatus;
+  /** For pending requests: who sent it */
+  direction: 'incoming' | 'outgoing';
+}
+
+export interface GameChallenge {
+  id: string;
+  challenger_id: string;
+  challenged_id: string;
+  game_type: string;
+  room_id: string;
+  bet_amount: number | null;
+  status: ChallengeStatus;
+  created_at: string;
+  expires_at: string;
+  responded_at: string | null;
+  challenger?: FriendProfile;
+  challenged?: FriendProfile;
+}
+
+export type PresenceStatus = 'online' | 'in_game';
+
+export interface PresenceInfo {
+  status: PresenceStatus;
+  /** Game being played (only while in_game) */
+  gameType?: string | null;
+}
+
+/**
+ * Realtime nudge sent to a user's inbox; the receiver re-reads from the database
+ */
+export interface InboxEvent {
+  kind: 'friend_request' | 'friend_update' | 'challenge' | 'challenge_response' | 'tournament_start';
+  from: string;
+  challengeId?: string;
+  tournamentId?: string;
+}
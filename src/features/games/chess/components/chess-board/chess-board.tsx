@@ -0,0 +1,249 @@
+'use client';
+
+import { useState, useMemo } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import type { BoardState, ChessMove, Color, DetailedMove, Piece, PromotionPiece } from '../../types';
+import { COLOR_NAMES } from '../../types';
+import { colorOf, squareName } from '../../engine/position';
+import { cn } from '@/lib/utils/cn';
+
+// Solid glyphs for both sides (color comes from CSS); U+FE0E avoids emoji rendering
+const PIECE_GLYPHS: Record<string, string> = {
+  k: '♚︎',
+  q: '♛︎',
+  r: '♜︎',
+  b: '♝︎',
+  n: '♞︎',
+  p: '♟︎',
+};
+
+const PIECE_NAMES: Record<string, string> = {
+  k: 'rey',
+  q: 'dama',
+  r: 'torre',
+  b: 'alfil',
+  n: 'caballo',
+  p: 'peón',
+};
+
+const PROMOTION_PIECES: PromotionPiece[] = ['q', 'r', 'b', 'n'];
+
+interface PieceGlyphProps {
+  piece: Piece;
+  className?: string;
+}
+
+export function PieceGlyph({ piece, className }: PieceGlyphProps) {
+  const isWhite = colorOf(piece) === 'w';
+  return (
+    <span
+      aria-hidden="true"
+      className={cn(
+        'select-none leading-none',
+        isWhite
+          ? 'text-white [text-shadow:0_0_2px_#000,0_1px_2px_rgba(0,0,0,0.8)]'
+          : 'text-neutral-900 [text-shadow:0_0_2px_rgba(255,255,255,0.6)]',
+        className
+      )}
+    >
+      {PIECE_GLYPHS[piece.toLowerCase()]}
+    </span>
+  );
+}
+
+function describeSquare(square: number, piece: Piece | null): string {
+  if (!piece) return squareName(square);
+  const color = colorOf(piece) === 'w' ? 'blanco' : 'negro';
+  return `${squareName(square)}, ${PIECE_NAMES[piece.toLowerCase()]} ${color}`;
+}
+
+interface ChessBoardProps {
+  board: BoardState;
+  /** Side to move */
+  turn: Color;
+  /** Legal moves for the side to move (empty = nothing selectable) */
+  legalMoves: DetailedMove[];
+  onMove: (move: ChessMove) => void;
+  /** Color shown at the bottom */
+  orientation?: Color;
+  lastMove?: { from: number; to: number } | null;
+  /** King square to highlight when in check */
+  checkSquare?: number | null;
+  disabled?: boolean;
+  className?: string;
+}
+
+export function ChessBoard({
+  board,
+  turn,
+  legalMoves,
+  onMove,
+  orientation = 'w',
+  lastMove = null,
+  checkSquare = null,
+  disabled = false,
+  className = '',
+}: ChessBoardProps) {
+  const [selected, setSelected] = useState<number | null>(null);
+  const [pendingPromotion, setPendingPromotion] = useState<{ from: number; to: number } | null>(null);
+
+  // Drop the selection when the position changes under it
+  const [boardForSelection, setBoardForSelection] = useState(board);
+  if (boardForSelection !== board) {
+    setBoardForSelection(board);
+    setSelected(null);
+    setPendingPromotion(null);
+  }
+
+  const targets = useMemo(
+    () => (selected === null ? [] : legalMoves.filter((move) => move.from === selected)),
+    [legalMoves, selected]
+  );
+
+  const handleSquareClick = (square: number) => {
+    if (disabled) return;
+
+    const candidates = targets.filter((move) => move.to === square);
+    if (selected !== null && candidates.length > 0) {
+      if (candidates.some((move) => move.promotion)) {
+        setPendingPromotion({ from: selected, to: square });
+        return;
+      }
+      onMove({ from: squareName(selected), to: squareName(square) });
+      setSelected(null);
+      return;
+    }
+
+    const canSelect = legalMoves.some((move) => move.from === square);
+    setSelected(canSelect && square !== selected ? square : null);
+  };
+
+  const handlePromotion = (promotion: PromotionPiece) => {
+    if (!pendingPromotion) return;
+    onMove({ from: squareName(pendingPromotion.from), to: squareName(pendingPromotion.to), promotion });
+    setPendingPromotion(null);
+    setSelected(null);
+  };
+
+  return (
+    <div
+      data-testid="board"
+      className={cn(
+        'relative grid grid-cols-8 overflow-hidden rounded-xl',
+        'border-2 border-(--color-primary)/40 shadow-lg',
+        'w-[min(92vw,480px)] sm:w-[520px]',
+        'landscape:w-[min(80vh,440px)]',
+        className
+      )}
+    >
+      {Array.from({ length: 64 }, (_, displayIndex) => {
+        const square = orientation === 'w' ? displayIndex : 63 - displayIndex;
+        const row = Math.floor(displayIndex / 8);
+        const col = displayIndex % 8;
+        const piece = board[square];
+        const isLight = (Math.floor(square / 8) + (square % 8)) % 2 === 0;
+        const isSelected = selected === square;
+        const isTarget = targets.some((move) => move.to === square);
+        const isLastMove = lastMove?.from === square || lastMove?.to === square;
+        const name = squareName(square);
+
+        return (
+          <button
+            key={square}
+            data-testid="square"
+            className={cn(
+              'relative aspect-square flex items-center justify-center',
+              'focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-inset focus-visible:ring-(--color-primary)',
+              isLight ? 'bg-[#eeeed2]' : 'bg-[#769656]',
+              disabled ? 'cursor-default' : 'cursor-pointer'
+            )}
+            onClick={() => handleSquareClick(square)}
+            aria-label={describeSquare(square, piece)}
+            aria-pressed={isSelected}
+          >
+            {isLastMove && <span className="absolute inset-0 bg-yellow-300/45" />}
+            {isSelected && <span className="absolute inset-0 bg-(--color-primary)/45" />}
+            {checkSquare === square && (
+              <span className="absolute inset-0 bg-[radial-gradient(circle,rgba(239,68,68,0.9)_0%,rgba(239,68,68,0.4)_45%,transparent_75%)]" />
+            )}
+
+            {/* Coordinates on the edge squares */}
+            {col === 0 && (
+              <span className={cn('absolute top-0.5 left-1 text-[9px] sm:text-[11px] font-bold', isLight ? 'text-[#769656]' : 'text-[#eeeed2]')}>
+                {name[1]}
+              </span>
+            )}
+            {row === 7 && (
+              <span className={cn('absolute bottom-0 right-1 text-[9px] sm:text-[11px] font-bold', isLight ? 'text-[#769656]' : 'text-[#eeeed2]')}>
+                {name[0]}
+              </span>
+            )}
+
+            {piece && (
+              <motion.span
+                key={`${piece}-${square}`}
+                className="relative z-10"
+                initial={{ scale: 0.85, opacity: 0.6 }}
+                animate={{ scale: 1, opacity: 1 }}
+                transition={{ duration: 0.15 }}
+              >
+                <PieceGlyph piece={piece} className="text-[9vw] sm:text-5xl landscape:text-[7vh]" />
+              </motion.span>
+            )}
+
+            {isTarget && (
+              <span
+                className={cn(
+                  'absolute z-20 rounded-full pointer-events-none',
+                  piece
+                    ? 'inset-0.5 border-4 border-black/25'
+                    : 'w-1/3 h-1/3 bg-black/20'
+                )}
+              />
+            )}
+          </button>
+        );
+      })}
+
+      {/* Promotion picker */}
+      <AnimatePresence>
+        {pendingPromotion && (
+          <motion.div
+            className="absolute inset-0 z-30 flex items-center justify-center bg-black/50 backdrop-blur-sm"
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            onClick={() => setPendingPromotion(null)}
+          >
+            <div
+              className="flex gap-2 p-3 rounded-xl bg-(--color-surface) border border-(--color-border)"
+              role="dialog"
+              aria-label="Elegí la pieza de promoción"
+              onClick={(e) => e.stopPropagation()}
+            >
+              {PROMOTION_PIECES.map((promotion) => {
+                const piece = (turn === 'w' ? promotion.toUpperCase() : promotion) as Piece;
+                return (
+                  <button
+                    key={promotion}
+                    className={cn(
+                      'w-14 h-14 sm:w-16 sm:h-16 rounded-lg flex items-center justify-center',
+                      'bg-(--color-background) hover:bg-(--color-primary)/20',
+                      'focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-(--color-primary)'
+                    )}
+                    onClick={() => handlePromotion(promotion)}
+                    aria-label={`Promover a ${PIECE_NAMES[promotion]} (${COLOR_NAMES[turn]})`}
+                  >
+                    <PieceGlyph piece={piece} className="text-4xl sm:text-5xl" />
+                  </button>
+                );
+              })}
+            </div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+}
+
+export default ChessBoard;
@@ -0,0 +1 @@
+export { ChessBoard, PieceGlyph } from './chess-board';
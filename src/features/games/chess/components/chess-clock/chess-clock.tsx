@@ -0,0 +1,67 @@
+'use client';
+
+import { Clock } from 'lucide-react';
+import type { Color } from '../../types';
+import { cn } from '@/lib/utils/cn';
+
+// Below this the clock turns red and shows tenths
+const LOW_TIME_MS = 10_000;
+
+/**
+ * Formats remaining time as m:ss (or s.t under ten seconds)
+ */
+export function formatClock(ms: number): string {
+  if (ms < LOW_TIME_MS) {
+    return (Math.floor(ms / 100) / 10).toFixed(1);
+  }
+  const totalSeconds = Math.ceil(ms / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${String(seconds).padStart(2, '0')}`;
+}
+
+interface ChessClockProps {
+  color: Color;
+  label: string;
+  remainingMs: number;
+  isActive: boolean;
+  className?: string;
+}
+
+export function ChessClock({ color, label, remainingMs, isActive, className = '' }: ChessClockProps) {
+  const isLow = remainingMs < LOW_TIME_MS;
+
+  return (
+    <div
+      className={cn(
+        'flex items-center justify-between gap-3 px-3 py-2 rounded-lg border-2 transition-colors',
+        isActive ? 'border-(--color-primary) bg-(--color-primary)/10' : 'border-(--color-border) bg-(--color-surface)/60',
+        className
+      )}
+      aria-label={`Reloj de ${label}`}
+    >
+      <span className="flex items-center gap-2 min-w-0 text-sm font-semibold text-(--color-text)">
+        <span
+          className={cn(
+            'inline-block w-3.5 h-3.5 shrink-0 rounded-full border border-(--color-border)',
+            color === 'w' ? 'bg-white' : 'bg-neutral-900'
+          )}
+        />
+        <span className="truncate">{label}</span>
+      </span>
+      <span
+        className={cn(
+          'flex items-center gap-1.5 font-mono text-lg font-bold tabular-nums',
+          isLow ? 'text-(--color-error)' : 'text-(--color-text)',
+          isActive && isLow && 'animate-pulse'
+        )}
+        role="timer"
+      >
+        {isActive && <Clock size={14} className="text-(--color-text-muted)" />}
+        {formatClock(remainingMs)}
+      </span>
+    </div>
+  );
+}
+
+export default ChessClock;
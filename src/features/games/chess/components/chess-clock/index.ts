@@ -0,0 +1 @@
+export { ChessClock, formatClock } from './chess-clock';
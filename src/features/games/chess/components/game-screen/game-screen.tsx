@@ -0,0 +1,206 @@
+'use client';
+
+import { useState, useMemo } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { RotateCcw, ArrowLeft, Zap, FlipVertical2, FileText } from 'lucide-react';
+import { ChessBoard } from '../chess-board';
+import { ChessClock } from '../chess-clock';
+import { MoveList } from '../move-list';
+import { PgnDialog } from '../pgn-dialog';
+import { Button } from '@/components/ui/button';
+import { cn } from '@/lib/utils/cn';
+import type { ChessMove, ChessState, Color, DetailedMove, GameStatus } from '../../types';
+import { COLOR_NAMES, GAME_OVER_LABELS } from '../../types';
+import { createInitialState, getLastMove, getNextColor } from '../../engine/game-logic';
+import { findKing } from '../../engine/move-generation';
+import { exportPgn } from '../../engine/pgn';
+import type { GameMode } from '../../../registry/types';
+
+interface GameScreenProps {
+  state: ChessState;
+  status: GameStatus;
+  legalMoves: DetailedMove[];
+  isAIThinking: boolean;
+  mode: GameMode;
+  playerColor: Color;
+  clock: Record<Color, number>;
+  activeClock: Color | null;
+  isClockEnabled: boolean;
+  onMove: (move: ChessMove) => void;
+  onImport: (state: ChessState) => void;
+  onRestart: () => void;
+  onBackToMenu: () => void;
+}
+
+export function GameScreen({
+  state,
+  status,
+  legalMoves,
+  isAIThinking,
+  mode,
+  playerColor,
+  clock,
+  activeClock,
+  isClockEnabled,
+  onMove,
+  onImport,
+  onRestart,
+  onBackToMenu,
+}: GameScreenProps) {
+  const [isFlipped, setIsFlipped] = useState(false);
+  const [showPgn, setShowPgn] = useState(false);
+
+  const baseOrientation: Color = mode === 'ai' ? playerColor : 'w';
+  const orientation = isFlipped ? getNextColor(baseOrientation) : baseOrientation;
+  const isPlayerTurn = mode !== 'ai' || state.turn === playerColor;
+  const canMove = !status.isOver && !isAIThinking && isPlayerTurn;
+
+  const playerName = (color: Color) =>
+    mode === 'ai' ? (color === playerColor ? 'Vos' : 'IA') : COLOR_NAMES[color];
+
+  const start = useMemo(() => createInitialState(state.startFen), [state.startFen]);
+  const pgn = showPgn ? exportPgn(state, { White: playerName('w'), Black: playerName('b') }, status) : '';
+
+  const renderClock = (color: Color) =>
+    isClockEnabled && (
+      <ChessClock
+        color={color}
+        label={playerName(color)}
+        remainingMs={clock[color]}
+        isActive={activeClock === color}
+      />
+    );
+
+  return (
+    <div className="game-container flex flex-col items-center justify-center p-4 sm:p-6 landscape:p-2 landscape:gap-2">
+      {/* Header */}
+      <motion.div
+        className="mb-4 sm:mb-6 landscape:mb-2 text-center"
+        initial={{ opacity: 0, y: -20 }}
+        animate={{ opacity: 1, y: 0 }}
+      >
+        <h1 className="text-2xl sm:text-4xl landscape:text-xl font-heading font-bold text-(--color-text) mb-2 sm:mb-4 landscape:mb-1">
+          Ajedrez
+        </h1>
+
+        {/* Game status */}
+        <AnimatePresence mode="wait">
+          {status.isOver ? (
+            <motion.div
+              key="gameover"
+              initial={{ opacity: 0, scale: 0.5, y: -10 }}
+              animate={{ opacity: 1, scale: 1, y: 0, transition: { type: 'spring', stiffness: 300, damping: 15 } }}
+              exit={{ opacity: 0, scale: 0.8 }}
+              className="text-xl sm:text-3xl landscape:text-lg font-bold"
+            >
+              <span className={status.winner ? 'text-(--color-primary)' : 'text-(--color-accent)'}>
+                {status.winner
+                  ? mode === 'ai'
+                    ? status.winner === playerColor
+                      ? '🎉 Ganaste!'
+                      : 'La IA ganó'
+                    : `¡Ganan las ${COLOR_NAMES[status.winner]}!`
+                  : '¡Tablas!'}
+              </span>
+              {status.reason && (
+                <p className="mt-1 text-sm sm:text-base font-medium text-(--color-text-muted)">
+                  {GAME_OVER_LABELS[status.reason]}
+                </p>
+              )}
+            </motion.div>
+          ) : (
+            <motion.div
+              key="turn"
+              initial={{ opacity: 0 }}
+              animate={{ opacity: 1 }}
+              exit={{ opacity: 0 }}
+              className="flex items-center justify-center gap-2 text-base sm:text-lg landscape:text-sm"
+            >
+              {isAIThinking ? (
+                <>
+                  <Zap className="animate-pulse text-(--color-accent)" size={20} />
+                  <span className="text-(--color-text-muted)">IA pensando...</span>
+                </>
+              ) : (
+                <>
+                  <span className="text-(--color-text-muted)">Turno de</span>
+                  <span className="flex items-center gap-1.5 font-bold text-(--color-text)">
+                    <span
+                      className={cn(
+                        'inline-block w-4 h-4 rounded-full border border-(--color-border)',
+                        state.turn === 'w' ? 'bg-white' : 'bg-neutral-900'
+                      )}
+                    />
+                    {COLOR_NAMES[state.turn]}
+                  </span>
+                  {status.isCheck && <span className="font-bold text-(--color-error)">· Jaque</span>}
+                </>
+              )}
+            </motion.div>
+          )}
+        </AnimatePresence>
+      </motion.div>
+
+      <div className="flex flex-col lg:flex-row items-center lg:items-start gap-4">
+        {/* Board */}
+        <motion.div
+          className="flex flex-col gap-2"
+          initial={{ opacity: 0, scale: 0.9 }}
+          animate={{ opacity: 1, scale: 1 }}
+          transition={{ delay: 0.2 }}
+        >
+          {renderClock(getNextColor(orientation))}
+          <ChessBoard
+            board={state.board}
+            turn={state.turn}
+            legalMoves={canMove ? legalMoves : []}
+            onMove={onMove}
+            orientation={orientation}
+            lastMove={getLastMove(state)}
+            checkSquare={status.isCheck ? findKing(state.board, state.turn) : null}
+            disabled={!canMove}
+          />
+          {renderClock(orientation)}
+        </motion.div>
+
+        {/* Moves and controls */}
+        <motion.div
+          className="flex flex-col gap-3 w-[min(92vw,480px)] lg:w-64"
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: 0.3 }}
+        >
+          <MoveList
+            history={state.history}
+            firstMoveNumber={start.fullmoveNumber}
+            startsWithBlack={start.turn === 'b'}
+            className="h-32 lg:h-[360px]"
+          />
+
+          <div className="grid grid-cols-2 gap-2">
+            <Button onClick={onRestart} variant="outline" className="gap-2">
+              <RotateCcw size={18} />
+              Reiniciar
+            </Button>
+            <Button onClick={() => setIsFlipped((prev) => !prev)} variant="outline" className="gap-2">
+              <FlipVertical2 size={18} />
+              Girar
+            </Button>
+            <Button onClick={() => setShowPgn(true)} variant="outline" className="gap-2">
+              <FileText size={18} />
+              PGN
+            </Button>
+            <Button onClick={onBackToMenu} variant="ghost" className="gap-2">
+              <ArrowLeft size={18} />
+              Menú
+            </Button>
+          </div>
+        </motion.div>
+      </div>
+
+      <PgnDialog open={showPgn} onOpenChange={setShowPgn} pgn={pgn} onImport={onImport} />
+    </div>
+  );
+}
+
+export default GameScreen;
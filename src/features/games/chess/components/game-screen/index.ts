@@ -0,0 +1,2 @@
+export { GameScreen } from './game-screen';
+export type { default as GameScreenDefault } from './game-screen';
@@ -0,0 +1,8 @@
+export { ChessBoard, PieceGlyph } from './chess-board';
+export { ChessClock, formatClock } from './chess-clock';
+export { MoveList } from './move-list';
+export { PgnDialog } from './pgn-dialog';
+export { ModeSelection } from './mode-selection';
+export { GameScreen } from './game-screen';
+export { OnlineGame } from './online-game';
+export { SpectatorBoard } from './spectator-board';
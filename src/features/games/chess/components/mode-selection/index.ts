@@ -0,0 +1,2 @@
+export { ModeSelection } from './mode-selection';
+export type { default as ModeSelectionDefault } from './mode-selection';
@@ -0,0 +1 @@
+export { MoveList } from './move-list';
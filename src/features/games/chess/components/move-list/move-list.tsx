@@ -0,0 +1,84 @@
+'use client';
+
+import { useEffect, useRef } from 'react';
+import type { MoveRecord } from '../../types';
+import { cn } from '@/lib/utils/cn';
+
+interface MoveListProps {
+  history: MoveRecord[];
+  /** Move number of the first recorded move */
+  firstMoveNumber?: number;
+  /** Whether the first recorded move was black's */
+  startsWithBlack?: boolean;
+  className?: string;
+}
+
+interface MoveRow {
+  number: number;
+  white: string | null;
+  black: string | null;
+}
+
+function toRows(history: MoveRecord[], firstMoveNumber: number, startsWithBlack: boolean): MoveRow[] {
+  const sans: (string | null)[] = history.map((record) => record.san);
+  if (startsWithBlack) sans.unshift(null);
+
+  const rows: MoveRow[] = [];
+  for (let i = 0; i < sans.length; i += 2) {
+    rows.push({ number: firstMoveNumber + i / 2, white: sans[i], black: sans[i + 1] ?? null });
+  }
+  return rows;
+}
+
+export function MoveList({
+  history,
+  firstMoveNumber = 1,
+  startsWithBlack = false,
+  className = '',
+}: MoveListProps) {
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const rows = toRows(history, firstMoveNumber, startsWithBlack);
+  const lastPly = history.length - 1 + (startsWithBlack ? 1 : 0);
+
+  // Keep the latest move in view
+  useEffect(() => {
+    scrollRef.current?.scrollTo({ top: scrollRef.current.scrollHeight, behavior: 'smooth' });
+  }, [history.length]);
+
+  return (
+    <div
+      ref={scrollRef}
+      className={cn(
+        'overflow-y-auto rounded-lg bg-(--color-surface)/60 border border-(--color-border)',
+        'text-sm font-mono',
+        className
+      )}
+      aria-label="Lista de movimientos"
+    >
+      {rows.length === 0 ? (
+        <p className="p-3 text-center text-xs font-sans text-(--color-text-subtle)">Sin movimientos todavía</p>
+      ) : (
+        <ol className="divide-y divide-(--color-border)/40">
+          {rows.map((row, index) => (
+            <li key={row.number} className="grid grid-cols-[2.5rem_1fr_1fr] px-2 py-1">
+              <span className="text-(--color-text-subtle)">{row.number}.</span>
+              {[row.white, row.black].map((san, side) => (
+                <span
+                  key={side}
+                  className={cn(
+                    'px-1 rounded',
+                    index * 2 + side === lastPly ? 'bg-(--color-primary)/20 text-(--color-text) font-bold' : 'text-(--color-text-muted)'
+                  )}
+                >
+                  {san ?? (side === 0 ? '…' : '')}
+                </span>
+              ))}
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+}
+
+export default MoveList;
@@ -0,0 +1,2 @@
+export { OnlineGame } from './online-game';
+export type { default as OnlineGameDefault } from './online-game';
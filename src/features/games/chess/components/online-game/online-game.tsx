@@ -0,0 +1,574 @@
+'use client';
+
+import { useState, memo } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { RotateCcw, Globe, Loader2, LogOut, Check, X, Wifi, WifiOff, Coins, FileText } from 'lucide-react';
+import { ChessBoard } from '../chess-board';
+import { MoveList } from '../move-list';
+import { PgnDialog } from '../pgn-dialog';
+import { ChessClock } from '../chess-clock';
+import { BetNegotiationOverlay } from '../../../tic-tac-toe/components/bet-negotiation-overlay';
+import { TurnCountdown, RatingChangeLabel, RoomChat, RoomInvite } from '../../../common/components';
+import { Button } from '@/components/ui/button';
+import {
+  Modal,
+  ModalContent,
+  ModalHeader,
+  ModalBody,
+  ModalFooter,
+  ModalTitle,
+  ModalDescription,
+} from '@/components/ui/modal';
+import { formatBalance } from '@/features/wallet/store/wallet-store';
+import type { ChessMove, ChessState, Color, GameStatus } from '../../types';
+import { COLOR_NAMES, GAME_OVER_LABELS } from '../../types';
+import { getLastMove, getLegalMoves, getNextColor } from '../../engine/game-logic';
+import { findKing } from '../../engine/move-generation';
+import { exportPgn } from '../../engine/pgn';
+import type { OnlineGameStatus, RematchStatus } from '../../hooks/use-online-game';
+import type { ConnectionStatus } from '../../../common/services/game-room-service';
+import type { NegotiationInfo, FinishReason, RatingChange, RoomChatReturn } from '../../../common/hooks';
+import { FINISH_REASON_LABELS } from '../../../common/constants';
+
+interface OnlineGameProps {
+  status: OnlineGameStatus;
+  state: ChessState;
+  gameStatus: GameStatus;
+  myColor: Color | null;
+  isMyTurn: boolean;
+  didWin: boolean;
+  isDraw: boolean;
+  opponentName: string | null;
+  error: string | null;
+  showLeaveConfirm: boolean;
+  roomId: string | null;
+  // Private room invite (assigned by the server)
+  inviteCode?: string | null;
+  inviteExpiresAt?: string | null;
+  connectionStatus: ConnectionStatus;
+  onMove: (move: ChessMove) => Promise<boolean>;
+  onLeave: () => void;
+  onConfirmLeave: () => void;
+  onCancelLeave: () => void;
+  onPlayAgain: () => void;
+  onRetry: () => void;
+  onBack?: () => void;
+  // Rematch props
+  rematchStatus: RematchStatus;
+  onRequestRematch: () => void;
+  onAcceptRematch: () => void;
+  onDeclineRematch: () => void;
+  // Betting props (optional)
+  betAmount?: number | null;
+  potTotal?: number;
+  // Room type
+  isPrivateRoom?: boolean;
+  // Negotiation props
+  negotiation?: NegotiationInfo;
+  balance?: number;
+  onSubmitBetProposal?: (amount: number) => void;
+  onAcceptBetProposal?: () => void;
+  onSkipBetting?: () => void;
+  // Turn clock (clock = server-side time per color; replaces the turn countdown)
+  turnDeadline?: string | null;
+  clock?: Record<Color, number> | null;
+  finishReason?: FinishReason | null;
+  ratingChange?: RatingChange | null;
+  // Disconnect grace period
+  isOpponentOnline?: boolean;
+  opponentDisconnectDeadline?: string | null;
+  // Chat
+  chat?: RoomChatReturn;
+}
+
+export const OnlineGame = memo(function OnlineGame({
+  status,
+  state,
+  gameStatus,
+  myColor,
+  isMyTurn,
+  didWin,
+  isDraw,
+  opponentName,
+  error,
+  showLeaveConfirm,
+  roomId,
+  inviteCode = null,
+  inviteExpiresAt = null,
+  connectionStatus,
+  onMove,
+  onLeave,
+  onConfirmLeave,
+  onCancelLeave,
+  onPlayAgain,
+  onRetry,
+  onBack: _onBack, // Reserved for future back button implementation
+  rematchStatus,
+  onRequestRematch,
+  onAcceptRematch,
+  onDeclineRematch,
+  betAmount,
+  potTotal,
+  isPrivateRoom = false,
+  negotiation,
+  balance = 0,
+  onSubmitBetProposal,
+  onAcceptBetProposal,
+  onSkipBetting,
+  turnDeadline = null,
+  clock = null,
+  finishReason = null,
+  ratingChange = null,
+  isOpponentOnline = true,
+  opponentDisconnectDeadline = null,
+  chat,
+}: OnlineGameProps) {
+  void _onBack; // Reserved for future implementation
+
+  const [showPgn, setShowPgn] = useState(false);
+
+  const opponentLabel = opponentName || 'Oponente';
+  const orientation = myColor ?? 'w';
+
+  const renderClock = (color: Color) =>
+    clock && (
+      <ChessClock
+        color={color}
+        label={color === myColor ? 'Vos' : opponentLabel}
+        remainingMs={clock[color]}
+        isActive={status === 'playing' && !!turnDeadline && state.turn === color}
+      />
+    );
+  const pgn = showPgn
+    ? exportPgn(
+        state,
+        {
+          Event: 'Partida online',
+          White: myColor === 'b' ? opponentLabel : 'Vos',
+          Black: myColor === 'b' ? 'Vos' : opponentLabel,
+        },
+        gameStatus
+      )
+    : '';
+
+  // Connection status indicator config
+  const connectionIndicator = {
+    connected: { icon: Wifi, color: 'text-(--color-success)', label: 'Conectado' },
+    connecting: { icon: Wifi, color: 'text-(--color-warning) animate-pulse', label: 'Conectando...' },
+    reconnecting: { icon: Wifi, color: 'text-(--color-warning) animate-pulse', label: 'Reconectando...' },
+    disconnected: { icon: WifiOff, color: 'text-(--color-error)', label: 'Desconectado' },
+  }[connectionStatus];
+
+  // Only show connection indicator when actually connected or having issues
+  const showConnectionStatus = status === 'playing' && connectionStatus !== 'disconnected';
+
+  return (
+    <div className="relative flex flex-col items-center justify-center min-h-screen p-6">
+      {/* Connection status indicator - only during gameplay */}
+      {showConnectionStatus && (
+        <div
+          className={`absolute top-4 right-4 flex items-center gap-1.5 px-2 py-1 rounded-full bg-(--color-surface) border border-(--color-border) ${connectionIndicator.color}`}
+          title={connectionIndicator.label}
+        >
+          <connectionIndicator.icon size={14} />
+          <span className="text-xs hidden sm:inline">{connectionIndicator.label}</span>
+        </div>
+      )}
+
+      <motion.div
+        className="text-center"
+        initial={{ opacity: 0, y: -20 }}
+        animate={{ opacity: 1, y: 0 }}
+      >
+        <h1 className="text-3xl sm:text-4xl font-heading font-bold text-(--color-text) mb-2">
+          Ajedrez Online
+        </h1>
+
+        {/* Status */}
+        <AnimatePresence mode="wait">
+          {status === 'searching' && (
+            <motion.div
+              key="searching"
+              initial={{ opacity: 0 }}
+              animate={{ opacity: 1 }}
+              exit={{ opacity: 0 }}
+              className="flex flex-col items-center gap-4 mt-8"
+            >
+              <Loader2 className="animate-spin text-(--color-primary)" size={48} />
+              <p className="text-(--color-text-muted)">
+                {betAmount ? (
+                  <>Buscando partida con apuesta de {formatBalance(betAmount)}...</>
+                ) : (
+                  <>Buscando partida...</>
+                )}
+              </p>
+              <Button
+                onClick={onLeave}
+                variant="ghost"
+                className="mt-4 gap-2"
+              >
+                <X size={18} />
+                Cancelar
+              </Button>
+            </motion.div>
+          )}
+
+          {status === 'waiting' && (
+            <motion.div
+              key="waiting"
+              initial={{ opacity: 0 }}
+              animate={{ opacity: 1 }}
+              exit={{ opacity: 0 }}
+              className="flex flex-col items-center gap-4 mt-8"
+            >
+              {isPrivateRoom ? (
+                <>
+                  {/* Private room - show invite link */}
+                  <div className="relative">
+                    <Globe className="text-(--color-success)" size={48} />
+                    <span className="absolute -top-1 -right-1 w-3 h-3 bg-(--color-success) rounded-full animate-ping" />
+                  </div>
+                  <p className="text-(--color-text-muted)">Esperando oponente...</p>
+
+                  {/* Show bet amount while waiting */}
+                  {betAmount && (
+                    <div className="flex items-center gap-2 py-2 px-4 rounded-lg bg-(--color-warning)/10 border border-(--color-warning)/30">
+                      <Coins className="text-(--color-warning)" size={16} />
+                      <span className="text-(--color-warning) text-sm font-medium">
+                        Apuesta: {formatBalance(betAmount)}
+                      </span>
+                    </div>
+                  )}
+
+                  {/* Share section - only for private rooms */}
+                  <RoomInvite
+                    gameSlug="chess"
+                    roomId={roomId}
+                    inviteCode={inviteCode}
+                    inviteExpiresAt={inviteExpiresAt}
+                  />
+                </>
+              ) : (
+                <>
+                  {/* Public matchmaking - show searching animation */}
+                  <Loader2 className="animate-spin text-(--color-primary)" size={48} />
+                  <p className="text-(--color-text-muted)">
+                    {betAmount ? (
+                      <>Buscando partida con apuesta de {formatBalance(betAmount)}...</>
+                    ) : (
+                      <>Buscando partida...</>
+                    )}
+                  </p>
+                </>
+              )}
+
+              {/* Cancel button */}
+              <Button
+                onClick={onLeave}
+                variant="ghost"
+                className="mt-4 gap-2"
+              >
+                <X size={18} />
+                Cancelar
+              </Button>
+            </motion.div>
+          )}
+
+          {status === 'negotiating' && (
+            <motion.div
+              key="negotiating"
+              initial={{ opacity: 0 }}
+              animate={{ opacity: 1 }}
+              exit={{ opacity: 0 }}
+              className="flex flex-col items-center gap-4 mt-8"
+            >
+              <Coins className="text-(--color-warning)" size={48} />
+              <p className="text-(--color-text-muted)">
+                Negociando apuesta con <span className="text-(--color-accent) font-semibold">{opponentName || 'oponente'}</span>...
+              </p>
+              <p className="text-sm text-(--color-text-muted) text-center max-w-xs">
+                Ambos jugadores tienen propuestas de apuesta diferentes. Lleguen a un acuerdo o jueguen sin apostar.
+              </p>
+            </motion.div>
+          )}
+
+          {(status === 'playing' || status === 'finished') && (
+            <motion.div
+              key="playing"
+              initial={{ opacity: 0 }}
+              animate={{ opacity: 1 }}
+              exit={{ opacity: 0 }}
+              className="mt-4"
+            >
+              {/* Opponent info */}
+              <p className="text-sm text-(--color-text-muted) mb-2">
+                vs <span className="text-(--color-accent) font-semibold">{opponentName || 'Oponente'}</span>
+              </p>
+
+              {/* Pot indicator for betting games */}
+              {betAmount && potTotal && potTotal > 0 && (
+                <div className="flex items-center justify-center gap-2 mb-3 py-2 px-4 rounded-lg bg-(--color-warning)/10 border border-(--color-warning)/30">
+                  <Coins className="text-(--color-warning)" size={18} />
+                  <span className="text-(--color-warning) font-semibold">
+                    Pot: {formatBalance(potTotal)}
+                  </span>
+                </div>
+              )}
+
+              {/* Turn indicator */}
+              {status === 'playing' && (
+                <div className="flex flex-col items-center gap-2 mb-4">
+                  <p className="text-lg">
+                    {isMyTurn ? (
+                      <span className="text-(--color-success) font-semibold">Tu turno{myColor && ` (${COLOR_NAMES[myColor]})`}</span>
+                    ) : (
+                      <span className="text-(--color-text-muted)">Turno del oponente...</span>
+                    )}
+                    {gameStatus.isCheck && <span className="font-bold text-(--color-error)"> · Jaque</span>}
+                  </p>
+                  {!clock && <TurnCountdown deadline={turnDeadline} isMyTurn={isMyTurn} />}
+                  {(!isOpponentOnline || opponentDisconnectDeadline) && (
+                    <div className="flex items-center gap-2 text-sm text-(--color-warning)" role="status">
+                      <WifiOff size={14} />
+                      <span>
+                        {opponentDisconnectDeadline ? 'Tu oponente se desconectó, gana por abandono en' : 'Tu oponente perdió la conexión...'}
+                      </span>
+                      <TurnCountdown deadline={opponentDisconnectDeadline} isMyTurn={false} />
+                    </div>
+                  )}
+                </div>
+              )}
+
+              {/* Winner message */}
+              {status === 'finished' && (
+                <div className="mb-4">
+                  <p className="text-xl font-bold">
+                    {isDraw ? (
+                      <span className="text-(--color-accent)">¡Empate!</span>
+                    ) : didWin ? (
+                      <span className="text-(--color-success)">¡Ganaste!</span>
+                    ) : (
+                      <span className="text-(--color-error)">Perdiste</span>
+                    )}
+                  </p>
+                  {finishReason && (
+                    <p className="text-sm text-(--color-text-muted) mt-1">
+                      {didWin ? FINISH_REASON_LABELS[finishReason].win : FINISH_REASON_LABELS[finishReason].loss}
+                    </p>
+                  )}
+                  <RatingChangeLabel change={ratingChange} />
+                  {gameStatus.reason && (
+                    <p className="text-sm text-(--color-text-muted) mt-1">{GAME_OVER_LABELS[gameStatus.reason]}</p>
+                  )}
+                  {/* Betting result message */}
+                  {betAmount && potTotal && potTotal > 0 && (
+                    <p className="text-sm mt-1">
+                      {isDraw ? (
+                        <span className="text-(--color-accent)">
+                          Apuesta reembolsada: {formatBalance(betAmount)}
+                        </span>
+                      ) : didWin ? (
+                        <span className="text-(--color-success)">
+                          +{formatBalance(potTotal)}
+                        </span>
+                      ) : (
+                        <span className="text-(--color-error)">
+                          -{formatBalance(betAmount)}
+                        </span>
+                      )}
+                    </p>
+                  )}
+                </div>
+              )}
+            </motion.div>
+          )}
+        </AnimatePresence>
+      </motion.div>
+
+      {/* Board for playing/finished states */}
+      {(status === 'playing' || status === 'finished') && (
+        <motion.div
+          initial={{ opacity: 0, scale: 0.9 }}
+          animate={{ opacity: 1, scale: 1 }}
+          className="mt-6 flex flex-col gap-2"
+        >
+          {renderClock(getNextColor(orientation))}
+          <ChessBoard
+            board={state.board}
+            turn={state.turn}
+            legalMoves={isMyTurn && status === 'playing' ? getLegalMoves(state) : []}
+            onMove={(move) => onMove(move)}
+            orientation={orientation}
+            lastMove={getLastMove(state)}
+            checkSquare={gameStatus.isCheck ? findKing(state.board, state.turn) : null}
+            disabled={!isMyTurn || status === 'finished'}
+          />
+          {renderClock(orientation)}
+          <div className="mt-3 flex items-stretch gap-2">
+            <MoveList history={state.history} className="flex-1 h-24" />
+            <Button
+              onClick={() => setShowPgn(true)}
+              variant="outline"
+              size="sm"
+              className="h-auto gap-2"
+              aria-label="Exportar PGN"
+            >
+              <FileText size={16} />
+              PGN
+            </Button>
+          </div>
+        </motion.div>
+      )}
+
+      {/* Action buttons - only show for playing/finished states */}
+      {(status === 'playing' || status === 'finished') && (
+        <div className="mt-8 flex flex-col items-center gap-4">
+          {status === 'finished' && (
+            <>
+              {/* Rematch UI */}
+              {rematchStatus === 'none' && (
+                <div className="flex gap-4">
+                  <Button
+                    onClick={onRequestRematch}
+                    variant="primary"
+                    className="gap-2"
+                  >
+                    <RotateCcw size={18} />
+                    Revancha
+                  </Button>
+                  <Button
+                    onClick={onPlayAgain}
+                    variant="outline"
+                    className="gap-2"
+                  >
+                    Nueva partida
+                  </Button>
+                </div>
+              )}
+
+              {rematchStatus === 'requested' && (
+                <div className="flex flex-col items-center gap-3">
+                  <div className="flex items-center gap-2 text-(--color-text-muted)">
+                    <Loader2 className="animate-spin" size={18} />
+                    <span>Esperando respuesta de {opponentName || 'oponente'}...</span>
+                  </div>
+                  <Button
+                    onClick={onDeclineRematch}
+                    variant="ghost"
+                    size="sm"
+                  >
+                    Cancelar
+                  </Button>
+                </div>
+              )}
+
+              {rematchStatus === 'received' && (
+                <div className="flex flex-col items-center gap-3">
+                  <p className="text-(--color-accent) font-semibold">
+                    ¡{opponentName || 'Tu oponente'} quiere la revancha!
+                  </p>
+                  <div className="flex gap-3">
+                    <Button
+                      onClick={onAcceptRematch}
+                      variant="primary"
+                      className="gap-2"
+                    >
+                      <Check size={18} />
+                      Aceptar
+                    </Button>
+                    <Button
+                      onClick={onDeclineRematch}
+                      variant="ghost"
+                    >
+                      Rechazar
+                    </Button>
+                  </div>
+                </div>
+              )}
+            </>
+          )}
+
+          <Button
+            onClick={onLeave}
+            variant="destructive"
+            className="gap-2"
+          >
+            <LogOut size={18} />
+            {status === 'finished' ? 'Menú' : 'Abandonar'}
+          </Button>
+        </div>
+      )}
+
+      {/* Error with retry option */}
+      {error && (
+        <div className="mt-4 flex flex-col items-center gap-3">
+          <p className="text-(--color-error) text-sm">{error}</p>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={onRetry}
+          >
+            Reintentar
+          </Button>
+        </div>
+      )}
+
+      <PgnDialog
+        open={showPgn}
+        onOpenChange={setShowPgn}
+        pgn={pgn}
+      />
+
+      {/* Leave Game Confirmation Modal */}
+      <Modal open={showLeaveConfirm} onClose={onCancelLeave}>
+        <ModalContent size="sm">
+          <ModalHeader showClose={false}>
+            <ModalTitle>¿Abandonar partida?</ModalTitle>
+          </ModalHeader>
+          <ModalBody>
+            <ModalDescription>
+              Si abandonas ahora, perderás la partida y se contará como derrota.
+            </ModalDescription>
+          </ModalBody>
+          <ModalFooter className="justify-end">
+            <Button
+              variant="ghost"
+              onClick={onCancelLeave}
+            >
+              Cancelar
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={onConfirmLeave}
+            >
+              Abandonar
+            </Button>
+          </ModalFooter>
+        </ModalContent>
+      </Modal>
+
+      {/* Room chat (above the negotiation overlay) */}
+      {chat && (status === 'negotiating' || status === 'playing' || status === 'finished') && (
+        <RoomChat chat={chat} opponentName={opponentName || 'Oponente'} />
+      )}
+
+      {/* Bet Negotiation Overlay */}
+      {negotiation && onSubmitBetProposal && onAcceptBetProposal && onSkipBetting && (
+        <BetNegotiationOverlay
+          isOpen={status === 'negotiating' && negotiation.state === 'pending'}
+          myProposal={negotiation.myProposal}
+          opponentProposal={negotiation.opponentProposal}
+          opponentName={opponentName || 'Oponente'}
+          deadline={negotiation.deadline}
+          balance={balance}
+          negotiationState={negotiation.state}
+          onAccept={onAcceptBetProposal}
+          onCounterPropose={onSubmitBetProposal}
+          onSkip={onSkipBetting}
+        />
+      )}
+    </div>
+  );
+})
+
+export default OnlineGame;
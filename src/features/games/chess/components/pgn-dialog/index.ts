@@ -0,0 +1 @@
+export { PgnDialog } from './pgn-dialog';
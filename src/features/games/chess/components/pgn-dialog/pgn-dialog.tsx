@@ -0,0 +1,168 @@
+'use client';
+
+import { useState, useCallback } from 'react';
+import { FileText, Copy, Check, Download, Upload } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogBody,
+  DialogTitle,
+  DialogDescription,
+} from '@/components/ui/dialog';
+import { cn } from '@/lib/utils/cn';
+import type { ChessState } from '../../types';
+import { importPgn } from '../../engine/pgn';
+
+type PgnTab = 'export' | 'import';
+
+interface PgnDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** PGN of the current game */
+  pgn: string;
+  /** Omit to hide the import tab (e.g. online games) */
+  onImport?: (state: ChessState) => void;
+}
+
+const textareaClassName = cn(
+  'w-full h-56 px-3 py-2 rounded-lg text-xs font-mono resize-none',
+  'bg-(--color-background) border border-(--color-border)',
+  'focus-visible:outline-none focus-visible:border-(--color-primary) focus-visible:ring-2 focus-visible:ring-(--color-primary)/30'
+);
+
+export function PgnDialog({ open, onOpenChange, pgn, onImport }: PgnDialogProps) {
+  const [tab, setTab] = useState<PgnTab>('export');
+  const [copied, setCopied] = useState(false);
+  const [importText, setImportText] = useState('');
+  const [importError, setImportError] = useState<string | null>(null);
+
+  const handleCopy = useCallback(async () => {
+    try {
+      await navigator.clipboard.writeText(pgn);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch {
+      // Clipboard not available (insecure context); the text stays selectable
+    }
+  }, [pgn]);
+
+  const handleDownload = useCallback(() => {
+    const url = URL.createObjectURL(new Blob([pgn], { type: 'application/x-chess-pgn' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `partida-${new Date().toISOString().slice(0, 10)}.pgn`;
+    link.click();
+    URL.revokeObjectURL(url);
+  }, [pgn]);
+
+  const handleImport = useCallback(() => {
+    if (!onImport) return;
+    try {
+      const { state } = importPgn(importText);
+      onImport(state);
+      setImportText('');
+      setImportError(null);
+      onOpenChange(false);
+    } catch (err) {
+      setImportError(err instanceof Error ? err.message : 'PGN inválido');
+    }
+  }, [importText, onImport, onOpenChange]);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent size="lg">
+        <DialogHeader>
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 rounded-lg bg-(--color-primary)/10 border border-(--color-primary)/30 flex items-center justify-center">
+              <FileText className="text-(--color-primary)" size={20} />
+            </div>
+            <div>
+              <DialogTitle className="font-heading font-bold text-lg text-(--color-text)">
+                PGN
+              </DialogTitle>
+              <DialogDescription>
+                Guardá la partida o cargá una para seguir jugando
+              </DialogDescription>
+            </div>
+          </div>
+        </DialogHeader>
+
+        <DialogBody className="space-y-4">
+          {onImport && (
+            <div className="flex gap-2" role="tablist">
+              {(['export', 'import'] as const).map((value) => (
+                <Button
+                  key={value}
+                  onClick={() => setTab(value)}
+                  variant={tab === value ? 'primary' : 'ghost'}
+                  size="sm"
+                  scale="none"
+                  role="tab"
+                  aria-selected={tab === value}
+                >
+                  {value === 'export' ? 'Exportar' : 'Importar'}
+                </Button>
+              ))}
+            </div>
+          )}
+
+          {tab === 'export' || !onImport ? (
+            <>
+              <textarea
+                readOnly
+                value={pgn}
+                className={textareaClassName}
+                aria-label="PGN de la partida"
+                onFocus={(e) => e.target.select()}
+              />
+              <div className="flex gap-2 justify-end">
+                <Button onClick={handleCopy} variant="outline" size="sm" className="gap-2">
+                  {copied ? <Check size={16} /> : <Copy size={16} />}
+                  {copied ? 'Copiado' : 'Copiar'}
+                </Button>
+                <Button onClick={handleDownload} variant="primary" size="sm" className="gap-2">
+                  <Download size={16} />
+                  Descargar .pgn
+                </Button>
+              </div>
+            </>
+          ) : (
+            <>
+              <textarea
+                value={importText}
+                onChange={(e) => {
+                  setImportText(e.target.value);
+                  setImportError(null);
+                }}
+                placeholder={'[Event "..."]\n\n1. e4 e5 2. Nf3 ...'}
+                className={textareaClassName}
+                aria-label="PGN a importar"
+              />
+              {importError && (
+                <p className="text-xs text-(--color-error)" role="alert">
+                  {importError}
+                </p>
+              )}
+              <div className="flex justify-end">
+                <Button
+                  onClick={handleImport}
+                  disabled={!importText.trim()}
+                  variant="primary"
+                  size="sm"
+                  className="gap-2"
+                >
+                  <Upload size={16} />
+                  Cargar partida
+                </Button>
+              </div>
+            </>
+          )}
+        </DialogBody>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export default PgnDialog;
@@ -0,0 +1,32 @@
+'use client';
+
+import { useMemo } from 'react';
+import type { SpectatorBoardProps } from '../../../registry/types';
+import { chessSerializer } from '../../serializer';
+import { getGameStatus, getLastMove } from '../../engine/game-logic';
+import { findKing } from '../../engine/move-generation';
+import { ChessBoard } from '../chess-board';
+import { MoveList } from '../move-list';
+
+const noop = () => {};
+
+// Read-only board for spectators (white at the bottom, with the move list)
+export function SpectatorBoard({ state, className }: SpectatorBoardProps) {
+  const chessState = useMemo(() => chessSerializer.deserialize(state), [state]);
+  const gameStatus = getGameStatus(chessState);
+
+  return (
+    <div className={className}>
+      <ChessBoard
+        board={chessState.board}
+        turn={chessState.turn}
+        legalMoves={[]}
+        onMove={noop}
+        lastMove={getLastMove(chessState)}
+        checkSquare={gameStatus.isCheck ? findKing(chessState.board, chessState.turn) : null}
+        disabled
+      />
+      <MoveList history={chessState.history} className="mt-3 h-24" />
+    </div>
+  );
+}
@@ -0,0 +1,17 @@
+import type { GameConfig } from '../registry/types';
+
+export const chessConfig: GameConfig = {
+  slug: 'chess',
+  name: 'Ajedrez',
+  description: 'El clásico juego de estrategia, con reloj y notación PGN',
+  icon: 'Crown',
+  category: 'board',
+  minPlayers: 2,
+  maxPlayers: 2,
+  supportsAI: true,
+  aiDifficulties: ['easy', 'medium', 'hard', 'impossible'],
+  supportsOnline: true,
+  supportsBetting: true,
+  enabled: true,
+  music: ['board-focus', 'midnight-tide'],
+};
@@ -0,0 +1,57 @@
+import type { AIDifficulty, GameEngine } from '../../registry/types';
+import type { ChessMove, ChessState } from '../types';
+import {
+  createInitialState,
+  findMove,
+  applyMove,
+  getGameStatus,
+  getLegalMoves,
+  toChessMove,
+} from './game-logic';
+import { getAIMove } from './search';
+
+/**
+ * Chess engine for the registry contract
+ * Players are identified by their color ('w' | 'b'); callers map
+ * room player IDs to colors (player1 = 'w', player2 = 'b').
+ */
+export class ChessEngine implements GameEngine<ChessState, ChessMove> {
+  getInitialState(): ChessState {
+    return createInitialState();
+  }
+
+  isValidMove(state: ChessState, move: ChessMove, playerId: string): boolean {
+    if (playerId !== state.turn) return false;
+    if (getGameStatus(state).isOver) return false;
+    return findMove(state, move) !== null;
+  }
+
+  applyMove(state: ChessState, move: ChessMove, playerId: string): ChessState {
+    const detailed = this.isValidMove(state, move, playerId) ? findMove(state, move) : null;
+    if (!detailed) {
+      throw new Error(`Invalid move: ${move?.from}-${move?.to} for ${playerId}`);
+    }
+
+    return applyMove(state, detailed);
+  }
+
+  getWinner(state: ChessState): string | null {
+    return getGameStatus(state).winner;
+  }
+
+  isDraw(state: ChessState): boolean {
+    const status = getGameStatus(state);
+    return status.isOver && status.winner === null;
+  }
+
+  getAIMove(state: ChessState, difficulty: AIDifficulty): ChessMove {
+    return toChessMove(getAIMove(state, difficulty));
+  }
+
+  getValidMoves(state: ChessState, playerId: string): ChessMove[] {
+    if (playerId !== state.turn || getGameStatus(state).isOver) return [];
+    return getLegalMoves(state).map(toChessMove);
+  }
+}
+
+export default ChessEngine;
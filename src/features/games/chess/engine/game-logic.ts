@@ -0,0 +1,127 @@
+import type { ChessMove, ChessState, Color, DetailedMove, GameStatus } from '../types';
+import { INITIAL_FEN } from '../types';
+import { parseFen, parseSquare, positionKey, squareName } from './position';
+import { generateLegalMoves, hasInsufficientMaterial, isInCheck, playMove } from './move-generation';
+import { fromUci, toSan, toUci } from './notation';
+
+/**
+ * Creates the initial game state (standard start unless a FEN is given)
+ */
+export function createInitialState(startFen: string = INITIAL_FEN): ChessState {
+  const position = parseFen(startFen);
+  return {
+    ...position,
+    startFen,
+    history: [],
+    positions: [positionKey(position)],
+  };
+}
+
+/**
+ * Gets all legal moves in the current position
+ */
+export function getLegalMoves(state: ChessState): DetailedMove[] {
+  return generateLegalMoves(state);
+}
+
+/**
+ * Finds the legal move matching a wire move; null if illegal
+ * A missing promotion piece defaults to a queen
+ */
+export function findMove(state: ChessState, move: ChessMove): DetailedMove | null {
+  const from = parseSquare(move?.from);
+  const to = parseSquare(move?.to);
+  if (from === -1 || to === -1) return null;
+
+  const candidates = generateLegalMoves(state).filter((m) => m.from === from && m.to === to);
+  if (candidates.length <= 1) return candidates[0] ?? null;
+  return candidates.find((m) => m.promotion === (move.promotion ?? 'q')) ?? null;
+}
+
+/**
+ * Wire form of a generated move
+ */
+export function toChessMove(move: DetailedMove): ChessMove {
+  return {
+    from: squareName(move.from),
+    to: squareName(move.to),
+    ...(move.promotion && { promotion: move.promotion }),
+  };
+}
+
+/**
+ * Plays a legal move and records it in the history
+ * Returns a new state (immutable)
+ */
+export function applyMove(state: ChessState, move: DetailedMove): ChessState {
+  const position = playMove(state, move);
+  return {
+    ...position,
+    startFen: state.startFen,
+    history: [...state.history, { uci: toUci(move), san: toSan(state, move) }],
+    positions: [...state.positions, positionKey(position)],
+  };
+}
+
+/**
+ * Rebuilds a game from its start position and UCI moves
+ * Throws if a move is illegal
+ */
+export function replayMoves(startFen: string, moves: string[]): ChessState {
+  return moves.reduce((state, uci) => {
+    const move = fromUci(state, uci);
+    if (!move) {
+      throw new Error(`Illegal move in history: ${uci}`);
+    }
+    return applyMove(state, move);
+  }, createInitialState(startFen));
+}
+
+/**
+ * Checks if the current position has occurred three times
+ */
+export function isThreefoldRepetition(state: ChessState): boolean {
+  const current = state.positions[state.positions.length - 1];
+  return state.positions.filter((key) => key === current).length >= 3;
+}
+
+/**
+ * Works out whether the game is over and why
+ */
+export function getGameStatus(state: ChessState): GameStatus {
+  const isCheck = isInCheck(state);
+  const hasMoves = generateLegalMoves(state).length > 0;
+
+  if (!hasMoves) {
+    return isCheck
+      ? { isOver: true, winner: state.turn === 'w' ? 'b' : 'w', reason: 'checkmate', isCheck }
+      : { isOver: true, winner: null, reason: 'stalemate', isCheck };
+  }
+  if (hasInsufficientMaterial(state.board)) {
+    return { isOver: true, winner: null, reason: 'insufficient-material', isCheck };
+  }
+  if (state.halfmoveClock >= 100) {
+    return { isOver: true, winner: null, reason: 'fifty-move-rule', isCheck };
+  }
+  if (isThreefoldRepetition(state)) {
+    return { isOver: true, winner: null, reason: 'threefold-repetition', isCheck };
+  }
+
+  return { isOver: false, winner: null, reason: null, isCheck };
+}
+
+/**
+ * Square of the last move (for highlighting)
+ */
+export function getLastMove(state: ChessState): { from: number; to: number } | null {
+  const last = state.history[state.history.length - 1];
+  if (!last) return null;
+  return { from: parseSquare(last.uci.slice(0, 2)), to: parseSquare(last.uci.slice(2, 4)) };
+}
+
+/**
+ * Switches to the other color
+ */
+export function getNextColor(color: Color): Color {
+  return color === 'w' ? 'b' : 'w';
+}
@@ -0,0 +1,319 @@
+import type { BoardState, Color, DetailedMove, Piece, Position, PromotionPiece } from '../types';
+import { colorOf, opponent, pieceFor, toSquare } from './position';
+
+const KNIGHT_STEPS: readonly [number, number][] = [
+  [-2, -1], [-2, 1], [-1, -2], [-1, 2], [1, -2], [1, 2], [2, -1], [2, 1],
+];
+const KING_STEPS: readonly [number, number][] = [
+  [-1, -1], [-1, 0], [-1, 1], [0, -1], [0, 1], [1, -1], [1, 0], [1, 1],
+];
+const BISHOP_DIRECTIONS: readonly [number, number][] = [[-1, -1], [-1, 1], [1, -1], [1, 1]];
+const ROOK_DIRECTIONS: readonly [number, number][] = [[-1, 0], [1, 0], [0, -1], [0, 1]];
+const PROMOTIONS: readonly PromotionPiece[] = ['q', 'r', 'b', 'n'];
+
+// Corner squares: a rook moving from or captured on them loses castling rights
+const A8 = 0;
+const H8 = 7;
+const E8 = 4;
+const A1 = 56;
+const H1 = 63;
+const E1 = 60;
+
+function onBoard(row: number, col: number): boolean {
+  return row >= 0 && row < 8 && col >= 0 && col < 8;
+}
+
+function typeOf(piece: Piece): string {
+  return piece.toLowerCase();
+}
+
+/**
+ * Checks if a square is attacked by any piece of a color
+ */
+export function isSquareAttacked(board: BoardState, square: number, by: Color): boolean {
+  const row = Math.floor(square / 8);
+  const col = square % 8;
+
+  // Pawns attack diagonally forward, so look one row "behind" the square
+  const pawnRow = by === 'w' ? row + 1 : row - 1;
+  const pawn = pieceFor('p', by);
+  for (const dc of [-1, 1]) {
+    if (onBoard(pawnRow, col + dc) && board[toSquare(pawnRow, col + dc)] === pawn) return true;
+  }
+
+  const knight = pieceFor('n', by);
+  for (const [dr, dc] of KNIGHT_STEPS) {
+    if (onBoard(row + dr, col + dc) && board[toSquare(row + dr, col + dc)] === knight) return true;
+  }
+
+  const king = pieceFor('k', by);
+  for (const [dr, dc] of KING_STEPS) {
+    if (onBoard(row + dr, col + dc) && board[toSquare(row + dr, col + dc)] === king) return true;
+  }
+
+  const queen = pieceFor('q', by);
+  const slidingAttackers: [readonly [number, number][], Piece][] = [
+    [BISHOP_DIRECTIONS, pieceFor('b', by)],
+    [ROOK_DIRECTIONS, pieceFor('r', by)],
+  ];
+  for (const [directions, slider] of slidingAttackers) {
+    for (const [dr, dc] of directions) {
+      let r = row + dr;
+      let c = col + dc;
+      while (onBoard(r, c)) {
+        const piece = board[toSquare(r, c)];
+        if (piece) {
+          if (piece === slider || piece === queen) return true;
+          break;
+        }
+        r += dr;
+        c += dc;
+      }
+    }
+  }
+
+  return false;
+}
+
+/**
+ * Square of a color's king (-1 if missing, e.g. in a hand-made FEN)
+ */
+export function findKing(board: BoardState, color: Color): number {
+  return board.indexOf(pieceFor('k', color));
+}
+
+/**
+ * Checks if a color's king is in check
+ */
+export function isInCheck(position: Position, color: Color = position.turn): boolean {
+  const king = findKing(position.board, color);
+  return king !== -1 && isSquareAttacked(position.board, king, opponent(color));
+}
+
+function addPawnMove(moves: DetailedMove[], move: DetailedMove, promotionRow: number) {
+  if (Math.floor(move.to / 8) === promotionRow) {
+    for (const promotion of PROMOTIONS) {
+      moves.push({ ...move, promotion });
+    }
+  } else {
+    moves.push(move);
+  }
+}
+
+/**
+ * Generates all moves for the side to move, ignoring whether they leave the king in check
+ */
+export function generatePseudoMoves(position: Position): DetailedMove[] {
+  const { board, turn, castling, enPassant } = position;
+  const moves: DetailedMove[] = [];
+  const enemy = opponent(turn);
+
+  for (let from = 0; from < 64; from++) {
+    const piece = board[from];
+    if (!piece || colorOf(piece) !== turn) continue;
+
+    const row = Math.floor(from / 8);
+    const col = from % 8;
+    const type = typeOf(piece);
+
+    if (type === 'p') {
+      const dir = turn === 'w' ? -1 : 1;
+      const startRow = turn === 'w' ? 6 : 1;
+      const promotionRow = turn === 'w' ? 0 : 7;
+      const oneStep = toSquare(row + dir, col);
+
+      if (onBoard(row + dir, col) && !board[oneStep]) {
+        addPawnMove(moves, { from, to: oneStep, piece, captured: null }, promotionRow);
+        const twoStep = toSquare(row + dir * 2, col);
+        if (row === startRow && !board[twoStep]) {
+          moves.push({ from, to: twoStep, piece, captured: null, flag: 'double-push' });
+        }
+      }
+
+      for (const dc of [-1, 1]) {
+        if (!onBoard(row + dir, col + dc)) continue;
+        const to = toSquare(row + dir, col + dc);
+        const target = board[to];
+        if (target && colorOf(target) === enemy) {
+          addPawnMove(moves, { from, to, piece, captured: target }, promotionRow);
+        } else if (to === enPassant) {
+          moves.push({ from, to, piece, captured: pieceFor('p', enemy), flag: 'en-passant' });
+        }
+      }
+      continue;
+    }
+
+    if (type === 'n' || type === 'k') {
+      for (const [dr, dc] of type === 'n' ? KNIGHT_STEPS : KING_STEPS) {
+        if (!onBoard(row + dr, col + dc)) continue;
+        const to = toSquare(row + dr, col + dc);
+        const target = board[to];
+        if (!target || colorOf(target) === enemy) {
+          moves.push({ from, to, piece, captured: target });
+        }
+      }
+      continue;
+    }
+
+    const directions = type === 'b'
+      ? BISHOP_DIRECTIONS
+      : type === 'r'
+        ? ROOK_DIRECTIONS
+        : [...BISHOP_DIRECTIONS, ...ROOK_DIRECTIONS];
+
+    for (const [dr, dc] of directions) {
+      let r = row + dr;
+      let c = col + dc;
+      while (onBoard(r, c)) {
+        const to = toSquare(r, c);
+        const target = board[to];
+        if (target) {
+          if (colorOf(target) === enemy) moves.push({ from, to, piece, captured: target });
+          break;
+        }
+        moves.push({ from, to, piece, captured: null });
+        r += dr;
+        c += dc;
+      }
+    }
+  }
+
+  // Castling: rights kept, squares between empty, king not in or passing through check
+  const kingFrom = turn === 'w' ? E1 : E8;
+  const king = pieceFor('k', turn);
+  if (board[kingFrom] === king && !isSquareAttacked(board, kingFrom, enemy)) {
+    const kingside = turn === 'w' ? castling.whiteKingside : castling.blackKingside;
+    const queenside = turn === 'w' ? castling.whiteQueenside : castling.blackQueenside;
+    const rook = pieceFor('r', turn);
+
+    if (
+      kingside &&
+      board[kingFrom + 3] === rook &&
+      !board[kingFrom + 1] && !board[kingFrom + 2] &&
+      !isSquareAttacked(board, kingFrom + 1, enemy) &&
+      !isSquareAttacked(board, kingFrom + 2, enemy)
+    ) {
+      moves.push({ from: kingFrom, to: kingFrom + 2, piece: king, captured: null, flag: 'castle-kingside' });
+    }
+
+    if (
+      queenside &&
+      board[kingFrom - 4] === rook &&
+      !board[kingFrom - 1] && !board[kingFrom - 2] && !board[kingFrom - 3] &&
+      !isSquareAttacked(board, kingFrom - 1, enemy) &&
+      !isSquareAttacked(board, kingFrom - 2, enemy)
+    ) {
+      moves.push({ from: kingFrom, to: kingFrom - 2, piece: king, captured: null, flag: 'castle-queenside' });
+    }
+  }
+
+  return moves;
+}
+
+/**
+ * Moves the pieces of a move on a board copy (no clocks or rights)
+ */
+function movePieces(board: BoardState, move: DetailedMove): BoardState {
+  const next = [...board];
+  next[move.from] = null;
+  next[move.to] = move.promotion ? pieceFor(move.promotion, colorOf(move.piece)) : move.piece;
+
+  if (move.flag === 'en-passant') {
+    // The captured pawn sits beside the mover, on the row it started from
+    next[toSquare(Math.floor(move.from / 8), move.to % 8)] = null;
+  } else if (move.flag === 'castle-kingside') {
+    next[move.from + 1] = next[move.from + 3];
+    next[move.from + 3] = null;
+  } else if (move.flag === 'castle-queenside') {
+    next[move.from - 1] = next[move.from - 4];
+    next[move.from - 4] = null;
+  }
+
+  return next;
+}
+
+/**
+ * Generates all legal moves for the side to move
+ */
+export function generateLegalMoves(position: Position): DetailedMove[] {
+  const enemy = opponent(position.turn);
+  return generatePseudoMoves(position).filter((move) => {
+    const board = movePieces(position.board, move);
+    const king = move.piece === pieceFor('k', position.turn) ? move.to : findKing(board, position.turn);
+    return king === -1 || !isSquareAttacked(board, king, enemy);
+  });
+}
+
+/**
+ * Plays a move and returns the resulting position (immutable)
+ * The move must come from generateLegalMoves
+ */
+export function playMove(position: Position, move: DetailedMove): Position {
+  const castling = { ...position.castling };
+
+  if (move.piece === 'K') {
+    castling.whiteKingside = false;
+    castling.whiteQueenside = false;
+  } else if (move.piece === 'k') {
+    castling.blackKingside = false;
+    castling.blackQueenside = false;
+  }
+  for (const square of [move.from, move.to]) {
+    if (square === H1) castling.whiteKingside = false;
+    if (square === A1) castling.whiteQueenside = false;
+    if (square === H8) castling.blackKingside = false;
+    if (square === A8) castling.blackQueenside = false;
+  }
+
+  const isPawnMove = typeOf(move.piece) === 'p';
+
+  return {
+    board: movePieces(position.board, move),
+    turn: opponent(position.turn),
+    castling,
+    enPassant: move.flag === 'double-push' ? (move.from + move.to) / 2 : null,
+    halfmoveClock: isPawnMove || move.captured ? 0 : position.halfmoveClock + 1,
+    fullmoveNumber: position.turn === 'b' ? position.fullmoveNumber + 1 : position.fullmoveNumber,
+  };
+}
+
+/**
+ * Checks if a color still has enough material to checkmate
+ * (used when the other side runs out of time)
+ */
+export function hasMatingMaterial(board: BoardState, color: Color): boolean {
+  let minors = 0;
+  for (const piece of board) {
+    if (!piece || colorOf(piece) !== color) continue;
+    const type = typeOf(piece);
+    if (type === 'p' || type === 'r' || type === 'q') return true;
+    if (type === 'b' || type === 'n') minors++;
+  }
+  return minors >= 2;
+}
+
+/**
+ * Checks if neither side can possibly checkmate
+ * K vs K, K+minor vs K, and K+B vs K+B with bishops on the same color
+ */
+export function hasInsufficientMaterial(board: BoardState): boolean {
+  const minors: { type: string; square: number }[] = [];
+
+  for (let square = 0; square < 64; square++) {
+    const piece = board[square];
+    if (!piece) continue;
+    const type = typeOf(piece);
+    if (type === 'k') continue;
+    if (type === 'p' || type === 'r' || type === 'q') return false;
+    minors.push({ type, square });
+  }
+
+  if (minors.length <= 1) return true;
+
+  // Only bishops, all on squares of the same color
+  const squareColor = (square: number) => (Math.floor(square / 8) + (square % 8)) % 2;
+  return (
+    minors.every((minor) => minor.type === 'b') &&
+    minors.every((minor) => squareColor(minor.square) === squareColor(minors[0].square))
+  );
+}
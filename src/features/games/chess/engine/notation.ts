@@ -0,0 +1,77 @@
+import type { DetailedMove, Position } from '../types';
+import { squareName } from './position';
+import { generateLegalMoves, isInCheck, playMove } from './move-generation';
+
+/**
+ * Long algebraic form of a move (e.g. 'e2e4', 'e7e8q')
+ */
+export function toUci(move: DetailedMove): string {
+  return squareName(move.from) + squareName(move.to) + (move.promotion ?? '');
+}
+
+/**
+ * SAN without the check/mate suffix
+ */
+function sanBody(move: DetailedMove, legalMoves: DetailedMove[]): string {
+  if (move.flag === 'castle-kingside') return 'O-O';
+  if (move.flag === 'castle-queenside') return 'O-O-O';
+
+  const type = move.piece.toUpperCase();
+  const target = squareName(move.to);
+  const capture = move.captured ? 'x' : '';
+
+  if (type === 'P') {
+    const file = capture ? squareName(move.from)[0] : '';
+    const promotion = move.promotion ? `=${move.promotion.toUpperCase()}` : '';
+    return `${file}${capture}${target}${promotion}`;
+  }
+
+  // Disambiguate when another piece of the same type can reach the same square
+  const rivals = legalMoves.filter(
+    (other) => other.piece === move.piece && other.to === move.to && other.from !== move.from
+  );
+  let disambiguation = '';
+  if (rivals.length > 0) {
+    const from = squareName(move.from);
+    const sameFile = rivals.some((other) => squareName(other.from)[0] === from[0]);
+    const sameRank = rivals.some((other) => squareName(other.from)[1] === from[1]);
+    if (!sameFile) disambiguation = from[0];
+    else if (!sameRank) disambiguation = from[1];
+    else disambiguation = from;
+  }
+
+  return `${type}${disambiguation}${capture}${target}`;
+}
+
+/**
+ * Standard algebraic notation of a legal move (e.g. 'Nbd7', 'exd6', 'e8=Q+', 'Qh7#')
+ */
+export function toSan(position: Position, move: DetailedMove, legalMoves = generateLegalMoves(position)): string {
+  const next = playMove(position, move);
+  let suffix = '';
+  if (isInCheck(next)) {
+    suffix = generateLegalMoves(next).length === 0 ? '#' : '+';
+  }
+  return sanBody(move, legalMoves) + suffix;
+}
+
+/**
+ * Finds the legal move matching a SAN string
+ * Accepts check/annotation suffixes and '0-0' style castling; null if illegal
+ */
+export function fromSan(position: Position, san: string): DetailedMove | null {
+  const normalized = san
+    .trim()
+    .replace(/[+#?!]+$/, '')
+    .replace(/0/g, 'O');
+
+  const legalMoves = generateLegalMoves(position);
+  return legalMoves.find((move) => sanBody(move, legalMoves) === normalized) ?? null;
+}
+
+/**
+ * Finds the legal move matching a UCI string; null if illegal
+ */
+export function fromUci(position: Position, uci: string): DetailedMove | null {
+  return generateLegalMoves(position).find((move) => toUci(move) === uci) ?? null;
+}
@@ -0,0 +1,116 @@
+import type { ChessState, Color, GameOverReason } from '../types';
+import { INITIAL_FEN } from '../types';
+import { applyMove, createInitialState } from './game-logic';
+import { fromSan } from './notation';
+
+export type PgnHeaders = Record<string, string>;
+
+export interface PgnResultInfo {
+  winner: Color | null;
+  reason: GameOverReason | null;
+}
+
+// Seven Tag Roster, in the order PGN requires
+const REQUIRED_TAGS = ['Event', 'Site', 'Date', 'Round', 'White', 'Black', 'Result'] as const;
+
+/**
+ * PGN result token ('1-0', '0-1', '1/2-1/2' or '*' while in progress)
+ */
+export function pgnResult(result: PgnResultInfo | null): string {
+  if (!result?.reason) return '*';
+  if (result.winner === 'w') return '1-0';
+  if (result.winner === 'b') return '0-1';
+  return '1/2-1/2';
+}
+
+function formatDate(date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}.${pad(date.getMonth() + 1)}.${pad(date.getDate())}`;
+}
+
+/**
+ * Exports a game as PGN
+ */
+export function exportPgn(state: ChessState, headers: PgnHeaders = {}, result: PgnResultInfo | null = null): string {
+  const resultToken = pgnResult(result);
+  const tags: PgnHeaders = {
+    Event: 'Partida casual',
+    Site: 'El Rincón de Charly',
+    Date: formatDate(new Date()),
+    Round: '-',
+    White: '?',
+    Black: '?',
+    ...headers,
+    Result: resultToken,
+  };
+  if (state.startFen !== INITIAL_FEN) {
+    tags.SetUp = '1';
+    tags.FEN = state.startFen;
+  }
+
+  const tagOrder = [...REQUIRED_TAGS, ...Object.keys(tags).filter((tag) => !(REQUIRED_TAGS as readonly string[]).includes(tag))];
+  const tagLines = tagOrder.map((tag) => `[${tag} "${tags[tag].replace(/["\\]/g, '\\$&')}"]`);
+
+  // Move numbers follow the start position (it may be black to move)
+  const start = createInitialState(state.startFen);
+  const tokens: string[] = [];
+  state.history.forEach((record, index) => {
+    const ply = index + (start.turn === 'b' ? 1 : 0);
+    const moveNumber = start.fullmoveNumber + Math.floor(ply / 2);
+    if (ply % 2 === 0) tokens.push(`${moveNumber}.`);
+    else if (index === 0) tokens.push(`${moveNumber}...`);
+    tokens.push(record.san);
+  });
+  tokens.push(resultToken);
+
+  // Wrap movetext at 80 columns
+  const lines: string[] = [];
+  let line = '';
+  for (const token of tokens) {
+    if (line && line.length + token.length + 1 > 80) {
+      lines.push(line);
+      line = token;
+    } else {
+      line = line ? `${line} ${token}` : token;
+    }
+  }
+  if (line) lines.push(line);
+
+  return `${tagLines.join('\n')}\n\n${lines.join('\n')}\n`;
+}
+
+/**
+ * Imports a single PGN game
+ * Comments, variations and NAGs are skipped. Throws on illegal moves.
+ */
+export function importPgn(pgn: string): { headers: PgnHeaders; state: ChessState } {
+  const headers: PgnHeaders = {};
+  const tagPattern = /^\s*\[(\w+)\s+"((?:[^"\\]|\\.)*)"\]\s*$/gm;
+  for (const match of pgn.matchAll(tagPattern)) {
+    headers[match[1]] = match[2].replace(/\\(.)/g, '$1');
+  }
+
+  let movetext = pgn.replace(tagPattern, '');
+  movetext = movetext.replace(/\{[^}]*\}/g, ' ').replace(/;[^\n]*/g, ' ');
+  // Strip variations from the innermost out
+  while (/\([^()]*\)/.test(movetext)) {
+    movetext = movetext.replace(/\([^()]*\)/g, ' ');
+  }
+
+  const tokens = movetext
+    .replace(/\$\d+/g, ' ')
+    .replace(/\d+\.(\.\.)?/g, ' ')
+    .split(/\s+/)
+    .filter((token) => token && !['1-0', '0-1', '1/2-1/2', '*'].includes(token));
+
+  let state = createInitialState(headers.FEN ?? INITIAL_FEN);
+  for (const san of tokens) {
+    const move = fromSan(state, san);
+    if (!move) {
+      throw new Error(`Illegal move in PGN: ${san}`);
+    }
+    state = applyMove(state, move);
+  }
+
+  return { headers, state };
+}
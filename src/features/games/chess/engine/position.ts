@@ -0,0 +1,147 @@
+import type { BoardState, CastlingRights, Color, Piece, Position } from '../types';
+
+const FILES = 'abcdefgh';
+const PIECE_LETTERS = 'pnbrqkPNBRQK';
+
+/**
+ * Square index from row (0 = rank 8) and column (0 = file a)
+ */
+export function toSquare(row: number, col: number): number {
+  return row * 8 + col;
+}
+
+/**
+ * Algebraic name of a square (e.g. 52 -> 'e2')
+ */
+export function squareName(square: number): string {
+  return FILES[square % 8] + (8 - Math.floor(square / 8));
+}
+
+/**
+ * Square index from its algebraic name; -1 if invalid
+ */
+export function parseSquare(name: string): number {
+  if (typeof name !== 'string' || !/^[a-h][1-8]$/.test(name)) return -1;
+  return toSquare(8 - Number(name[1]), FILES.indexOf(name[0]));
+}
+
+export function colorOf(piece: Piece): Color {
+  return piece === piece.toUpperCase() ? 'w' : 'b';
+}
+
+export function opponent(color: Color): Color {
+  return color === 'w' ? 'b' : 'w';
+}
+
+/**
+ * Piece letter for a color (e.g. ('q', 'w') -> 'Q')
+ */
+export function pieceFor(type: string, color: Color): Piece {
+  return (color === 'w' ? type.toUpperCase() : type.toLowerCase()) as Piece;
+}
+
+/**
+ * Parses a FEN string
+ * Throws if the string is not a valid FEN
+ */
+export function parseFen(fen: string): Position {
+  const [placement, turn, castling, enPassant, halfmove = '0', fullmove = '1'] = fen.trim().split(/\s+/);
+  const rows = placement?.split('/') ?? [];
+
+  if (rows.length !== 8 || (turn !== 'w' && turn !== 'b') || castling === undefined || enPassant === undefined) {
+    throw new Error(`Invalid FEN: ${fen}`);
+  }
+
+  const board: BoardState = [];
+  for (const row of rows) {
+    for (const char of row) {
+      if (/[1-8]/.test(char)) {
+        board.push(...Array<null>(Number(char)).fill(null));
+      } else if (PIECE_LETTERS.includes(char)) {
+        board.push(char as Piece);
+      } else {
+        throw new Error(`Invalid FEN: ${fen}`);
+      }
+    }
+  }
+  if (board.length !== 64) {
+    throw new Error(`Invalid FEN: ${fen}`);
+  }
+
+  return {
+    board,
+    turn,
+    castling: {
+      whiteKingside: castling.includes('K'),
+      whiteQueenside: castling.includes('Q'),
+      blackKingside: castling.includes('k'),
+      blackQueenside: castling.includes('q'),
+    },
+    enPassant: enPassant === '-' ? null : parseSquare(enPassant),
+    halfmoveClock: Number(halfmove) || 0,
+    fullmoveNumber: Number(fullmove) || 1,
+  };
+}
+
+function placementToFen(board: BoardState): string {
+  const rows: string[] = [];
+  for (let row = 0; row < 8; row++) {
+    let fenRow = '';
+    let empty = 0;
+    for (let col = 0; col < 8; col++) {
+      const piece = board[toSquare(row, col)];
+      if (piece) {
+        if (empty) fenRow += empty;
+        fenRow += piece;
+        empty = 0;
+      } else {
+        empty++;
+      }
+    }
+    rows.push(empty ? fenRow + empty : fenRow);
+  }
+  return rows.join('/');
+}
+
+function castlingToFen(castling: CastlingRights): string {
+  const fen =
+    (castling.whiteKingside ? 'K' : '') +
+    (castling.whiteQueenside ? 'Q' : '') +
+    (castling.blackKingside ? 'k' : '') +
+    (castling.blackQueenside ? 'q' : '');
+  return fen || '-';
+}
+
+/**
+ * Serializes a position to FEN
+ */
+export function toFen(position: Position): string {
+  return [
+    placementToFen(position.board),
+    position.turn,
+    castlingToFen(position.castling),
+    position.enPassant === null ? '-' : squareName(position.enPassant),
+    position.halfmoveClock,
+    position.fullmoveNumber,
+  ].join(' ');
+}
+
+/**
+ * Key used to detect repeated positions
+ * Same pieces, side to move, castling rights and en passant square
+ * (the en passant square only counts if a pawn can actually capture there)
+ */
+export function positionKey(position: Position): string {
+  let enPassant = '-';
+  if (position.enPassant !== null) {
+    const pawn = pieceFor('p', position.turn);
+    const row = Math.floor(position.enPassant / 8) + (position.turn === 'w' ? 1 : -1);
+    const col = position.enPassant % 8;
+    const canCapture = [col - 1, col + 1].some(
+      (c) => c >= 0 && c < 8 && position.board[toSquare(row, c)] === pawn
+    );
+    if (canCapture) enPassant = squareName(position.enPassant);
+  }
+
+  return [placementToFen(position.board), position.turn, castlingToFen(position.castling), enPassant].join(' ');
+}
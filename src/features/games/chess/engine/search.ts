@@ -0,0 +1,229 @@
+import type { AIDifficulty } from '../../registry/types';
+import type { DetailedMove, Piece, Position } from '../types';
+import { colorOf } from './position';
+import { generateLegalMoves, isInCheck, playMove } from './move-generation';
+
+const MATE_SCORE = 100000;
+
+const PIECE_VALUES: Record<string, number> = {
+  p: 100,
+  n: 320,
+  b: 330,
+  r: 500,
+  q: 900,
+  k: 0,
+};
+
+// Piece-square tables from white's point of view (a8 first), simplified
+// from the classic "Simplified Evaluation Function" values
+const PIECE_SQUARE_TABLES: Record<string, readonly number[]> = {
+  p: [
+    0, 0, 0, 0, 0, 0, 0, 0,
+    50, 50, 50, 50, 50, 50, 50, 50,
+    10, 10, 20, 30, 30, 20, 10, 10,
+    5, 5, 10, 25, 25, 10, 5, 5,
+    0, 0, 0, 20, 20, 0, 0, 0,
+    5, -5, -10, 0, 0, -10, -5, 5,
+    5, 10, 10, -20, -20, 10, 10, 5,
+    0, 0, 0, 0, 0, 0, 0, 0,
+  ],
+  n: [
+    -50, -40, -30, -30, -30, -30, -40, -50,
+    -40, -20, 0, 0, 0, 0, -20, -40,
+    -30, 0, 10, 15, 15, 10, 0, -30,
+    -30, 5, 15, 20, 20, 15, 5, -30,
+    -30, 0, 15, 20, 20, 15, 0, -30,
+    -30, 5, 10, 15, 15, 10, 5, -30,
+    -40, -20, 0, 5, 5, 0, -20, -40,
+    -50, -40, -30, -30, -30, -30, -40, -50,
+  ],
+  b: [
+    -20, -10, -10, -10, -10, -10, -10, -20,
+    -10, 0, 0, 0, 0, 0, 0, -10,
+    -10, 0, 5, 10, 10, 5, 0, -10,
+    -10, 5, 5, 10, 10, 5, 5, -10,
+    -10, 0, 10, 10, 10, 10, 0, -10,
+    -10, 10, 10, 10, 10, 10, 10, -10,
+    -10, 5, 0, 0, 0, 0, 5, -10,
+    -20, -10, -10, -10, -10, -10, -10, -20,
+  ],
+  r: [
+    0, 0, 0, 0, 0, 0, 0, 0,
+    5, 10, 10, 10, 10, 10, 10, 5,
+    -5, 0, 0, 0, 0, 0, 0, -5,
+    -5, 0, 0, 0, 0, 0, 0, -5,
+    -5, 0, 0, 0, 0, 0, 0, -5,
+    -5, 0, 0, 0, 0, 0, 0, -5,
+    -5, 0, 0, 0, 0, 0, 0, -5,
+    0, 0, 0, 5, 5, 0, 0, 0,
+  ],
+  q: [
+    -20, -10, -10, -5, -5, -10, -10, -20,
+    -10, 0, 0, 0, 0, 0, 0, -10,
+    -10, 0, 5, 5, 5, 5, 0, -10,
+    -5, 0, 5, 5, 5, 5, 0, -5,
+    0, 0, 5, 5, 5, 5, 0, -5,
+    -10, 5, 5, 5, 5, 5, 0, -10,
+    -10, 0, 5, 0, 0, 0, 0, -10,
+    -20, -10, -10, -5, -5, -10, -10, -20,
+  ],
+  k: [
+    -30, -40, -40, -50, -50, -40, -40, -30,
+    -30, -40, -40, -50, -50, -40, -40, -30,
+    -30, -40, -40, -50, -50, -40, -40, -30,
+    -30, -40, -40, -50, -50, -40, -40, -30,
+    -20, -30, -30, -40, -40, -30, -30, -20,
+    -10, -20, -20, -20, -20, -20, -20, -10,
+    20, 20, 0, 0, 0, 0, 20, 20,
+    20, 30, 10, 0, 0, 10, 30, 20,
+  ],
+};
+
+function pieceScore(piece: Piece, square: number): number {
+  const type = piece.toLowerCase();
+  // Black reads the table mirrored vertically
+  const tableSquare = colorOf(piece) === 'w' ? square : (7 - Math.floor(square / 8)) * 8 + (square % 8);
+  return PIECE_VALUES[type] + PIECE_SQUARE_TABLES[type][tableSquare];
+}
+
+/**
+ * Static evaluation from the point of view of the side to move
+ */
+function evaluate(position: Position): number {
+  let score = 0;
+  for (let square = 0; square < 64; square++) {
+    const piece = position.board[square];
+    if (!piece) continue;
+    const value = pieceScore(piece, square);
+    score += colorOf(piece) === position.turn ? value : -value;
+  }
+  return score;
+}
+
+// Captures first (most valuable victim, least valuable attacker), then promotions
+function orderMoves(moves: DetailedMove[]): DetailedMove[] {
+  const priority = (move: DetailedMove) =>
+    (move.captured ? 10 * PIECE_VALUES[move.captured.toLowerCase()] - PIECE_VALUES[move.piece.toLowerCase()] : 0) +
+    (move.promotion ? PIECE_VALUES[move.promotion] : 0);
+  return [...moves].sort((a, b) => priority(b) - priority(a));
+}
+
+/**
+ * Captures-only search so the horizon doesn't stop in the middle of an exchange
+ */
+function quiescence(position: Position, alpha: number, beta: number, depth: number): number {
+  const standPat = evaluate(position);
+  if (standPat >= beta || depth === 0) return standPat;
+  alpha = Math.max(alpha, standPat);
+
+  const captures = orderMoves(generateLegalMoves(position).filter((move) => move.captured || move.promotion));
+  for (const move of captures) {
+    const score = -quiescence(playMove(position, move), -beta, -alpha, depth - 1);
+    if (score >= beta) return score;
+    alpha = Math.max(alpha, score);
+  }
+  return alpha;
+}
+
+/**
+ * Negamax with alpha-beta pruning
+ * Returns the best score for the side to move
+ *
+ * @param position - Current position
+ * @param depth - Remaining search depth in plies
+ * @param ply - Plies from the root (prefer faster mates)
+ * @param alpha - Alpha value for pruning
+ * @param beta - Beta value for pruning
+ */
+function negamax(position: Position, depth: number, ply: number, alpha: number, beta: number): number {
+  const moves = generateLegalMoves(position);
+
+  if (moves.length === 0) {
+    return isInCheck(position) ? -(MATE_SCORE - ply) : 0;
+  }
+  if (position.halfmoveClock >= 100) {
+    return 0;
+  }
+  if (depth === 0) {
+    return quiescence(position, alpha, beta, 4);
+  }
+
+  let bestScore = -Infinity;
+  for (const move of orderMoves(moves)) {
+    const score = -negamax(playMove(position, move), depth - 1, ply + 1, -beta, -alpha);
+    bestScore = Math.max(bestScore, score);
+    alpha = Math.max(alpha, score);
+    if (alpha >= beta) break; // Alpha-beta pruning
+  }
+  return bestScore;
+}
+
+/**
+ * Gets the best move for the side to move
+ * @param maxDepth - Search depth in plies
+ */
+function getBestMove(position: Position, maxDepth: number): DetailedMove {
+  const moves = orderMoves(generateLegalMoves(position));
+
+  if (moves.length === 0) {
+    throw new Error('No available moves');
+  }
+
+  let bestMove = moves[0]!;
+  let bestScore = -Infinity;
+
+  for (const move of moves) {
+    const score = -negamax(playMove(position, move), maxDepth - 1, 1, -Infinity, -bestScore);
+    if (score > bestScore) {
+      bestScore = score;
+      bestMove = move;
+    }
+  }
+
+  return bestMove;
+}
+
+/**
+ * Gets a random legal move
+ */
+function getRandomMove(position: Position): DetailedMove {
+  const moves = generateLegalMoves(position);
+
+  if (moves.length === 0) {
+    throw new Error('No available moves');
+  }
+
+  return moves[Math.floor(Math.random() * moves.length)];
+}
+
+/**
+ * Gets an AI move based on difficulty level
+ *
+ * - Easy: 50% one-ply search, 50% random
+ * - Medium: Two-ply search
+ * - Hard: Three-ply search
+ * - Impossible: Four-ply search
+ * Every search ends in a short captures-only search.
+ */
+export function getAIMove(position: Position, difficulty: AIDifficulty): DetailedMove {
+  switch (difficulty) {
+    case 'easy': {
+      return Math.random() < 0.5 ? getBestMove(position, 1) : getRandomMove(position);
+    }
+
+    case 'medium': {
+      return getBestMove(position, 2);
+    }
+
+    case 'hard': {
+      return getBestMove(position, 3);
+    }
+
+    case 'impossible':
+    default: {
+      return getBestMove(position, 4);
+    }
+  }
+}
+
+export { getBestMove, getRandomMove };
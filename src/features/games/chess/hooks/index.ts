@@ -0,0 +1,8 @@
+export { useChess } from './use-chess';
+export type { UseChessOptions, UseChessReturn } from './use-chess';
+export { useChessClock } from './use-chess-clock';
+export type { UseChessClockOptions, UseChessClockReturn } from './use-chess-clock';
+export { useOnlineChessClock } from './use-online-chess-clock';
+export type { UseOnlineChessClockOptions } from './use-online-chess-clock';
+export { useOnlineGame } from './use-online-game';
+export type { OnlineGameStatus } from './use-online-game';
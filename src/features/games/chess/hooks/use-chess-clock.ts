@@ -0,0 +1,108 @@
+'use client';
+
+import { useState, useCallback, useEffect, useRef } from 'react';
+import type { Color, TimeControl } from '../types';
+import { getNextColor } from '../engine/game-logic';
+
+// How often the running clock is redrawn
+const CLOCK_TICK_MS = 100;
+
+export interface UseChessClockOptions {
+  timeControl: TimeControl;
+  onTimeout?: (color: Color) => void;
+}
+
+export interface UseChessClockReturn {
+  /** Remaining time per color in ms */
+  remaining: Record<Color, number>;
+  /** Color whose clock is running (null = stopped) */
+  activeColor: Color | null;
+  isEnabled: boolean;
+  /** A color finished its move: add its increment and start the opponent's clock */
+  press: (color: Color) => void;
+  stop: () => void;
+  reset: () => void;
+}
+
+/**
+ * Two-sided chess clock with Fischer increment
+ * The clock starts after white's first move, like most online servers.
+ */
+export function useChessClock({ timeControl, onTimeout }: UseChessClockOptions): UseChessClockReturn {
+  const isEnabled = timeControl.initialMs > 0;
+  const initial = { w: timeControl.initialMs, b: timeControl.initialMs };
+
+  const [remaining, setRemaining] = useState<Record<Color, number>>(initial);
+  const [activeColor, setActiveColor] = useState<Color | null>(null);
+
+  // Source of truth between ticks (state only drives rendering)
+  const remainingRef = useRef<Record<Color, number>>(initial);
+  const lastTickRef = useRef(0);
+  const onTimeoutRef = useRef(onTimeout);
+
+  useEffect(() => {
+    onTimeoutRef.current = onTimeout;
+  }, [onTimeout]);
+
+  // Charge the running clock for the time since the last tick
+  const settle = useCallback((color: Color | null) => {
+    const now = Date.now();
+    if (color) {
+      const left = Math.max(0, remainingRef.current[color] - (now - lastTickRef.current));
+      remainingRef.current = { ...remainingRef.current, [color]: left };
+    }
+    lastTickRef.current = now;
+    return remainingRef.current;
+  }, []);
+
+  useEffect(() => {
+    if (!isEnabled || !activeColor) return;
+
+    lastTickRef.current = Date.now();
+    const intervalId = setInterval(() => {
+      const times = settle(activeColor);
+      setRemaining(times);
+
+      if (times[activeColor] === 0) {
+        setActiveColor(null);
+        onTimeoutRef.current?.(activeColor);
+      }
+    }, CLOCK_TICK_MS);
+
+    return () => clearInterval(intervalId);
+  }, [isEnabled, activeColor, settle]);
+
+  const press = useCallback((color: Color) => {
+    if (!isEnabled) return;
+
+    const times = settle(activeColor);
+    if (activeColor && times[activeColor] === 0) return; // Already flagged
+
+    remainingRef.current = { ...times, [color]: times[color] + timeControl.incrementMs };
+    setRemaining(remainingRef.current);
+    setActiveColor(getNextColor(color));
+  }, [isEnabled, activeColor, settle, timeControl.incrementMs]);
+
+  const stop = useCallback(() => {
+    setRemaining({ ...settle(activeColor) });
+    setActiveColor(null);
+  }, [activeColor, settle]);
+
+  const reset = useCallback(() => {
+    const times = { w: timeControl.initialMs, b: timeControl.initialMs };
+    remainingRef.current = times;
+    setRemaining(times);
+    setActiveColor(null);
+  }, [timeControl.initialMs]);
+
+  return {
+    remaining,
+    activeColor,
+    isEnabled,
+    press,
+    stop,
+    reset,
+  };
+}
+
+export default useChessClock;
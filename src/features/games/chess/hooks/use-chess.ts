@@ -0,0 +1,222 @@
+'use client';
+
+import { useState, useCallback, useEffect, useMemo, useRef } from 'react';
+import type { ChessMove, ChessState, Color, DetailedMove, GameStatus, TimeControl } from '../types';
+import { TIME_CONTROLS } from '../types';
+import type { GameMode, AIDifficulty, Player } from '../../registry/types';
+import {
+  createInitialState,
+  applyMove,
+  findMove,
+  getGameStatus,
+  getLegalMoves,
+  getNextColor,
+  toChessMove,
+} from '../engine/game-logic';
+import { hasMatingMaterial } from '../engine/move-generation';
+import { getAIMove } from '../engine/search';
+import { useChessClock } from './use-chess-clock';
+import { chessSerializer } from '../serializer';
+import type { Json } from '@/types/supabase.types';
+import type { MatchReplay, ReplayMove } from '../../common/utils/replay';
+
+export interface UseChessOptions {
+  mode: GameMode;
+  playerColor?: Color;
+  aiDifficulty?: AIDifficulty;
+  timeControl?: TimeControl;
+  /** Called once the game ends, with every move played (for replays) */
+  onGameEnd?: (winner: Player | null, isDraw: boolean, replay: MatchReplay) => void;
+}
+
+export interface UseChessReturn {
+  state: ChessState;
+  status: GameStatus;
+  legalMoves: DetailedMove[];
+  isGameOver: boolean;
+  isAIThinking: boolean;
+  /** Remaining clock time per color in ms */
+  clock: Record<Color, number>;
+  activeClock: Color | null;
+  isClockEnabled: boolean;
+  makePlayerMove: (move: ChessMove) => boolean;
+  resetGame: () => void;
+  /** Continue from an imported game (clocks restart) */
+  loadGame: (state: ChessState) => void;
+}
+
+export function useChess({
+  mode,
+  playerColor = 'w',
+  aiDifficulty = 'medium',
+  timeControl = TIME_CONTROLS[0],
+  onGameEnd,
+}: UseChessOptions): UseChessReturn {
+  const [state, setState] = useState<ChessState>(() => createInitialState());
+  // Set when a clock runs out (the board itself can't tell)
+  const [timeoutStatus, setTimeoutStatus] = useState<GameStatus | null>(null);
+  const [isAIThinking, setIsAIThinking] = useState(false);
+
+  // Ref to track if AI move is being processed (fixes StrictMode double-execution)
+  const aiMoveInProgressRef = useRef(false);
+  // Moves with timestamps for the replay (not rendered, so kept out of state)
+  const moveLogRef = useRef<ReplayMove[]>([]);
+  // Imported games replay from the loaded position
+  const replayStartRef = useRef<Json | null>(null);
+
+  const status = useMemo(() => timeoutStatus ?? getGameStatus(state), [timeoutStatus, state]);
+  const legalMoves = useMemo(() => (status.isOver ? [] : getLegalMoves(state)), [status.isOver, state]);
+
+  const isGameOver = status.isOver;
+  const aiColor = getNextColor(playerColor);
+  const isAITurn = mode === 'ai' && state.turn === aiColor && !isGameOver;
+
+  const reportGameEnd = useCallback(
+    (result: GameStatus) => {
+      if (!onGameEnd) return;
+      const replay: MatchReplay = { initialState: replayStartRef.current, moves: moveLogRef.current };
+      if (!result.winner) {
+        onGameEnd(null, true, replay);
+        return;
+      }
+      const winnerPlayer: Player = {
+        id: result.winner,
+        name: mode === 'ai' && result.winner !== playerColor ? 'AI' : 'You',
+        isAI: mode === 'ai' && result.winner !== playerColor,
+      };
+      onGameEnd(winnerPlayer, false, replay);
+    },
+    [onGameEnd, mode, playerColor]
+  );
+
+  // Flagged side loses, unless the opponent can't possibly mate
+  const handleTimeout = useCallback(
+    (color: Color) => {
+      const opponentColor = getNextColor(color);
+      const result: GameStatus = {
+        isOver: true,
+        winner: hasMatingMaterial(state.board, opponentColor) ? opponentColor : null,
+        reason: 'timeout',
+        isCheck: false,
+      };
+      setTimeoutStatus(result);
+      reportGameEnd(result);
+    },
+    [state.board, reportGameEnd]
+  );
+
+  const {
+    remaining,
+    activeColor,
+    isEnabled: isClockEnabled,
+    press: pressClock,
+    stop: stopClock,
+    reset: resetClock,
+  } = useChessClock({ timeControl, onTimeout: handleTimeout });
+
+  // Reset game
+  const resetGame = useCallback(() => {
+    setState(createInitialState());
+    setTimeoutStatus(null);
+    setIsAIThinking(false);
+    resetClock();
+    moveLogRef.current = [];
+    replayStartRef.current = null;
+    aiMoveInProgressRef.current = false;
+  }, [resetClock]);
+
+  const loadGame = useCallback((loaded: ChessState) => {
+    setState(loaded);
+    setTimeoutStatus(null);
+    setIsAIThinking(false);
+    resetClock();
+    moveLogRef.current = [];
+    replayStartRef.current = chessSerializer.serialize(loaded);
+    aiMoveInProgressRef.current = false;
+  }, [resetClock]);
+
+  // Play a move (for both player and AI)
+  const executeMove = useCallback(
+    (move: DetailedMove) => {
+      if (isGameOver) {
+        return false;
+      }
+
+      const newState = applyMove(state, move);
+      setState(newState);
+      moveLogRef.current = [
+        ...moveLogRef.current,
+        { key: state.turn, move: { ...toChessMove(move) }, at: new Date().toISOString() },
+      ];
+
+      const result = getGameStatus(newState);
+      if (result.isOver) {
+        stopClock();
+        reportGameEnd(result);
+      } else {
+        pressClock(state.turn);
+      }
+      return true;
+    },
+    [state, isGameOver, stopClock, pressClock, reportGameEnd]
+  );
+
+  // Player makes a move
+  const makePlayerMove = useCallback(
+    (move: ChessMove) => {
+      if (isAIThinking || isAITurn) {
+        return false; // Don't allow moves during AI's turn
+      }
+
+      if (mode === 'ai' && state.turn !== playerColor) {
+        return false; // Not player's turn in AI mode
+      }
+
+      const detailed = findMove(state, move);
+      return detailed ? executeMove(detailed) : false;
+    },
+    [isAIThinking, isAITurn, mode, state, playerColor, executeMove]
+  );
+
+  // AI makes a move
+  useEffect(() => {
+    // Use ref to prevent double-execution in StrictMode
+    if (!isAITurn || aiMoveInProgressRef.current) {
+      return;
+    }
+
+    aiMoveInProgressRef.current = true;
+    setIsAIThinking(true); // eslint-disable-line react-hooks/set-state-in-effect -- AI state coordination
+
+    // Deeper searches take longer on their own, so they get a shorter delay
+    const delay = aiDifficulty === 'easy' ? 500 : aiDifficulty === 'medium' ? 300 : 100;
+
+    const timeoutId = setTimeout(() => {
+      executeMove(getAIMove(state, aiDifficulty));
+      setIsAIThinking(false);
+      aiMoveInProgressRef.current = false;
+    }, delay);
+
+    return () => {
+      clearTimeout(timeoutId);
+      // The timeout never ran, so let the next effect run schedule the move again
+      aiMoveInProgressRef.current = false;
+    };
+  }, [isAITurn, state, aiDifficulty, executeMove]);
+
+  return {
+    state,
+    status,
+    legalMoves,
+    isGameOver,
+    isAIThinking,
+    clock: remaining,
+    activeClock: activeColor,
+    isClockEnabled,
+    makePlayerMove,
+    resetGame,
+    loadGame,
+  };
+}
+
+export default useChess;
@@ -0,0 +1,44 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import type { Color } from '../types';
+
+// How often the running clock is redrawn (same as useChessClock)
+const CLOCK_TICK_MS = 100;
+
+export interface UseOnlineChessClockOptions {
+  /** Saved time per color from the room (null = room without clock) */
+  saved: Record<Color, number> | null;
+  /** Server deadline of the running side (null = clock stopped) */
+  turnDeadline: string | null;
+  /** Color whose clock is running */
+  activeColor: Color | null;
+}
+
+/**
+ * Display of the server-side chess clock
+ * The server keeps each side's remaining time; the side on turn runs out at
+ * turnDeadline, so its time is derived from the deadline on every tick.
+ */
+export function useOnlineChessClock({
+  saved,
+  turnDeadline,
+  activeColor,
+}: UseOnlineChessClockOptions): Record<Color, number> | null {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    if (!turnDeadline || !activeColor) return;
+
+    const intervalId = setInterval(() => setNow(Date.now()), CLOCK_TICK_MS);
+    return () => clearInterval(intervalId);
+  }, [turnDeadline, activeColor]);
+
+  if (!saved) return null;
+  if (!turnDeadline || !activeColor) return saved;
+
+  const left = Math.max(0, Math.min(saved[activeColor], new Date(turnDeadline).getTime() - now));
+  return { ...saved, [activeColor]: left };
+}
+
+export default useOnlineChessClock;
@@ -0,0 +1,314 @@
+'use client';
+
+import { useState, useCallback, useRef, useEffect, useMemo } from 'react';
+import {
+  useOnlineGameCore,
+  type OnlineGameStatus,
+  type RematchStatus,
+  type NegotiationInfo,
+  type FinishReason,
+  type RatingChange,
+} from '../../common/hooks/use-online-game-core';
+import type { RoomChatReturn } from '../../common/hooks/use-room-chat';
+import {
+  gameRoomService,
+  type GameRoom,
+  type GameRoomMetadata,
+  type GameRoomWithPlayers,
+  type ConnectionStatus,
+} from '../../common/services/game-room-service';
+import { applyMove, createInitialState, findMove, getGameStatus } from '../engine/game-logic';
+import { chessSerializer } from '../serializer';
+import { useOnlineChessClock } from './use-online-chess-clock';
+import { createLogger } from '@/lib/utils/logger';
+import type { ChessMove, ChessState, Color, GameStatus } from '../types';
+
+const _log = createLogger({ prefix: 'ChessOnline' });
+void _log; // Reserved for future debugging
+
+export type { OnlineGameStatus, RematchStatus };
+
+// Game state from the room's serialized move list
+function stateFromRoom(room: GameRoom): ChessState {
+  return chessSerializer.deserialize(room.state);
+}
+
+interface UseOnlineGameOptions {
+  userId: string;
+  onGameEnd?: (winnerId: string | null, isDraw: boolean, myColor: Color) => void;
+}
+
+interface UseOnlineGameReturn {
+  status: OnlineGameStatus;
+  room: GameRoomWithPlayers | null;
+  state: ChessState;
+  gameStatus: GameStatus;
+  myColor: Color | null;
+  isMyTurn: boolean;
+  winnerId: string | null;
+  didWin: boolean;
+  isDraw: boolean;
+  opponentName: string | null;
+  isPrivateRoom: boolean;
+  findMatch: () => Promise<void>;
+  createPrivateRoom: () => Promise<void>;
+  joinRoom: (roomId: string) => Promise<void>;
+  joinLobbyRoom: (roomId: string) => Promise<void>;
+  makeMove: (move: ChessMove) => Promise<boolean>;
+  leaveGame: () => Promise<void>;
+  error: string | null;
+  connectionStatus: ConnectionStatus;
+  rematchStatus: RematchStatus;
+  requestRematch: () => Promise<void>;
+  acceptRematch: () => Promise<void>;
+  declineRematch: () => Promise<void>;
+  betAmount: number | null;
+  potTotal: number;
+  findMatchWithBet: (amount: number) => Promise<boolean>;
+  createPrivateRoomWithBet: (amount: number) => Promise<boolean>;
+  // Negotiation
+  negotiation: NegotiationInfo;
+  submitBetProposal: (amount: number) => Promise<void>;
+  acceptBetProposal: () => Promise<void>;
+  skipBetting: () => Promise<void>;
+  // Turn clock
+  turnDeadline: string | null;
+  /** Server-side clock per color (null = room without clock) */
+  clock: Record<Color, number> | null;
+  finishReason: FinishReason | null;
+  ratingChange: RatingChange | null;
+  // Disconnect grace period and resume
+  isOpponentOnline: boolean;
+  opponentDisconnectDeadline: string | null;
+  activeRoom: GameRoomWithPlayers | null;
+  resumeGame: () => Promise<void>;
+  abandonActiveRoom: () => Promise<void>;
+  // Chat
+  chat: RoomChatReturn;
+}
+
+export function useOnlineGame({ userId, onGameEnd }: UseOnlineGameOptions): UseOnlineGameReturn {
+  // Chess specific state
+  const [state, setState] = useState<ChessState>(() => createInitialState());
+  const [winnerId, setWinnerId] = useState<string | null>(null);
+  const [isDraw, setIsDraw] = useState(false);
+
+  const onGameEndRef = useRef(onGameEnd);
+   
+  onGameEndRef.current = onGameEnd;
+  const finishTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const setStatusRef = useRef<((status: OnlineGameStatus) => void) | null>(null);
+
+  // Handle room updates - Chess specific logic
+  const handleRoomUpdate = useCallback((updatedRoom: GameRoom) => {
+    setState(stateFromRoom(updatedRoom));
+  }, []);
+
+  // Handle game finished - Chess specific logic
+  const handleGameFinished = useCallback((updatedRoom: GameRoom) => {
+    const color: Color = updatedRoom.player1_id === userId ? 'w' : 'b';
+
+    // Show the final position and result
+    setState(stateFromRoom(updatedRoom));
+    setIsDraw(updatedRoom.is_draw);
+    setWinnerId(updatedRoom.winner_id);
+
+    // Delay status change to allow animations
+    finishTimeoutRef.current = setTimeout(() => {
+      setStatusRef.current?.('finished');
+      if (updatedRoom.is_draw) {
+        onGameEndRef.current?.(null, true, color);
+      } else if (updatedRoom.winner_id) {
+        onGameEndRef.current?.(updatedRoom.winner_id, false, color);
+      }
+    }, 1200);
+  }, [userId]);
+
+  // Use the core hook
+  const core = useOnlineGameCore({
+    userId,
+    gameType: 'chess',
+    onRoomUpdate: handleRoomUpdate,
+    onGameFinished: handleGameFinished,
+  });
+
+  // Update ref to allow callbacks to access core.setStatus
+   
+  setStatusRef.current = core.setStatus;
+
+  // Derived state
+  const myColor: Color | null = core.room
+    ? core.room.player1_id === userId
+      ? 'w'
+      : 'b'
+    : null;
+
+  const isMyTurn = core.room?.status === 'playing' && core.room?.current_turn === userId;
+
+  const opponentName = core.room
+    ? core.room.player1_id === userId
+      ? core.room.player2?.username || null
+      : core.room.player1?.username || null
+    : null;
+
+  const gameStatus = useMemo(() => getGameStatus(state), [state]);
+
+  // player1 plays white, so its saved time is white's
+  const savedClock = (core.room?.metadata as GameRoomMetadata | null | undefined)?.clock_remaining_ms;
+  const clock = useOnlineChessClock({
+    saved: savedClock ? { w: savedClock.player1, b: savedClock.player2 } : null,
+    turnDeadline: core.turnDeadline,
+    activeColor: core.room?.status === 'playing' ? state.turn : null,
+  });
+
+  // Sync with server
+  const syncWithServer = useCallback(async () => {
+    if (!core.room) return;
+    const freshRoom = await gameRoomService.getRoom(core.room.id);
+    if (freshRoom) {
+      core.setRoom(freshRoom);
+      setState(stateFromRoom(freshRoom));
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps -- core.setRoom is stable, only room.id matters
+  }, [core.room]);
+
+  // Make a move - Chess specific
+  // The server validates the move and derives winner/draw; we only render optimistically
+  const makeMove = useCallback(async (move: ChessMove): Promise<boolean> => {
+    if (!core.room || !myColor || state.turn !== myColor) return false;
+    const detailed = findMove(state, move);
+    if (!detailed) return false;
+
+    // Save state for potential rollback
+    const previousState = state;
+
+    // Optimistic update
+    setState(applyMove(state, detailed));
+
+    const result = await gameRoomService.makeMove<ChessMove>(
+      core.room.id,
+      'chess',
+      move
+    );
+
+    if (!result.success) {
+      setState(previousState);
+
+      if (result.conflict && result.currentRoom) {
+        core.setRoom(prev => prev ? { ...prev, ...result.currentRoom } : null);
+        setState(stateFromRoom(result.currentRoom));
+
+        if (result.currentRoom.status === 'finished') {
+          core.setStatus('finished');
+          setIsDraw(result.currentRoom.is_draw);
+          setWinnerId(result.currentRoom.winner_id);
+        }
+      } else {
+        await syncWithServer();
+      }
+      return false;
+    }
+
+    const serverRoom = result.currentRoom;
+    if (serverRoom) {
+      setState(stateFromRoom(serverRoom));
+
+      if (serverRoom.status === 'finished') {
+        setWinnerId(serverRoom.winner_id);
+        setIsDraw(serverRoom.is_draw);
+        core.setStatus('finished');
+        onGameEndRef.current?.(serverRoom.winner_id, serverRoom.is_draw, myColor);
+      }
+    }
+
+    return true;
+    // eslint-disable-next-line react-hooks/exhaustive-deps -- core methods are stable, only room/state matter
+  }, [core.room, state, myColor, syncWithServer]);
+
+  // Extended leave game to reset chess state
+  const leaveGame = useCallback(async () => {
+    await core.leaveGame();
+    setState(createInitialState());
+    setWinnerId(null);
+    setIsDraw(false);
+    // eslint-disable-next-line react-hooks/exhaustive-deps -- core.leaveGame is a stable reference
+  }, [core.leaveGame]);
+
+  // Cleanup timeout on unmount
+  useEffect(() => {
+    return () => {
+      if (finishTimeoutRef.current) {
+        clearTimeout(finishTimeoutRef.current);
+      }
+    };
+  }, []);
+
+  // Update room data on status transition to playing
+  const prevStatusRef = useRef<OnlineGameStatus>('idle');
+  useEffect(() => {
+    const prevStatus = prevStatusRef.current;
+    prevStatusRef.current = core.status;
+
+    if (core.status === 'playing' && prevStatus !== 'playing' && core.room) {
+      gameRoomService.getRoom(core.room.id).then(updatedRoom => {
+        if (updatedRoom) {
+          core.setRoom(updatedRoom);
+          setState(stateFromRoom(updatedRoom));
+          setWinnerId(null);
+          setIsDraw(false);
+        }
+      });
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps -- core.setRoom is stable, only status/room.id matter
+  }, [core.status, core.room?.id]);
+
+  return {
+    status: core.status,
+    room: core.room,
+    state,
+    gameStatus,
+    myColor,
+    isMyTurn,
+    winnerId,
+    didWin: winnerId !== null && winnerId === userId,
+    isDraw,
+    opponentName,
+    isPrivateRoom: core.isPrivateRoom,
+    findMatch: core.findMatch,
+    createPrivateRoom: core.createPrivateRoom,
+    joinRoom: core.joinRoom,
+    joinLobbyRoom: core.joinLobbyRoom,
+    makeMove,
+    leaveGame,
+    error: core.error,
+    connectionStatus: core.connectionStatus,
+    rematchStatus: core.rematchStatus,
+    requestRematch: core.requestRematch,
+    acceptRematch: core.acceptRematch,
+    declineRematch: core.declineRematch,
+    betAmount: core.betAmount,
+    potTotal: core.potTotal,
+    findMatchWithBet: core.findMatchWithBet,
+    createPrivateRoomWithBet: core.createPrivateRoomWithBet,
+    // Negotiation
+    negotiation: core.negotiation,
+    submitBetProposal: core.submitBetProposal,
+    acceptBetProposal: core.acceptBetProposal,
+    skipBetting: core.skipBetting,
+    // Turn clock
+    turnDeadline: core.turnDeadline,
+    clock,
+    finishReason: core.finishReason,
+    ratingChange: core.ratingChange,
+    // Disconnect grace period and resume
+    isOpponentOnline: core.isOpponentOnline,
+    opponentDisconnectDeadline: core.opponentDisconnectDeadline,
+    activeRoom: core.activeRoom,
+    resumeGame: core.resumeGame,
+    abandonActiveRoom: core.abandonActiveRoom,
+    // Chat
+    chat: core.chat,
+  };
+}
+
+export default useOnlineGame;
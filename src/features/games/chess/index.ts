@@ -0,0 +1,27 @@
+import type { GameModule } from '../registry/types';
+import { Chess } from './chess';
+import { chessConfig } from './config';
+import { ChessEngine } from './engine/chess-engine';
+import { chessSerializer } from './serializer';
+import { SpectatorBoard } from './components/spectator-board';
+
+// Export the game module
+const chessModule: GameModule = {
+  config: chessConfig,
+  Component: Chess,
+  Engine: ChessEngine,
+  serializer: chessSerializer,
+  SpectatorBoard,
+};
+
+export default chessModule;
+
+// Named exports for convenience
+export { Chess } from './chess';
+export { chessConfig } from './config';
+export { ChessEngine } from './engine/chess-engine';
+export { chessSerializer } from './serializer';
+export { exportPgn, importPgn } from './engine/pgn';
+export * from './types';
+export * from './hooks';
+export * from './components';
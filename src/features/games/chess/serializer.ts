@@ -0,0 +1,27 @@
+import type { GameStateSerializer } from '../registry/types';
+import type { ChessState } from './types';
+import { INITIAL_FEN } from './types';
+import { createInitialState, replayMoves } from './engine/game-logic';
+
+// Stored as { startFen: '<FEN>', moves: ['e2e4', 'e7e5', ...] }
+// Replaying the moves rebuilds SAN and the repetition history
+export const chessSerializer: GameStateSerializer<ChessState> = {
+  serialize(state) {
+    return {
+      startFen: state.startFen,
+      moves: state.history.map((record) => record.uci),
+    };
+  },
+
+  deserialize(data) {
+    if (!data || typeof data !== 'object' || Array.isArray(data)) {
+      return createInitialState();
+    }
+
+    const startFen = typeof data.startFen === 'string' ? data.startFen : INITIAL_FEN;
+    const moves = Array.isArray(data.moves)
+      ? data.moves.filter((move): move is string => typeof move === 'string')
+      : [];
+    return replayMoves(startFen, moves);
+  },
+};
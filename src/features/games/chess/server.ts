@@ -0,0 +1,27 @@
+import type { RoomSnapshot, ServerGameDefinition } from '../registry/types';
+import type { ChessMove, ChessState, Color } from './types';
+import { ChessEngine } from './engine/chess-engine';
+import { chessSerializer } from './serializer';
+
+// player1 plays white (and starts), player2 plays black
+function colorFor(room: RoomSnapshot, userId: string | null): Color | null {
+  if (!userId) return null;
+  if (room.player1_id === userId) return 'w';
+  if (room.player2_id === userId) return 'b';
+  return null;
+}
+
+export const chessServerGame: ServerGameDefinition<ChessState, ChessMove> = {
+  Engine: ChessEngine,
+  serializer: chessSerializer,
+
+  playerKey(room, userId) {
+    return colorFor(room, userId);
+  },
+
+  userIdForKey(room, key) {
+    if (key === 'w') return room.player1_id;
+    if (key === 'b') return room.player2_id;
+    return null;
+  },
+};
@@ -0,0 +1,120 @@
+export type Color = 'w' | 'b';
+
+// FEN letters: uppercase = white, lowercase = black
+export type Piece =
+  | 'P' | 'N' | 'B' | 'R' | 'Q' | 'K'
+  | 'p' | 'n' | 'b' | 'r' | 'q' | 'k';
+
+export type PromotionPiece = 'q' | 'r' | 'b' | 'n';
+
+// Squares are 0-63 from a8 to h1 (row-major, white at the bottom)
+export type BoardState = (Piece | null)[];
+
+export interface CastlingRights {
+  whiteKingside: boolean;
+  whiteQueenside: boolean;
+  blackKingside: boolean;
+  blackQueenside: boolean;
+}
+
+/**
+ * Everything FEN describes: enough to generate moves and search
+ */
+export interface Position {
+  board: BoardState;
+  turn: Color;
+  castling: CastlingRights;
+  /** Square a pawn can capture en passant onto (null if none) */
+  enPassant: number | null;
+  /** Half-moves since the last capture or pawn move (50-move rule) */
+  halfmoveClock: number;
+  fullmoveNumber: number;
+}
+
+export interface MoveRecord {
+  /** Long algebraic form, e.g. 'e2e4' or 'e7e8q' */
+  uci: string;
+  /** Standard algebraic notation, e.g. 'Nf3', 'exd6', 'O-O', 'e8=Q#' */
+  san: string;
+}
+
+/**
+ * Full game state: the current position plus what it took to get there
+ */
+export interface ChessState extends Position {
+  startFen: string;
+  history: MoveRecord[];
+  /** Repetition keys of every position reached, including the start */
+  positions: string[];
+}
+
+/**
+ * Move as sent over the wire and passed to the engine
+ */
+export interface ChessMove {
+  /** Square name, e.g. 'e2' */
+  from: string;
+  to: string;
+  promotion?: PromotionPiece;
+}
+
+/**
+ * Move with everything needed to apply it (generated by the engine)
+ */
+export interface DetailedMove {
+  from: number;
+  to: number;
+  piece: Piece;
+  captured: Piece | null;
+  promotion?: PromotionPiece;
+  flag?: 'double-push' | 'en-passant' | 'castle-kingside' | 'castle-queenside';
+}
+
+export type GameOverReason =
+  | 'checkmate'
+  | 'stalemate'
+  | 'threefold-repetition'
+  | 'fifty-move-rule'
+  | 'insufficient-material'
+  | 'timeout';
+
+export interface GameStatus {
+  isOver: boolean;
+  winner: Color | null;
+  reason: GameOverReason | null;
+  isCheck: boolean;
+}
+
+export interface TimeControl {
+  id: string;
+  label: string;
+  /** Starting time per player (0 = no clock) */
+  initialMs: number;
+  /** Time added after each move */
+  incrementMs: number;
+}
+
+export const INITIAL_FEN = 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1';
+
+export const TIME_CONTROLS: readonly TimeControl[] = [
+  { id: 'none', label: 'Sin reloj', initialMs: 0, incrementMs: 0 },
+  { id: '1+0', label: '1 min', initialMs: 60_000, incrementMs: 0 },
+  { id: '3+2', label: '3 | 2', initialMs: 180_000, incrementMs: 2_000 },
+  { id: '5+0', label: '5 min', initialMs: 300_000, incrementMs: 0 },
+  { id: '10+0', label: '10 min', initialMs: 600_000, incrementMs: 0 },
+  { id: '15+10', label: '15 | 10', initialMs: 900_000, incrementMs: 10_000 },
+] as const;
+
+export const COLOR_NAMES: Record<Color, string> = {
+  w: 'Blancas',
+  b: 'Negras',
+};
+
+export const GAME_OVER_LABELS: Record<GameOverReason, string> = {
+  'checkmate': 'Jaque mate',
+  'stalemate': 'Ahogado',
+  'threefold-repetition': 'Triple repetición',
+  'fifty-move-rule': 'Regla de los 50 movimientos',
+  'insufficient-material': 'Material insuficiente',
+  'timeout': 'Tiempo agotado',
+};
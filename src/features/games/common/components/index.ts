@@ -0,0 +1,6 @@
+export { TurnCountdown } from './turn-countdown';
+export { ResumeGameBanner } from './resume-game-banner';
+export { RatingChangeLabel } from './rating-change';
+export { RoomChat } from './room-chat';
+export { RoomInvite } from './room-invite';
+export { RoomLobby } from './room-lobby';
@@ -0,0 +1,31 @@
+'use client';
+
+import { TrendingUp, TrendingDown } from 'lucide-react';
+import { cn } from '@/lib/utils/cn';
+import type { RatingChange } from '../hooks';
+
+interface RatingChangeLabelProps {
+  /** My rating after the game (null = unrated game) */
+  change: RatingChange | null;
+  className?: string;
+}
+
+export function RatingChangeLabel({ change, className }: RatingChangeLabelProps) {
+  if (!change) return null;
+
+  const delta = Math.round(change.delta);
+  const isGain = delta >= 0;
+  const Icon = isGain ? TrendingUp : TrendingDown;
+
+  return (
+    <p className={cn('flex items-center justify-center gap-1.5 text-sm mt-1', className)}>
+      <Icon size={14} className={isGain ? 'text-(--color-success)' : 'text-(--color-error)'} />
+      <span className="text-(--color-text-muted)">Rating {Math.round(change.rating)}</span>
+      <span className={cn('font-semibold', isGain ? 'text-(--color-success)' : 'text-(--color-error)')}>
+        ({isGain ? '+' : ''}{delta})
+      </span>
+    </p>
+  );
+}
+
+export default RatingChangeLabel;
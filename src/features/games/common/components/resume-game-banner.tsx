@@ -0,0 +1,72 @@
+'use client';
+
+import { useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { Play, LogOut } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import type { GameRoomWithPlayers } from '../services/game-room-service';
+
+interface ResumeGameBannerProps {
+  /** In-progress room found on load (null = nothing to resume) */
+  room: GameRoomWithPlayers | null;
+  userId: string;
+  onResume: () => void;
+  onAbandon: () => Promise<void>;
+}
+
+export function ResumeGameBanner({ room, userId, onResume, onAbandon }: ResumeGameBannerProps) {
+  const [isAbandoning, setIsAbandoning] = useState(false);
+
+  const opponentName = room
+    ? room.player1_id === userId
+      ? room.player2?.username
+      : room.player1?.username
+    : null;
+
+  const handleAbandon = async () => {
+    setIsAbandoning(true);
+    try {
+      await onAbandon();
+    } finally {
+      setIsAbandoning(false);
+    }
+  };
+
+  return (
+    <AnimatePresence>
+      {room && (
+        <motion.div
+          initial={{ opacity: 0, y: 40 }}
+          animate={{ opacity: 1, y: 0 }}
+          exit={{ opacity: 0, y: 40 }}
+          className="fixed bottom-4 left-1/2 -translate-x-1/2 z-40 w-[calc(100%-2rem)] max-w-md"
+          role="alert"
+        >
+          <div className="p-4 rounded-2xl bg-(--color-surface) border border-(--color-primary)/40 shadow-lg">
+            <p className="font-semibold text-(--color-text)">Tienes una partida en curso</p>
+            <p className="text-sm text-(--color-text-muted) mt-1">
+              vs <span className="text-(--color-accent) font-semibold">{opponentName || 'Oponente'}</span>
+              {' · '}si no vuelves pronto, la perderás por abandono.
+            </p>
+            <div className="flex gap-2 mt-3">
+              <Button onClick={onResume} size="sm" className="flex-1" icon={<Play size={16} />}>
+                Reanudar
+              </Button>
+              <Button
+                onClick={handleAbandon}
+                variant="ghost"
+                size="sm"
+                loading={isAbandoning}
+                icon={<LogOut size={16} />}
+              >
+                Abandonar
+              </Button>
+            </div>
+          </div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+}
+
+export default ResumeGameBanner;
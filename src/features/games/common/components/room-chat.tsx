@@ -0,0 +1,201 @@
+'use client';
+
+import { useState, useEffect, useRef } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { MessageCircle, Send, X, Bell, BellOff } from 'lucide-react';
+import { cn } from '@/lib/utils/cn';
+import type { RoomChatReturn } from '../hooks';
+import { QUICK_EMOTES, CHAT_MAX_LENGTH } from '../constants';
+
+// How long an incoming emote floats over the chat button
+const EMOTE_BUBBLE_MS = 2500;
+
+interface RoomChatProps {
+  chat: RoomChatReturn;
+  opponentName: string;
+  className?: string;
+}
+
+export function RoomChat({ chat, opponentName, className }: RoomChatProps) {
+  const { messages, isMuted, error, sendText, sendEmote, toggleMute } = chat;
+  const [isOpen, setIsOpen] = useState(false);
+  const [input, setInput] = useState('');
+  const [seenUpToId, setSeenUpToId] = useState<string | null>(null);
+  const [emoteBubble, setEmoteBubble] = useState<string | null>(null);
+  const listRef = useRef<HTMLDivElement>(null);
+
+  const lastMessage = messages[messages.length - 1];
+
+  // Unread = opponent messages after the last one seen with the panel open
+  const seenIndex = seenUpToId ? messages.findIndex((m) => m.id === seenUpToId) : -1;
+  const unreadCount = isOpen
+    ? 0
+    : messages.slice(seenIndex + 1).filter((m) => !m.isMine).length;
+
+  // Keep the latest message in view
+  useEffect(() => {
+    if (isOpen && listRef.current) {
+      listRef.current.scrollTop = listRef.current.scrollHeight;
+    }
+  }, [isOpen, lastMessage?.id]);
+
+  // Show incoming emotes even with the panel closed
+  useEffect(() => {
+    if (!lastMessage || lastMessage.isMine || lastMessage.kind !== 'emote' || isOpen) return;
+
+    setEmoteBubble(lastMessage.content);
+    const timeoutId = setTimeout(() => setEmoteBubble(null), EMOTE_BUBBLE_MS);
+    return () => clearTimeout(timeoutId);
+    // eslint-disable-next-line react-hooks/exhaustive-deps -- only react to new messages
+  }, [lastMessage?.id]);
+
+  const handleToggleOpen = () => {
+    setIsOpen((open) => !open);
+    setSeenUpToId(lastMessage?.id ?? null);
+    setEmoteBubble(null);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (await sendText(input)) {
+      setInput('');
+    }
+  };
+
+  return (
+    <div className={cn('fixed bottom-4 right-4 z-60 flex flex-col items-end gap-2', className)}>
+      <AnimatePresence>
+        {isOpen && (
+          <motion.div
+            initial={{ opacity: 0, y: 20, scale: 0.95 }}
+            animate={{ opacity: 1, y: 0, scale: 1 }}
+            exit={{ opacity: 0, y: 20, scale: 0.95 }}
+            className="w-72 sm:w-80 rounded-2xl bg-(--color-surface) border border-(--color-border) shadow-lg overflow-hidden"
+          >
+            {/* Header */}
+            <div className="flex items-center justify-between px-3 py-2 border-b border-(--color-border)">
+              <span className="text-sm font-semibold text-(--color-text)">Chat con {opponentName}</span>
+              <div className="flex items-center gap-1">
+                <button
+                  onClick={toggleMute}
+                  className="p-1.5 rounded-md text-(--color-text-muted) hover:text-(--color-text) hover:bg-(--color-surface-hover)"
+                  aria-label={isMuted ? 'Activar chat del oponente' : 'Silenciar chat del oponente'}
+                  aria-pressed={isMuted}
+                >
+                  {isMuted ? <BellOff size={16} /> : <Bell size={16} />}
+                </button>
+                <button
+                  onClick={handleToggleOpen}
+                  className="p-1.5 rounded-md text-(--color-text-muted) hover:text-(--color-text) hover:bg-(--color-surface-hover)"
+                  aria-label="Cerrar chat"
+                >
+                  <X size={16} />
+                </button>
+              </div>
+            </div>
+
+            {/* Messages */}
+            <div ref={listRef} className="h-48 overflow-y-auto px-3 py-2 space-y-1.5" aria-live="polite">
+              {messages.length === 0 ? (
+                <p className="text-xs text-(--color-text-subtle) text-center py-6">
+                  {isMuted ? 'El chat del oponente está silenciado' : 'Saluda a tu oponente'}
+                </p>
+              ) : (
+                messages.map((message) => (
+                  <div key={message.id} className={cn('flex', message.isMine ? 'justify-end' : 'justify-start')}>
+                    <span
+                      className={cn(
+                        'max-w-[85%] break-words rounded-xl px-2.5 py-1',
+                        message.kind === 'emote' ? 'text-2xl' : 'text-sm',
+                        message.kind === 'text' && (message.isMine
+                          ? 'bg-(--color-primary) text-(--color-primary-foreground,#000)'
+                          : 'bg-(--color-background) text-(--color-text)')
+                      )}
+                    >
+                      {message.content}
+                    </span>
+                  </div>
+                ))
+              )}
+            </div>
+
+            {/* Quick emotes */}
+            <div className="flex justify-between px-2 py-1.5 border-t border-(--color-border)">
+              {QUICK_EMOTES.map((emote) => (
+                <button
+                  key={emote}
+                  onClick={() => sendEmote(emote)}
+                  className="text-xl p-1 rounded-md hover:bg-(--color-surface-hover) hover:scale-110 transition-transform"
+                  aria-label={`Enviar ${emote}`}
+                >
+                  {emote}
+                </button>
+              ))}
+            </div>
+
+            {/* Free text */}
+            <form onSubmit={handleSubmit} className="flex items-center gap-2 px-2 pb-2">
+              <input
+                type="text"
+                value={input}
+                onChange={(e) => setInput(e.target.value)}
+                maxLength={CHAT_MAX_LENGTH}
+                placeholder="Escribe un mensaje..."
+                aria-label="Mensaje"
+                className={cn(
+                  'flex-1 min-w-0 px-3 py-2 rounded-lg text-sm',
+                  'bg-(--color-background) border border-(--color-border)',
+                  'focus-visible:outline-none focus-visible:border-(--color-primary)'
+                )}
+              />
+              <button
+                type="submit"
+                disabled={!input.trim()}
+                className="p-2 rounded-lg bg-(--color-primary) text-(--color-primary-foreground,#000) disabled:opacity-50"
+                aria-label="Enviar mensaje"
+              >
+                <Send size={16} />
+              </button>
+            </form>
+            {error && (
+              <p className="px-3 pb-2 text-xs text-(--color-error)" role="alert">{error}</p>
+            )}
+          </motion.div>
+        )}
+      </AnimatePresence>
+
+      <div className="relative">
+        {/* Incoming emote */}
+        <AnimatePresence>
+          {emoteBubble && (
+            <motion.span
+              initial={{ opacity: 0, y: 10, scale: 0.5 }}
+              animate={{ opacity: 1, y: 0, scale: 1 }}
+              exit={{ opacity: 0, y: -10 }}
+              className="absolute -top-12 right-0 text-3xl"
+              aria-hidden
+            >
+              {emoteBubble}
+            </motion.span>
+          )}
+        </AnimatePresence>
+
+        <button
+          onClick={handleToggleOpen}
+          className="relative w-12 h-12 rounded-full bg-(--color-surface) border border-(--color-border) shadow-lg flex items-center justify-center text-(--color-text) hover:border-(--color-primary)"
+          aria-label={isOpen ? 'Cerrar chat' : 'Abrir chat'}
+          aria-expanded={isOpen}
+        >
+          <MessageCircle size={22} />
+          {unreadCount > 0 && (
+            <span className="absolute -top-1 -right-1 min-w-5 h-5 px-1 rounded-full bg-(--color-error) text-white text-xs font-bold flex items-center justify-center">
+              {unreadCount}
+            </span>
+          )}
+        </button>
+      </div>
+    </div>
+  );
+}
+
+export default RoomChat;
@@ -0,0 +1,128 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { QRCodeSVG } from 'qrcode.react';
+import { Copy, Check, Clock, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { gameLogger } from '@/lib/utils/logger';
+
+interface RoomInviteProps {
+  gameSlug: string;
+  roomId: string | null;
+  /** Short code assigned by the server (null until the room exists) */
+  inviteCode: string | null;
+  /** ISO timestamp when the code stops working */
+  inviteExpiresAt: string | null;
+}
+
+function secondsUntil(deadline: string): number {
+  return Math.max(0, Math.ceil((new Date(deadline).getTime() - Date.now()) / 1000));
+}
+
+/**
+ * Invite section of a private room's waiting screen: code, QR and copyable link
+ */
+export function RoomInvite({ gameSlug, roomId, inviteCode, inviteExpiresAt }: RoomInviteProps) {
+  const [copied, setCopied] = useState(false);
+  const [inviteLink, setInviteLink] = useState<string | null>(null);
+  const [timeLeft, setTimeLeft] = useState<number | null>(null);
+
+  // The link needs window.location, so it's built after mount
+  useEffect(() => {
+    if (!roomId) {
+      setInviteLink(null); // eslint-disable-line react-hooks/set-state-in-effect -- reset link
+      return;
+    }
+
+    // Rooms created before invite codes keep the old ?room= link
+    setInviteLink(inviteCode
+      ? `${window.location.origin}/games/${gameSlug}/join/${inviteCode}`
+      : `${window.location.origin}/games/${gameSlug}?room=${roomId}`);
+  }, [gameSlug, roomId, inviteCode]);
+
+  useEffect(() => {
+    if (!inviteExpiresAt) {
+      setTimeLeft(null); // eslint-disable-line react-hooks/set-state-in-effect -- reset timer state
+      return;
+    }
+
+    const updateTimer = () => setTimeLeft(secondsUntil(inviteExpiresAt));
+
+    updateTimer();
+    const interval = setInterval(updateTimer, 1000);
+
+    return () => clearInterval(interval);
+  }, [inviteExpiresAt]);
+
+  const copyInviteLink = async () => {
+    if (!inviteLink) return;
+
+    try {
+      await navigator.clipboard.writeText(inviteLink);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (err) {
+      gameLogger.error('Failed to copy link:', err);
+    }
+  };
+
+  if (!inviteLink) {
+    return (
+      <div className="flex items-center gap-2 text-(--color-text-muted)">
+        <Loader2 className="animate-spin" size={16} />
+        <span className="text-sm">Creando sala...</span>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col items-center gap-4">
+      {/* White background keeps the code readable for phone cameras in dark mode */}
+      <div className="p-3 rounded-xl bg-white">
+        <QRCodeSVG value={inviteLink} size={160} level="M" aria-label="Código QR de la invitación" />
+      </div>
+
+      {inviteCode && (
+        <div className="flex flex-col items-center gap-1">
+          <span className="text-xs text-(--color-text-muted)">Código de sala</span>
+          <span className="font-mono text-2xl font-bold tracking-[0.3em] text-(--color-text)">
+            {inviteCode}
+          </span>
+          {timeLeft !== null && (
+            <span className="inline-flex items-center gap-1 text-xs text-(--color-text-muted) tabular-nums" role="timer">
+              <Clock size={12} />
+              {timeLeft > 0
+                ? `Vence en ${Math.floor(timeLeft / 60)}:${String(timeLeft % 60).padStart(2, '0')}`
+                : 'Invitación vencida'}
+            </span>
+          )}
+        </div>
+      )}
+
+      <Button
+        onClick={copyInviteLink}
+        variant="outline"
+        size="lg"
+        className="gap-2"
+      >
+        {copied ? (
+          <>
+            <Check size={18} />
+            ¡Link copiado!
+          </>
+        ) : (
+          <>
+            <Copy size={18} />
+            Copiar link de invitación
+          </>
+        )}
+      </Button>
+
+      <p className="text-sm text-(--color-text-muted) text-center max-w-xs">
+        Comparte el link o escanea el QR desde el celular para unirse a la partida.
+      </p>
+    </div>
+  );
+}
+
+export default RoomInvite;
@@ -0,0 +1,154 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { motion } from 'framer-motion';
+import { Loader2, RefreshCw, Coins, LogIn } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { cn } from '@/lib/utils/cn';
+import { formatBalance } from '@/features/wallet/store/wallet-store';
+import { useRoomLobby } from '../hooks';
+import type { GameRoomMetadata, GameRoomWithPlayers } from '../services/game-room-service';
+import { LOBBY_BET_FILTERS, type LobbyBetFilter } from '../constants';
+
+// How often the "hace X" labels are refreshed
+const AGE_TICK_MS = 10000;
+
+interface RoomLobbyProps {
+  gameType: string;
+  userId: string;
+  balance: number;
+  onJoinRoom: (roomId: string) => void;
+  className?: string;
+}
+
+// Bet the host proposed when creating the room (0 = no bet)
+function hostBet(room: GameRoomWithPlayers): number {
+  return Number((room.metadata as GameRoomMetadata | null)?.player1_bet_proposal ?? 0);
+}
+
+function formatAge(createdAt: string, now: number): string {
+  const seconds = Math.max(0, Math.floor((now - new Date(createdAt).getTime()) / 1000));
+  if (seconds < 60) return `hace ${seconds} s`;
+  return `hace ${Math.floor(seconds / 60)} min`;
+}
+
+/**
+ * Public rooms waiting for an opponent, so players can pick one instead of auto-matching
+ */
+export function RoomLobby({ gameType, userId, balance, onJoinRoom, className }: RoomLobbyProps) {
+  const { rooms, isLoading, refresh } = useRoomLobby({ gameType });
+  const [betFilter, setBetFilter] = useState<LobbyBetFilter>('all');
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), AGE_TICK_MS);
+    return () => clearInterval(interval);
+  }, []);
+
+  const filter = LOBBY_BET_FILTERS.find(option => option.id === betFilter) ?? LOBBY_BET_FILTERS[0];
+  const visibleRooms = rooms.filter(room => {
+    if (room.player1_id === userId) return false;
+    const bet = hostBet(room);
+    return bet >= filter.min && (filter.max === null || bet <= filter.max);
+  });
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, height: 0 }}
+      animate={{ opacity: 1, height: 'auto' }}
+      exit={{ opacity: 0, height: 0 }}
+      className={cn('overflow-hidden', className)}
+    >
+      <div className="p-3 rounded-xl border border-(--color-border) bg-(--color-surface) space-y-3">
+        <div className="flex items-center justify-between">
+          <span className="text-xs font-semibold text-(--color-text-muted) uppercase tracking-wider">
+            Salas abiertas ({visibleRooms.length})
+          </span>
+          <Button
+            onClick={refresh}
+            variant="ghost"
+            size="icon"
+            className="h-7 w-7"
+            aria-label="Actualizar salas"
+          >
+            <RefreshCw size={14} />
+          </Button>
+        </div>
+
+        {/* Bet range filter */}
+        <div className="flex flex-wrap gap-1.5" role="radiogroup" aria-label="Filtrar por apuesta">
+          {LOBBY_BET_FILTERS.map(option => (
+            <button
+              key={option.id}
+              role="radio"
+              aria-checked={betFilter === option.id}
+              onClick={() => setBetFilter(option.id)}
+              className={cn(
+                'px-2.5 py-1 rounded-full text-[11px] font-medium transition-colors',
+                'focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-(--color-primary)',
+                betFilter === option.id
+                  ? 'bg-(--color-primary) text-white'
+                  : 'bg-(--color-background) text-(--color-text-muted) hover:text-(--color-text)'
+              )}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+
+        <div className="max-h-64 overflow-y-auto space-y-1.5">
+          {isLoading ? (
+            <div className="flex justify-center py-4">
+              <Loader2 className="animate-spin text-(--color-primary)" size={20} />
+            </div>
+          ) : visibleRooms.length === 0 ? (
+            <p className="text-xs text-(--color-text-muted) text-center py-4">
+              No hay salas esperando rival. Crea una con &quot;Online&quot;.
+            </p>
+          ) : (
+            visibleRooms.map(room => {
+              const bet = hostBet(room);
+              const canAfford = bet <= balance;
+              return (
+                <div
+                  key={room.id}
+                  className="flex items-center gap-2 p-2 rounded-lg bg-(--color-background)"
+                >
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-medium text-(--color-text) truncate">
+                      {room.player1?.username || 'Jugador'}
+                    </p>
+                    <p className="text-[11px] text-(--color-text-muted)">
+                      {formatAge(room.created_at, now)}
+                    </p>
+                  </div>
+                  {bet > 0 ? (
+                    <span className="flex items-center gap-1 text-xs font-medium text-(--color-warning)">
+                      <Coins size={12} />
+                      {formatBalance(bet)}
+                    </span>
+                  ) : (
+                    <span className="text-xs text-(--color-text-muted)">Sin apuesta</span>
+                  )}
+                  <Button
+                    onClick={() => onJoinRoom(room.id)}
+                    variant="primary"
+                    size="sm"
+                    className="h-8 px-3 gap-1.5 text-xs"
+                    disabled={!canAfford}
+                    title={canAfford ? undefined : 'Balance insuficiente'}
+                  >
+                    <LogIn size={14} />
+                    Unirse
+                  </Button>
+                </div>
+              );
+            })
+          )}
+        </div>
+      </div>
+    </motion.div>
+  );
+}
+
+export default RoomLobby;
@@ -0,0 +1,67 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Clock } from 'lucide-react';
+import { cn } from '@/lib/utils/cn';
+
+// Below this the countdown turns red
+const LOW_TIME_SECONDS = 10;
+
+interface TurnCountdownProps {
+  /** ISO timestamp when the current turn expires */
+  deadline: string | null;
+  isMyTurn: boolean;
+  className?: string;
+}
+
+function secondsUntil(deadline: string): number {
+  return Math.max(0, Math.ceil((new Date(deadline).getTime() - Date.now()) / 1000));
+}
+
+function formatSeconds(seconds: number): string {
+  if (seconds < 60) return `${seconds}s`;
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+}
+
+export function TurnCountdown({ deadline, isMyTurn, className }: TurnCountdownProps) {
+  const [timeLeft, setTimeLeft] = useState<number | null>(null);
+
+  // Calculate time remaining
+  useEffect(() => {
+    if (!deadline) {
+      setTimeLeft(null); // eslint-disable-line react-hooks/set-state-in-effect -- reset timer state
+      return;
+    }
+
+    const updateTimer = () => setTimeLeft(secondsUntil(deadline));
+
+    updateTimer();
+    const interval = setInterval(updateTimer, 1000);
+
+    return () => clearInterval(interval);
+  }, [deadline]);
+
+  if (timeLeft === null) return null;
+
+  const isLow = timeLeft <= LOW_TIME_SECONDS;
+
+  return (
+    <div
+      className={cn(
+        'inline-flex items-center gap-1.5 px-2.5 py-1 rounded-full text-sm font-medium tabular-nums',
+        isLow
+          ? 'bg-(--color-error)/20 text-(--color-error)'
+          : 'bg-(--color-surface) text-(--color-text-muted)',
+        isLow && isMyTurn && 'animate-pulse',
+        className
+      )}
+      role="timer"
+      aria-label={isMyTurn ? 'Tiempo restante de tu turno' : 'Tiempo restante del oponente'}
+    >
+      <Clock size={14} />
+      <span>{formatSeconds(timeLeft)}</span>
+    </div>
+  );
+}
+
+export default TurnCountdown;
@@ -2,7 +2,49 @@
  * Shared constants for game features
  */
 
+import type { FinishReason } from './services/game-room-service';
+
+// How long a private room waits for an opponent; invite codes expire with it
+// (the server uses the same 2 minutes, see 023_room_invite_codes.sql)
+export const WAITING_TIMEOUT_MS = 120000;
+
 // Bet presets available for selection
 export const BET_PRESETS = [10, 25, 50, 100, 250, 500] as const;
 
 export type BetPreset = (typeof BET_PRESETS)[number];
+
+// Bet limits (the server enforces the same max, e.g. plinko_drop)
+export const BET_CONFIG = {
+  MIN_BET: 10,
+  MAX_BET: 1000,
+  PRESETS: BET_PRESETS,
+} as const;
+
+// Result subtitle when an online game isn't decided on the board
+export const FINISH_REASON_LABELS: Record<FinishReason, { win: string; loss: string }> = {
+  timeout: { win: 'Tu oponente se quedó sin tiempo', loss: 'Se acabó tu tiempo' },
+  disconnect: { win: 'Tu oponente se desconectó', loss: 'Perdiste por desconexión' },
+};
+
+// Quick emotes available in the room chat
+export const QUICK_EMOTES = ['👋', '👍', '😂', '😮', '😢', '😡', '🔥', '🤝'] as const;
+
+export type QuickEmote = (typeof QUICK_EMOTES)[number];
+
+// Room chat limits (checked on send and on receive)
+export const CHAT_MAX_LENGTH = 140;
+export const CHAT_RATE_LIMIT = {
+  maxMessages: 5,
+  windowMs: 10000,
+} as const;
+
+// Bet filters for the open rooms lobby (max null = no upper limit)
+export const LOBBY_BET_FILTERS = [
+  { id: 'all', label: 'Todas', min: 0, max: null },
+  { id: 'free', label: 'Sin apuesta', min: 0, max: 0 },
+  { id: 'low', label: '1-50', min: 1, max: 50 },
+  { id: 'mid', label: '51-250', min: 51, max: 250 },
+  { id: 'high', label: '251+', min: 251, max: null },
+] as const;
+
+export type LobbyBetFilter = (typeof LOBBY_BET_FILTERS)[number]['id'];
@@ -7,4 +7,26 @@ export {
   type NegotiationState,
   type NegotiationInfo,
   type BetConfig,
+  type FinishReason,
+  type RatingChange,
 } from './use-online-game-core';
+export {
+  useSpectatorRoom,
+  type SpectatorRoomOptions,
+  type SpectatorRoomReturn,
+} from './use-spectator-room';
+export {
+  useRoomChat,
+  type RoomChatOptions,
+  type RoomChatReturn,
+  type ChatEntry,
+} from './use-room-chat';
+export {
+  useRoomLobby,
+  type RoomLobbyOptions,
+  type RoomLobbyReturn,
+} from './use-room-lobby';
+export {
+  useRoomNotifications,
+  type RoomNotificationsOptions,
+} from './use-room-notifications';
@@ -1,21 +1,27 @@
 'use client';
 
 import { useState, useCallback, useRef, useEffect } from 'react';
-import { gameRoomService, type GameRoom, type GameRoomWithPlayers, type ConnectionStatus, type NegotiationState, type BetConfig, type GameRoomMetadata } from '../services/game-room-service';
+import { gameRoomService, type GameRoom, type GameRoomWithPlayers, type ConnectionStatus, type NegotiationState, type BetConfig, type GameRoomMetadata, type FinishReason, type RatingChange } from '../services/game-room-service';
+import { useRoomChat, type RoomChatReturn } from './use-room-chat';
+import { useRoomNotifications } from './use-room-notifications';
 import { useWalletStore } from '@/features/wallet/store/wallet-store';
+import { usePresenceStore } from '@/features/friends/store/presence-store';
 import { createLogger } from '@/lib/utils/logger';
+import { WAITING_TIMEOUT_MS } from '../constants';
 
 const log = createLogger({ prefix: 'OnlineGameCore' });
 
 // Timeout constants for search states
 const SEARCH_TIMEOUT_MS = 60000;      // 60s for searching
-const WAITING_TIMEOUT_MS = 120000;    // 2min for waiting (private rooms)
 const NEGOTIATION_TIMEOUT_MS = 35000; // 35s for negotiating
+const TURN_TIMEOUT_BUFFER_MS = 1000;  // Wait past the turn deadline before asking the server
+const PRESENCE_LOST_DELAY_MS = 5000;  // Ignore presence flickers before reporting a disconnect
+const RANKED_RETRY_INTERVAL_MS = 10000; // Re-check the widening rating window while waiting
 const MAX_POLL_FAILURES = 5;          // Circuit breaker for polling
 
 export type OnlineGameStatus = 'idle' | 'searching' | 'waiting' | 'negotiating' | 'playing' | 'finished';
 
-export type { NegotiationState, BetConfig };
+export type { NegotiationState, BetConfig, FinishReason, RatingChange };
 export type RematchStatus = 'none' | 'requested' | 'received' | 'accepted';
 
 export interface OnlineGameCoreOptions {
@@ -44,14 +50,33 @@ export interface OnlineGameCoreReturn {
   potTotal: number;
   isPrivateRoom: boolean;
   negotiation: NegotiationInfo;
+  /** When the current turn expires (ISO timestamp, null = no clock) */
+  turnDeadline: string | null;
+  /** Why the game ended when it wasn't decided on the board */
+  finishReason: FinishReason | null;
+  /** My rating change once a public game finishes (null = unrated or not finished) */
+  ratingChange: RatingChange | null;
+  /** Whether the opponent has the room open (presence on the realtime channel) */
+  isOpponentOnline: boolean;
+  /** When the disconnected opponent forfeits (ISO timestamp, null = connected) */
+  opponentDisconnectDeadline: string | null;
+  /** In-progress room found on load that can be resumed */
+  activeRoom: GameRoomWithPlayers | null;
+  /** Chat and quick emotes with the opponent */
+  chat: RoomChatReturn;
 
   // Actions - Matchmaking
   findMatch: () => Promise<void>;
   createPrivateRoom: () => Promise<void>;
   joinRoom: (roomId: string) => Promise<void>;
+  joinLobbyRoom: (roomId: string) => Promise<void>;
   findMatchWithBet: (amount: number) => Promise<boolean>;
   createPrivateRoomWithBet: (amount: number) => Promise<boolean>;
 
+  // Actions - Resume
+  resumeGame: () => Promise<void>;
+  abandonActiveRoom: () => Promise<void>;
+
   // Actions - Game
   leaveGame: () => Promise<void>;
   updateRoom: (updates: Partial<GameRoom>) => Promise<boolean>;
@@ -97,6 +122,9 @@ export function useOnlineGameCore({
     opponentProposal: null,
     deadline: null,
   });
+  // null = presence not synced yet
+  const [onlineUserIds, setOnlineUserIds] = useState<string[] | null>(null);
+  const [activeRoom, setActiveRoom] = useState<GameRoomWithPlayers | null>(null);
 
   const unsubscribeRef = useRef<(() => void) | null>(null);
   const statusRef = useRef(status);
@@ -105,11 +133,11 @@ export function useOnlineGameCore({
   userIdRef.current = userId;
   const rematchStatusRef = useRef(rematchStatus);
   rematchStatusRef.current = rematchStatus;
-  const betAmountRef = useRef(betAmount);
-  betAmountRef.current = betAmount;
-  const betDeductedForRoomRef = useRef<string | null>(null); // Track which room we've deducted bet for
+  const escrowSyncedForRoomRef = useRef<string | null>(null); // Track which room's escrow lock we've synced
+  const settledForRoomRef = useRef<string | null>(null); // Track which room's payout we've synced
   const pollFailureCountRef = useRef(0); // Circuit breaker for polling
   const isCleaningUpRef = useRef(false); // Guard against multiple cleanup calls
+  const activeRoomCheckedForRef = useRef<string | null>(null); // Track which user we looked up an active room for
   const onRoomUpdateRef = useRef(onRoomUpdate);
   onRoomUpdateRef.current = onRoomUpdate;
   const onGameFinishedRef = useRef(onGameFinished);
@@ -142,6 +170,7 @@ export function useOnlineGameCore({
       log.error('Error during cleanup:', err);
     } finally {
       setConnectionStatus('disconnected');
+      setOnlineUserIds(null);
       isCleaningUpRef.current = false;
     }
   }, []);
@@ -152,12 +181,37 @@ export function useOnlineGameCore({
     setConnectionStatus(newStatus);
   }, []);
 
+  // Presence handler (who has the room open right now)
+  const handlePresenceChange = useCallback((userIds: string[]) => {
+    setOnlineUserIds(userIds);
+  }, []);
+
   // Subscription error handler
   const handleSubscriptionError = useCallback((err: Error) => {
     log.error('Subscription error:', err);
     setError('Error de conexion. Reconectando...');
   }, []);
 
+  // Confirm the escrow lock (idempotent RPC) and refresh balance once per room
+  const syncEscrowLock = useCallback((roomId: string) => {
+    if (escrowSyncedForRoomRef.current === roomId) return;
+    escrowSyncedForRoomRef.current = roomId;
+
+    gameRoomService.lockRoomStakes(roomId)
+      .then(() => useWalletStore.getState().refreshWallet())
+      .catch(err => log.error('Error syncing bet escrow:', err));
+  }, []);
+
+  // Confirm the pot settlement (idempotent RPC) and refresh balance once per room
+  const syncEscrowSettlement = useCallback((roomId: string) => {
+    if (settledForRoomRef.current === roomId) return;
+    settledForRoomRef.current = roomId;
+
+    gameRoomService.settleRoomPot(roomId)
+      .then(() => useWalletStore.getState().refreshWallet())
+      .catch(err => log.error('Error syncing bet settlement:', err));
+  }, []);
+
   // Room update handler
   const handleRoomUpdate = useCallback((updatedRoom: GameRoom) => {
     log.log('Room update:', updatedRoom.status, 'current status:', statusRef.current);
@@ -188,31 +242,10 @@ export function useOnlineGameCore({
         deadline: metadata.negotiation_deadline ?? null,
       });
 
-      // Handle bet deduction when agreement is reached
+      // Stakes are locked server-side when agreement is reached; just sync the balance
       if (negotiationState === 'agreed' && metadata.bet_amount && metadata.bet_amount > 0) {
-        const roomId = updatedRoom.id;
-        // Only deduct if we haven't already deducted for this room
-        if (betDeductedForRoomRef.current !== roomId) {
-          const walletStore = useWalletStore.getState();
-          const balance = walletStore.wallet?.balance ?? 0;
-
-          if (metadata.bet_amount <= balance) {
-            log.log('Agreement detected - deducting bet:', metadata.bet_amount);
-            walletStore.placeBet(metadata.bet_amount, gameType, 'Apuesta acordada').then(success => {
-              if (success) {
-                betDeductedForRoomRef.current = roomId;
-                setBetAmount(metadata.bet_amount!);
-              } else {
-                log.error('Failed to deduct bet after agreement');
-              }
-            });
-          } else {
-            log.error('Insufficient balance for agreed bet');
-          }
-        } else {
-          // Already deducted, just update the display amount
-          setBetAmount(metadata.bet_amount);
-        }
+        setBetAmount(metadata.bet_amount);
+        syncEscrowLock(updatedRoom.id);
       }
 
       // Handle negotiation status
@@ -235,26 +268,10 @@ export function useOnlineGameCore({
     }
 
     if (updatedRoom.status === 'finished') {
-      // Process bet results
-      const roomBetAmount = (updatedRoom.metadata as { bet_amount?: number } | null)?.bet_amount;
+      // Pot is released server-side; make sure it ran and refresh our balance
+      const roomBetAmount = (updatedRoom.metadata as GameRoomMetadata | null)?.bet_amount;
       if (roomBetAmount && roomBetAmount > 0) {
-        const walletStore = useWalletStore.getState();
-        const myId = userIdRef.current;
-
-        (async () => {
-          try {
-            if (updatedRoom.is_draw) {
-              log.log('Draw with bet - refunding:', roomBetAmount);
-              await walletStore.recordWin(roomBetAmount, gameType, 'Reembolso por empate');
-            } else if (updatedRoom.winner_id === myId) {
-              const winnings = roomBetAmount * 2;
-              log.log('Won with bet - receiving:', winnings);
-              await walletStore.recordWin(winnings, gameType, 'Victoria en partida con apuesta');
-            }
-          } catch (err) {
-            log.error('Error processing bet result:', err);
-          }
-        })();
+        syncEscrowSettlement(updatedRoom.id);
       }
 
       // Handle rematch detection
@@ -275,7 +292,7 @@ export function useOnlineGameCore({
       // Notify game finished
       onGameFinishedRef.current?.(updatedRoom);
     }
-  }, [gameType, setStatus]);
+  }, [setStatus, syncEscrowLock, syncEscrowSettlement]);
 
   // Handle rematch room transition
   const handleRematchAccepted = useCallback(async (newRoomId: string) => {
@@ -297,9 +314,10 @@ export function useOnlineGameCore({
       roomId,
       handleRoomUpdate,
       handleSubscriptionError,
-      handleConnectionStatus
+      handleConnectionStatus,
+      { userId: userIdRef.current, onPresenceChange: handlePresenceChange }
     );
-  }, [handleRoomUpdate, handleSubscriptionError, handleConnectionStatus]);
+  }, [handleRoomUpdate, handleSubscriptionError, handleConnectionStatus, handlePresenceChange]);
   subscribeToRoomRef.current = subscribeToRoom;
 
   // Initialize game room helper
@@ -436,19 +454,14 @@ export function useOnlineGameCore({
       const negotiationState = metadata?.negotiation_state;
 
       if (negotiationState === 'agreed' && metadata?.bet_amount) {
-        // Both players agreed on same amount - deduct bet now
-        const betSuccess = await walletStore.placeBet(metadata.bet_amount, gameType, 'Apuesta acordada');
-        if (!betSuccess) {
-          // Can't afford - skip betting
-          await gameRoomService.skipBetting(newRoom.id, userId);
-        } else {
-          setBetAmount(metadata.bet_amount);
-        }
+        // Both players agreed on same amount - stakes already locked in escrow
+        setBetAmount(metadata.bet_amount);
+        syncEscrowLock(newRoom.id);
       } else if (negotiationState === 'pending') {
-        // Need to negotiate - don't deduct yet
+        // Need to negotiate - nothing locked yet
         log.log('Entering negotiation phase');
       }
-      // For 'none' or 'no_bet', no bet to deduct
+      // For 'none' or 'no_bet', there is no escrow
 
       await initializeGameRoom(newRoom);
       return true;
@@ -458,7 +471,7 @@ export function useOnlineGameCore({
       setStatus('idle');
       return false;
     }
-  }, [userId, gameType, initializeGameRoom, cleanupSubscription, setStatus]);
+  }, [userId, gameType, initializeGameRoom, cleanupSubscription, setStatus, syncEscrowLock]);
 
   // Create private room with bet (new negotiation system)
   // Bet is NOT deducted until negotiation completes with the joiner
@@ -543,23 +556,101 @@ export function useOnlineGameCore({
     }
   }, [userId, initializeGameRoom, cleanupSubscription, setStatus]);
 
-  // Leave game with retry logic
-  const leaveGame = useCallback(async () => {
-    const currentBetAmount = betAmountRef.current;
-    const currentStatus = statusRef.current;
-    const currentRoom = room;
+  // Join a public room picked from the lobby (accepts the host's bet, if any)
+  const joinLobbyRoom = useCallback(async (roomId: string) => {
+    if (!userId) {
+      log.error('joinLobbyRoom called without userId');
+      setError('Usuario no autenticado');
+      setStatus('idle');
+      return;
+    }
 
-    // Refund bet if leaving before game started
-    if (currentBetAmount && currentBetAmount > 0 && (currentStatus === 'searching' || currentStatus === 'waiting')) {
-      log.log('Refunding bet on leave:', currentBetAmount);
-      const walletStore = useWalletStore.getState();
-      try {
-        await walletStore.recordWin(currentBetAmount, gameType, 'Reembolso por cancelar busqueda');
-      } catch (err) {
-        log.error('Error refunding bet:', err);
+    setError(null);
+    setStatus('searching');
+    cleanupSubscription();
+
+    try {
+      log.log('Joining lobby room:', roomId, 'for user:', userId);
+      const { room: newRoom, error: joinError } = await gameRoomService.joinLobbyRoom(roomId);
+
+      if (joinError || !newRoom) {
+        setError(joinError || 'Error al unirse a la sala');
+        setStatus('idle');
+        return;
       }
+
+      const metadata = newRoom.metadata as GameRoomMetadata | null;
+      if (metadata?.negotiation_state === 'agreed' && metadata.bet_amount) {
+        // Stakes were locked in escrow when joining
+        setBetAmount(metadata.bet_amount);
+        syncEscrowLock(newRoom.id);
+      }
+
+      await initializeGameRoom(newRoom);
+    } catch (err) {
+      log.error('Error joining lobby room:', err);
+      setError('No se pudo unir a la sala');
+      setStatus('idle');
+    }
+  }, [userId, initializeGameRoom, cleanupSubscription, setStatus, syncEscrowLock]);
+
+  // Resume the in-progress room found on load (after a refresh or a closed tab)
+  const resumeGame = useCallback(async () => {
+    if (!activeRoom) {
+      log.error('resumeGame: no active room');
+      return;
     }
 
+    setError(null);
+    cleanupSubscription();
+
+    try {
+      // The stored room may be stale; the game could have ended while we were away
+      const freshRoom = await gameRoomService.getRoom(activeRoom.id);
+      setActiveRoom(null);
+
+      if (!freshRoom || freshRoom.status !== 'playing') {
+        setError('La partida ya terminó');
+        setStatus('idle');
+        return;
+      }
+
+      log.log('Resuming room:', freshRoom.id);
+      setRoom(freshRoom);
+      // Restores the board (game hooks), negotiation and bet amount from the room
+      handleRoomUpdate(freshRoom);
+      if ((freshRoom.metadata as GameRoomMetadata | null)?.negotiation_state !== 'pending') {
+        setStatus('playing');
+      }
+      subscribeToRoom(freshRoom.id);
+    } catch (err) {
+      log.error('Error resuming game:', err);
+      setError('No se pudo reanudar la partida');
+      setStatus('idle');
+    }
+  }, [activeRoom, cleanupSubscription, handleRoomUpdate, setStatus, subscribeToRoom]);
+
+  // Give up the in-progress room found on load (the opponent wins)
+  const abandonActiveRoom = useCallback(async () => {
+    if (!activeRoom) return;
+
+    const roomId = activeRoom.id;
+    setActiveRoom(null);
+
+    try {
+      await gameRoomService.forfeitRoom(roomId);
+      await useWalletStore.getState().refreshWallet();
+    } catch (err) {
+      log.error('Error abandoning active room:', err);
+    }
+  }, [activeRoom]);
+
+  // Leave game with retry logic
+  const leaveGame = useCallback(async () => {
+    // Stakes are only locked once the game starts, so there is nothing to refund here.
+    // Leaving a game in progress forfeits it and the server releases the pot.
+    const currentRoom = room;
+
     // Always cleanup subscription first (this always works locally)
     cleanupSubscription();
 
@@ -590,9 +681,11 @@ export function useOnlineGameCore({
     setError(null);
     setRematchStatus('none');
     setBetAmount(null);
-    betDeductedForRoomRef.current = null; // Reset bet tracking
+    setActiveRoom(null);
+    escrowSyncedForRoomRef.current = null; // Reset bet tracking
+    settledForRoomRef.current = null;
     pollFailureCountRef.current = 0; // Reset poll failure count
-  }, [room, userId, gameType, cleanupSubscription, setStatus]);
+  }, [room, userId, cleanupSubscription, setStatus]);
 
   // Update room (for game-specific updates)
   const updateRoom = useCallback(async (updates: Partial<GameRoom>): Promise<boolean> => {
@@ -689,24 +782,20 @@ export function useOnlineGameCore({
       if (updatedRoom) {
         const metadata = updatedRoom.metadata as GameRoomMetadata | null;
         if (metadata?.negotiation_state === 'agreed') {
-          // Deduct bet now that agreement is reached
-          const betSuccess = await walletStore.placeBet(amount, gameType, 'Apuesta acordada');
-          if (betSuccess) {
-            betDeductedForRoomRef.current = room.id; // Mark as deducted
-            setBetAmount(amount);
-            setStatus('playing');
-          } else {
-            // If bet fails, skip betting
-            await gameRoomService.skipBetting(room.id, userId);
-            setStatus('playing');
-          }
+          // Agreement reached - the server locked both stakes in escrow
+          setBetAmount(amount);
+          syncEscrowLock(room.id);
+          setStatus('playing');
+        } else if (metadata?.negotiation_state === 'no_bet') {
+          // Escrow could not lock both stakes - continue without bet
+          setStatus('playing');
         }
       }
     } catch (err) {
       log.error('Error submitting bet proposal:', err);
       setError('Error al enviar propuesta');
     }
-  }, [room, status, userId, gameType, setStatus]);
+  }, [room, status, userId, setStatus, syncEscrowLock]);
 
   // Accept opponent's bet proposal
   const acceptBetProposal = useCallback(async () => {
@@ -729,23 +818,19 @@ export function useOnlineGameCore({
       const updatedRoom = await gameRoomService.acceptBetProposal(room.id, userId);
 
       if (updatedRoom) {
-        // Deduct bet
-        const betSuccess = await walletStore.placeBet(amount, gameType, 'Apuesta aceptada');
-        if (betSuccess) {
-          betDeductedForRoomRef.current = room.id; // Mark as deducted
+        // The server locked both stakes in escrow (or fell back to no bet)
+        const metadata = updatedRoom.metadata as GameRoomMetadata | null;
+        if (metadata?.negotiation_state === 'agreed') {
           setBetAmount(amount);
-          setStatus('playing');
-        } else {
-          // If bet fails, skip betting
-          await gameRoomService.skipBetting(room.id, userId);
-          setStatus('playing');
+          syncEscrowLock(room.id);
         }
+        setStatus('playing');
       }
     } catch (err) {
       log.error('Error accepting bet proposal:', err);
       setError('Error al aceptar propuesta');
     }
-  }, [room, status, userId, gameType, negotiation.opponentProposal, setStatus]);
+  }, [room, status, userId, negotiation.opponentProposal, setStatus, syncEscrowLock]);
 
   // Skip betting and start game without bet
   const skipBetting = useCallback(async () => {
@@ -772,6 +857,43 @@ export function useOnlineGameCore({
     };
   }, [cleanupSubscription]);
 
+  // Show friends that we're in a match while it lasts
+  useEffect(() => {
+    if (status !== 'playing') return;
+    usePresenceStore.getState().setActivity({ status: 'in_game', gameType });
+    return () => usePresenceStore.getState().setActivity({ status: 'online' });
+  }, [status, gameType]);
+
+  // Match found, your turn, rematch and bet proposals for the notification center
+  useRoomNotifications({
+    gameType,
+    userId,
+    status,
+    room,
+    rematchStatus,
+    opponentProposal: negotiation.opponentProposal,
+  });
+
+  // Look for an in-progress room once per user (a refresh loses the in-memory state)
+  useEffect(() => {
+    if (!userId || status !== 'idle' || activeRoomCheckedForRef.current === userId) return;
+    activeRoomCheckedForRef.current = userId;
+
+    let cancelled = false;
+    gameRoomService.findActiveRoom(userId, gameType)
+      .then(found => {
+        if (!cancelled && found) {
+          log.log('Found active room to resume:', found.id);
+          setActiveRoom(found);
+        }
+      })
+      .catch(err => log.error('Error finding active room:', err));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [userId, gameType, status]);
+
   // Polling fallback when waiting and realtime not connected
   useEffect(() => {
     if (status !== 'waiting' || !room || connectionStatus === 'connected') return;
@@ -800,6 +922,37 @@ export function useOnlineGameCore({
     // eslint-disable-next-line react-hooks/exhaustive-deps -- room?.id is intentional to avoid restarting polling on every room update
   }, [status, room?.id, connectionStatus, setStatus]);
 
+  // Ranked queue: the acceptable rating gap widens while the room waits, so
+  // periodically ask the server to pair us with an older waiting room
+  const isOwnPublicWaitingRoom = !!room && !room.is_private && room.player1_id === userId && !room.player2_id;
+
+  useEffect(() => {
+    if (status !== 'waiting' || !room || !isOwnPublicWaitingRoom) return;
+
+    const retryInterval = setInterval(async () => {
+      try {
+        const matchedRoom = await gameRoomService.retryRankedMatch(room.id);
+        if (!matchedRoom || matchedRoom.id === room.id) return;
+
+        log.log('Moved to a room within the rating window:', matchedRoom.id, 'status:', matchedRoom.status);
+        cleanupSubscription();
+
+        const metadata = matchedRoom.metadata as GameRoomMetadata | null;
+        if (metadata?.negotiation_state === 'agreed' && metadata.bet_amount) {
+          setBetAmount(metadata.bet_amount);
+          syncEscrowLock(matchedRoom.id);
+        }
+
+        await initializeGameRoom(matchedRoom);
+      } catch (err) {
+        log.error('Error retrying ranked match:', err);
+      }
+    }, RANKED_RETRY_INTERVAL_MS);
+
+    return () => clearInterval(retryInterval);
+    // eslint-disable-next-line react-hooks/exhaustive-deps -- room?.id is intentional to avoid restarting the retry on every room update
+  }, [status, room?.id, isOwnPublicWaitingRoom, cleanupSubscription, initializeGameRoom, syncEscrowLock]);
+
   // Timeout for 'searching' state
   useEffect(() => {
     if (status !== 'searching') return;
@@ -875,6 +1028,92 @@ export function useOnlineGameCore({
     };
   }, [status, room, setStatus]);
 
+  // Turn clock: once the deadline passes, ask the server to end the game
+  // (the finished room then arrives through realtime or polling)
+  const roomMetadata = room?.metadata as GameRoomMetadata | null | undefined;
+  const turnDeadline = roomMetadata?.turn_deadline ?? null;
+  const finishReason = roomMetadata?.finish_reason ?? null;
+  const ratingChange = roomMetadata?.rating_changes?.[userId] ?? null;
+
+  useEffect(() => {
+    if (status !== 'playing' || !room || !turnDeadline) return;
+
+    const delay = Math.max(0, new Date(turnDeadline).getTime() - Date.now()) + TURN_TIMEOUT_BUFFER_MS;
+    const timeoutId = setTimeout(async () => {
+      try {
+        const updatedRoom = await gameRoomService.checkTurnTimeout(room.id);
+        if (updatedRoom?.status === 'finished') {
+          log.log('Turn timeout enforced by server');
+        }
+      } catch (err) {
+        log.error('Error checking turn timeout:', err);
+      }
+    }, delay);
+
+    return () => clearTimeout(timeoutId);
+    // eslint-disable-next-line react-hooks/exhaustive-deps -- room?.id is intentional, the deadline drives the timer
+  }, [status, room?.id, turnDeadline]);
+
+  // Disconnect grace period: presence tells us when the opponent drops,
+  // the server keeps the deadline so a refresh doesn't reset it
+  const opponentId = room
+    ? room.player1_id === userId ? room.player2_id : room.player1_id
+    : null;
+  const disconnectedPlayerId = roomMetadata?.disconnected_player_id ?? null;
+  const isOpponentOnline = !opponentId || onlineUserIds === null || onlineUserIds.includes(opponentId);
+  const opponentDisconnectDeadline = disconnectedPlayerId && disconnectedPlayerId === opponentId
+    ? roomMetadata?.disconnect_deadline ?? null
+    : null;
+
+  // Report the opponent once they've been gone for a few seconds
+  useEffect(() => {
+    if (status !== 'playing' || !room || isOpponentOnline || disconnectedPlayerId) return;
+    if (connectionStatus !== 'connected') return; // Our own connection is the problem
+
+    const timeoutId = setTimeout(async () => {
+      log.log('Opponent left the room channel, starting grace period');
+      try {
+        await gameRoomService.reportPlayerDisconnect(room.id);
+      } catch (err) {
+        log.error('Error reporting disconnect:', err);
+      }
+    }, PRESENCE_LOST_DELAY_MS);
+
+    return () => clearTimeout(timeoutId);
+    // eslint-disable-next-line react-hooks/exhaustive-deps -- room?.id is intentional to avoid restarting on every room update
+  }, [status, room?.id, isOpponentOnline, disconnectedPlayerId, connectionStatus]);
+
+  // We're back: cancel our own grace period
+  useEffect(() => {
+    if (status !== 'playing' || !room || disconnectedPlayerId !== userId) return;
+    if (connectionStatus !== 'connected') return;
+
+    log.log('Reconnected, clearing disconnect grace period');
+    gameRoomService.clearPlayerDisconnect(room.id)
+      .catch(err => log.error('Error clearing disconnect:', err));
+    // eslint-disable-next-line react-hooks/exhaustive-deps -- room?.id is intentional to avoid re-running on every room update
+  }, [status, room?.id, disconnectedPlayerId, userId, connectionStatus]);
+
+  // Once the grace period is over, ask the server to end the game
+  useEffect(() => {
+    if (status !== 'playing' || !room || !opponentDisconnectDeadline) return;
+
+    const delay = Math.max(0, new Date(opponentDisconnectDeadline).getTime() - Date.now()) + TURN_TIMEOUT_BUFFER_MS;
+    const timeoutId = setTimeout(async () => {
+      try {
+        const updatedRoom = await gameRoomService.checkDisconnectTimeout(room.id);
+        if (updatedRoom?.status === 'finished') {
+          log.log('Disconnect timeout enforced by server');
+        }
+      } catch (err) {
+        log.error('Error checking disconnect timeout:', err);
+      }
+    }, delay);
+
+    return () => clearTimeout(timeoutId);
+    // eslint-disable-next-line react-hooks/exhaustive-deps -- room?.id is intentional, the deadline drives the timer
+  }, [status, room?.id, opponentDisconnectDeadline]);
+
   // Polling fallback for 'playing' state when disconnected
   useEffect(() => {
     if (status !== 'playing' || !room || connectionStatus === 'connected') {
@@ -925,6 +1164,9 @@ export function useOnlineGameCore({
     // eslint-disable-next-line react-hooks/exhaustive-deps -- room?.id and room?.updated_at are intentional to avoid re-running on every room property change
   }, [status, room?.id, room?.updated_at, connectionStatus, handleRoomUpdate]);
 
+  // Chat lives on the room channel while we're in a room
+  const chat = useRoomChat({ roomId: status !== 'idle' ? room?.id ?? null : null, userId });
+
   // Calculate pot total
   const potTotal = betAmount ? betAmount * 2 : 0;
   const isPrivateRoom = room?.is_private ?? false;
@@ -940,14 +1182,26 @@ export function useOnlineGameCore({
     potTotal,
     isPrivateRoom,
     negotiation,
+    turnDeadline,
+    finishReason,
+    ratingChange,
+    isOpponentOnline,
+    opponentDisconnectDeadline,
+    activeRoom,
+    chat,
 
     // Actions - Matchmaking
     findMatch,
     createPrivateRoom,
     joinRoom,
+    joinLobbyRoom,
     findMatchWithBet,
     createPrivateRoomWithBet,
 
+    // Actions - Resume
+    resumeGame,
+    abandonActiveRoom,
+
     // Actions - Game
     leaveGame,
     updateRoom,
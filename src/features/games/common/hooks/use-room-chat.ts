@@ -0,0 +1,151 @@
+'use client';
+
+import { useState, useCallback, useRef, useEffect } from 'react';
+import { gameRoomService, type ChatMessage } from '../services/game-room-service';
+import { QUICK_EMOTES, CHAT_MAX_LENGTH, CHAT_RATE_LIMIT, type QuickEmote } from '../constants';
+import { filterChatMessage } from '../utils/chat-filter';
+import { useSettingsStore } from '@/features/settings/store/settings-store';
+import { createLogger } from '@/lib/utils/logger';
+
+const log = createLogger({ prefix: 'RoomChat' });
+
+const MAX_MESSAGES = 50; // Older messages are dropped from the panel
+
+export interface RoomChatOptions {
+  /** Room whose channel carries the chat (null = no chat) */
+  roomId: string | null;
+  userId: string;
+}
+
+export interface ChatEntry extends ChatMessage {
+  isMine: boolean;
+}
+
+export interface RoomChatReturn {
+  messages: ChatEntry[];
+  /** Opponent messages are hidden (setting shared with SettingsModal) */
+  isMuted: boolean;
+  error: string | null;
+  sendText: (text: string) => Promise<boolean>;
+  sendEmote: (emote: QuickEmote) => Promise<boolean>;
+  toggleMute: () => void;
+}
+
+// Sliding window: true if another message fits in the rate limit
+function allowMessage(timestamps: number[], now: number): boolean {
+  while (timestamps.length > 0 && now - timestamps[0] > CHAT_RATE_LIMIT.windowMs) {
+    timestamps.shift();
+  }
+  if (timestamps.length >= CHAT_RATE_LIMIT.maxMessages) return false;
+  timestamps.push(now);
+  return true;
+}
+
+// Broadcast payloads come from other clients, so check everything
+function sanitizeMessage(payload: ChatMessage): ChatMessage | null {
+  if (!payload || typeof payload.content !== 'string' || typeof payload.sender_id !== 'string') {
+    return null;
+  }
+
+  if (payload.kind === 'emote') {
+    return QUICK_EMOTES.includes(payload.content as QuickEmote) ? payload : null;
+  }
+
+  if (payload.kind !== 'text' || payload.content.length > CHAT_MAX_LENGTH) return null;
+
+  const content = filterChatMessage(payload.content.trim());
+  return content ? { ...payload, content } : null;
+}
+
+/**
+ * Realtime chat and quick emotes for an online room
+ * Uses broadcast on the room's shared channel, nothing is written to the table
+ */
+export function useRoomChat({ roomId, userId }: RoomChatOptions): RoomChatReturn {
+  const [messages, setMessages] = useState<ChatEntry[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const isMuted = useSettingsStore((s) => s.chatMuted);
+  const toggleMute = useSettingsStore((s) => s.toggleChatMuted);
+
+  const sentTimestampsRef = useRef<number[]>([]);
+  const receivedTimestampsRef = useRef<Map<string, number[]>>(new Map());
+
+  const appendMessage = useCallback((message: ChatMessage, isMine: boolean) => {
+    setMessages(prev => [...prev, { ...message, isMine }].slice(-MAX_MESSAGES));
+  }, []);
+
+  // Listen to the room chat; a new room starts with an empty chat
+  useEffect(() => {
+    setMessages([]); // eslint-disable-line react-hooks/set-state-in-effect -- reset chat per room
+    receivedTimestampsRef.current.clear();
+    if (!roomId) return;
+
+    return gameRoomService.subscribeToChat(roomId, (payload) => {
+      if (payload?.sender_id === userId || useSettingsStore.getState().chatMuted) return;
+
+      // Per-sender rate limit so a flooding client can't fill the panel
+      const senderTimestamps = receivedTimestampsRef.current.get(payload.sender_id) ?? [];
+      receivedTimestampsRef.current.set(payload.sender_id, senderTimestamps);
+      if (!allowMessage(senderTimestamps, Date.now())) return;
+
+      const message = sanitizeMessage(payload);
+      if (message) {
+        appendMessage(message, false);
+      }
+    });
+  }, [roomId, userId, appendMessage]);
+
+  const send = useCallback(async (kind: ChatMessage['kind'], content: string): Promise<boolean> => {
+    if (!roomId) return false;
+
+    if (!allowMessage(sentTimestampsRef.current, Date.now())) {
+      setError('Demasiados mensajes, espera un momento');
+      return false;
+    }
+
+    const message: ChatMessage = {
+      id: crypto.randomUUID(),
+      sender_id: userId,
+      kind,
+      content,
+      sent_at: new Date().toISOString(),
+    };
+
+    const sent = await gameRoomService.sendChatMessage(roomId, message);
+    if (!sent) {
+      setError('No se pudo enviar el mensaje');
+      return false;
+    }
+
+    setError(null);
+    appendMessage(message, true);
+    return true;
+  }, [roomId, userId, appendMessage]);
+
+  const sendText = useCallback(async (text: string): Promise<boolean> => {
+    const trimmed = text.trim().slice(0, CHAT_MAX_LENGTH);
+    if (!trimmed) return false;
+
+    const content = filterChatMessage(trimmed);
+    if (!content) {
+      log.warn('Message rejected by chat filter');
+      setError('Mensaje no permitido');
+      return false;
+    }
+
+    return send('text', content);
+  }, [send]);
+
+  const sendEmote = useCallback((emote: QuickEmote) => send('emote', emote), [send]);
+
+  return {
+    messages,
+    isMuted,
+    error,
+    sendText,
+    sendEmote,
+    toggleMute,
+  };
+}
+
+export default useRoomChat;
@@ -0,0 +1,66 @@
+'use client';
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { gameRoomService, type GameRoomWithPlayers, type LobbyChange } from '../services/game-room-service';
+import { createLogger } from '@/lib/utils/logger';
+
+const log = createLogger({ prefix: 'Lobby' });
+
+export interface RoomLobbyOptions {
+  gameType: string;
+  /** Only fetch and listen while the lobby is visible */
+  enabled?: boolean;
+}
+
+export interface RoomLobbyReturn {
+  /** Public rooms waiting for an opponent, newest first */
+  rooms: GameRoomWithPlayers[];
+  isLoading: boolean;
+  refresh: () => Promise<void>;
+}
+
+/**
+ * Open public rooms of a game, kept live with a realtime subscription
+ */
+export function useRoomLobby({ gameType, enabled = true }: RoomLobbyOptions): RoomLobbyReturn {
+  const [rooms, setRooms] = useState<GameRoomWithPlayers[]>([]);
+  const [isLoading, setIsLoading] = useState(enabled);
+  const roomsRef = useRef(rooms);
+
+  useEffect(() => {
+    roomsRef.current = rooms;
+  }, [rooms]);
+
+  const refresh = useCallback(async () => {
+    try {
+      setRooms(await gameRoomService.findAvailableRooms(gameType));
+    } catch (err) {
+      log.error('Error loading lobby rooms:', err);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [gameType]);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    refresh();
+
+    return gameRoomService.subscribeToLobby(gameType, (change: LobbyChange) => {
+      if (change.type === 'removed') {
+        setRooms(prev => prev.filter(room => room.id !== change.roomId));
+        return;
+      }
+
+      if (!roomsRef.current.some(room => room.id === change.room.id)) {
+        // New room: reload to get the host profile, realtime payloads don't include it
+        refresh();
+        return;
+      }
+
+      setRooms(prev => prev.map(room => room.id === change.room.id ? { ...room, ...change.room } : room));
+    });
+  }, [gameType, enabled, refresh]);
+
+  return { rooms, isLoading, refresh };
+}
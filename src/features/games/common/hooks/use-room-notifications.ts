@@ -0,0 +1,89 @@
+'use client';
+
+import { useEffect, useRef } from 'react';
+import type { GameRoomWithPlayers } from '../services/game-room-service';
+import type { OnlineGameStatus, RematchStatus } from './use-online-game-core';
+import { notificationService } from '@/features/notifications';
+import { formatBalance } from '@/features/wallet/store/wallet-store';
+import { getOnlineGameConfig } from '@/features/profile/constants';
+
+export interface RoomNotificationsOptions {
+  gameType: string;
+  userId: string;
+  status: OnlineGameStatus;
+  room: GameRoomWithPlayers | null;
+  rematchStatus: RematchStatus;
+  /** Opponent's bet proposal during negotiation */
+  opponentProposal: number | null;
+}
+
+interface RoomSnapshot {
+  status: OnlineGameStatus;
+  isMyTurn: boolean;
+  rematchStatus: RematchStatus;
+  opponentProposal: number | null;
+}
+
+/**
+ * Turns room state transitions into notifications (match found, your turn,
+ * rematch and bet proposals), so players in another tab don't miss them.
+ */
+export function useRoomNotifications({
+  gameType,
+  userId,
+  status,
+  room,
+  rematchStatus,
+  opponentProposal,
+}: RoomNotificationsOptions): void {
+  const isMyTurn = status === 'playing' && !!userId && room?.current_turn === userId;
+  const opponentName = (room?.player1_id === userId ? room?.player2?.username : room?.player1?.username) || 'Tu rival';
+
+  const previousRef = useRef<RoomSnapshot>({ status, isMyTurn, rematchStatus, opponentProposal });
+
+  useEffect(() => {
+    const previous = previousRef.current;
+    previousRef.current = { status, isMyTurn, rematchStatus, opponentProposal };
+    if (!userId) return;
+
+    const href = `/games/${gameType}`;
+    const gameName = getOnlineGameConfig(gameType)?.name ?? gameType;
+
+    const wasMatchmaking = previous.status === 'searching' || previous.status === 'waiting';
+    if (wasMatchmaking && (status === 'playing' || status === 'negotiating')) {
+      notificationService.notify({
+        kind: 'match_found',
+        title: 'Partida encontrada',
+        body: `${gameName} contra ${opponentName}`,
+        href,
+      });
+    } else if (isMyTurn && !previous.isMyTurn && previous.status === 'playing') {
+      notificationService.notify({
+        kind: 'your_turn',
+        title: 'Es tu turno',
+        body: `${opponentName} ya jugó en ${gameName}`,
+        href,
+      });
+    }
+
+    if (rematchStatus === 'received' && previous.rematchStatus !== 'received') {
+      notificationService.notify({
+        kind: 'rematch_requested',
+        title: 'Te piden la revancha',
+        body: `${opponentName} quiere jugar otra vez a ${gameName}`,
+        href,
+      });
+    }
+
+    if (status === 'negotiating' && opponentProposal !== null && opponentProposal !== previous.opponentProposal) {
+      notificationService.notify({
+        kind: 'bet_proposal',
+        title: 'Nueva propuesta de apuesta',
+        body: `${opponentName} propone ${formatBalance(opponentProposal)}`,
+        href,
+      });
+    }
+  }, [gameType, userId, status, isMyTurn, rematchStatus, opponentProposal, opponentName]);
+}
+
+export default useRoomNotifications;
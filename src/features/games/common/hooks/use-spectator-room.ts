@@ -0,0 +1,89 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { gameRoomService, type GameRoom, type GameRoomWithPlayers, type ConnectionStatus } from '../services/game-room-service';
+import { createLogger } from '@/lib/utils/logger';
+
+const log = createLogger({ prefix: 'Spectator' });
+
+export interface SpectatorRoomOptions {
+  roomId: string;
+  /** Logged-in user (anonymous spectators get a random presence key) */
+  userId?: string | null;
+}
+
+export interface SpectatorRoomReturn {
+  room: GameRoomWithPlayers | null;
+  isLoading: boolean;
+  error: string | null;
+  connectionStatus: ConnectionStatus;
+  /** People watching, not counting the players */
+  spectatorCount: number;
+}
+
+/**
+ * Read-only view of an online room: streams updates and tracks presence
+ * on the room channel so everyone can see how many people are watching
+ */
+export function useSpectatorRoom({ roomId, userId }: SpectatorRoomOptions): SpectatorRoomReturn {
+  const [room, setRoom] = useState<GameRoomWithPlayers | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [connectionStatus, setConnectionStatus] = useState<ConnectionStatus>('connecting');
+  const [onlineUserIds, setOnlineUserIds] = useState<string[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    const presenceKey = userId || `spectator-${Math.random().toString(36).slice(2)}`;
+
+    gameRoomService.getRoom(roomId)
+      .then(found => {
+        if (cancelled) return;
+        if (!found) {
+          setError('La partida no existe o ya no es pública');
+        } else {
+          setRoom(found);
+        }
+      })
+      .catch(err => {
+        log.error('Error loading room:', err);
+        if (!cancelled) setError('No se pudo cargar la partida');
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    const unsubscribe = gameRoomService.subscribeToRoom(
+      roomId,
+      (updatedRoom: GameRoom) => {
+        // Keep the joined player profiles, they don't come with realtime payloads
+        setRoom(prev => prev ? { ...prev, ...updatedRoom } : null);
+      },
+      (err) => {
+        log.error('Subscription error:', err);
+        setError('Error de conexion. Reconectando...');
+      },
+      setConnectionStatus,
+      { userId: presenceKey, onPresenceChange: setOnlineUserIds }
+    );
+
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [roomId, userId]);
+
+  const spectatorCount = onlineUserIds.filter(
+    id => id !== room?.player1_id && id !== room?.player2_id
+  ).length;
+
+  return {
+    room,
+    isLoading,
+    error,
+    connectionStatus,
+    spectatorCount,
+  };
+}
+
+export default useSpectatorRoom;
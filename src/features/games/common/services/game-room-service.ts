@@ -2,8 +2,9 @@
 
 import { getClient } from '@/lib/supabase/client';
 import type { RealtimeChannel } from '@supabase/supabase-js';
-import type { InsertTables, UpdateTables } from '@/types/supabase.types';
+import type { InsertTables, UpdateTables, Json } from '@/types/supabase.types';
 import { createLogger } from '@/lib/utils/logger';
+import type { ActionResponse } from '@/actions/_shared/action-response';
 
 const log = createLogger({ prefix: 'GameRoomService' });
 const realtimeLog = createLogger({ prefix: 'Realtime' });
@@ -15,12 +16,34 @@ type GameRoomUpdate = UpdateTables<'game_rooms'>;
 
 export type NegotiationState = 'none' | 'pending' | 'agreed' | 'no_bet';
 
+// Estado del escrow de la apuesta (solo lo escribe el servidor)
+export type EscrowStatus = 'locked' | 'released' | 'refunded';
+
+// Motivo de fin de partida cuando no sale del tablero (solo lo escribe el servidor)
+export type FinishReason = 'timeout' | 'disconnect';
+
+// Cambio de rating de un jugador al terminar una partida pública (solo lo escribe el servidor)
+export interface RatingChange {
+  rating: number;
+  delta: number;
+}
+
 export interface GameRoomMetadata {
   bet_amount?: number | null;
   negotiation_state?: NegotiationState;
   player1_bet_proposal?: number | null;
   player2_bet_proposal?: number | null;
   negotiation_deadline?: string | null;
+  escrow_status?: EscrowStatus | null;
+  turn_deadline?: string | null;
+  turn_remaining_ms?: number | null;
+  clock_remaining_ms?: { player1: number; player2: number } | null;
+  finish_reason?: FinishReason | null;
+  disconnected_player_id?: string | null;
+  disconnect_deadline?: string | null;
+  disconnect_reports?: string[] | null;
+  rating_changes?: Record<string, RatingChange> | null;
+  tournament_id?: string | null;
 }
 
 export interface BetConfig {
@@ -28,6 +51,22 @@ export interface BetConfig {
   betAmount: number;
 }
 
+// Entrada del historial de movimientos (la agrega el servidor al validar cada jugada)
+export interface MoveLogEntry {
+  player_id: string;
+  move: Json;
+  created_at: string;
+}
+
+// Mensaje del chat de la sala (broadcast realtime, no se guarda en la tabla)
+export interface ChatMessage {
+  id: string;
+  sender_id: string;
+  kind: 'emote' | 'text';
+  content: string;
+  sent_at: string;
+}
+
 export interface GameRoom {
   id: string;
   game_type: string;
@@ -35,13 +74,18 @@ export interface GameRoom {
   player1_id: string | null;
   player2_id: string | null;
   current_turn: string | null;
-  board: string[];
+  // Estado serializado del juego (ver GameStateSerializer); null = partida sin empezar
+  state: Json | null;
+  move_log: MoveLogEntry[];
   winner_id: string | null;
   is_draw: boolean;
   is_private: boolean;
   rematch_requested_by: string | null;
   rematch_room_id: string | null;
   metadata: GameRoomMetadata | null;
+  // Código corto para compartir salas privadas (lo asigna el servidor al crearla)
+  invite_code: string | null;
+  invite_expires_at: string | null;
   created_at: string;
   updated_at: string;
 }
@@ -53,10 +97,38 @@ export interface GameRoomWithPlayers extends GameRoom {
 
 export type ConnectionStatus = 'connecting' | 'connected' | 'disconnected' | 'reconnecting';
 
+// Presencia en el canal de la sala (quién tiene la partida abierta)
+export interface RoomPresenceOptions {
+  userId: string;
+  onPresenceChange: (onlineUserIds: string[]) => void;
+}
+
+// Mensajes de las excepciones de resolve_invite_code (ver 023_room_invite_codes.sql)
+const INVITE_ERROR_MESSAGES: Record<string, string> = {
+  'Invite not found': 'El código no corresponde a ninguna sala',
+  'Invite expired': 'La invitación venció',
+  'Room is full': 'Esta sala ya está llena',
+};
+
+// Mensajes de las excepciones de join_lobby_room (ver 024_lobby_browser.sql)
+const LOBBY_ERROR_MESSAGES: Record<string, string> = {
+  'Not authenticated': 'Usuario no autenticado',
+  'Room not available': 'Esta sala ya no está disponible',
+  'Cannot join own room': 'No puedes unirte a tu propia sala',
+  'Insufficient balance': 'Balance insuficiente para esta apuesta',
+};
+
+// Cambio en la lista del lobby: sala abierta (nueva o actualizada) o que ya no está disponible
+export type LobbyChange =
+  | { type: 'open'; room: GameRoom }
+  | { type: 'removed'; roomId: string };
+
 interface ChannelSubscription {
   channel: RealtimeChannel;
   callbacks: Set<(room: GameRoom) => void>;
   statusCallbacks: Set<(status: ConnectionStatus) => void>;
+  presenceCallbacks: Set<(onlineUserIds: string[]) => void>;
+  presenceUserId: string | null;
   reconnectAttempts: number;
   reconnectTimer?: ReturnType<typeof setTimeout>;
   cancelled: boolean; // Flag to prevent timer execution after cleanup
@@ -69,6 +141,8 @@ class GameRoomService {
   private subscriptionToRoom: Map<string, string> = new Map();
   // Set to track channels being created (thread-safety)
   private creatingChannels: Set<string> = new Set();
+  // Listeners del chat por roomId (sobreviven a reconexiones del canal)
+  private chatListeners: Map<string, Set<(message: ChatMessage) => void>> = new Map();
 
   private get supabase() {
     return getClient();
@@ -135,7 +209,7 @@ class GameRoomService {
     return data as GameRoom;
   }
 
-  // Buscar salas disponibles
+  // Buscar salas públicas disponibles (lobby)
   async findAvailableRooms(gameType: string = 'tic-tac-toe'): Promise<GameRoomWithPlayers[]> {
     const { data, error } = await this.supabase
       .from('game_rooms')
@@ -145,9 +219,10 @@ class GameRoomService {
       `)
       .eq('status', 'waiting')
       .eq('game_type', gameType)
+      .eq('is_private', false)
       .is('player2_id', null)
       .order('created_at', { ascending: false })
-      .limit(10);
+      .limit(30);
 
     if (error) {
       log.error('Error finding rooms:', error);
@@ -157,7 +232,7 @@ class GameRoomService {
     return data as GameRoomWithPlayers[];
   }
 
-  // Unirse a una sala
+  // Unirse a una sala (el servidor asigna al jugador 2, ver join_room)
   async joinRoom(roomId: string, playerId: string): Promise<GameRoom | null> {
     if (!playerId) {
       log.error('joinRoom: playerId is required');
@@ -169,20 +244,10 @@ class GameRoomService {
       return null;
     }
 
-    const updateData = {
-      player2_id: playerId,
-      status: 'playing',
-      updated_at: new Date().toISOString(),
-    } satisfies GameRoomUpdate;
-
-    const { data, error } = await (this.supabase
-      .from('game_rooms') as ReturnType<typeof this.supabase.from>)
-      .update(updateData)
-      .eq('id', roomId)
-      .eq('status', 'waiting')
-      .is('player2_id', null)
-      .select()
-      .maybeSingle();
+    // @ts-expect-error - Supabase RPC types require CLI regeneration (supabase gen types)
+    const { data, error } = await this.supabase.rpc('join_room', {
+      p_room_id: roomId
+    });
 
     if (error) {
       log.error('Error joining room:', error);
@@ -190,12 +255,13 @@ class GameRoomService {
     }
 
     // Si no hay data, la sala ya fue ocupada por otro jugador
-    if (!data) {
+    const room = data as GameRoom | null;
+    if (!room?.id) {
       log.log('Room already taken or not available');
       return null;
     }
 
-    return data as GameRoom;
+    return room;
   }
 
   // Obtener sala por ID
@@ -218,90 +284,138 @@ class GameRoomService {
     return data as GameRoomWithPlayers;
   }
 
-  // Hacer un movimiento con verificación de estado
-  async makeMove(
-    roomId: string,
-    cellIndex: number,
-    playerId: string,
-    newBoard: string[],
-    expectedBoard?: string[]
-  ): Promise<{ success: boolean; conflict: boolean; currentRoom?: GameRoom }> {
-    // Validar cellIndex
-    if (cellIndex < 0 || cellIndex > 8) {
-      return { success: false, conflict: false };
+  // Buscar partidas públicas en curso (modo espectador)
+  async findLiveRooms(gameType: string = 'tic-tac-toe'): Promise<GameRoomWithPlayers[]> {
+    const { data, error } = await this.supabase
+      .from('game_rooms')
+      .select(`
+        *,
+        player1:profiles!game_rooms_player1_id_fkey(id, username, avatar_url),
+        player2:profiles!game_rooms_player2_id_fkey(id, username, avatar_url)
+      `)
+      .eq('status', 'playing')
+      .eq('game_type', gameType)
+      .eq('is_private', false)
+      .order('updated_at', { ascending: false })
+      .limit(20);
+
+    if (error) {
+      log.error('Error finding live rooms:', error);
+      return [];
     }
 
-    // Obtener sala actual para verificar estado y determinar siguiente turno
-    const room = await this.getRoom(roomId);
-    if (!room) return { success: false, conflict: false };
+    return data as GameRoomWithPlayers[];
+  }
 
-    // Verificar que es el turno del jugador
-    if (room.current_turn !== playerId) {
-      return { success: false, conflict: true, currentRoom: room };
+  // Buscar la partida en curso del jugador (para reanudarla al recargar)
+  async findActiveRoom(playerId: string, gameType: string = 'tic-tac-toe'): Promise<GameRoomWithPlayers | null> {
+    if (!playerId) {
+      log.error('findActiveRoom: playerId is required');
+      return null;
     }
 
-    // Verificar que la celda está vacía en el servidor
-    const serverBoard = room.board as string[];
-    if (serverBoard[cellIndex] && serverBoard[cellIndex] !== '') {
-      return { success: false, conflict: true, currentRoom: room };
+    const { data, error } = await this.supabase
+      .from('game_rooms')
+      .select(`
+        *,
+        player1:profiles!game_rooms_player1_id_fkey(id, username, avatar_url),
+        player2:profiles!game_rooms_player2_id_fkey(id, username, avatar_url)
+      `)
+      .eq('status', 'playing')
+      .eq('game_type', gameType)
+      .or(`player1_id.eq.${playerId},player2_id.eq.${playerId}`)
+      .order('updated_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) {
+      log.error('Error finding active room:', error);
+      return null;
     }
 
-    // Si se proporciona expectedBoard, verificar que el tablero no ha cambiado
-    if (expectedBoard) {
-      const boardsMatch = serverBoard.every((cell, i) => cell === expectedBoard[i]);
-      if (!boardsMatch) {
-        return { success: false, conflict: true, currentRoom: room };
-      }
+    return data as GameRoomWithPlayers | null;
+  }
+
+  // Historial de partidas terminadas del jugador (todos los juegos, más recientes primero)
+  async findFinishedRooms(playerId: string, limit: number = 20): Promise<GameRoomWithPlayers[]> {
+    if (!playerId) {
+      log.error('findFinishedRooms: playerId is required');
+      return [];
     }
 
-    const nextTurn = room.player1_id === playerId ? room.player2_id : room.player1_id;
+    const { data, error } = await this.supabase
+      .from('game_rooms')
+      .select(`
+        *,
+        player1:profiles!game_rooms_player1_id_fkey(id, username, avatar_url),
+        player2:profiles!game_rooms_player2_id_fkey(id, username, avatar_url)
+      `)
+      .eq('status', 'finished')
+      .or(`player1_id.eq.${playerId},player2_id.eq.${playerId}`)
+      .order('updated_at', { ascending: false })
+      .limit(limit);
 
-    // Actualizar con verificación adicional de turno (optimistic locking)
-    const moveUpdateData = {
-      board: newBoard,
-      current_turn: nextTurn,
-      updated_at: new Date().toISOString(),
-    } satisfies GameRoomUpdate;
+    if (error) {
+      log.error('Error finding finished rooms:', error);
+      return [];
+    }
 
-    const { data, error } = await (this.supabase
-      .from('game_rooms') as ReturnType<typeof this.supabase.from>)
-      .update(moveUpdateData)
-      .eq('id', roomId)
-      .eq('current_turn', playerId) // Solo actualiza si sigue siendo mi turno
-      .eq('status', 'playing') // Solo si el juego está activo
-      .select()
-      .single();
+    return data as GameRoomWithPlayers[];
+  }
 
-    if (error || !data) {
-      // El estado cambió concurrentemente, obtener estado actual
+  // Hacer un movimiento: el servidor lo valida con el GameEngine del juego
+  // y calcula ganador/empate (el cliente nunca escribe el tablero)
+  async makeMove<TMove>(
+    roomId: string,
+    gameType: string,
+    move: TMove
+  ): Promise<{ success: boolean; conflict: boolean; currentRoom?: GameRoom }> {
+    try {
+      const response = await fetch(`/api/games/${gameType}/rooms/${roomId}/moves`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ move }),
+      });
+
+      const result = await response.json() as ActionResponse<GameRoom>;
+
+      if (result.success) {
+        return { success: true, conflict: false, currentRoom: result.data };
+      }
+
+      log.warn('Move rejected:', result.errorCode, result.error);
+
+      // Movimiento rechazado o estado desactualizado: devolver el estado del servidor
       const freshRoom = await this.getRoom(roomId);
-      return { success: false, conflict: true, currentRoom: freshRoom || undefined };
+      return {
+        success: false,
+        conflict: result.errorCode === 'CONFLICT' || result.errorCode === 'INVALID_MOVE',
+        currentRoom: freshRoom || undefined,
+      };
+    } catch (err) {
+      log.error('Error making move:', err);
+      return { success: false, conflict: false };
     }
-
-    return { success: true, conflict: false };
   }
 
-  // Finalizar partida
-  async endGame(roomId: string, winnerId: string | null, isDraw: boolean, finalBoard?: string[]): Promise<boolean> {
-    const endGameData = {
-      status: 'finished',
-      winner_id: winnerId,
-      is_draw: isDraw,
-      updated_at: new Date().toISOString(),
-      ...(finalBoard && { board: finalBoard }),
-    } satisfies GameRoomUpdate;
+  // Abandonar una partida en curso (el oponente gana)
+  async forfeitRoom(roomId: string): Promise<GameRoom | null> {
+    if (!roomId) {
+      log.error('forfeitRoom: roomId is required');
+      return null;
+    }
 
-    const { error } = await (this.supabase
-      .from('game_rooms') as ReturnType<typeof this.supabase.from>)
-      .update(endGameData)
-      .eq('id', roomId);
+    // @ts-expect-error - Supabase RPC types require CLI regeneration (supabase gen types)
+    const { data, error } = await this.supabase.rpc('forfeit_room', {
+      p_room_id: roomId
+    });
 
     if (error) {
-      log.error('Error ending game:', error);
-      return false;
+      log.error('Error forfeiting room:', error);
+      return null;
     }
 
-    return true;
+    return data as GameRoom;
   }
 
   // Abandonar sala
@@ -321,8 +435,7 @@ class GameRoomService {
 
     // Si la partida está en curso, el otro jugador gana
     if (room.status === 'playing') {
-      const winnerId = room.player1_id === playerId ? room.player2_id : room.player1_id;
-      return this.endGame(roomId, winnerId, false);
+      return (await this.forfeitRoom(roomId)) !== null;
     }
 
     return true;
@@ -333,7 +446,8 @@ class GameRoomService {
     roomId: string,
     callback: (room: GameRoom) => void,
     onError?: (error: Error) => void,
-    onStatusChange?: (status: ConnectionStatus) => void
+    onStatusChange?: (status: ConnectionStatus) => void,
+    presence?: RoomPresenceOptions
   ): () => void {
     const subscriptionId = `${roomId}:${Date.now()}:${Math.random().toString(36).slice(2)}`;
     this.subscriptionToRoom.set(subscriptionId, roomId);
@@ -353,6 +467,9 @@ class GameRoomService {
             if (onStatusChange) {
               existingSub.statusCallbacks.add(onStatusChange);
             }
+            if (presence) {
+              existingSub.presenceCallbacks.add(presence.onPresenceChange);
+            }
           } else if (this.creatingChannels.has(roomId)) {
             // Still creating, wait a bit more
             setTimeout(waitForChannel, 50);
@@ -368,6 +485,9 @@ class GameRoomService {
             if (onStatusChange) {
               sub.statusCallbacks.delete(onStatusChange);
             }
+            if (presence) {
+              sub.presenceCallbacks.delete(presence.onPresenceChange);
+            }
             if (sub.callbacks.size === 0) {
               sub.cancelled = true;
               if (sub.reconnectTimer) {
@@ -391,6 +511,8 @@ class GameRoomService {
         channel: null as unknown as RealtimeChannel,
         callbacks: new Set(),
         statusCallbacks: new Set(),
+        presenceCallbacks: new Set(),
+        presenceUserId: presence?.userId ?? null,
         reconnectAttempts: 0,
         cancelled: false,
       };
@@ -412,8 +534,20 @@ class GameRoomService {
 
         notifyStatus(sub.reconnectAttempts > 0 ? 'reconnecting' : 'connecting');
 
+        // Notificar quién está presente en la sala
+        const notifyPresence = () => {
+          const onlineUserIds = Object.keys(channel.presenceState());
+          sub.presenceCallbacks.forEach(cb => cb(onlineUserIds));
+        };
+
         const channel = this.supabase
-          .channel(`room:${roomId}`)
+          .channel(`room:${roomId}`, {
+            config: { presence: { key: sub.presenceUserId ?? '' } },
+          })
+          .on('presence', { event: 'sync' }, notifyPresence)
+          .on('broadcast', { event: 'chat' }, ({ payload }) => {
+            this.chatListeners.get(roomId)?.forEach(cb => cb(payload as ChatMessage));
+          })
           .on(
             'postgres_changes',
             {
@@ -435,6 +569,12 @@ class GameRoomService {
               sub.reconnectAttempts = 0;
               this.creatingChannels.delete(roomId); // Channel created successfully
               notifyStatus('connected');
+
+              // Anunciar presencia (el oponente la usa para detectar desconexiones)
+              if (sub.presenceUserId) {
+                channel.track({ user_id: sub.presenceUserId, online_at: new Date().toISOString() })
+                  .catch(trackErr => realtimeLog.error('Error tracking presence:', trackErr));
+              }
             } else if (status === 'CHANNEL_ERROR' || status === 'TIMED_OUT') {
               this.creatingChannels.delete(roomId); // Remove from creating set on error
               realtimeLog.error('Subscription error:', status, err);
@@ -473,6 +613,9 @@ class GameRoomService {
     if (onStatusChange) {
       subscription.statusCallbacks.add(onStatusChange);
     }
+    if (presence) {
+      subscription.presenceCallbacks.add(presence.onPresenceChange);
+    }
 
     // Retornar función de cleanup
     return () => {
@@ -482,6 +625,9 @@ class GameRoomService {
         if (onStatusChange) {
           sub.statusCallbacks.delete(onStatusChange);
         }
+        if (presence) {
+          sub.presenceCallbacks.delete(presence.onPresenceChange);
+        }
 
         // Si no quedan callbacks, limpiar el canal compartido
         if (sub.callbacks.size === 0) {
@@ -501,6 +647,48 @@ class GameRoomService {
     };
   }
 
+  // Escuchar el chat de una sala (usa el canal compartido de subscribeToRoom)
+  subscribeToChat(roomId: string, callback: (message: ChatMessage) => void): () => void {
+    let listeners = this.chatListeners.get(roomId);
+    if (!listeners) {
+      listeners = new Set();
+      this.chatListeners.set(roomId, listeners);
+    }
+    listeners.add(callback);
+
+    return () => {
+      const current = this.chatListeners.get(roomId);
+      if (current) {
+        current.delete(callback);
+        if (current.size === 0) {
+          this.chatListeners.delete(roomId);
+        }
+      }
+    };
+  }
+
+  // Enviar un mensaje al chat de la sala (broadcast, sin escribir en la tabla)
+  async sendChatMessage(roomId: string, message: ChatMessage): Promise<boolean> {
+    const channel = this.sharedChannels.get(roomId)?.channel;
+    if (!channel) {
+      realtimeLog.error('sendChatMessage: not subscribed to room', roomId);
+      return false;
+    }
+
+    const result = await channel.send({
+      type: 'broadcast',
+      event: 'chat',
+      payload: message,
+    });
+
+    if (result !== 'ok') {
+      realtimeLog.error('Error sending chat message:', result);
+      return false;
+    }
+
+    return true;
+  }
+
   // Buscar partida (matchmaking atomico para evitar race conditions)
   async findOrCreateMatch(playerId: string, gameType: string = 'tic-tac-toe'): Promise<GameRoom | null> {
     if (!playerId) {
@@ -575,137 +763,61 @@ class GameRoomService {
     return room;
   }
 
-  // Crear sala privada CON apuesta
-  async createPrivateRoomWithBet(
-    playerId: string,
-    betAmount: number,
-    gameType: string = 'tic-tac-toe'
-  ): Promise<GameRoom | null> {
-    if (!playerId) {
-      log.error('createPrivateRoomWithBet: playerId is required');
-      return null;
-    }
-
-    if (betAmount <= 0) {
-      log.error('createPrivateRoomWithBet: betAmount must be positive');
-      return null;
+  // Unirse a una sala pública elegida en el lobby (acepta la apuesta del creador)
+  async joinLobbyRoom(roomId: string): Promise<{ room: GameRoom | null; error: string | null }> {
+    if (!roomId) {
+      return { room: null, error: 'ID de sala no válido' };
     }
 
-    log.log('Creating private room with bet for player:', playerId, 'amount:', betAmount);
-
-    const insertData = {
-      game_type: gameType,
-      player1_id: playerId,
-      current_turn: playerId,
-      status: 'waiting',
-      is_private: true,
-      metadata: { bet_amount: betAmount },
-    } satisfies GameRoomInsert;
-
-    const { data, error } = await (this.supabase
-      .from('game_rooms') as ReturnType<typeof this.supabase.from>)
-      .insert(insertData)
-      .select()
-      .single();
+    // @ts-expect-error - Supabase RPC types require CLI regeneration (supabase gen types)
+    const { data, error } = await this.supabase.rpc('join_lobby_room', {
+      p_room_id: roomId
+    });
 
     if (error) {
-      log.error('Error creating private room with bet:', error);
-      return null;
+      log.error('Error joining lobby room:', error);
+      return { room: null, error: LOBBY_ERROR_MESSAGES[error.message] ?? 'No se pudo unir a la sala' };
     }
 
-    log.log('Created private room with bet:', data.id, 'amount:', betAmount);
-    return data as GameRoom;
+    return { room: data as GameRoom, error: null };
   }
 
-  // Join room with bet preference (for negotiation system)
-  async joinRoomWithBetPreference(
-    roomId: string,
-    playerId: string,
-    wantsBet: boolean = false,
-    betAmount: number | null = null
-  ): Promise<{ room: GameRoom | null; error: string | null }> {
-    if (!playerId) {
-      return { room: null, error: 'Usuario no autenticado' };
-    }
-
-    if (!roomId) {
-      return { room: null, error: 'ID de sala no válido' };
-    }
-
-    const room = await this.getRoom(roomId);
-    if (!room) {
-      return { room: null, error: 'Sala no encontrada' };
-    }
-
-    if (room.status !== 'waiting') {
-      return { room: null, error: 'Esta sala ya no está disponible' };
-    }
-
-    if (room.player2_id !== null) {
-      return { room: null, error: 'Esta sala ya está llena' };
-    }
+  // Escuchar cambios en las salas de un juego para el lobby. El filtro de realtime
+  // admite una sola columna, así que el estado se filtra en el callback
+  subscribeToLobby(gameType: string, onChange: (change: LobbyChange) => void): () => void {
+    const channel = this.supabase
+      .channel(`lobby:${gameType}:${Date.now()}`)
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'game_rooms',
+          filter: `game_type=eq.${gameType}`,
+        },
+        (payload) => {
+          if (payload.eventType === 'DELETE') {
+            const oldRoom = payload.old as Partial<GameRoom>;
+            if (oldRoom.id) onChange({ type: 'removed', roomId: oldRoom.id });
+            return;
+          }
 
-    if (room.player1_id === playerId) {
-      return { room: room, error: null };
-    }
+          const room = payload.new as GameRoom;
+          const isOpen = room.status === 'waiting' && !room.is_private && room.player2_id === null;
+          onChange(isOpen ? { type: 'open', room } : { type: 'removed', roomId: room.id });
+        }
+      )
+      .subscribe((status, err) => {
+        if (status === 'SUBSCRIBED') {
+          realtimeLog.log('Connected to lobby:', gameType);
+        } else if (status === 'CHANNEL_ERROR' || status === 'TIMED_OUT') {
+          realtimeLog.error('Lobby channel error:', status, err);
+        }
+      });
 
-    // Get player1's bet preference
-    const currentMetadata = room.metadata as GameRoomMetadata | null;
-    const player1WantsBet = (currentMetadata?.player1_bet_proposal ?? 0) > 0;
-    const player1Amount = currentMetadata?.player1_bet_proposal ?? 0;
-
-    // Determine negotiation state
-    let negotiationState: NegotiationState;
-    let finalBetAmount: number | null = null;
-    let newStatus: 'waiting' | 'playing' = 'playing';
-
-    if (!player1WantsBet && !wantsBet) {
-      // Neither wants to bet
-      negotiationState = 'none';
-    } else if (player1WantsBet && wantsBet && player1Amount === betAmount) {
-      // Same amount - immediate agreement
-      negotiationState = 'agreed';
-      finalBetAmount = betAmount;
-    } else if (player1WantsBet && wantsBet) {
-      // Different amounts - need negotiation
-      negotiationState = 'pending';
-      newStatus = 'waiting'; // Stay in waiting during negotiation
-    } else {
-      // Only one wants to bet - no bet
-      negotiationState = 'no_bet';
-    }
-
-    const deadline = negotiationState === 'pending'
-      ? new Date(Date.now() + 30000).toISOString()
-      : null;
-
-    const newMetadata: GameRoomMetadata = {
-      negotiation_state: negotiationState,
-      bet_amount: finalBetAmount,
-      player1_bet_proposal: player1Amount || null,
-      player2_bet_proposal: wantsBet && betAmount ? betAmount : null,
-      negotiation_deadline: deadline,
+    return () => {
+      this.supabase.removeChannel(channel);
     };
-
-    const { data, error } = await (this.supabase
-      .from('game_rooms') as ReturnType<typeof this.supabase.from>)
-      .update({
-        player2_id: playerId,
-        status: newStatus,
-        metadata: newMetadata,
-        updated_at: new Date().toISOString(),
-      })
-      .eq('id', roomId)
-      .eq('status', 'waiting')
-      .select()
-      .single();
-
-    if (error) {
-      log.error('Error joining room with bet preference:', error);
-      return { room: null, error: 'No se pudo unir a la sala' };
-    }
-
-    return { room: data as GameRoom, error: null };
   }
 
   // Unirse a una sala específica por ID (para links compartidos)
@@ -746,6 +858,31 @@ class GameRoomService {
     return { room: joinedRoom, error: null };
   }
 
+  // Resolver un código de invitación a su sala (para el link /join/<código>)
+  async resolveInviteCode(code: string): Promise<{ roomId: string | null; gameType: string | null; error: string | null }> {
+    if (!code) {
+      return { roomId: null, gameType: null, error: 'Código de invitación no válido' };
+    }
+
+    // @ts-expect-error - Supabase RPC types require CLI regeneration (supabase gen types)
+    const { data, error } = await this.supabase.rpc('resolve_invite_code', {
+      p_code: code
+    });
+
+    if (error) {
+      log.error('Error resolving invite code:', error);
+      const message = INVITE_ERROR_MESSAGES[error.message] ?? 'No se pudo abrir la invitación';
+      return { roomId: null, gameType: null, error: message };
+    }
+
+    const match = (data as { room_id: string; game_type: string }[] | null)?.[0];
+    if (!match) {
+      return { roomId: null, gameType: null, error: INVITE_ERROR_MESSAGES['Invite not found'] };
+    }
+
+    return { roomId: match.room_id, gameType: match.game_type, error: null };
+  }
+
   // Solicitar revancha
   async requestRematch(roomId: string, playerId: string): Promise<boolean> {
     if (!roomId || !playerId) {
@@ -783,7 +920,7 @@ class GameRoomService {
     return true;
   }
 
-  // Aceptar revancha - crea nueva sala con roles invertidos
+  // Aceptar revancha - el servidor crea la nueva sala con roles invertidos
   async acceptRematch(roomId: string, playerId: string): Promise<GameRoom | null> {
     if (!roomId || !playerId) {
       log.error('acceptRematch: roomId and playerId are required');
@@ -814,45 +951,18 @@ class GameRoomService {
       return null;
     }
 
-    // Crear nueva sala con roles invertidos
-    // El que era player2 ahora es player1 (y empieza)
-    const newPlayer1 = room.player2_id;
-    const newPlayer2 = room.player1_id;
-
-    const insertData = {
-      game_type: room.game_type,
-      player1_id: newPlayer1,
-      player2_id: newPlayer2,
-      current_turn: newPlayer1, // El nuevo player1 empieza
-      status: 'playing',
-    } satisfies GameRoomInsert;
-
-    const { data, error } = await (this.supabase
-      .from('game_rooms') as ReturnType<typeof this.supabase.from>)
-      .insert(insertData)
-      .select()
-      .single();
+    // El servidor crea la sala con roles invertidos y la anota en rematch_room_id
+    // @ts-expect-error - Supabase RPC types require CLI regeneration (supabase gen types)
+    const { data, error } = await this.supabase.rpc('accept_rematch', {
+      p_room_id: roomId
+    });
 
     if (error) {
       log.error('Error creating rematch room:', error);
       return null;
     }
 
-    const newRoom = data as GameRoom;
-
-    // Guardar el ID de la nueva sala en la sala anterior
-    // Esto permite que el jugador que solicito la revancha sea notificado
-    // y pueda unirse a la nueva sala
-    await (this.supabase
-      .from('game_rooms') as ReturnType<typeof this.supabase.from>)
-      .update({
-        rematch_room_id: newRoom.id,
-        rematch_requested_by: null,
-        updated_at: new Date().toISOString(),
-      })
-      .eq('id', roomId);
-
-    return newRoom;
+    return data as GameRoom;
   }
 
   // Rechazar/cancelar revancha
@@ -880,6 +990,27 @@ class GameRoomService {
     return true;
   }
 
+  // Reintentar el emparejamiento de una sala pública en espera
+  // La ventana de rating se amplía con el tiempo; si hay una sala más antigua
+  // dentro de ella, el servidor mueve al jugador ahí y borra su sala
+  async retryRankedMatch(roomId: string): Promise<GameRoom | null> {
+    if (!roomId) {
+      return null;
+    }
+
+    // @ts-expect-error - Supabase RPC types require CLI regeneration (supabase gen types)
+    const { data, error } = await this.supabase.rpc('retry_ranked_match', {
+      p_room_id: roomId
+    });
+
+    if (error) {
+      matchmakingLog.error('Error retrying ranked match:', error);
+      return null;
+    }
+
+    return data as GameRoom;
+  }
+
   // ============================================
   // SISTEMA DE NEGOCIACIÓN DE APUESTAS
   // ============================================
@@ -1057,6 +1188,125 @@ class GameRoomService {
     return data as GameRoom;
   }
 
+  // Verificar timeout de turno: si venció, el jugador en turno pierde
+  async checkTurnTimeout(roomId: string): Promise<GameRoom | null> {
+    if (!roomId) {
+      return null;
+    }
+
+    // @ts-expect-error - Supabase RPC types require CLI regeneration (supabase gen types)
+    const { data, error } = await this.supabase.rpc('check_turn_timeout', {
+      p_room_id: roomId
+    });
+
+    if (error) {
+      log.error('Error checking turn timeout:', error);
+      return null;
+    }
+
+    return data as GameRoom;
+  }
+
+  // Reportar que el oponente se desconectó (inicia el periodo de gracia)
+  async reportPlayerDisconnect(roomId: string): Promise<GameRoom | null> {
+    if (!roomId) {
+      log.error('reportPlayerDisconnect: roomId is required');
+      return null;
+    }
+
+    // @ts-expect-error - Supabase RPC types require CLI regeneration (supabase gen types)
+    const { data, error } = await this.supabase.rpc('report_player_disconnect', {
+      p_room_id: roomId
+    });
+
+    if (error) {
+      log.error('Error reporting player disconnect:', error);
+      return null;
+    }
+
+    return data as GameRoom;
+  }
+
+  // Avisar que volvimos a la sala (cancela nuestro periodo de gracia)
+  async clearPlayerDisconnect(roomId: string): Promise<GameRoom | null> {
+    if (!roomId) {
+      log.error('clearPlayerDisconnect: roomId is required');
+      return null;
+    }
+
+    // @ts-expect-error - Supabase RPC types require CLI regeneration (supabase gen types)
+    const { data, error } = await this.supabase.rpc('clear_player_disconnect', {
+      p_room_id: roomId
+    });
+
+    if (error) {
+      log.error('Error clearing player disconnect:', error);
+      return null;
+    }
+
+    return data as GameRoom;
+  }
+
+  // Verificar fin del periodo de gracia: si venció, el jugador desconectado pierde
+  async checkDisconnectTimeout(roomId: string): Promise<GameRoom | null> {
+    if (!roomId) {
+      return null;
+    }
+
+    // @ts-expect-error - Supabase RPC types require CLI regeneration (supabase gen types)
+    const { data, error } = await this.supabase.rpc('check_disconnect_timeout', {
+      p_room_id: roomId
+    });
+
+    if (error) {
+      log.error('Error checking disconnect timeout:', error);
+      return null;
+    }
+
+    return data as GameRoom;
+  }
+
+  // Bloquear las apuestas de ambos jugadores en escrow (idempotente)
+  // El servidor ya lo hace al pasar a 'agreed'; esto solo asegura que se ejecutó
+  async lockRoomStakes(roomId: string): Promise<GameRoom | null> {
+    if (!roomId) {
+      log.error('lockRoomStakes: roomId is required');
+      return null;
+    }
+
+    // @ts-expect-error - Supabase RPC types require CLI regeneration (supabase gen types)
+    const { data, error } = await this.supabase.rpc('lock_room_stakes', {
+      p_room_id: roomId
+    });
+
+    if (error) {
+      log.error('Error locking room stakes:', error);
+      return null;
+    }
+
+    return data as GameRoom;
+  }
+
+  // Liberar el pozo al ganador o reembolsar en empate (idempotente)
+  async settleRoomPot(roomId: string): Promise<GameRoom | null> {
+    if (!roomId) {
+      log.error('settleRoomPot: roomId is required');
+      return null;
+    }
+
+    // @ts-expect-error - Supabase RPC types require CLI regeneration (supabase gen types)
+    const { data, error } = await this.supabase.rpc('settle_room_pot', {
+      p_room_id: roomId
+    });
+
+    if (error) {
+      log.error('Error settling room pot:', error);
+      return null;
+    }
+
+    return data as GameRoom;
+  }
+
   // Obtener estado de negociación de una sala
   getNegotiationState(room: GameRoom): {
     state: NegotiationState;
@@ -1,23 +1,25 @@
-import type { BoardState } from '../../tic-tac-toe/types';
+import type { Json } from '@/types/supabase.types';
 
 /**
- * Convert string array from DB to BoardState
- * DB stores: '' for empty, 'X' for X, 'O' for O
- * App uses: null for empty, 'X' for X, 'O' for O
+ * Decode a stored cell array for any grid game
+ * Storage uses '' for empty cells; unknown values and missing cells become null
  */
-export function dbBoardToBoardState(dbBoard: string[]): BoardState {
-  return dbBoard.map(cell => {
-    if (cell === 'X') return 'X';
-    if (cell === 'O') return 'O';
-    return null;
-  }) as BoardState;
+export function decodeCells<T extends string>(
+  data: Json | undefined,
+  symbols: readonly T[],
+  size: number
+): (T | null)[] {
+  const cells = Array.isArray(data) ? data : [];
+  return Array.from({ length: size }, (_, index) => {
+    const cell = cells[index];
+    return symbols.includes(cell as T) ? (cell as T) : null;
+  });
 }
 
 /**
- * Convert BoardState to string array for DB
- * App uses: null for empty, 'X' for X, 'O' for O
- * DB stores: '' for empty, 'X' for X, 'O' for O
+ * Encode a cell array for storage
+ * App uses null for empty, storage uses ''
  */
-export function boardStateToDbBoard(board: BoardState): string[] {
-  return board.map(cell => cell || '');
+export function encodeCells(cells: readonly (string | null)[]): string[] {
+  return cells.map(cell => cell || '');
 }
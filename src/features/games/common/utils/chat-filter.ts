@@ -0,0 +1,41 @@
+/**
+ * Room chat profanity filter
+ * The default masks a short word list; call setChatFilter to plug in a
+ * stricter one (e.g. a moderation service). Returning null drops the message.
+ */
+export type ChatFilter = (text: string) => string | null;
+
+const BLOCKED_WORDS = [
+  'boludo',
+  'pelotudo',
+  'forro',
+  'mierda',
+  'puto',
+  'puta',
+  'concha',
+  'carajo',
+  'idiota',
+  'imbecil',
+  'imbécil',
+];
+
+const BLOCKED_PATTERN = new RegExp(`\\b(${BLOCKED_WORDS.join('|')})\\b`, 'giu');
+
+export const defaultChatFilter: ChatFilter = (text) =>
+  text.replace(BLOCKED_PATTERN, (word) => '*'.repeat(word.length));
+
+let activeFilter: ChatFilter = defaultChatFilter;
+
+/**
+ * Replace the filter applied to every chat message (sent and received)
+ */
+export function setChatFilter(filter: ChatFilter): void {
+  activeFilter = filter;
+}
+
+/**
+ * Run the active filter on a message
+ */
+export function filterChatMessage(text: string): string | null {
+  return activeFilter(text);
+}
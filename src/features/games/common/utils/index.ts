@@ -1 +1,3 @@
-export { dbBoardToBoardState, boardStateToDbBoard } from './board-utils';
+export { decodeCells, encodeCells } from './board-utils';
+export { defaultChatFilter, setChatFilter, filterChatMessage, type ChatFilter } from './chat-filter';
+export { replayFromRoom, buildReplayFrames, type ReplayMove, type MatchReplay, type ReplayFrame } from './replay';
@@ -0,0 +1,75 @@
+import type { Json } from '@/types/supabase.types';
+import type { RoomSnapshot } from '../../registry/types';
+import { getServerGame } from '../../registry/server';
+
+/**
+ * One move of a recorded game
+ */
+export interface ReplayMove {
+  /** Engine player ID that moved (e.g. 'X', 'R', 'w') */
+  key: string;
+  /** Move as passed to the engine */
+  move: Json;
+  /** ISO timestamp */
+  at: string;
+}
+
+/**
+ * Everything needed to replay a game move by move
+ */
+export interface MatchReplay {
+  /** Serialized starting position (null = the game's initial state) */
+  initialState: Json | null;
+  moves: ReplayMove[];
+}
+
+/**
+ * Board position after a given number of moves
+ */
+export interface ReplayFrame {
+  /** Serialized state (see GameStateSerializer) */
+  state: Json | null;
+  /** When the move leading here was played (null for the starting position) */
+  at: string | null;
+}
+
+interface RoomWithMoveLog extends RoomSnapshot {
+  move_log: { player_id: string; move: Json; created_at: string }[] | null;
+}
+
+/**
+ * Build a replay from an online room's move log (player IDs become engine keys)
+ */
+export function replayFromRoom(gameType: string, room: RoomWithMoveLog): MatchReplay {
+  const definition = getServerGame(gameType);
+  const moves: ReplayMove[] = [];
+
+  for (const entry of room.move_log ?? []) {
+    const key = definition?.playerKey(room, entry.player_id);
+    if (!key) continue;
+    moves.push({ key, move: entry.move, at: entry.created_at });
+  }
+
+  return { initialState: null, moves };
+}
+
+/**
+ * Replay every move through the game engine, one frame per position
+ * Stops at the first move the engine rejects (corrupt or truncated log)
+ */
+export function buildReplayFrames(gameType: string, replay: MatchReplay): ReplayFrame[] {
+  const definition = getServerGame(gameType);
+  if (!definition) return [];
+
+  const engine = new definition.Engine();
+  let state = definition.serializer.deserialize(replay.initialState);
+  const frames: ReplayFrame[] = [{ state: definition.serializer.serialize(state), at: null }];
+
+  for (const { key, move, at } of replay.moves) {
+    if (!engine.isValidMove(state, move, key)) break;
+    state = engine.applyMove(state, move, key);
+    frames.push({ state: definition.serializer.serialize(state), at });
+  }
+
+  return frames;
+}
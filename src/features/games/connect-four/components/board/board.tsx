@@ -0,0 +1,95 @@
+'use client';
+
+import { useState } from 'react';
+import { motion } from 'framer-motion';
+import type { BoardState, Disc } from '../../types';
+import { ROWS, COLUMNS } from '../../types';
+import { getDropRow, toIndex } from '../../engine/game-logic';
+import { DiscMark } from '../disc-mark';
+import { cn } from '@/lib/utils/cn';
+
+interface BoardProps {
+  board: BoardState;
+  onColumnClick: (column: number) => void;
+  /** Disc shown as a preview over the hovered column */
+  currentDisc?: Disc | null;
+  disabled?: boolean;
+  winningLine?: number[] | null;
+  className?: string;
+}
+
+export function Board({
+  board,
+  onColumnClick,
+  currentDisc = null,
+  disabled = false,
+  winningLine = null,
+  className = '',
+}: BoardProps) {
+  const [hoveredColumn, setHoveredColumn] = useState<number | null>(null);
+
+  return (
+    <motion.div
+      data-testid="board"
+      className={cn(
+        'relative grid grid-cols-7 gap-1 sm:gap-2 p-2 sm:p-3',
+        'bg-(--color-primary)/25 border-2 border-(--color-primary)/40 rounded-xl',
+        'backdrop-blur-sm',
+        'w-[min(92vw,420px)] sm:w-[460px]',
+        'landscape:w-[min(70vh,380px)] landscape:gap-1 landscape:p-2',
+        className
+      )}
+      initial={{ opacity: 0, scale: 0.95 }}
+      animate={{ opacity: 1, scale: 1 }}
+      onMouseLeave={() => setHoveredColumn(null)}
+    >
+      {Array.from({ length: COLUMNS }, (_, column) => {
+        const dropRow = getDropRow(board, column);
+        const isClickable = !disabled && dropRow !== -1;
+        const showGhost = isClickable && currentDisc !== null && hoveredColumn === column;
+
+        return (
+          <button
+            key={`column-${column}`}
+            data-testid="column"
+            className={cn(
+              'flex flex-col gap-1 sm:gap-2 rounded-lg p-0.5',
+              'transition-colors duration-200',
+              'focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-(--color-primary)',
+              isClickable ? 'cursor-pointer hover:bg-(--color-primary)/15' : 'cursor-not-allowed'
+            )}
+            onClick={() => isClickable && onColumnClick(column)}
+            onMouseEnter={() => setHoveredColumn(column)}
+            onFocus={() => setHoveredColumn(column)}
+            disabled={!isClickable}
+            aria-label={dropRow === -1 ? `Columna ${column + 1}: llena` : `Columna ${column + 1}`}
+          >
+            {Array.from({ length: ROWS }, (_, row) => {
+              const index = toIndex(row, column);
+              const value = board[index];
+
+              return (
+                <div
+                  key={`cell-${index}`}
+                  className="aspect-square w-full rounded-full bg-(--color-background) shadow-[inset_0_3px_6px_rgba(0,0,0,0.35)]"
+                >
+                  {value ? (
+                    <DiscMark
+                      color={value}
+                      row={row}
+                      isWinning={winningLine?.includes(index) ?? false}
+                    />
+                  ) : (
+                    showGhost && row === dropRow && <DiscMark color={currentDisc} isGhost />
+                  )}
+                </div>
+              );
+            })}
+          </button>
+        );
+      })}
+    </motion.div>
+  );
+}
+
+export default Board;
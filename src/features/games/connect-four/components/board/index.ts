@@ -0,0 +1 @@
+export { Board } from './board';
@@ -0,0 +1,70 @@
+'use client';
+
+import { memo } from 'react';
+import { motion } from 'framer-motion';
+import type { Disc } from '../../types';
+import { cn } from '@/lib/utils/cn';
+
+interface DiscMarkProps {
+  color: Disc;
+  /** Row the disc lands on; the drop animation starts above the board */
+  row?: number;
+  isWinning?: boolean;
+  isGhost?: boolean;
+  className?: string;
+}
+
+// Variants for winning disc animation
+const winningDiscVariants = {
+  idle: { scale: 1 },
+  winning: {
+    scale: [1, 1.12, 1],
+    transition: {
+      duration: 0.6,
+      repeat: 2,
+      ease: [0.4, 0, 0.2, 1] as const
+    }
+  }
+};
+
+export const DiscMark = memo(function DiscMark({
+  color,
+  row = 0,
+  isWinning = false,
+  isGhost = false,
+  className = '',
+}: DiscMarkProps) {
+  const colorClass = color === 'R'
+    ? 'bg-(--color-error) shadow-[inset_0_-4px_0_rgba(0,0,0,0.25)]'
+    : 'bg-(--color-warning) shadow-[inset_0_-4px_0_rgba(0,0,0,0.2)]';
+
+  if (isGhost) {
+    return (
+      <div className={cn('w-full h-full rounded-full opacity-30', colorClass, className)} />
+    );
+  }
+
+  return (
+    <motion.div
+      className="w-full h-full"
+      // Each row is roughly one disc height plus the gap
+      initial={{ y: `-${(row + 1) * 115}%` }}
+      animate={{ y: 0 }}
+      transition={{ type: 'spring', stiffness: 400, damping: 22, mass: 0.8 }}
+    >
+      <motion.div
+        className={cn(
+          'w-full h-full rounded-full',
+          colorClass,
+          isWinning && 'ring-4 ring-(--color-accent)',
+          className
+        )}
+        variants={winningDiscVariants}
+        initial="idle"
+        animate={isWinning ? 'winning' : 'idle'}
+      />
+    </motion.div>
+  );
+});
+
+export default DiscMark;
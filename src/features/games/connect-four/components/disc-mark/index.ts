@@ -0,0 +1 @@
+export { DiscMark } from './disc-mark';
@@ -0,0 +1,6 @@
+export { Board } from './board';
+export { DiscMark } from './disc-mark';
+export { ModeSelection } from './mode-selection';
+export { GameScreen } from './game-screen';
+export { OnlineGame } from './online-game';
+export { SpectatorBoard } from './spectator-board';
@@ -0,0 +1,17 @@
+import type { GameConfig } from '../registry/types';
+
+export const connectFourConfig: GameConfig = {
+  slug: 'connect-four',
+  name: 'Conecta 4',
+  description: 'Alinea cuatro fichas antes que tu rival',
+  icon: 'CircleDot',
+  category: 'board',
+  minPlayers: 2,
+  maxPlayers: 2,
+  supportsAI: true,
+  aiDifficulties: ['easy', 'medium', 'hard', 'impossible'],
+  supportsOnline: true,
+  supportsBetting: true,
+  enabled: true,
+  music: ['board-focus', 'ember-glow'],
+};
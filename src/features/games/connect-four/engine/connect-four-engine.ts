@@ -0,0 +1,60 @@
+import type { AIDifficulty, GameEngine } from '../../registry/types';
+import type { ConnectFourMove, ConnectFourState } from '../types';
+import {
+  createInitialState,
+  dropDisc,
+  isValidMove,
+  checkWinner,
+  checkDraw,
+  getAvailableColumns,
+  getNextDisc,
+} from './game-logic';
+import { getAIMove } from './minimax';
+
+/**
+ * Connect Four engine for the registry contract
+ * Players are identified by their disc ('R' | 'Y'); callers map
+ * room player IDs to discs (player1 = 'R', player2 = 'Y').
+ */
+export class ConnectFourEngine implements GameEngine<ConnectFourState, ConnectFourMove> {
+  getInitialState(): ConnectFourState {
+    return createInitialState();
+  }
+
+  isValidMove(state: ConnectFourState, move: ConnectFourMove, playerId: string): boolean {
+    if (playerId !== state.currentDisc) return false;
+    if (!Number.isInteger(move?.column)) return false;
+    if (this.getWinner(state) || this.isDraw(state)) return false;
+    return isValidMove(state.board, move.column);
+  }
+
+  applyMove(state: ConnectFourState, move: ConnectFourMove, playerId: string): ConnectFourState {
+    if (!this.isValidMove(state, move, playerId)) {
+      throw new Error(`Invalid move: column ${move?.column} for ${playerId}`);
+    }
+
+    return {
+      board: dropDisc(state.board, move.column, state.currentDisc),
+      currentDisc: getNextDisc(state.currentDisc),
+    };
+  }
+
+  getWinner(state: ConnectFourState): string | null {
+    return checkWinner(state.board)?.winner ?? null;
+  }
+
+  isDraw(state: ConnectFourState): boolean {
+    return checkDraw(state.board);
+  }
+
+  getAIMove(state: ConnectFourState, difficulty: AIDifficulty): ConnectFourMove {
+    return { column: getAIMove(state.board, state.currentDisc, difficulty) };
+  }
+
+  getValidMoves(state: ConnectFourState, playerId: string): ConnectFourMove[] {
+    if (playerId !== state.currentDisc || this.getWinner(state)) return [];
+    return getAvailableColumns(state.board).map((column) => ({ column }));
+  }
+}
+
+export default ConnectFourEngine;
@@ -0,0 +1,145 @@
+import type { BoardState, CellValue, ConnectFourState, Disc, WinResult } from '../types';
+import { ROWS, COLUMNS, CONNECT } from '../types';
+
+// Line directions as [rowStep, colStep]: horizontal, vertical, both diagonals
+const DIRECTIONS: readonly [number, number][] = [
+  [0, 1],
+  [1, 0],
+  [1, 1],
+  [1, -1],
+] as const;
+
+/**
+ * Every line of CONNECT cells on the board (used for wins and AI scoring)
+ */
+export const WINNING_LINES: readonly number[][] = (() => {
+  const lines: number[][] = [];
+  for (let row = 0; row < ROWS; row++) {
+    for (let col = 0; col < COLUMNS; col++) {
+      for (const [dRow, dCol] of DIRECTIONS) {
+        const endRow = row + dRow * (CONNECT - 1);
+        const endCol = col + dCol * (CONNECT - 1);
+        if (endRow < 0 || endRow >= ROWS || endCol < 0 || endCol >= COLUMNS) continue;
+        lines.push(Array.from({ length: CONNECT }, (_, i) => toIndex(row + dRow * i, col + dCol * i)));
+      }
+    }
+  }
+  return lines;
+})();
+
+/**
+ * Converts a row/column pair to a flat board index
+ */
+export function toIndex(row: number, column: number): number {
+  return row * COLUMNS + column;
+}
+
+/**
+ * Creates an empty game board
+ */
+export function createInitialBoard(): BoardState {
+  return Array(ROWS * COLUMNS).fill(null);
+}
+
+/**
+ * Creates the initial game state
+ */
+export function createInitialState(): ConnectFourState {
+  return {
+    board: createInitialBoard(),
+    currentDisc: 'R',
+  };
+}
+
+/**
+ * Gets the row a disc would land on in a column
+ * Returns -1 if the column is full
+ */
+export function getDropRow(board: BoardState, column: number): number {
+  for (let row = ROWS - 1; row >= 0; row--) {
+    if (board[toIndex(row, column)] === null) {
+      return row;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Checks if a move is valid
+ */
+export function isValidMove(board: BoardState, column: number): boolean {
+  return Number.isInteger(column) && column >= 0 && column < COLUMNS && board[toIndex(0, column)] === null;
+}
+
+/**
+ * Drops a disc into a column
+ * Returns a new board state (immutable)
+ */
+export function dropDisc(board: BoardState, column: number, disc: CellValue): BoardState {
+  if (column < 0 || column >= COLUMNS) {
+    throw new Error(`Invalid column: ${column}`);
+  }
+
+  const row = getDropRow(board, column);
+  if (row === -1) {
+    throw new Error(`Column ${column} is full`);
+  }
+
+  const newBoard = [...board];
+  newBoard[toIndex(row, column)] = disc;
+  return newBoard;
+}
+
+/**
+ * Checks for a winner
+ * Returns WinResult if there's a winner, null otherwise
+ */
+export function checkWinner(board: BoardState): WinResult | null {
+  for (const line of WINNING_LINES) {
+    const first = board[line[0]];
+    if (first && line.every((index) => board[index] === first)) {
+      return {
+        winner: first,
+        line: [...line],
+      };
+    }
+  }
+  return null;
+}
+
+/**
+ * Checks if the game is a draw
+ * A draw occurs when the board is full and there's no winner
+ */
+export function checkDraw(board: BoardState): boolean {
+  return board.every((cell) => cell !== null) && checkWinner(board) === null;
+}
+
+/**
+ * Gets all columns that still have room
+ */
+export function getAvailableColumns(board: BoardState): number[] {
+  return Array.from({ length: COLUMNS }, (_, column) => column)
+    .filter((column) => isValidMove(board, column));
+}
+
+/**
+ * Switches to the next player's disc
+ */
+export function getNextDisc(current: Disc): Disc {
+  return current === 'R' ? 'Y' : 'R';
+}
+
+/**
+ * Counts the number of moves made
+ */
+export function countMoves(board: BoardState): number {
+  return board.filter((cell) => cell !== null).length;
+}
+
+/**
+ * Checks if the game is over (win or draw)
+ */
+export function isGameOver(board: BoardState): boolean {
+  return checkWinner(board) !== null || checkDraw(board);
+}
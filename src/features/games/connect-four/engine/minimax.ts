@@ -0,0 +1,197 @@
+import type { BoardState, Disc } from '../types';
+import { ROWS, COLUMNS } from '../types';
+import type { AIDifficulty } from '../../registry/types';
+import { WINNING_LINES, getAvailableColumns, getDropRow, dropDisc, getNextDisc, toIndex } from './game-logic';
+
+const WIN_SCORE = 100000;
+
+// Center columns first: better moves are searched earlier, so alpha-beta prunes more
+const COLUMN_ORDER = Array.from({ length: COLUMNS }, (_, column) => column)
+  .sort((a, b) => Math.abs(a - (COLUMNS - 1) / 2) - Math.abs(b - (COLUMNS - 1) / 2));
+
+// Lines through each cell, so a drop only checks the lines it can complete
+const LINES_BY_CELL: number[][][] = Array.from({ length: ROWS * COLUMNS }, (_, index) =>
+  WINNING_LINES.filter((line) => line.includes(index))
+);
+
+/**
+ * Checks if the disc at a cell completes a line
+ */
+function isWinningCell(board: BoardState, index: number): boolean {
+  const disc = board[index];
+  return disc !== null && LINES_BY_CELL[index].some((line) => line.every((cell) => board[cell] === disc));
+}
+
+/**
+ * Scores a single line of four cells for a disc
+ */
+function scoreLine(board: BoardState, line: readonly number[], disc: Disc): number {
+  let own = 0;
+  let opponent = 0;
+  for (const index of line) {
+    if (board[index] === disc) own++;
+    else if (board[index] !== null) opponent++;
+  }
+
+  // Mixed lines can never be completed
+  if (own > 0 && opponent > 0) return 0;
+  if (own === 3) return 5;
+  if (own === 2) return 2;
+  if (opponent === 3) return -4;
+  if (opponent === 2) return -1;
+  return 0;
+}
+
+/**
+ * Static evaluation of a position from the point of view of a disc
+ */
+function evaluate(board: BoardState, disc: Disc): number {
+  const centerColumn = Math.floor(COLUMNS / 2);
+  let score = 0;
+
+  for (let row = 0; row < ROWS; row++) {
+    const cell = board[toIndex(row, centerColumn)];
+    if (cell === disc) score += 3;
+    else if (cell !== null) score -= 3;
+  }
+
+  for (const line of WINNING_LINES) {
+    score += scoreLine(board, line, disc);
+  }
+
+  return score;
+}
+
+/**
+ * Negamax with alpha-beta pruning
+ * Returns the best score for the disc to move
+ *
+ * @param board - Current board state
+ * @param depth - Remaining search depth
+ * @param ply - Moves played since the root (prefer faster wins)
+ * @param disc - Disc to move
+ * @param alpha - Alpha value for pruning
+ * @param beta - Beta value for pruning
+ */
+function negamax(
+  board: BoardState,
+  depth: number,
+  ply: number,
+  disc: Disc,
+  alpha: number,
+  beta: number
+): number {
+  const columns = COLUMN_ORDER.filter((column) => getDropRow(board, column) !== -1);
+
+  // Board full: draw
+  if (columns.length === 0) {
+    return 0;
+  }
+  if (depth === 0) {
+    return evaluate(board, disc);
+  }
+
+  let bestScore = -Infinity;
+  for (const column of columns) {
+    const index = toIndex(getDropRow(board, column), column);
+    const newBoard = dropDisc(board, column, disc);
+
+    const score = isWinningCell(newBoard, index)
+      ? WIN_SCORE - ply
+      : -negamax(newBoard, depth - 1, ply + 1, getNextDisc(disc), -beta, -alpha);
+
+    bestScore = Math.max(bestScore, score);
+    alpha = Math.max(alpha, score);
+    if (alpha >= beta) break; // Alpha-beta pruning
+  }
+
+  return bestScore;
+}
+
+/**
+ * Gets the best column for the AI using negamax
+ * @param maxDepth - Search depth in plies
+ */
+function getBestMove(board: BoardState, aiDisc: Disc, maxDepth: number): number {
+  const availableColumns = COLUMN_ORDER.filter((column) => getDropRow(board, column) !== -1);
+
+  if (availableColumns.length === 0) {
+    throw new Error('No available moves');
+  }
+
+  // Safe to access [0] after length check - use non-null assertion for TypeScript
+  let bestMove = availableColumns[0]!;
+  let bestScore = -Infinity;
+
+  for (const column of availableColumns) {
+    const index = toIndex(getDropRow(board, column), column);
+    const newBoard = dropDisc(board, column, aiDisc);
+
+    const score = isWinningCell(newBoard, index)
+      ? WIN_SCORE
+      : -negamax(newBoard, maxDepth - 1, 1, getNextDisc(aiDisc), -Infinity, -bestScore);
+
+    if (score > bestScore) {
+      bestScore = score;
+      bestMove = column;
+    }
+  }
+
+  return bestMove;
+}
+
+/**
+ * Gets a random available column
+ */
+function getRandomMove(board: BoardState): number {
+  const availableColumns = getAvailableColumns(board);
+
+  if (availableColumns.length === 0) {
+    throw new Error('No available moves');
+  }
+
+  return availableColumns[Math.floor(Math.random() * availableColumns.length)];
+}
+
+/**
+ * Gets an AI move based on difficulty level
+ *
+ * - Easy: 40% shallow search (depth 2), 60% random
+ * - Medium: 80% depth 4 search, 20% random
+ * - Hard: Depth 6 search
+ * - Impossible: Depth 8 search
+ */
+export function getAIMove(
+  board: BoardState,
+  aiDisc: Disc,
+  difficulty: AIDifficulty
+): number {
+  const availableColumns = getAvailableColumns(board);
+
+  if (availableColumns.length === 0) {
+    throw new Error('No available moves');
+  }
+
+  switch (difficulty) {
+    case 'easy': {
+      // 40% shallow search, 60% random
+      return Math.random() < 0.4 ? getBestMove(board, aiDisc, 2) : getRandomMove(board);
+    }
+
+    case 'medium': {
+      // 80% depth 4 search, 20% random
+      return Math.random() < 0.8 ? getBestMove(board, aiDisc, 4) : getRandomMove(board);
+    }
+
+    case 'hard': {
+      return getBestMove(board, aiDisc, 6);
+    }
+
+    case 'impossible':
+    default: {
+      return getBestMove(board, aiDisc, 8);
+    }
+  }
+}
+
+export { getBestMove, getRandomMove };
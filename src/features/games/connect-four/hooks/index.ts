@@ -0,0 +1,4 @@
+export { useConnectFour } from './use-connect-four';
+export type { UseConnectFourOptions, UseConnectFourReturn } from './use-connect-four';
+export { useOnlineGame } from './use-online-game';
+export type { OnlineGameStatus } from './use-online-game';
@@ -0,0 +1,174 @@
+'use client';
+
+import { useState, useCallback, useEffect, useRef } from 'react';
+import type { BoardState, Disc, WinResult } from '../types';
+import type { GameMode, AIDifficulty, Player } from '../../registry/types';
+import {
+  createInitialBoard,
+  dropDisc,
+  checkWinner,
+  checkDraw,
+  isValidMove,
+  getNextDisc,
+} from '../engine/game-logic';
+import { getAIMove } from '../engine/minimax';
+import type { MatchReplay, ReplayMove } from '../../common/utils/replay';
+
+export interface UseConnectFourOptions {
+  mode: GameMode;
+  playerDisc?: Disc;
+  aiDifficulty?: AIDifficulty;
+  /** Called once the game ends, with every move played (for replays) */
+  onGameEnd?: (winner: Player | null, isDraw: boolean, replay: MatchReplay) => void;
+}
+
+export interface UseConnectFourReturn {
+  board: BoardState;
+  currentDisc: Disc;
+  winner: WinResult | null;
+  isDraw: boolean;
+  isGameOver: boolean;
+  isAIThinking: boolean;
+  makePlayerMove: (column: number) => void;
+  resetGame: () => void;
+  gameHistory: BoardState[];
+}
+
+export function useConnectFour({
+  mode,
+  playerDisc = 'R',
+  aiDifficulty = 'medium',
+  onGameEnd,
+}: UseConnectFourOptions): UseConnectFourReturn {
+  const [board, setBoard] = useState<BoardState>(createInitialBoard);
+  const [currentDisc, setCurrentDisc] = useState<Disc>('R');
+  const [winner, setWinner] = useState<WinResult | null>(null);
+  const [isDraw, setIsDraw] = useState(false);
+  const [isAIThinking, setIsAIThinking] = useState(false);
+  const [gameHistory, setGameHistory] = useState<BoardState[]>([]);
+
+  // Ref to track if AI move is being processed (fixes StrictMode double-execution)
+  const aiMoveInProgressRef = useRef(false);
+  // Moves with timestamps for the replay (not rendered, so kept out of state)
+  const moveLogRef = useRef<ReplayMove[]>([]);
+
+  const isGameOver = winner !== null || isDraw;
+  const aiDisc = getNextDisc(playerDisc);
+  const isAITurn = mode === 'ai' && currentDisc === aiDisc && !isGameOver;
+
+  // Reset game
+  const resetGame = useCallback(() => {
+    setBoard(createInitialBoard());
+    setCurrentDisc('R');
+    setWinner(null);
+    setIsDraw(false);
+    setIsAIThinking(false);
+    setGameHistory([]);
+    moveLogRef.current = [];
+    aiMoveInProgressRef.current = false;
+  }, []);
+
+  // Drop a disc (for both player and AI)
+  const executeMove = useCallback(
+    (column: number, disc: Disc) => {
+      if (!isValidMove(board, column) || isGameOver) {
+        return false;
+      }
+
+      const newBoard = dropDisc(board, column, disc);
+      setBoard(newBoard);
+      setGameHistory((prev) => [...prev, newBoard]);
+      moveLogRef.current = [
+        ...moveLogRef.current,
+        { key: disc, move: { column }, at: new Date().toISOString() },
+      ];
+      const replay: MatchReplay = { initialState: null, moves: moveLogRef.current };
+
+      // Check for winner
+      const winResult = checkWinner(newBoard);
+      if (winResult) {
+        setWinner(winResult);
+        if (onGameEnd) {
+          const winnerPlayer: Player = {
+            id: winResult.winner,
+            name: winResult.winner === playerDisc ? 'You' : 'AI',
+            isAI: winResult.winner !== playerDisc,
+          };
+          onGameEnd(winnerPlayer, false, replay);
+        }
+        return true;
+      }
+
+      // Check for draw
+      if (checkDraw(newBoard)) {
+        setIsDraw(true);
+        if (onGameEnd) {
+          onGameEnd(null, true, replay);
+        }
+        return true;
+      }
+
+      // Switch turn
+      setCurrentDisc(getNextDisc(disc));
+      return true;
+    },
+    [board, isGameOver, onGameEnd, playerDisc]
+  );
+
+  // Player makes a move
+  const makePlayerMove = useCallback(
+    (column: number) => {
+      if (isAIThinking || isAITurn) {
+        return; // Don't allow moves during AI's turn
+      }
+
+      if (mode === 'ai' && currentDisc !== playerDisc) {
+        return; // Not player's turn in AI mode
+      }
+
+      executeMove(column, currentDisc);
+    },
+    [isAIThinking, isAITurn, mode, currentDisc, playerDisc, executeMove]
+  );
+
+  // AI makes a move
+  useEffect(() => {
+    // Use ref to prevent double-execution in StrictMode
+    if (!isAITurn || aiMoveInProgressRef.current) {
+      return;
+    }
+
+    aiMoveInProgressRef.current = true;
+    setIsAIThinking(true); // eslint-disable-line react-hooks/set-state-in-effect -- AI state coordination
+
+    // Deeper searches take longer on their own, so they get a shorter delay
+    const delay = aiDifficulty === 'easy' ? 400 : aiDifficulty === 'medium' ? 500 : 300;
+
+    const timeoutId = setTimeout(() => {
+      const aiMove = getAIMove(board, aiDisc, aiDifficulty);
+      executeMove(aiMove, aiDisc);
+      setIsAIThinking(false);
+      aiMoveInProgressRef.current = false;
+    }, delay);
+
+    return () => {
+      clearTimeout(timeoutId);
+      // The timeout never ran, so let the next effect run schedule the move again
+      aiMoveInProgressRef.current = false;
+    };
+  }, [isAITurn, board, aiDisc, aiDifficulty, executeMove]);
+
+  return {
+    board,
+    currentDisc,
+    winner,
+    isDraw,
+    isGameOver,
+    isAIThinking,
+    makePlayerMove,
+    resetGame,
+    gameHistory,
+  };
+}
+
+export default useConnectFour;
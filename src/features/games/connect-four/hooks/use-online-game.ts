@@ -0,0 +1,308 @@
+'use client';
+
+import { useState, useCallback, useRef, useEffect } from 'react';
+import {
+  useOnlineGameCore,
+  type OnlineGameStatus,
+  type RematchStatus,
+  type NegotiationInfo,
+  type FinishReason,
+  type RatingChange,
+} from '../../common/hooks/use-online-game-core';
+import type { RoomChatReturn } from '../../common/hooks/use-room-chat';
+import { gameRoomService, type GameRoom, type GameRoomWithPlayers, type ConnectionStatus } from '../../common/services/game-room-service';
+import { checkWinner, createInitialBoard, getDropRow, toIndex } from '../engine/game-logic';
+import { connectFourSerializer } from '../serializer';
+import { createLogger } from '@/lib/utils/logger';
+import type { BoardState, ConnectFourMove, Disc, WinResult } from '../types';
+
+const _log = createLogger({ prefix: 'ConnectFourOnline' });
+void _log; // Reserved for future debugging
+
+export type { OnlineGameStatus, RematchStatus };
+
+// Board from the room's serialized state
+function boardFromRoom(room: GameRoom): BoardState {
+  return connectFourSerializer.deserialize(room.state).board;
+}
+
+interface UseOnlineGameOptions {
+  userId: string;
+  onGameEnd?: (winnerId: string | null, isDraw: boolean, myDisc: Disc) => void;
+}
+
+interface UseOnlineGameReturn {
+  status: OnlineGameStatus;
+  room: GameRoomWithPlayers | null;
+  board: BoardState;
+  myDisc: Disc | null;
+  isMyTurn: boolean;
+  winner: WinResult | null;
+  isDraw: boolean;
+  opponentName: string | null;
+  isPrivateRoom: boolean;
+  findMatch: () => Promise<void>;
+  createPrivateRoom: () => Promise<void>;
+  joinRoom: (roomId: string) => Promise<void>;
+  joinLobbyRoom: (roomId: string) => Promise<void>;
+  makeMove: (column: number) => Promise<boolean>;
+  leaveGame: () => Promise<void>;
+  error: string | null;
+  connectionStatus: ConnectionStatus;
+  rematchStatus: RematchStatus;
+  requestRematch: () => Promise<void>;
+  acceptRematch: () => Promise<void>;
+  declineRematch: () => Promise<void>;
+  betAmount: number | null;
+  potTotal: number;
+  findMatchWithBet: (amount: number) => Promise<boolean>;
+  createPrivateRoomWithBet: (amount: number) => Promise<boolean>;
+  // Negotiation
+  negotiation: NegotiationInfo;
+  submitBetProposal: (amount: number) => Promise<void>;
+  acceptBetProposal: () => Promise<void>;
+  skipBetting: () => Promise<void>;
+  // Turn clock
+  turnDeadline: string | null;
+  finishReason: FinishReason | null;
+  ratingChange: RatingChange | null;
+  // Disconnect grace period and resume
+  isOpponentOnline: boolean;
+  opponentDisconnectDeadline: string | null;
+  activeRoom: GameRoomWithPlayers | null;
+  resumeGame: () => Promise<void>;
+  abandonActiveRoom: () => Promise<void>;
+  // Chat
+  chat: RoomChatReturn;
+  /** Whether this player won (also covers forfeits and timeouts) */
+  didWin: boolean;
+}
+
+export function useOnlineGame({ userId, onGameEnd }: UseOnlineGameOptions): UseOnlineGameReturn {
+  // Connect Four specific state
+  const [board, setBoard] = useState<BoardState>(createInitialBoard);
+  const [winner, setWinner] = useState<WinResult | null>(null);
+  const [isDraw, setIsDraw] = useState(false);
+
+  const onGameEndRef = useRef(onGameEnd);
+   
+  onGameEndRef.current = onGameEnd;
+  const finishTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const setStatusRef = useRef<((status: OnlineGameStatus) => void) | null>(null);
+
+  // Handle room updates - Connect Four specific logic
+  const handleRoomUpdate = useCallback((updatedRoom: GameRoom) => {
+    const newBoard = boardFromRoom(updatedRoom);
+    setBoard(newBoard);
+  }, []);
+
+  // Handle game finished - Connect Four specific logic
+  const handleGameFinished = useCallback((updatedRoom: GameRoom) => {
+    const newBoard = boardFromRoom(updatedRoom);
+    const disc: Disc = updatedRoom.player1_id === userId ? 'R' : 'Y';
+
+    // Update board and winner to show the last move
+    if (updatedRoom.is_draw) {
+      setIsDraw(true);
+    } else if (updatedRoom.winner_id) {
+      const winResult = checkWinner(newBoard);
+      setWinner(winResult);
+    }
+
+    // Delay status change to allow animations
+    finishTimeoutRef.current = setTimeout(() => {
+      setStatusRef.current?.('finished');
+      if (updatedRoom.is_draw) {
+        onGameEndRef.current?.(null, true, disc);
+      } else if (updatedRoom.winner_id) {
+        onGameEndRef.current?.(updatedRoom.winner_id, false, disc);
+      }
+    }, 1200);
+  }, [userId]);
+
+  // Use the core hook
+  const core = useOnlineGameCore({
+    userId,
+    gameType: 'connect-four',
+    onRoomUpdate: handleRoomUpdate,
+    onGameFinished: handleGameFinished,
+  });
+
+  // Update ref to allow callbacks to access core.setStatus
+   
+  setStatusRef.current = core.setStatus;
+
+  // Derived state
+  const myDisc: Disc | null = core.room
+    ? core.room.player1_id === userId
+      ? 'R'
+      : 'Y'
+    : null;
+
+  const isMyTurn = core.room?.status === 'playing' && core.room?.current_turn === userId;
+
+  const opponentName = core.room
+    ? core.room.player1_id === userId
+      ? core.room.player2?.username || null
+      : core.room.player1?.username || null
+    : null;
+
+  // Sync with server
+  const syncWithServer = useCallback(async () => {
+    if (!core.room) return;
+    const freshRoom = await gameRoomService.getRoom(core.room.id);
+    if (freshRoom) {
+      core.setRoom(freshRoom);
+      setBoard(boardFromRoom(freshRoom));
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps -- core.setRoom is stable, only room.id matters
+  }, [core.room]);
+
+  // Make a move - Connect Four specific
+  // The server validates the move and derives winner/draw; we only render optimistically
+  const makeMove = useCallback(async (column: number): Promise<boolean> => {
+    if (!core.room || !myDisc) return false;
+    const row = getDropRow(board, column);
+    if (row === -1) return false;
+
+    // Save state for potential rollback
+    const previousBoard = [...board] as BoardState;
+
+    // Optimistic update
+    const newBoard = [...board] as BoardState;
+    newBoard[toIndex(row, column)] = myDisc;
+    setBoard(newBoard);
+
+    const result = await gameRoomService.makeMove<ConnectFourMove>(
+      core.room.id,
+      'connect-four',
+      { column }
+    );
+
+    if (!result.success) {
+      setBoard(previousBoard);
+
+      if (result.conflict && result.currentRoom) {
+        core.setRoom(prev => prev ? { ...prev, ...result.currentRoom } : null);
+        setBoard(boardFromRoom(result.currentRoom));
+
+        if (result.currentRoom.status === 'finished') {
+          core.setStatus('finished');
+          if (result.currentRoom.is_draw) {
+            setIsDraw(true);
+          } else if (result.currentRoom.winner_id) {
+            const serverBoard = boardFromRoom(result.currentRoom);
+            const serverWinResult = checkWinner(serverBoard);
+            if (serverWinResult) setWinner(serverWinResult);
+          }
+        }
+      } else {
+        await syncWithServer();
+      }
+      return false;
+    }
+
+    const serverRoom = result.currentRoom;
+    if (serverRoom) {
+      const serverBoard = boardFromRoom(serverRoom);
+      setBoard(serverBoard);
+
+      if (serverRoom.status === 'finished') {
+        const winResult = serverRoom.winner_id ? checkWinner(serverBoard) : null;
+        if (winResult) setWinner(winResult);
+        setIsDraw(serverRoom.is_draw);
+        core.setStatus('finished');
+        onGameEndRef.current?.(serverRoom.winner_id, serverRoom.is_draw, myDisc);
+      }
+    }
+
+    return true;
+    // eslint-disable-next-line react-hooks/exhaustive-deps -- core methods are stable, only room/board matter
+  }, [core.room, board, myDisc, syncWithServer]);
+
+  // Extended leave game to reset Connect Four state
+  const leaveGame = useCallback(async () => {
+    await core.leaveGame();
+    setBoard(createInitialBoard());
+    setWinner(null);
+    setIsDraw(false);
+    // eslint-disable-next-line react-hooks/exhaustive-deps -- core.leaveGame is a stable reference
+  }, [core.leaveGame]);
+
+  // Cleanup timeout on unmount
+  useEffect(() => {
+    return () => {
+      if (finishTimeoutRef.current) {
+        clearTimeout(finishTimeoutRef.current);
+      }
+    };
+  }, []);
+
+  // Note: Playing-state polling is now handled by useOnlineGameCore
+  // which calls handleRoomUpdate and handleGameFinished when changes are detected
+
+  // Update room data on status transition to playing
+  const prevStatusRef = useRef<OnlineGameStatus>('idle');
+  useEffect(() => {
+    const prevStatus = prevStatusRef.current;
+    prevStatusRef.current = core.status;
+
+    if (core.status === 'playing' && prevStatus !== 'playing' && core.room) {
+      gameRoomService.getRoom(core.room.id).then(updatedRoom => {
+        if (updatedRoom) {
+          core.setRoom(updatedRoom);
+          setBoard(boardFromRoom(updatedRoom));
+        }
+      });
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps -- core.setRoom is stable, only status/room.id matter
+  }, [core.status, core.room?.id]);
+
+  return {
+    status: core.status,
+    room: core.room,
+    board,
+    myDisc,
+    isMyTurn,
+    winner,
+    isDraw,
+    opponentName,
+    isPrivateRoom: core.isPrivateRoom,
+    findMatch: core.findMatch,
+    createPrivateRoom: core.createPrivateRoom,
+    joinRoom: core.joinRoom,
+    joinLobbyRoom: core.joinLobbyRoom,
+    makeMove,
+    leaveGame,
+    error: core.error,
+    connectionStatus: core.connectionStatus,
+    rematchStatus: core.rematchStatus,
+    requestRematch: core.requestRematch,
+    acceptRematch: core.acceptRematch,
+    declineRematch: core.declineRematch,
+    betAmount: core.betAmount,
+    potTotal: core.potTotal,
+    findMatchWithBet: core.findMatchWithBet,
+    createPrivateRoomWithBet: core.createPrivateRoomWithBet,
+    // Negotiation
+    negotiation: core.negotiation,
+    submitBetProposal: core.submitBetProposal,
+    acceptBetProposal: core.acceptBetProposal,
+    skipBetting: core.skipBetting,
+    // Turn clock
+    turnDeadline: core.turnDeadline,
+    finishReason: core.finishReason,
+    ratingChange: core.ratingChange,
+    // Disconnect grace period and resume
+    isOpponentOnline: core.isOpponentOnline,
+    opponentDisconnectDeadline: core.opponentDisconnectDeadline,
+    activeRoom: core.activeRoom,
+    resumeGame: core.resumeGame,
+    abandonActiveRoom: core.abandonActiveRoom,
+    // Chat
+    chat: core.chat,
+    didWin: core.room?.status === 'finished' && core.room.winner_id === userId,
+  };
+}
+
+export default useOnlineGame;
@@ -0,0 +1,26 @@
+import type { GameModule } from '../registry/types';
+import { ConnectFour } from './connect-four';
+import { connectFourConfig } from './config';
+import { ConnectFourEngine } from './engine/connect-four-engine';
+import { connectFourSerializer } from './serializer';
+import { SpectatorBoard } from './components/spectator-board';
+
+// Export the game module
+const connectFourModule: GameModule = {
+  config: connectFourConfig,
+  Component: ConnectFour,
+  Engine: ConnectFourEngine,
+  serializer: connectFourSerializer,
+  SpectatorBoard,
+};
+
+export default connectFourModule;
+
+// Named exports for convenience
+export { ConnectFour } from './connect-four';
+export { connectFourConfig } from './config';
+export { ConnectFourEngine } from './engine/connect-four-engine';
+export { connectFourSerializer } from './serializer';
+export * from './types';
+export * from './hooks';
+export * from './components';
@@ -0,0 +1,26 @@
+import type { GameStateSerializer } from '../registry/types';
+import type { ConnectFourState } from './types';
+import { ROWS, COLUMNS } from './types';
+import { createInitialState } from './engine/game-logic';
+import { decodeCells, encodeCells } from '../common/utils/board-utils';
+
+// Stored as { board: ['', 'R', 'Y', ...] (42 cells, row-major), turn: 'R' }
+export const connectFourSerializer: GameStateSerializer<ConnectFourState> = {
+  serialize(state) {
+    return {
+      board: encodeCells(state.board),
+      turn: state.currentDisc,
+    };
+  },
+
+  deserialize(data) {
+    if (!data || typeof data !== 'object' || Array.isArray(data)) {
+      return createInitialState();
+    }
+
+    return {
+      board: decodeCells(data.board, ['R', 'Y'] as const, ROWS * COLUMNS),
+      currentDisc: data.turn === 'Y' ? 'Y' : 'R',
+    };
+  },
+};
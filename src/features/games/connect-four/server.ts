@@ -0,0 +1,27 @@
+import type { RoomSnapshot, ServerGameDefinition } from '../registry/types';
+import type { ConnectFourMove, ConnectFourState, Disc } from './types';
+import { ConnectFourEngine } from './engine/connect-four-engine';
+import { connectFourSerializer } from './serializer';
+
+// player1 plays red (and starts), player2 plays yellow
+function discFor(room: RoomSnapshot, userId: string | null): Disc | null {
+  if (!userId) return null;
+  if (room.player1_id === userId) return 'R';
+  if (room.player2_id === userId) return 'Y';
+  return null;
+}
+
+export const connectFourServerGame: ServerGameDefinition<ConnectFourState, ConnectFourMove> = {
+  Engine: ConnectFourEngine,
+  serializer: connectFourSerializer,
+
+  playerKey(room, userId) {
+    return discFor(room, userId);
+  },
+
+  userIdForKey(room, key) {
+    if (key === 'R') return room.player1_id;
+    if (key === 'Y') return room.player2_id;
+    return null;
+  },
+};
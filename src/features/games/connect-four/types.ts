@@ -0,0 +1,29 @@
+export type Disc = 'R' | 'Y';
+
+export type CellValue = Disc | null;
+
+// Flat row-major board, row 0 is the top row
+export type BoardState = CellValue[];
+
+export interface ConnectFourState {
+  board: BoardState;
+  currentDisc: Disc;
+}
+
+export interface ConnectFourMove {
+  column: number;
+}
+
+export interface WinResult {
+  winner: Disc;
+  line: number[];
+}
+
+export const ROWS = 6;
+export const COLUMNS = 7;
+export const CONNECT = 4;
+
+export const DISC_NAMES: Record<Disc, string> = {
+  R: 'Rojas',
+  Y: 'Amarillas',
+};
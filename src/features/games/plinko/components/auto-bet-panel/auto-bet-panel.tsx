@@ -0,0 +1,263 @@
+'use client';
+
+import { useCallback } from 'react';
+import { Infinity as InfinityIcon } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { cn } from '@/lib/utils/cn';
+import { formatBalance } from '@/features/wallet/store/wallet-store';
+import type { AutoBetRule, AutoBetStopReason } from '../../types';
+import { MIN_AUTO_INTERVAL, type UsePlinkoAutoBetReturn } from '../../hooks/use-plinko-auto-bet';
+
+const STOP_REASON_LABELS: Record<AutoBetStopReason, string> = {
+  completed: 'Rondas completadas',
+  manual: 'Detenido',
+  profit: 'Objetivo de ganancia alcanzado',
+  loss: 'Límite de pérdida alcanzado',
+  balance: 'Saldo insuficiente',
+  bet_limit: 'La apuesta aumentada superó el máximo o tu saldo',
+  error: 'No se pudo realizar la apuesta',
+};
+
+interface AutoBetPanelProps {
+  autoBet: UsePlinkoAutoBetReturn;
+}
+
+const inputClassName = cn(
+  'w-full px-3 py-2 rounded-lg text-sm font-bold text-center',
+  'bg-(--color-background) border-2 border-(--color-border)',
+  'focus-visible:outline-none focus-visible:border-(--color-primary) focus-visible:ring-2 focus-visible:ring-(--color-primary)/30',
+  'placeholder:text-(--color-text-subtle) placeholder:font-normal',
+  '[appearance:textfield] [&::-webkit-outer-spin-button]:appearance-none [&::-webkit-inner-spin-button]:appearance-none',
+  'disabled:opacity-50 disabled:cursor-not-allowed'
+);
+
+const labelClassName = 'block text-[10px] sm:text-xs font-semibold text-(--color-text-muted) mb-1.5 uppercase tracking-wider';
+
+// Empty input = no limit
+function parseOptionalAmount(value: string): number | null {
+  const amount = parseFloat(value);
+  return isNaN(amount) || amount <= 0 ? null : amount;
+}
+
+interface RuleInputProps {
+  id: string;
+  label: string;
+  rule: AutoBetRule;
+  disabled: boolean;
+  onChange: (rule: AutoBetRule) => void;
+}
+
+function RuleInput({ id, label, rule, disabled, onChange }: RuleInputProps) {
+  return (
+    <div>
+      <label htmlFor={id} className={labelClassName}>
+        {label}
+      </label>
+      <div className="flex items-center gap-1.5">
+        <Button
+          onClick={() => onChange({ ...rule, action: 'reset' })}
+          disabled={disabled}
+          variant={rule.action === 'reset' ? 'primary' : 'ghost'}
+          size="xs"
+          scale="none"
+          className="h-9 px-2 rounded-md text-xs"
+          aria-pressed={rule.action === 'reset'}
+        >
+          Reiniciar
+        </Button>
+        <Button
+          onClick={() => onChange({ ...rule, action: 'increase' })}
+          disabled={disabled}
+          variant={rule.action === 'increase' ? 'primary' : 'ghost'}
+          size="xs"
+          scale="none"
+          className="h-9 px-2 rounded-md text-xs"
+          aria-pressed={rule.action === 'increase'}
+        >
+          Aumentar
+        </Button>
+        <div className="relative flex-1">
+          <input
+            id={id}
+            type="number"
+            inputMode="decimal"
+            min="0"
+            value={rule.percent}
+            onChange={(e) => onChange({ ...rule, percent: Math.max(0, parseFloat(e.target.value) || 0) })}
+            disabled={disabled || rule.action === 'reset'}
+            aria-label={`${label}: porcentaje de aumento`}
+            className={cn(inputClassName, 'pr-6')}
+          />
+          <span className="absolute right-2.5 top-1/2 -translate-y-1/2 text-xs text-(--color-text-muted)">%</span>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export function AutoBetPanel({ autoBet }: AutoBetPanelProps) {
+  const {
+    config,
+    isRunning,
+    roundsPlayed,
+    sessionProfit,
+    currentBet,
+    stopReason,
+    updateConfig,
+  } = autoBet;
+
+  const isInfinite = config.rounds === 0;
+
+  const handleRoundsChange = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
+    const rounds = parseInt(e.target.value, 10);
+    updateConfig({ rounds: isNaN(rounds) ? 1 : Math.max(1, rounds) });
+  }, [updateConfig]);
+
+  const handleToggleInfinite = useCallback(() => {
+    updateConfig({ rounds: isInfinite ? 10 : 0 });
+  }, [isInfinite, updateConfig]);
+
+  const handleIntervalChange = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
+    const seconds = parseFloat(e.target.value);
+    updateConfig({ intervalMs: isNaN(seconds) ? MIN_AUTO_INTERVAL : Math.max(MIN_AUTO_INTERVAL, seconds * 1000) });
+  }, [updateConfig]);
+
+  return (
+    <div className="space-y-3 sm:space-y-4">
+      {/* Rondas e intervalo */}
+      <div className="grid grid-cols-2 gap-2">
+        <div>
+          <label htmlFor="auto-rounds" className={labelClassName}>
+            Rondas
+          </label>
+          <div className="flex items-center gap-1">
+            <input
+              id="auto-rounds"
+              type="number"
+              inputMode="numeric"
+              min="1"
+              value={isInfinite ? '' : config.rounds}
+              placeholder="∞"
+              onChange={handleRoundsChange}
+              disabled={isRunning || isInfinite}
+              className={inputClassName}
+            />
+            <Button
+              onClick={handleToggleInfinite}
+              disabled={isRunning}
+              variant={isInfinite ? 'primary' : 'ghost'}
+              size="xs"
+              scale="none"
+              className="w-9 h-9 p-0 rounded-md shrink-0"
+              aria-label="Rondas infinitas"
+              aria-pressed={isInfinite}
+            >
+              <InfinityIcon size={16} />
+            </Button>
+          </div>
+        </div>
+
+        <div>
+          <label htmlFor="auto-interval" className={labelClassName}>
+            Intervalo (s)
+          </label>
+          <input
+            id="auto-interval"
+            type="number"
+            inputMode="decimal"
+            min={MIN_AUTO_INTERVAL / 1000}
+            step="0.25"
+            value={config.intervalMs / 1000}
+            onChange={handleIntervalChange}
+            disabled={isRunning}
+            className={inputClassName}
+          />
+        </div>
+      </div>
+
+      {/* Reglas */}
+      <RuleInput
+        id="auto-on-win"
+        label="Al ganar"
+        rule={config.onWin}
+        disabled={isRunning}
+        onChange={(onWin) => updateConfig({ onWin })}
+      />
+      <RuleInput
+        id="auto-on-loss"
+        label="Al perder"
+        rule={config.onLoss}
+        disabled={isRunning}
+        onChange={(onLoss) => updateConfig({ onLoss })}
+      />
+
+      {/* Límites */}
+      <div className="grid grid-cols-2 gap-2">
+        <div>
+          <label htmlFor="auto-stop-profit" className={labelClassName}>
+            Parar al ganar
+          </label>
+          <input
+            id="auto-stop-profit"
+            type="number"
+            inputMode="decimal"
+            min="0"
+            placeholder="Sin límite"
+            value={config.stopOnProfit ?? ''}
+            onChange={(e) => updateConfig({ stopOnProfit: parseOptionalAmount(e.target.value) })}
+            disabled={isRunning}
+            className={inputClassName}
+          />
+        </div>
+        <div>
+          <label htmlFor="auto-stop-loss" className={labelClassName}>
+            Parar al perder
+          </label>
+          <input
+            id="auto-stop-loss"
+            type="number"
+            inputMode="decimal"
+            min="0"
+            placeholder="Sin límite"
+            value={config.stopOnLoss ?? ''}
+            onChange={(e) => updateConfig({ stopOnLoss: parseOptionalAmount(e.target.value) })}
+            disabled={isRunning}
+            className={inputClassName}
+          />
+        </div>
+      </div>
+
+      {/* Sesión en vivo */}
+      <div className="grid grid-cols-3 gap-1 py-1.5 sm:py-2 px-2 sm:px-3 rounded-lg bg-(--color-background)/50 border border-(--color-border)">
+        <div>
+          <p className="text-[9px] sm:text-[10px] text-(--color-text-muted) uppercase tracking-wide">Rondas</p>
+          <p className="text-sm font-bold text-(--color-text)">
+            {roundsPlayed}{!isInfinite && `/${config.rounds}`}
+          </p>
+        </div>
+        <div>
+          <p className="text-[9px] sm:text-[10px] text-(--color-text-muted) uppercase tracking-wide">Apuesta</p>
+          <p className="text-sm font-bold text-(--color-text)">{formatBalance(currentBet)}</p>
+        </div>
+        <div className="text-right">
+          <p className="text-[9px] sm:text-[10px] text-(--color-text-muted) uppercase tracking-wide">Sesión</p>
+          <p
+            className={cn(
+              'text-sm font-bold',
+              sessionProfit >= 0 ? 'text-(--color-success)' : 'text-(--color-error)'
+            )}
+            aria-live="polite"
+          >
+            {sessionProfit >= 0 ? '+' : ''}{formatBalance(sessionProfit)}
+          </p>
+        </div>
+      </div>
+
+      {!isRunning && stopReason && (
+        <p className="text-[11px] text-(--color-text-subtle) text-center" role="status">
+          {STOP_REASON_LABELS[stopReason]}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1 @@
+export { AutoBetPanel } from './auto-bet-panel';
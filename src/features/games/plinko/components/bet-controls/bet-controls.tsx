@@ -6,26 +6,35 @@ import { Button } from '@/components/ui/button';
 import { cn } from '@/lib/utils/cn';
 import { formatBalance } from '@/features/wallet/store/wallet-store';
 import { MIN_BALL_COUNT, MAX_BALL_COUNT, type BallCount } from '../../hooks/use-plinko-game';
-import type { RowCount, BallSpeed } from '../../types';
+import type { UsePlinkoAutoBetReturn } from '../../hooks/use-plinko-auto-bet';
+import { AutoBetPanel } from '../auto-bet-panel';
+import type { RowCount, RiskLevel, BallSpeed } from '../../types';
 import { SPEED_CONFIG } from '../../engine/physics-config';
+import { RISK_LABELS } from '../../engine/multipliers';
+import { BET_CONFIG } from '../../../common/constants';
 
 const SPEED_OPTIONS: BallSpeed[] = ['slow', 'normal', 'fast'];
+const RISK_OPTIONS: RiskLevel[] = ['low', 'medium', 'high'];
 
-type TabType = 'bet' | 'config';
+type TabType = 'bet' | 'auto' | 'config';
 
 interface BetControlsProps {
   betAmount: number;
   ballCount: BallCount;
   balance: number;
   rows: RowCount;
+  risk: RiskLevel;
   speed: BallSpeed;
   isDropping: boolean;
   isAuthenticated: boolean;
   onBetChange: (amount: number) => void;
   onBallCountChange: (count: BallCount) => void;
   onRowsChange: (rows: RowCount) => void;
+  onRiskChange: (risk: RiskLevel) => void;
   onSpeedChange: (speed: BallSpeed) => void;
   onDrop: () => void;
+  autoBet: UsePlinkoAutoBetReturn;
+  onAutoStart: () => void;
 }
 
 export function BetControls({
@@ -33,20 +42,24 @@ export function BetControls({
   ballCount,
   balance,
   rows,
+  risk,
   speed,
   isDropping,
   isAuthenticated,
   onBetChange,
   onBallCountChange,
   onRowsChange,
+  onRiskChange,
   onSpeedChange,
   onDrop,
+  autoBet,
+  onAutoStart,
 }: BetControlsProps) {
   const [inputValue, setInputValue] = useState(betAmount.toString());
   const [activeTab, setActiveTab] = useState<TabType>('bet');
 
   const totalBet = betAmount * ballCount;
-  const maxBet = Math.floor(balance / ballCount);
+  const maxBet = Math.min(BET_CONFIG.MAX_BET, Math.floor(balance / ballCount));
   const isDisabled = isDropping || !isAuthenticated;
 
   // Bet amount handlers
@@ -54,7 +67,7 @@ export function BetControls({
     const value = e.target.value;
     setInputValue(value);
     const numValue = parseInt(value, 10);
-    if (!isNaN(numValue) && numValue > 0 && numValue * ballCount <= balance) {
+    if (!isNaN(numValue) && numValue > 0 && numValue <= BET_CONFIG.MAX_BET && numValue * ballCount <= balance) {
       onBetChange(numValue);
     }
   }, [balance, ballCount, onBetChange]);
@@ -99,6 +112,11 @@ export function BetControls({
     onRowsChange(value);
   }, [onRowsChange]);
 
+  // Risk handler
+  const handleRiskChange = useCallback((riskOption: RiskLevel) => {
+    onRiskChange(riskOption);
+  }, [onRiskChange]);
+
   // Speed handler
   const handleSpeedChange = useCallback((speedOption: BallSpeed) => {
     onSpeedChange(speedOption);
@@ -122,6 +140,18 @@ export function BetControls({
         >
           Apuesta
         </button>
+        <button
+          type="button"
+          className={cn(
+            'flex-1 py-1.5 sm:py-2 px-2 sm:px-3 rounded-md text-xs sm:text-sm font-semibold transition-colors',
+            activeTab === 'auto'
+              ? 'bg-(--color-surface-elevated) text-(--color-text)'
+              : 'text-(--color-text-muted) hover:text-(--color-text)'
+          )}
+          onClick={() => setActiveTab('auto')}
+        >
+          Auto
+        </button>
         <button
           type="button"
           className={cn(
@@ -137,7 +167,9 @@ export function BetControls({
       </div>
 
       {/* Tab content */}
-      {activeTab === 'bet' ? (
+      {activeTab === 'auto' && <AutoBetPanel autoBet={autoBet} />}
+
+      {activeTab === 'bet' && (
         <div className="space-y-3 sm:space-y-4">
           {/* Apuesta por bola */}
           <div>
@@ -259,8 +291,38 @@ export function BetControls({
             </div>
           </div>
         </div>
-      ) : (
+      )}
+
+      {activeTab === 'config' && (
         <div className="space-y-3 sm:space-y-4">
+          {/* Riesgo */}
+          <div>
+            <label className="block text-xs font-semibold text-(--color-text-muted) mb-2 uppercase tracking-wider">
+              Riesgo
+            </label>
+
+            <div className="flex items-center gap-1.5">
+              {RISK_OPTIONS.map((riskOption) => {
+                const isSelected = risk === riskOption;
+                return (
+                  <Button
+                    key={riskOption}
+                    onClick={() => handleRiskChange(riskOption)}
+                    disabled={isDropping}
+                    variant={isSelected ? 'primary' : 'ghost'}
+                    size="xs"
+                    scale="none"
+                    className="flex-1 h-9 px-2 rounded-md text-xs"
+                    aria-label={`Riesgo ${RISK_LABELS[riskOption]}`}
+                    aria-pressed={isSelected}
+                  >
+                    {RISK_LABELS[riskOption]}
+                  </Button>
+                );
+              })}
+            </div>
+          </div>
+
           {/* Filas - Slider */}
           <div>
             <div className="flex items-center justify-between mb-2">
@@ -344,7 +406,7 @@ export function BetControls({
 
           {/* Info text */}
           <p className="text-[11px] text-(--color-text-subtle) text-center">
-            Más filas = más multiplicadores posibles
+            Más filas y más riesgo = multiplicadores más extremos
           </p>
         </div>
       )}
@@ -362,25 +424,48 @@ export function BetControls({
         </p>
       )}
 
-      {/* Drop button - always visible */}
-      <Button
-        onClick={onDrop}
-        disabled={!canDrop}
-        variant="primary"
-        size="lg"
-        className="w-full text-sm sm:text-base font-bold h-10 sm:h-12"
-      >
-        {isDropping ? (
-          <span className="flex items-center gap-2">
-            <span className="animate-bounce">●</span>
-            Cayendo...
-          </span>
+      {/* Drop button - always visible (start/stop in auto mode) */}
+      {activeTab === 'auto' ? (
+        autoBet.isRunning ? (
+          <Button
+            onClick={autoBet.stop}
+            variant="destructive"
+            size="lg"
+            className="w-full text-sm sm:text-base font-bold h-10 sm:h-12"
+          >
+            DETENER
+          </Button>
         ) : (
-          <span>
-            SOLTAR {ballCount > 1 && `×${ballCount}`}
-          </span>
-        )}
-      </Button>
+          <Button
+            onClick={onAutoStart}
+            disabled={!canDrop}
+            variant="primary"
+            size="lg"
+            className="w-full text-sm sm:text-base font-bold h-10 sm:h-12"
+          >
+            INICIAR AUTO {ballCount > 1 && `×${ballCount}`}
+          </Button>
+        )
+      ) : (
+        <Button
+          onClick={onDrop}
+          disabled={!canDrop}
+          variant="primary"
+          size="lg"
+          className="w-full text-sm sm:text-base font-bold h-10 sm:h-12"
+        >
+          {isDropping ? (
+            <span className="flex items-center gap-2">
+              <span className="animate-bounce">●</span>
+              Cayendo...
+            </span>
+          ) : (
+            <span>
+              SOLTAR {ballCount > 1 && `×${ballCount}`}
+            </span>
+          )}
+        </Button>
+      )}
     </div>
   );
 }
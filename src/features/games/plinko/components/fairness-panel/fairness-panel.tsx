@@ -0,0 +1,331 @@
+'use client';
+
+import { useState, useCallback } from 'react';
+import { ShieldCheck, RefreshCw, Check, X, ArrowLeft, ArrowRight } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogBody,
+  DialogTitle,
+  DialogDescription,
+} from '@/components/ui/dialog';
+import { cn } from '@/lib/utils/cn';
+import type { RowCount, RiskLevel, DropResult, VerifiedDrop } from '../../types';
+import type { UseProvablyFairReturn } from '../../hooks/use-provably-fair';
+import { verifyDrop } from '../../engine/provably-fair';
+import { RISK_LABELS } from '../../engine/multipliers';
+
+const ROW_OPTIONS: RowCount[] = [8, 9, 10, 11, 12, 13, 14, 15, 16];
+const RISK_OPTIONS: RiskLevel[] = ['low', 'medium', 'high'];
+
+interface FairnessPanelProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  fairness: UseProvablyFairReturn;
+  history: DropResult[];
+  isDropping: boolean;
+}
+
+const inputClassName = cn(
+  'w-full px-3 py-2 rounded-lg text-xs font-mono',
+  'bg-(--color-background) border border-(--color-border)',
+  'focus-visible:outline-none focus-visible:border-(--color-primary) focus-visible:ring-2 focus-visible:ring-(--color-primary)/30'
+);
+
+const labelClassName = 'block text-[10px] font-semibold text-(--color-text-muted) mb-1 uppercase tracking-wider';
+
+export function FairnessPanel({
+  open,
+  onOpenChange,
+  fairness,
+  history,
+  isDropping,
+}: FairnessPanelProps) {
+  const { seedState, revealedSeeds, isRotating, error, rotateSeed } = fairness;
+
+  // Rotation
+  const [newClientSeed, setNewClientSeed] = useState('');
+
+  // Verifier inputs
+  const [serverSeed, setServerSeed] = useState('');
+  const [clientSeed, setClientSeed] = useState('');
+  const [nonce, setNonce] = useState('0');
+  const [rows, setRows] = useState<RowCount>(12);
+  const [risk, setRisk] = useState<RiskLevel>('low');
+  const [expectedHash, setExpectedHash] = useState('');
+  const [verified, setVerified] = useState<VerifiedDrop | null>(null);
+
+  const handleRotate = useCallback(async () => {
+    const previous = await rotateSeed(newClientSeed.trim() || undefined);
+    if (previous) {
+      setNewClientSeed('');
+    }
+  }, [newClientSeed, rotateSeed]);
+
+  // Prefill the verifier from a past drop (server seed only if already revealed)
+  const handleSelectDrop = useCallback((result: DropResult) => {
+    if (!result.fairness) return;
+    const revealed = revealedSeeds.find(s => s.serverSeedHash === result.fairness!.serverSeedHash);
+
+    setServerSeed(revealed?.serverSeed ?? '');
+    setClientSeed(result.fairness.clientSeed);
+    setNonce(result.fairness.nonce.toString());
+    setRows(result.rows);
+    setRisk(result.risk);
+    setExpectedHash(result.fairness.serverSeedHash);
+    setVerified(null);
+  }, [revealedSeeds]);
+
+  const handleVerify = useCallback(async () => {
+    const parsedNonce = parseInt(nonce, 10);
+    if (!serverSeed || !clientSeed || isNaN(parsedNonce) || parsedNonce < 0) return;
+
+    const result = await verifyDrop(
+      serverSeed.trim(),
+      clientSeed.trim(),
+      parsedNonce,
+      rows,
+      risk,
+      expectedHash.trim() || undefined
+    );
+    setVerified(result);
+  }, [serverSeed, clientSeed, nonce, rows, risk, expectedHash]);
+
+  const verifiableHistory = history.filter(r => r.fairness).slice(0, 10);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent size="lg" showCloseButton={false}>
+        <DialogHeader>
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 rounded-lg bg-(--color-success)/10 border border-(--color-success)/30 flex items-center justify-center">
+              <ShieldCheck className="text-(--color-success)" size={20} />
+            </div>
+            <div>
+              <DialogTitle className="font-heading font-bold text-lg text-(--color-text)">
+                Juego justo
+              </DialogTitle>
+              <DialogDescription>
+                Cada bola sale de HMAC-SHA256(server seed, client seed:nonce)
+              </DialogDescription>
+            </div>
+          </div>
+        </DialogHeader>
+
+        <DialogBody className="space-y-6">
+          {/* Active seeds */}
+          <section className="space-y-3">
+            <h3 className="text-sm font-semibold uppercase tracking-wide text-(--color-text-muted)">
+              Semillas activas
+            </h3>
+
+            <div>
+              <span className={labelClassName}>Hash del server seed</span>
+              <p className="px-3 py-2 rounded-lg bg-(--color-background) border border-(--color-border) text-xs font-mono break-all">
+                {seedState?.serverSeedHash ?? '—'}
+              </p>
+            </div>
+
+            <div className="grid grid-cols-[1fr_auto] gap-2">
+              <div>
+                <span className={labelClassName}>Client seed</span>
+                <p className="px-3 py-2 rounded-lg bg-(--color-background) border border-(--color-border) text-xs font-mono break-all">
+                  {seedState?.clientSeed ?? '—'}
+                </p>
+              </div>
+              <div>
+                <span className={labelClassName}>Nonce</span>
+                <p className="px-3 py-2 rounded-lg bg-(--color-background) border border-(--color-border) text-xs font-mono text-right min-w-[4rem]">
+                  {seedState?.nonce ?? '—'}
+                </p>
+              </div>
+            </div>
+
+            <div>
+              <label htmlFor="new-client-seed" className={labelClassName}>
+                Nuevo client seed (opcional)
+              </label>
+              <div className="flex gap-2">
+                <input
+                  id="new-client-seed"
+                  value={newClientSeed}
+                  onChange={(e) => setNewClientSeed(e.target.value)}
+                  maxLength={64}
+                  placeholder="Aleatorio si lo dejás vacío"
+                  className={inputClassName}
+                />
+                <Button
+                  onClick={handleRotate}
+                  disabled={isRotating || isDropping || !seedState}
+                  variant="secondary"
+                  size="sm"
+                  className="gap-1.5 shrink-0"
+                >
+                  <RefreshCw size={14} className={cn(isRotating && 'animate-spin')} />
+                  Rotar
+                </Button>
+              </div>
+              <p className="text-[11px] text-(--color-text-subtle) mt-1">
+                Rotar revela el server seed actual para que puedas verificar tus tiradas.
+              </p>
+            </div>
+
+            {error && (
+              <p className="text-xs text-(--color-error)" role="alert">{error}</p>
+            )}
+          </section>
+
+          {/* Revealed seeds */}
+          {revealedSeeds.length > 0 && (
+            <section className="space-y-2">
+              <h3 className="text-sm font-semibold uppercase tracking-wide text-(--color-text-muted)">
+                Semillas reveladas
+              </h3>
+              <ul className="space-y-1.5">
+                {revealedSeeds.map((seed) => (
+                  <li
+                    key={seed.serverSeedHash}
+                    className="p-2 rounded-lg bg-(--color-background) border border-(--color-border) text-[11px] font-mono break-all"
+                  >
+                    <span className="text-(--color-text-muted)">seed </span>{seed.serverSeed}
+                    <br />
+                    <span className="text-(--color-text-muted)">client </span>{seed.clientSeed}
+                    <span className="text-(--color-text-muted)"> · {seed.nonce} tiradas</span>
+                  </li>
+                ))}
+              </ul>
+            </section>
+          )}
+
+          {/* Verifier */}
+          <section className="space-y-3">
+            <h3 className="text-sm font-semibold uppercase tracking-wide text-(--color-text-muted)">
+              Verificar tirada
+            </h3>
+
+            {verifiableHistory.length > 0 && (
+              <div className="flex flex-wrap gap-1">
+                {verifiableHistory.map((result) => (
+                  <button
+                    key={`${result.fairness!.serverSeedHash}-${result.fairness!.nonce}`}
+                    type="button"
+                    onClick={() => handleSelectDrop(result)}
+                    className="px-2 py-1 rounded-md text-[11px] font-semibold bg-(--color-background) border border-(--color-border) hover:border-(--color-primary)"
+                  >
+                    #{result.fairness!.nonce} · {result.multiplier}×
+                  </button>
+                ))}
+              </div>
+            )}
+
+            <div>
+              <label htmlFor="verify-server-seed" className={labelClassName}>Server seed</label>
+              <input
+                id="verify-server-seed"
+                value={serverSeed}
+                onChange={(e) => setServerSeed(e.target.value)}
+                className={inputClassName}
+              />
+            </div>
+
+            <div>
+              <label htmlFor="verify-hash" className={labelClassName}>Hash comprometido (opcional)</label>
+              <input
+                id="verify-hash"
+                value={expectedHash}
+                onChange={(e) => setExpectedHash(e.target.value)}
+                className={inputClassName}
+              />
+            </div>
+
+            <div className="grid grid-cols-2 sm:grid-cols-[1fr_5rem_5rem_6rem] gap-2">
+              <div>
+                <label htmlFor="verify-client-seed" className={labelClassName}>Client seed</label>
+                <input
+                  id="verify-client-seed"
+                  value={clientSeed}
+                  onChange={(e) => setClientSeed(e.target.value)}
+                  className={inputClassName}
+                />
+              </div>
+              <div>
+                <label htmlFor="verify-nonce" className={labelClassName}>Nonce</label>
+                <input
+                  id="verify-nonce"
+                  type="number"
+                  min={0}
+                  value={nonce}
+                  onChange={(e) => setNonce(e.target.value)}
+                  className={inputClassName}
+                />
+              </div>
+              <div>
+                <label htmlFor="verify-rows" className={labelClassName}>Filas</label>
+                <select
+                  id="verify-rows"
+                  value={rows}
+                  onChange={(e) => setRows(parseInt(e.target.value, 10) as RowCount)}
+                  className={inputClassName}
+                >
+                  {ROW_OPTIONS.map((r) => (
+                    <option key={r} value={r}>{r}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label htmlFor="verify-risk" className={labelClassName}>Riesgo</label>
+                <select
+                  id="verify-risk"
+                  value={risk}
+                  onChange={(e) => setRisk(e.target.value as RiskLevel)}
+                  className={inputClassName}
+                >
+                  {RISK_OPTIONS.map((r) => (
+                    <option key={r} value={r}>{RISK_LABELS[r]}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+
+            <Button
+              onClick={handleVerify}
+              disabled={!serverSeed || !clientSeed}
+              variant="primary"
+              size="sm"
+              className="w-full"
+            >
+              Verificar
+            </Button>
+
+            {verified && (
+              <div className="p-3 rounded-xl bg-(--color-background) border border-(--color-border) space-y-2">
+                {verified.hashMatches !== null && (
+                  <p className={cn(
+                    'flex items-center gap-1.5 text-xs font-semibold',
+                    verified.hashMatches ? 'text-(--color-success)' : 'text-(--color-error)'
+                  )}>
+                    {verified.hashMatches ? <Check size={14} /> : <X size={14} />}
+                    {verified.hashMatches ? 'El hash coincide con el seed' : 'El hash NO coincide con el seed'}
+                  </p>
+                )}
+                <div className="flex flex-wrap gap-0.5" aria-label="Camino de la bola">
+                  {verified.path.map((dir, i) => (
+                    dir === 0
+                      ? <ArrowLeft key={i} size={12} className="text-(--color-text-muted)" />
+                      : <ArrowRight key={i} size={12} className="text-(--color-text-muted)" />
+                  ))}
+                </div>
+                <p className="text-sm text-(--color-text)">
+                  Casilla <span className="font-bold">{verified.slotIndex}</span> · Multiplicador{' '}
+                  <span className="font-bold text-(--color-primary)">{verified.multiplier}×</span>
+                </p>
+              </div>
+            )}
+          </section>
+        </DialogBody>
+      </DialogContent>
+    </Dialog>
+  );
+}
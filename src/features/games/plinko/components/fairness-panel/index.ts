@@ -0,0 +1 @@
+export { FairnessPanel } from './fairness-panel';
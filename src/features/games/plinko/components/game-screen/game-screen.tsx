@@ -2,18 +2,29 @@
 
 import { useState, useCallback, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { ArrowLeft } from 'lucide-react';
+import { ArrowLeft, ShieldCheck } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { cn } from '@/lib/utils/cn';
 import { formatBalance } from '@/features/wallet/store/wallet-store';
-import type { RowCount, DropResult, BallDirection, BallSpeed } from '../../types';
-import type { BallCount } from '../../hooks/use-plinko-game';
+import { useSoundEffects, semitonesToRate } from '@/features/audio';
+import type { RowCount, RiskLevel, DropResult, BallSpeed } from '../../types';
+import type { BallCount, DropBallFn } from '../../hooks/use-plinko-game';
+import type { UseProvablyFairReturn } from '../../hooks/use-provably-fair';
 import { PlinkoCanvas } from '../plinko-canvas';
 import { BetControls } from '../bet-controls';
-import { usePlinkoPhysics } from '../../hooks';
+import { FairnessPanel } from '../fairness-panel';
+import { usePlinkoPhysics, usePlinkoAutoBet } from '../../hooks';
+
+// Pins ring higher as the ball falls: one octave from the top row to the bottom
+const PIN_PITCH_RANGE_SEMITONES = 12;
+
+function getPinHitRate(row: number, rows: RowCount): number {
+  return semitonesToRate((row / Math.max(1, rows - 1)) * PIN_PITCH_RANGE_SEMITONES);
+}
 
 interface GameScreenProps {
   rows: RowCount;
+  risk: RiskLevel;
   speed: BallSpeed;
   betAmount: number;
   ballCount: BallCount;
@@ -23,17 +34,20 @@ interface GameScreenProps {
   history: DropResult[];
   totalProfit: number;
   isAuthenticated: boolean;
+  fairness: UseProvablyFairReturn;
   onRowsChange: (rows: RowCount) => void;
+  onRiskChange: (risk: RiskLevel) => void;
   onSpeedChange: (speed: BallSpeed) => void;
   onBetChange: (amount: number) => void;
   onBallCountChange: (count: BallCount) => void;
-  onDrop: (dropFn: (id: string) => { path: BallDirection[]; finalSlot: number } | null) => Promise<boolean>;
-  onBallLanded: (ballId: string, slotIndex: number, multiplier: number) => Promise<void>;
+  onDrop: (dropFn: DropBallFn, betOverride?: number, onBallDropped?: (ballId: string) => void) => Promise<boolean>;
+  onBallLanded: (ballId: string, slotIndex: number, multiplier: number) => Promise<DropResult | null>;
   onBack: () => void;
 }
 
 export function GameScreen({
   rows,
+  risk,
   speed,
   betAmount,
   ballCount,
@@ -43,7 +57,9 @@ export function GameScreen({
   history,
   totalProfit: _totalProfit, // Reserved for future use
   isAuthenticated,
+  fairness,
   onRowsChange,
+  onRiskChange,
   onSpeedChange,
   onBetChange,
   onBallCountChange,
@@ -55,6 +71,7 @@ export function GameScreen({
   void _totalProfit;
   const [highlightedSlot, setHighlightedSlot] = useState<number | null>(null);
   const [showSummary, setShowSummary] = useState(false);
+  const [showFairness, setShowFairness] = useState(false);
   const [sessionSummary, setSessionSummary] = useState<{
     totalBet: number;
     totalWin: number;
@@ -81,15 +98,33 @@ export function GameScreen({
     }
   }, [gameState, history, ballCount]);
 
+  const autoBet = usePlinkoAutoBet({ betAmount, ballCount, balance });
+  const { handleResult: handleAutoBetResult } = autoBet;
+
+  const { play } = useSoundEffects();
+
+  const handlePinHit = useCallback((_ballId: string, row: number) => {
+    play('pinHit', { rate: getPinHitRate(row, rows), volume: 0.6 });
+  }, [play, rows]);
+
   const handleBallLanded = useCallback(async (ballId: string, slotIndex: number, multiplier: number) => {
     setHighlightedSlot(slotIndex);
-    await onBallLanded(ballId, slotIndex, multiplier);
+    if (multiplier >= 2) {
+      play('bigWin');
+    } else {
+      // Losing slots land a bit lower
+      play('ballLanded', { rate: multiplier < 1 ? 0.8 : 1 });
+    }
+    const result = await onBallLanded(ballId, slotIndex, multiplier);
+    if (result) {
+      handleAutoBetResult(ballId, result);
+    }
 
     // Clear highlight after delay
     setTimeout(() => {
       setHighlightedSlot(null);
     }, 1500);
-  }, [onBallLanded]);
+  }, [onBallLanded, handleAutoBetResult, play]);
 
   const {
     canvasRef,
@@ -101,7 +136,9 @@ export function GameScreen({
     error: physicsError,
   } = usePlinkoPhysics({
     rows,
+    risk,
     speed,
+    onPinHit: handlePinHit,
     onBallLanded: handleBallLanded,
   });
 
@@ -109,6 +146,11 @@ export function GameScreen({
     await onDrop(dropBall);
   }, [onDrop, dropBall]);
 
+  const { start: startAutoBet } = autoBet;
+  const handleAutoStart = useCallback(() => {
+    startAutoBet((bet, onBallDropped) => onDrop(dropBall, bet, onBallDropped));
+  }, [startAutoBet, onDrop, dropBall]);
+
   const handleRowsChange = useCallback((newRows: RowCount) => {
     if (!hasActiveBalls) {
       onRowsChange(newRows);
@@ -116,6 +158,12 @@ export function GameScreen({
     }
   }, [hasActiveBalls, onRowsChange, setPhysicsRows]);
 
+  const handleRiskChange = useCallback((newRisk: RiskLevel) => {
+    if (!hasActiveBalls) {
+      onRiskChange(newRisk);
+    }
+  }, [hasActiveBalls, onRiskChange]);
+
   const handleSpeedChange = useCallback((newSpeed: BallSpeed) => {
     if (!hasActiveBalls) {
       onSpeedChange(newSpeed);
@@ -123,12 +171,12 @@ export function GameScreen({
     }
   }, [hasActiveBalls, onSpeedChange, setPhysicsSpeed]);
 
-  const isDropping = gameState === 'dropping' || hasActiveBalls;
+  const isDropping = gameState === 'dropping' || hasActiveBalls || autoBet.isRunning;
 
   return (
     <div className="game-container flex flex-col h-[calc(100dvh-4rem)] md:h-[calc(100dvh-1rem)] p-2 sm:p-4 lg:p-6">
       {/* Header - minimal */}
-      <div className="flex items-center mb-2 sm:mb-3 lg:mb-4">
+      <div className="flex items-center justify-between mb-2 sm:mb-3 lg:mb-4">
         <Button
           onClick={onBack}
           variant="ghost"
@@ -138,8 +186,28 @@ export function GameScreen({
           <ArrowLeft size={16} className="sm:w-[18px] sm:h-[18px]" />
           <span className="hidden sm:inline">Volver</span>
         </Button>
+
+        {isAuthenticated && (
+          <Button
+            onClick={() => setShowFairness(true)}
+            variant="ghost"
+            size="sm"
+            className="gap-1.5 text-(--color-text-muted) hover:text-(--color-text) h-8 sm:h-9"
+          >
+            <ShieldCheck size={16} className="sm:w-[18px] sm:h-[18px]" />
+            <span className="hidden sm:inline">Juego justo</span>
+          </Button>
+        )}
       </div>
 
+      <FairnessPanel
+        open={showFairness}
+        onOpenChange={setShowFairness}
+        fairness={fairness}
+        history={history}
+        isDropping={isDropping}
+      />
+
       {/* Main content */}
       <div className="flex-1 flex flex-col lg:flex-row gap-2 sm:gap-4 lg:gap-5 min-h-0">
         {/* Controls - Left on desktop, bottom on mobile */}
@@ -150,14 +218,18 @@ export function GameScreen({
               ballCount={ballCount}
               balance={balance}
               rows={rows}
+              risk={risk}
               speed={speed}
               isDropping={isDropping}
               isAuthenticated={isAuthenticated}
               onBetChange={onBetChange}
               onBallCountChange={onBallCountChange}
               onRowsChange={handleRowsChange}
+              onRiskChange={handleRiskChange}
               onSpeedChange={handleSpeedChange}
               onDrop={handleDrop}
+              autoBet={autoBet}
+              onAutoStart={handleAutoStart}
             />
           </div>
         </div>
@@ -201,6 +273,7 @@ export function GameScreen({
             <PlinkoCanvas
               ref={canvasRef}
               rows={rows}
+              risk={risk}
               highlightedSlot={highlightedSlot}
             />
 
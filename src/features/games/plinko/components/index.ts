@@ -1,3 +1,5 @@
 export { GameScreen } from './game-screen';
 export { PlinkoCanvas } from './plinko-canvas';
 export { BetControls } from './bet-controls';
+export { AutoBetPanel } from './auto-bet-panel';
+export { FairnessPanel } from './fairness-panel';
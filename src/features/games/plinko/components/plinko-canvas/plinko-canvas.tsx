@@ -2,7 +2,7 @@
 
 import { forwardRef, memo } from 'react';
 import { cn } from '@/lib/utils/cn';
-import type { RowCount } from '../../types';
+import type { RowCount, RiskLevel } from '../../types';
 import {
   MULTIPLIERS,
   MULTIPLIER_TEXT_COLORS,
@@ -12,6 +12,7 @@ import {
 
 interface PlinkoCanvasProps {
   rows: RowCount;
+  risk: RiskLevel;
   highlightedSlot?: number | null;
   className?: string;
 }
@@ -22,7 +23,7 @@ interface PlinkoCanvasProps {
  * just provides the canvas element and renders the multiplier display
  */
 export const PlinkoCanvas = forwardRef<HTMLCanvasElement, PlinkoCanvasProps>(
-  function PlinkoCanvas({ rows, highlightedSlot, className }, ref) {
+  function PlinkoCanvas({ rows, risk, highlightedSlot, className }, ref) {
     return (
       <div className={cn('relative w-full h-full min-h-[200px] sm:min-h-[280px]', className)}>
         {/* Physics canvas */}
@@ -34,7 +35,7 @@ export const PlinkoCanvas = forwardRef<HTMLCanvasElement, PlinkoCanvasProps>(
 
         {/* Multiplier display overlay at bottom */}
         <div className="absolute bottom-0 left-0 right-0 flex justify-center pointer-events-none">
-          <MultiplierRow rows={rows} highlightedSlot={highlightedSlot} />
+          <MultiplierRow rows={rows} risk={risk} highlightedSlot={highlightedSlot} />
         </div>
       </div>
     );
@@ -43,12 +44,13 @@ export const PlinkoCanvas = forwardRef<HTMLCanvasElement, PlinkoCanvasProps>(
 
 interface MultiplierRowProps {
   rows: RowCount;
+  risk: RiskLevel;
   highlightedSlot?: number | null;
 }
 
-const MultiplierRow = memo(function MultiplierRow({ rows, highlightedSlot }: MultiplierRowProps) {
-  const multipliers = MULTIPLIERS[rows];
-  const colors = MULTIPLIER_TEXT_COLORS[rows];
+const MultiplierRow = memo(function MultiplierRow({ rows, risk, highlightedSlot }: MultiplierRowProps) {
+  const multipliers = MULTIPLIERS[risk][rows];
+  const colors = MULTIPLIER_TEXT_COLORS[risk][rows];
 
   return (
     <div className="flex gap-px sm:gap-0.5 p-0.5 sm:p-1 max-w-full overflow-x-auto">
@@ -12,4 +12,5 @@ export const plinkoConfig: GameConfig = {
   supportsOnline: false,
   supportsBetting: true,
   enabled: true,
+  music: ['arcade-rush'],
 };
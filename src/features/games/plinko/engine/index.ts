@@ -6,7 +6,29 @@ export {
   MULTIPLIER_TEXT_COLORS,
   MULTIPLIER_BG_COLORS,
   MULTIPLIER_TEXT_HEX,
+  RISK_LABELS,
+  RTP_BAND,
   getMultiplier,
   getMultiplierColor,
   calculateFinalSlot,
+  getSlotProbabilities,
+  getExpectedRTP,
+  isRTPInBand,
 } from './multipliers';
+export {
+  sha256Hex,
+  hmacSha256Hex,
+  fairnessMessage,
+  pathFromHash,
+  verifyDrop,
+} from './provably-fair';
+export {
+  ROW_COUNTS,
+  RISK_LEVELS,
+  createRandom,
+  randomPath,
+  simulateDrops,
+  simulateAllTables,
+  formatReportMarkdown,
+} from './simulation';
+export type { SimulationOptions } from './simulation';
@@ -0,0 +1,47 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'node:fs';
+import { MULTIPLIERS, RTP_BAND, getExpectedRTP, getSlotProbabilities } from './multipliers';
+import { ROW_COUNTS, RISK_LEVELS } from './simulation';
+
+const TABLES = RISK_LEVELS.flatMap((risk) => ROW_COUNTS.map((rows) => ({ risk, rows })));
+
+test('every table has one multiplier per slot', () => {
+  for (const { risk, rows } of TABLES) {
+    assert.equal(MULTIPLIERS[risk][rows].length, rows + 1, `${risk}/${rows}`);
+  }
+});
+
+test('slot probabilities add up to 1', () => {
+  for (const rows of ROW_COUNTS) {
+    const total = getSlotProbabilities(rows).reduce((sum, p) => sum + p, 0);
+    assert.ok(Math.abs(total - 1) < 1e-12, `${rows} rows: ${total}`);
+  }
+});
+
+test('every table has its expected RTP within RTP_BAND', () => {
+  for (const { risk, rows } of TABLES) {
+    const rtp = getExpectedRTP(rows, risk);
+    assert.ok(
+      rtp >= RTP_BAND.min && rtp <= RTP_BAND.max,
+      `${risk}/${rows}: ${(rtp * 100).toFixed(3)}% outside ${RTP_BAND.min * 100}%-${RTP_BAND.max * 100}%`
+    );
+  }
+});
+
+// plinko_drop pays from plinko_payout_tables; the seed must not drift from MULTIPLIERS
+test('server payout tables match MULTIPLIERS', () => {
+  const migration = readFileSync(
+    new URL('../../../../../supabase/migrations/013_plinko_provably_fair.sql', import.meta.url),
+    'utf8'
+  );
+  const seeded = new Map<string, number[]>();
+  for (const [, risk, rows, values] of migration.matchAll(/\('(low|medium|high)', (\d+), ARRAY\[([^\]]+)\]\)/g)) {
+    seeded.set(`${risk}/${rows}`, values.split(',').map(Number));
+  }
+
+  assert.equal(seeded.size, TABLES.length);
+  for (const { risk, rows } of TABLES) {
+    assert.deepEqual(seeded.get(`${risk}/${rows}`), MULTIPLIERS[risk][rows], `${risk}/${rows}`);
+  }
+});
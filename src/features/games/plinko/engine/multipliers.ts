@@ -1,35 +1,97 @@
-import type { RowCount, MultiplierColor } from '../types';
+import type { RowCount, RiskLevel, MultiplierColor } from '../types';
 
 /**
- * Multiplier values per row count
- * These are calibrated for balanced gameplay
+ * Display labels for risk levels
  */
-export const MULTIPLIERS: Record<RowCount, number[]> = {
-  8: [5.6, 2.1, 1.1, 1.0, 0.5, 1.0, 1.1, 2.1, 5.6],
-  9: [5.6, 2.0, 1.6, 1.0, 0.7, 0.7, 1.0, 1.6, 2.0, 5.6],
-  10: [8.9, 3.0, 1.4, 1.1, 1.0, 0.5, 1.0, 1.1, 1.4, 3.0, 8.9],
-  11: [8.4, 3.0, 1.9, 1.3, 1.0, 0.7, 0.7, 1.0, 1.3, 1.9, 3.0, 8.4],
-  12: [10, 3.0, 1.6, 1.4, 1.1, 1.0, 0.5, 1.0, 1.1, 1.4, 1.6, 3.0, 10],
-  13: [16, 4.0, 2.0, 1.5, 1.2, 1.0, 0.7, 0.7, 1.0, 1.2, 1.5, 2.0, 4.0, 16],
-  14: [25, 5.0, 2.5, 1.8, 1.4, 1.1, 0.9, 0.5, 0.9, 1.1, 1.4, 1.8, 2.5, 5.0, 25],
-  15: [40, 8.0, 3.0, 2.0, 1.6, 1.3, 1.0, 0.7, 0.7, 1.0, 1.3, 1.6, 2.0, 3.0, 8.0, 40],
-  16: [110, 25, 8.0, 4.0, 2.0, 1.4, 1.1, 0.9, 0.5, 0.9, 1.1, 1.4, 2.0, 4.0, 8.0, 25, 110],
+export const RISK_LABELS: Record<RiskLevel, string> = {
+  low: 'Bajo',
+  medium: 'Medio',
+  high: 'Alto',
+};
+
+/**
+ * Accepted expected RTP range for every multiplier table
+ */
+export const RTP_BAND = { min: 0.985, max: 0.995 } as const;
+
+/**
+ * Multiplier values per risk level and row count
+ * Every table returns ~99% of the stake on average (see getExpectedRTP)
+ */
+export const MULTIPLIERS: Record<RiskLevel, Record<RowCount, number[]>> = {
+  low: {
+    8: [5.6, 2.1, 1.1, 1.0, 0.5, 1.0, 1.1, 2.1, 5.6],
+    9: [5.6, 2.0, 1.6, 1.0, 0.7, 0.7, 1.0, 1.6, 2.0, 5.6],
+    10: [8.9, 3.0, 1.4, 1.1, 1.0, 0.5, 1.0, 1.1, 1.4, 3.0, 8.9],
+    11: [8.4, 3.0, 1.9, 1.3, 1.0, 0.7, 0.7, 1.0, 1.3, 1.9, 3.0, 8.4],
+    12: [10, 3.0, 1.6, 1.4, 1.1, 1.0, 0.5, 1.0, 1.1, 1.4, 1.6, 3.0, 10],
+    13: [8.1, 4.0, 3.0, 1.9, 1.2, 0.9, 0.7, 0.7, 0.9, 1.2, 1.9, 3.0, 4.0, 8.1],
+    14: [7.1, 4.0, 1.9, 1.4, 1.3, 1.1, 1.0, 0.5, 1.0, 1.1, 1.3, 1.4, 1.9, 4.0, 7.1],
+    15: [15, 8.0, 3.0, 2.0, 1.5, 1.1, 1.0, 0.7, 0.7, 1.0, 1.1, 1.5, 2.0, 3.0, 8.0, 15],
+    16: [16, 9.0, 2.0, 1.4, 1.4, 1.2, 1.1, 1.0, 0.5, 1.0, 1.1, 1.2, 1.4, 1.4, 2.0, 9.0, 16],
+  },
+  medium: {
+    8: [13, 3.0, 1.3, 0.7, 0.4, 0.7, 1.3, 3.0, 13],
+    9: [18, 4.0, 1.7, 0.9, 0.5, 0.5, 0.9, 1.7, 4.0, 18],
+    10: [22, 5.0, 2.0, 1.4, 0.6, 0.4, 0.6, 1.4, 2.0, 5.0, 22],
+    11: [24, 6.0, 3.0, 1.8, 0.7, 0.5, 0.5, 0.7, 1.8, 3.0, 6.0, 24],
+    12: [33, 11, 4.0, 2.0, 1.1, 0.6, 0.3, 0.6, 1.1, 2.0, 4.0, 11, 33],
+    13: [43, 13, 6.0, 3.0, 1.3, 0.7, 0.4, 0.4, 0.7, 1.3, 3.0, 6.0, 13, 43],
+    14: [58, 15, 7.0, 4.0, 1.9, 1.0, 0.5, 0.2, 0.5, 1.0, 1.9, 4.0, 7.0, 15, 58],
+    15: [88, 18, 11, 5.0, 3.0, 1.3, 0.5, 0.3, 0.3, 0.5, 1.3, 3.0, 5.0, 11, 18, 88],
+    16: [110, 41, 10, 5.0, 3.0, 1.5, 1.0, 0.5, 0.3, 0.5, 1.0, 1.5, 3.0, 5.0, 10, 41, 110],
+  },
+  high: {
+    8: [29, 4.0, 1.5, 0.3, 0.2, 0.3, 1.5, 4.0, 29],
+    9: [43, 7.0, 2.0, 0.6, 0.2, 0.2, 0.6, 2.0, 7.0, 43],
+    10: [76, 10, 3.0, 0.9, 0.3, 0.2, 0.3, 0.9, 3.0, 10, 76],
+    11: [120, 14, 5.2, 1.4, 0.4, 0.2, 0.2, 0.4, 1.4, 5.2, 14, 120],
+    12: [170, 24, 8.1, 2.0, 0.7, 0.2, 0.2, 0.2, 0.7, 2.0, 8.1, 24, 170],
+    13: [260, 37, 11, 4.0, 1.0, 0.2, 0.2, 0.2, 0.2, 1.0, 4.0, 11, 37, 260],
+    14: [420, 56, 18, 5.0, 1.9, 0.3, 0.2, 0.2, 0.2, 0.3, 1.9, 5.0, 18, 56, 420],
+    15: [620, 83, 27, 8.0, 3.0, 0.5, 0.2, 0.2, 0.2, 0.2, 0.5, 3.0, 8.0, 27, 83, 620],
+    16: [1000, 130, 26, 9.0, 4.0, 2.0, 0.2, 0.2, 0.2, 0.2, 0.2, 2.0, 4.0, 9.0, 26, 130, 1000],
+  },
 };
 
 /**
  * Color scheme for multipliers (text colors)
  * green = high multiplier, blue = medium, red = low
  */
-export const MULTIPLIER_TEXT_COLORS: Record<RowCount, MultiplierColor[]> = {
-  8: ['green', 'blue', 'blue', 'blue', 'red', 'blue', 'blue', 'blue', 'green'],
-  9: ['green', 'green', 'blue', 'blue', 'red', 'red', 'blue', 'blue', 'green', 'green'],
-  10: ['green', 'green', 'blue', 'blue', 'red', 'blue', 'red', 'blue', 'blue', 'green', 'green'],
-  11: ['green', 'green', 'blue', 'blue', 'blue', 'red', 'red', 'blue', 'blue', 'blue', 'green', 'green'],
-  12: ['green', 'green', 'blue', 'blue', 'blue', 'red', 'blue', 'red', 'blue', 'blue', 'blue', 'green', 'green'],
-  13: ['green', 'green', 'blue', 'blue', 'blue', 'blue', 'red', 'red', 'blue', 'blue', 'blue', 'blue', 'green', 'green'],
-  14: ['green', 'green', 'green', 'blue', 'blue', 'blue', 'blue', 'red', 'blue', 'blue', 'blue', 'blue', 'green', 'green', 'green'],
-  15: ['green', 'green', 'green', 'blue', 'blue', 'blue', 'blue', 'red', 'red', 'blue', 'blue', 'blue', 'blue', 'green', 'green', 'green'],
-  16: ['green', 'green', 'green', 'green', 'blue', 'blue', 'blue', 'blue', 'red', 'blue', 'blue', 'blue', 'blue', 'green', 'green', 'green', 'green'],
+export const MULTIPLIER_TEXT_COLORS: Record<RiskLevel, Record<RowCount, MultiplierColor[]>> = {
+  low: {
+    8: ['green', 'blue', 'blue', 'blue', 'red', 'blue', 'blue', 'blue', 'green'],
+    9: ['green', 'blue', 'blue', 'blue', 'red', 'red', 'blue', 'blue', 'blue', 'green'],
+    10: ['green', 'green', 'blue', 'blue', 'blue', 'red', 'blue', 'blue', 'blue', 'green', 'green'],
+    11: ['green', 'green', 'blue', 'blue', 'blue', 'red', 'red', 'blue', 'blue', 'blue', 'green', 'green'],
+    12: ['green', 'green', 'blue', 'blue', 'blue', 'blue', 'red', 'blue', 'blue', 'blue', 'blue', 'green', 'green'],
+    13: ['green', 'green', 'green', 'blue', 'blue', 'red', 'red', 'red', 'red', 'blue', 'blue', 'green', 'green', 'green'],
+    14: ['green', 'green', 'blue', 'blue', 'blue', 'blue', 'blue', 'red', 'blue', 'blue', 'blue', 'blue', 'blue', 'green', 'green'],
+    15: ['green', 'green', 'green', 'blue', 'blue', 'blue', 'blue', 'red', 'red', 'blue', 'blue', 'blue', 'blue', 'green', 'green', 'green'],
+    16: ['green', 'green', 'blue', 'blue', 'blue', 'blue', 'blue', 'blue', 'red', 'blue', 'blue', 'blue', 'blue', 'blue', 'blue', 'green', 'green'],
+  },
+  medium: {
+    8: ['green', 'green', 'blue', 'red', 'red', 'red', 'blue', 'green', 'green'],
+    9: ['green', 'green', 'blue', 'red', 'red', 'red', 'red', 'blue', 'green', 'green'],
+    10: ['green', 'green', 'blue', 'blue', 'red', 'red', 'red', 'blue', 'blue', 'green', 'green'],
+    11: ['green', 'green', 'green', 'blue', 'red', 'red', 'red', 'red', 'blue', 'green', 'green', 'green'],
+    12: ['green', 'green', 'green', 'blue', 'blue', 'red', 'red', 'red', 'blue', 'blue', 'green', 'green', 'green'],
+    13: ['green', 'green', 'green', 'green', 'blue', 'red', 'red', 'red', 'red', 'blue', 'green', 'green', 'green', 'green'],
+    14: ['green', 'green', 'green', 'green', 'blue', 'blue', 'red', 'red', 'red', 'blue', 'blue', 'green', 'green', 'green', 'green'],
+    15: ['green', 'green', 'green', 'green', 'green', 'blue', 'red', 'red', 'red', 'red', 'blue', 'green', 'green', 'green', 'green', 'green'],
+    16: ['green', 'green', 'green', 'green', 'green', 'blue', 'blue', 'red', 'red', 'red', 'blue', 'blue', 'green', 'green', 'green', 'green', 'green'],
+  },
+  high: {
+    8: ['green', 'green', 'blue', 'red', 'red', 'red', 'blue', 'green', 'green'],
+    9: ['green', 'green', 'blue', 'red', 'red', 'red', 'red', 'blue', 'green', 'green'],
+    10: ['green', 'green', 'green', 'red', 'red', 'red', 'red', 'red', 'green', 'green', 'green'],
+    11: ['green', 'green', 'green', 'blue', 'red', 'red', 'red', 'red', 'blue', 'green', 'green', 'green'],
+    12: ['green', 'green', 'green', 'blue', 'red', 'red', 'red', 'red', 'red', 'blue', 'green', 'green', 'green'],
+    13: ['green', 'green', 'green', 'green', 'blue', 'red', 'red', 'red', 'red', 'blue', 'green', 'green', 'green', 'green'],
+    14: ['green', 'green', 'green', 'green', 'blue', 'red', 'red', 'red', 'red', 'red', 'blue', 'green', 'green', 'green', 'green'],
+    15: ['green', 'green', 'green', 'green', 'green', 'red', 'red', 'red', 'red', 'red', 'red', 'green', 'green', 'green', 'green', 'green'],
+    16: ['green', 'green', 'green', 'green', 'green', 'blue', 'red', 'red', 'red', 'red', 'red', 'blue', 'green', 'green', 'green', 'green', 'green'],
+  },
 };
 
 /**
@@ -53,8 +115,8 @@ export const MULTIPLIER_TEXT_HEX: Record<MultiplierColor, string> = {
 /**
  * Get multiplier value for a specific slot
  */
-export function getMultiplier(rows: RowCount, slotIndex: number): number {
-  const multipliers = MULTIPLIERS[rows];
+export function getMultiplier(rows: RowCount, risk: RiskLevel, slotIndex: number): number {
+  const multipliers = MULTIPLIERS[risk][rows];
   if (slotIndex < 0 || slotIndex >= multipliers.length) {
     return 1;
   }
@@ -64,8 +126,8 @@ export function getMultiplier(rows: RowCount, slotIndex: number): number {
 /**
  * Get the color for a multiplier slot
  */
-export function getMultiplierColor(rows: RowCount, slotIndex: number): MultiplierColor {
-  const colors = MULTIPLIER_TEXT_COLORS[rows];
+export function getMultiplierColor(rows: RowCount, risk: RiskLevel, slotIndex: number): MultiplierColor {
+  const colors = MULTIPLIER_TEXT_COLORS[risk][rows];
   if (slotIndex < 0 || slotIndex >= colors.length) {
     return 'blue';
   }
@@ -82,3 +144,35 @@ export function calculateFinalSlot(path: (0 | 1)[]): number {
   // The final position is the count of rights
   return path.reduce<number>((acc, dir) => acc + dir, 0);
 }
+
+/**
+ * Probability of landing in each slot (binomial, p = 0.5 per pin)
+ */
+export function getSlotProbabilities(rows: RowCount): number[] {
+  const probabilities: number[] = [];
+  let combinations = 1;
+  for (let k = 0; k <= rows; k++) {
+    probabilities.push(combinations / 2 ** rows);
+    combinations = (combinations * (rows - k)) / (k + 1);
+  }
+  return probabilities;
+}
+
+/**
+ * Expected return to player of a table (1 = the stake comes back on average)
+ */
+export function getExpectedRTP(rows: RowCount, risk: RiskLevel): number {
+  const multipliers = MULTIPLIERS[risk][rows];
+  return getSlotProbabilities(rows).reduce(
+    (sum, probability, slotIndex) => sum + probability * multipliers[slotIndex],
+    0
+  );
+}
+
+/**
+ * Check a table's expected RTP against RTP_BAND
+ */
+export function isRTPInBand(rows: RowCount, risk: RiskLevel): boolean {
+  const rtp = getExpectedRTP(rows, risk);
+  return rtp >= RTP_BAND.min && rtp <= RTP_BAND.max;
+}
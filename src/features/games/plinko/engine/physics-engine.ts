@@ -1,4 +1,4 @@
-import type { RowCount, BallDirection, PhysicsConfig, BallSpeed } from '../types';
+import type { RowCount, RiskLevel, BallDirection, PhysicsConfig, BallSpeed } from '../types';
 import { getPhysicsConfig, COLLISION_CATEGORIES, BALL_MASS, SPEED_CONFIG } from './physics-config';
 import { getMultiplier, calculateFinalSlot } from './multipliers';
 import { PixiRenderer } from './pixi-renderer';
@@ -43,6 +43,7 @@ export class PlinkoEngine {
   private renderCallback: (() => void) | null = null;
 
   private rows: RowCount;
+  private risk: RiskLevel = 'low';
   private speed: BallSpeed = 'normal';
   private physicsConfig: PhysicsConfig;
   private worldWidth: number = 0;
@@ -280,7 +281,7 @@ export class PlinkoEngine {
         // Multiplier collision - ball has landed
         if (other.label.startsWith('multiplier-')) {
           const slotIndex = parseInt(other.label.slice(11), 10);
-          const multiplier = getMultiplier(this.rows, slotIndex);
+          const multiplier = getMultiplier(this.rows, this.risk, slotIndex);
 
           // Remove ball from world and tracking
           Composite.remove(this.world, ball);
@@ -354,7 +355,7 @@ export class PlinkoEngine {
   }
 
   /**
-   * Generate a random path for the ball
+   * Generate a random path for the ball (unverifiable fallback when no path is given)
    */
   generatePath(): BallDirection[] {
     return Array.from({ length: this.rows }, () =>
@@ -434,6 +435,13 @@ export class PlinkoEngine {
     }
   }
 
+  /**
+   * Update risk level (only changes the multiplier reported on landing)
+   */
+  setRisk(risk: RiskLevel): void {
+    this.risk = risk;
+  }
+
   /**
    * Update ball speed setting
    */
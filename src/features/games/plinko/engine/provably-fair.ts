@@ -0,0 +1,80 @@
+import type { RowCount, RiskLevel, BallDirection, VerifiedDrop } from '../types';
+import { getMultiplier, calculateFinalSlot } from './multipliers';
+
+const encoder = new TextEncoder();
+
+function toHex(buffer: ArrayBuffer): string {
+  return Array.from(new Uint8Array(buffer))
+    .map((byte) => byte.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+/**
+ * SHA-256 of a text, as hex (same as Postgres `encode(digest(text, 'sha256'), 'hex')`)
+ */
+export async function sha256Hex(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', encoder.encode(text));
+  return toHex(digest);
+}
+
+/**
+ * HMAC-SHA256 as hex (same as Postgres `encode(hmac(message, key, 'sha256'), 'hex')`)
+ */
+export async function hmacSha256Hex(key: string, message: string): Promise<string> {
+  const cryptoKey = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(key),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  const signature = await crypto.subtle.sign('HMAC', cryptoKey, encoder.encode(message));
+  return toHex(signature);
+}
+
+/**
+ * Message signed for each ball
+ */
+export function fairnessMessage(clientSeed: string, nonce: number): string {
+  return `${clientSeed}:${nonce}`;
+}
+
+/**
+ * Derive the ball path from an HMAC hex digest
+ * Row i uses bit i of the digest (MSB first): 0 = left, 1 = right
+ */
+export function pathFromHash(hash: string, rows: RowCount): BallDirection[] {
+  return Array.from({ length: rows }, (_, i) => {
+    const byte = parseInt(hash.slice(Math.floor(i / 8) * 2, Math.floor(i / 8) * 2 + 2), 16);
+    return ((byte >> (7 - (i % 8))) & 1) as BallDirection;
+  });
+}
+
+/**
+ * Recompute a drop from its seeds
+ * If expectedHash is given, also checks it against SHA-256(serverSeed)
+ */
+export async function verifyDrop(
+  serverSeed: string,
+  clientSeed: string,
+  nonce: number,
+  rows: RowCount,
+  risk: RiskLevel,
+  expectedHash?: string
+): Promise<VerifiedDrop> {
+  const [serverSeedHash, hash] = await Promise.all([
+    sha256Hex(serverSeed),
+    hmacSha256Hex(serverSeed, fairnessMessage(clientSeed, nonce)),
+  ]);
+
+  const path = pathFromHash(hash, rows);
+  const slotIndex = calculateFinalSlot(path);
+
+  return {
+    serverSeedHash,
+    hashMatches: expectedHash ? expectedHash.toLowerCase() === serverSeedHash : null,
+    path,
+    slotIndex,
+    multiplier: getMultiplier(rows, risk, slotIndex),
+  };
+}
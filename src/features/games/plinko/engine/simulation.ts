@@ -0,0 +1,146 @@
+import type { RowCount, RiskLevel, BallDirection, SimulationReport } from '../types';
+import {
+  MULTIPLIERS,
+  RTP_BAND,
+  isRTPInBand,
+  calculateFinalSlot,
+  getMultiplier,
+  getSlotProbabilities,
+  getExpectedRTP,
+} from './multipliers';
+
+/**
+ * Headless Plinko simulation
+ * No Matter.js or Pixi: outcomes come straight from the path, the same way
+ * plinko_drop settles payouts (right bounces -> slot -> multiplier).
+ */
+
+export const ROW_COUNTS: RowCount[] = [8, 9, 10, 11, 12, 13, 14, 15, 16];
+export const RISK_LEVELS: RiskLevel[] = ['low', 'medium', 'high'];
+
+export interface SimulationOptions {
+  rows: RowCount;
+  risk: RiskLevel;
+  drops: number;
+  /** Same seed = same report */
+  seed?: number;
+}
+
+/**
+ * Seeded PRNG (mulberry32) so reports are reproducible
+ */
+export function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Random path with one fair left/right bounce per row
+ */
+export function randomPath(rows: RowCount, random: () => number): BallDirection[] {
+  return Array.from({ length: rows }, () => (random() < 0.5 ? 0 : 1) as BallDirection);
+}
+
+/**
+ * Simulate N drops on one table
+ */
+export function simulateDrops({ rows, risk, drops, seed = 1 }: SimulationOptions): SimulationReport {
+  const random = createRandom(seed);
+  const hits = new Array<number>(rows + 1).fill(0);
+
+  let totalReturn = 0;
+  let totalSquaredReturn = 0;
+  let profit = 0;
+  let peak = 0;
+  let maxDrawdown = 0;
+
+  for (let i = 0; i < drops; i++) {
+    const slotIndex = calculateFinalSlot(randomPath(rows, random));
+    const multiplier = getMultiplier(rows, risk, slotIndex);
+
+    hits[slotIndex]++;
+    totalReturn += multiplier;
+    totalSquaredReturn += multiplier * multiplier;
+
+    profit += multiplier - 1;
+    peak = Math.max(peak, profit);
+    maxDrawdown = Math.max(maxDrawdown, peak - profit);
+  }
+
+  const rtp = drops > 0 ? totalReturn / drops : 0;
+  const variance = drops > 0 ? totalSquaredReturn / drops - rtp * rtp : 0;
+  const probabilities = getSlotProbabilities(rows);
+
+  return {
+    rows,
+    risk,
+    drops,
+    seed,
+    slots: MULTIPLIERS[risk][rows].map((multiplier, slotIndex) => ({
+      slotIndex,
+      multiplier,
+      hits: hits[slotIndex],
+      frequency: drops > 0 ? hits[slotIndex] / drops : 0,
+      expectedFrequency: probabilities[slotIndex],
+    })),
+    rtp,
+    expectedRTP: getExpectedRTP(rows, risk),
+    variance,
+    maxDrawdown,
+    inBand: isRTPInBand(rows, risk),
+  };
+}
+
+/**
+ * Simulate every row count and risk level
+ * Each table gets its own seed derived from the base one.
+ */
+export function simulateAllTables(drops: number, seed = 1): SimulationReport[] {
+  return RISK_LEVELS.flatMap((risk, riskIndex) =>
+    ROW_COUNTS.map((rows) =>
+      simulateDrops({ rows, risk, drops, seed: seed + riskIndex * 100 + rows })
+    )
+  );
+}
+
+const percent = (value: number, digits = 2) => `${(value * 100).toFixed(digits)}%`;
+
+/**
+ * Markdown summary plus per-slot hit tables
+ */
+export function formatReportMarkdown(reports: SimulationReport[]): string {
+  const lines: string[] = [
+    '# Reporte de RTP de Plinko',
+    '',
+    `Banda aceptada: ${percent(RTP_BAND.min)} – ${percent(RTP_BAND.max)}`,
+    '',
+    '| Riesgo | Filas | Tiradas | RTP simulado | RTP teórico | Varianza | Máx. drawdown | En banda |',
+    '| --- | ---: | ---: | ---: | ---: | ---: | ---: | :---: |',
+    ...reports.map((r) =>
+      `| ${r.risk} | ${r.rows} | ${r.drops} | ${percent(r.rtp)} | ${percent(r.expectedRTP)} | ` +
+      `${r.variance.toFixed(2)} | ${r.maxDrawdown.toFixed(2)} | ${r.inBand ? 'sí' : '**no**'} |`
+    ),
+  ];
+
+  for (const r of reports) {
+    lines.push(
+      '',
+      `## ${r.risk} · ${r.rows} filas`,
+      '',
+      '| Casilla | Multiplicador | Aciertos | Frecuencia | Esperada |',
+      '| ---: | ---: | ---: | ---: | ---: |',
+      ...r.slots.map((slot) =>
+        `| ${slot.slotIndex} | ${slot.multiplier}× | ${slot.hits} | ` +
+        `${percent(slot.frequency, 3)} | ${percent(slot.expectedFrequency, 3)} |`
+      )
+    );
+  }
+
+  return lines.join('\n') + '\n';
+}
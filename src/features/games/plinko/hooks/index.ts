@@ -1,3 +1,7 @@
 export { usePlinkoGame, MIN_BALL_COUNT, MAX_BALL_COUNT } from './use-plinko-game';
-export type { BallCount } from './use-plinko-game';
+export type { BallCount, DropBallFn } from './use-plinko-game';
 export { usePlinkoPhysics } from './use-plinko-physics';
+export { useProvablyFair } from './use-provably-fair';
+export type { FairDrop, UseProvablyFairReturn } from './use-provably-fair';
+export { usePlinkoAutoBet, MIN_AUTO_INTERVAL } from './use-plinko-auto-bet';
+export type { DropRoundFn, UsePlinkoAutoBetReturn } from './use-plinko-auto-bet';
@@ -0,0 +1,199 @@
+'use client';
+
+import { useState, useCallback, useRef, useEffect } from 'react';
+import type { DropResult, AutoBetConfig, AutoBetRule, AutoBetStopReason } from '../types';
+import { BET_CONFIG } from '../../common/constants';
+
+export const MIN_AUTO_INTERVAL = 250;
+
+const DEFAULT_CONFIG: AutoBetConfig = {
+  rounds: 10,
+  intervalMs: 1000,
+  onWin: { action: 'reset', percent: 0 },
+  onLoss: { action: 'reset', percent: 0 },
+  stopOnProfit: null,
+  stopOnLoss: null,
+};
+
+/**
+ * Drops one round at the given bet per ball; false if the bet could not be placed.
+ * onBallDropped tags each ball so only this run's landings count.
+ */
+export type DropRoundFn = (betAmount: number, onBallDropped: (ballId: string) => void) => Promise<boolean>;
+
+interface UsePlinkoAutoBetOptions {
+  betAmount: number;
+  ballCount: number;
+  balance: number;
+}
+
+export interface UsePlinkoAutoBetReturn {
+  config: AutoBetConfig;
+  isRunning: boolean;
+  roundsPlayed: number;
+  sessionProfit: number;
+  currentBet: number;
+  stopReason: AutoBetStopReason | null;
+  updateConfig: (changes: Partial<AutoBetConfig>) => void;
+  start: (dropRound: DropRoundFn) => void;
+  stop: () => void;
+  /** Feed every landed ball so rules and stop conditions can run */
+  handleResult: (ballId: string, result: DropResult) => void;
+}
+
+function applyRule(rule: AutoBetRule, currentBet: number, baseBet: number): number {
+  if (rule.action === 'reset') return baseBet;
+  return Math.round(currentBet * (1 + rule.percent / 100) * 100) / 100;
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+export function usePlinkoAutoBet(options: UsePlinkoAutoBetOptions): UsePlinkoAutoBetReturn {
+  const { betAmount, ballCount, balance } = options;
+
+  const [config, setConfig] = useState<AutoBetConfig>(DEFAULT_CONFIG);
+  const [isRunning, setIsRunning] = useState(false);
+  const [roundsPlayed, setRoundsPlayed] = useState(0);
+  const [sessionProfit, setSessionProfit] = useState(0);
+  const [currentBet, setCurrentBet] = useState(betAmount);
+  const [stopReason, setStopReason] = useState<AutoBetStopReason | null>(null);
+
+  // Loop state lives in refs so the async loop always sees the latest values
+  const runningRef = useRef(false);
+  // Bumped on every start: a loop from an earlier run exits as soon as it sees a newer id
+  const runIdRef = useRef(0);
+  const baseBetRef = useRef(betAmount);
+  const currentBetRef = useRef(betAmount);
+  const profitRef = useRef(0);
+  // Balls dropped by the current run that haven't landed yet
+  const runBallsRef = useRef<Set<string>>(new Set());
+  const balanceRef = useRef(balance);
+  const configRef = useRef(config);
+
+  useEffect(() => {
+    balanceRef.current = balance;
+  }, [balance]);
+
+  useEffect(() => {
+    configRef.current = config;
+  }, [config]);
+
+  // Stop the loop when the component unmounts
+  useEffect(() => {
+    return () => {
+      runningRef.current = false;
+    };
+  }, []);
+
+  const finish = useCallback((reason: AutoBetStopReason) => {
+    if (!runningRef.current) return;
+    runningRef.current = false;
+    setIsRunning(false);
+    setStopReason(reason);
+  }, []);
+
+  const updateConfig = useCallback((changes: Partial<AutoBetConfig>) => {
+    if (runningRef.current) return;
+    setConfig(prev => ({ ...prev, ...changes }));
+  }, []);
+
+  const start = useCallback((dropRound: DropRoundFn) => {
+    if (runningRef.current) return;
+
+    const runId = ++runIdRef.current;
+    const runBalls = new Set<string>();
+    const isCurrentRun = () => runningRef.current && runIdRef.current === runId;
+
+    runningRef.current = true;
+    runBallsRef.current = runBalls;
+    baseBetRef.current = betAmount;
+    currentBetRef.current = betAmount;
+    profitRef.current = 0;
+
+    setIsRunning(true);
+    setRoundsPlayed(0);
+    setSessionProfit(0);
+    setCurrentBet(betAmount);
+    setStopReason(null);
+
+    const run = async () => {
+      let played = 0;
+
+      while (isCurrentRun()) {
+        const { rounds, intervalMs } = configRef.current;
+        if (rounds > 0 && played >= rounds) {
+          finish('completed');
+          return;
+        }
+
+        const bet = currentBetRef.current;
+        const overBalance = bet * ballCount > balanceRef.current;
+        // An on-win/on-loss increase outgrew the table limit or the balance
+        if (bet > baseBetRef.current && (bet > BET_CONFIG.MAX_BET || overBalance)) {
+          finish('bet_limit');
+          return;
+        }
+        if (bet <= 0 || overBalance) {
+          finish('balance');
+          return;
+        }
+
+        const dropped = await dropRound(bet, (ballId) => runBalls.add(ballId));
+        if (!isCurrentRun()) return;
+        if (!dropped) {
+          finish('error');
+          return;
+        }
+
+        played++;
+        setRoundsPlayed(played);
+
+        await sleep(Math.max(MIN_AUTO_INTERVAL, intervalMs));
+      }
+    };
+
+    run();
+  }, [betAmount, ballCount, finish]);
+
+  const stop = useCallback(() => {
+    finish('manual');
+  }, [finish]);
+
+  const handleResult = useCallback((ballId: string, result: DropResult) => {
+    // Only balls dropped by the current auto-bet run count towards the session
+    if (!runBallsRef.current.delete(ballId)) return;
+
+    profitRef.current += result.winAmount - result.betAmount;
+    setSessionProfit(profitRef.current);
+
+    if (!runningRef.current) return;
+
+    const { onWin, onLoss, stopOnProfit, stopOnLoss } = configRef.current;
+
+    if (result.winAmount > result.betAmount) {
+      currentBetRef.current = applyRule(onWin, currentBetRef.current, baseBetRef.current);
+    } else if (result.winAmount < result.betAmount) {
+      currentBetRef.current = applyRule(onLoss, currentBetRef.current, baseBetRef.current);
+    }
+    setCurrentBet(currentBetRef.current);
+
+    if (stopOnProfit !== null && profitRef.current >= stopOnProfit) {
+      finish('profit');
+    } else if (stopOnLoss !== null && -profitRef.current >= stopOnLoss) {
+      finish('loss');
+    }
+  }, [finish]);
+
+  return {
+    config,
+    isRunning,
+    roundsPlayed,
+    sessionProfit,
+    currentBet,
+    stopReason,
+    updateConfig,
+    start,
+    stop,
+    handleResult,
+  };
+}
@@ -2,8 +2,9 @@
 
 import { useState, useCallback, useRef } from 'react';
 import { useWalletStore } from '@/features/wallet';
-import type { RowCount, PlinkoState, DropResult, BallDirection, BallSpeed } from '../types';
+import type { RowCount, RiskLevel, PlinkoState, DropResult, BallDirection, BallSpeed, FairnessProof } from '../types';
 import { BALL_DROP_DELAY } from '../engine';
+import type { FairDrop } from './use-provably-fair';
 import { gameLogger } from '@/lib/utils/logger';
 
 // Ball count range
@@ -11,14 +12,31 @@ export const MIN_BALL_COUNT = 1;
 export const MAX_BALL_COUNT = 10;
 export type BallCount = number; // 1-10
 
+export type DropBallFn = (id: string, path: BallDirection[]) => { path: BallDirection[]; finalSlot: number } | null;
+
 interface UsePlinkoGameOptions {
   initialRows?: RowCount;
+  initialRisk?: RiskLevel;
   onDropComplete?: (result: DropResult) => void;
+  /** Server-settled provably fair drop (see useProvablyFair) */
+  dropBall: (betAmount: number, rows: RowCount, risk: RiskLevel) => Promise<FairDrop | null>;
+}
+
+// Bet waiting for its ball to land
+interface PendingBet {
+  betAmount: number;
+  rows: RowCount;
+  risk: RiskLevel;
+  slotIndex: number;
+  multiplier: number;
+  payout: number;
+  fairness: FairnessProof;
 }
 
 interface UsePlinkoGameReturn {
   // State
   rows: RowCount;
+  risk: RiskLevel;
   speed: BallSpeed;
   betAmount: number;
   ballCount: BallCount;
@@ -36,19 +54,21 @@ interface UsePlinkoGameReturn {
 
   // Actions
   setRows: (rows: RowCount) => void;
+  setRisk: (risk: RiskLevel) => void;
   setSpeed: (speed: BallSpeed) => void;
   setBetAmount: (amount: number) => void;
   setBallCount: (count: BallCount) => void;
-  dropBalls: (dropBallFn: (id: string) => { path: BallDirection[]; finalSlot: number } | null) => Promise<boolean>;
-  onBallLanded: (ballId: string, slotIndex: number, multiplier: number) => Promise<void>;
+  dropBalls: (dropBallFn: DropBallFn, betOverride?: number, onBallDropped?: (ballId: string) => void) => Promise<boolean>;
+  onBallLanded: (ballId: string, slotIndex: number, multiplier: number) => Promise<DropResult | null>;
   reset: () => void;
 }
 
-export function usePlinkoGame(options: UsePlinkoGameOptions = {}): UsePlinkoGameReturn {
-  const { initialRows = 12, onDropComplete } = options;
+export function usePlinkoGame(options: UsePlinkoGameOptions): UsePlinkoGameReturn {
+  const { initialRows = 12, initialRisk = 'low', onDropComplete, dropBall } = options;
 
   // Game state
   const [rows, setRows] = useState<RowCount>(initialRows);
+  const [risk, setRisk] = useState<RiskLevel>(initialRisk);
   const [speed, setSpeed] = useState<BallSpeed>('normal');
   const [betAmount, setBetAmount] = useState<number>(10);
   const [ballCount, setBallCount] = useState<BallCount>(1);
@@ -58,20 +78,84 @@ export function usePlinkoGame(options: UsePlinkoGameOptions = {}): UsePlinkoGame
   const [totalProfit, setTotalProfit] = useState<number>(0);
 
   // Track pending bets
-  const pendingBetsRef = useRef<Map<string, number>>(new Map());
+  const pendingBetsRef = useRef<Map<string, PendingBet>>(new Map());
+  // Last balance returned by the server (payouts included)
+  const serverBalanceRef = useRef<number | null>(null);
 
   // Wallet
-  const { wallet, placeBet, recordWin, isLoading: isWalletLoading } = useWalletStore();
+  const { wallet, setBalance, refreshWallet, isLoading: isWalletLoading } = useWalletStore();
   const balance = wallet?.balance ?? 0;
 
+  // The server pays on drop; hold back payouts until their ball lands
+  const syncBalance = useCallback(() => {
+    if (serverBalanceRef.current === null) return;
+    let inFlight = 0;
+    pendingBetsRef.current.forEach(bet => { inFlight += bet.payout; });
+    setBalance(serverBalanceRef.current - inFlight);
+  }, [setBalance]);
+
   // Calculate total bet
   const totalBet = betAmount * ballCount;
 
+  const onBallLanded = useCallback(async (
+    ballId: string,
+    slotIndex: number,
+    _multiplier: number
+  ): Promise<DropResult | null> => {
+    void _multiplier; // Payout comes from the committed path, not the physics landing
+    const pending = pendingBetsRef.current.get(ballId);
+    if (pending === undefined) {
+      gameLogger.warn(`[Plinko] No pending bet found for ball ${ballId}`);
+      return null;
+    }
+
+    pendingBetsRef.current.delete(ballId);
+
+    if (slotIndex !== pending.slotIndex) {
+      gameLogger.warn(`[Plinko] Ball ${ballId} landed in ${slotIndex}, path says ${pending.slotIndex}`);
+    }
+
+    const profit = pending.payout - pending.betAmount;
+
+    const result: DropResult = {
+      betAmount: pending.betAmount,
+      multiplier: pending.multiplier,
+      winAmount: pending.payout,
+      slotIndex: pending.slotIndex,
+      rows: pending.rows,
+      risk: pending.risk,
+      fairness: pending.fairness,
+    };
+
+    // Release this ball's payout into the displayed balance
+    syncBalance();
+
+    setCurrentResult(result);
+    setHistory(prev => [result, ...prev].slice(0, 50)); // Keep last 50 results
+    setTotalProfit(prev => prev + profit);
+
+    onDropComplete?.(result);
+
+    // Check if all balls have landed
+    if (pendingBetsRef.current.size === 0) {
+      setGameState('finished');
+      // Auto-reset to idle after a short delay
+      setTimeout(() => setGameState('idle'), 1000);
+    }
+
+    return result;
+  }, [syncBalance, onDropComplete]);
+
   const dropBalls = useCallback(async (
-    dropBallFn: (id: string) => { path: BallDirection[]; finalSlot: number } | null
+    dropBallFn: DropBallFn,
+    betOverride?: number,
+    onBallDropped?: (ballId: string) => void
   ): Promise<boolean> => {
+    // Auto-bet drops at its own bet without touching the manual amount
+    const ballBet = betOverride ?? betAmount;
+
     // Validate balance for ALL balls
-    if (totalBet > balance) {
+    if (ballBet <= 0 || ballBet * ballCount > balance) {
       return false;
     }
 
@@ -79,10 +163,11 @@ export function usePlinkoGame(options: UsePlinkoGameOptions = {}): UsePlinkoGame
 
     // Drop all balls with delay between each
     for (let i = 0; i < ballCount; i++) {
-      // Place bet for this ball
-      const betSuccess = await placeBet(betAmount, 'plinko', `Apuesta en Plinko (${rows} filas)`);
-      if (!betSuccess) {
-        // If a bet fails mid-way, we still have some balls pending - don't reset state
+      // Bet, roll and payout are settled by the server in one call
+      const drop = await dropBall(ballBet, rows, risk);
+      if (!drop) {
+        await refreshWallet();
+        // If a drop fails mid-way, we still have some balls pending - don't reset state
         if (pendingBetsRef.current.size === 0) {
           setGameState('idle');
         }
@@ -92,16 +177,24 @@ export function usePlinkoGame(options: UsePlinkoGameOptions = {}): UsePlinkoGame
       // Generate unique ball ID
       const ballId = `${Date.now()}-${i}-${Math.random().toString(36).slice(2, 8)}`;
 
-      // Store the bet amount for this ball
-      pendingBetsRef.current.set(ballId, betAmount);
-
-      // Drop the ball
-      const result = dropBallFn(ballId);
-      if (!result) {
-        // Refund if drop failed
-        await recordWin(betAmount, 'plinko', 'Reembolso - error al soltar');
-        pendingBetsRef.current.delete(ballId);
-        continue; // Try next ball
+      pendingBetsRef.current.set(ballId, {
+        betAmount: ballBet,
+        rows,
+        risk,
+        slotIndex: drop.slotIndex,
+        multiplier: drop.multiplier,
+        payout: drop.payout,
+        fairness: drop.fairness,
+      });
+      serverBalanceRef.current = drop.balance;
+      syncBalance();
+      onBallDropped?.(ballId);
+
+      // Animate the ball along its committed path; the bet is already settled
+      if (!dropBallFn(ballId, drop.path)) {
+        gameLogger.warn(`[Plinko] Could not animate ball ${ballId}, settling without animation`);
+        await onBallLanded(ballId, drop.slotIndex, drop.multiplier);
+        continue;
       }
 
       // Add delay between balls (except for the last one)
@@ -111,49 +204,7 @@ export function usePlinkoGame(options: UsePlinkoGameOptions = {}): UsePlinkoGame
     }
 
     return true;
-  }, [betAmount, ballCount, totalBet, balance, rows, placeBet, recordWin]);
-
-  const onBallLanded = useCallback(async (
-    ballId: string,
-    slotIndex: number,
-    multiplier: number
-  ): Promise<void> => {
-    const ballBetAmount = pendingBetsRef.current.get(ballId);
-    if (ballBetAmount === undefined) {
-      gameLogger.warn(`[Plinko] No pending bet found for ball ${ballId}`);
-      return;
-    }
-
-    pendingBetsRef.current.delete(ballId);
-
-    const winAmount = ballBetAmount * multiplier;
-    const profit = winAmount - ballBetAmount;
-
-    const result: DropResult = {
-      betAmount: ballBetAmount,
-      multiplier,
-      winAmount,
-      slotIndex,
-    };
-
-    // Record win (even if multiplier < 1, we still record the return)
-    if (winAmount > 0) {
-      await recordWin(winAmount, 'plinko', `Multiplicador x${multiplier}`);
-    }
-
-    setCurrentResult(result);
-    setHistory(prev => [result, ...prev].slice(0, 50)); // Keep last 50 results
-    setTotalProfit(prev => prev + profit);
-
-    onDropComplete?.(result);
-
-    // Check if all balls have landed
-    if (pendingBetsRef.current.size === 0) {
-      setGameState('finished');
-      // Auto-reset to idle after a short delay
-      setTimeout(() => setGameState('idle'), 1000);
-    }
-  }, [recordWin, onDropComplete]);
+  }, [betAmount, ballCount, balance, rows, risk, dropBall, refreshWallet, syncBalance, onBallLanded]);
 
   const reset = useCallback(() => {
     setGameState('idle');
@@ -161,7 +212,8 @@ export function usePlinkoGame(options: UsePlinkoGameOptions = {}): UsePlinkoGame
     setHistory([]);
     setTotalProfit(0);
     pendingBetsRef.current.clear();
-  }, []);
+    syncBalance();
+  }, [syncBalance]);
 
   const handleSetRows = useCallback((newRows: RowCount) => {
     if (gameState !== 'dropping') {
@@ -169,6 +221,12 @@ export function usePlinkoGame(options: UsePlinkoGameOptions = {}): UsePlinkoGame
     }
   }, [gameState]);
 
+  const handleSetRisk = useCallback((newRisk: RiskLevel) => {
+    if (gameState !== 'dropping') {
+      setRisk(newRisk);
+    }
+  }, [gameState]);
+
   const handleSetSpeed = useCallback((newSpeed: BallSpeed) => {
     if (gameState !== 'dropping') {
       setSpeed(newSpeed);
@@ -190,6 +248,7 @@ export function usePlinkoGame(options: UsePlinkoGameOptions = {}): UsePlinkoGame
   return {
     // State
     rows,
+    risk,
     speed,
     betAmount,
     ballCount,
@@ -207,6 +266,7 @@ export function usePlinkoGame(options: UsePlinkoGameOptions = {}): UsePlinkoGame
 
     // Actions
     setRows: handleSetRows,
+    setRisk: handleSetRisk,
     setSpeed: handleSetSpeed,
     setBetAmount: handleSetBetAmount,
     setBallCount: handleSetBallCount,
@@ -1,11 +1,12 @@
 'use client';
 
 import { useRef, useEffect, useCallback, useState } from 'react';
-import type { RowCount, BallDirection, BallSpeed } from '../types';
+import type { RowCount, RiskLevel, BallDirection, BallSpeed } from '../types';
 import { PlinkoEngine, type PlinkoEngineCallbacks } from '../engine';
 
 interface UsePlinkoPhysicsOptions {
   rows: RowCount;
+  risk?: RiskLevel;
   speed?: BallSpeed;
   onPinHit?: (ballId: string, pinIndex: number) => void;
   onBallLanded?: (ballId: string, slotIndex: number, multiplier: number) => void;
@@ -23,7 +24,7 @@ interface UsePlinkoPhysicsReturn {
 }
 
 export function usePlinkoPhysics(options: UsePlinkoPhysicsOptions): UsePlinkoPhysicsReturn {
-  const { rows, speed = 'normal', onPinHit, onBallLanded, onAllBallsLanded } = options;
+  const { rows, risk = 'low', speed = 'normal', onPinHit, onBallLanded, onAllBallsLanded } = options;
 
   const canvasRef = useRef<HTMLCanvasElement | null>(null);
   const engineRef = useRef<PlinkoEngine | null>(null);
@@ -169,6 +170,13 @@ export function usePlinkoPhysics(options: UsePlinkoPhysicsOptions): UsePlinkoPhy
     }
   }, [rows, isReady]);
 
+  // Update risk when it changes
+  useEffect(() => {
+    if (engineRef.current && isReady) {
+      engineRef.current.setRisk(risk);
+    }
+  }, [risk, isReady]);
+
   // Update speed when it changes
   useEffect(() => {
     if (engineRef.current && isReady) {
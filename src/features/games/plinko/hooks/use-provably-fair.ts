@@ -0,0 +1,113 @@
+'use client';
+
+import { useState, useCallback, useEffect } from 'react';
+import type { RowCount, RiskLevel, BallDirection, FairnessProof, SeedState, RevealedSeed } from '../types';
+import { pathFromHash } from '../engine/provably-fair';
+import { provablyFairService } from '../services/provably-fair-service';
+
+interface UseProvablyFairOptions {
+  /** Only talk to the server when there is a session */
+  enabled: boolean;
+}
+
+export interface FairDrop {
+  path: BallDirection[];
+  fairness: FairnessProof;
+  /** Settled by the server before the ball is animated */
+  slotIndex: number;
+  multiplier: number;
+  payout: number;
+  balance: number;
+}
+
+export interface UseProvablyFairReturn {
+  seedState: SeedState | null;
+  revealedSeeds: RevealedSeed[];
+  isRotating: boolean;
+  error: string | null;
+  dropBall: (betAmount: number, rows: RowCount, risk: RiskLevel) => Promise<FairDrop | null>;
+  rotateSeed: (clientSeed?: string) => Promise<RevealedSeed | null>;
+}
+
+export function useProvablyFair({ enabled }: UseProvablyFairOptions): UseProvablyFairReturn {
+  const [seedState, setSeedState] = useState<SeedState | null>(null);
+  const [revealedSeeds, setRevealedSeeds] = useState<RevealedSeed[]>([]);
+  const [isRotating, setIsRotating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Load the committed seed and previously revealed seeds
+  useEffect(() => {
+    if (!enabled) return;
+
+    let cancelled = false;
+    Promise.all([
+      provablyFairService.getSeedState(),
+      provablyFairService.getRevealedSeeds(),
+    ]).then(([state, revealed]) => {
+      if (cancelled) return;
+      setSeedState(state);
+      setRevealedSeeds(revealed);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [enabled]);
+
+  // The server places the bet, signs the next nonce and pays out; the path is
+  // derived locally from the same hash so the animation matches the payout
+  const dropBall = useCallback(async (betAmount: number, rows: RowCount, risk: RiskLevel): Promise<FairDrop | null> => {
+    const { drop, error: dropError } = await provablyFairService.drop(betAmount, rows, risk);
+    if (!drop) {
+      setError(dropError);
+      return null;
+    }
+
+    setError(null);
+    setSeedState({
+      serverSeedHash: drop.serverSeedHash,
+      clientSeed: drop.clientSeed,
+      nonce: drop.nonce + 1,
+    });
+
+    return {
+      path: pathFromHash(drop.hash, rows),
+      fairness: {
+        serverSeedHash: drop.serverSeedHash,
+        clientSeed: drop.clientSeed,
+        nonce: drop.nonce,
+      },
+      slotIndex: drop.slotIndex,
+      multiplier: drop.multiplier,
+      payout: drop.payout,
+      balance: drop.balance,
+    };
+  }, []);
+
+  const rotateSeed = useCallback(async (clientSeed?: string): Promise<RevealedSeed | null> => {
+    setIsRotating(true);
+    try {
+      const result = await provablyFairService.rotateSeed(clientSeed);
+      if (!result) {
+        setError('No se pudo rotar la semilla');
+        return null;
+      }
+
+      setError(null);
+      setSeedState(result.current);
+      setRevealedSeeds(prev => [result.previous, ...prev].slice(0, 10));
+      return result.previous;
+    } finally {
+      setIsRotating(false);
+    }
+  }, []);
+
+  return {
+    seedState,
+    revealedSeeds,
+    isRotating,
+    error,
+    dropBall,
+    rotateSeed,
+  };
+}
@@ -5,7 +5,7 @@ import dynamic from 'next/dynamic';
 import { useAuth } from '@/features/auth/hooks/use-auth';
 import { useWalletStore } from '@/features/wallet';
 import type { GameProps } from '../registry/types';
-import { usePlinkoGame } from './hooks';
+import { usePlinkoGame, useProvablyFair } from './hooks';
 
 // Dynamically import GameScreen to avoid SSR issues with Matter.js
 const GameScreen = dynamic(
@@ -52,8 +52,11 @@ export function Plinko({ onBack = () => {} }: PlinkoProps) {
     }
   }, [isAuthLoading, isWalletLoading, user]);
 
+  const fairness = useProvablyFair({ enabled: isAuthenticated });
+
   const game = usePlinkoGame({
     initialRows: 12,
+    dropBall: fairness.dropBall,
   });
 
   // Loading state
@@ -72,6 +75,7 @@ export function Plinko({ onBack = () => {} }: PlinkoProps) {
   return (
     <GameScreen
       rows={game.rows}
+      risk={game.risk}
       speed={game.speed}
       betAmount={game.betAmount}
       ballCount={game.ballCount}
@@ -81,7 +85,9 @@ export function Plinko({ onBack = () => {} }: PlinkoProps) {
       history={game.history}
       totalProfit={game.totalProfit}
       isAuthenticated={isAuthenticated}
+      fairness={fairness}
       onRowsChange={game.setRows}
+      onRiskChange={game.setRisk}
       onSpeedChange={game.setSpeed}
       onBetChange={game.setBetAmount}
       onBallCountChange={game.setBallCount}
@@ -0,0 +1,147 @@
+'use client';
+
+import { getClient } from '@/lib/supabase/client';
+import { createLogger } from '@/lib/utils/logger';
+import type { SeedState, RevealedSeed, RowCount, RiskLevel } from '../types';
+
+const log = createLogger({ prefix: 'ProvablyFair' });
+
+interface SeedStateRow {
+  server_seed_hash: string;
+  client_seed: string;
+  nonce: number;
+}
+
+interface DropRow extends SeedStateRow {
+  roll_id: string;
+  hash: string;
+  slot_index: number;
+  multiplier: number | string;
+  payout: number | string;
+  balance: number | string;
+}
+
+interface RevealedSeedRow extends SeedStateRow {
+  server_seed: string;
+  revealed_at: string;
+}
+
+export interface Drop extends SeedState {
+  rollId: string;
+  /** HMAC-SHA256(serverSeed, `${clientSeed}:${nonce}`) as hex */
+  hash: string;
+  slotIndex: number;
+  multiplier: number;
+  payout: number;
+  /** Wallet balance after the bet and its payout */
+  balance: number;
+}
+
+// Mensajes de plinko_drop
+const DROP_ERROR_MESSAGES: Record<string, string> = {
+  'Insufficient balance': 'Saldo insuficiente',
+  'Invalid amount': 'Monto de apuesta invalido',
+};
+
+function rowToSeedState(row: SeedStateRow): SeedState {
+  return {
+    serverSeedHash: row.server_seed_hash,
+    clientSeed: row.client_seed,
+    nonce: Number(row.nonce),
+  };
+}
+
+function rowToRevealedSeed(row: RevealedSeedRow): RevealedSeed {
+  return {
+    ...rowToSeedState(row),
+    serverSeed: row.server_seed,
+    revealedAt: row.revealed_at,
+  };
+}
+
+class ProvablyFairService {
+  private get supabase() {
+    return getClient();
+  }
+
+  // Estado del seed activo (hash comprometido, client seed y nonce)
+  async getSeedState(): Promise<SeedState | null> {
+    const { data, error } = await this.supabase.rpc('get_plinko_seed');
+
+    if (error || !data) {
+      log.error('Error loading seed state:', error);
+      return null;
+    }
+
+    return rowToSeedState(data as SeedStateRow);
+  }
+
+  // Soltar una bola: el servidor debita, firma el nonce actual y paga en una sola llamada
+  async drop(betAmount: number, rows: RowCount, risk: RiskLevel): Promise<{ drop: Drop | null; error: string | null }> {
+    // @ts-expect-error - Supabase RPC types require CLI regeneration (supabase gen types)
+    const { data, error } = await this.supabase.rpc('plinko_drop', {
+      p_bet_amount: betAmount,
+      p_rows: rows,
+      p_risk: risk,
+    });
+
+    if (error || !data) {
+      log.error('Error dropping ball:', error);
+      return { drop: null, error: (error && DROP_ERROR_MESSAGES[error.message]) ?? 'No se pudo soltar la bola' };
+    }
+
+    // DECIMAL llega como string desde PostgREST
+    const row = data as DropRow;
+    return {
+      drop: {
+        ...rowToSeedState(row),
+        rollId: row.roll_id,
+        hash: row.hash,
+        slotIndex: Number(row.slot_index),
+        multiplier: Number(row.multiplier),
+        payout: Number(row.payout),
+        balance: Number(row.balance),
+      },
+      error: null,
+    };
+  }
+
+  // Rotar seed: revela el anterior y compromete uno nuevo
+  async rotateSeed(clientSeed?: string): Promise<{ previous: RevealedSeed; current: SeedState } | null> {
+    // @ts-expect-error - Supabase RPC types require CLI regeneration (supabase gen types)
+    const { data, error } = await this.supabase.rpc('rotate_plinko_seed', {
+      p_client_seed: clientSeed ?? null
+    });
+
+    if (error || !data) {
+      log.error('Error rotating seed:', error);
+      return null;
+    }
+
+    const result = data as { previous: RevealedSeedRow; current: SeedStateRow };
+    return {
+      previous: rowToRevealedSeed(result.previous),
+      current: rowToSeedState(result.current),
+    };
+  }
+
+  // Seeds ya revelados (más recientes primero)
+  async getRevealedSeeds(limit: number = 10): Promise<RevealedSeed[]> {
+    const { data, error } = await this.supabase
+      .from('plinko_seeds')
+      .select('server_seed, server_seed_hash, client_seed, nonce, revealed_at')
+      .not('revealed_at', 'is', null)
+      .order('revealed_at', { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      log.error('Error loading revealed seeds:', error);
+      return [];
+    }
+
+    return ((data ?? []) as RevealedSeedRow[]).map(rowToRevealedSeed);
+  }
+}
+
+export const provablyFairService = new ProvablyFairService();
+export default provablyFairService;
@@ -3,6 +3,11 @@
  */
 export type RowCount = 8 | 9 | 10 | 11 | 12 | 13 | 14 | 15 | 16;
 
+/**
+ * Risk level: selects the multiplier table (higher risk = wider spread)
+ */
+export type RiskLevel = 'low' | 'medium' | 'high';
+
 /**
  * Game state
  */
@@ -13,9 +18,20 @@ export type PlinkoState = 'idle' | 'dropping' | 'finished';
  */
 export interface PlinkoGameConfig {
   rows: RowCount;
+  risk: RiskLevel;
   betAmount: number;
 }
 
+/**
+ * Provably fair inputs used to derive a ball's path
+ * path = bits of HMAC-SHA256(serverSeed, `${clientSeed}:${nonce}`)
+ */
+export interface FairnessProof {
+  serverSeedHash: string;
+  clientSeed: string;
+  nonce: number;
+}
+
 /**
  * Result of a single ball drop
  */
@@ -24,6 +40,97 @@ export interface DropResult {
   multiplier: number;
   winAmount: number;
   slotIndex: number;
+  rows: RowCount;
+  risk: RiskLevel;
+  fairness?: FairnessProof;
+}
+
+/**
+ * Public state of the active seed pair (server seed stays hidden until rotated)
+ */
+export interface SeedState {
+  serverSeedHash: string;
+  clientSeed: string;
+  nonce: number;
+}
+
+/**
+ * A server seed revealed after rotation
+ */
+export interface RevealedSeed extends SeedState {
+  serverSeed: string;
+  revealedAt: string;
+}
+
+/**
+ * Outcome recomputed by the verifier
+ */
+export interface VerifiedDrop {
+  serverSeedHash: string;
+  hashMatches: boolean | null;
+  path: BallDirection[];
+  slotIndex: number;
+  multiplier: number;
+}
+
+/**
+ * What auto-bet does to the bet after a win or a loss
+ * reset = back to the base bet, increase = multiply by (1 + percent / 100)
+ */
+export interface AutoBetRule {
+  action: 'reset' | 'increase';
+  percent: number;
+}
+
+/**
+ * Auto-bet session settings
+ */
+export interface AutoBetConfig {
+  /** Number of rounds, 0 = until stopped */
+  rounds: number;
+  /** Pause between rounds in ms */
+  intervalMs: number;
+  onWin: AutoBetRule;
+  onLoss: AutoBetRule;
+  /** Stop once session profit reaches this amount (null = off) */
+  stopOnProfit: number | null;
+  /** Stop once session loss reaches this amount (null = off) */
+  stopOnLoss: number | null;
+}
+
+/**
+ * Why the last auto-bet session ended
+ */
+export type AutoBetStopReason = 'completed' | 'manual' | 'profit' | 'loss' | 'balance' | 'bet_limit' | 'error';
+
+/**
+ * Hits for one slot in a headless simulation
+ */
+export interface SlotStats {
+  slotIndex: number;
+  multiplier: number;
+  hits: number;
+  frequency: number;
+  expectedFrequency: number;
+}
+
+/**
+ * Outcome of simulating N drops on one table (stake = 1 per drop)
+ */
+export interface SimulationReport {
+  rows: RowCount;
+  risk: RiskLevel;
+  drops: number;
+  seed: number;
+  slots: SlotStats[];
+  rtp: number;
+  expectedRTP: number;
+  /** Variance of the per-drop return */
+  variance: number;
+  /** Largest peak-to-trough fall of cumulative profit, in stakes */
+  maxDrawdown: number;
+  /** Theoretical RTP within RTP_BAND (sampled RTP is too noisy on high risk) */
+  inBand: boolean;
 }
 
 /**
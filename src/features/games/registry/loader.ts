@@ -19,12 +19,15 @@ export async function loadGames(): Promise<void> {
   const plinko = await import('../plinko');
   gameRegistry.register(plinko.default);
 
-  // Add more games here as they are implemented:
-  // const connectFour = await import('../connect-four');
-  // gameRegistry.register(connectFour.default);
+  // Connect Four
+  const connectFour = await import('../connect-four');
+  gameRegistry.register(connectFour.default);
 
-  // const chess = await import('../chess');
-  // gameRegistry.register(chess.default);
+  // Chess
+  const chess = await import('../chess');
+  gameRegistry.register(chess.default);
+
+  // Add more games here as they are implemented
 }
 
 /**
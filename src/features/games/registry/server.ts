@@ -0,0 +1,21 @@
+import type { ServerGameDefinition } from './types';
+import { ticTacToeServerGame } from '../tic-tac-toe/server';
+import { connectFourServerGame } from '../connect-four/server';
+import { chessServerGame } from '../chess/server';
+
+/**
+ * Server-side game definitions by slug
+ * Kept apart from the client registry so route handlers only pull in engines
+ */
+const serverGames: Record<string, ServerGameDefinition> = {
+  'tic-tac-toe': ticTacToeServerGame,
+  'connect-four': connectFourServerGame,
+  'chess': chessServerGame,
+};
+
+/**
+ * Get the server definition for a game (undefined if it has no online engine)
+ */
+export function getServerGame(slug: string): ServerGameDefinition | undefined {
+  return serverGames[slug];
+}
@@ -1,4 +1,6 @@
 import type { ComponentType } from 'react';
+import type { Json } from '@/types/supabase.types';
+import type { MusicTrackId } from '@/features/audio';
 
 /**
  * Game category for filtering and organization
@@ -56,6 +58,8 @@ export interface GameConfig {
   enabled: boolean;
   /** Thumbnail image path */
   thumbnail?: string;
+  /** Background music playlist; the theme playlist plays when omitted */
+  music?: MusicTrackId[];
 }
 
 /**
@@ -113,6 +117,26 @@ export interface GameEngine<TState = unknown, TMove = unknown> {
   getValidMoves(state: TState, playerId: string): TMove[];
 }
 
+/**
+ * Converts a game state to and from the room `state` JSON column
+ * Must only import engine code (no React) so route handlers can load it
+ */
+export interface GameStateSerializer<TState = unknown> {
+  /** Serialize the engine state for storage */
+  serialize(state: TState): Json;
+  /** Rebuild the engine state (null = room not started yet, initial state) */
+  deserialize(data: Json | null): TState;
+}
+
+/**
+ * Props for a game's read-only board (spectator mode)
+ */
+export interface SpectatorBoardProps {
+  /** Room `state` column (see GameStateSerializer) */
+  state: Json | null;
+  className?: string;
+}
+
 /**
  * Complete game module export
  */
@@ -121,6 +145,35 @@ export interface GameModule {
   config: GameConfig;
   /** React component for the game */
   Component: ComponentType<GameProps>;
-  /** Optional game engine for server-side validation */
+  /** Optional game engine (see ServerGameDefinition for server-side validation) */
   Engine?: new () => GameEngine;
+  /** Room state serializer (required for online play) */
+  serializer?: GameStateSerializer;
+  /** Read-only board for spectating live rooms */
+  SpectatorBoard?: ComponentType<SpectatorBoardProps>;
+}
+
+/**
+ * Stored room fields the server needs to rebuild a game state
+ */
+export interface RoomSnapshot {
+  state: Json | null;
+  current_turn: string | null;
+  player1_id: string | null;
+  player2_id: string | null;
+}
+
+/**
+ * Server-side game definition used to validate online moves
+ * Must only import engine code (no React) so route handlers can load it
+ */
+export interface ServerGameDefinition<TState = unknown, TMove = unknown> {
+  /** Game engine used to validate and apply moves */
+  Engine: new () => GameEngine<TState, TMove>;
+  /** Room state serializer (same one the module registers) */
+  serializer: GameStateSerializer<TState>;
+  /** Engine player ID for a room player (null if not seated) */
+  playerKey(room: RoomSnapshot, userId: string): string | null;
+  /** Room player ID for an engine player */
+  userIdForKey(room: RoomSnapshot, key: string): string | null;
 }
@@ -13,13 +13,7 @@ import {
   ModalDescription,
 } from '@/components/ui/modal';
 import { Button } from '@/components/ui/button';
-
-// Configuracion de apuestas
-const BET_CONFIG = {
-  MIN_BET: 10,
-  MAX_BET: 1000,
-  PRESETS: [10, 25, 50, 100, 250, 500],
-};
+import { BET_CONFIG } from '../../common/constants';
 
 interface BetSelectionModalProps {
   isOpen: boolean;
@@ -3,5 +3,6 @@ export { Cell, XMark, OMark } from './cell';
 export { ModeSelection } from './mode-selection';
 export { GameScreen } from './game-screen';
 export { OnlineGame } from './online-game';
+export { SpectatorBoard } from './spectator-board';
 export { BetNegotiationOverlay } from './bet-negotiation-overlay';
 export { BetSelectionModal } from './bet-selection';
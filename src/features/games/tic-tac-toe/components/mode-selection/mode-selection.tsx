@@ -2,13 +2,15 @@
 
 import { useState, useCallback, memo } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { Bot, Users, Globe, ArrowLeft, Zap, Star, UserPlus, Lock, Coins, ToggleLeft, ToggleRight } from 'lucide-react';
+import { Bot, Users, Globe, ArrowLeft, Zap, Star, UserPlus, Lock, Coins, ToggleLeft, ToggleRight, Eye, List } from 'lucide-react';
+import Link from 'next/link';
 import { Button } from '@/components/ui/button';
 import { cn } from '@/lib/utils/cn';
 import { useWalletStore, formatBalance } from '@/features/wallet/store/wallet-store';
 import type { AIDifficulty, GameMode } from '../../../registry/types';
 import type { BetConfig } from '../../../common/hooks';
 import { BET_PRESETS } from '../../../common/constants';
+import { RoomLobby } from '../../../common/components';
 
 // Difficulty config data
 const DIFFICULTIES: {
@@ -106,6 +108,7 @@ interface ModeSelectionProps {
   config: LocalGameConfig;
   showAIConfig: boolean;
   isAuthenticated: boolean;
+  userId?: string | null;
   onBack?: () => void;
   onStartGame: (mode: GameMode) => void;
   onShowAIConfig: () => void;
@@ -113,12 +116,14 @@ interface ModeSelectionProps {
   onConfigChange: (updates: Partial<LocalGameConfig>) => void;
   onPlayOnline: (betConfig?: BetConfig) => void;
   onCreatePrivateRoom: (betConfig?: BetConfig) => void;
+  onJoinLobbyRoom: (roomId: string) => void;
 }
 
 export function ModeSelection({
   config,
   showAIConfig,
   isAuthenticated,
+  userId = null,
   onBack,
   onStartGame,
   onShowAIConfig,
@@ -126,6 +131,7 @@ export function ModeSelection({
   onConfigChange,
   onPlayOnline,
   onCreatePrivateRoom,
+  onJoinLobbyRoom,
 }: ModeSelectionProps) {
   const { wallet } = useWalletStore();
   const balance = wallet?.balance ?? 0;
@@ -134,6 +140,7 @@ export function ModeSelection({
   const [wantsToBet, setWantsToBet] = useState(false);
   const [betAmount, setBetAmount] = useState<number>(BET_PRESETS[0]);
   const [customBetInput, setCustomBetInput] = useState('');
+  const [showLobby, setShowLobby] = useState(false);
 
   const handleToggleBet = useCallback(() => {
     setWantsToBet(prev => !prev);
@@ -226,6 +233,40 @@ export function ModeSelection({
               />
             </div>
 
+            {/* Spectator mode */}
+            <Link
+              href="/games/tic-tac-toe/watch"
+              className="mt-3 flex items-center justify-center gap-2 text-sm text-(--color-text-muted) hover:text-(--color-primary) transition-colors"
+            >
+              <Eye size={16} />
+              Ver partidas en vivo
+            </Link>
+
+            {/* Open rooms lobby */}
+            {isAuthenticated && userId && (
+              <>
+                <button
+                  onClick={() => setShowLobby(prev => !prev)}
+                  aria-expanded={showLobby}
+                  className="mt-2 w-full flex items-center justify-center gap-2 text-sm text-(--color-text-muted) hover:text-(--color-primary) transition-colors"
+                >
+                  <List size={16} />
+                  {showLobby ? 'Ocultar salas abiertas' : 'Elegir sala abierta'}
+                </button>
+                <AnimatePresence>
+                  {showLobby && (
+                    <RoomLobby
+                      gameType="tic-tac-toe"
+                      userId={userId}
+                      balance={balance}
+                      onJoinRoom={onJoinLobbyRoom}
+                      className="mt-3"
+                    />
+                  )}
+                </AnimatePresence>
+              </>
+            )}
+
             {/* Betting Toggle Section */}
             {isAuthenticated && (
               <div className="mt-5 sm:mt-6 space-y-3">
@@ -1,12 +1,12 @@
 'use client';
 
-import { useState, memo } from 'react';
+import { memo } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { RotateCcw, Globe, Loader2, LogOut, Copy, Check, X, Wifi, WifiOff, Coins } from 'lucide-react';
+import { RotateCcw, Globe, Loader2, LogOut, Check, X, Wifi, WifiOff, Coins } from 'lucide-react';
 import { Board } from '../board';
 import { BetNegotiationOverlay } from '../bet-negotiation-overlay';
+import { TurnCountdown, RatingChangeLabel, RoomChat, RoomInvite } from '../../../common/components';
 import { Button } from '@/components/ui/button';
-import { gameLogger } from '@/lib/utils/logger';
 import {
   Modal,
   ModalContent,
@@ -20,7 +20,8 @@ import { formatBalance } from '@/features/wallet/store/wallet-store';
 import type { BoardState, WinResult } from '../../types';
 import type { OnlineGameStatus, RematchStatus } from '../../hooks/use-online-game';
 import type { ConnectionStatus } from '../../../common/services/game-room-service';
-import type { NegotiationInfo } from '../../../common/hooks';
+import type { NegotiationInfo, FinishReason, RatingChange, RoomChatReturn } from '../../../common/hooks';
+import { FINISH_REASON_LABELS } from '../../../common/constants';
 
 interface OnlineGameProps {
   status: OnlineGameStatus;
@@ -33,6 +34,9 @@ interface OnlineGameProps {
   error: string | null;
   showLeaveConfirm: boolean;
   roomId: string | null;
+  // Private room invite (assigned by the server)
+  inviteCode?: string | null;
+  inviteExpiresAt?: string | null;
   connectionStatus: ConnectionStatus;
   onCellClick: (index: number) => Promise<boolean>;
   onLeave: () => void;
@@ -57,6 +61,16 @@ interface OnlineGameProps {
   onSubmitBetProposal?: (amount: number) => void;
   onAcceptBetProposal?: () => void;
   onSkipBetting?: () => void;
+  // Turn clock
+  turnDeadline?: string | null;
+  finishReason?: FinishReason | null;
+  ratingChange?: RatingChange | null;
+  // Disconnect grace period
+  isOpponentOnline?: boolean;
+  opponentDisconnectDeadline?: string | null;
+  // Chat
+  chat?: RoomChatReturn;
+  didWin: boolean;
 }
 
 export const OnlineGame = memo(function OnlineGame({
@@ -70,6 +84,8 @@ export const OnlineGame = memo(function OnlineGame({
   error,
   showLeaveConfirm,
   roomId,
+  inviteCode = null,
+  inviteExpiresAt = null,
   connectionStatus,
   onCellClick,
   onLeave,
@@ -90,24 +106,16 @@ export const OnlineGame = memo(function OnlineGame({
   onSubmitBetProposal,
   onAcceptBetProposal,
   onSkipBetting,
+  turnDeadline = null,
+  finishReason = null,
+  ratingChange = null,
+  isOpponentOnline = true,
+  opponentDisconnectDeadline = null,
+  chat,
+  didWin,
 }: OnlineGameProps) {
   void _onBack; // Reserved for future implementation
 
-  const [copied, setCopied] = useState(false);
-
-  const copyRoomLink = async () => {
-    if (!roomId) return;
-
-    const link = `${window.location.origin}/games/tic-tac-toe?room=${roomId}`;
-    try {
-      await navigator.clipboard.writeText(link);
-      setCopied(true);
-      setTimeout(() => setCopied(false), 2000);
-    } catch (err) {
-      gameLogger.error('Failed to copy link:', err);
-    }
-  };
-
   // Connection status indicator config
   const connectionIndicator = {
     connected: { icon: Wifi, color: 'text-(--color-success)', label: 'Conectado' },
@@ -198,35 +206,12 @@ export const OnlineGame = memo(function OnlineGame({
                   )}
 
                   {/* Share section - only for private rooms */}
-                  {roomId ? (
-                    <Button
-                      onClick={copyRoomLink}
-                      variant="outline"
-                      size="lg"
-                      className="gap-2"
-                    >
-                      {copied ? (
-                        <>
-                          <Check size={18} />
-                          ¡Link copiado!
-                        </>
-                      ) : (
-                        <>
-                          <Copy size={18} />
-                          Copiar link de invitación
-                        </>
-                      )}
-                    </Button>
-                  ) : (
-                    <div className="flex items-center gap-2 text-(--color-text-muted)">
-                      <Loader2 className="animate-spin" size={16} />
-                      <span className="text-sm">Creando sala...</span>
-                    </div>
-                  )}
-
-                  <p className="text-sm text-(--color-text-muted) text-center max-w-xs">
-                    Comparte el link con un amigo para que se una a la partida.
-                  </p>
+                  <RoomInvite
+                    gameSlug="tic-tac-toe"
+                    roomId={roomId}
+                    inviteCode={inviteCode}
+                    inviteExpiresAt={inviteExpiresAt}
+                  />
                 </>
               ) : (
                 <>
@@ -297,13 +282,25 @@ export const OnlineGame = memo(function OnlineGame({
 
               {/* Turn indicator */}
               {status === 'playing' && (
-                <p className="text-lg mb-4">
-                  {isMyTurn ? (
-                    <span className="text-(--color-success) font-semibold">Tu turno ({mySymbol})</span>
-                  ) : (
-                    <span className="text-(--color-text-muted)">Turno del oponente...</span>
+                <div className="flex flex-col items-center gap-2 mb-4">
+                  <p className="text-lg">
+                    {isMyTurn ? (
+                      <span className="text-(--color-success) font-semibold">Tu turno ({mySymbol})</span>
+                    ) : (
+                      <span className="text-(--color-text-muted)">Turno del oponente...</span>
+                    )}
+                  </p>
+                  <TurnCountdown deadline={turnDeadline} isMyTurn={isMyTurn} />
+                  {(!isOpponentOnline || opponentDisconnectDeadline) && (
+                    <div className="flex items-center gap-2 text-sm text-(--color-warning)" role="status">
+                      <WifiOff size={14} />
+                      <span>
+                        {opponentDisconnectDeadline ? 'Tu oponente se desconectó, gana por abandono en' : 'Tu oponente perdió la conexión...'}
+                      </span>
+                      <TurnCountdown deadline={opponentDisconnectDeadline} isMyTurn={false} />
+                    </div>
                   )}
-                </p>
+                </div>
               )}
 
               {/* Winner message */}
@@ -312,12 +309,18 @@ export const OnlineGame = memo(function OnlineGame({
                   <p className="text-xl font-bold">
                     {isDraw ? (
                       <span className="text-(--color-accent)">¡Empate!</span>
-                    ) : winner?.winner === mySymbol ? (
+                    ) : didWin ? (
                       <span className="text-(--color-success)">¡Ganaste!</span>
                     ) : (
                       <span className="text-(--color-error)">Perdiste</span>
                     )}
                   </p>
+                  {finishReason && (
+                    <p className="text-sm text-(--color-text-muted) mt-1">
+                      {didWin ? FINISH_REASON_LABELS[finishReason].win : FINISH_REASON_LABELS[finishReason].loss}
+                    </p>
+                  )}
+                  <RatingChangeLabel change={ratingChange} />
                   {/* Betting result message */}
                   {betAmount && potTotal && potTotal > 0 && (
                     <p className="text-sm mt-1">
@@ -325,7 +328,7 @@ export const OnlineGame = memo(function OnlineGame({
                         <span className="text-(--color-accent)">
                           Apuesta reembolsada: {formatBalance(betAmount)}
                         </span>
-                      ) : winner?.winner === mySymbol ? (
+                      ) : didWin ? (
                         <span className="text-(--color-success)">
                           +{formatBalance(potTotal)}
                         </span>
@@ -480,6 +483,11 @@ export const OnlineGame = memo(function OnlineGame({
         </ModalContent>
       </Modal>
 
+      {/* Room chat (above the negotiation overlay) */}
+      {chat && (status === 'negotiating' || status === 'playing' || status === 'finished') && (
+        <RoomChat chat={chat} opponentName={opponentName || 'Oponente'} />
+      )}
+
       {/* Bet Negotiation Overlay */}
       {negotiation && onSubmitBetProposal && onAcceptBetProposal && onSkipBetting && (
         <BetNegotiationOverlay
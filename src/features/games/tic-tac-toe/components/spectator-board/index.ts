@@ -0,0 +1 @@
+export { SpectatorBoard } from './spectator-board';
@@ -0,0 +1,25 @@
+'use client';
+
+import { useMemo } from 'react';
+import type { SpectatorBoardProps } from '../../../registry/types';
+import { ticTacToeSerializer } from '../../serializer';
+import { checkWinner } from '../../engine/game-logic';
+import { Board } from '../board';
+
+const noop = () => {};
+
+// Read-only board for spectators
+export function SpectatorBoard({ state, className }: SpectatorBoardProps) {
+  const board = useMemo(() => ticTacToeSerializer.deserialize(state).board, [state]);
+  const winner = checkWinner(board);
+
+  return (
+    <Board
+      board={board}
+      onCellClick={noop}
+      disabled
+      winningLine={winner?.line ?? null}
+      className={className}
+    />
+  );
+}
@@ -12,4 +12,5 @@ export const ticTacToeConfig: GameConfig = {
   supportsOnline: true,
   supportsBetting: true,
   enabled: true,
+  music: ['board-focus', 'ember-drift'],
 };
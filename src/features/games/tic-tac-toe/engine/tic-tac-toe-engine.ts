@@ -0,0 +1,60 @@
+import type { AIDifficulty, GameEngine } from '../../registry/types';
+import type { TicTacToeMove, TicTacToeState } from '../types';
+import {
+  createInitialState,
+  makeMove,
+  isValidMove,
+  checkWinner,
+  checkDraw,
+  getAvailableMoves,
+  getNextSymbol,
+} from './game-logic';
+import { getAIMove } from './minimax';
+
+/**
+ * Tic Tac Toe engine for the registry contract
+ * Players are identified by their symbol ('X' | 'O'); callers map
+ * room player IDs to symbols (player1 = 'X', player2 = 'O').
+ */
+export class TicTacToeEngine implements GameEngine<TicTacToeState, TicTacToeMove> {
+  getInitialState(): TicTacToeState {
+    return createInitialState();
+  }
+
+  isValidMove(state: TicTacToeState, move: TicTacToeMove, playerId: string): boolean {
+    if (playerId !== state.currentSymbol) return false;
+    if (!Number.isInteger(move?.cellIndex)) return false;
+    if (this.getWinner(state) || this.isDraw(state)) return false;
+    return isValidMove(state.board, move.cellIndex);
+  }
+
+  applyMove(state: TicTacToeState, move: TicTacToeMove, playerId: string): TicTacToeState {
+    if (!this.isValidMove(state, move, playerId)) {
+      throw new Error(`Invalid move: cell ${move?.cellIndex} for ${playerId}`);
+    }
+
+    return {
+      board: makeMove(state.board, move.cellIndex, state.currentSymbol),
+      currentSymbol: getNextSymbol(state.currentSymbol),
+    };
+  }
+
+  getWinner(state: TicTacToeState): string | null {
+    return checkWinner(state.board)?.winner ?? null;
+  }
+
+  isDraw(state: TicTacToeState): boolean {
+    return checkDraw(state.board);
+  }
+
+  getAIMove(state: TicTacToeState, difficulty: AIDifficulty): TicTacToeMove {
+    return { cellIndex: getAIMove(state.board, state.currentSymbol, difficulty) };
+  }
+
+  getValidMoves(state: TicTacToeState, playerId: string): TicTacToeMove[] {
+    if (playerId !== state.currentSymbol || this.getWinner(state)) return [];
+    return getAvailableMoves(state.board).map((cellIndex) => ({ cellIndex }));
+  }
+}
+
+export default TicTacToeEngine;
@@ -6,18 +6,26 @@ import {
   type OnlineGameStatus,
   type RematchStatus,
   type NegotiationInfo,
+  type FinishReason,
+  type RatingChange,
 } from '../../common/hooks/use-online-game-core';
+import type { RoomChatReturn } from '../../common/hooks/use-room-chat';
 import { gameRoomService, type GameRoom, type GameRoomWithPlayers, type ConnectionStatus } from '../../common/services/game-room-service';
-import { checkWinner, checkDraw, createInitialBoard } from '../engine/game-logic';
-import { dbBoardToBoardState, boardStateToDbBoard } from '../../common/utils';
+import { checkWinner, createInitialBoard } from '../engine/game-logic';
+import { ticTacToeSerializer } from '../serializer';
 import { createLogger } from '@/lib/utils/logger';
-import type { BoardState, WinResult } from '../types';
+import type { BoardState, TicTacToeMove, WinResult } from '../types';
 
 const _log = createLogger({ prefix: 'TicTacToeOnline' });
 void _log; // Reserved for future debugging
 
 export type { OnlineGameStatus, RematchStatus };
 
+// Board from the room's serialized state
+function boardFromRoom(room: GameRoom): BoardState {
+  return ticTacToeSerializer.deserialize(room.state).board;
+}
+
 interface UseOnlineGameOptions {
   userId: string;
   onGameEnd?: (winnerId: string | null, isDraw: boolean, mySymbol: 'X' | 'O') => void;
@@ -36,6 +44,7 @@ interface UseOnlineGameReturn {
   findMatch: () => Promise<void>;
   createPrivateRoom: () => Promise<void>;
   joinRoom: (roomId: string) => Promise<void>;
+  joinLobbyRoom: (roomId: string) => Promise<void>;
   makeMove: (cellIndex: number) => Promise<boolean>;
   leaveGame: () => Promise<void>;
   error: string | null;
@@ -53,6 +62,20 @@ interface UseOnlineGameReturn {
   submitBetProposal: (amount: number) => Promise<void>;
   acceptBetProposal: () => Promise<void>;
   skipBetting: () => Promise<void>;
+  // Turn clock
+  turnDeadline: string | null;
+  finishReason: FinishReason | null;
+  ratingChange: RatingChange | null;
+  // Disconnect grace period and resume
+  isOpponentOnline: boolean;
+  opponentDisconnectDeadline: string | null;
+  activeRoom: GameRoomWithPlayers | null;
+  resumeGame: () => Promise<void>;
+  abandonActiveRoom: () => Promise<void>;
+  // Chat
+  chat: RoomChatReturn;
+  /** Whether this player won (also covers forfeits and timeouts) */
+  didWin: boolean;
 }
 
 export function useOnlineGame({ userId, onGameEnd }: UseOnlineGameOptions): UseOnlineGameReturn {
@@ -69,13 +92,13 @@ export function useOnlineGame({ userId, onGameEnd }: UseOnlineGameOptions): UseO
 
   // Handle room updates - tic-tac-toe specific logic
   const handleRoomUpdate = useCallback((updatedRoom: GameRoom) => {
-    const newBoard = dbBoardToBoardState(updatedRoom.board as string[]);
+    const newBoard = boardFromRoom(updatedRoom);
     setBoard(newBoard);
   }, []);
 
   // Handle game finished - tic-tac-toe specific logic
   const handleGameFinished = useCallback((updatedRoom: GameRoom) => {
-    const newBoard = dbBoardToBoardState(updatedRoom.board as string[]);
+    const newBoard = boardFromRoom(updatedRoom);
     const symbol: 'X' | 'O' = updatedRoom.player1_id === userId ? 'X' : 'O';
 
     // Update board and winner to show the last move
@@ -130,89 +153,71 @@ export function useOnlineGame({ userId, onGameEnd }: UseOnlineGameOptions): UseO
     const freshRoom = await gameRoomService.getRoom(core.room.id);
     if (freshRoom) {
       core.setRoom(freshRoom);
-      setBoard(dbBoardToBoardState(freshRoom.board as string[]));
+      setBoard(boardFromRoom(freshRoom));
     }
     // eslint-disable-next-line react-hooks/exhaustive-deps -- core.setRoom is stable, only room.id matters
   }, [core.room]);
 
   // Make a move - tic-tac-toe specific
+  // The server validates the move and derives winner/draw; we only render optimistically
   const makeMove = useCallback(async (cellIndex: number): Promise<boolean> => {
     if (!core.room || !mySymbol) return false;
     if (board[cellIndex] !== null) return false;
 
     // Save state for potential rollback
     const previousBoard = [...board] as BoardState;
-    const expectedDbBoard = boardStateToDbBoard(previousBoard);
 
-    // Create new board with move
+    // Optimistic update
     const newBoard = [...board] as BoardState;
     newBoard[cellIndex] = mySymbol;
-
-    // Optimistic update
     setBoard(newBoard);
 
-    // Check for win/draw
-    const winResult = checkWinner(newBoard);
-    const isDrawResult = !winResult && checkDraw(newBoard);
-
-    if (winResult || isDrawResult) {
-      // End game
-      const finalBoard = boardStateToDbBoard(newBoard);
-      const endSuccess = await gameRoomService.endGame(
-        core.room.id,
-        winResult ? userId : null,
-        isDrawResult,
-        finalBoard
-      );
-
-      if (!endSuccess) {
-        setBoard(previousBoard);
+    const result = await gameRoomService.makeMove<TicTacToeMove>(
+      core.room.id,
+      'tic-tac-toe',
+      { cellIndex }
+    );
+
+    if (!result.success) {
+      setBoard(previousBoard);
+
+      if (result.conflict && result.currentRoom) {
+        core.setRoom(prev => prev ? { ...prev, ...result.currentRoom } : null);
+        setBoard(boardFromRoom(result.currentRoom));
+
+        if (result.currentRoom.status === 'finished') {
+          core.setStatus('finished');
+          if (result.currentRoom.is_draw) {
+            setIsDraw(true);
+          } else if (result.currentRoom.winner_id) {
+            const serverBoard = boardFromRoom(result.currentRoom);
+            const serverWinResult = checkWinner(serverBoard);
+            if (serverWinResult) setWinner(serverWinResult);
+          }
+        }
+      } else {
         await syncWithServer();
-        return false;
       }
+      return false;
+    }
 
-      if (winResult) setWinner(winResult);
-      setIsDraw(isDrawResult);
-      core.setStatus('finished');
-      if (mySymbol) {
-        onGameEndRef.current?.(winResult ? userId : null, isDrawResult, mySymbol);
-      }
-    } else {
-      // Send move to server
-      const dbBoard = boardStateToDbBoard(newBoard);
-      const result = await gameRoomService.makeMove(
-        core.room.id,
-        cellIndex,
-        userId,
-        dbBoard,
-        expectedDbBoard
-      );
-
-      if (!result.success) {
-        setBoard(previousBoard);
-
-        if (result.conflict && result.currentRoom) {
-          core.setRoom(prev => prev ? { ...prev, ...result.currentRoom } : null);
-          setBoard(dbBoardToBoardState(result.currentRoom.board as string[]));
-
-          if (result.currentRoom.status === 'finished') {
-            core.setStatus('finished');
-            if (result.currentRoom.is_draw) {
-              setIsDraw(true);
-            } else if (result.currentRoom.winner_id) {
-              const serverBoard = dbBoardToBoardState(result.currentRoom.board as string[]);
-              const serverWinResult = checkWinner(serverBoard);
-              if (serverWinResult) setWinner(serverWinResult);
-            }
-          }
-        }
-        return false;
+    const serverRoom = result.currentRoom;
+    if (serverRoom) {
+      const serverBoard = boardFromRoom(serverRoom);
+      setBoard(serverBoard);
+
+      if (serverRoom.status === 'finished') {
+        const winResult = serverRoom.winner_id ? checkWinner(serverBoard) : null;
+        if (winResult) setWinner(winResult);
+        setIsDraw(serverRoom.is_draw);
+        core.setStatus('finished');
+        onGameEndRef.current?.(serverRoom.winner_id, serverRoom.is_draw, mySymbol);
       }
     }
 
     return true;
     // eslint-disable-next-line react-hooks/exhaustive-deps -- core methods are stable, only room/board matter
-  }, [core.room, board, mySymbol, userId, syncWithServer]);
+  }, [core.room, board, mySymbol, syncWithServer]);
 
   // Extended leave game to reset tic-tac-toe state
   const leaveGame = useCallback(async () => {
@@ -245,7 +250,7 @@ export function useOnlineGame({ userId, onGameEnd }: UseOnlineGameOptions): UseO
       gameRoomService.getRoom(core.room.id).then(updatedRoom => {
         if (updatedRoom) {
           core.setRoom(updatedRoom);
-          setBoard(dbBoardToBoardState(updatedRoom.board as string[]));
+          setBoard(boardFromRoom(updatedRoom));
         }
       });
     }
@@ -265,6 +270,7 @@ export function useOnlineGame({ userId, onGameEnd }: UseOnlineGameOptions): UseO
     findMatch: core.findMatch,
     createPrivateRoom: core.createPrivateRoom,
     joinRoom: core.joinRoom,
+    joinLobbyRoom: core.joinLobbyRoom,
     makeMove,
     leaveGame,
     error: core.error,
@@ -282,6 +288,19 @@ export function useOnlineGame({ userId, onGameEnd }: UseOnlineGameOptions): UseO
     submitBetProposal: core.submitBetProposal,
     acceptBetProposal: core.acceptBetProposal,
     skipBetting: core.skipBetting,
+    // Turn clock
+    turnDeadline: core.turnDeadline,
+    finishReason: core.finishReason,
+    ratingChange: core.ratingChange,
+    // Disconnect grace period and resume
+    isOpponentOnline: core.isOpponentOnline,
+    opponentDisconnectDeadline: core.opponentDisconnectDeadline,
+    activeRoom: core.activeRoom,
+    resumeGame: core.resumeGame,
+    abandonActiveRoom: core.abandonActiveRoom,
+    // Chat
+    chat: core.chat,
+    didWin: core.room?.status === 'finished' && core.room.winner_id === userId,
   };
 }
 
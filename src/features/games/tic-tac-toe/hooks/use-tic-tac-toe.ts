@@ -12,12 +12,14 @@ import {
   getNextSymbol,
 } from '../engine/game-logic';
 import { getAIMove } from '../engine/minimax';
+import type { MatchReplay, ReplayMove } from '../../common/utils/replay';
 
 export interface UseTicTacToeOptions {
   mode: GameMode;
   playerSymbol?: 'X' | 'O';
   aiDifficulty?: AIDifficulty;
-  onGameEnd?: (winner: Player | null, isDraw: boolean) => void;
+  /** Called once the game ends, with every move played (for replays) */
+  onGameEnd?: (winner: Player | null, isDraw: boolean, replay: MatchReplay) => void;
 }
 
 export interface UseTicTacToeReturn {
@@ -47,6 +49,8 @@ export function useTicTacToe({
 
   // Ref to track if AI move is being processed (fixes StrictMode double-execution)
   const aiMoveInProgressRef = useRef(false);
+  // Moves with timestamps for the replay (not rendered, so kept out of state)
+  const moveLogRef = useRef<ReplayMove[]>([]);
 
   const isGameOver = winner !== null || isDraw;
   const aiSymbol = playerSymbol === 'X' ? 'O' : 'X';
@@ -60,6 +64,7 @@ export function useTicTacToe({
     setIsDraw(false);
     setIsAIThinking(false);
     setGameHistory([]);
+    moveLogRef.current = [];
     aiMoveInProgressRef.current = false;
   }, []);
 
@@ -73,6 +78,11 @@ export function useTicTacToe({
       const newBoard = makeMove(board, cellIndex, symbol);
       setBoard(newBoard);
       setGameHistory((prev) => [...prev, newBoard]);
+      moveLogRef.current = [
+        ...moveLogRef.current,
+        { key: symbol as string, move: { cellIndex }, at: new Date().toISOString() },
+      ];
+      const replay: MatchReplay = { initialState: null, moves: moveLogRef.current };
 
       // Check for winner
       const winResult = checkWinner(newBoard);
@@ -84,7 +94,7 @@ export function useTicTacToe({
             name: winResult.winner === playerSymbol ? 'You' : 'AI',
             isAI: winResult.winner !== playerSymbol,
           };
-          onGameEnd(winnerPlayer, false);
+          onGameEnd(winnerPlayer, false, replay);
         }
         return true;
       }
@@ -93,7 +103,7 @@ export function useTicTacToe({
       if (checkDraw(newBoard)) {
         setIsDraw(true);
         if (onGameEnd) {
-          onGameEnd(null, true);
+          onGameEnd(null, true, replay);
         }
         return true;
       }
@@ -1,11 +1,17 @@
 import type { GameModule } from '../registry/types';
 import { TicTacToe } from './tic-tac-toe';
 import { ticTacToeConfig } from './config';
+import { TicTacToeEngine } from './engine/tic-tac-toe-engine';
+import { ticTacToeSerializer } from './serializer';
+import { SpectatorBoard } from './components/spectator-board';
 
 // Export the game module
 const ticTacToeModule: GameModule = {
   config: ticTacToeConfig,
   Component: TicTacToe,
+  Engine: TicTacToeEngine,
+  serializer: ticTacToeSerializer,
+  SpectatorBoard,
 };
 
 export default ticTacToeModule;
@@ -13,6 +19,8 @@ export default ticTacToeModule;
 // Named exports for convenience
 export { TicTacToe } from './tic-tac-toe';
 export { ticTacToeConfig } from './config';
+export { TicTacToeEngine } from './engine/tic-tac-toe-engine';
+export { ticTacToeSerializer } from './serializer';
 export * from './types';
 export * from './hooks';
 export * from './components';
@@ -0,0 +1,25 @@
+import type { GameStateSerializer } from '../registry/types';
+import type { TicTacToeState } from './types';
+import { createInitialState } from './engine/game-logic';
+import { decodeCells, encodeCells } from '../common/utils/board-utils';
+
+// Stored as { board: ['X', '', 'O', ...], turn: 'X' }
+export const ticTacToeSerializer: GameStateSerializer<TicTacToeState> = {
+  serialize(state) {
+    return {
+      board: encodeCells(state.board),
+      turn: state.currentSymbol,
+    };
+  },
+
+  deserialize(data) {
+    if (!data || typeof data !== 'object' || Array.isArray(data)) {
+      return createInitialState();
+    }
+
+    return {
+      board: decodeCells(data.board, ['X', 'O'] as const, 9),
+      currentSymbol: data.turn === 'O' ? 'O' : 'X',
+    };
+  },
+};
@@ -0,0 +1,27 @@
+import type { RoomSnapshot, ServerGameDefinition } from '../registry/types';
+import type { TicTacToeMove, TicTacToeState } from './types';
+import { TicTacToeEngine } from './engine/tic-tac-toe-engine';
+import { ticTacToeSerializer } from './serializer';
+
+// player1 plays X (and starts), player2 plays O
+function symbolFor(room: RoomSnapshot, userId: string | null): 'X' | 'O' | null {
+  if (!userId) return null;
+  if (room.player1_id === userId) return 'X';
+  if (room.player2_id === userId) return 'O';
+  return null;
+}
+
+export const ticTacToeServerGame: ServerGameDefinition<TicTacToeState, TicTacToeMove> = {
+  Engine: TicTacToeEngine,
+  serializer: ticTacToeSerializer,
+
+  playerKey(room, userId) {
+    return symbolFor(room, userId);
+  },
+
+  userIdForKey(room, key) {
+    if (key === 'X') return room.player1_id;
+    if (key === 'O') return room.player2_id;
+    return null;
+  },
+};
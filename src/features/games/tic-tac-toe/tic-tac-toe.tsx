@@ -4,11 +4,14 @@ import { useState, useRef, useCallback, useEffect } from 'react';
 import dynamic from 'next/dynamic';
 import { useSearchParams, useRouter } from 'next/navigation';
 import { ModeSelection, GameScreen, OnlineGame } from './components';
+import { ResumeGameBanner } from '../common/components';
 import { useTicTacToe } from './hooks/use-tic-tac-toe';
 import { useOnlineGame } from './hooks/use-online-game';
 import { useStatsStore } from '@/features/profile';
+import type { MatchReplay } from '../common/utils/replay';
 import { useAuth } from '@/features/auth';
 import { useWalletStore } from '@/features/wallet/store/wallet-store';
+import { useSoundEffects } from '@/features/audio';
 
 // Dynamic import for modals - reduces initial bundle
 const AuthModal = dynamic(() => import('@/features/auth').then(m => m.AuthModal), { ssr: false });
@@ -70,6 +73,7 @@ export function TicTacToe({ onBack = () => {} }: TicTacToeProps) {
   const { user, isAuthenticated, isLoading } = useAuth();
   const { wallet } = useWalletStore();
   const balance = wallet?.balance ?? 0;
+  const { play } = useSoundEffects();
 
   // Wait for auth to initialize before showing content
   useEffect(() => {
@@ -91,6 +95,7 @@ export function TicTacToe({ onBack = () => {} }: TicTacToeProps) {
     onGameEnd: (winnerId, isDraw, mySymbol) => {
       if (!user) return;
       const result = isDraw ? 'draw' : winnerId === user.id ? 'win' : 'loss';
+      play(result);
       recordGame({
         gameType: 'tic-tac-toe',
         opponentType: 'online',
@@ -104,7 +109,7 @@ export function TicTacToe({ onBack = () => {} }: TicTacToeProps) {
 
   // Handle game end for local/AI games
   const handleGameEnd = useCallback(
-    (winnerPlayer: Player | null, isDraw: boolean) => {
+    (winnerPlayer: Player | null, isDraw: boolean, replay: MatchReplay) => {
       const durationSeconds = Math.floor((Date.now() - gameStartTimeRef.current) / 1000);
 
       let result: 'win' | 'loss' | 'draw';
@@ -125,6 +130,8 @@ export function TicTacToe({ onBack = () => {} }: TicTacToeProps) {
         opponentType = `ai_${config.aiDifficulty}` as typeof opponentType;
       }
 
+      play(result);
+
       recordGame({
         gameType: 'tic-tac-toe',
         opponentType,
@@ -132,9 +139,10 @@ export function TicTacToe({ onBack = () => {} }: TicTacToeProps) {
         playerSymbol: config.playerSymbol,
         moves: movesCountRef.current,
         durationSeconds,
+        replay,
       });
     },
-    [config.mode, config.playerSymbol, config.aiDifficulty, recordGame]
+    [config.mode, config.playerSymbol, config.aiDifficulty, recordGame, play]
   );
 
   const {
@@ -156,6 +164,17 @@ export function TicTacToe({ onBack = () => {} }: TicTacToeProps) {
   // Update moves count when game history changes
   movesCountRef.current = gameHistory.length;
 
+  // Move sound whenever a mark lands on either board (not on resets or resumed boards)
+  const onlineMoveCount = onlineGame.board.filter(c => c !== null).length;
+  const lastMoveCountRef = useRef({ local: 0, online: 0 });
+  useEffect(() => {
+    const last = lastMoveCountRef.current;
+    if (gameHistory.length === last.local + 1 || onlineMoveCount === last.online + 1) {
+      play('move');
+    }
+    lastMoveCountRef.current = { local: gameHistory.length, online: onlineMoveCount };
+  }, [gameHistory.length, onlineMoveCount, play]);
+
   // Handle shared room link - show auth modal if not authenticated
   useEffect(() => {
     // Wait for auth to initialize before deciding
@@ -233,6 +252,12 @@ export function TicTacToe({ onBack = () => {} }: TicTacToeProps) {
     }
   }, [isAuthenticated, onlineGame]);
 
+  const handleResumeGame = useCallback(() => {
+    setIsOnlineMode(true);
+    gameStartTimeRef.current = Date.now();
+    onlineGame.resumeGame();
+  }, [onlineGame]);
+
   const handleCreatePrivateRoom = useCallback((betConfig?: BetConfig) => {
     if (!isAuthenticated) {
       setShowAuthModal(true);
@@ -248,6 +273,16 @@ export function TicTacToe({ onBack = () => {} }: TicTacToeProps) {
     }
   }, [isAuthenticated, onlineGame]);
 
+  const handleJoinLobbyRoom = useCallback((roomId: string) => {
+    if (!isAuthenticated) {
+      setShowAuthModal(true);
+      return;
+    }
+    setIsOnlineMode(true);
+    gameStartTimeRef.current = Date.now();
+    onlineGame.joinLobbyRoom(roomId);
+  }, [isAuthenticated, onlineGame]);
+
   const handlePlayAgain = async () => {
     await onlineGame.leaveGame();
     gameStartTimeRef.current = Date.now();
@@ -277,6 +312,8 @@ export function TicTacToe({ onBack = () => {} }: TicTacToeProps) {
         error={onlineGame.error}
         showLeaveConfirm={showLeaveConfirm}
         roomId={onlineGame.room?.id || null}
+        inviteCode={onlineGame.room?.invite_code ?? null}
+        inviteExpiresAt={onlineGame.room?.invite_expires_at ?? null}
         connectionStatus={onlineGame.connectionStatus}
         onCellClick={onlineGame.makeMove}
         onLeave={handleLeaveOnline}
@@ -297,6 +334,13 @@ export function TicTacToe({ onBack = () => {} }: TicTacToeProps) {
         onSubmitBetProposal={onlineGame.submitBetProposal}
         onAcceptBetProposal={onlineGame.acceptBetProposal}
         onSkipBetting={onlineGame.skipBetting}
+        turnDeadline={onlineGame.turnDeadline}
+        finishReason={onlineGame.finishReason}
+        ratingChange={onlineGame.ratingChange}
+        isOpponentOnline={onlineGame.isOpponentOnline}
+        opponentDisconnectDeadline={onlineGame.opponentDisconnectDeadline}
+        chat={onlineGame.chat}
+        didWin={onlineGame.didWin}
       />
     );
   }
@@ -309,6 +353,7 @@ export function TicTacToe({ onBack = () => {} }: TicTacToeProps) {
           config={config}
           showAIConfig={showAIConfig}
           isAuthenticated={isAuthenticated}
+          userId={user?.id}
           onBack={onBack}
           onStartGame={handleStartGame}
           onShowAIConfig={() => setShowAIConfig(true)}
@@ -316,6 +361,13 @@ export function TicTacToe({ onBack = () => {} }: TicTacToeProps) {
           onConfigChange={handleConfigChange}
           onPlayOnline={handlePlayOnline}
           onCreatePrivateRoom={handleCreatePrivateRoom}
+          onJoinLobbyRoom={handleJoinLobbyRoom}
+        />
+        <ResumeGameBanner
+          room={onlineGame.activeRoom}
+          userId={user?.id || ''}
+          onResume={handleResumeGame}
+          onAbandon={onlineGame.abandonActiveRoom}
         />
         <AuthModal
           isOpen={showAuthModal}
@@ -0,0 +1,2 @@
+export { NotificationBell } from './notification-bell';
+export { NotificationFeeds } from './notification-feeds';
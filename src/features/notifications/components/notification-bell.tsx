@@ -0,0 +1,126 @@
+'use client';
+
+import { Bell, CheckCheck, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { cn } from '@/lib/utils/cn';
+import { useNotificationsStore, useUnreadCount } from '../store/notifications-store';
+import { notificationService } from '../services/notification-service';
+import type { AppNotification } from '../types';
+
+interface NotificationBellProps {
+  className?: string;
+  side?: 'top' | 'right' | 'bottom' | 'left';
+}
+
+function formatAge(createdAt: number): string {
+  const minutes = Math.floor((Date.now() - createdAt) / 60000);
+  if (minutes < 1) return 'ahora';
+  if (minutes < 60) return `hace ${minutes} min`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `hace ${hours} h`;
+  return `hace ${Math.floor(hours / 24)} d`;
+}
+
+/**
+ * Bell with the unread badge; opens the notification center.
+ */
+export function NotificationBell({ className, side = 'bottom' }: NotificationBellProps) {
+  const notifications = useNotificationsStore((s) => s.notifications);
+  const markRead = useNotificationsStore((s) => s.markRead);
+  const markAllRead = useNotificationsStore((s) => s.markAllRead);
+  const clear = useNotificationsStore((s) => s.clear);
+  const unreadCount = useUnreadCount();
+
+  const handleSelect = (notification: AppNotification) => {
+    markRead(notification.id);
+    if (notification.href) {
+      notificationService.open(notification.href);
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="ghost"
+          size="icon"
+          className={cn('relative h-8 w-8 shrink-0', className)}
+          aria-label={unreadCount > 0 ? `Notificaciones (${unreadCount} sin leer)` : 'Notificaciones'}
+        >
+          <Bell size={18} />
+          {unreadCount > 0 && (
+            <span className="absolute -top-0.5 -right-0.5 min-w-4 h-4 px-1 rounded-full bg-(--color-error) text-white text-[10px] font-bold leading-4 text-center">
+              {unreadCount > 9 ? '9+' : unreadCount}
+            </span>
+          )}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent side={side} align="start" className="w-80">
+        <div className="flex items-center justify-between">
+          <DropdownMenuLabel>Notificaciones</DropdownMenuLabel>
+          {notifications.length > 0 && (
+            <div className="flex items-center gap-1 pr-1">
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7"
+                onClick={markAllRead}
+                disabled={unreadCount === 0}
+                aria-label="Marcar todo como leído"
+              >
+                <CheckCheck size={14} />
+              </Button>
+              <Button variant="ghost" size="icon" className="h-7 w-7" onClick={clear} aria-label="Borrar notificaciones">
+                <Trash2 size={14} />
+              </Button>
+            </div>
+          )}
+        </div>
+        <DropdownMenuSeparator />
+
+        {notifications.length === 0 ? (
+          <p className="px-2 py-6 text-center text-sm text-(--color-text-muted)">
+            No tienes notificaciones
+          </p>
+        ) : (
+          notifications.map((notification) => (
+            <DropdownMenuItem
+              key={notification.id}
+              onClick={() => handleSelect(notification)}
+              className="flex items-start gap-2 py-2"
+            >
+              <span
+                className={cn(
+                  'mt-1.5 w-2 h-2 rounded-full shrink-0',
+                  notification.read ? 'bg-transparent' : 'bg-(--color-primary)'
+                )}
+                aria-hidden="true"
+              />
+              <div className="flex-1 min-w-0">
+                <p className={cn('text-sm truncate', !notification.read && 'font-semibold')}>
+                  {notification.title}
+                </p>
+                {notification.body && (
+                  <p className="text-xs text-(--color-text-muted) truncate">{notification.body}</p>
+                )}
+              </div>
+              <span className="text-[10px] text-(--color-text-subtle) shrink-0 mt-0.5">
+                {formatAge(notification.createdAt)}
+              </span>
+            </DropdownMenuItem>
+          ))
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
+
+export default NotificationBell;
@@ -0,0 +1,44 @@
+'use client';
+
+import { useEffect } from 'react';
+import { useRouter } from 'next/navigation';
+import { useAuth } from '@/features/auth';
+import { friendsService } from '@/features/friends';
+import { tournamentService } from '@/features/tournaments/services/tournament-service';
+import { notificationService } from '../services/notification-service';
+
+/**
+ * Feeds the notification center with events that happen outside a game room
+ * (room events come from the online game hooks). Renders nothing; mount once in the layout.
+ */
+export function NotificationFeeds() {
+  const { user } = useAuth();
+  const userId = user?.id;
+  const router = useRouter();
+
+  useEffect(() => {
+    notificationService.setNavigator((href) => router.push(href));
+  }, [router]);
+
+  useEffect(() => {
+    if (!userId) return;
+
+    return friendsService.subscribeToInbox(userId, async (event) => {
+      if (event.kind !== 'tournament_start' || !event.tournamentId) return;
+
+      const tournament = await tournamentService.getTournament(event.tournamentId);
+      if (tournament?.status !== 'in_progress') return;
+
+      notificationService.notify({
+        kind: 'tournament_starting',
+        title: 'Empieza el torneo',
+        body: `${tournament.name} ya está en juego`,
+        href: `/tournaments/${tournament.id}`,
+      });
+    });
+  }, [userId]);
+
+  return null;
+}
+
+export default NotificationFeeds;
@@ -0,0 +1,35 @@
+import type { NotificationKind, NotificationEventConfig } from './types';
+
+// Oldest notifications are dropped past this many
+export const MAX_NOTIFICATIONS = 50;
+
+export const NOTIFICATION_EVENTS: Record<NotificationKind, NotificationEventConfig> = {
+  match_found: {
+    label: 'Partida encontrada',
+    description: 'Cuando el matchmaking o tu sala privada consigue rival',
+    onlyWhenHidden: true,
+  },
+  your_turn: {
+    label: 'Tu turno',
+    description: 'Cuando el rival juega y te toca mover',
+    onlyWhenHidden: true,
+  },
+  rematch_requested: {
+    label: 'Revancha',
+    description: 'Cuando tu rival pide la revancha',
+  },
+  bet_proposal: {
+    label: 'Propuesta de apuesta',
+    description: 'Cuando tu rival propone un monto',
+  },
+  tournament_starting: {
+    label: 'Inicio de torneo',
+    description: 'Cuando empieza un torneo en el que estás inscrito',
+  },
+  achievement_unlocked: {
+    label: 'Logros',
+    description: 'Cuando desbloqueas un logro o insignia',
+  },
+};
+
+export const NOTIFICATION_KINDS = Object.keys(NOTIFICATION_EVENTS) as NotificationKind[];
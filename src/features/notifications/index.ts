@@ -0,0 +1,5 @@
+export { notificationService, type BrowserPermission } from './services/notification-service';
+export { useNotificationsStore, useUnreadCount } from './store/notifications-store';
+export { NotificationBell, NotificationFeeds } from './components';
+export { NOTIFICATION_EVENTS, NOTIFICATION_KINDS } from './constants';
+export type { AppNotification, NotificationKind, NotifyInput } from './types';
@@ -0,0 +1,109 @@
+'use client';
+
+import { toast } from 'sonner';
+import { createLogger } from '@/lib/utils/logger';
+import { useSettingsStore } from '@/features/settings/store/settings-store';
+import { soundEngine } from '@/features/audio';
+import { useNotificationsStore } from '../store/notifications-store';
+import { NOTIFICATION_EVENTS } from '../constants';
+import type { NotifyInput } from '../types';
+
+const log = createLogger({ prefix: 'Notifications' });
+
+export type BrowserPermission = NotificationPermission | 'unsupported';
+
+function isTabHidden(): boolean {
+  return typeof document !== 'undefined' && document.visibilityState === 'hidden';
+}
+
+/**
+ * Delivers notifications: stores them for the notification center, then
+ * shows a toast, or a Web Notification when the tab is in the background
+ * and the user allowed it.
+ */
+class NotificationService {
+  // Replaced by the layout with the Next router so clicks don't reload the page
+  private navigate: (href: string) => void = (href) => window.location.assign(href);
+
+  setNavigator(navigate: (href: string) => void): void {
+    this.navigate = navigate;
+  }
+
+  open(href: string): void {
+    if (window.location.pathname !== href) {
+      this.navigate(href);
+    }
+  }
+
+  notify(input: NotifyInput): void {
+    if (useSettingsStore.getState().notificationPrefs[input.kind] === false) return;
+
+    const hidden = isTabHidden();
+    if (!hidden && NOTIFICATION_EVENTS[input.kind].onlyWhenHidden) return;
+
+    const notification = useNotificationsStore.getState().add(input);
+    soundEngine.play('notification');
+
+    if (hidden && this.showBrowserNotification(input, notification.id)) return;
+
+    const { href } = input;
+    toast(input.title, {
+      id: notification.id,
+      description: input.body,
+      action: href
+        ? {
+            label: 'Ver',
+            onClick: () => {
+              useNotificationsStore.getState().markRead(notification.id);
+              this.open(href);
+            },
+          }
+        : undefined,
+    });
+  }
+
+  getBrowserPermission(): BrowserPermission {
+    if (typeof window === 'undefined' || !('Notification' in window)) return 'unsupported';
+    return Notification.permission;
+  }
+
+  // Must be called from a user gesture (browsers ignore it otherwise)
+  async requestBrowserPermission(): Promise<BrowserPermission> {
+    const current = this.getBrowserPermission();
+    if (current !== 'default') return current;
+
+    try {
+      return await Notification.requestPermission();
+    } catch (err) {
+      log.error('Error requesting notification permission:', err);
+      return this.getBrowserPermission();
+    }
+  }
+
+  // Returns false when it couldn't be shown, so the caller falls back to a toast
+  private showBrowserNotification(input: NotifyInput, id: string): boolean {
+    if (!useSettingsStore.getState().browserNotifications) return false;
+    if (this.getBrowserPermission() !== 'granted') return false;
+
+    try {
+      const browserNotification = new Notification(input.title, {
+        body: input.body,
+        tag: `${input.kind}:${input.href ?? ''}`,
+        icon: '/favicon.ico',
+      });
+      browserNotification.onclick = () => {
+        window.focus();
+        useNotificationsStore.getState().markRead(id);
+        if (input.href) this.open(input.href);
+        browserNotification.close();
+      };
+      return true;
+    } catch (err) {
+      // Some mobile browsers only allow notifications from a service worker
+      log.warn('Could not show browser notification:', err);
+      return false;
+    }
+  }
+}
+
+export const notificationService = new NotificationService();
@@ -0,0 +1,53 @@
+'use client';
+
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { MAX_NOTIFICATIONS } from '../constants';
+import type { AppNotification, NotifyInput } from '../types';
+
+interface NotificationsState {
+  notifications: AppNotification[];
+  add: (input: NotifyInput) => AppNotification;
+  markRead: (id: string) => void;
+  markAllRead: () => void;
+  clear: () => void;
+}
+
+export const useNotificationsStore = create<NotificationsState>()(
+  persist(
+    (set) => ({
+      notifications: [],
+      add: (input) => {
+        const notification: AppNotification = {
+          ...input,
+          // Fallback for environments where crypto.randomUUID is not available
+          id: typeof crypto !== 'undefined' && crypto.randomUUID
+            ? crypto.randomUUID()
+            : `${Date.now()}-${Math.random().toString(36).substring(2, 11)}`,
+          createdAt: Date.now(),
+          read: false,
+        };
+        set((state) => ({
+          notifications: [notification, ...state.notifications].slice(0, MAX_NOTIFICATIONS),
+        }));
+        return notification;
+      },
+      markRead: (id) => set((state) => ({
+        notifications: state.notifications.map((n) => (n.id === id ? { ...n, read: true } : n)),
+      })),
+      markAllRead: () => set((state) => ({
+        notifications: state.notifications.map((n) => (n.read ? n : { ...n, read: true })),
+      })),
+      clear: () => set({ notifications: [] }),
+    }),
+    {
+      name: 'notifications-storage',
+    }
+  )
+);
+
+// Optimized selectors - prevent unnecessary re-renders
+export const useUnreadCount = () =>
+  useNotificationsStore((s) => s.notifications.filter((n) => !n.read).length);
+
+export default useNotificationsStore;
@@ -0,0 +1,27 @@
+export type NotificationKind =
+  | 'match_found'
+  | 'your_turn'
+  | 'rematch_requested'
+  | 'bet_proposal'
+  | 'tournament_starting'
+  | 'achievement_unlocked';
+
+export interface AppNotification {
+  id: string;
+  kind: NotificationKind;
+  title: string;
+  body?: string;
+  /** Page to open when the notification is clicked */
+  href?: string;
+  createdAt: number;
+  read: boolean;
+}
+
+export type NotifyInput = Pick<AppNotification, 'kind' | 'title' | 'body' | 'href'>;
+
+export interface NotificationEventConfig {
+  label: string;
+  description: string;
+  /** Only worth telling while the tab is in the background (the game UI already shows it) */
+  onlyWhenHidden?: boolean;
+}
@@ -2,3 +2,5 @@ export { StatsDisplay } from './stats-display';
 export { StatsModal } from './stats-modal';
 export { Leaderboard } from './leaderboard';
 export { LeaderboardModal } from './leaderboard-modal';
+export { MatchHistory } from './match-history';
+export { PublicProfileView } from './public-profile';
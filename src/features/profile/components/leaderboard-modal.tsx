@@ -1,11 +1,14 @@
 'use client';
 
+import { useState } from 'react';
 import { RefreshCw, Trophy } from 'lucide-react';
 import { Modal, ModalContent, ModalHeader, ModalBody, ModalTitle, ModalDescription } from '@/components/ui/modal';
 import { Button } from '@/components/ui/button';
 import { Leaderboard } from './leaderboard';
 import { useLeaderboard } from '../hooks/use-leaderboard';
 import { useAuth } from '@/features/auth/hooks/use-auth';
+import { ONLINE_GAMES } from '../constants';
+import { cn } from '@/lib/utils/cn';
 
 /**
  * LeaderboardModal Component
@@ -22,7 +25,8 @@ interface LeaderboardModalProps {
 }
 
 export function LeaderboardModal({ isOpen, onClose }: LeaderboardModalProps) {
-  const { entries, isLoading, error, refetch } = useLeaderboard({ limit: 20 });
+  const [gameType, setGameType] = useState(ONLINE_GAMES[0].slug);
+  const { entries, isLoading, error, refetch } = useLeaderboard({ limit: 20, gameType });
   const { user } = useAuth();
 
   return (
@@ -37,7 +41,7 @@ export function LeaderboardModal({ isOpen, onClose }: LeaderboardModalProps) {
               </div>
               <div>
                 <ModalTitle>Ranking Global</ModalTitle>
-                <ModalDescription>Los mejores jugadores</ModalDescription>
+                <ModalDescription>Los mejores jugadores por rating</ModalDescription>
               </div>
             </div>
 
@@ -70,6 +74,27 @@ export function LeaderboardModal({ isOpen, onClose }: LeaderboardModalProps) {
 
         {/* Content */}
         <ModalBody>
+          {/* Pestañas por juego */}
+          <div className="flex gap-2 mb-4" role="tablist" aria-label="Juego">
+            {ONLINE_GAMES.map((game) => (
+              <button
+                key={game.slug}
+                role="tab"
+                aria-selected={gameType === game.slug}
+                onClick={() => setGameType(game.slug)}
+                className={cn(
+                  'flex-1 px-3 py-2 rounded-xl text-sm font-medium border transition-colors',
+                  gameType === game.slug
+                    ? 'bg-(--color-primary)/15 border-(--color-primary) text-(--color-primary)'
+                    : 'bg-(--color-background)/50 border-(--color-border) text-(--color-text-muted) hover:text-(--color-text)'
+                )}
+              >
+                <span className="mr-1.5">{game.icon}</span>
+                {game.name}
+              </button>
+            ))}
+          </div>
+
           {error ? (
             <div className="flex flex-col items-center justify-center py-8 gap-4">
               <p className="text-(--color-error) text-sm">{error}</p>
@@ -82,6 +107,7 @@ export function LeaderboardModal({ isOpen, onClose }: LeaderboardModalProps) {
               entries={entries}
               currentUserId={user?.id}
               isLoading={isLoading}
+              onPlayerSelect={onClose}
             />
           )}
         </ModalBody>
@@ -2,6 +2,7 @@
 
 import { motion } from 'framer-motion';
 import Image from 'next/image';
+import Link from 'next/link';
 import { Trophy, Medal, Crown, Sparkles } from 'lucide-react';
 import { cn } from '@/lib/utils/cn';
 import type { LeaderboardEntry } from '../types';
@@ -10,6 +11,8 @@ interface LeaderboardProps {
   entries: LeaderboardEntry[];
   currentUserId?: string;
   isLoading?: boolean;
+  /** Called when a player's profile link is followed (e.g. to close a modal) */
+  onPlayerSelect?: () => void;
   className?: string;
 }
 
@@ -46,6 +49,7 @@ export function Leaderboard({
   entries,
   currentUserId,
   isLoading,
+  onPlayerSelect,
   className,
 }: LeaderboardProps) {
   if (isLoading) {
@@ -146,12 +150,16 @@ export function Leaderboard({
             {/* User info */}
             <div className="flex-1 min-w-0">
               <div className="flex items-center gap-2">
-                <p className={cn(
-                  'font-semibold truncate',
-                  isCurrentUser ? 'text-(--color-primary)' : 'text-(--color-text)'
-                )}>
+                <Link
+                  href={`/players/${encodeURIComponent(entry.username)}`}
+                  onClick={onPlayerSelect}
+                  className={cn(
+                    'font-semibold truncate hover:underline',
+                    isCurrentUser ? 'text-(--color-primary)' : 'text-(--color-text)'
+                  )}
+                >
                   {entry.username}
-                </p>
+                </Link>
                 {isCurrentUser && (
                   <span className="px-2 py-0.5 rounded-md bg-(--color-primary)/20 text-(--color-primary) text-xs font-medium">
                     Tu
@@ -160,20 +168,31 @@ export function Leaderboard({
                 {entry.rank === 1 && (
                   <Sparkles size={14} className="text-(--color-warning)" />
                 )}
+                {entry.isProvisional && (
+                  <span
+                    className="px-2 py-0.5 rounded-md bg-(--color-text-muted)/15 text-(--color-text-muted) text-xs font-medium"
+                    title="Rating provisional: menos de 10 partidas puntuadas"
+                  >
+                    Provisional
+                  </span>
+                )}
               </div>
               <p className="text-sm text-(--color-text-muted)">
-                {entry.gamesPlayed} partidas jugadas
+                {entry.gamesPlayed} partidas · {entry.gamesWon}W · {entry.winRate}% win
               </p>
             </div>
 
             {/* Stats */}
             <div className="text-right">
-              <p className="font-bold text-lg text-(--color-success)">
-                {entry.gamesWon}
-                <span className="text-xs font-medium ml-1">W</span>
+              <p className={cn(
+                'font-bold text-lg',
+                entry.isProvisional ? 'text-(--color-text-muted)' : 'text-(--color-success)'
+              )}>
+                {entry.rating}
+                {entry.isProvisional && <span className="text-xs font-medium">?</span>}
               </p>
               <p className="text-sm text-(--color-text-muted)">
-                {entry.winRate}% win
+                rating
               </p>
             </div>
           </motion.div>
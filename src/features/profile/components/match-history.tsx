@@ -0,0 +1,119 @@
+'use client';
+
+import { useState } from 'react';
+import dynamic from 'next/dynamic';
+import { motion } from 'framer-motion';
+import { History, Loader2, PlayCircle, Globe, Monitor } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { useMatchHistory, type MatchHistoryEntry } from '../hooks/use-match-history';
+import { getOnlineGameConfig } from '../constants';
+import { cn } from '@/lib/utils/cn';
+
+// Loaded on demand: it pulls in every game's board (and games import this feature)
+const ReplayViewer = dynamic(() => import('./replay-viewer').then(m => m.ReplayViewer), { ssr: false });
+
+interface MatchHistoryProps {
+  userId: string | null;
+  className?: string;
+}
+
+export function MatchHistory({ userId, className }: MatchHistoryProps) {
+  const { entries, isLoading, error, refetch } = useMatchHistory({ userId });
+  const [selected, setSelected] = useState<MatchHistoryEntry | null>(null);
+
+  if (selected) {
+    return (
+      <div className={className}>
+        <ReplayViewer key={selected.id} entry={selected} onBack={() => setSelected(null)} />
+      </div>
+    );
+  }
+
+  if (isLoading && entries.length === 0) {
+    return (
+      <div className={cn('flex justify-center py-12', className)}>
+        <Loader2 className="animate-spin text-(--color-primary)" size={32} />
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className={cn('flex flex-col items-center justify-center py-8 gap-4', className)}>
+        <p className="text-(--color-error) text-sm">{error}</p>
+        <Button variant="outline" size="sm" onClick={refetch}>
+          Reintentar
+        </Button>
+      </div>
+    );
+  }
+
+  if (entries.length === 0) {
+    return (
+      <motion.div
+        className={cn('text-center py-12', className)}
+        initial={{ opacity: 0, scale: 0.95 }}
+        animate={{ opacity: 1, scale: 1 }}
+      >
+        <div className="w-20 h-20 mx-auto mb-4 rounded-2xl bg-background/50 flex items-center justify-center">
+          <History className="text-(--color-text-muted)" size={40} />
+        </div>
+        <p className="text-(--color-text) font-medium">
+          Aun no hay partidas para repetir
+        </p>
+        <p className="text-sm text-(--color-text-muted) mt-1">
+          Tus partidas online y locales aparecen acá al terminar
+        </p>
+      </motion.div>
+    );
+  }
+
+  return (
+    <div className={cn('space-y-2', className)}>
+      {entries.map((entry, index) => {
+        const config = getOnlineGameConfig(entry.gameType);
+
+        return (
+          <motion.button
+            key={entry.id}
+            onClick={() => setSelected(entry)}
+            className={cn(
+              'w-full flex items-center justify-between gap-3 p-3 rounded-xl text-left',
+              'bg-background/50 border border-border/30',
+              'hover:bg-(--color-background) hover:border-(--color-primary)/40 transition-colors'
+            )}
+            initial={{ opacity: 0, x: -20 }}
+            animate={{ opacity: 1, x: 0 }}
+            transition={{ delay: index * 0.03 }}
+            aria-label={`Ver repetición vs ${entry.opponentName}`}
+          >
+            <div className="flex items-center gap-3 min-w-0">
+              <span
+                className={cn(
+                  'w-9 h-9 shrink-0 rounded-xl flex items-center justify-center text-sm font-bold',
+                  entry.result === 'win' && 'bg-(--color-success)/15 text-(--color-success)',
+                  entry.result === 'loss' && 'bg-(--color-error)/15 text-(--color-error)',
+                  entry.result === 'draw' && 'bg-(--color-warning)/15 text-(--color-warning)'
+                )}
+              >
+                {entry.result === 'win' ? 'W' : entry.result === 'loss' ? 'L' : 'D'}
+              </span>
+              <div className="min-w-0">
+                <p className="text-(--color-text) text-sm font-medium truncate">
+                  {config?.icon} vs {entry.opponentName}
+                </p>
+                <p className="flex items-center gap-1 text-xs text-(--color-text-muted)">
+                  {entry.source === 'online' ? <Globe size={12} /> : <Monitor size={12} />}
+                  {entry.replay.moves.length} movimientos · {new Date(entry.playedAt).toLocaleDateString()}
+                </p>
+              </div>
+            </div>
+            <PlayCircle size={20} className="shrink-0 text-(--color-text-muted)" />
+          </motion.button>
+        );
+      })}
+    </div>
+  );
+}
+
+export default MatchHistory;
@@ -0,0 +1,120 @@
+'use client';
+
+import Link from 'next/link';
+import Image from 'next/image';
+import { ArrowLeft, Loader2, Medal } from 'lucide-react';
+import { cn } from '@/lib/utils/cn';
+import { useAuth } from '@/features/auth';
+import { AchievementShowcase } from '@/features/achievements';
+import { usePublicProfile } from '../hooks/use-public-profile';
+import { getOnlineGameConfig } from '../constants';
+
+interface PublicProfileViewProps {
+  username: string;
+}
+
+function formatMemberSince(createdAt: string): string {
+  return new Date(createdAt).toLocaleDateString('es', { month: 'long', year: 'numeric' });
+}
+
+export function PublicProfileView({ username }: PublicProfileViewProps) {
+  const { user } = useAuth();
+  const { profile, isLoading, error } = usePublicProfile(username);
+  const isOwnProfile = !!profile && profile.id === user?.id;
+
+  return (
+    <div className="game-container relative flex flex-col items-center p-4 sm:p-6">
+      <Link
+        href="/games"
+        className="absolute top-2 left-2 sm:top-4 sm:left-4 flex items-center gap-2 px-3 h-10 text-sm text-(--color-text-muted) hover:text-(--color-text)"
+      >
+        <ArrowLeft size={18} />
+        <span className="hidden sm:inline">Juegos</span>
+      </Link>
+
+      {isLoading ? (
+        <div className="flex flex-1 items-center justify-center py-16">
+          <Loader2 className="animate-spin text-(--color-primary)" size={32} />
+        </div>
+      ) : !profile ? (
+        <p className="text-(--color-text-muted) py-16">{error ?? 'Jugador no encontrado'}</p>
+      ) : (
+        <div className="w-full max-w-3xl space-y-6 mt-10">
+          {/* Header */}
+          <div className="flex flex-col items-center text-center gap-3">
+            <div className={cn(
+              'w-20 h-20 rounded-2xl flex items-center justify-center overflow-hidden',
+              'bg-gradient-to-br from-(--color-primary)/20 to-(--color-secondary)/20',
+              'border border-(--color-border)/30'
+            )}>
+              {profile.avatarUrl ? (
+                <Image
+                  src={profile.avatarUrl}
+                  alt={profile.username}
+                  width={80}
+                  height={80}
+                  className="w-full h-full object-cover"
+                  unoptimized
+                />
+              ) : (
+                <span className="text-2xl text-(--color-primary) font-bold">
+                  {profile.username[0]?.toUpperCase() || 'U'}
+                </span>
+              )}
+            </div>
+            <div>
+              <h1 className="text-2xl sm:text-3xl font-heading font-bold text-(--color-text)">
+                {profile.username}
+                {isOwnProfile && <span className="ml-2 text-sm font-medium text-(--color-primary)">(tú)</span>}
+              </h1>
+              <p className="text-sm text-(--color-text-muted)">
+                Miembro desde {formatMemberSince(profile.createdAt)}
+              </p>
+            </div>
+          </div>
+
+          {/* Ratings */}
+          {profile.ratings.length > 0 && (
+            <div className="grid gap-2 sm:grid-cols-3">
+              {profile.ratings.map((rating) => {
+                const game = getOnlineGameConfig(rating.gameType);
+
+                return (
+                  <div
+                    key={rating.gameType}
+                    className="p-3 rounded-xl border border-(--color-border) bg-(--color-surface) text-center"
+                  >
+                    <p className="text-xs text-(--color-text-muted)">
+                      {game?.icon} {game?.name ?? rating.gameType}
+                    </p>
+                    <p className={cn(
+                      'font-bold text-lg',
+                      rating.isProvisional ? 'text-(--color-text-muted)' : 'text-(--color-success)'
+                    )}>
+                      {rating.rating}
+                      {rating.isProvisional && <span className="text-xs font-medium">?</span>}
+                    </p>
+                    <p className="text-xs text-(--color-text-muted)">
+                      {rating.gamesPlayed} partidas · {rating.wins}W
+                    </p>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+
+          {/* Achievements */}
+          <div className="space-y-3">
+            <p className="flex items-center gap-2 text-sm font-medium text-(--color-text)">
+              <Medal size={16} className="text-(--color-warning)" />
+              Insignias
+            </p>
+            <AchievementShowcase userId={profile.id} unlockedOnly={!isOwnProfile} />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default PublicProfileView;
@@ -0,0 +1,148 @@
+'use client';
+
+import { useState, useEffect, useMemo } from 'react';
+import { ArrowLeft, Play, Pause, SkipBack, SkipForward, ChevronLeft, ChevronRight } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { gameRegistry } from '@/features/games/registry';
+import { buildReplayFrames } from '@/features/games/common/utils/replay';
+import { formatPlayTime } from '../store/stats-store';
+import { getOnlineGameConfig } from '../constants';
+import type { MatchHistoryEntry } from '../hooks/use-match-history';
+
+// Register games (read-only boards)
+import ticTacToeModule from '@/features/games/tic-tac-toe';
+import connectFourModule from '@/features/games/connect-four';
+import chessModule from '@/features/games/chess';
+gameRegistry.register(ticTacToeModule);
+gameRegistry.register(connectFourModule);
+gameRegistry.register(chessModule);
+
+// Time between moves while playing
+const PLAYBACK_INTERVAL_MS = 900;
+
+interface ReplayViewerProps {
+  entry: MatchHistoryEntry;
+  onBack: () => void;
+}
+
+export function ReplayViewer({ entry, onBack }: ReplayViewerProps) {
+  const frames = useMemo(() => buildReplayFrames(entry.gameType, entry.replay), [entry]);
+  const [frameIndex, setFrameIndex] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+
+  const SpectatorBoard = gameRegistry.get(entry.gameType)?.SpectatorBoard;
+  const config = getOnlineGameConfig(entry.gameType);
+  const lastIndex = frames.length - 1;
+  const frame = frames[frameIndex];
+  // Playback stops by itself on the last move
+  const isRunning = isPlaying && frameIndex < lastIndex;
+
+  // Seconds since the first move, for the current position
+  const firstMoveAt = frames[1]?.at;
+  const elapsedSeconds = frame?.at && firstMoveAt
+    ? Math.max(0, Math.round((new Date(frame.at).getTime() - new Date(firstMoveAt).getTime()) / 1000))
+    : 0;
+
+  // Advance one move at a time
+  useEffect(() => {
+    if (!isRunning) return;
+
+    const intervalId = setInterval(() => {
+      setFrameIndex((index) => Math.min(index + 1, lastIndex));
+    }, PLAYBACK_INTERVAL_MS);
+
+    return () => clearInterval(intervalId);
+  }, [isRunning, lastIndex]);
+
+  const goTo = (index: number) => {
+    setIsPlaying(false);
+    setFrameIndex(Math.min(Math.max(index, 0), lastIndex));
+  };
+
+  const togglePlay = () => {
+    if (isRunning) {
+      setIsPlaying(false);
+      return;
+    }
+    // Replaying from the end starts over
+    if (frameIndex >= lastIndex) {
+      setFrameIndex(0);
+    }
+    setIsPlaying(true);
+  };
+
+  return (
+    <div className="space-y-4">
+      {/* Header */}
+      <div className="flex items-center gap-3">
+        <Button variant="ghost" size="icon" scale="subtle" onClick={onBack} aria-label="Volver al historial">
+          <ArrowLeft size={18} />
+        </Button>
+        <div className="min-w-0">
+          <p className="font-semibold text-(--color-text) truncate">
+            {config?.icon} {config?.name ?? entry.gameType} · vs {entry.opponentName}
+          </p>
+          <p className="text-xs text-(--color-text-muted)">
+            {new Date(entry.playedAt).toLocaleString()}
+          </p>
+        </div>
+      </div>
+
+      {/* Board */}
+      <div className="flex justify-center">
+        {SpectatorBoard && frame ? (
+          <SpectatorBoard state={frame.state} className="max-w-xs w-full" />
+        ) : (
+          <p className="text-sm text-(--color-text-muted) py-12">No se puede reproducir esta partida</p>
+        )}
+      </div>
+
+      {lastIndex > 0 && (
+        <>
+          {/* Scrub bar */}
+          <div className="space-y-1">
+            <input
+              type="range"
+              min={0}
+              max={lastIndex}
+              value={frameIndex}
+              onChange={(e) => goTo(Number(e.target.value))}
+              className="w-full accent-(--color-primary)"
+              aria-label="Posición en la partida"
+            />
+            <div className="flex justify-between text-xs text-(--color-text-muted)">
+              <span>Jugada {frameIndex} de {lastIndex}</span>
+              <span>+{formatPlayTime(elapsedSeconds)}</span>
+            </div>
+          </div>
+
+          {/* Controls */}
+          <div className="flex items-center justify-center gap-2">
+            <Button variant="ghost" size="icon" scale="subtle" onClick={() => goTo(0)} disabled={frameIndex === 0} aria-label="Inicio">
+              <SkipBack size={18} />
+            </Button>
+            <Button variant="ghost" size="icon" scale="subtle" onClick={() => goTo(frameIndex - 1)} disabled={frameIndex === 0} aria-label="Jugada anterior">
+              <ChevronLeft size={18} />
+            </Button>
+            <Button
+              size="icon"
+              scale="subtle"
+              onClick={togglePlay}
+              aria-label={isRunning ? 'Pausar' : 'Reproducir'}
+            >
+              {isRunning ? <Pause size={18} /> : <Play size={18} />}
+            </Button>
+            <Button variant="ghost" size="icon" scale="subtle" onClick={() => goTo(frameIndex + 1)} disabled={frameIndex === lastIndex} aria-label="Jugada siguiente">
+              <ChevronRight size={18} />
+            </Button>
+            <Button variant="ghost" size="icon" scale="subtle" onClick={() => goTo(lastIndex)} disabled={frameIndex === lastIndex} aria-label="Final">
+              <SkipForward size={18} />
+            </Button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
+export default ReplayViewer;
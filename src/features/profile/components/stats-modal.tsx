@@ -6,6 +6,8 @@ import { Trash2, Cloud, CloudOff, Loader2, BarChart3 } from 'lucide-react';
 import { Modal, ModalContent, ModalHeader, ModalBody, ModalFooter, ModalTitle, ModalDescription } from '@/components/ui/modal';
 import { Button } from '@/components/ui/button';
 import { StatsDisplay } from './stats-display';
+import { MatchHistory } from './match-history';
+import { AchievementShowcase } from '@/features/achievements';
 import { useStatsStore } from '../store/stats-store';
 import { cn } from '@/lib/utils';
 import { useMotionConfig } from '@/hooks/use-motion-config';
@@ -20,6 +22,14 @@ import { TRANSITIONS } from '@/lib/theme/motion-defaults';
  * - Mantiene AnimatePresence para la confirmación
  */
 
+type StatsTab = 'summary' | 'history' | 'achievements';
+
+const TABS: { id: StatsTab; label: string }[] = [
+  { id: 'summary', label: 'Resumen' },
+  { id: 'history', label: 'Historial' },
+  { id: 'achievements', label: 'Logros' },
+];
+
 interface StatsModalProps {
   isOpen: boolean;
   onClose: () => void;
@@ -27,6 +37,7 @@ interface StatsModalProps {
 
 export function StatsModal({ isOpen, onClose }: StatsModalProps) {
   const [showConfirmReset, setShowConfirmReset] = useState(false);
+  const [activeTab, setActiveTab] = useState<StatsTab>('summary');
   const { resetStats, userId, isSyncing, isResetting } = useStatsStore();
   const { shouldReduceMotion } = useMotionConfig();
 
@@ -98,76 +109,100 @@ export function StatsModal({ isOpen, onClose }: StatsModalProps) {
 
         {/* Content */}
         <ModalBody>
-          <StatsDisplay />
+          {/* Pestañas */}
+          <div className="flex gap-2 mb-4" role="tablist" aria-label="Estadisticas">
+            {TABS.map((tab) => (
+              <button
+                key={tab.id}
+                role="tab"
+                aria-selected={activeTab === tab.id}
+                onClick={() => setActiveTab(tab.id)}
+                className={cn(
+                  'flex-1 px-3 py-2 rounded-xl text-sm font-medium border transition-colors',
+                  activeTab === tab.id
+                    ? 'bg-(--color-primary)/15 border-(--color-primary) text-(--color-primary)'
+                    : 'bg-(--color-background)/50 border-(--color-border) text-(--color-text-muted) hover:text-(--color-text)'
+                )}
+              >
+                {tab.label}
+              </button>
+            ))}
+          </div>
+
+          {activeTab === 'summary' && <StatsDisplay />}
+          {activeTab === 'history' && <MatchHistory userId={userId} />}
+          {activeTab === 'achievements' && <AchievementShowcase userId={userId} />}
         </ModalBody>
 
         {/* Footer con botón de reset */}
-        <ModalFooter className="flex-col items-stretch">
-          <AnimatePresence mode="wait">
-            {!showConfirmReset ? (
-              <motion.div
-                key="reset-btn"
-                initial={animationVariants.initial}
-                animate={animationVariants.animate}
-                exit={animationVariants.exit}
-                transition={TRANSITIONS.fast}
-                className="w-full"
-              >
-                <Button
-                  variant="outline"
-                  size="default"
-                  scale="subtle"
-                  onClick={() => setShowConfirmReset(true)}
-                  icon={<Trash2 size={18} />}
-                  className={cn(
-                    'w-full',
-                    'text-(--color-error) hover:text-(--color-error)',
-                    'border-(--color-error)/20 hover:border-(--color-error)/40',
-                    'hover:bg-(--color-error)/10'
-                  )}
+        {activeTab === 'summary' && (
+          <ModalFooter className="flex-col items-stretch">
+            <AnimatePresence mode="wait">
+              {!showConfirmReset ? (
+                <motion.div
+                  key="reset-btn"
+                  initial={animationVariants.initial}
+                  animate={animationVariants.animate}
+                  exit={animationVariants.exit}
+                  transition={TRANSITIONS.fast}
+                  className="w-full"
                 >
-                  Reiniciar estadisticas
-                </Button>
-              </motion.div>
-            ) : (
-              <motion.div
-                key="confirm"
-                initial={slideVariants.initial}
-                animate={slideVariants.animate}
-                exit={slideVariants.exit}
-                transition={TRANSITIONS.fast}
-                className="space-y-3 w-full"
-              >
-                <p className="text-sm text-center text-(--color-text-muted)">
-                  ¿Estas seguro? Esta accion no se puede deshacer.
-                </p>
-                <div className="flex gap-3">
                   <Button
-                    variant="ghost"
+                    variant="outline"
                     size="default"
                     scale="subtle"
-                    onClick={() => setShowConfirmReset(false)}
-                    disabled={isResetting}
-                    className="flex-1"
+                    onClick={() => setShowConfirmReset(true)}
+                    icon={<Trash2 size={18} />}
+                    className={cn(
+                      'w-full',
+                      'text-(--color-error) hover:text-(--color-error)',
+                      'border-(--color-error)/20 hover:border-(--color-error)/40',
+                      'hover:bg-(--color-error)/10'
+                    )}
                   >
-                    Cancelar
+                    Reiniciar estadisticas
                   </Button>
-                  <Button
-                    variant="destructive"
-                    size="default"
-                    scale="subtle"
-                    onClick={handleReset}
-                    disabled={isResetting}
-                    icon={isResetting ? <Loader2 size={16} className="animate-spin" /> : undefined}
-                    className="flex-1"
-                  >
-                    {isResetting ? 'Reiniciando...' : 'Confirmar'}
-                  </Button>
-                </div>
-              </motion.div>
-            )}
-          </AnimatePresence>
-        </ModalFooter>
+                </motion.div>
+              ) : (
+                <motion.div
+                  key="confirm"
+                  initial={slideVariants.initial}
+                  animate={slideVariants.animate}
+                  exit={slideVariants.exit}
+                  transition={TRANSITIONS.fast}
+                  className="space-y-3 w-full"
+                >
+                  <p className="text-sm text-center text-(--color-text-muted)">
+                    ¿Estas seguro? Esta accion no se puede deshacer.
+                  </p>
+                  <div className="flex gap-3">
+                    <Button
+                      variant="ghost"
+                      size="default"
+                      scale="subtle"
+                      onClick={() => setShowConfirmReset(false)}
+                      disabled={isResetting}
+                      className="flex-1"
+                    >
+                      Cancelar
+                    </Button>
+                    <Button
+                      variant="destructive"
+                      size="default"
+                      scale="subtle"
+                      onClick={handleReset}
+                      disabled={isResetting}
+                      icon={isResetting ? <Loader2 size={16} className="animate-spin" /> : undefined}
+                      className="flex-1"
+                    >
+                      {isResetting ? 'Reiniciando...' : 'Confirmar'}
+                    </Button>
+                  </div>
+                </motion.div>
+              )}
+            </AnimatePresence>
+          </ModalFooter>
+        )}
       </ModalContent>
     </Modal>
   );
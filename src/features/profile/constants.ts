@@ -0,0 +1,11 @@
+import { ticTacToeConfig } from '@/features/games/tic-tac-toe/config';
+import { connectFourConfig } from '@/features/games/connect-four/config';
+import { chessConfig } from '@/features/games/chess/config';
+import type { GameConfig } from '@/features/games/registry/types';
+
+// Juegos online con rating e historial de partidas
+export const ONLINE_GAMES: GameConfig[] = [ticTacToeConfig, connectFourConfig, chessConfig];
+
+export function getOnlineGameConfig(slug: string): GameConfig | undefined {
+  return ONLINE_GAMES.find((game) => game.slug === slug);
+}
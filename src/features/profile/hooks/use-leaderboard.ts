@@ -9,8 +9,10 @@ import { leaderboardLogger } from '@/lib/utils/logger';
 // Type for the raw leaderboard row from Supabase
 interface LeaderboardRow {
   user_id: string;
-  games_won: number | null;
+  rating: number | null;
+  wins: number | null;
   games_played: number | null;
+  is_provisional: boolean | null;
   profiles: {
     id: string;
     username: string | null;
@@ -35,8 +37,9 @@ function validateAndTransformRow(item: unknown, index: number): LeaderboardEntry
 
   // Handle profile data (can be null from left join)
   const profiles = row.profiles as LeaderboardRow['profiles'];
-  const gamesWon = typeof row.games_won === 'number' ? row.games_won : 0;
+  const gamesWon = typeof row.wins === 'number' ? row.wins : 0;
   const gamesPlayed = typeof row.games_played === 'number' ? row.games_played : 0;
+  const rating = typeof row.rating === 'number' ? Math.round(row.rating) : 1500;
 
   return {
     id: profiles?.id || row.user_id,
@@ -46,6 +49,8 @@ function validateAndTransformRow(item: unknown, index: number): LeaderboardEntry
     gamesPlayed,
     winRate: gamesPlayed > 0 ? Math.round((gamesWon / gamesPlayed) * 100) : 0,
     rank: index + 1,
+    rating,
+    isProvisional: row.is_provisional !== false,
   };
 }
 
@@ -105,9 +110,9 @@ export function useLeaderboard({ limit = 10, gameType = 'tic-tac-toe' }: UseLead
       // Add timeout to prevent hanging
       const timeoutId = setTimeout(() => controller.abort(), 5000);
 
-      // First check if game_stats table exists by trying a simple query
+      // First check if player_ratings table exists by trying a simple query
       const { error: tableCheckError } = await supabase
-        .from('game_stats')
+        .from('player_ratings')
         .select('user_id')
         .limit(1)
         .abortSignal(controller.signal);
@@ -124,11 +129,13 @@ export function useLeaderboard({ limit = 10, gameType = 'tic-tac-toe' }: UseLead
 
       // Fetch leaderboard data using left join to include users without profiles
       const { data, error: fetchError } = await supabase
-        .from('game_stats')
+        .from('player_ratings')
         .select(`
           user_id,
+          rating,
           games_played,
-          games_won,
+          wins,
+          is_provisional,
           profiles (
             id,
             username,
@@ -136,7 +143,7 @@ export function useLeaderboard({ limit = 10, gameType = 'tic-tac-toe' }: UseLead
           )
         `)
         .eq('game_type', gameType)
-        .order('games_won', { ascending: false })
+        .order('rating', { ascending: false })
         .limit(limit);
 
       if (fetchError) {
@@ -0,0 +1,114 @@
+'use client';
+
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { gameRoomService, type GameRoomWithPlayers } from '@/features/games/common/services/game-room-service';
+import { replayFromRoom, type MatchReplay } from '@/features/games/common/utils/replay';
+import { useStatsStore } from '../store/stats-store';
+import type { GameResult } from '../types';
+import { createLogger } from '@/lib/utils/logger';
+
+const log = createLogger({ prefix: 'MatchHistory' });
+
+const OPPONENT_LABELS: Record<GameResult['opponentType'], string> = {
+  human: 'Local (2 jugadores)',
+  ai_easy: 'IA fácil',
+  ai_medium: 'IA media',
+  ai_hard: 'IA difícil',
+  ai_impossible: 'IA imposible',
+  online: 'Online',
+};
+
+export interface MatchHistoryEntry {
+  id: string;
+  gameType: string;
+  source: 'online' | 'local';
+  result: GameResult['result'];
+  opponentName: string;
+  playedAt: string;
+  replay: MatchReplay;
+}
+
+interface UseMatchHistoryOptions {
+  userId: string | null;
+  limit?: number;
+}
+
+// Online rooms replay from their server-side move log
+function toOnlineEntry(room: GameRoomWithPlayers, userId: string): MatchHistoryEntry {
+  const isPlayer1 = room.player1_id === userId;
+  const opponent = isPlayer1 ? room.player2 : room.player1;
+
+  return {
+    id: room.id,
+    gameType: room.game_type,
+    source: 'online',
+    result: room.is_draw ? 'draw' : room.winner_id === userId ? 'win' : 'loss',
+    opponentName: opponent?.username || 'Oponente',
+    playedAt: room.updated_at,
+    replay: replayFromRoom(room.game_type, room),
+  };
+}
+
+function toLocalEntry(game: GameResult & { replay: MatchReplay }): MatchHistoryEntry {
+  return {
+    id: game.id,
+    gameType: game.gameType,
+    source: 'local',
+    result: game.result,
+    opponentName: OPPONENT_LABELS[game.opponentType],
+    playedAt: game.createdAt,
+    replay: game.replay,
+  };
+}
+
+export function useMatchHistory({ userId, limit = 20 }: UseMatchHistoryOptions) {
+  const recentGames = useStatsStore((state) => state.recentGames);
+  const [onlineRooms, setOnlineRooms] = useState<GameRoomWithPlayers[]>([]);
+  const [isLoading, setIsLoading] = useState(!!userId);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchOnlineRooms = useCallback(async () => {
+    if (!userId) {
+      setOnlineRooms([]);
+      setIsLoading(false);
+      return;
+    }
+
+    setIsLoading(true);
+    setError(null);
+    try {
+      setOnlineRooms(await gameRoomService.findFinishedRooms(userId, limit));
+    } catch (err) {
+      log.error('Error loading match history:', err);
+      setError('Error al cargar el historial');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [userId, limit]);
+
+  useEffect(() => {
+    fetchOnlineRooms();
+  }, [fetchOnlineRooms]);
+
+  // Online games from the server + local/AI games saved with their moves
+  const entries = useMemo(() => {
+    const online = userId ? onlineRooms.map((room) => toOnlineEntry(room, userId)) : [];
+    const local = recentGames
+      .filter((game): game is GameResult & { replay: MatchReplay } =>
+        game.opponentType !== 'online' && !!game.replay)
+      .map(toLocalEntry);
+
+    return [...online, ...local]
+      .sort((a, b) => new Date(b.playedAt).getTime() - new Date(a.playedAt).getTime())
+      .slice(0, limit);
+  }, [onlineRooms, recentGames, userId, limit]);
+
+  return {
+    entries,
+    isLoading,
+    error,
+    refetch: fetchOnlineRooms,
+  };
+}
+
+export default useMatchHistory;
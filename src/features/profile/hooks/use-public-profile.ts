@@ -0,0 +1,103 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { getClient } from '@/lib/supabase/client';
+import { createLogger } from '@/lib/utils/logger';
+import type { Tables } from '@/types/supabase.types';
+
+const log = createLogger({ prefix: 'PublicProfile' });
+
+export interface PublicProfileRating {
+  gameType: string;
+  rating: number;
+  gamesPlayed: number;
+  wins: number;
+  isProvisional: boolean;
+}
+
+export interface PublicProfile {
+  id: string;
+  username: string;
+  avatarUrl: string | null;
+  createdAt: string;
+  ratings: PublicProfileRating[];
+}
+
+type ProfileRow = Pick<Tables<'profiles'>, 'id' | 'username' | 'avatar_url' | 'created_at'>;
+type RatingRow = Pick<Tables<'player_ratings'>, 'game_type' | 'rating' | 'games_played' | 'wins' | 'is_provisional'>;
+
+// Escapa los comodines de ILIKE para buscar el nombre exacto
+function escapeLikePattern(value: string): string {
+  return value.replace(/[\\%_]/g, (char) => `\\${char}`);
+}
+
+// Perfil público por nombre de usuario (únicos sin distinguir mayúsculas)
+export function usePublicProfile(username: string) {
+  const [profile, setProfile] = useState<PublicProfile | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    const supabase = getClient();
+
+    const load = async () => {
+      setIsLoading(true);
+      setError(null);
+
+      const { data, error: profileError } = await supabase
+        .from('profiles')
+        .select('id, username, avatar_url, created_at')
+        .ilike('username', escapeLikePattern(username))
+        .maybeSingle();
+
+      if (cancelled) return;
+
+      const row = data as ProfileRow | null;
+      if (profileError || !row) {
+        if (profileError) log.error('Error loading public profile:', profileError);
+        setProfile(null);
+        setError(profileError ? 'Error al cargar el perfil' : 'Jugador no encontrado');
+        setIsLoading(false);
+        return;
+      }
+
+      const { data: ratingRows, error: ratingsError } = await supabase
+        .from('player_ratings')
+        .select('game_type, rating, games_played, wins, is_provisional')
+        .eq('user_id', row.id)
+        .order('rating', { ascending: false });
+
+      if (cancelled) return;
+
+      if (ratingsError) {
+        log.warn('Error loading public profile ratings:', ratingsError);
+      }
+
+      setProfile({
+        id: row.id,
+        username: row.username ?? username,
+        avatarUrl: row.avatar_url,
+        createdAt: row.created_at,
+        ratings: ((ratingRows ?? []) as RatingRow[]).map((rating) => ({
+          gameType: rating.game_type,
+          rating: Math.round(Number(rating.rating)),
+          gamesPlayed: rating.games_played,
+          wins: rating.wins,
+          isProvisional: rating.is_provisional,
+        })),
+      });
+      setIsLoading(false);
+    };
+
+    load();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [username]);
+
+  return { profile, isLoading, error };
+}
+
+export default usePublicProfile;
@@ -1,4 +1,6 @@
 export { useStatsStore, getWinRate, formatPlayTime } from './store/stats-store';
 export { useLeaderboard } from './hooks/use-leaderboard';
-export { StatsDisplay, StatsModal, Leaderboard, LeaderboardModal } from './components';
+export { useMatchHistory, type MatchHistoryEntry } from './hooks/use-match-history';
+export { usePublicProfile, type PublicProfile, type PublicProfileRating } from './hooks/use-public-profile';
+export { StatsDisplay, StatsModal, Leaderboard, LeaderboardModal, MatchHistory, PublicProfileView } from './components';
 export type { Stats, GameResult, LeaderboardEntry } from './types';
@@ -7,6 +7,7 @@ import type { GameResult, Stats } from '../types';
 import type { InsertTables } from '@/types/supabase.types';
 import { validateGameStatsRow } from '@/lib/validators/database-rows';
 import { statsLogger } from '@/lib/utils/logger';
+import { useSettingsStore } from '@/features/settings/store/settings-store';
 
 // Properly typed insert for game_stats table
 type GameStatsInsert = InsertTables<'game_stats'>;
@@ -219,7 +220,10 @@ export const useStatsStore = create<StatsState>()(
           ? crypto.randomUUID()
           : `${Date.now()}-${Math.random().toString(36).substring(2, 11)}`;
         const createdAt = new Date().toISOString();
-        const fullResult: GameResult = { ...gameResult, id, createdAt };
+        const { replay, ...result } = gameResult;
+        const fullResult: GameResult = useSettingsStore.getState().saveLocalReplays && replay
+          ? { ...result, replay, id, createdAt }
+          : { ...result, id, createdAt };
 
         // Calculate new stats and capture them for sync
         let newStatsForSync: Stats | null = null;
@@ -1,12 +1,17 @@
+import type { MatchReplay } from '@/features/games/common/utils/replay';
+
 export interface GameResult {
   id: string;
   gameType: string;
   opponentType: 'human' | 'ai_easy' | 'ai_medium' | 'ai_hard' | 'ai_impossible' | 'online';
   result: 'win' | 'loss' | 'draw';
-  playerSymbol: 'X' | 'O';
+  /** Symbol or disc the player used (X/O, R/Y) */
+  playerSymbol: string;
   moves: number;
   durationSeconds: number;
   createdAt: string;
+  /** Moves of a local/AI game (online games replay from the room's move log) */
+  replay?: MatchReplay;
 }
 
 export interface Stats {
@@ -33,6 +38,10 @@ export interface LeaderboardEntry {
   gamesPlayed: number;
   winRate: number;
   rank: number;
+  /** Glicko rating for the game */
+  rating: number;
+  /** Fewer than 10 rated games, the rating is still settling */
+  isProvisional: boolean;
 }
 
 // DB row type
@@ -0,0 +1,474 @@
+'use client';
+
+import { useRef, useState } from 'react';
+import { toast } from 'sonner';
+import { User, Mail, KeyRound, Link2, ShieldAlert, Camera, Download, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { useAuth } from '@/features/auth/hooks/use-auth';
+import { accountService } from '@/features/auth/services/account-service';
+import { cn } from '@/lib/utils/cn';
+import { AvatarCropper } from './avatar-cropper';
+
+interface AccountSettingsProps {
+  /** Called after the account is deleted */
+  onAccountDeleted?: () => void;
+}
+
+// Límite del archivo original; el recorte exportado pesa mucho menos
+const MAX_SOURCE_IMAGE_BYTES = 10 * 1024 * 1024;
+const ACCEPTED_IMAGE_TYPES = ['image/png', 'image/jpeg', 'image/webp'];
+const MIN_PASSWORD_LENGTH = 6;
+
+const inputClassName = cn(
+  'w-full px-3 py-2 rounded-lg',
+  'bg-(--color-surface) border border-(--color-border)',
+  'text-sm text-(--color-text) placeholder:text-(--color-text-subtle)',
+  'focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-(--color-primary)'
+);
+
+function SectionTitle({ icon: Icon, children }: { icon: typeof User; children: React.ReactNode }) {
+  return (
+    <div className="flex items-center gap-2 mb-3">
+      <Icon size={16} className="text-(--color-text-muted)" />
+      <h3 className="text-sm font-semibold uppercase tracking-wide text-(--color-text-muted)">
+        {children}
+      </h3>
+    </div>
+  );
+}
+
+function downloadJson(data: unknown, filename: string): void {
+  const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Account tab of the settings modal: profile, login methods and
+ * personal data (export / delete).
+ */
+export function AccountSettings({ onAccountDeleted }: AccountSettingsProps) {
+  const {
+    user,
+    profile,
+    isAuthenticated,
+    updateProfile,
+    updateEmail,
+    updatePassword,
+    linkProvider,
+    unlinkProvider,
+    signOut,
+  } = useAuth();
+
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [avatarFile, setAvatarFile] = useState<File | null>(null);
+  const [isSavingAvatar, setIsSavingAvatar] = useState(false);
+  const [username, setUsername] = useState(profile?.username ?? '');
+  const [isSavingUsername, setIsSavingUsername] = useState(false);
+  const [email, setEmail] = useState('');
+  const [isSavingEmail, setIsSavingEmail] = useState(false);
+  const [password, setPassword] = useState('');
+  const [passwordConfirm, setPasswordConfirm] = useState('');
+  const [isSavingPassword, setIsSavingPassword] = useState(false);
+  const [isLinking, setIsLinking] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
+  const [deleteConfirmation, setDeleteConfirmation] = useState('');
+  const [isDeleting, setIsDeleting] = useState(false);
+
+  if (!isAuthenticated || !user) {
+    return (
+      <div className="text-center py-8">
+        <div className="w-16 h-16 rounded-full bg-(--color-background) border border-(--color-border) flex items-center justify-center mx-auto mb-4">
+          <User size={28} className="text-(--color-text-muted)" />
+        </div>
+        <h3 className="text-lg font-semibold text-(--color-text) mb-2">
+          Gestión de cuenta
+        </h3>
+        <p className="text-sm text-(--color-text-muted) max-w-xs mx-auto">
+          Inicia sesión para editar tu perfil, tus métodos de acceso y tus datos.
+        </p>
+      </div>
+    );
+  }
+
+  const userInitial = profile?.username?.[0]?.toUpperCase() || 'U';
+  const identities = user.identities ?? [];
+  const isGoogleLinked = identities.some((identity) => identity.provider === 'google');
+  const deleteConfirmationText = profile?.username || 'BORRAR';
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Permite volver a elegir el mismo archivo después de cancelar
+    e.target.value = '';
+    if (!file) return;
+
+    if (!ACCEPTED_IMAGE_TYPES.includes(file.type)) {
+      toast.error('Usa una imagen PNG, JPG o WebP');
+      return;
+    }
+    if (file.size > MAX_SOURCE_IMAGE_BYTES) {
+      toast.error('La imagen no puede pesar más de 10 MB');
+      return;
+    }
+    setAvatarFile(file);
+  };
+
+  const handleSaveAvatar = async (image: Blob) => {
+    setIsSavingAvatar(true);
+    const { url, error } = await accountService.uploadAvatar(user.id, image);
+
+    if (error || !url) {
+      toast.error(error ?? 'No se pudo subir la imagen');
+    } else {
+      const { error: updateError } = await updateProfile({ avatar_url: url });
+      if (updateError) {
+        toast.error('No se pudo guardar la foto');
+      } else {
+        toast.success('Foto de perfil actualizada');
+        setAvatarFile(null);
+      }
+    }
+    setIsSavingAvatar(false);
+  };
+
+  const handleSaveUsername = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSavingUsername(true);
+    const { error } = await updateProfile({ username });
+    setIsSavingUsername(false);
+
+    if (error) {
+      toast.error(error.message);
+    } else {
+      toast.success('Nombre de usuario actualizado');
+    }
+  };
+
+  const handleSaveEmail = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSavingEmail(true);
+    const { error } = await updateEmail(email.trim());
+    setIsSavingEmail(false);
+
+    if (error) {
+      toast.error(error.message);
+    } else {
+      toast.success(`Te enviamos un enlace de confirmación a ${email.trim()}`);
+      setEmail('');
+    }
+  };
+
+  const handleSavePassword = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (password.length < MIN_PASSWORD_LENGTH) {
+      toast.error(`La contraseña debe tener al menos ${MIN_PASSWORD_LENGTH} caracteres`);
+      return;
+    }
+    if (password !== passwordConfirm) {
+      toast.error('Las contraseñas no coinciden');
+      return;
+    }
+
+    setIsSavingPassword(true);
+    const { error } = await updatePassword(password);
+    setIsSavingPassword(false);
+
+    if (error) {
+      toast.error(error.message);
+    } else {
+      toast.success('Contraseña actualizada');
+      setPassword('');
+      setPasswordConfirm('');
+    }
+  };
+
+  const handleToggleGoogle = async () => {
+    setIsLinking(true);
+    if (isGoogleLinked) {
+      const { error } = await unlinkProvider('google');
+      if (error) {
+        toast.error(error.message);
+      } else {
+        toast.success('Cuenta de Google desvinculada');
+      }
+      setIsLinking(false);
+      return;
+    }
+
+    // Redirige a Google; al volver, la identidad queda vinculada
+    const { error } = await linkProvider('google');
+    if (error) {
+      toast.error(error.message);
+      setIsLinking(false);
+    }
+  };
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    const { data, error } = await accountService.exportData();
+    setIsExporting(false);
+
+    if (error) {
+      toast.error(error);
+      return;
+    }
+    downloadJson(data, `mis-datos-${new Date().toISOString().slice(0, 10)}.json`);
+  };
+
+  const handleDelete = async () => {
+    setIsDeleting(true);
+    const error = await accountService.deleteAccount(user.id);
+
+    if (error) {
+      toast.error(error);
+      setIsDeleting(false);
+      return;
+    }
+
+    toast.success('Tu cuenta fue borrada');
+    onAccountDeleted?.();
+    await signOut();
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Profile */}
+      <div>
+        <SectionTitle icon={User}>Perfil</SectionTitle>
+        <div className="p-4 rounded-xl bg-(--color-background) border border-(--color-border) space-y-4">
+          {avatarFile ? (
+            <AvatarCropper
+              file={avatarFile}
+              onCancel={() => setAvatarFile(null)}
+              onConfirm={handleSaveAvatar}
+              isSaving={isSavingAvatar}
+            />
+          ) : (
+            <div className="flex items-center gap-4">
+              <Avatar className="h-16 w-16">
+                <AvatarImage src={profile?.avatar_url ?? undefined} alt={profile?.username ?? 'Avatar'} />
+                <AvatarFallback className="bg-(--color-primary) text-white text-xl font-bold">
+                  {userInitial}
+                </AvatarFallback>
+              </Avatar>
+              <div className="flex-1 min-w-0">
+                <p className="text-sm font-medium text-(--color-text) truncate">
+                  {profile?.username || 'Sin nombre'}
+                </p>
+                <p className="text-xs text-(--color-text-muted)">PNG, JPG o WebP</p>
+              </div>
+              <Button variant="outline" size="sm" className="gap-2" onClick={() => fileInputRef.current?.click()}>
+                <Camera size={16} />
+                Cambiar foto
+              </Button>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept={ACCEPTED_IMAGE_TYPES.join(',')}
+                onChange={handleFileChange}
+                className="hidden"
+              />
+            </div>
+          )}
+
+          <form onSubmit={handleSaveUsername} className="pt-4 border-t border-(--color-border)">
+            <label htmlFor="account-username" className="block text-xs font-medium text-(--color-text-muted) mb-1">
+              Nombre de usuario
+            </label>
+            <div className="flex gap-2">
+              <input
+                id="account-username"
+                type="text"
+                value={username}
+                onChange={(e) => setUsername(e.target.value)}
+                maxLength={20}
+                autoComplete="username"
+                className={inputClassName}
+              />
+              <Button
+                type="submit"
+                size="sm"
+                loading={isSavingUsername}
+                disabled={!username.trim() || username.trim() === profile?.username}
+              >
+                Guardar
+              </Button>
+            </div>
+          </form>
+        </div>
+      </div>
+
+      {/* Email */}
+      <div>
+        <SectionTitle icon={Mail}>Email</SectionTitle>
+        <form
+          onSubmit={handleSaveEmail}
+          className="p-4 rounded-xl bg-(--color-background) border border-(--color-border) space-y-2"
+        >
+          <p className="text-sm text-(--color-text)">{user.email}</p>
+          {user.new_email && (
+            <p className="text-xs text-(--color-warning)">
+              Pendiente de confirmar: {user.new_email}
+            </p>
+          )}
+          <div className="flex gap-2">
+            <input
+              type="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              placeholder="Nuevo email"
+              aria-label="Nuevo email"
+              autoComplete="email"
+              className={inputClassName}
+              required
+            />
+            <Button type="submit" size="sm" loading={isSavingEmail} disabled={!email.trim()}>
+              Cambiar
+            </Button>
+          </div>
+        </form>
+      </div>
+
+      {/* Password */}
+      <div>
+        <SectionTitle icon={KeyRound}>Contraseña</SectionTitle>
+        <form
+          onSubmit={handleSavePassword}
+          className="p-4 rounded-xl bg-(--color-background) border border-(--color-border) space-y-2"
+        >
+          <input
+            type="password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            placeholder="Nueva contraseña"
+            aria-label="Nueva contraseña"
+            autoComplete="new-password"
+            minLength={MIN_PASSWORD_LENGTH}
+            className={inputClassName}
+            required
+          />
+          <div className="flex gap-2">
+            <input
+              type="password"
+              value={passwordConfirm}
+              onChange={(e) => setPasswordConfirm(e.target.value)}
+              placeholder="Repite la contraseña"
+              aria-label="Repite la contraseña"
+              autoComplete="new-password"
+              className={inputClassName}
+              required
+            />
+            <Button type="submit" size="sm" loading={isSavingPassword} disabled={!password || !passwordConfirm}>
+              Cambiar
+            </Button>
+          </div>
+        </form>
+      </div>
+
+      {/* Linked accounts */}
+      <div>
+        <SectionTitle icon={Link2}>Cuentas vinculadas</SectionTitle>
+        <div className="p-4 rounded-xl bg-(--color-background) border border-(--color-border) flex items-center gap-3">
+          <div className="flex-1">
+            <p className="text-sm font-medium text-(--color-text)">Google</p>
+            <p className="text-xs text-(--color-text-muted)">
+              {isGoogleLinked ? 'Vinculada' : 'Inicia sesión también con tu cuenta de Google'}
+            </p>
+          </div>
+          <Button
+            variant={isGoogleLinked ? 'ghost' : 'outline'}
+            size="sm"
+            onClick={handleToggleGoogle}
+            loading={isLinking}
+            disabled={isGoogleLinked && identities.length < 2}
+            title={isGoogleLinked && identities.length < 2 ? 'Es tu único método de inicio de sesión' : undefined}
+          >
+            {isGoogleLinked ? 'Desvincular' : 'Vincular'}
+          </Button>
+        </div>
+      </div>
+
+      {/* Data & privacy */}
+      <div>
+        <SectionTitle icon={ShieldAlert}>Datos y privacidad</SectionTitle>
+        <div className="p-4 rounded-xl bg-(--color-background) border border-(--color-border) space-y-4">
+          <div className="flex items-center gap-3">
+            <div className="flex-1">
+              <p className="text-sm font-medium text-(--color-text)">Descargar mis datos</p>
+              <p className="text-xs text-(--color-text-muted)">
+                Perfil, billetera, partidas y estadísticas en formato JSON
+              </p>
+            </div>
+            <Button variant="outline" size="sm" className="gap-2" onClick={handleExport} loading={isExporting}>
+              <Download size={16} />
+              Exportar
+            </Button>
+          </div>
+
+          <div className="pt-4 border-t border-(--color-border) space-y-3">
+            <div className="flex items-center gap-3">
+              <div className="flex-1">
+                <p className="text-sm font-medium text-(--color-error)">Borrar mi cuenta</p>
+                <p className="text-xs text-(--color-text-muted)">
+                  Se borran tu perfil, tu saldo y tus estadísticas. No se puede deshacer.
+                </p>
+              </div>
+              {!showDeleteConfirm && (
+                <Button variant="destructive" size="sm" className="gap-2" onClick={() => setShowDeleteConfirm(true)}>
+                  <Trash2 size={16} />
+                  Borrar
+                </Button>
+              )}
+            </div>
+
+            {showDeleteConfirm && (
+              <div className="space-y-2">
+                <label htmlFor="account-delete-confirm" className="block text-xs text-(--color-text-muted)">
+                  Escribe <span className="font-semibold text-(--color-text)">{deleteConfirmationText}</span> para confirmar
+                </label>
+                <input
+                  id="account-delete-confirm"
+                  type="text"
+                  value={deleteConfirmation}
+                  onChange={(e) => setDeleteConfirmation(e.target.value)}
+                  autoComplete="off"
+                  className={inputClassName}
+                />
+                <div className="flex justify-end gap-2">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => {
+                      setShowDeleteConfirm(false);
+                      setDeleteConfirmation('');
+                    }}
+                    disabled={isDeleting}
+                  >
+                    Cancelar
+                  </Button>
+                  <Button
+                    variant="destructive"
+                    size="sm"
+                    onClick={handleDelete}
+                    loading={isDeleting}
+                    disabled={deleteConfirmation !== deleteConfirmationText}
+                  >
+                    Borrar definitivamente
+                  </Button>
+                </div>
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default AccountSettings;
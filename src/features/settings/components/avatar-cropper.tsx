@@ -0,0 +1,192 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { ZoomIn } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+
+interface AvatarCropperProps {
+  file: File;
+  onCancel: () => void;
+  onConfirm: (image: Blob) => void;
+  isSaving?: boolean;
+}
+
+interface Offset {
+  x: number;
+  y: number;
+}
+
+// Tamaño del visor en pantalla y del avatar exportado (cuadrado)
+const VIEWPORT_SIZE = 224;
+const OUTPUT_SIZE = 256;
+const MAX_ZOOM = 3;
+
+// Escala para que la imagen cubra el visor completo con zoom 1
+function getScale(image: HTMLImageElement, zoom: number): number {
+  return Math.max(VIEWPORT_SIZE / image.naturalWidth, VIEWPORT_SIZE / image.naturalHeight) * zoom;
+}
+
+// Limita el desplazamiento para que nunca queden bordes vacíos
+function clampOffset(image: HTMLImageElement, zoom: number, offset: Offset): Offset {
+  const scale = getScale(image, zoom);
+  const maxX = Math.max(0, (image.naturalWidth * scale - VIEWPORT_SIZE) / 2);
+  const maxY = Math.max(0, (image.naturalHeight * scale - VIEWPORT_SIZE) / 2);
+  return {
+    x: Math.min(maxX, Math.max(-maxX, offset.x)),
+    y: Math.min(maxY, Math.max(-maxY, offset.y)),
+  };
+}
+
+function drawCrop(
+  canvas: HTMLCanvasElement,
+  image: HTMLImageElement,
+  zoom: number,
+  offset: Offset,
+  size: number
+): void {
+  const context = canvas.getContext('2d');
+  if (!context) return;
+
+  // Todo se calcula en píxeles del visor y se escala al tamaño del canvas
+  const ratio = size / VIEWPORT_SIZE;
+  const scale = getScale(image, zoom) * ratio;
+  const width = image.naturalWidth * scale;
+  const height = image.naturalHeight * scale;
+
+  context.clearRect(0, 0, size, size);
+  context.imageSmoothingQuality = 'high';
+  context.drawImage(
+    image,
+    (size - width) / 2 + offset.x * ratio,
+    (size - height) / 2 + offset.y * ratio,
+    width,
+    height
+  );
+}
+
+/**
+ * Square crop for the profile picture: drag to move, slider to zoom.
+ * Exports a small WebP so uploads stay well under the bucket limit.
+ */
+export function AvatarCropper({ file, onCancel, onConfirm, isSaving = false }: AvatarCropperProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const dragRef = useRef<{ pointerX: number; pointerY: number; offset: Offset } | null>(null);
+  const [image, setImage] = useState<HTMLImageElement | null>(null);
+  const [zoom, setZoom] = useState(1);
+  const [offset, setOffset] = useState<Offset>({ x: 0, y: 0 });
+  const [loadError, setLoadError] = useState(false);
+
+  useEffect(() => {
+    const url = URL.createObjectURL(file);
+    const nextImage = new Image();
+    nextImage.onload = () => setImage(nextImage);
+    nextImage.onerror = () => setLoadError(true);
+    nextImage.src = url;
+
+    return () => URL.revokeObjectURL(url);
+  }, [file]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || !image) return;
+
+    const pixelRatio = window.devicePixelRatio || 1;
+    const size = Math.round(VIEWPORT_SIZE * pixelRatio);
+    canvas.width = size;
+    canvas.height = size;
+    drawCrop(canvas, image, zoom, offset, size);
+  }, [image, zoom, offset]);
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragRef.current = { pointerX: e.clientX, pointerY: e.clientY, offset };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const drag = dragRef.current;
+    if (!drag || !image) return;
+
+    setOffset(clampOffset(image, zoom, {
+      x: drag.offset.x + e.clientX - drag.pointerX,
+      y: drag.offset.y + e.clientY - drag.pointerY,
+    }));
+  };
+
+  const handlePointerUp = () => {
+    dragRef.current = null;
+  };
+
+  const handleZoomChange = (value: number) => {
+    setZoom(value);
+    if (image) {
+      setOffset((current) => clampOffset(image, value, current));
+    }
+  };
+
+  const handleConfirm = () => {
+    if (!image) return;
+
+    const output = document.createElement('canvas');
+    output.width = OUTPUT_SIZE;
+    output.height = OUTPUT_SIZE;
+    drawCrop(output, image, zoom, offset, OUTPUT_SIZE);
+
+    // Safari no exporta WebP y devuelve PNG; el bucket acepta los dos
+    output.toBlob((blob) => {
+      if (blob) onConfirm(blob);
+    }, 'image/webp', 0.9);
+  };
+
+  if (loadError) {
+    return (
+      <div className="space-y-3 text-center">
+        <p className="text-sm text-(--color-error)">No se pudo leer la imagen</p>
+        <Button variant="ghost" size="sm" onClick={onCancel}>
+          Volver
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-center">
+        <canvas
+          ref={canvasRef}
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={handlePointerUp}
+          aria-label="Arrastra para encuadrar la foto"
+          className="rounded-full border border-(--color-border) bg-(--color-surface) cursor-grab active:cursor-grabbing touch-none"
+          style={{ width: VIEWPORT_SIZE, height: VIEWPORT_SIZE }}
+        />
+      </div>
+
+      <div className="flex items-center gap-3">
+        <ZoomIn size={16} className="text-(--color-text-muted) shrink-0" />
+        <input
+          type="range"
+          min={1}
+          max={MAX_ZOOM}
+          step={0.01}
+          value={zoom}
+          onChange={(e) => handleZoomChange(Number(e.target.value))}
+          aria-label="Zoom"
+          className="flex-1 accent-(--color-primary)"
+        />
+      </div>
+
+      <div className="flex justify-end gap-2">
+        <Button variant="ghost" size="sm" onClick={onCancel} disabled={isSaving}>
+          Cancelar
+        </Button>
+        <Button size="sm" onClick={handleConfirm} loading={isSaving} disabled={!image}>
+          Guardar foto
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+export default AvatarCropper;
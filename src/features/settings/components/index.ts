@@ -1,2 +1,4 @@
 export { ThemeSelector } from './theme-selector';
 export { SettingsModal } from './settings-modal';
+export { AccountSettings } from './account-settings';
+export { AvatarCropper } from './avatar-cropper';
@@ -11,6 +11,10 @@ import {
   Music,
   Bell,
   Zap,
+  MessageCircle,
+  History,
+  ToggleLeft,
+  ToggleRight,
 } from 'lucide-react';
 import {
   Modal,
@@ -21,7 +25,15 @@ import {
   ModalDescription,
 } from '@/components/ui/modal';
 import { useTheme, type Theme } from '@/components/client/theme-provider';
+import { useSettingsStore } from '../store/settings-store';
+import {
+  notificationService,
+  NOTIFICATION_EVENTS,
+  NOTIFICATION_KINDS,
+  type BrowserPermission,
+} from '@/features/notifications';
 import { cn } from '@/lib/utils/cn';
+import { AccountSettings } from './account-settings';
 
 interface SettingsModalProps {
   isOpen: boolean;
@@ -70,9 +82,80 @@ const themes: ThemeOption[] = [
   },
 ];
 
+interface VolumeSliderProps {
+  id: string;
+  label: string;
+  value: number;
+  disabled: boolean;
+  onChange: (value: number) => void;
+}
+
+function VolumeSlider({ id, label, value, disabled, onChange }: VolumeSliderProps) {
+  const percent = Math.round(value * 100);
+
+  return (
+    <div className={cn(disabled && 'opacity-50')}>
+      <div className="flex items-center justify-between mb-1">
+        <label htmlFor={id} className="text-xs font-medium text-(--color-text-muted)">
+          {label}
+        </label>
+        <span className="text-xs font-semibold text-(--color-text)">{percent}%</span>
+      </div>
+      <input
+        id={id}
+        type="range"
+        min={0}
+        max={100}
+        value={percent}
+        disabled={disabled}
+        onChange={(e) => onChange(Number(e.target.value) / 100)}
+        className="w-full accent-(--color-primary)"
+      />
+    </div>
+  );
+}
+
 export function SettingsModal({ isOpen, onClose }: SettingsModalProps) {
   const [activeTab, setActiveTab] = useState<SettingsTab>('preferences');
   const { theme, setTheme } = useTheme();
+  const chatMuted = useSettingsStore((s) => s.chatMuted);
+  const toggleChatMuted = useSettingsStore((s) => s.toggleChatMuted);
+  const saveLocalReplays = useSettingsStore((s) => s.saveLocalReplays);
+  const toggleSaveLocalReplays = useSettingsStore((s) => s.toggleSaveLocalReplays);
+  const soundMuted = useSettingsStore((s) => s.soundMuted);
+  const toggleSoundMuted = useSettingsStore((s) => s.toggleSoundMuted);
+  const masterVolume = useSettingsStore((s) => s.masterVolume);
+  const setMasterVolume = useSettingsStore((s) => s.setMasterVolume);
+  const sfxVolume = useSettingsStore((s) => s.sfxVolume);
+  const setSfxVolume = useSettingsStore((s) => s.setSfxVolume);
+  const musicEnabled = useSettingsStore((s) => s.musicEnabled);
+  const toggleMusicEnabled = useSettingsStore((s) => s.toggleMusicEnabled);
+  const musicVolume = useSettingsStore((s) => s.musicVolume);
+  const setMusicVolume = useSettingsStore((s) => s.setMusicVolume);
+  const notificationPrefs = useSettingsStore((s) => s.notificationPrefs);
+  const toggleNotificationKind = useSettingsStore((s) => s.toggleNotificationKind);
+  const browserNotifications = useSettingsStore((s) => s.browserNotifications);
+  const setBrowserNotifications = useSettingsStore((s) => s.setBrowserNotifications);
+  const [browserPermission, setBrowserPermission] = useState<BrowserPermission>(
+    () => notificationService.getBrowserPermission()
+  );
+
+  const handleToggleBrowserNotifications = async () => {
+    if (browserNotifications) {
+      setBrowserNotifications(false);
+      return;
+    }
+    const permission = await notificationService.requestBrowserPermission();
+    setBrowserPermission(permission);
+    setBrowserNotifications(permission === 'granted');
+  };
+
+  const browserNotificationsHint =
+    browserPermission === 'unsupported'
+      ? 'Tu navegador no las soporta'
+      : browserPermission === 'denied'
+        ? 'Bloqueadas en el navegador'
+        : 'Avisos cuando la pestaña está en segundo plano';
 
   return (
     <Modal open={isOpen} onClose={onClose}>
@@ -204,6 +287,74 @@ export function SettingsModal({ isOpen, onClose }: SettingsModalProps) {
                 </div>
               </div>
 
+              {/* Chat Section */}
+              <div>
+                <div className="flex items-center gap-2 mb-3">
+                  <MessageCircle size={16} className="text-(--color-text-muted)" />
+                  <h3 className="text-sm font-semibold uppercase tracking-wide text-(--color-text-muted)">
+                    Chat
+                  </h3>
+                </div>
+
+                <button
+                  onClick={toggleChatMuted}
+                  aria-pressed={chatMuted}
+                  className={cn(
+                    'w-full flex items-center gap-3 p-4 rounded-xl text-left',
+                    'bg-(--color-background) border border-(--color-border)',
+                    'hover:bg-(--color-surface-hover) transition-colors'
+                  )}
+                >
+                  <div className="flex-1">
+                    <p className="text-sm font-medium text-(--color-text)">
+                      Silenciar chat del oponente
+                    </p>
+                    <p className="text-xs text-(--color-text-muted)">
+                      Oculta mensajes y emotes en partidas online
+                    </p>
+                  </div>
+                  {chatMuted ? (
+                    <ToggleRight size={28} className="text-(--color-primary)" />
+                  ) : (
+                    <ToggleLeft size={28} className="text-(--color-text-muted)" />
+                  )}
+                </button>
+              </div>
+
+              {/* Replays Section */}
+              <div>
+                <div className="flex items-center gap-2 mb-3">
+                  <History size={16} className="text-(--color-text-muted)" />
+                  <h3 className="text-sm font-semibold uppercase tracking-wide text-(--color-text-muted)">
+                    Repeticiones
+                  </h3>
+                </div>
+
+                <button
+                  onClick={toggleSaveLocalReplays}
+                  aria-pressed={saveLocalReplays}
+                  className={cn(
+                    'w-full flex items-center gap-3 p-4 rounded-xl text-left',
+                    'bg-(--color-background) border border-(--color-border)',
+                    'hover:bg-(--color-surface-hover) transition-colors'
+                  )}
+                >
+                  <div className="flex-1">
+                    <p className="text-sm font-medium text-(--color-text)">
+                      Guardar partidas locales
+                    </p>
+                    <p className="text-xs text-(--color-text-muted)">
+                      Guarda las jugadas contra la IA y en 2 jugadores para verlas en el historial
+                    </p>
+                  </div>
+                  {saveLocalReplays ? (
+                    <ToggleRight size={28} className="text-(--color-primary)" />
+                  ) : (
+                    <ToggleLeft size={28} className="text-(--color-text-muted)" />
+                  )}
+                </button>
+              </div>
+
               {/* Language Section */}
               <div>
                 <div className="flex items-center gap-2 mb-3">
@@ -235,8 +386,12 @@ export function SettingsModal({ isOpen, onClose }: SettingsModalProps) {
           {activeTab === 'sound' && (
             <div className="space-y-4">
               {/* Music */}
-              <div className="p-4 rounded-xl bg-(--color-background) border border-(--color-border)">
-                <div className="flex items-center gap-3">
+              <div className="p-4 rounded-xl bg-(--color-background) border border-(--color-border) space-y-4">
+                <button
+                  onClick={toggleMusicEnabled}
+                  aria-pressed={musicEnabled}
+                  className="w-full flex items-center gap-3 text-left"
+                >
                   <div className="w-10 h-10 rounded-lg bg-accent/10 flex items-center justify-center">
                     <Music size={18} className="text-(--color-accent)" />
                   </div>
@@ -245,73 +400,126 @@ export function SettingsModal({ isOpen, onClose }: SettingsModalProps) {
                       Música de fondo
                     </p>
                     <p className="text-xs text-(--color-text-muted)">
-                      Próximamente
+                      Cada juego y tema tiene su propia lista
                     </p>
                   </div>
-                  <div className="px-3 py-1 rounded-full bg-(--color-warning)/10 text-(--color-warning) text-xs font-medium">
-                    Pronto
-                  </div>
-                </div>
+                  {musicEnabled ? (
+                    <ToggleRight size={28} className="text-(--color-primary)" />
+                  ) : (
+                    <ToggleLeft size={28} className="text-(--color-text-muted)" />
+                  )}
+                </button>
+
+                <VolumeSlider
+                  id="music-volume"
+                  label="Volumen de música"
+                  value={musicVolume}
+                  disabled={!musicEnabled || soundMuted}
+                  onChange={setMusicVolume}
+                />
               </div>
 
               {/* Sound Effects */}
-              <div className="p-4 rounded-xl bg-(--color-background) border border-(--color-border)">
-                <div className="flex items-center gap-3">
+              <div className="p-4 rounded-xl bg-(--color-background) border border-(--color-border) space-y-4">
+                <button
+                  onClick={toggleSoundMuted}
+                  aria-pressed={soundMuted}
+                  className="w-full flex items-center gap-3 text-left"
+                >
                   <div className="w-10 h-10 rounded-lg bg-(--color-success)/10 flex items-center justify-center">
                     <Zap size={18} className="text-(--color-success)" />
                   </div>
                   <div className="flex-1">
                     <p className="text-sm font-medium text-(--color-text)">
-                      Efectos de sonido
+                      Silenciar sonidos
                     </p>
                     <p className="text-xs text-(--color-text-muted)">
-                      Próximamente
+                      Con movimiento reducido se omiten los sonidos repetitivos
                     </p>
                   </div>
-                  <div className="px-3 py-1 rounded-full bg-(--color-warning)/10 text-(--color-warning) text-xs font-medium">
-                    Pronto
-                  </div>
-                </div>
+                  {soundMuted ? (
+                    <ToggleRight size={28} className="text-(--color-primary)" />
+                  ) : (
+                    <ToggleLeft size={28} className="text-(--color-text-muted)" />
+                  )}
+                </button>
+
+                <VolumeSlider
+                  id="master-volume"
+                  label="Volumen general"
+                  value={masterVolume}
+                  disabled={soundMuted}
+                  onChange={setMasterVolume}
+                />
+                <VolumeSlider
+                  id="sfx-volume"
+                  label="Efectos de sonido"
+                  value={sfxVolume}
+                  disabled={soundMuted}
+                  onChange={setSfxVolume}
+                />
               </div>
 
               {/* Notifications */}
-              <div className="p-4 rounded-xl bg-(--color-background) border border-(--color-border)">
-                <div className="flex items-center gap-3">
+              <div className="p-4 rounded-xl bg-(--color-background) border border-(--color-border) space-y-3">
+                <button
+                  onClick={handleToggleBrowserNotifications}
+                  aria-pressed={browserNotifications}
+                  disabled={browserPermission === 'unsupported' || browserPermission === 'denied'}
+                  className="w-full flex items-center gap-3 text-left disabled:opacity-60"
+                >
                   <div className="w-10 h-10 rounded-lg bg-primary/10 flex items-center justify-center">
                     <Bell size={18} className="text-(--color-primary)" />
                   </div>
                   <div className="flex-1">
                     <p className="text-sm font-medium text-(--color-text)">
-                      Notificaciones
+                      Notificaciones del navegador
                     </p>
                     <p className="text-xs text-(--color-text-muted)">
-                      Próximamente
+                      {browserNotificationsHint}
                     </p>
                   </div>
-                  <div className="px-3 py-1 rounded-full bg-(--color-warning)/10 text-(--color-warning) text-xs font-medium">
-                    Pronto
-                  </div>
+                  {browserNotifications ? (
+                    <ToggleRight size={28} className="text-(--color-primary)" />
+                  ) : (
+                    <ToggleLeft size={28} className="text-(--color-text-muted)" />
+                  )}
+                </button>
+
+                <div className="pt-3 border-t border-(--color-border) space-y-1">
+                  {NOTIFICATION_KINDS.map((kind) => {
+                    const enabled = notificationPrefs[kind] !== false;
+
+                    return (
+                      <button
+                        key={kind}
+                        onClick={() => toggleNotificationKind(kind)}
+                        aria-pressed={enabled}
+                        className="w-full flex items-center gap-3 py-1.5 text-left"
+                      >
+                        <div className="flex-1 min-w-0">
+                          <p className="text-sm text-(--color-text)">
+                            {NOTIFICATION_EVENTS[kind].label}
+                          </p>
+                          <p className="text-xs text-(--color-text-muted)">
+                            {NOTIFICATION_EVENTS[kind].description}
+                          </p>
+                        </div>
+                        {enabled ? (
+                          <ToggleRight size={24} className="text-(--color-primary) shrink-0" />
+                        ) : (
+                          <ToggleLeft size={24} className="text-(--color-text-muted) shrink-0" />
+                        )}
+                      </button>
+                    );
+                  })}
                 </div>
               </div>
             </div>
           )}
 
           {activeTab === 'account' && (
-            <div className="text-center py-8">
-              <div className="w-16 h-16 rounded-full bg-(--color-background) border border-(--color-border) flex items-center justify-center mx-auto mb-4">
-                <User size={28} className="text-(--color-text-muted)" />
-              </div>
-              <h3 className="text-lg font-semibold text-(--color-text) mb-2">
-                Gestión de cuenta
-              </h3>
-              <p className="text-sm text-(--color-text-muted) mb-4 max-w-xs mx-auto">
-                Próximamente podrás gestionar tu perfil, estadísticas y
-                preferencias de cuenta.
-              </p>
-              <div className="inline-flex px-4 py-2 rounded-full bg-(--color-warning)/10 text-(--color-warning) text-sm font-medium">
-                Próximamente
-              </div>
-            </div>
+            <AccountSettings onAccountDeleted={onClose} />
           )}
         </ModalBody>
       </ModalContent>
@@ -1,2 +1,3 @@
 // Re-export all components
 export * from './components';
+export { useSettingsStore, useChatMuted, useSoundMuted } from './store/settings-store';
@@ -0,0 +1,75 @@
+'use client';
+
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import type { NotificationKind } from '@/features/notifications/types';
+
+interface SettingsState {
+  // Chat: hide opponent messages and emotes in online games
+  chatMuted: boolean;
+  setChatMuted: (muted: boolean) => void;
+  toggleChatMuted: () => void;
+  // Replays: keep the moves of local/AI games in the match history
+  saveLocalReplays: boolean;
+  toggleSaveLocalReplays: () => void;
+  // Sound: volumes go from 0 to 1; SFX and music are scaled by the master volume
+  soundMuted: boolean;
+  masterVolume: number;
+  sfxVolume: number;
+  toggleSoundMuted: () => void;
+  setMasterVolume: (volume: number) => void;
+  setSfxVolume: (volume: number) => void;
+  // Music: off by default, playlist follows the current game or theme
+  musicEnabled: boolean;
+  musicVolume: number;
+  toggleMusicEnabled: () => void;
+  setMusicVolume: (volume: number) => void;
+  // Notifications: events missing from the map count as enabled
+  notificationPrefs: Partial<Record<NotificationKind, boolean>>;
+  toggleNotificationKind: (kind: NotificationKind) => void;
+  // Web Notifications while the tab is in the background (needs browser permission)
+  browserNotifications: boolean;
+  setBrowserNotifications: (enabled: boolean) => void;
+}
+
+const clampVolume = (volume: number) => Math.min(1, Math.max(0, volume));
+
+export const useSettingsStore = create<SettingsState>()(
+  persist(
+    (set) => ({
+      chatMuted: false,
+      setChatMuted: (muted) => set({ chatMuted: muted }),
+      toggleChatMuted: () => set((state) => ({ chatMuted: !state.chatMuted })),
+      saveLocalReplays: true,
+      toggleSaveLocalReplays: () => set((state) => ({ saveLocalReplays: !state.saveLocalReplays })),
+      soundMuted: false,
+      masterVolume: 0.8,
+      sfxVolume: 0.8,
+      toggleSoundMuted: () => set((state) => ({ soundMuted: !state.soundMuted })),
+      setMasterVolume: (volume) => set({ masterVolume: clampVolume(volume) }),
+      setSfxVolume: (volume) => set({ sfxVolume: clampVolume(volume) }),
+      musicEnabled: false,
+      musicVolume: 0.5,
+      toggleMusicEnabled: () => set((state) => ({ musicEnabled: !state.musicEnabled })),
+      setMusicVolume: (volume) => set({ musicVolume: clampVolume(volume) }),
+      notificationPrefs: {},
+      toggleNotificationKind: (kind) => set((state) => ({
+        notificationPrefs: {
+          ...state.notificationPrefs,
+          [kind]: state.notificationPrefs[kind] === false,
+        },
+      })),
+      browserNotifications: false,
+      setBrowserNotifications: (enabled) => set({ browserNotifications: enabled }),
+    }),
+    {
+      name: 'settings-storage',
+    }
+  )
+);
+
+// Optimized selectors - prevent unnecessary re-renders
+export const useChatMuted = () => useSettingsStore((s) => s.chatMuted);
+export const useSoundMuted = () => useSettingsStore((s) => s.soundMuted);
+
+export default useSettingsStore;
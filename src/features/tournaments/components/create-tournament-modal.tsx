@@ -0,0 +1,210 @@
+'use client';
+
+import { useState } from 'react';
+import { Coins, Loader2, Trophy } from 'lucide-react';
+import { Modal, ModalContent, ModalHeader, ModalBody, ModalFooter, ModalTitle, ModalDescription } from '@/components/ui/modal';
+import { Button } from '@/components/ui/button';
+import { tournamentService } from '../services/tournament-service';
+import { FORMAT_LABELS, SEEDING_LABELS, PLAYER_COUNT_OPTIONS } from '../constants';
+import type { Tournament, TournamentFormat, TournamentSeeding } from '../types';
+import type { GameConfig } from '@/features/games/registry/types';
+import { cn } from '@/lib/utils/cn';
+
+interface CreateTournamentModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  /** Games that can be played online */
+  games: GameConfig[];
+  onCreated: (tournament: Tournament) => void;
+}
+
+interface OptionGroupProps<T extends string | number> {
+  label: string;
+  options: { value: T; label: string }[];
+  value: T;
+  onChange: (value: T) => void;
+}
+
+function OptionGroup<T extends string | number>({ label, options, value, onChange }: OptionGroupProps<T>) {
+  return (
+    <div className="space-y-2">
+      <p className="text-sm font-medium text-(--color-text)">{label}</p>
+      <div className="flex gap-2" role="radiogroup" aria-label={label}>
+        {options.map((option) => (
+          <button
+            key={option.value}
+            type="button"
+            role="radio"
+            aria-checked={value === option.value}
+            onClick={() => onChange(option.value)}
+            className={cn(
+              'flex-1 px-3 py-2 rounded-xl text-sm font-medium border transition-colors',
+              'focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-(--color-primary) focus-visible:ring-offset-2',
+              value === option.value
+                ? 'bg-(--color-primary)/15 border-(--color-primary) text-(--color-primary)'
+                : 'bg-(--color-background)/50 border-(--color-border) text-(--color-text-muted) hover:text-(--color-text)'
+            )}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export function CreateTournamentModal({ isOpen, onClose, games, onCreated }: CreateTournamentModalProps) {
+  const [name, setName] = useState('');
+  const [gameType, setGameType] = useState(games[0]?.slug ?? '');
+  const [format, setFormat] = useState<TournamentFormat>('single_elimination');
+  const [seeding, setSeeding] = useState<TournamentSeeding>('rating');
+  const [maxPlayers, setMaxPlayers] = useState(8);
+  const [buyInInput, setBuyInInput] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const buyIn = Math.max(0, parseInt(buyInInput, 10) || 0);
+  const trimmedName = name.trim();
+  const canSubmit = trimmedName.length >= 3 && !!gameType && !isSubmitting;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!canSubmit) return;
+
+    setIsSubmitting(true);
+    setError(null);
+    const { tournament, error: createError } = await tournamentService.createTournament({
+      name: trimmedName,
+      gameType,
+      format,
+      seeding,
+      maxPlayers,
+      buyIn,
+    });
+    setIsSubmitting(false);
+
+    if (!tournament) {
+      setError(createError);
+      return;
+    }
+
+    onCreated(tournament);
+  };
+
+  return (
+    <Modal open={isOpen} onClose={onClose}>
+      <ModalContent size="lg">
+        <ModalHeader>
+          <div className="flex items-center gap-3">
+            <div className="w-12 h-12 rounded-xl bg-(--color-warning)/20 flex items-center justify-center">
+              <Trophy className="text-(--color-warning)" size={24} />
+            </div>
+            <div>
+              <ModalTitle>Crear torneo</ModalTitle>
+              <ModalDescription>Las salas se crean solas para cada cruce</ModalDescription>
+            </div>
+          </div>
+        </ModalHeader>
+
+        <form onSubmit={handleSubmit}>
+          <ModalBody className="space-y-5">
+            <div className="space-y-2">
+              <label htmlFor="tournament-name" className="text-sm font-medium text-(--color-text)">
+                Nombre
+              </label>
+              <input
+                id="tournament-name"
+                type="text"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="Copa del viernes"
+                maxLength={60}
+                className={cn(
+                  'w-full px-4 py-3 rounded-xl',
+                  'bg-(--color-background) border border-(--color-border)',
+                  'text-sm text-(--color-text) placeholder:text-(--color-text-subtle)',
+                  'focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-(--color-primary) focus-visible:ring-offset-2',
+                  'transition-all duration-200'
+                )}
+                required
+                minLength={3}
+              />
+            </div>
+
+            <OptionGroup
+              label="Juego"
+              options={games.map((game) => ({ value: game.slug, label: `${game.icon} ${game.name}` }))}
+              value={gameType}
+              onChange={setGameType}
+            />
+
+            <OptionGroup
+              label="Formato"
+              options={(Object.keys(FORMAT_LABELS) as TournamentFormat[]).map((value) => ({ value, label: FORMAT_LABELS[value] }))}
+              value={format}
+              onChange={setFormat}
+            />
+
+            <OptionGroup
+              label="Siembra"
+              options={(Object.keys(SEEDING_LABELS) as TournamentSeeding[]).map((value) => ({ value, label: SEEDING_LABELS[value] }))}
+              value={seeding}
+              onChange={setSeeding}
+            />
+
+            <OptionGroup
+              label="Jugadores máximos"
+              options={PLAYER_COUNT_OPTIONS.map((value) => ({ value, label: String(value) }))}
+              value={maxPlayers}
+              onChange={setMaxPlayers}
+            />
+
+            <div className="space-y-2">
+              <label htmlFor="tournament-buy-in" className="text-sm font-medium text-(--color-text)">
+                Inscripción (opcional)
+              </label>
+              <div className="relative">
+                <Coins size={16} className="absolute left-4 top-1/2 -translate-y-1/2 text-(--color-text-muted)" />
+                <input
+                  id="tournament-buy-in"
+                  type="number"
+                  inputMode="numeric"
+                  min="0"
+                  value={buyInInput}
+                  onChange={(e) => setBuyInInput(e.target.value)}
+                  placeholder="Gratis"
+                  className={cn(
+                    'w-full pl-11 pr-4 py-3 rounded-xl',
+                    'bg-(--color-background) border border-(--color-border)',
+                    'text-sm text-(--color-text) placeholder:text-(--color-text-subtle)',
+                    'focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-(--color-primary) focus-visible:ring-offset-2',
+                    '[appearance:textfield] [&::-webkit-outer-spin-button]:appearance-none [&::-webkit-inner-spin-button]:appearance-none'
+                  )}
+                />
+              </div>
+              <p className="text-xs text-(--color-text-muted)">
+                Cada inscripción va al pozo; el campeón se lleva todo.
+              </p>
+            </div>
+
+            {error && (
+              <p className="text-sm text-(--color-error)" role="alert">{error}</p>
+            )}
+          </ModalBody>
+
+          <ModalFooter>
+            <Button type="button" variant="ghost" onClick={onClose}>
+              Cancelar
+            </Button>
+            <Button type="submit" disabled={!canSubmit} className="gap-2">
+              {isSubmitting && <Loader2 size={16} className="animate-spin" />}
+              Crear torneo
+            </Button>
+          </ModalFooter>
+        </form>
+      </ModalContent>
+    </Modal>
+  );
+}
+
+export default CreateTournamentModal;
@@ -0,0 +1,5 @@
+export { TournamentList } from './tournament-list';
+export { TournamentView } from './tournament-view';
+export { TournamentBracket } from './tournament-bracket';
+export { TournamentStandings } from './tournament-standings';
+export { CreateTournamentModal } from './create-tournament-modal';
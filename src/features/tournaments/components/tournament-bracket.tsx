@@ -0,0 +1,66 @@
+'use client';
+
+import { useMemo } from 'react';
+import { TournamentMatchCard } from './tournament-match-card';
+import type { TournamentMatch, TournamentPlayer } from '../types';
+
+interface TournamentBracketProps {
+  matches: TournamentMatch[];
+  totalRounds: number;
+  gameSlug: string;
+  playersById: Record<string, TournamentPlayer>;
+  currentUserId?: string | null;
+}
+
+// Name of an elimination round counted from the final
+function roundLabel(round: number, totalRounds: number): string {
+  const fromFinal = totalRounds - round;
+  if (fromFinal === 0) return 'Final';
+  if (fromFinal === 1) return 'Semifinales';
+  if (fromFinal === 2) return 'Cuartos de final';
+  if (fromFinal === 3) return 'Octavos de final';
+  return `Ronda ${round}`;
+}
+
+/**
+ * Single-elimination bracket: one column per round, each match centered
+ * between the two matches that feed it.
+ */
+export function TournamentBracket({ matches, totalRounds, gameSlug, playersById, currentUserId }: TournamentBracketProps) {
+  const rounds = useMemo(() => {
+    const byRound: TournamentMatch[][] = Array.from({ length: totalRounds }, () => []);
+    for (const match of matches) {
+      byRound[match.round - 1]?.push(match);
+    }
+    return byRound;
+  }, [matches, totalRounds]);
+
+  return (
+    <div className="w-full overflow-x-auto pb-2">
+      <div className="flex gap-6 min-w-max">
+        {rounds.map((roundMatches, index) => (
+          <div key={index} className="flex flex-col">
+            <p className="mb-3 text-center text-xs font-medium uppercase tracking-wide text-(--color-text-muted)">
+              {roundLabel(index + 1, totalRounds)}
+            </p>
+            {/* justify-around keeps each match level with its two feeders */}
+            <div className="flex flex-1 flex-col justify-around gap-4">
+              {roundMatches.map((match) => (
+                <TournamentMatchCard
+                  key={match.id}
+                  match={match}
+                  gameSlug={gameSlug}
+                  playersById={playersById}
+                  currentUserId={currentUserId}
+                  showByes={match.round === 1}
+                />
+              ))}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export default TournamentBracket;
@@ -0,0 +1,124 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { motion } from 'framer-motion';
+import { Loader2, Plus, RefreshCw, Trophy, Users } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { useAuth } from '@/features/auth';
+import { formatBalance } from '@/features/wallet/store/wallet-store';
+import { useTournaments } from '../hooks/use-tournaments';
+import { CreateTournamentModal } from './create-tournament-modal';
+import { FORMAT_LABELS, STATUS_LABELS } from '../constants';
+import type { GameConfig } from '@/features/games/registry/types';
+
+interface TournamentListProps {
+  /** Games that can be played online */
+  games: GameConfig[];
+}
+
+export function TournamentList({ games }: TournamentListProps) {
+  const router = useRouter();
+  const { isAuthenticated } = useAuth();
+  const { tournaments, isLoading, refetch } = useTournaments();
+  const [isCreateOpen, setIsCreateOpen] = useState(false);
+
+  return (
+    <div className="game-container relative flex flex-col items-center p-4 sm:p-6">
+      <motion.div
+        className="text-center mb-6 sm:mb-8 mt-8"
+        initial={{ opacity: 0, y: -20 }}
+        animate={{ opacity: 1, y: 0 }}
+      >
+        <h1 className="text-2xl sm:text-3xl font-heading font-bold text-(--color-text)">Torneos</h1>
+        <p className="text-sm text-(--color-text-muted) mt-1">Inscríbete o arma tu propio torneo</p>
+      </motion.div>
+
+      <div className="w-full max-w-md space-y-4">
+        <div className="flex items-center justify-between gap-2">
+          <Button
+            onClick={() => setIsCreateOpen(true)}
+            disabled={!isAuthenticated || games.length === 0}
+            className="gap-2"
+          >
+            <Plus size={16} />
+            Crear torneo
+          </Button>
+          <Button variant="ghost" size="icon" scale="subtle" onClick={refetch} aria-label="Actualizar torneos">
+            <RefreshCw size={18} />
+          </Button>
+        </div>
+        {!isAuthenticated && (
+          <p className="text-xs text-(--color-text-muted)">Inicia sesión para crear torneos o inscribirte</p>
+        )}
+
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="animate-spin text-(--color-primary)" size={32} />
+          </div>
+        ) : tournaments.length === 0 ? (
+          <div className="text-center py-8">
+            <Trophy className="mx-auto mb-3 text-(--color-text-muted)" size={40} />
+            <p className="text-(--color-text-muted)">No hay torneos todavía</p>
+          </div>
+        ) : (
+          <div className="space-y-2">
+            {tournaments.map((tournament) => {
+              const game = games.find((config) => config.slug === tournament.game_type);
+              const prizePool = Number(tournament.prize_pool);
+
+              return (
+                <Link
+                  key={tournament.id}
+                  href={`/tournaments/${tournament.id}`}
+                  className="block p-3 rounded-xl border border-(--color-border) bg-(--color-surface) hover:border-(--color-primary) transition-colors"
+                >
+                  <div className="flex items-center justify-between gap-3">
+                    <span className="min-w-0 truncate font-semibold text-(--color-text)">
+                      {game?.icon} {tournament.name}
+                    </span>
+                    <Badge variant={tournament.status === 'in_progress' ? 'success' : tournament.status === 'registration' ? 'primary' : 'outline'}>
+                      {STATUS_LABELS[tournament.status]}
+                    </Badge>
+                  </div>
+                  <div className="flex items-center gap-3 mt-1 text-xs text-(--color-text-muted)">
+                    <span>{FORMAT_LABELS[tournament.format]}</span>
+                    <span className="flex items-center gap-1">
+                      <Users size={12} />
+                      {tournament.player_count}/{tournament.max_players}
+                    </span>
+                    {prizePool > 0 && (
+                      <span className="flex items-center gap-1 text-(--color-warning)">
+                        <Trophy size={12} />
+                        {formatBalance(prizePool)}
+                      </span>
+                    )}
+                    {tournament.status === 'finished' && tournament.winner && (
+                      <span className="truncate">Ganó {tournament.winner.username}</span>
+                    )}
+                  </div>
+                </Link>
+              );
+            })}
+          </div>
+        )}
+      </div>
+
+      {isCreateOpen && (
+        <CreateTournamentModal
+          isOpen={isCreateOpen}
+          onClose={() => setIsCreateOpen(false)}
+          games={games}
+          onCreated={(tournament) => {
+            setIsCreateOpen(false);
+            router.push(`/tournaments/${tournament.id}`);
+          }}
+        />
+      )}
+    </div>
+  );
+}
+
+export default TournamentList;
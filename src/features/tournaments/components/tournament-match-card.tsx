@@ -0,0 +1,99 @@
+'use client';
+
+import Link from 'next/link';
+import { Eye } from 'lucide-react';
+import type { TournamentMatch, TournamentPlayer } from '../types';
+import { cn } from '@/lib/utils/cn';
+
+interface TournamentMatchCardProps {
+  match: TournamentMatch;
+  gameSlug: string;
+  playersById: Record<string, TournamentPlayer>;
+  currentUserId?: string | null;
+  /** Round 1 of an elimination bracket: an empty slot is a bye, not a pending player */
+  showByes?: boolean;
+  className?: string;
+}
+
+interface PlayerRowProps {
+  playerId: string | null;
+  player?: TournamentPlayer;
+  isWinner: boolean;
+  isLoser: boolean;
+  isCurrentUser: boolean;
+  emptyLabel: string;
+}
+
+function PlayerRow({ playerId, player, isWinner, isLoser, isCurrentUser, emptyLabel }: PlayerRowProps) {
+  return (
+    <div
+      className={cn(
+        'flex items-center gap-2 px-3 py-1.5 text-sm',
+        isWinner && 'font-semibold text-(--color-success)',
+        isLoser && 'text-(--color-text-subtle) line-through',
+        !isWinner && !isLoser && 'text-(--color-text)',
+        !playerId && 'italic text-(--color-text-subtle)'
+      )}
+    >
+      {player?.seed && (
+        <span className="w-5 shrink-0 text-xs text-(--color-text-muted) tabular-nums">{player.seed}</span>
+      )}
+      <span className="truncate">
+        {playerId ? player?.profile?.username || 'Jugador' : emptyLabel}
+      </span>
+      {isCurrentUser && <span className="text-xs text-(--color-primary)">(tú)</span>}
+    </div>
+  );
+}
+
+export function TournamentMatchCard({
+  match,
+  gameSlug,
+  playersById,
+  currentUserId,
+  showByes = false,
+  className,
+}: TournamentMatchCardProps) {
+  const isFinished = match.status === 'finished';
+  const emptyLabel = showByes ? 'Pase libre' : 'Por definir';
+
+  const rowFor = (playerId: string | null) => (
+    <PlayerRow
+      playerId={playerId}
+      player={playerId ? playersById[playerId] : undefined}
+      isWinner={isFinished && !!playerId && match.winner_id === playerId}
+      isLoser={isFinished && !!playerId && !match.is_draw && match.winner_id !== playerId}
+      isCurrentUser={!!playerId && playerId === currentUserId}
+      emptyLabel={emptyLabel}
+    />
+  );
+
+  return (
+    <div
+      className={cn(
+        'w-52 rounded-xl border bg-(--color-surface) overflow-hidden',
+        match.status === 'playing' ? 'border-(--color-primary)' : 'border-(--color-border)',
+        className
+      )}
+    >
+      {rowFor(match.player1_id)}
+      <div className="border-t border-(--color-border)/50" />
+      {rowFor(match.player2_id)}
+
+      {match.status === 'playing' && match.room_id && (
+        <Link
+          href={`/games/${gameSlug}/watch?room=${match.room_id}`}
+          className="flex items-center justify-center gap-1 py-1 text-xs bg-(--color-primary)/10 text-(--color-primary) hover:bg-(--color-primary)/20"
+        >
+          <Eye size={12} />
+          En juego · Mirar
+        </Link>
+      )}
+      {isFinished && match.is_draw && (
+        <p className="py-1 text-center text-xs bg-(--color-warning)/10 text-(--color-warning)">Empate</p>
+      )}
+    </div>
+  );
+}
+
+export default TournamentMatchCard;
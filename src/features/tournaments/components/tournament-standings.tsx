@@ -0,0 +1,108 @@
+'use client';
+
+import { useMemo } from 'react';
+import { TournamentMatchCard } from './tournament-match-card';
+import type { TournamentMatch, TournamentPlayer } from '../types';
+import { cn } from '@/lib/utils/cn';
+
+interface TournamentStandingsProps {
+  players: TournamentPlayer[];
+  matches: TournamentMatch[];
+  currentRound: number;
+  gameSlug: string;
+  playersById: Record<string, TournamentPlayer>;
+  currentUserId?: string | null;
+}
+
+/**
+ * Round-robin view: points table plus every round's pairings.
+ * Same tiebreak as the server: points, then wins, then seed.
+ */
+export function TournamentStandings({
+  players,
+  matches,
+  currentRound,
+  gameSlug,
+  playersById,
+  currentUserId,
+}: TournamentStandingsProps) {
+  const standings = useMemo(
+    () => [...players].sort((a, b) =>
+      Number(b.points) - Number(a.points) ||
+      b.wins - a.wins ||
+      (a.seed ?? Infinity) - (b.seed ?? Infinity)
+    ),
+    [players]
+  );
+
+  const rounds = useMemo(() => {
+    const byRound = new Map<number, TournamentMatch[]>();
+    for (const match of matches) {
+      byRound.set(match.round, [...(byRound.get(match.round) ?? []), match]);
+    }
+    return [...byRound.entries()].sort(([a], [b]) => a - b);
+  }, [matches]);
+
+  return (
+    <div className="space-y-6">
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-xs text-(--color-text-muted) border-b border-(--color-border)">
+            <th className="py-2 text-left font-medium">#</th>
+            <th className="py-2 text-left font-medium">Jugador</th>
+            <th className="py-2 text-right font-medium">G</th>
+            <th className="py-2 text-right font-medium">E</th>
+            <th className="py-2 text-right font-medium">P</th>
+            <th className="py-2 text-right font-medium">Pts</th>
+          </tr>
+        </thead>
+        <tbody>
+          {standings.map((player, index) => (
+            <tr
+              key={player.user_id}
+              className={cn(
+                'border-b border-(--color-border)/40',
+                player.user_id === currentUserId && 'bg-(--color-primary)/10'
+              )}
+            >
+              <td className="py-2 tabular-nums text-(--color-text-muted)">{index + 1}</td>
+              <td className="py-2 font-medium text-(--color-text) truncate">{player.profile?.username || 'Jugador'}</td>
+              <td className="py-2 text-right tabular-nums">{player.wins}</td>
+              <td className="py-2 text-right tabular-nums">{player.draws}</td>
+              <td className="py-2 text-right tabular-nums">{player.losses}</td>
+              <td className="py-2 text-right tabular-nums font-semibold">{Number(player.points)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      <div className="space-y-4">
+        {rounds.map(([round, roundMatches]) => (
+          <div key={round}>
+            <p
+              className={cn(
+                'mb-2 text-xs font-medium uppercase tracking-wide',
+                round === currentRound ? 'text-(--color-primary)' : 'text-(--color-text-muted)'
+              )}
+            >
+              Ronda {round}
+            </p>
+            <div className="flex flex-wrap gap-3">
+              {roundMatches.map((match) => (
+                <TournamentMatchCard
+                  key={match.id}
+                  match={match}
+                  gameSlug={gameSlug}
+                  playersById={playersById}
+                  currentUserId={currentUserId}
+                />
+              ))}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export default TournamentStandings;
@@ -0,0 +1,199 @@
+'use client';
+
+import { useMemo } from 'react';
+import Link from 'next/link';
+import { ArrowLeft, Coins, Crown, Loader2, Play, Trophy, Users } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { useAuth } from '@/features/auth';
+import { formatBalance } from '@/features/wallet/store/wallet-store';
+import { useTournament } from '../hooks/use-tournament';
+import { TournamentBracket } from './tournament-bracket';
+import { TournamentStandings } from './tournament-standings';
+import { FORMAT_LABELS, SEEDING_LABELS, STATUS_LABELS } from '../constants';
+import type { TournamentPlayer } from '../types';
+import type { GameConfig } from '@/features/games/registry/types';
+
+interface TournamentViewProps {
+  tournamentId: string;
+  /** Games that can be played online (to show the tournament's game) */
+  games: GameConfig[];
+}
+
+export function TournamentView({ tournamentId, games }: TournamentViewProps) {
+  const { user } = useAuth();
+  const {
+    tournament,
+    players,
+    matches,
+    isLoading,
+    isActing,
+    actionError,
+    isJoined,
+    isOrganizer,
+    myActiveMatch,
+    join,
+    leave,
+    start,
+    cancel,
+  } = useTournament({ tournamentId, userId: user?.id });
+
+  const playersById = useMemo(
+    () => Object.fromEntries(players.map((player) => [player.user_id, player])) as Record<string, TournamentPlayer>,
+    [players]
+  );
+
+  const game = games.find((config) => config.slug === tournament?.game_type);
+  const buyIn = Number(tournament?.buy_in ?? 0);
+  const prizePool = Number(tournament?.prize_pool ?? 0);
+  const isFull = !!tournament && players.length >= tournament.max_players;
+
+  return (
+    <div className="game-container relative flex flex-col items-center p-4 sm:p-6">
+      <Link
+        href="/tournaments"
+        className="absolute top-2 left-2 sm:top-4 sm:left-4 flex items-center gap-2 px-3 h-10 text-sm text-(--color-text-muted) hover:text-(--color-text)"
+      >
+        <ArrowLeft size={18} />
+        <span className="hidden sm:inline">Torneos</span>
+      </Link>
+
+      {isLoading ? (
+        <div className="flex flex-1 items-center justify-center py-16">
+          <Loader2 className="animate-spin text-(--color-primary)" size={32} />
+        </div>
+      ) : !tournament ? (
+        <p className="text-(--color-text-muted) py-16">El torneo no existe</p>
+      ) : (
+        <div className="w-full max-w-5xl space-y-6 mt-10">
+          {/* Header */}
+          <div className="text-center space-y-2">
+            <h1 className="text-2xl sm:text-3xl font-heading font-bold text-(--color-text)">
+              {game?.icon} {tournament.name}
+            </h1>
+            <div className="flex flex-wrap items-center justify-center gap-2">
+              <Badge variant={tournament.status === 'in_progress' ? 'success' : tournament.status === 'registration' ? 'primary' : 'outline'}>
+                {STATUS_LABELS[tournament.status]}
+              </Badge>
+              <Badge variant="outline">{game?.name ?? tournament.game_type}</Badge>
+              <Badge variant="outline">{FORMAT_LABELS[tournament.format]}</Badge>
+              <Badge variant="outline">Siembra {SEEDING_LABELS[tournament.seeding].toLowerCase()}</Badge>
+            </div>
+            <div className="flex flex-wrap items-center justify-center gap-4 text-sm text-(--color-text-muted)">
+              <span className="flex items-center gap-1">
+                <Users size={16} />
+                {players.length}/{tournament.max_players}
+              </span>
+              <span className="flex items-center gap-1">
+                <Coins size={16} />
+                {buyIn > 0 ? `Inscripción ${formatBalance(buyIn)}` : 'Gratis'}
+              </span>
+              {prizePool > 0 && (
+                <span className="flex items-center gap-1 text-(--color-warning)">
+                  <Trophy size={16} />
+                  Pozo {formatBalance(prizePool)}
+                </span>
+              )}
+              <span>Organiza {tournament.organizer?.username || 'Jugador'}</span>
+            </div>
+          </div>
+
+          {/* Champion */}
+          {tournament.status === 'finished' && tournament.winner && (
+            <div className="flex items-center justify-center gap-2 p-4 rounded-xl bg-(--color-warning)/10 text-(--color-warning)">
+              <Crown size={20} />
+              <span className="font-semibold">Campeón: {tournament.winner.username}</span>
+              {prizePool > 0 && <span>· {formatBalance(prizePool)}</span>}
+            </div>
+          )}
+
+          {/* Current user's match */}
+          {myActiveMatch && game && (
+            <div className="flex flex-col sm:flex-row items-center justify-between gap-3 p-4 rounded-xl border border-(--color-primary) bg-(--color-primary)/10">
+              <p className="text-sm text-(--color-text)">
+                Tu partida de la ronda {myActiveMatch.round} está lista
+              </p>
+              <Link href={`/games/${game.slug}`}>
+                <Button size="sm" className="gap-2">
+                  <Play size={16} />
+                  Jugar
+                </Button>
+              </Link>
+            </div>
+          )}
+
+          {/* Registration actions */}
+          {tournament.status === 'registration' && (
+            <div className="flex flex-col items-center gap-3">
+              <div className="flex flex-wrap justify-center gap-2">
+                {!user ? (
+                  <p className="text-sm text-(--color-text-muted)">Inicia sesión para inscribirte</p>
+                ) : isJoined ? (
+                  <Button variant="outline" onClick={leave} disabled={isActing}>
+                    Cancelar inscripción
+                  </Button>
+                ) : (
+                  <Button onClick={join} disabled={isActing || isFull}>
+                    {isFull ? 'Torneo completo' : buyIn > 0 ? `Inscribirme (${formatBalance(buyIn)})` : 'Inscribirme'}
+                  </Button>
+                )}
+                {isOrganizer && (
+                  <>
+                    <Button variant="primary" onClick={start} disabled={isActing || players.length < 2}>
+                      Iniciar torneo
+                    </Button>
+                    <Button variant="ghost" onClick={cancel} disabled={isActing}>
+                      Cancelar torneo
+                    </Button>
+                  </>
+                )}
+              </div>
+              {actionError && (
+                <p className="text-sm text-(--color-error)" role="alert">{actionError}</p>
+              )}
+            </div>
+          )}
+
+          {/* Players before the draw, bracket or standings after */}
+          {tournament.status === 'registration' || tournament.status === 'cancelled' ? (
+            <div className="mx-auto max-w-md space-y-2">
+              <p className="text-sm font-medium text-(--color-text)">Inscritos</p>
+              {players.length === 0 ? (
+                <p className="text-sm text-(--color-text-muted)">Todavía no hay inscritos</p>
+              ) : (
+                players.map((player) => (
+                  <div
+                    key={player.user_id}
+                    className="flex items-center justify-between p-3 rounded-xl border border-(--color-border) bg-(--color-surface) text-sm"
+                  >
+                    <span className="font-medium text-(--color-text)">{player.profile?.username || 'Jugador'}</span>
+                    {player.user_id === user?.id && <span className="text-xs text-(--color-primary)">(tú)</span>}
+                  </div>
+                ))
+              )}
+            </div>
+          ) : tournament.format === 'single_elimination' ? (
+            <TournamentBracket
+              matches={matches}
+              totalRounds={tournament.total_rounds ?? 0}
+              gameSlug={tournament.game_type}
+              playersById={playersById}
+              currentUserId={user?.id}
+            />
+          ) : (
+            <TournamentStandings
+              players={players}
+              matches={matches}
+              currentRound={tournament.current_round}
+              gameSlug={tournament.game_type}
+              playersById={playersById}
+              currentUserId={user?.id}
+            />
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default TournamentView;
@@ -0,0 +1,21 @@
+import type { TournamentFormat, TournamentSeeding, TournamentStatus } from './types';
+
+export const FORMAT_LABELS: Record<TournamentFormat, string> = {
+  single_elimination: 'Eliminación directa',
+  round_robin: 'Todos contra todos',
+};
+
+export const SEEDING_LABELS: Record<TournamentSeeding, string> = {
+  rating: 'Por rating',
+  random: 'Al azar',
+};
+
+export const STATUS_LABELS: Record<TournamentStatus, string> = {
+  registration: 'Inscripciones abiertas',
+  in_progress: 'En juego',
+  finished: 'Terminado',
+  cancelled: 'Cancelado',
+};
+
+// Cupos ofrecidos al crear un torneo (el servidor acepta de 2 a 32)
+export const PLAYER_COUNT_OPTIONS = [4, 8, 16, 32];
@@ -0,0 +1,105 @@
+'use client';
+
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { tournamentService } from '../services/tournament-service';
+import { useWalletStore } from '@/features/wallet/store/wallet-store';
+import { friendsService } from '@/features/friends';
+import type { Tournament, TournamentWithDetails, TournamentPlayer, TournamentMatch } from '../types';
+
+// Results advance on the server; poll while the page is open
+const REFRESH_INTERVAL_MS = 10000;
+
+type TournamentAction = (tournamentId: string) => Promise<{ tournament: Tournament | null; error: string | null }>;
+
+interface UseTournamentOptions {
+  tournamentId: string;
+  userId?: string | null;
+}
+
+export function useTournament({ tournamentId, userId }: UseTournamentOptions) {
+  const [tournament, setTournament] = useState<TournamentWithDetails | null>(null);
+  const [players, setPlayers] = useState<TournamentPlayer[]>([]);
+  const [matches, setMatches] = useState<TournamentMatch[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isActing, setIsActing] = useState(false);
+  const [actionError, setActionError] = useState<string | null>(null);
+
+  const loadTournament = useCallback(async () => {
+    const [nextTournament, nextPlayers, nextMatches] = await Promise.all([
+      tournamentService.getTournament(tournamentId),
+      tournamentService.getPlayers(tournamentId),
+      tournamentService.getMatches(tournamentId),
+    ]);
+    setTournament(nextTournament);
+    setPlayers(nextPlayers);
+    setMatches(nextMatches);
+    setIsLoading(false);
+  }, [tournamentId]);
+
+  useEffect(() => {
+    // eslint-disable-next-line react-hooks/set-state-in-effect -- initial fetch
+    loadTournament();
+    const interval = setInterval(loadTournament, REFRESH_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [loadTournament]);
+
+  // Run an RPC, then reload the tournament and the balance (buy-ins and refunds)
+  const runAction = useCallback(async (action: TournamentAction) => {
+    setIsActing(true);
+    setActionError(null);
+    const { error } = await action(tournamentId);
+    if (error) {
+      setActionError(error);
+    }
+    await Promise.all([loadTournament(), useWalletStore.getState().refreshWallet()]);
+    setIsActing(false);
+  }, [tournamentId, loadTournament]);
+
+  // Start, then nudge the other players' inboxes so they hear about it on any page
+  const start = useCallback(() => runAction(async (id) => {
+    const result = await tournamentService.startTournament(id);
+    if (result.tournament && userId) {
+      players
+        .filter((player) => player.user_id !== userId)
+        .forEach((player) => friendsService.notifyUser(player.user_id, {
+          kind: 'tournament_start',
+          from: userId,
+          tournamentId: id,
+        }));
+    }
+    return result;
+  }), [runAction, players, userId]);
+
+  const isJoined = useMemo(
+    () => !!userId && players.some((player) => player.user_id === userId),
+    [players, userId]
+  );
+
+  // The current user's match that has a room in progress
+  const myActiveMatch = useMemo(
+    () => matches.find((match) =>
+      match.status === 'playing' && !!userId &&
+      (match.player1_id === userId || match.player2_id === userId)
+    ) ?? null,
+    [matches, userId]
+  );
+
+  return {
+    tournament,
+    players,
+    matches,
+    isLoading,
+    isActing,
+    actionError,
+    isJoined,
+    isOrganizer: !!userId && tournament?.created_by === userId,
+    myActiveMatch,
+    join: () => runAction((id) => tournamentService.joinTournament(id)),
+    leave: () => runAction((id) => tournamentService.leaveTournament(id)),
+    start,
+    cancel: () => runAction((id) => tournamentService.cancelTournament(id)),
+    refetch: loadTournament,
+  };
+}
+
+export default useTournament;
@@ -0,0 +1,33 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { tournamentService } from '../services/tournament-service';
+import type { TournamentWithDetails } from '../types';
+
+// Refresh the list while the page is open
+const REFRESH_INTERVAL_MS = 15000;
+
+export function useTournaments() {
+  const [tournaments, setTournaments] = useState<TournamentWithDetails[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const loadTournaments = useCallback(async () => {
+    setTournaments(await tournamentService.listTournaments());
+    setIsLoading(false);
+  }, []);
+
+  useEffect(() => {
+    // eslint-disable-next-line react-hooks/set-state-in-effect -- initial fetch
+    loadTournaments();
+    const interval = setInterval(loadTournaments, REFRESH_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [loadTournaments]);
+
+  return {
+    tournaments,
+    isLoading,
+    refetch: loadTournaments,
+  };
+}
+
+export default useTournaments;
@@ -0,0 +1,13 @@
+export { tournamentService } from './services/tournament-service';
+export { useTournaments } from './hooks/use-tournaments';
+export { useTournament } from './hooks/use-tournament';
+export { TournamentList, TournamentView, TournamentBracket, TournamentStandings, CreateTournamentModal } from './components';
+export type {
+  Tournament,
+  TournamentWithDetails,
+  TournamentPlayer,
+  TournamentMatch,
+  TournamentFormat,
+  TournamentSeeding,
+  TournamentStatus,
+} from './types';
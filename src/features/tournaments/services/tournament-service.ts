@@ -0,0 +1,217 @@
+'use client';
+
+import { getClient } from '@/lib/supabase/client';
+import { createLogger } from '@/lib/utils/logger';
+import type {
+  Tournament,
+  TournamentWithDetails,
+  TournamentPlayer,
+  TournamentMatch,
+  TournamentStatus,
+  CreateTournamentInput,
+} from '../types';
+
+const log = createLogger({ prefix: 'TournamentService' });
+
+// Mensajes de las excepciones de las funciones SQL (ver 021_tournaments.sql)
+const RPC_ERROR_MESSAGES: Record<string, string> = {
+  'Not authenticated': 'Usuario no autenticado',
+  'Tournament not found': 'Torneo no encontrado',
+  'Registration is closed': 'Las inscripciones están cerradas',
+  'Tournament is full': 'El torneo está completo',
+  'Insufficient balance': 'Saldo insuficiente para la inscripción',
+  'Player not in tournament': 'No estás inscrito en este torneo',
+  'Not enough players': 'Se necesitan al menos 2 jugadores',
+  'Tournament already started': 'El torneo ya empezó',
+  'Only the organizer can start the tournament': 'Solo el organizador puede iniciar el torneo',
+  'Only the organizer can cancel the tournament': 'Solo el organizador puede cancelar el torneo',
+  'Game does not support online play': 'Este juego no se puede jugar online',
+};
+
+type TournamentResult = { tournament: Tournament | null; error: string | null };
+
+// Fila del listado con el conteo agregado de inscritos
+type TournamentListRow = Omit<TournamentWithDetails, 'player_count'> & {
+  tournament_players: { count: number }[] | null;
+};
+
+const TOURNAMENT_SELECT = `
+  *,
+  organizer:profiles!tournaments_created_by_fkey(id, username, avatar_url),
+  winner:profiles!tournaments_winner_id_fkey(id, username, avatar_url),
+  tournament_players(count)
+`;
+
+function toTournamentWithDetails(row: TournamentListRow): TournamentWithDetails {
+  const { tournament_players, ...tournament } = row;
+  return {
+    ...tournament,
+    player_count: tournament_players?.[0]?.count ?? 0,
+  };
+}
+
+function rpcErrorMessage(error: { message: string }, fallback: string): string {
+  return RPC_ERROR_MESSAGES[error.message] ?? fallback;
+}
+
+class TournamentService {
+  private get supabase() {
+    return getClient();
+  }
+
+  // Listar torneos (abiertos y en juego primero, después los terminados)
+  async listTournaments(
+    statuses: TournamentStatus[] = ['registration', 'in_progress', 'finished'],
+    limit: number = 30
+  ): Promise<TournamentWithDetails[]> {
+    const { data, error } = await this.supabase
+      .from('tournaments')
+      .select(TOURNAMENT_SELECT)
+      .in('status', statuses)
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      log.error('Error listing tournaments:', error);
+      return [];
+    }
+
+    return (data as unknown as TournamentListRow[]).map(toTournamentWithDetails);
+  }
+
+  // Obtener torneo por ID
+  async getTournament(tournamentId: string): Promise<TournamentWithDetails | null> {
+    const { data, error } = await this.supabase
+      .from('tournaments')
+      .select(TOURNAMENT_SELECT)
+      .eq('id', tournamentId)
+      .single();
+
+    if (error) {
+      log.error('Error getting tournament:', error);
+      return null;
+    }
+
+    return toTournamentWithDetails(data as unknown as TournamentListRow);
+  }
+
+  // Inscritos con su perfil, en orden de siembra (o de inscripción antes de empezar)
+  async getPlayers(tournamentId: string): Promise<TournamentPlayer[]> {
+    const { data, error } = await this.supabase
+      .from('tournament_players')
+      .select(`
+        *,
+        profile:profiles!tournament_players_user_id_fkey(id, username, avatar_url)
+      `)
+      .eq('tournament_id', tournamentId)
+      .order('seed', { ascending: true, nullsFirst: false })
+      .order('joined_at', { ascending: true });
+
+    if (error) {
+      log.error('Error getting tournament players:', error);
+      return [];
+    }
+
+    return data as TournamentPlayer[];
+  }
+
+  // Cruces del cuadro, por ronda y posición
+  async getMatches(tournamentId: string): Promise<TournamentMatch[]> {
+    const { data, error } = await this.supabase
+      .from('tournament_matches')
+      .select('*')
+      .eq('tournament_id', tournamentId)
+      .order('round', { ascending: true })
+      .order('position', { ascending: true });
+
+    if (error) {
+      log.error('Error getting tournament matches:', error);
+      return [];
+    }
+
+    return data as TournamentMatch[];
+  }
+
+  // Crear torneo (el organizador se inscribe aparte)
+  async createTournament(input: CreateTournamentInput): Promise<TournamentResult> {
+    // @ts-expect-error - Supabase RPC types require CLI regeneration (supabase gen types)
+    const { data, error } = await this.supabase.rpc('create_tournament', {
+      p_name: input.name,
+      p_game_type: input.gameType,
+      p_format: input.format,
+      p_seeding: input.seeding,
+      p_max_players: input.maxPlayers,
+      p_buy_in: input.buyIn,
+    });
+
+    if (error) {
+      log.error('Error creating tournament:', error);
+      return { tournament: null, error: rpcErrorMessage(error, 'No se pudo crear el torneo') };
+    }
+
+    return { tournament: data as Tournament, error: null };
+  }
+
+  // Inscribirse (descuenta el buy-in en el servidor)
+  async joinTournament(tournamentId: string): Promise<TournamentResult> {
+    // @ts-expect-error - Supabase RPC types require CLI regeneration (supabase gen types)
+    const { data, error } = await this.supabase.rpc('join_tournament', {
+      p_tournament_id: tournamentId,
+    });
+
+    if (error) {
+      log.error('Error joining tournament:', error);
+      return { tournament: null, error: rpcErrorMessage(error, 'No se pudo completar la inscripción') };
+    }
+
+    return { tournament: data as Tournament, error: null };
+  }
+
+  // Desinscribirse antes de que empiece (reembolsa el buy-in)
+  async leaveTournament(tournamentId: string): Promise<TournamentResult> {
+    // @ts-expect-error - Supabase RPC types require CLI regeneration (supabase gen types)
+    const { data, error } = await this.supabase.rpc('leave_tournament', {
+      p_tournament_id: tournamentId,
+    });
+
+    if (error) {
+      log.error('Error leaving tournament:', error);
+      return { tournament: null, error: rpcErrorMessage(error, 'No se pudo cancelar la inscripción') };
+    }
+
+    return { tournament: data as Tournament, error: null };
+  }
+
+  // Iniciar: el servidor siembra, arma el cuadro y crea las salas de la primera ronda
+  async startTournament(tournamentId: string): Promise<TournamentResult> {
+    // @ts-expect-error - Supabase RPC types require CLI regeneration (supabase gen types)
+    const { data, error } = await this.supabase.rpc('start_tournament', {
+      p_tournament_id: tournamentId,
+    });
+
+    if (error) {
+      log.error('Error starting tournament:', error);
+      return { tournament: null, error: rpcErrorMessage(error, 'No se pudo iniciar el torneo') };
+    }
+
+    return { tournament: data as Tournament, error: null };
+  }
+
+  // Cancelar antes de empezar (reembolsa a todos los inscritos)
+  async cancelTournament(tournamentId: string): Promise<TournamentResult> {
+    // @ts-expect-error - Supabase RPC types require CLI regeneration (supabase gen types)
+    const { data, error } = await this.supabase.rpc('cancel_tournament', {
+      p_tournament_id: tournamentId,
+    });
+
+    if (error) {
+      log.error('Error cancelling tournament:', error);
+      return { tournament: null, error: rpcErrorMessage(error, 'No se pudo cancelar el torneo') };
+    }
+
+    return { tournament: data as Tournament, error: null };
+  }
+}
+
+export const tournamentService = new TournamentService();
+export default tournamentService;
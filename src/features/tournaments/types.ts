@@ -0,0 +1,77 @@
+export type TournamentFormat = 'single_elimination' | 'round_robin';
+
+export type TournamentSeeding = 'rating' | 'random';
+
+export type TournamentStatus = 'registration' | 'in_progress' | 'finished' | 'cancelled';
+
+export type TournamentMatchStatus = 'pending' | 'playing' | 'finished';
+
+export interface TournamentProfile {
+  id: string;
+  username: string;
+  avatar_url: string | null;
+}
+
+export interface Tournament {
+  id: string;
+  name: string;
+  game_type: string;
+  format: TournamentFormat;
+  seeding: TournamentSeeding;
+  status: TournamentStatus;
+  max_players: number;
+  buy_in: number;
+  prize_pool: number;
+  // Ronda en juego (0 = sin empezar); total_rounds se calcula al iniciar
+  current_round: number;
+  total_rounds: number | null;
+  created_by: string;
+  winner_id: string | null;
+  created_at: string;
+  started_at: string | null;
+  finished_at: string | null;
+}
+
+export interface TournamentWithDetails extends Tournament {
+  organizer?: TournamentProfile;
+  winner?: TournamentProfile | null;
+  player_count: number;
+}
+
+export interface TournamentPlayer {
+  tournament_id: string;
+  user_id: string;
+  seed: number | null;
+  points: number;
+  wins: number;
+  losses: number;
+  draws: number;
+  is_eliminated: boolean;
+  joined_at: string;
+  profile?: TournamentProfile;
+}
+
+export interface TournamentMatch {
+  id: string;
+  tournament_id: string;
+  round: number;
+  position: number;
+  // null = jugador todavía sin definir (o pase libre en la primera ronda)
+  player1_id: string | null;
+  player2_id: string | null;
+  room_id: string | null;
+  status: TournamentMatchStatus;
+  winner_id: string | null;
+  is_draw: boolean;
+  created_at: string;
+  finished_at: string | null;
+}
+
+export interface CreateTournamentInput {
+  name: string;
+  gameType: string;
+  format: TournamentFormat;
+  seeding: TournamentSeeding;
+  maxPlayers: number;
+  buyIn: number;
+}
@@ -66,7 +66,7 @@ export function WalletModal({ isOpen, onClose }: WalletModalProps) {
     loadMoreTransactions,
     isLoadingMore,
     hasMoreTransactions,
-    addCredits,
+    claimDailyBonus,
     error,
   } = useWalletStore();
 
@@ -79,7 +79,7 @@ export function WalletModal({ isOpen, onClose }: WalletModalProps) {
   const handleAddCredits = async () => {
     setIsAddingCredits(true);
     try {
-      await addCredits(1000, 'Bonificacion diaria');
+      await claimDailyBonus();
     } finally {
       setIsAddingCredits(false);
     }
@@ -157,7 +157,7 @@ export function WalletModal({ isOpen, onClose }: WalletModalProps) {
                 </div>
               )}
 
-              {/* Add Credits */}
+              {/* Daily bonus (once every 24 hours) */}
               <Button
                 variant="primary"
                 className="w-full"
@@ -167,7 +167,7 @@ export function WalletModal({ isOpen, onClose }: WalletModalProps) {
                 loading={isAddingCredits}
                 icon={<Plus size={20} />}
               >
-                Obtener 1000 creditos gratis
+                Reclamar 1000 creditos diarios
               </Button>
 
               <p className="text-xs text-center text-(--color-text-subtle)">
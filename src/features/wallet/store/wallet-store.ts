@@ -2,15 +2,13 @@
 
 import { create } from 'zustand';
 import { getClient } from '@/lib/supabase/client';
-import type { InsertTables, UpdateTables } from '@/types/supabase.types';
-import type { Wallet, WalletTransaction, WalletRow, WalletTransactionRow, TransactionType } from '../types';
+import type { InsertTables } from '@/types/supabase.types';
+import type { Wallet, WalletTransaction, WalletRow, WalletTransactionRow } from '../types';
 import { validateWalletRow, validateWalletTransactionRows } from '@/lib/validators/database-rows';
 import { walletLogger } from '@/lib/utils/logger';
 
 // Use Supabase generated types for database operations
 type WalletInsert = InsertTables<'wallets'>;
-type WalletUpdate = UpdateTables<'wallets'>;
-type WalletTransactionInsert = InsertTables<'wallet_transactions'>;
 
 interface WalletState {
   wallet: Wallet | null;
@@ -22,11 +20,11 @@ interface WalletState {
 
   // Actions
   loadWallet: (userId: string) => Promise<void>;
+  refreshWallet: () => Promise<void>;
   loadTransactions: (limit?: number) => Promise<void>;
   loadMoreTransactions: (limit?: number) => Promise<void>;
-  placeBet: (amount: number, gameSlug: string, description?: string) => Promise<boolean>;
-  recordWin: (amount: number, gameSlug: string, description?: string) => Promise<boolean>;
-  addCredits: (amount: number, description?: string) => Promise<boolean>;
+  claimDailyBonus: () => Promise<boolean>;
+  setBalance: (balance: number) => void;
   reset: () => void;
 }
 
@@ -63,11 +61,9 @@ const pendingOperations = new Set<string>();
 let walletLoadPromise: Promise<void> | null = null;
 let walletLoadUserId: string | null = null;
 
-// Constants for retry logic
+// Constants for local operation lock
 const MAX_LOCK_WAIT_MS = 5000;
 const LOCK_CHECK_INTERVAL_MS = 50;
-const MAX_TRANSACTION_RETRIES = 3;
-const RETRY_DELAY_MS = 100;
 
 // Generate unique operation ID
 function generateOperationId(type: string): string {
@@ -103,15 +99,6 @@ async function withWalletLock<T>(
   }
 }
 
-// Transaction execution parameters
-interface TransactionParams {
-  type: TransactionType;
-  amount: number;
-  description: string;
-  gameSlug?: string;
-  errorMessage: string;
-}
-
 // Helper to fetch fresh wallet
 async function fetchFreshWallet(supabase: ReturnType<typeof getClient>, walletId: string): Promise<Wallet | null> {
   const { data } = await supabase
@@ -123,124 +110,10 @@ async function fetchFreshWallet(supabase: ReturnType<typeof getClient>, walletId
   return data ? rowToWallet(validateWalletRow(data, 'fetchFreshWallet')) : null;
 }
 
-// Generic wallet transaction executor with retry logic
-async function executeWalletTransaction(
-  wallet: Wallet,
-  params: TransactionParams,
-  set: (state: Partial<WalletState>) => void,
-  _get: () => WalletState
-): Promise<{ success: boolean; newBalance?: number }> {
-  void _get; // Reserved for future retry logic
-  const supabase = getClient();
-
-  // Validate sufficient balance for bets
-  if (params.type === 'bet' && wallet.balance < Math.abs(params.amount)) {
-    set({ error: 'Saldo insuficiente' });
-    return { success: false };
-  }
-
-  let retries = 0;
-  let currentWallet = wallet;
-
-  while (retries < MAX_TRANSACTION_RETRIES) {
-    const expectedBalance = currentWallet.balance;
-    const balanceChange = params.type === 'bet' ? -Math.abs(params.amount) : Math.abs(params.amount);
-    const newBalance = expectedBalance + balanceChange;
-
-    // Re-validate balance on retry
-    if (params.type === 'bet' && currentWallet.balance < Math.abs(params.amount)) {
-      set({ error: 'Saldo insuficiente' });
-      return { success: false };
-    }
-
-    try {
-      // Update wallet balance with optimistic locking
-      const updateData = {
-        balance: newBalance,
-        updated_at: new Date().toISOString(),
-      } satisfies WalletUpdate;
-
-      // Type assertion needed due to Supabase SSR client type inference issue
-      // Our WalletUpdate type matches Database['public']['Tables']['wallets']['Update']
-      const { data: updatedWallet, error: walletError } = await (supabase
-        .from('wallets') as ReturnType<typeof supabase.from>)
-        .update(updateData)
-        .eq('id', currentWallet.id)
-        .eq('balance', expectedBalance) // Optimistic lock
-        .select()
-        .single();
-
-      if (walletError || !updatedWallet) {
-        // Balance changed concurrently - fetch fresh and retry
-        const freshWallet = await fetchFreshWallet(supabase, currentWallet.id);
-        if (freshWallet) {
-          set({ wallet: freshWallet });
-          currentWallet = freshWallet;
-        }
-
-        retries++;
-        if (retries < MAX_TRANSACTION_RETRIES) {
-          await new Promise(resolve => setTimeout(resolve, RETRY_DELAY_MS * retries));
-          continue;
-        }
-
-        set({ error: 'Balance cambió, intenta de nuevo' });
-        return { success: false };
-      }
-
-      // Record transaction
-      const txData = {
-        wallet_id: currentWallet.id,
-        type: params.type,
-        amount: balanceChange,
-        balance_after: newBalance,
-        description: params.description,
-        ...(params.gameSlug && { game_slug: params.gameSlug }),
-      } satisfies WalletTransactionInsert;
-
-      const { error: txError } = await (supabase
-        .from('wallet_transactions') as ReturnType<typeof supabase.from>)
-        .insert(txData);
-
-      if (txError) {
-        // Rollback wallet balance - use optimistic locking for safety
-        const rollbackData = {
-          balance: expectedBalance,
-          updated_at: new Date().toISOString(),
-        } satisfies WalletUpdate;
-
-        await (supabase
-          .from('wallets') as ReturnType<typeof supabase.from>)
-          .update(rollbackData)
-          .eq('id', currentWallet.id)
-          .eq('balance', newBalance); // Only rollback if balance is still what we set
-
-        // Fetch fresh state after rollback attempt
-        const freshWallet = await fetchFreshWallet(supabase, currentWallet.id);
-        if (freshWallet) {
-          set({ wallet: freshWallet });
-        }
-
-        throw txError;
-      }
-
-      // Update local state
-      set({
-        wallet: { ...currentWallet, balance: newBalance },
-        error: null,
-      });
-
-      return { success: true, newBalance };
-    } catch (err) {
-      walletLogger.error(`Error in wallet transaction (${params.type}):`, err);
-      set({ error: params.errorMessage });
-      return { success: false };
-    }
-  }
-
-  set({ error: params.errorMessage });
-  return { success: false };
-}
+// Server error -> user message for the daily bonus
+const BONUS_ERROR_MESSAGES: Record<string, string> = {
+  'Bonus already claimed': 'Ya reclamaste la bonificación de hoy. Vuelve mañana.',
+};
 
 const TRANSACTIONS_PAGE_SIZE = 20;
 
@@ -335,6 +208,21 @@ export const useWalletStore = create<WalletState>((set, get) => ({
     await walletLoadPromise;
   },
 
+  // Re-read balance after server-side movements (e.g. bet escrow settlement)
+  refreshWallet: async () => {
+    const { wallet } = get();
+    if (!wallet) return;
+
+    try {
+      const freshWallet = await fetchFreshWallet(getClient(), wallet.id);
+      if (freshWallet) {
+        set({ wallet: freshWallet });
+      }
+    } catch (err) {
+      walletLogger.error('Error refreshing wallet:', err);
+    }
+  },
+
   loadTransactions: async (limit = TRANSACTIONS_PAGE_SIZE) => {
     const { wallet } = get();
     if (!wallet) return;
@@ -406,66 +294,43 @@ export const useWalletStore = create<WalletState>((set, get) => ({
     }
   },
 
-  placeBet: async (amount, gameSlug, description) => {
-    return withWalletLock('placeBet', async () => {
+  // Fixed daily bonus; the server enforces one claim every 24 hours
+  claimDailyBonus: async () => {
+    return withWalletLock('claimDailyBonus', async () => {
       const { wallet } = get();
       set({ error: null }); // Clear previous error
       if (!wallet) {
-        set({ error: 'Billetera no cargada' });
+        set({ error: 'Billetera no cargada. Intenta recargar la página.' });
         return false;
       }
 
-      const result = await executeWalletTransaction(wallet, {
-        type: 'bet',
-        amount,
-        description: description || `Apuesta en ${gameSlug}`,
-        gameSlug,
-        errorMessage: 'Error al realizar la apuesta',
-      }, set, get);
+      try {
+        const { data, error } = await getClient().rpc('claim_daily_bonus');
 
-      return result.success;
-    });
-  },
+        if (error) {
+          const known = Object.keys(BONUS_ERROR_MESSAGES).find(key => error.message?.includes(key));
+          if (known) {
+            set({ error: BONUS_ERROR_MESSAGES[known] });
+            return false;
+          }
+          throw error;
+        }
 
-  recordWin: async (amount, gameSlug, description) => {
-    return withWalletLock('recordWin', async () => {
-      const { wallet } = get();
-      set({ error: null }); // Clear previous error
-      if (!wallet) {
-        set({ error: 'Billetera no cargada' });
+        set({ wallet: rowToWallet(validateWalletRow(data, 'claim_daily_bonus')), error: null });
+        return true;
+      } catch (err) {
+        walletLogger.error('Error claiming daily bonus:', err);
+        set({ error: 'Error al agregar créditos' });
         return false;
       }
-
-      const result = await executeWalletTransaction(wallet, {
-        type: 'win',
-        amount,
-        description: description || `Ganancia en ${gameSlug}`,
-        gameSlug,
-        errorMessage: 'Error al registrar ganancia',
-      }, set, get);
-
-      return result.success;
     });
   },
 
-  addCredits: async (amount, description) => {
-    return withWalletLock('addCredits', async () => {
-      const { wallet } = get();
-      set({ error: null }); // Clear previous error
-      if (!wallet) {
-        set({ error: 'Billetera no cargada. Intenta recargar la página.' });
-        return false;
-      }
-
-      const result = await executeWalletTransaction(wallet, {
-        type: 'bonus',
-        amount,
-        description: description || 'Créditos de bonificación',
-        errorMessage: 'Error al agregar créditos',
-      }, set, get);
-
-      return result.success;
-    });
+  // Mirror a balance the server already settled (e.g. a Plinko drop)
+  setBalance: (balance) => {
+    const { wallet } = get();
+    if (!wallet) return;
+    set({ wallet: { ...wallet, balance } });
   },
 
   reset: () => {
@@ -488,11 +353,11 @@ export const useWalletLoading = () => useWalletStore((state) => state.isLoading)
 export const useWalletError = () => useWalletStore((state) => state.error);
 export const useWalletActions = () => useWalletStore((state) => ({
   loadWallet: state.loadWallet,
+  refreshWallet: state.refreshWallet,
   loadTransactions: state.loadTransactions,
   loadMoreTransactions: state.loadMoreTransactions,
-  placeBet: state.placeBet,
-  recordWin: state.recordWin,
-  addCredits: state.addCredits,
+  claimDailyBonus: state.claimDailyBonus,
+  setBalance: state.setBalance,
   reset: state.reset,
 }));
 
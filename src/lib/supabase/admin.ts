@@ -0,0 +1,40 @@
+import { createClient } from '@supabase/supabase-js';
+import type { Database } from '@/types/supabase.types';
+
+// Server-only client with the service role key (bypasses RLS).
+// Never import this from client components.
+
+function getSupabaseUrl(): string {
+  const url = process.env.NEXT_PUBLIC_SUPABASE_URL?.trim();
+  if (!url) {
+    throw new Error(
+      'Missing NEXT_PUBLIC_SUPABASE_URL environment variable. ' +
+      'Please add it to your .env.local file.'
+    );
+  }
+  return url;
+}
+
+function getServiceRoleKey(): string {
+  const key = process.env.SUPABASE_SERVICE_ROLE_KEY?.trim();
+  if (!key) {
+    throw new Error(
+      'Missing SUPABASE_SERVICE_ROLE_KEY environment variable. ' +
+      'Please add it to your .env.local file.'
+    );
+  }
+  return key;
+}
+
+export function createAdminClient() {
+  return createClient<Database>(
+    getSupabaseUrl(),
+    getServiceRoleKey(),
+    {
+      auth: {
+        persistSession: false,
+        autoRefreshToken: false,
+      },
+    }
+  );
+}
@@ -91,12 +91,16 @@ export interface Database {
           player2_id: string | null;
           current_turn: string | null;
           board: string[] | null;
+          state: Json | null;
+          move_log: Json;
           winner_id: string | null;
           is_draw: boolean;
           is_private: boolean;
           rematch_requested_by: string | null;
           rematch_room_id: string | null;
           metadata: Json | null;
+          invite_code: string | null;
+          invite_expires_at: string | null;
           created_at: string;
           updated_at: string;
         };
@@ -108,12 +112,16 @@ export interface Database {
           player2_id?: string | null;
           current_turn?: string | null;
           board?: string[] | null;
+          state?: Json | null;
+          move_log?: Json;
           winner_id?: string | null;
           is_draw?: boolean;
           is_private?: boolean;
           rematch_requested_by?: string | null;
           rematch_room_id?: string | null;
           metadata?: Json | null;
+          invite_code?: string | null;
+          invite_expires_at?: string | null;
           created_at?: string;
           updated_at?: string;
         };
@@ -125,16 +133,261 @@ export interface Database {
           player2_id?: string | null;
           current_turn?: string | null;
           board?: string[] | null;
+          state?: Json | null;
+          move_log?: Json;
           winner_id?: string | null;
           is_draw?: boolean;
           is_private?: boolean;
           rematch_requested_by?: string | null;
           rematch_room_id?: string | null;
           metadata?: Json | null;
+          invite_code?: string | null;
+          invite_expires_at?: string | null;
           created_at?: string;
           updated_at?: string;
         };
       };
+      player_ratings: {
+        Row: {
+          user_id: string;
+          game_type: string;
+          rating: number;
+          rating_deviation: number;
+          games_played: number;
+          wins: number;
+          losses: number;
+          draws: number;
+          is_provisional: boolean;
+          last_played_at: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          user_id: string;
+          game_type: string;
+          rating?: number;
+          rating_deviation?: number;
+          games_played?: number;
+          wins?: number;
+          losses?: number;
+          draws?: number;
+          last_played_at?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          user_id?: string;
+          game_type?: string;
+          rating?: number;
+          rating_deviation?: number;
+          games_played?: number;
+          wins?: number;
+          losses?: number;
+          draws?: number;
+          last_played_at?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
+      tournaments: {
+        Row: {
+          id: string;
+          name: string;
+          game_type: string;
+          format: string;
+          seeding: string;
+          status: string;
+          max_players: number;
+          buy_in: number;
+          prize_pool: number;
+          current_round: number;
+          total_rounds: number | null;
+          created_by: string;
+          winner_id: string | null;
+          created_at: string;
+          started_at: string | null;
+          finished_at: string | null;
+        };
+        Insert: {
+          id?: string;
+          name: string;
+          game_type: string;
+          format: string;
+          seeding?: string;
+          status?: string;
+          max_players?: number;
+          buy_in?: number;
+          prize_pool?: number;
+          current_round?: number;
+          total_rounds?: number | null;
+          created_by: string;
+          winner_id?: string | null;
+          created_at?: string;
+          started_at?: string | null;
+          finished_at?: string | null;
+        };
+        Update: {
+          id?: string;
+          name?: string;
+          game_type?: string;
+          format?: string;
+          seeding?: string;
+          status?: string;
+          max_players?: number;
+          buy_in?: number;
+          prize_pool?: number;
+          current_round?: number;
+          total_rounds?: number | null;
+          created_by?: string;
+          winner_id?: string | null;
+          created_at?: string;
+          started_at?: string | null;
+          finished_at?: string | null;
+        };
+      };
+      tournament_players: {
+        Row: {
+          tournament_id: string;
+          user_id: string;
+          seed: number | null;
+          points: number;
+          wins: number;
+          losses: number;
+          draws: number;
+          is_eliminated: boolean;
+          joined_at: string;
+        };
+        Insert: {
+          tournament_id: string;
+          user_id: string;
+          seed?: number | null;
+          points?: number;
+          wins?: number;
+          losses?: number;
+          draws?: number;
+          is_eliminated?: boolean;
+          joined_at?: string;
+        };
+        Update: {
+          tournament_id?: string;
+          user_id?: string;
+          seed?: number | null;
+          points?: number;
+          wins?: number;
+          losses?: number;
+          draws?: number;
+          is_eliminated?: boolean;
+          joined_at?: string;
+        };
+      };
+      tournament_matches: {
+        Row: {
+          id: string;
+          tournament_id: string;
+          round: number;
+          position: number;
+          player1_id: string | null;
+          player2_id: string | null;
+          room_id: string | null;
+          status: string;
+          winner_id: string | null;
+          is_draw: boolean;
+          created_at: string;
+          finished_at: string | null;
+        };
+        Insert: {
+          id?: string;
+          tournament_id: string;
+          round: number;
+          position: number;
+          player1_id?: string | null;
+          player2_id?: string | null;
+          room_id?: string | null;
+          status?: string;
+          winner_id?: string | null;
+          is_draw?: boolean;
+          created_at?: string;
+          finished_at?: string | null;
+        };
+        Update: {
+          id?: string;
+          tournament_id?: string;
+          round?: number;
+          position?: number;
+          player1_id?: string | null;
+          player2_id?: string | null;
+          room_id?: string | null;
+          status?: string;
+          winner_id?: string | null;
+          is_draw?: boolean;
+          created_at?: string;
+          finished_at?: string | null;
+        };
+      };
+      friendships: {
+        Row: {
+          id: string;
+          requester_id: string;
+          addressee_id: string;
+          status: string;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          requester_id: string;
+          addressee_id: string;
+          status?: string;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          requester_id?: string;
+          addressee_id?: string;
+          status?: string;
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
+      game_challenges: {
+        Row: {
+          id: string;
+          challenger_id: string;
+          challenged_id: string;
+          game_type: string;
+          room_id: string;
+          bet_amount: number | null;
+          status: string;
+          created_at: string;
+          expires_at: string;
+          responded_at: string | null;
+        };
+        Insert: {
+          id?: string;
+          challenger_id: string;
+          challenged_id: string;
+          game_type: string;
+          room_id: string;
+          bet_amount?: number | null;
+          status?: string;
+          created_at?: string;
+          expires_at?: string;
+          responded_at?: string | null;
+        };
+        Update: {
+          id?: string;
+          challenger_id?: string;
+          challenged_id?: string;
+          game_type?: string;
+          room_id?: string;
+          bet_amount?: number | null;
+          status?: string;
+          created_at?: string;
+          expires_at?: string;
+          responded_at?: string | null;
+        };
+      };
       wallets: {
         Row: {
           id: string;
@@ -193,6 +446,55 @@ export interface Database {
           created_at?: string;
         };
       };
+      achievements: {
+        Row: {
+          id: string;
+          name: string;
+          description: string;
+          icon: string;
+          tier: string;
+          rule: Json;
+          bonus: number;
+          sort_order: number;
+        };
+        Insert: {
+          id: string;
+          name: string;
+          description: string;
+          icon: string;
+          tier?: string;
+          rule: Json;
+          bonus?: number;
+          sort_order?: number;
+        };
+        Update: {
+          id?: string;
+          name?: string;
+          description?: string;
+          icon?: string;
+          tier?: string;
+          rule?: Json;
+          bonus?: number;
+          sort_order?: number;
+        };
+      };
+      user_achievements: {
+        Row: {
+          user_id: string;
+          achievement_id: string;
+          unlocked_at: string;
+        };
+        Insert: {
+          user_id: string;
+          achievement_id: string;
+          unlocked_at?: string;
+        };
+        Update: {
+          user_id?: string;
+          achievement_id?: string;
+          unlocked_at?: string;
+        };
+      };
     };
     Views: {
       [_ in never]: never;
@@ -220,5 +522,11 @@ export type UpdateTables<T extends keyof Database['public']['Tables']> =
 export type Profile = Tables<'profiles'>;
 export type GameStats = Tables<'game_stats'>;
 export type GameRoom = Tables<'game_rooms'>;
+export type PlayerRating = Tables<'player_ratings'>;
+export type Tournament = Tables<'tournaments'>;
+export type TournamentPlayer = Tables<'tournament_players'>;
+export type TournamentMatch = Tables<'tournament_matches'>;
+export type Friendship = Tables<'friendships'>;
+export type GameChallenge = Tables<'game_challenges'>;
 export type Wallet = Tables<'wallets'>;
 export type WalletTransaction = Tables<'wallet_transactions'>;
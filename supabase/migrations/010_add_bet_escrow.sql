@@ -0,0 +1,522 @@
+-- Escrow de apuestas para partidas online
+-- Antes cada navegador descontaba la apuesta y cobraba el premio por su cuenta
+-- (placeBet/recordWin desde useOnlineGameCore). Ahora el servidor bloquea ambas
+-- apuestas al llegar a 'agreed' y libera el pozo al terminar la partida, una sola vez.
+
+-- Escrow por sala: una fila por partida con apuesta acordada
+CREATE TABLE IF NOT EXISTS game_room_escrows (
+  room_id UUID PRIMARY KEY REFERENCES game_rooms(id),
+  player1_id UUID NOT NULL REFERENCES auth.users(id),
+  player2_id UUID NOT NULL REFERENCES auth.users(id),
+  game_type TEXT NOT NULL,
+  stake DECIMAL(15,2) NOT NULL CHECK (stake > 0),
+  status VARCHAR(20) NOT NULL DEFAULT 'locked' CHECK (status IN ('locked', 'released', 'refunded')),
+  winner_id UUID REFERENCES auth.users(id),
+  created_at TIMESTAMPTZ DEFAULT now(),
+  settled_at TIMESTAMPTZ
+);
+
+ALTER TABLE game_room_escrows ENABLE ROW LEVEL SECURITY;
+
+-- Solo lectura para los jugadores de la sala; las escrituras pasan por las funciones
+CREATE POLICY "Players can view their room escrow"
+  ON game_room_escrows FOR SELECT
+  USING (auth.uid() = player1_id OR auth.uid() = player2_id);
+
+-- Movimiento atómico de saldo + registro en el ledger
+-- p_amount positivo acredita, negativo debita. Uso interno (no se expone a clientes).
+CREATE OR REPLACE FUNCTION apply_wallet_transaction(
+  p_user_id UUID,
+  p_type TEXT,
+  p_amount DECIMAL,
+  p_description TEXT DEFAULT NULL,
+  p_game_slug TEXT DEFAULT NULL,
+  p_metadata JSONB DEFAULT '{}'
+)
+RETURNS wallets
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_wallet wallets;
+BEGIN
+  -- Lock de la billetera para serializar movimientos concurrentes
+  SELECT * INTO v_wallet
+  FROM wallets
+  WHERE user_id = p_user_id
+  FOR UPDATE;
+
+  IF v_wallet IS NULL THEN
+    RAISE EXCEPTION 'Wallet not found';
+  END IF;
+
+  IF v_wallet.balance + p_amount < 0 THEN
+    RAISE EXCEPTION 'Insufficient balance';
+  END IF;
+
+  UPDATE wallets
+  SET
+    balance = balance + p_amount,
+    updated_at = NOW()
+  WHERE id = v_wallet.id
+  RETURNING * INTO v_wallet;
+
+  INSERT INTO wallet_transactions (
+    wallet_id,
+    type,
+    amount,
+    balance_after,
+    description,
+    game_slug,
+    metadata
+  )
+  VALUES (
+    v_wallet.id,
+    p_type,
+    p_amount,
+    v_wallet.balance,
+    p_description,
+    p_game_slug,
+    COALESCE(p_metadata, '{}'::jsonb)
+  );
+
+  RETURN v_wallet;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION apply_wallet_transaction(UUID, TEXT, DECIMAL, TEXT, TEXT, JSONB) FROM PUBLIC, anon, authenticated;
+
+-- Bloquear las apuestas de ambos jugadores (idempotente)
+-- Devuelve el metadata con escrow_status actualizado; si algún jugador no tiene
+-- saldo suficiente la sala pasa a 'no_bet' y no se descuenta nada.
+CREATE OR REPLACE FUNCTION escrow_lock_stakes(p_room game_rooms)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_stake DECIMAL;
+BEGIN
+  IF EXISTS (SELECT 1 FROM game_room_escrows WHERE room_id = p_room.id) THEN
+    RETURN p_room.metadata || jsonb_build_object('escrow_status', 'locked');
+  END IF;
+
+  v_stake := (p_room.metadata->>'bet_amount')::decimal;
+
+  IF v_stake IS NULL OR v_stake <= 0 OR p_room.player1_id IS NULL OR p_room.player2_id IS NULL THEN
+    RETURN p_room.metadata;
+  END IF;
+
+  BEGIN
+    PERFORM apply_wallet_transaction(
+      p_room.player1_id, 'bet', -v_stake, 'Apuesta acordada', p_room.game_type,
+      jsonb_build_object('room_id', p_room.id)
+    );
+    PERFORM apply_wallet_transaction(
+      p_room.player2_id, 'bet', -v_stake, 'Apuesta acordada', p_room.game_type,
+      jsonb_build_object('room_id', p_room.id)
+    );
+  EXCEPTION WHEN OTHERS THEN
+    -- Saldo insuficiente: el subbloque revierte ambos débitos, seguir sin apuesta
+    RETURN p_room.metadata || jsonb_build_object(
+      'negotiation_state', 'no_bet',
+      'bet_amount', NULL
+    );
+  END;
+
+  INSERT INTO game_room_escrows (room_id, player1_id, player2_id, game_type, stake)
+  VALUES (p_room.id, p_room.player1_id, p_room.player2_id, p_room.game_type, v_stake);
+
+  RETURN p_room.metadata || jsonb_build_object('escrow_status', 'locked');
+END;
+$$;
+
+-- Liberar el pozo al ganador o reembolsar en empate (idempotente)
+CREATE OR REPLACE FUNCTION escrow_settle_pot(p_room game_rooms)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_escrow game_room_escrows;
+BEGIN
+  SELECT * INTO v_escrow
+  FROM game_room_escrows
+  WHERE room_id = p_room.id
+  FOR UPDATE;
+
+  IF v_escrow IS NULL THEN
+    RETURN p_room.metadata;
+  END IF;
+
+  -- Ya liquidado: no volver a pagar
+  IF v_escrow.status != 'locked' THEN
+    RETURN p_room.metadata || jsonb_build_object('escrow_status', v_escrow.status);
+  END IF;
+
+  IF p_room.is_draw OR p_room.winner_id IS NULL THEN
+    PERFORM apply_wallet_transaction(
+      v_escrow.player1_id, 'refund', v_escrow.stake, 'Reembolso por empate', v_escrow.game_type,
+      jsonb_build_object('room_id', p_room.id)
+    );
+    PERFORM apply_wallet_transaction(
+      v_escrow.player2_id, 'refund', v_escrow.stake, 'Reembolso por empate', v_escrow.game_type,
+      jsonb_build_object('room_id', p_room.id)
+    );
+
+    UPDATE game_room_escrows
+    SET status = 'refunded', settled_at = NOW()
+    WHERE room_id = p_room.id;
+
+    RETURN p_room.metadata || jsonb_build_object('escrow_status', 'refunded');
+  END IF;
+
+  IF p_room.winner_id != v_escrow.player1_id AND p_room.winner_id != v_escrow.player2_id THEN
+    RAISE EXCEPTION 'Winner not in escrow';
+  END IF;
+
+  PERFORM apply_wallet_transaction(
+    p_room.winner_id, 'win', v_escrow.stake * 2, 'Victoria en partida con apuesta', v_escrow.game_type,
+    jsonb_build_object('room_id', p_room.id)
+  );
+
+  UPDATE game_room_escrows
+  SET status = 'released', winner_id = p_room.winner_id, settled_at = NOW()
+  WHERE room_id = p_room.id;
+
+  RETURN p_room.metadata || jsonb_build_object('escrow_status', 'released');
+END;
+$$;
+
+-- Supabase da EXECUTE directo a anon y authenticated, no alcanza con PUBLIC
+REVOKE EXECUTE ON FUNCTION escrow_lock_stakes(game_rooms) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION escrow_settle_pot(game_rooms) FROM PUBLIC, anon, authenticated;
+
+-- Trigger: bloquear al acordar y liquidar al terminar, en la misma transacción
+-- que el cambio de estado. No depende de que ningún cliente siga conectado.
+CREATE OR REPLACE FUNCTION handle_game_room_escrow()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  -- escrow_status solo lo escribe el servidor: ignorar lo que mande el cliente
+  IF OLD.metadata ? 'escrow_status' THEN
+    NEW.metadata := COALESCE(NEW.metadata, '{}'::jsonb)
+      || jsonb_build_object('escrow_status', OLD.metadata->'escrow_status');
+  ELSE
+    NEW.metadata := COALESCE(NEW.metadata, '{}'::jsonb) - 'escrow_status';
+  END IF;
+
+  IF NEW.metadata->>'negotiation_state' = 'agreed'
+    AND NEW.metadata->>'escrow_status' IS NULL THEN
+    NEW.metadata := escrow_lock_stakes(NEW);
+  END IF;
+
+  IF NEW.status = 'finished'
+    AND NEW.metadata->>'escrow_status' = 'locked' THEN
+    NEW.metadata := escrow_settle_pot(NEW);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_game_room_escrow ON game_rooms;
+CREATE TRIGGER on_game_room_escrow
+  BEFORE UPDATE ON game_rooms
+  FOR EACH ROW EXECUTE FUNCTION handle_game_room_escrow();
+
+-- RPC: bloquear apuestas de una sala acordada (no-op si ya están bloqueadas)
+CREATE OR REPLACE FUNCTION lock_room_stakes(
+  p_room_id UUID
+)
+RETURNS game_rooms
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_room game_rooms;
+BEGIN
+  SELECT * INTO v_room
+  FROM game_rooms
+  WHERE id = p_room_id
+  FOR UPDATE;
+
+  IF v_room IS NULL THEN
+    RAISE EXCEPTION 'Room not found';
+  END IF;
+
+  IF auth.uid() IS DISTINCT FROM v_room.player1_id AND auth.uid() IS DISTINCT FROM v_room.player2_id THEN
+    RAISE EXCEPTION 'Player not in room';
+  END IF;
+
+  IF v_room.metadata->>'negotiation_state' != 'agreed' THEN
+    RETURN v_room;
+  END IF;
+
+  -- El trigger hace el bloqueo; el UPDATE solo lo dispara si faltaba
+  IF v_room.metadata->>'escrow_status' IS NULL THEN
+    UPDATE game_rooms
+    SET updated_at = NOW()
+    WHERE id = p_room_id
+    RETURNING * INTO v_room;
+  END IF;
+
+  RETURN v_room;
+END;
+$$;
+
+-- RPC: liquidar el pozo de una sala terminada (no-op si ya se liquidó)
+CREATE OR REPLACE FUNCTION settle_room_pot(
+  p_room_id UUID
+)
+RETURNS game_rooms
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_room game_rooms;
+BEGIN
+  SELECT * INTO v_room
+  FROM game_rooms
+  WHERE id = p_room_id
+  FOR UPDATE;
+
+  IF v_room IS NULL THEN
+    RAISE EXCEPTION 'Room not found';
+  END IF;
+
+  IF auth.uid() IS DISTINCT FROM v_room.player1_id AND auth.uid() IS DISTINCT FROM v_room.player2_id THEN
+    RAISE EXCEPTION 'Player not in room';
+  END IF;
+
+  IF v_room.status != 'finished' THEN
+    RETURN v_room;
+  END IF;
+
+  IF v_room.metadata->>'escrow_status' = 'locked' THEN
+    UPDATE game_rooms
+    SET updated_at = NOW()
+    WHERE id = p_room_id
+    RETURNING * INTO v_room;
+  END IF;
+
+  RETURN v_room;
+END;
+$$;
+
+-- Negociación de 009: p_player_id tiene que ser quien llama
+-- Sin este chequeo cualquiera podía aceptar o saltar la apuesta en nombre de otro
+-- jugador y, con el escrow, bloquearle el saldo. Se redefinen aquí para que las
+-- bases que ya aplicaron 009 reciban el cambio.
+
+-- Función para enviar/actualizar propuesta de apuesta durante negociación
+CREATE OR REPLACE FUNCTION submit_bet_proposal(
+  p_room_id UUID,
+  p_player_id UUID,
+  p_amount DECIMAL
+)
+RETURNS game_rooms
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_room game_rooms;
+  v_is_player1 BOOLEAN;
+  v_other_proposal DECIMAL;
+  v_new_metadata JSONB;
+  v_deadline TIMESTAMP WITH TIME ZONE;
+BEGIN
+  -- Obtener sala con lock
+  SELECT * INTO v_room
+  FROM game_rooms
+  WHERE id = p_room_id
+  FOR UPDATE;
+
+  IF v_room IS NULL THEN
+    RAISE EXCEPTION 'Room not found';
+  END IF;
+
+  -- Verificar que el jugador es parte de la sala (y que es quien llama)
+  IF p_player_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Player not in room';
+  END IF;
+
+  v_is_player1 := v_room.player1_id = p_player_id;
+  IF NOT v_is_player1 AND v_room.player2_id != p_player_id THEN
+    RAISE EXCEPTION 'Player not in room';
+  END IF;
+
+  -- Verificar que estamos en estado de negociación
+  IF v_room.metadata->>'negotiation_state' != 'pending' THEN
+    RAISE EXCEPTION 'Not in negotiation state';
+  END IF;
+
+  -- Obtener propuesta del otro jugador
+  IF v_is_player1 THEN
+    v_other_proposal := (v_room.metadata->>'player2_bet_proposal')::decimal;
+  ELSE
+    v_other_proposal := (v_room.metadata->>'player1_bet_proposal')::decimal;
+  END IF;
+
+  -- Verificar si hay acuerdo
+  IF p_amount = v_other_proposal THEN
+    -- Acuerdo alcanzado
+    v_new_metadata := v_room.metadata || jsonb_build_object(
+      'negotiation_state', 'agreed',
+      'bet_amount', p_amount,
+      CASE WHEN v_is_player1 THEN 'player1_bet_proposal' ELSE 'player2_bet_proposal' END, p_amount
+    );
+
+    UPDATE game_rooms
+    SET
+      metadata = v_new_metadata,
+      status = 'playing',
+      updated_at = NOW()
+    WHERE id = p_room_id
+    RETURNING * INTO v_room;
+  ELSE
+    -- Actualizar propuesta y extender deadline
+    v_deadline := NOW() + INTERVAL '30 seconds';
+    v_new_metadata := v_room.metadata || jsonb_build_object(
+      CASE WHEN v_is_player1 THEN 'player1_bet_proposal' ELSE 'player2_bet_proposal' END, p_amount,
+      'negotiation_deadline', v_deadline
+    );
+
+    UPDATE game_rooms
+    SET
+      metadata = v_new_metadata,
+      updated_at = NOW()
+    WHERE id = p_room_id
+    RETURNING * INTO v_room;
+  END IF;
+
+  RETURN v_room;
+END;
+$$;
+
+-- Función para aceptar la propuesta del oponente
+CREATE OR REPLACE FUNCTION accept_bet_proposal(
+  p_room_id UUID,
+  p_player_id UUID
+)
+RETURNS game_rooms
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_room game_rooms;
+  v_is_player1 BOOLEAN;
+  v_other_proposal DECIMAL;
+  v_new_metadata JSONB;
+BEGIN
+  -- Obtener sala con lock
+  SELECT * INTO v_room
+  FROM game_rooms
+  WHERE id = p_room_id
+  FOR UPDATE;
+
+  IF v_room IS NULL THEN
+    RAISE EXCEPTION 'Room not found';
+  END IF;
+
+  -- Verificar que el jugador es parte de la sala (y que es quien llama)
+  IF p_player_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Player not in room';
+  END IF;
+
+  v_is_player1 := v_room.player1_id = p_player_id;
+  IF NOT v_is_player1 AND v_room.player2_id != p_player_id THEN
+    RAISE EXCEPTION 'Player not in room';
+  END IF;
+
+  -- Verificar estado de negociación
+  IF v_room.metadata->>'negotiation_state' != 'pending' THEN
+    RAISE EXCEPTION 'Not in negotiation state';
+  END IF;
+
+  -- Obtener propuesta del otro jugador
+  IF v_is_player1 THEN
+    v_other_proposal := (v_room.metadata->>'player2_bet_proposal')::decimal;
+  ELSE
+    v_other_proposal := (v_room.metadata->>'player1_bet_proposal')::decimal;
+  END IF;
+
+  IF v_other_proposal IS NULL OR v_other_proposal <= 0 THEN
+    RAISE EXCEPTION 'No valid proposal to accept';
+  END IF;
+
+  -- Aceptar propuesta del oponente
+  v_new_metadata := v_room.metadata || jsonb_build_object(
+    'negotiation_state', 'agreed',
+    'bet_amount', v_other_proposal,
+    CASE WHEN v_is_player1 THEN 'player1_bet_proposal' ELSE 'player2_bet_proposal' END, v_other_proposal
+  );
+
+  UPDATE game_rooms
+  SET
+    metadata = v_new_metadata,
+    status = 'playing',
+    updated_at = NOW()
+  WHERE id = p_room_id
+  RETURNING * INTO v_room;
+
+  RETURN v_room;
+END;
+$$;
+
+-- Función para saltar la apuesta y comenzar sin apostar
+CREATE OR REPLACE FUNCTION skip_betting(
+  p_room_id UUID,
+  p_player_id UUID
+)
+RETURNS game_rooms
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_room game_rooms;
+  v_new_metadata JSONB;
+BEGIN
+  -- Obtener sala con lock
+  SELECT * INTO v_room
+  FROM game_rooms
+  WHERE id = p_room_id
+  FOR UPDATE;
+
+  IF v_room IS NULL THEN
+    RAISE EXCEPTION 'Room not found';
+  END IF;
+
+  -- Verificar que el jugador es parte de la sala (y que es quien llama)
+  IF p_player_id IS DISTINCT FROM auth.uid()
+    OR (v_room.player1_id != p_player_id AND v_room.player2_id != p_player_id) THEN
+    RAISE EXCEPTION 'Player not in room';
+  END IF;
+
+  -- Actualizar a estado sin apuesta
+  v_new_metadata := v_room.metadata || jsonb_build_object(
+    'negotiation_state', 'no_bet',
+    'bet_amount', NULL
+  );
+
+  UPDATE game_rooms
+  SET
+    metadata = v_new_metadata,
+    status = 'playing',
+    updated_at = NOW()
+  WHERE id = p_room_id
+  RETURNING * INTO v_room;
+
+  RETURN v_room;
+END;
+$$;
+
+-- Dar permisos a usuarios autenticados
+GRANT EXECUTE ON FUNCTION lock_room_stakes(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION settle_room_pot(UUID) TO authenticated;
+
+CREATE INDEX IF NOT EXISTS idx_game_room_escrows_status
+ON game_room_escrows (status)
+WHERE status = 'locked';
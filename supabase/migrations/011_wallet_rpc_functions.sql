@@ -0,0 +1,194 @@
+-- Movimientos de billetera solo a través de funciones SECURITY DEFINER
+-- Antes el cliente escribía wallets.balance y luego insertaba la fila en
+-- wallet_transactions (dos llamadas): cualquiera podía fijar su saldo desde la
+-- consola y un fallo en la segunda escritura dejaba el ledger inconsistente.
+-- Todas usan apply_wallet_transaction (010): lock, chequeo de saldo, update y ledger
+-- en una sola transacción.
+
+-- Las apuestas y los pagos no se exponen como RPCs de monto libre: place_bet,
+-- record_win, grant_bonus y refund son de uso interno y solo las llaman las
+-- funciones del servidor que liquidan cada juego a partir de lo que quedó
+-- registrado (plinko_drop en 013, torneos en 021, logros en 026). El cliente solo
+-- puede reclamar la bonificación diaria.
+-- Firmas anteriores que aceptaban el monto desde el cliente
+DROP FUNCTION IF EXISTS place_bet(DECIMAL, TEXT, TEXT);
+DROP FUNCTION IF EXISTS record_win(DECIMAL, TEXT, TEXT);
+DROP FUNCTION IF EXISTS record_win(DECIMAL, TEXT, TEXT, JSONB);
+DROP FUNCTION IF EXISTS grant_bonus(DECIMAL, TEXT);
+DROP FUNCTION IF EXISTS refund(DECIMAL, TEXT, TEXT);
+
+-- Apostar: debita el monto (falla con 'Insufficient balance' si no alcanza)
+CREATE OR REPLACE FUNCTION place_bet(
+  p_user_id UUID,
+  p_amount DECIMAL,
+  p_game_slug TEXT,
+  p_description TEXT DEFAULT NULL,
+  p_metadata JSONB DEFAULT '{}'
+)
+RETURNS wallets
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF p_amount IS NULL OR p_amount <= 0 THEN
+    RAISE EXCEPTION 'Invalid amount';
+  END IF;
+
+  RETURN apply_wallet_transaction(
+    p_user_id,
+    'bet',
+    -p_amount,
+    COALESCE(p_description, 'Apuesta en ' || p_game_slug),
+    p_game_slug,
+    p_metadata
+  );
+END;
+$$;
+
+-- Registrar ganancia: acredita el monto
+CREATE OR REPLACE FUNCTION record_win(
+  p_user_id UUID,
+  p_amount DECIMAL,
+  p_game_slug TEXT,
+  p_description TEXT DEFAULT NULL,
+  p_metadata JSONB DEFAULT '{}'
+)
+RETURNS wallets
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF p_amount IS NULL OR p_amount <= 0 THEN
+    RAISE EXCEPTION 'Invalid amount';
+  END IF;
+
+  RETURN apply_wallet_transaction(
+    p_user_id,
+    'win',
+    p_amount,
+    COALESCE(p_description, 'Ganancia en ' || p_game_slug),
+    p_game_slug,
+    p_metadata
+  );
+END;
+$$;
+
+-- Bonificación de créditos
+CREATE OR REPLACE FUNCTION grant_bonus(
+  p_user_id UUID,
+  p_amount DECIMAL,
+  p_description TEXT DEFAULT NULL,
+  p_metadata JSONB DEFAULT '{}'
+)
+RETURNS wallets
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF p_amount IS NULL OR p_amount <= 0 THEN
+    RAISE EXCEPTION 'Invalid amount';
+  END IF;
+
+  RETURN apply_wallet_transaction(
+    p_user_id,
+    'bonus',
+    p_amount,
+    COALESCE(p_description, 'Créditos de bonificación'),
+    NULL,
+    p_metadata
+  );
+END;
+$$;
+
+-- Reembolso de una apuesta que no llegó a jugarse
+CREATE OR REPLACE FUNCTION refund(
+  p_user_id UUID,
+  p_amount DECIMAL,
+  p_game_slug TEXT,
+  p_description TEXT DEFAULT NULL,
+  p_metadata JSONB DEFAULT '{}'
+)
+RETURNS wallets
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF p_amount IS NULL OR p_amount <= 0 THEN
+    RAISE EXCEPTION 'Invalid amount';
+  END IF;
+
+  RETURN apply_wallet_transaction(
+    p_user_id,
+    'refund',
+    p_amount,
+    COALESCE(p_description, 'Reembolso en ' || p_game_slug),
+    p_game_slug,
+    p_metadata
+  );
+END;
+$$;
+
+-- Supabase da EXECUTE directo a anon y authenticated, no alcanza con PUBLIC
+REVOKE EXECUTE ON FUNCTION place_bet(UUID, DECIMAL, TEXT, TEXT, JSONB) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION record_win(UUID, DECIMAL, TEXT, TEXT, JSONB) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION grant_bonus(UUID, DECIMAL, TEXT, JSONB) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION refund(UUID, DECIMAL, TEXT, TEXT, JSONB) FROM PUBLIC, anon, authenticated;
+
+-- Bonificación diaria: monto fijo, una vez cada 24 horas
+CREATE OR REPLACE FUNCTION claim_daily_bonus()
+RETURNS wallets
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_wallet wallets;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  -- Lock de la billetera: dos reclamos simultáneos no pueden pasar los dos
+  SELECT * INTO v_wallet
+  FROM wallets
+  WHERE user_id = auth.uid()
+  FOR UPDATE;
+
+  IF v_wallet IS NULL THEN
+    RAISE EXCEPTION 'Wallet not found';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM wallet_transactions
+    WHERE wallet_id = v_wallet.id
+      AND type = 'bonus'
+      AND metadata->>'source' = 'daily_bonus'
+      AND created_at > NOW() - INTERVAL '24 hours'
+  ) THEN
+    RAISE EXCEPTION 'Bonus already claimed';
+  END IF;
+
+  RETURN grant_bonus(
+    auth.uid(),
+    1000,
+    'Bonificación diaria',
+    jsonb_build_object('source', 'daily_bonus')
+  );
+END;
+$$;
+
+-- Quitar escritura directa del saldo y del ledger
+DROP POLICY IF EXISTS "Users can update their own wallet" ON wallets;
+DROP POLICY IF EXISTS "Users can create transactions for their wallet" ON wallet_transactions;
+
+REVOKE UPDATE ON wallets FROM anon, authenticated;
+REVOKE INSERT, UPDATE, DELETE ON wallet_transactions FROM anon, authenticated;
+
+-- La billetera de respaldo solo puede crearse con el saldo inicial
+DROP POLICY IF EXISTS "Users can create their own wallet" ON wallets;
+CREATE POLICY "Users can create their own wallet"
+  ON wallets FOR INSERT
+  WITH CHECK (auth.uid() = user_id AND balance = 1000.00);
+
+-- Dar permisos a usuarios autenticados
+GRANT EXECUTE ON FUNCTION claim_daily_bonus() TO authenticated;
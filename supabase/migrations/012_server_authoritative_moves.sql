@@ -0,0 +1,222 @@
+-- Movimientos validados en el servidor
+-- El tablero y el resultado de la partida solo los escribe el servidor:
+-- la ruta /api/games/[gameSlug]/rooms/[roomId]/moves (service role, valida con
+-- el GameEngine del juego) y las funciones SECURITY DEFINER. Un cliente ya no
+-- puede escribir un tablero arbitrario ni declararse ganador.
+
+-- Trigger: rechazar cambios de estado de juego, jugadores y apuesta hechos
+-- directamente por clientes (el escrow de 010 se dispara con ellos)
+-- (no es SECURITY DEFINER para que current_user sea el rol que hace el UPDATE)
+CREATE OR REPLACE FUNCTION protect_game_room_state()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF current_user NOT IN ('anon', 'authenticated') THEN
+    RETURN NEW;
+  END IF;
+
+  -- Una sala nueva la crea su jugador 1, vacía y en espera: el rival entra por
+  -- join_room y la revancha por accept_rematch. Si no, un cliente podría insertar
+  -- una sala ya terminada a su favor o una en curso contra cualquier usuario.
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.status IS DISTINCT FROM 'waiting'
+      OR NEW.player1_id IS DISTINCT FROM auth.uid()
+      OR NEW.current_turn IS DISTINCT FROM NEW.player1_id
+      OR NEW.player2_id IS NOT NULL
+      OR NEW.winner_id IS NOT NULL
+      OR NEW.is_draw IS DISTINCT FROM false
+      OR NEW.rematch_room_id IS NOT NULL THEN
+      RAISE EXCEPTION 'Rooms can only be created empty and waiting';
+    END IF;
+
+    -- Solo trae la propuesta del creador: el acuerdo (y el escrow que
+    -- dispara) pasa siempre por las funciones de negociación
+    IF NEW.metadata ?| ARRAY['bet_amount', 'player2_bet_proposal', 'escrow_status']
+      OR COALESCE(NEW.metadata->>'negotiation_state', 'none') != 'none' THEN
+      RAISE EXCEPTION 'Bets can only be agreed through the server';
+    END IF;
+
+    RETURN NEW;
+  END IF;
+
+  IF NEW.board IS DISTINCT FROM OLD.board
+    OR NEW.current_turn IS DISTINCT FROM OLD.current_turn
+    OR NEW.winner_id IS DISTINCT FROM OLD.winner_id
+    OR NEW.is_draw IS DISTINCT FROM OLD.is_draw
+    OR (NEW.status = 'finished' AND OLD.status IS DISTINCT FROM 'finished') THEN
+    RAISE EXCEPTION 'Game state can only be changed by the server';
+  END IF;
+
+  -- Jugadores, revancha y apuesta: solo por las funciones de unión y negociación
+  IF NEW.player1_id IS DISTINCT FROM OLD.player1_id
+    OR NEW.player2_id IS DISTINCT FROM OLD.player2_id
+    OR NEW.rematch_room_id IS DISTINCT FROM OLD.rematch_room_id
+    OR NEW.metadata->'negotiation_state' IS DISTINCT FROM OLD.metadata->'negotiation_state'
+    OR NEW.metadata->'bet_amount' IS DISTINCT FROM OLD.metadata->'bet_amount'
+    OR NEW.metadata->'player1_bet_proposal' IS DISTINCT FROM OLD.metadata->'player1_bet_proposal'
+    OR NEW.metadata->'player2_bet_proposal' IS DISTINCT FROM OLD.metadata->'player2_bet_proposal' THEN
+    RAISE EXCEPTION 'Players and bets can only be changed by the server';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_game_room_protect_state ON game_rooms;
+CREATE TRIGGER on_game_room_protect_state
+  BEFORE INSERT OR UPDATE ON game_rooms
+  FOR EACH ROW EXECUTE FUNCTION protect_game_room_state();
+
+-- Abandonar una partida en curso: el oponente gana
+CREATE OR REPLACE FUNCTION forfeit_room(
+  p_room_id UUID
+)
+RETURNS game_rooms
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_room game_rooms;
+  v_winner_id UUID;
+BEGIN
+  -- Obtener sala con lock
+  SELECT * INTO v_room
+  FROM game_rooms
+  WHERE id = p_room_id
+  FOR UPDATE;
+
+  IF v_room IS NULL THEN
+    RAISE EXCEPTION 'Room not found';
+  END IF;
+
+  -- Verificar que el jugador es parte de la sala
+  IF auth.uid() IS DISTINCT FROM v_room.player1_id AND auth.uid() IS DISTINCT FROM v_room.player2_id THEN
+    RAISE EXCEPTION 'Player not in room';
+  END IF;
+
+  -- Solo se puede abandonar una partida en curso
+  IF v_room.status != 'playing' THEN
+    RETURN v_room;
+  END IF;
+
+  v_winner_id := CASE WHEN v_room.player1_id = auth.uid() THEN v_room.player2_id ELSE v_room.player1_id END;
+
+  UPDATE game_rooms
+  SET
+    status = 'finished',
+    winner_id = v_winner_id,
+    is_draw = false,
+    updated_at = NOW()
+  WHERE id = p_room_id
+  RETURNING * INTO v_room;
+
+  RETURN v_room;
+END;
+$$;
+
+-- Unirse como jugador 2 a una sala en espera (link o código de invitación)
+CREATE OR REPLACE FUNCTION join_room(
+  p_room_id UUID
+)
+RETURNS game_rooms
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_room game_rooms;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  -- Si otro jugador la ocupó primero, no devuelve nada
+  UPDATE game_rooms
+  SET
+    player2_id = auth.uid(),
+    status = 'playing',
+    updated_at = NOW()
+  WHERE id = p_room_id
+    AND status = 'waiting'
+    AND player2_id IS NULL
+    AND player1_id != auth.uid()
+  RETURNING * INTO v_room;
+
+  RETURN v_room;
+END;
+$$;
+
+-- Aceptar la revancha: crea la sala nueva con roles invertidos
+-- (el que era player2 ahora es player1 y empieza)
+CREATE OR REPLACE FUNCTION accept_rematch(
+  p_room_id UUID
+)
+RETURNS game_rooms
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_room game_rooms;
+  v_new_room game_rooms;
+BEGIN
+  -- Obtener sala con lock
+  SELECT * INTO v_room
+  FROM game_rooms
+  WHERE id = p_room_id
+  FOR UPDATE;
+
+  IF v_room IS NULL THEN
+    RAISE EXCEPTION 'Room not found';
+  END IF;
+
+  IF auth.uid() IS DISTINCT FROM v_room.player1_id AND auth.uid() IS DISTINCT FROM v_room.player2_id THEN
+    RAISE EXCEPTION 'Player not in room';
+  END IF;
+
+  IF v_room.status != 'finished' THEN
+    RAISE EXCEPTION 'Room not finished';
+  END IF;
+
+  -- Ya aceptada: devolver la misma sala
+  IF v_room.rematch_room_id IS NOT NULL THEN
+    SELECT * INTO v_new_room FROM game_rooms WHERE id = v_room.rematch_room_id;
+    RETURN v_new_room;
+  END IF;
+
+  -- Tiene que aceptarla el otro jugador, no el que la pidió
+  IF v_room.rematch_requested_by IS NULL OR v_room.rematch_requested_by = auth.uid() THEN
+    RAISE EXCEPTION 'No rematch request pending';
+  END IF;
+
+  INSERT INTO game_rooms (
+    game_type,
+    player1_id,
+    player2_id,
+    current_turn,
+    status
+  )
+  VALUES (
+    v_room.game_type,
+    v_room.player2_id,
+    v_room.player1_id,
+    v_room.player2_id,
+    'playing'
+  )
+  RETURNING * INTO v_new_room;
+
+  -- El que pidió la revancha se entera por rematch_room_id y se une
+  UPDATE game_rooms
+  SET
+    rematch_room_id = v_new_room.id,
+    rematch_requested_by = NULL,
+    updated_at = NOW()
+  WHERE id = p_room_id;
+
+  RETURN v_new_room;
+END;
+$$;
+
+-- Dar permisos a usuarios autenticados
+GRANT EXECUTE ON FUNCTION forfeit_room(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION join_room(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION accept_rematch(UUID) TO authenticated;
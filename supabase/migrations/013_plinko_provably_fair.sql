@@ -0,0 +1,311 @@
+-- Plinko provably fair
+-- El camino de cada bola sale de HMAC-SHA256(server_seed, client_seed:nonce).
+-- El hash del server seed se publica antes de jugar; el seed se revela al rotarlo,
+-- y con eso el jugador puede recalcular cualquier tirada.
+-- Apuesta, tirada y pago ocurren en una sola función (plinko_drop): el cliente
+-- solo anima el camino que ya quedó registrado en plinko_rolls.
+
+CREATE EXTENSION IF NOT EXISTS pgcrypto;
+
+CREATE TABLE IF NOT EXISTS plinko_seeds (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  server_seed TEXT NOT NULL,
+  server_seed_hash TEXT NOT NULL,
+  client_seed TEXT NOT NULL,
+  nonce INTEGER NOT NULL DEFAULT 0,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  revealed_at TIMESTAMPTZ
+);
+
+-- Un solo seed activo por usuario
+CREATE UNIQUE INDEX IF NOT EXISTS idx_plinko_seeds_active
+ON plinko_seeds (user_id)
+WHERE is_active;
+
+ALTER TABLE plinko_seeds ENABLE ROW LEVEL SECURITY;
+
+-- Solo se pueden leer los seeds ya revelados; el activo pasa por las funciones
+CREATE POLICY "Users can view their revealed seeds"
+  ON plinko_seeds FOR SELECT
+  USING (auth.uid() = user_id AND revealed_at IS NOT NULL);
+
+-- Obtener (o crear) el seed activo del usuario, con lock. Uso interno.
+CREATE OR REPLACE FUNCTION plinko_active_seed(p_user_id UUID)
+RETURNS plinko_seeds
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  v_seed plinko_seeds;
+  v_server_seed TEXT;
+BEGIN
+  SELECT * INTO v_seed
+  FROM plinko_seeds
+  WHERE user_id = p_user_id AND is_active
+  FOR UPDATE;
+
+  IF v_seed IS NULL THEN
+    v_server_seed := encode(gen_random_bytes(32), 'hex');
+
+    INSERT INTO plinko_seeds (user_id, server_seed, server_seed_hash, client_seed)
+    VALUES (
+      p_user_id,
+      v_server_seed,
+      encode(digest(v_server_seed, 'sha256'), 'hex'),
+      encode(gen_random_bytes(8), 'hex')
+    )
+    RETURNING * INTO v_seed;
+  END IF;
+
+  RETURN v_seed;
+END;
+$$;
+
+-- Devuelve el server seed sin revelar: nunca expuesto a clientes
+REVOKE EXECUTE ON FUNCTION plinko_active_seed(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Estado público del seed activo (sin revelar el server seed)
+CREATE OR REPLACE FUNCTION get_plinko_seed()
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  v_seed plinko_seeds;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  v_seed := plinko_active_seed(auth.uid());
+
+  RETURN jsonb_build_object(
+    'server_seed_hash', v_seed.server_seed_hash,
+    'client_seed', v_seed.client_seed,
+    'nonce', v_seed.nonce
+  );
+END;
+$$;
+
+-- Tablas de multiplicadores por riesgo y filas (mismas que MULTIPLIERS en multipliers.ts)
+CREATE TABLE IF NOT EXISTS plinko_payout_tables (
+  risk TEXT NOT NULL CHECK (risk IN ('low', 'medium', 'high')),
+  rows INTEGER NOT NULL CHECK (rows BETWEEN 8 AND 16),
+  multipliers DECIMAL(10,2)[] NOT NULL,
+  PRIMARY KEY (risk, rows)
+);
+
+-- Sin políticas: solo la leen las funciones
+ALTER TABLE plinko_payout_tables ENABLE ROW LEVEL SECURITY;
+
+INSERT INTO plinko_payout_tables (risk, rows, multipliers)
+VALUES
+  ('low', 8, ARRAY[5.6, 2.1, 1.1, 1.0, 0.5, 1.0, 1.1, 2.1, 5.6]),
+  ('low', 9, ARRAY[5.6, 2.0, 1.6, 1.0, 0.7, 0.7, 1.0, 1.6, 2.0, 5.6]),
+  ('low', 10, ARRAY[8.9, 3.0, 1.4, 1.1, 1.0, 0.5, 1.0, 1.1, 1.4, 3.0, 8.9]),
+  ('low', 11, ARRAY[8.4, 3.0, 1.9, 1.3, 1.0, 0.7, 0.7, 1.0, 1.3, 1.9, 3.0, 8.4]),
+  ('low', 12, ARRAY[10, 3.0, 1.6, 1.4, 1.1, 1.0, 0.5, 1.0, 1.1, 1.4, 1.6, 3.0, 10]),
+  ('low', 13, ARRAY[8.1, 4.0, 3.0, 1.9, 1.2, 0.9, 0.7, 0.7, 0.9, 1.2, 1.9, 3.0, 4.0, 8.1]),
+  ('low', 14, ARRAY[7.1, 4.0, 1.9, 1.4, 1.3, 1.1, 1.0, 0.5, 1.0, 1.1, 1.3, 1.4, 1.9, 4.0, 7.1]),
+  ('low', 15, ARRAY[15, 8.0, 3.0, 2.0, 1.5, 1.1, 1.0, 0.7, 0.7, 1.0, 1.1, 1.5, 2.0, 3.0, 8.0, 15]),
+  ('low', 16, ARRAY[16, 9.0, 2.0, 1.4, 1.4, 1.2, 1.1, 1.0, 0.5, 1.0, 1.1, 1.2, 1.4, 1.4, 2.0, 9.0, 16]),
+  ('medium', 8, ARRAY[13, 3.0, 1.3, 0.7, 0.4, 0.7, 1.3, 3.0, 13]),
+  ('medium', 9, ARRAY[18, 4.0, 1.7, 0.9, 0.5, 0.5, 0.9, 1.7, 4.0, 18]),
+  ('medium', 10, ARRAY[22, 5.0, 2.0, 1.4, 0.6, 0.4, 0.6, 1.4, 2.0, 5.0, 22]),
+  ('medium', 11, ARRAY[24, 6.0, 3.0, 1.8, 0.7, 0.5, 0.5, 0.7, 1.8, 3.0, 6.0, 24]),
+  ('medium', 12, ARRAY[33, 11, 4.0, 2.0, 1.1, 0.6, 0.3, 0.6, 1.1, 2.0, 4.0, 11, 33]),
+  ('medium', 13, ARRAY[43, 13, 6.0, 3.0, 1.3, 0.7, 0.4, 0.4, 0.7, 1.3, 3.0, 6.0, 13, 43]),
+  ('medium', 14, ARRAY[58, 15, 7.0, 4.0, 1.9, 1.0, 0.5, 0.2, 0.5, 1.0, 1.9, 4.0, 7.0, 15, 58]),
+  ('medium', 15, ARRAY[88, 18, 11, 5.0, 3.0, 1.3, 0.5, 0.3, 0.3, 0.5, 1.3, 3.0, 5.0, 11, 18, 88]),
+  ('medium', 16, ARRAY[110, 41, 10, 5.0, 3.0, 1.5, 1.0, 0.5, 0.3, 0.5, 1.0, 1.5, 3.0, 5.0, 10, 41, 110]),
+  ('high', 8, ARRAY[29, 4.0, 1.5, 0.3, 0.2, 0.3, 1.5, 4.0, 29]),
+  ('high', 9, ARRAY[43, 7.0, 2.0, 0.6, 0.2, 0.2, 0.6, 2.0, 7.0, 43]),
+  ('high', 10, ARRAY[76, 10, 3.0, 0.9, 0.3, 0.2, 0.3, 0.9, 3.0, 10, 76]),
+  ('high', 11, ARRAY[120, 14, 5.2, 1.4, 0.4, 0.2, 0.2, 0.4, 1.4, 5.2, 14, 120]),
+  ('high', 12, ARRAY[170, 24, 8.1, 2.0, 0.7, 0.2, 0.2, 0.2, 0.7, 2.0, 8.1, 24, 170]),
+  ('high', 13, ARRAY[260, 37, 11, 4.0, 1.0, 0.2, 0.2, 0.2, 0.2, 1.0, 4.0, 11, 37, 260]),
+  ('high', 14, ARRAY[420, 56, 18, 5.0, 1.9, 0.3, 0.2, 0.2, 0.2, 0.3, 1.9, 5.0, 18, 56, 420]),
+  ('high', 15, ARRAY[620, 83, 27, 8.0, 3.0, 0.5, 0.2, 0.2, 0.2, 0.2, 0.5, 3.0, 8.0, 27, 83, 620]),
+  ('high', 16, ARRAY[1000, 130, 26, 9.0, 4.0, 2.0, 0.2, 0.2, 0.2, 0.2, 0.2, 2.0, 4.0, 9.0, 26, 130, 1000])
+ON CONFLICT (risk, rows) DO UPDATE SET multipliers = EXCLUDED.multipliers;
+
+-- Cada bola jugada: apuesta, tirada y pago verificables
+CREATE TABLE IF NOT EXISTS plinko_rolls (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  seed_id UUID REFERENCES plinko_seeds(id) ON DELETE CASCADE NOT NULL,
+  nonce INTEGER NOT NULL,
+  rows INTEGER NOT NULL,
+  risk TEXT NOT NULL,
+  bet_amount DECIMAL(15,2) NOT NULL CHECK (bet_amount > 0),
+  slot_index INTEGER NOT NULL,
+  multiplier DECIMAL(10,2) NOT NULL,
+  payout DECIMAL(15,2) NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  UNIQUE (seed_id, nonce)
+);
+
+CREATE INDEX IF NOT EXISTS idx_plinko_rolls_user
+ON plinko_rolls (user_id, created_at DESC);
+
+ALTER TABLE plinko_rolls ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their rolls"
+  ON plinko_rolls FOR SELECT
+  USING (auth.uid() = user_id);
+
+-- Soltar una bola: debita la apuesta, firma el nonce actual, calcula la casilla
+-- y acredita el pago, todo en la misma transacción
+CREATE OR REPLACE FUNCTION plinko_drop(
+  p_bet_amount DECIMAL,
+  p_rows INTEGER,
+  p_risk TEXT
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  v_seed plinko_seeds;
+  v_multipliers DECIMAL[];
+  v_hash TEXT;
+  v_slot INTEGER := 0;
+  v_multiplier DECIMAL;
+  v_payout DECIMAL;
+  v_wallet wallets;
+  v_roll_id UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  -- Mismo máximo que BET_CONFIG.MAX_BET
+  IF p_bet_amount IS NULL OR p_bet_amount <= 0 OR p_bet_amount > 1000 THEN
+    RAISE EXCEPTION 'Invalid amount';
+  END IF;
+
+  SELECT multipliers INTO v_multipliers
+  FROM plinko_payout_tables
+  WHERE risk = p_risk AND rows = p_rows;
+
+  IF v_multipliers IS NULL THEN
+    RAISE EXCEPTION 'Invalid board';
+  END IF;
+
+  v_wallet := place_bet(
+    auth.uid(), p_bet_amount, 'plinko', 'Apuesta en Plinko (' || p_rows || ' filas)'
+  );
+
+  v_seed := plinko_active_seed(auth.uid());
+
+  v_hash := encode(
+    hmac(v_seed.client_seed || ':' || v_seed.nonce, v_seed.server_seed, 'sha256'),
+    'hex'
+  );
+
+  -- Fila i usa el bit i del hash (MSB primero): 0 = izquierda, 1 = derecha.
+  -- La casilla es la cantidad de rebotes a la derecha (ver pathFromHash)
+  FOR i IN 0..p_rows - 1 LOOP
+    v_slot := v_slot + ((get_byte(decode(v_hash, 'hex'), i / 8) >> (7 - i % 8)) & 1);
+  END LOOP;
+
+  v_multiplier := v_multipliers[v_slot + 1];
+  v_payout := round(p_bet_amount * v_multiplier, 2);
+
+  UPDATE plinko_seeds
+  SET nonce = nonce + 1
+  WHERE id = v_seed.id;
+
+  INSERT INTO plinko_rolls (user_id, seed_id, nonce, rows, risk, bet_amount, slot_index, multiplier, payout)
+  VALUES (auth.uid(), v_seed.id, v_seed.nonce, p_rows, p_risk, p_bet_amount, v_slot, v_multiplier, v_payout)
+  RETURNING id INTO v_roll_id;
+
+  IF v_payout > 0 THEN
+    v_wallet := record_win(
+      auth.uid(), v_payout, 'plinko', 'Multiplicador x' || v_multiplier,
+      jsonb_build_object('roll_id', v_roll_id, 'multiplier', v_multiplier, 'rows', p_rows, 'risk', p_risk)
+    );
+  END IF;
+
+  RETURN jsonb_build_object(
+    'roll_id', v_roll_id,
+    'hash', v_hash,
+    'server_seed_hash', v_seed.server_seed_hash,
+    'client_seed', v_seed.client_seed,
+    'nonce', v_seed.nonce,
+    'slot_index', v_slot,
+    'multiplier', v_multiplier,
+    'payout', v_payout,
+    'balance', v_wallet.balance
+  );
+END;
+$$;
+
+-- Rotar seed: revela el server seed actual y compromete uno nuevo
+CREATE OR REPLACE FUNCTION rotate_plinko_seed(
+  p_client_seed TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  v_previous plinko_seeds;
+  v_current plinko_seeds;
+  v_server_seed TEXT;
+  v_client_seed TEXT;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  v_client_seed := NULLIF(btrim(p_client_seed), '');
+  IF v_client_seed IS NOT NULL AND length(v_client_seed) > 64 THEN
+    RAISE EXCEPTION 'Client seed too long';
+  END IF;
+
+  v_previous := plinko_active_seed(auth.uid());
+
+  UPDATE plinko_seeds
+  SET is_active = false, revealed_at = NOW()
+  WHERE id = v_previous.id
+  RETURNING * INTO v_previous;
+
+  v_server_seed := encode(gen_random_bytes(32), 'hex');
+
+  INSERT INTO plinko_seeds (user_id, server_seed, server_seed_hash, client_seed)
+  VALUES (
+    auth.uid(),
+    v_server_seed,
+    encode(digest(v_server_seed, 'sha256'), 'hex'),
+    COALESCE(v_client_seed, encode(gen_random_bytes(8), 'hex'))
+  )
+  RETURNING * INTO v_current;
+
+  RETURN jsonb_build_object(
+    'previous', jsonb_build_object(
+      'server_seed', v_previous.server_seed,
+      'server_seed_hash', v_previous.server_seed_hash,
+      'client_seed', v_previous.client_seed,
+      'nonce', v_previous.nonce,
+      'revealed_at', v_previous.revealed_at
+    ),
+    'current', jsonb_build_object(
+      'server_seed_hash', v_current.server_seed_hash,
+      'client_seed', v_current.client_seed,
+      'nonce', v_current.nonce
+    )
+  );
+END;
+$$;
+
+-- Dar permisos a usuarios autenticados
+GRANT EXECUTE ON FUNCTION get_plinko_seed() TO authenticated;
+GRANT EXECUTE ON FUNCTION plinko_drop(DECIMAL, INTEGER, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION rotate_plinko_seed(TEXT) TO authenticated;
@@ -0,0 +1,34 @@
+-- Salas de Conecta 4
+-- Las funciones de matchmaking (006-009) y la revancha crean el tablero vacío
+-- de Tic Tac Toe (9 casillas). Este trigger ajusta el tablero inicial según el
+-- juego de la sala, así las funciones existentes sirven para todos los juegos.
+
+-- Tablero vacío para cada tipo de juego
+CREATE OR REPLACE FUNCTION initial_game_board(p_game_type TEXT)
+RETURNS JSONB
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT to_jsonb(array_fill(''::text, ARRAY[
+    CASE p_game_type
+      WHEN 'connect-four' THEN 42 -- 6 filas x 7 columnas
+      ELSE 9
+    END
+  ]));
+$$;
+
+-- Trigger: toda sala nueva empieza con el tablero vacío de su juego
+CREATE OR REPLACE FUNCTION set_initial_game_board()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  NEW.board := initial_game_board(NEW.game_type);
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_game_room_set_initial_board ON game_rooms;
+CREATE TRIGGER on_game_room_set_initial_board
+  BEFORE INSERT ON game_rooms
+  FOR EACH ROW EXECUTE FUNCTION set_initial_game_board();
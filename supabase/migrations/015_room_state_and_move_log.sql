@@ -0,0 +1,95 @@
+-- Estado de sala genérico
+-- Cada juego guarda su estado serializado en state (JSONB, ver GameStateSerializer)
+-- y el servidor agrega cada jugada validada a move_log. La columna board queda
+-- solo por compatibilidad con las funciones de matchmaking y ya no se lee.
+
+ALTER TABLE game_rooms
+  ADD COLUMN IF NOT EXISTS state JSONB,
+  ADD COLUMN IF NOT EXISTS move_log JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+-- Migrar salas existentes: el tablero pasa a state y el turno se deduce de current_turn
+UPDATE game_rooms
+SET state = jsonb_build_object(
+  'board', board,
+  'turn', CASE WHEN current_turn = player2_id THEN 'O' ELSE 'X' END
+)
+WHERE state IS NULL
+  AND game_type = 'tic-tac-toe'
+  AND board IS NOT NULL
+  AND board <> '["", "", "", "", "", "", "", "", ""]'::jsonb;
+
+UPDATE game_rooms
+SET state = jsonb_build_object(
+  'board', board,
+  'turn', CASE WHEN current_turn = player2_id THEN 'Y' ELSE 'R' END
+)
+WHERE state IS NULL
+  AND game_type = 'connect-four'
+  AND board IS NOT NULL
+  AND EXISTS (SELECT 1 FROM jsonb_array_elements_text(board) AS cell WHERE cell <> '');
+
+-- state NULL = estado inicial del motor, así que el tablero inicial por juego ya no hace falta
+DROP TRIGGER IF EXISTS on_game_room_set_initial_board ON game_rooms;
+DROP FUNCTION IF EXISTS set_initial_game_board();
+DROP FUNCTION IF EXISTS initial_game_board(TEXT);
+
+-- Trigger: state y move_log también son solo del servidor (mismos chequeos de 012)
+CREATE OR REPLACE FUNCTION protect_game_room_state()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF current_user NOT IN ('anon', 'authenticated') THEN
+    RETURN NEW;
+  END IF;
+
+  -- Una sala nueva la crea su jugador 1, vacía y en espera: el rival entra por
+  -- join_room y la revancha por accept_rematch. Si no, un cliente podría insertar
+  -- una sala ya terminada a su favor o una en curso contra cualquier usuario.
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.status IS DISTINCT FROM 'waiting'
+      OR NEW.player1_id IS DISTINCT FROM auth.uid()
+      OR NEW.current_turn IS DISTINCT FROM NEW.player1_id
+      OR NEW.player2_id IS NOT NULL
+      OR NEW.winner_id IS NOT NULL
+      OR NEW.is_draw IS DISTINCT FROM false
+      OR NEW.state IS NOT NULL
+      OR jsonb_array_length(NEW.move_log) > 0
+      OR NEW.rematch_room_id IS NOT NULL THEN
+      RAISE EXCEPTION 'Rooms can only be created empty and waiting';
+    END IF;
+
+    -- Solo trae la propuesta del creador: el acuerdo (y el escrow que
+    -- dispara) pasa siempre por las funciones de negociación
+    IF NEW.metadata ?| ARRAY['bet_amount', 'player2_bet_proposal', 'escrow_status']
+      OR COALESCE(NEW.metadata->>'negotiation_state', 'none') != 'none' THEN
+      RAISE EXCEPTION 'Bets can only be agreed through the server';
+    END IF;
+
+    RETURN NEW;
+  END IF;
+
+  IF NEW.board IS DISTINCT FROM OLD.board
+    OR NEW.state IS DISTINCT FROM OLD.state
+    OR NEW.move_log IS DISTINCT FROM OLD.move_log
+    OR NEW.current_turn IS DISTINCT FROM OLD.current_turn
+    OR NEW.winner_id IS DISTINCT FROM OLD.winner_id
+    OR NEW.is_draw IS DISTINCT FROM OLD.is_draw
+    OR (NEW.status = 'finished' AND OLD.status IS DISTINCT FROM 'finished') THEN
+    RAISE EXCEPTION 'Game state can only be changed by the server';
+  END IF;
+
+  -- Jugadores, revancha y apuesta: solo por las funciones de unión y negociación
+  IF NEW.player1_id IS DISTINCT FROM OLD.player1_id
+    OR NEW.player2_id IS DISTINCT FROM OLD.player2_id
+    OR NEW.rematch_room_id IS DISTINCT FROM OLD.rematch_room_id
+    OR NEW.metadata->'negotiation_state' IS DISTINCT FROM OLD.metadata->'negotiation_state'
+    OR NEW.metadata->'bet_amount' IS DISTINCT FROM OLD.metadata->'bet_amount'
+    OR NEW.metadata->'player1_bet_proposal' IS DISTINCT FROM OLD.metadata->'player1_bet_proposal'
+    OR NEW.metadata->'player2_bet_proposal' IS DISTINCT FROM OLD.metadata->'player2_bet_proposal' THEN
+    RAISE EXCEPTION 'Players and bets can only be changed by the server';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
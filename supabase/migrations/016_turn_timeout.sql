@@ -0,0 +1,163 @@
+-- Reloj de turno en partidas online
+-- Cada turno tiene un deadline guardado en metadata.turn_deadline (como
+-- negotiation_deadline). Lo escribe solo el servidor: se reinicia cada vez que
+-- cambia current_turn o la partida empieza. Si vence, el jugador en turno pierde
+-- y el pozo (si hay apuesta) se libera al oponente con el trigger de escrow.
+-- Durante el periodo de gracia por desconexión (017) el reloj se detiene y, al
+-- reconectarse el jugador, el turno sigue con el tiempo que le quedaba.
+
+-- Metadata agregada:
+-- {
+--   "turn_deadline": string | null,  -- ISO timestamp de cuando vence el turno actual
+--   "turn_remaining_ms": number | null,  -- tiempo que le quedaba al turno pausado
+--   "finish_reason": string | null   -- 'timeout' si la partida terminó por tiempo
+-- }
+
+-- Tiempo por turno según el juego
+CREATE OR REPLACE FUNCTION turn_time_limit(p_game_type TEXT)
+RETURNS INTERVAL
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE p_game_type
+    WHEN 'chess' THEN INTERVAL '2 minutes'
+    ELSE INTERVAL '30 seconds'
+  END;
+$$;
+
+-- Trigger: mantener turn_deadline (los clientes no pueden moverlo)
+CREATE OR REPLACE FUNCTION set_turn_deadline()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_is_turn_running BOOLEAN;
+  v_was_running BOOLEAN;
+  v_turn_started BOOLEAN;
+  v_paused_ms BIGINT;
+BEGIN
+  NEW.metadata := COALESCE(NEW.metadata, '{}'::jsonb);
+
+  -- El reloj no corre mientras se negocia la apuesta ni durante el periodo de gracia
+  v_is_turn_running := NEW.status = 'playing'
+    AND NEW.current_turn IS NOT NULL
+    AND COALESCE(NEW.metadata->>'negotiation_state', 'none') != 'pending'
+    AND NOT NEW.metadata ? 'disconnected_player_id';
+
+  v_was_running := TG_OP = 'UPDATE' AND COALESCE(OLD.metadata ? 'turn_deadline', false);
+
+  -- Lo que le quedaba al turno pausado: se parte del valor guardado, nunca del
+  -- que manda el cliente, y deja de valer si cambió el jugador en turno
+  v_paused_ms := CASE
+    WHEN TG_OP = 'UPDATE' AND NEW.current_turn IS NOT DISTINCT FROM OLD.current_turn
+      THEN (OLD.metadata->>'turn_remaining_ms')::BIGINT
+  END;
+  NEW.metadata := NEW.metadata - 'turn_remaining_ms';
+
+  IF NOT v_is_turn_running THEN
+    -- Pausa por desconexión: guardar el tiempo restante para reanudarlo igual
+    IF v_was_running AND NEW.status = 'playing' AND NEW.metadata ? 'disconnected_player_id' THEN
+      v_paused_ms := GREATEST(0,
+        (EXTRACT(EPOCH FROM ((OLD.metadata->>'turn_deadline')::timestamptz - NOW())) * 1000)::BIGINT
+      );
+    END IF;
+
+    IF v_paused_ms IS NOT NULL AND NEW.status = 'playing' THEN
+      NEW.metadata := NEW.metadata || jsonb_build_object('turn_remaining_ms', v_paused_ms);
+    END IF;
+
+    NEW.metadata := NEW.metadata - 'turn_deadline';
+    RETURN NEW;
+  END IF;
+
+  v_turn_started := TG_OP = 'INSERT'
+    OR OLD.status IS DISTINCT FROM 'playing'
+    OR NEW.current_turn IS DISTINCT FROM OLD.current_turn
+    OR OLD.metadata->>'negotiation_state' = 'pending'
+    OR NOT v_was_running;
+
+  IF NOT v_turn_started THEN
+    NEW.metadata := NEW.metadata || jsonb_build_object(
+      'turn_deadline', OLD.metadata->'turn_deadline'
+    );
+  ELSIF v_paused_ms IS NOT NULL THEN
+    -- Fin de la pausa: el mismo turno sigue con lo que le quedaba
+    NEW.metadata := NEW.metadata || jsonb_build_object(
+      'turn_deadline', NOW() + make_interval(secs => v_paused_ms / 1000.0)
+    );
+  ELSE
+    NEW.metadata := NEW.metadata || jsonb_build_object(
+      'turn_deadline', NOW() + turn_time_limit(NEW.game_type)
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_game_room_turn_deadline ON game_rooms;
+CREATE TRIGGER on_game_room_turn_deadline
+  BEFORE INSERT OR UPDATE ON game_rooms
+  FOR EACH ROW EXECUTE FUNCTION set_turn_deadline();
+
+-- Verificar timeout de turno (llamada por los clientes y por la ruta de movimientos)
+CREATE OR REPLACE FUNCTION check_turn_timeout(
+  p_room_id UUID
+)
+RETURNS game_rooms
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_room game_rooms;
+  v_deadline TIMESTAMP WITH TIME ZONE;
+  v_winner_id UUID;
+BEGIN
+  -- Obtener sala con lock
+  SELECT * INTO v_room
+  FROM game_rooms
+  WHERE id = p_room_id
+  FOR UPDATE;
+
+  IF v_room IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  -- Solo procesar partidas en curso y fuera del periodo de gracia
+  -- (ahí decide check_disconnect_timeout)
+  IF v_room.status != 'playing' OR v_room.metadata ? 'disconnected_player_id' THEN
+    RETURN v_room;
+  END IF;
+
+  -- Verificar deadline
+  v_deadline := (v_room.metadata->>'turn_deadline')::timestamp with time zone;
+
+  IF v_deadline IS NOT NULL AND NOW() > v_deadline THEN
+    -- Timeout: pierde el jugador en turno
+    v_winner_id := CASE
+      WHEN v_room.current_turn = v_room.player1_id THEN v_room.player2_id
+      ELSE v_room.player1_id
+    END;
+
+    UPDATE game_rooms
+    SET
+      status = 'finished',
+      winner_id = v_winner_id,
+      is_draw = false,
+      metadata = metadata || jsonb_build_object('finish_reason', 'timeout'),
+      updated_at = NOW()
+    WHERE id = p_room_id
+    RETURNING * INTO v_room;
+  END IF;
+
+  RETURN v_room;
+END;
+$$;
+
+-- Dar permisos a usuarios autenticados
+GRANT EXECUTE ON FUNCTION check_turn_timeout(UUID) TO authenticated;
+
+-- Salas en curso al aplicar la migración: arrancar el reloj del turno actual
+UPDATE game_rooms
+SET updated_at = updated_at
+WHERE status = 'playing';
@@ -0,0 +1,225 @@
+-- Desconexiones en partidas online
+-- La presencia se sigue en el canal realtime de la sala. Cuando un jugador deja
+-- de aparecer, su oponente lo reporta y empieza un periodo de gracia guardado en
+-- metadata (como negotiation_deadline). Si el jugador vuelve, limpia la marca; si
+-- el periodo vence, pierde la partida y el pozo se libera al oponente.
+-- Mientras dura la marca no corre el reloj de turno (set_turn_deadline, 016) y al
+-- volver el turno sigue con el tiempo que le quedaba. Cada jugador puede reportar
+-- una sola vez por partida, así que reportar al rival no sirve para frenar el juego.
+
+-- Metadata agregada:
+-- {
+--   "disconnected_player_id": string | null,  -- jugador que perdió la conexión
+--   "disconnect_deadline": string | null,     -- ISO timestamp del fin del periodo de gracia
+--   "disconnect_reports": string[] | null     -- jugadores que ya usaron su reporte
+-- }
+-- finish_reason suma 'disconnect'
+
+-- Periodo de gracia configurable por base de datos:
+--   ALTER DATABASE postgres SET app.disconnect_grace_seconds = '90';
+CREATE OR REPLACE FUNCTION disconnect_grace_period()
+RETURNS INTERVAL
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT make_interval(secs => COALESCE(
+    NULLIF(current_setting('app.disconnect_grace_seconds', true), '')::INTEGER,
+    60
+  ));
+$$;
+
+-- Trigger: los clientes no pueden escribir la marca de desconexión directamente
+CREATE OR REPLACE FUNCTION protect_disconnect_state()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF current_user NOT IN ('anon', 'authenticated') THEN
+    RETURN NEW;
+  END IF;
+
+  NEW.metadata := COALESCE(NEW.metadata, '{}'::jsonb)
+    - 'disconnected_player_id'
+    - 'disconnect_deadline'
+    - 'disconnect_reports';
+
+  IF OLD.metadata ? 'disconnect_reports' THEN
+    NEW.metadata := NEW.metadata || jsonb_build_object(
+      'disconnect_reports', OLD.metadata->'disconnect_reports'
+    );
+  END IF;
+
+  IF OLD.metadata ? 'disconnected_player_id' THEN
+    NEW.metadata := NEW.metadata || jsonb_build_object(
+      'disconnected_player_id', OLD.metadata->'disconnected_player_id',
+      'disconnect_deadline', OLD.metadata->'disconnect_deadline'
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_game_room_protect_disconnect ON game_rooms;
+CREATE TRIGGER on_game_room_protect_disconnect
+  BEFORE UPDATE ON game_rooms
+  FOR EACH ROW EXECUTE FUNCTION protect_disconnect_state();
+
+-- Reportar que el oponente se desconectó (inicia el periodo de gracia)
+CREATE OR REPLACE FUNCTION report_player_disconnect(
+  p_room_id UUID
+)
+RETURNS game_rooms
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_room game_rooms;
+  v_opponent_id UUID;
+BEGIN
+  -- Obtener sala con lock
+  SELECT * INTO v_room
+  FROM game_rooms
+  WHERE id = p_room_id
+  FOR UPDATE;
+
+  IF v_room IS NULL THEN
+    RAISE EXCEPTION 'Room not found';
+  END IF;
+
+  -- Verificar que el jugador es parte de la sala
+  IF auth.uid() IS DISTINCT FROM v_room.player1_id AND auth.uid() IS DISTINCT FROM v_room.player2_id THEN
+    RAISE EXCEPTION 'Player not in room';
+  END IF;
+
+  -- Solo en partidas en curso y sin un periodo de gracia ya iniciado
+  IF v_room.status != 'playing' OR v_room.metadata ? 'disconnected_player_id' THEN
+    RETURN v_room;
+  END IF;
+
+  -- Un reporte por jugador y partida
+  IF COALESCE(v_room.metadata->'disconnect_reports', '[]'::jsonb) ? auth.uid()::TEXT THEN
+    RETURN v_room;
+  END IF;
+
+  v_opponent_id := CASE WHEN v_room.player1_id = auth.uid() THEN v_room.player2_id ELSE v_room.player1_id END;
+
+  UPDATE game_rooms
+  SET
+    metadata = COALESCE(metadata, '{}'::jsonb) || jsonb_build_object(
+      'disconnected_player_id', v_opponent_id,
+      'disconnect_deadline', NOW() + disconnect_grace_period(),
+      'disconnect_reports', COALESCE(metadata->'disconnect_reports', '[]'::jsonb) || to_jsonb(auth.uid()::TEXT)
+    ),
+    updated_at = NOW()
+  WHERE id = p_room_id
+  RETURNING * INTO v_room;
+
+  RETURN v_room;
+END;
+$$;
+
+-- Marcar que el jugador volvió (cancela el periodo de gracia)
+CREATE OR REPLACE FUNCTION clear_player_disconnect(
+  p_room_id UUID
+)
+RETURNS game_rooms
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_room game_rooms;
+BEGIN
+  -- Obtener sala con lock
+  SELECT * INTO v_room
+  FROM game_rooms
+  WHERE id = p_room_id
+  FOR UPDATE;
+
+  IF v_room IS NULL THEN
+    RAISE EXCEPTION 'Room not found';
+  END IF;
+
+  -- Solo el jugador marcado puede limpiar su desconexión
+  IF (v_room.metadata->>'disconnected_player_id')::UUID IS DISTINCT FROM auth.uid() THEN
+    RETURN v_room;
+  END IF;
+
+  UPDATE game_rooms
+  SET
+    metadata = metadata - 'disconnected_player_id' - 'disconnect_deadline',
+    updated_at = NOW()
+  WHERE id = p_room_id
+  RETURNING * INTO v_room;
+
+  RETURN v_room;
+END;
+$$;
+
+-- Verificar fin del periodo de gracia (llamada por el oponente que sigue conectado)
+CREATE OR REPLACE FUNCTION check_disconnect_timeout(
+  p_room_id UUID
+)
+RETURNS game_rooms
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_room game_rooms;
+  v_deadline TIMESTAMP WITH TIME ZONE;
+  v_disconnected_id UUID;
+  v_winner_id UUID;
+BEGIN
+  -- Obtener sala con lock
+  SELECT * INTO v_room
+  FROM game_rooms
+  WHERE id = p_room_id
+  FOR UPDATE;
+
+  IF v_room IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  -- Solo procesar partidas en curso
+  IF v_room.status != 'playing' THEN
+    RETURN v_room;
+  END IF;
+
+  v_disconnected_id := (v_room.metadata->>'disconnected_player_id')::UUID;
+  v_deadline := (v_room.metadata->>'disconnect_deadline')::timestamp with time zone;
+
+  IF v_disconnected_id IS NOT NULL AND v_deadline IS NOT NULL AND NOW() > v_deadline THEN
+    -- Periodo de gracia vencido: pierde el jugador desconectado
+    v_winner_id := CASE
+      WHEN v_disconnected_id = v_room.player1_id THEN v_room.player2_id
+      ELSE v_room.player1_id
+    END;
+
+    UPDATE game_rooms
+    SET
+      status = 'finished',
+      winner_id = v_winner_id,
+      is_draw = false,
+      metadata = metadata || jsonb_build_object('finish_reason', 'disconnect'),
+      updated_at = NOW()
+    WHERE id = p_room_id
+    RETURNING * INTO v_room;
+  END IF;
+
+  RETURN v_room;
+END;
+$$;
+
+-- Dar permisos a usuarios autenticados
+GRANT EXECUTE ON FUNCTION report_player_disconnect(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION clear_player_disconnect(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION check_disconnect_timeout(UUID) TO authenticated;
+
+-- Índice para encontrar la partida activa de un jugador al recargar
+CREATE INDEX IF NOT EXISTS idx_game_rooms_active_player1
+ON game_rooms (player1_id, updated_at DESC)
+WHERE status = 'playing';
+
+CREATE INDEX IF NOT EXISTS idx_game_rooms_active_player2
+ON game_rooms (player2_id, updated_at DESC)
+WHERE status = 'playing';
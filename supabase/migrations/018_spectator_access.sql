@@ -0,0 +1,15 @@
+-- Modo espectador
+-- Cualquiera puede leer las salas públicas en curso (y recibir sus cambios por
+-- realtime, que respeta estas políticas). Las salas privadas y las que están
+-- esperando rival siguen visibles solo según las políticas existentes.
+
+DROP POLICY IF EXISTS "Anyone can view public live rooms" ON game_rooms;
+CREATE POLICY "Anyone can view public live rooms"
+ON game_rooms FOR SELECT
+TO anon, authenticated
+USING (status = 'playing' AND is_private = false);
+
+-- Índice para listar partidas en vivo por juego
+CREATE INDEX IF NOT EXISTS idx_game_rooms_live
+ON game_rooms (game_type, updated_at DESC)
+WHERE status = 'playing' AND is_private = false;
@@ -0,0 +1,518 @@
+-- Rating por juego (Glicko-1) y matchmaking por nivel
+-- Cada jugador tiene un rating por game_type que el servidor actualiza cuando
+-- termina una partida pública (las salas privadas no cuentan). El cambio de
+-- rating de cada jugador queda en metadata.rating_changes para mostrarlo al
+-- terminar. El matchmaking empareja solo dentro de una ventana de rating que se
+-- amplía mientras la sala espera.
+
+-- Metadata agregada:
+-- {
+--   "rating_changes": {                -- solo lo escribe el servidor
+--     "<player_id>": { "rating": number, "delta": number }
+--   } | null
+-- }
+
+CREATE TABLE IF NOT EXISTS player_ratings (
+  user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  game_type TEXT NOT NULL,
+  rating NUMERIC(7, 2) NOT NULL DEFAULT 1500,
+  rating_deviation NUMERIC(6, 2) NOT NULL DEFAULT 350,
+  games_played INTEGER NOT NULL DEFAULT 0,
+  wins INTEGER NOT NULL DEFAULT 0,
+  losses INTEGER NOT NULL DEFAULT 0,
+  draws INTEGER NOT NULL DEFAULT 0,
+  -- Rating provisional hasta completar 10 partidas
+  is_provisional BOOLEAN GENERATED ALWAYS AS (games_played < 10) STORED,
+  last_played_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (user_id, game_type)
+);
+
+-- Índice para el leaderboard
+CREATE INDEX IF NOT EXISTS idx_player_ratings_leaderboard
+ON player_ratings (game_type, rating DESC);
+
+-- RLS: cualquiera puede ver los ratings; solo el servidor los escribe
+ALTER TABLE player_ratings ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Anyone can view ratings" ON player_ratings;
+CREATE POLICY "Anyone can view ratings"
+ON player_ratings FOR SELECT
+USING (true);
+
+-- Rating actual de un jugador (1500 si todavía no jugó partidas puntuadas)
+CREATE OR REPLACE FUNCTION player_rating(p_player_id UUID, p_game_type TEXT)
+RETURNS NUMERIC
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+  SELECT COALESCE(
+    (SELECT rating FROM player_ratings WHERE user_id = p_player_id AND game_type = p_game_type),
+    1500
+  );
+$$;
+
+-- Ventana de rating aceptada por una sala en espera:
+-- ±100 al crearla y +50 por cada 10 segundos que pasa esperando
+CREATE OR REPLACE FUNCTION rating_search_window(p_waiting_since TIMESTAMP WITH TIME ZONE)
+RETURNS NUMERIC
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT 100 + 50 * FLOOR(GREATEST(EXTRACT(EPOCH FROM NOW() - p_waiting_since), 0) / 10);
+$$;
+
+-- Glicko-1 para una sola partida
+-- p_score: 1 = victoria, 0.5 = empate, 0 = derrota
+CREATE OR REPLACE FUNCTION glicko_rate(
+  p_rating NUMERIC,
+  p_rd NUMERIC,
+  p_opponent_rating NUMERIC,
+  p_opponent_rd NUMERIC,
+  p_score NUMERIC,
+  OUT new_rating NUMERIC,
+  OUT new_rd NUMERIC
+)
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+  v_q DOUBLE PRECISION := LN(10) / 400;
+  v_g DOUBLE PRECISION;
+  v_expected DOUBLE PRECISION;
+  v_d2 DOUBLE PRECISION;
+  v_denominator DOUBLE PRECISION;
+BEGIN
+  v_g := 1 / SQRT(1 + 3 * v_q ^ 2 * p_opponent_rd::DOUBLE PRECISION ^ 2 / PI() ^ 2);
+  v_expected := 1 / (1 + 10 ^ (-v_g * (p_rating - p_opponent_rating)::DOUBLE PRECISION / 400));
+  v_d2 := 1 / (v_q ^ 2 * v_g ^ 2 * v_expected * (1 - v_expected));
+  v_denominator := 1 / p_rd::DOUBLE PRECISION ^ 2 + 1 / v_d2;
+
+  new_rating := ROUND((p_rating + v_q / v_denominator * v_g * (p_score - v_expected))::NUMERIC, 2);
+  -- La desviación nunca baja de 30 para que el rating siga moviéndose
+  new_rd := ROUND(GREATEST(SQRT(1 / v_denominator), 30)::NUMERIC, 2);
+END;
+$$;
+
+-- Desviación al empezar una partida: crece con la inactividad (hasta 350)
+CREATE OR REPLACE FUNCTION glicko_current_rd(
+  p_rd NUMERIC,
+  p_last_played_at TIMESTAMP WITH TIME ZONE
+)
+RETURNS NUMERIC
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT CASE
+    WHEN p_last_played_at IS NULL THEN p_rd
+    ELSE LEAST(
+      SQRT(p_rd ^ 2 + 15 ^ 2 * EXTRACT(EPOCH FROM NOW() - p_last_played_at) / 86400),
+      350
+    )
+  END;
+$$;
+
+-- Registrar una partida puntuada y devolver el cambio de rating de cada jugador
+CREATE OR REPLACE FUNCTION record_rated_game(
+  p_game_type TEXT,
+  p_player1_id UUID,
+  p_player2_id UUID,
+  p_player1_score NUMERIC
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_p1 player_ratings;
+  v_p2 player_ratings;
+  v_p1_rd NUMERIC;
+  v_p2_rd NUMERIC;
+  v_p1_new RECORD;
+  v_p2_new RECORD;
+BEGIN
+  INSERT INTO player_ratings (user_id, game_type)
+  VALUES (p_player1_id, p_game_type), (p_player2_id, p_game_type)
+  ON CONFLICT (user_id, game_type) DO NOTHING;
+
+  -- Bloquear en orden de user_id para evitar deadlocks entre partidas simultáneas
+  PERFORM 1 FROM player_ratings
+  WHERE game_type = p_game_type
+    AND user_id IN (p_player1_id, p_player2_id)
+  ORDER BY user_id
+  FOR UPDATE;
+
+  SELECT * INTO v_p1 FROM player_ratings WHERE user_id = p_player1_id AND game_type = p_game_type;
+  SELECT * INTO v_p2 FROM player_ratings WHERE user_id = p_player2_id AND game_type = p_game_type;
+
+  v_p1_rd := glicko_current_rd(v_p1.rating_deviation, v_p1.last_played_at);
+  v_p2_rd := glicko_current_rd(v_p2.rating_deviation, v_p2.last_played_at);
+
+  SELECT * INTO v_p1_new FROM glicko_rate(v_p1.rating, v_p1_rd, v_p2.rating, v_p2_rd, p_player1_score);
+  SELECT * INTO v_p2_new FROM glicko_rate(v_p2.rating, v_p2_rd, v_p1.rating, v_p1_rd, 1 - p_player1_score);
+
+  UPDATE player_ratings
+  SET
+    rating = v_p1_new.new_rating,
+    rating_deviation = v_p1_new.new_rd,
+    games_played = games_played + 1,
+    wins = wins + CASE WHEN p_player1_score = 1 THEN 1 ELSE 0 END,
+    losses = losses + CASE WHEN p_player1_score = 0 THEN 1 ELSE 0 END,
+    draws = draws + CASE WHEN p_player1_score = 0.5 THEN 1 ELSE 0 END,
+    last_played_at = NOW(),
+    updated_at = NOW()
+  WHERE user_id = p_player1_id AND game_type = p_game_type;
+
+  UPDATE player_ratings
+  SET
+    rating = v_p2_new.new_rating,
+    rating_deviation = v_p2_new.new_rd,
+    games_played = games_played + 1,
+    wins = wins + CASE WHEN p_player1_score = 0 THEN 1 ELSE 0 END,
+    losses = losses + CASE WHEN p_player1_score = 1 THEN 1 ELSE 0 END,
+    draws = draws + CASE WHEN p_player1_score = 0.5 THEN 1 ELSE 0 END,
+    last_played_at = NOW(),
+    updated_at = NOW()
+  WHERE user_id = p_player2_id AND game_type = p_game_type;
+
+  RETURN jsonb_build_object(
+    p_player1_id::TEXT, jsonb_build_object(
+      'rating', v_p1_new.new_rating,
+      'delta', v_p1_new.new_rating - v_p1.rating
+    ),
+    p_player2_id::TEXT, jsonb_build_object(
+      'rating', v_p2_new.new_rating,
+      'delta', v_p2_new.new_rating - v_p2.rating
+    )
+  );
+END;
+$$;
+
+-- Solo la llama el trigger de ratings: nunca expuesta a clientes
+REVOKE EXECUTE ON FUNCTION record_rated_game(TEXT, UUID, UUID, NUMERIC) FROM PUBLIC, anon, authenticated;
+
+-- Trigger: actualizar ratings al terminar una partida pública
+-- (también impide que los clientes escriban rating_changes)
+-- SECURITY DEFINER para poder llamar a record_rated_game aunque la escritura
+-- venga de un cliente; por eso rating_changes se conserva siempre desde OLD.
+CREATE OR REPLACE FUNCTION update_player_ratings()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_player1_score NUMERIC;
+BEGIN
+  NEW.metadata := COALESCE(NEW.metadata, '{}'::jsonb) - 'rating_changes';
+
+  IF OLD.metadata ? 'rating_changes' THEN
+    NEW.metadata := NEW.metadata || jsonb_build_object('rating_changes', OLD.metadata->'rating_changes');
+  END IF;
+
+  IF NEW.status != 'finished'
+    OR OLD.status = 'finished'
+    OR NEW.is_private
+    OR NEW.player1_id IS NULL
+    OR NEW.player2_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  v_player1_score := CASE
+    WHEN NEW.is_draw THEN 0.5
+    WHEN NEW.winner_id = NEW.player1_id THEN 1
+    WHEN NEW.winner_id = NEW.player2_id THEN 0
+    ELSE NULL
+  END;
+
+  IF v_player1_score IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  NEW.metadata := COALESCE(NEW.metadata, '{}'::jsonb) || jsonb_build_object(
+    'rating_changes',
+    record_rated_game(NEW.game_type, NEW.player1_id, NEW.player2_id, v_player1_score)
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_game_room_update_ratings ON game_rooms;
+CREATE TRIGGER on_game_room_update_ratings
+  BEFORE UPDATE ON game_rooms
+  FOR EACH ROW EXECUTE FUNCTION update_player_ratings();
+
+-- Matchmaking por nivel: solo unirse a salas cuyo creador esté dentro de la
+-- ventana de rating de esa sala (la más cercana primero)
+CREATE OR REPLACE FUNCTION find_or_create_match(
+  p_player_id UUID,
+  p_game_type TEXT DEFAULT 'tic-tac-toe'
+)
+RETURNS game_rooms
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_room game_rooms;
+  v_new_room game_rooms;
+  v_rating NUMERIC;
+BEGIN
+  -- Solo se puede emparejar a uno mismo
+  IF p_player_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  v_rating := player_rating(p_player_id, p_game_type);
+
+  SELECT gr.* INTO v_room
+  FROM game_rooms gr
+  WHERE gr.game_type = p_game_type
+    AND gr.status = 'waiting'
+    AND gr.is_private = false
+    AND gr.player1_id != p_player_id
+    AND gr.player2_id IS NULL
+    AND ABS(player_rating(gr.player1_id, p_game_type) - v_rating) <= rating_search_window(gr.created_at)
+  ORDER BY ABS(player_rating(gr.player1_id, p_game_type) - v_rating) ASC, gr.created_at ASC
+  LIMIT 1
+  FOR UPDATE OF gr SKIP LOCKED;
+
+  IF v_room IS NOT NULL THEN
+    -- Unirse a la sala existente
+    UPDATE game_rooms
+    SET
+      player2_id = p_player_id,
+      status = 'playing',
+      updated_at = NOW()
+    WHERE id = v_room.id
+    RETURNING * INTO v_room;
+
+    RETURN v_room;
+  ELSE
+    -- Nadie dentro de la ventana: crear una sala PUBLICA y esperar
+    INSERT INTO game_rooms (
+      game_type,
+      player1_id,
+      current_turn,
+      status,
+      board,
+      is_private
+    )
+    VALUES (
+      p_game_type,
+      p_player_id,
+      p_player_id,
+      'waiting',
+      '["", "", "", "", "", "", "", "", ""]'::jsonb,
+      false
+    )
+    RETURNING * INTO v_new_room;
+
+    RETURN v_new_room;
+  END IF;
+END;
+$$;
+
+-- Misma búsqueda por nivel para el matchmaking con negociación de apuesta
+CREATE OR REPLACE FUNCTION find_or_create_match_v2(
+  p_player_id UUID,
+  p_game_type TEXT DEFAULT 'tic-tac-toe',
+  p_wants_bet BOOLEAN DEFAULT false,
+  p_bet_amount DECIMAL DEFAULT NULL
+)
+RETURNS game_rooms
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_room game_rooms;
+  v_new_room game_rooms;
+  v_metadata JSONB;
+  v_other_wants_bet BOOLEAN;
+  v_other_amount DECIMAL;
+  v_negotiation_state TEXT;
+  v_deadline TIMESTAMP WITH TIME ZONE;
+  v_rating NUMERIC;
+BEGIN
+  -- Solo se puede emparejar a uno mismo
+  IF p_player_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  v_rating := player_rating(p_player_id, p_game_type);
+
+  -- Buscar sala PUBLICA en espera dentro de la ventana de rating
+  SELECT gr.* INTO v_room
+  FROM game_rooms gr
+  WHERE gr.game_type = p_game_type
+    AND gr.status = 'waiting'
+    AND gr.is_private = false
+    AND gr.player1_id != p_player_id
+    AND gr.player2_id IS NULL
+    AND ABS(player_rating(gr.player1_id, p_game_type) - v_rating) <= rating_search_window(gr.created_at)
+  ORDER BY ABS(player_rating(gr.player1_id, p_game_type) - v_rating) ASC, gr.created_at ASC
+  LIMIT 1
+  FOR UPDATE OF gr SKIP LOCKED;
+
+  IF v_room IS NOT NULL THEN
+    -- Hay una sala disponible, determinar estado de negociación
+    v_other_wants_bet := COALESCE((v_room.metadata->>'player1_bet_proposal')::decimal, 0) > 0;
+    v_other_amount := COALESCE((v_room.metadata->>'player1_bet_proposal')::decimal, 0);
+
+    IF NOT p_wants_bet AND NOT v_other_wants_bet THEN
+      -- Ninguno quiere apostar
+      v_negotiation_state := 'none';
+      v_metadata := jsonb_build_object(
+        'negotiation_state', 'none',
+        'bet_amount', NULL
+      );
+    ELSIF p_wants_bet AND v_other_wants_bet AND p_bet_amount = v_other_amount THEN
+      -- Ambos quieren apostar el mismo monto - acuerdo inmediato
+      v_negotiation_state := 'agreed';
+      v_metadata := jsonb_build_object(
+        'negotiation_state', 'agreed',
+        'bet_amount', p_bet_amount,
+        'player1_bet_proposal', v_other_amount,
+        'player2_bet_proposal', p_bet_amount
+      );
+    ELSIF p_wants_bet AND v_other_wants_bet THEN
+      -- Ambos quieren apostar pero montos diferentes - iniciar negociación
+      v_deadline := NOW() + INTERVAL '30 seconds';
+      v_negotiation_state := 'pending';
+      v_metadata := jsonb_build_object(
+        'negotiation_state', 'pending',
+        'bet_amount', NULL,
+        'player1_bet_proposal', v_other_amount,
+        'player2_bet_proposal', p_bet_amount,
+        'negotiation_deadline', v_deadline
+      );
+    ELSE
+      -- Solo uno quiere apostar - sin apuesta
+      v_negotiation_state := 'no_bet';
+      v_metadata := jsonb_build_object(
+        'negotiation_state', 'no_bet',
+        'bet_amount', NULL,
+        'player1_bet_proposal', CASE WHEN v_other_wants_bet THEN v_other_amount ELSE NULL END,
+        'player2_bet_proposal', CASE WHEN p_wants_bet THEN p_bet_amount ELSE NULL END
+      );
+    END IF;
+
+    -- Unirse a la sala y actualizar metadata con estado de negociación
+    UPDATE game_rooms
+    SET
+      player2_id = p_player_id,
+      status = CASE WHEN v_negotiation_state = 'pending' THEN 'waiting' ELSE 'playing' END,
+      metadata = v_metadata,
+      updated_at = NOW()
+    WHERE id = v_room.id
+    RETURNING * INTO v_room;
+
+    RETURN v_room;
+  ELSE
+    -- Nadie dentro de la ventana, crear una nueva
+    -- Guardar preferencia de apuesta del creador
+    IF p_wants_bet AND p_bet_amount IS NOT NULL AND p_bet_amount > 0 THEN
+      v_metadata := jsonb_build_object(
+        'player1_bet_proposal', p_bet_amount,
+        'negotiation_state', 'none'
+      );
+    ELSE
+      v_metadata := jsonb_build_object(
+        'player1_bet_proposal', NULL,
+        'negotiation_state', 'none'
+      );
+    END IF;
+
+    INSERT INTO game_rooms (
+      game_type,
+      player1_id,
+      current_turn,
+      status,
+      board,
+      is_private,
+      metadata
+    )
+    VALUES (
+      p_game_type,
+      p_player_id,
+      p_player_id,
+      'waiting',
+      '["", "", "", "", "", "", "", "", ""]'::jsonb,
+      false,
+      v_metadata
+    )
+    RETURNING * INTO v_new_room;
+
+    RETURN v_new_room;
+  END IF;
+END;
+$$;
+
+-- Reintentar el emparejamiento de una sala en espera (llamada periódicamente por
+-- su creador). Dos jugadores esperando en salas distintas no se encuentran por sí
+-- solos: si ya hay una sala más antigua dentro de la ventana, el creador de la más
+-- nueva abandona la suya y se une a esa.
+CREATE OR REPLACE FUNCTION retry_ranked_match(
+  p_room_id UUID
+)
+RETURNS game_rooms
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_room game_rooms;
+  v_rating NUMERIC;
+  v_bet_proposal DECIMAL;
+BEGIN
+  -- Obtener sala con lock (así nadie se une a ella mientras tanto)
+  SELECT * INTO v_room
+  FROM game_rooms
+  WHERE id = p_room_id
+  FOR UPDATE;
+
+  IF v_room IS NULL THEN
+    RAISE EXCEPTION 'Room not found';
+  END IF;
+
+  IF auth.uid() IS DISTINCT FROM v_room.player1_id THEN
+    RAISE EXCEPTION 'Player not in room';
+  END IF;
+
+  -- Solo salas públicas que siguen esperando rival
+  IF v_room.status != 'waiting' OR v_room.is_private OR v_room.player2_id IS NOT NULL THEN
+    RETURN v_room;
+  END IF;
+
+  v_rating := player_rating(v_room.player1_id, v_room.game_type);
+
+  -- Solo salas más antiguas: la más vieja nunca se mueve y no hay cruces
+  IF NOT EXISTS (
+    SELECT 1
+    FROM game_rooms gr
+    WHERE gr.game_type = v_room.game_type
+      AND gr.status = 'waiting'
+      AND gr.is_private = false
+      AND gr.player1_id != v_room.player1_id
+      AND gr.player2_id IS NULL
+      AND gr.created_at < v_room.created_at
+      AND ABS(player_rating(gr.player1_id, v_room.game_type) - v_rating) <= rating_search_window(gr.created_at)
+  ) THEN
+    RETURN v_room;
+  END IF;
+
+  v_bet_proposal := (v_room.metadata->>'player1_bet_proposal')::decimal;
+
+  DELETE FROM game_rooms WHERE id = p_room_id;
+
+  RETURN find_or_create_match_v2(
+    v_room.player1_id,
+    v_room.game_type,
+    COALESCE(v_bet_proposal, 0) > 0,
+    v_bet_proposal
+  );
+END;
+$$;
+
+-- Dar permisos a usuarios autenticados
+GRANT EXECUTE ON FUNCTION retry_ranked_match(UUID) TO authenticated;
@@ -0,0 +1,12 @@
+-- Historial de partidas
+-- Cada jugada ya queda en move_log con su timestamp (ver 015), así que una sala
+-- terminada alcanza para reproducir la partida. Solo faltan índices para listar
+-- las partidas terminadas de un jugador.
+
+CREATE INDEX IF NOT EXISTS idx_game_rooms_finished_player1
+ON game_rooms (player1_id, updated_at DESC)
+WHERE status = 'finished';
+
+CREATE INDEX IF NOT EXISTS idx_game_rooms_finished_player2
+ON game_rooms (player2_id, updated_at DESC)
+WHERE status = 'finished';
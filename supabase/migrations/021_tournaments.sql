@@ -0,0 +1,815 @@
+-- Torneos de juegos online
+-- Un torneo agrupa varias partidas: eliminación directa o todos contra todos.
+-- Los jugadores se inscriben (con buy-in opcional que va al pozo del torneo),
+-- el organizador lo inicia y el servidor siembra a los jugadores (por rating o
+-- al azar) y crea una game_room por cruce. Cuando una sala termina, un trigger
+-- registra el resultado, avanza el cuadro y al final paga el pozo al campeón.
+
+-- Metadata agregada a las salas del torneo:
+-- {
+--   "tournament_id": string   -- torneo al que pertenece la sala (solo informativo)
+-- }
+
+CREATE TABLE IF NOT EXISTS tournaments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL CHECK (char_length(name) BETWEEN 3 AND 60),
+  game_type TEXT NOT NULL,
+  format VARCHAR(20) NOT NULL CHECK (format IN ('single_elimination', 'round_robin')),
+  seeding VARCHAR(20) NOT NULL DEFAULT 'rating' CHECK (seeding IN ('rating', 'random')),
+  status VARCHAR(20) NOT NULL DEFAULT 'registration'
+    CHECK (status IN ('registration', 'in_progress', 'finished', 'cancelled')),
+  max_players INTEGER NOT NULL DEFAULT 8 CHECK (max_players BETWEEN 2 AND 32),
+  buy_in DECIMAL(15,2) NOT NULL DEFAULT 0 CHECK (buy_in >= 0),
+  prize_pool DECIMAL(15,2) NOT NULL DEFAULT 0 CHECK (prize_pool >= 0),
+  -- Ronda en juego (0 = sin empezar) y total de rondas (se calcula al iniciar)
+  current_round INTEGER NOT NULL DEFAULT 0,
+  total_rounds INTEGER,
+  created_by UUID NOT NULL REFERENCES profiles(id),
+  winner_id UUID REFERENCES profiles(id),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  started_at TIMESTAMP WITH TIME ZONE,
+  finished_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE TABLE IF NOT EXISTS tournament_players (
+  tournament_id UUID NOT NULL REFERENCES tournaments(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  -- Posición en la siembra (1 = favorito); se asigna al iniciar
+  seed INTEGER,
+  -- Puntos de todos contra todos: victoria 1, empate 0.5
+  points NUMERIC(5,1) NOT NULL DEFAULT 0,
+  wins INTEGER NOT NULL DEFAULT 0,
+  losses INTEGER NOT NULL DEFAULT 0,
+  draws INTEGER NOT NULL DEFAULT 0,
+  is_eliminated BOOLEAN NOT NULL DEFAULT false,
+  joined_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (tournament_id, user_id)
+);
+
+CREATE TABLE IF NOT EXISTS tournament_matches (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tournament_id UUID NOT NULL REFERENCES tournaments(id) ON DELETE CASCADE,
+  round INTEGER NOT NULL,
+  -- Posición dentro de la ronda: en eliminación directa el ganador de 2k y
+  -- 2k+1 se cruza en la posición k de la ronda siguiente
+  position INTEGER NOT NULL,
+  -- NULL = todavía sin definir (o pase libre en la primera ronda)
+  player1_id UUID REFERENCES profiles(id),
+  player2_id UUID REFERENCES profiles(id),
+  -- Sala en juego; ante un empate en eliminación directa se reemplaza por la revancha
+  room_id UUID REFERENCES game_rooms(id) ON DELETE SET NULL,
+  status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'playing', 'finished')),
+  winner_id UUID REFERENCES profiles(id),
+  is_draw BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  finished_at TIMESTAMP WITH TIME ZONE,
+  UNIQUE (tournament_id, round, position)
+);
+
+-- Índices: listado de torneos abiertos y búsqueda del cruce por sala
+CREATE INDEX IF NOT EXISTS idx_tournaments_status
+ON tournaments (status, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_tournament_matches_room
+ON tournament_matches (room_id)
+WHERE room_id IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_tournament_players_user
+ON tournament_players (user_id);
+
+-- RLS: los torneos son públicos; todas las escrituras pasan por las funciones
+ALTER TABLE tournaments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE tournament_players ENABLE ROW LEVEL SECURITY;
+ALTER TABLE tournament_matches ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Anyone can view tournaments" ON tournaments;
+CREATE POLICY "Anyone can view tournaments"
+ON tournaments FOR SELECT
+USING (true);
+
+DROP POLICY IF EXISTS "Anyone can view tournament players" ON tournament_players;
+CREATE POLICY "Anyone can view tournament players"
+ON tournament_players FOR SELECT
+USING (true);
+
+DROP POLICY IF EXISTS "Anyone can view tournament matches" ON tournament_matches;
+CREATE POLICY "Anyone can view tournament matches"
+ON tournament_matches FOR SELECT
+USING (true);
+
+-- Tiempo para que ambos jugadores lleguen a una sala de torneo antes de que
+-- corra el reloj del primer turno (la sala se crea sin que nadie la tenga abierta)
+CREATE OR REPLACE FUNCTION tournament_start_grace()
+RETURNS INTERVAL
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT INTERVAL '5 minutes';
+$$;
+
+-- Trigger de 016 con el margen inicial para salas de torneo
+CREATE OR REPLACE FUNCTION set_turn_deadline()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_is_turn_running BOOLEAN;
+  v_was_running BOOLEAN;
+  v_turn_started BOOLEAN;
+  v_paused_ms BIGINT;
+BEGIN
+  NEW.metadata := COALESCE(NEW.metadata, '{}'::jsonb);
+
+  -- El reloj no corre mientras se negocia la apuesta ni durante el periodo de gracia
+  v_is_turn_running := NEW.status = 'playing'
+    AND NEW.current_turn IS NOT NULL
+    AND COALESCE(NEW.metadata->>'negotiation_state', 'none') != 'pending'
+    AND NOT NEW.metadata ? 'disconnected_player_id';
+
+  v_was_running := TG_OP = 'UPDATE' AND COALESCE(OLD.metadata ? 'turn_deadline', false);
+
+  -- Lo que le quedaba al turno pausado: se parte del valor guardado, nunca del
+  -- que manda el cliente, y deja de valer si cambió el jugador en turno
+  v_paused_ms := CASE
+    WHEN TG_OP = 'UPDATE' AND NEW.current_turn IS NOT DISTINCT FROM OLD.current_turn
+      THEN (OLD.metadata->>'turn_remaining_ms')::BIGINT
+  END;
+  NEW.metadata := NEW.metadata - 'turn_remaining_ms';
+
+  IF NOT v_is_turn_running THEN
+    -- Pausa por desconexión: guardar el tiempo restante para reanudarlo igual
+    IF v_was_running AND NEW.status = 'playing' AND NEW.metadata ? 'disconnected_player_id' THEN
+      v_paused_ms := GREATEST(0,
+        (EXTRACT(EPOCH FROM ((OLD.metadata->>'turn_deadline')::timestamptz - NOW())) * 1000)::BIGINT
+      );
+    END IF;
+
+    IF v_paused_ms IS NOT NULL AND NEW.status = 'playing' THEN
+      NEW.metadata := NEW.metadata || jsonb_build_object('turn_remaining_ms', v_paused_ms);
+    END IF;
+
+    NEW.metadata := NEW.metadata - 'turn_deadline';
+    RETURN NEW;
+  END IF;
+
+  v_turn_started := TG_OP = 'INSERT'
+    OR OLD.status IS DISTINCT FROM 'playing'
+    OR NEW.current_turn IS DISTINCT FROM OLD.current_turn
+    OR OLD.metadata->>'negotiation_state' = 'pending'
+    OR NOT v_was_running;
+
+  IF NOT v_turn_started THEN
+    NEW.metadata := NEW.metadata || jsonb_build_object(
+      'turn_deadline', OLD.metadata->'turn_deadline'
+    );
+  ELSIF v_paused_ms IS NOT NULL THEN
+    -- Fin de la pausa: el mismo turno sigue con lo que le quedaba
+    NEW.metadata := NEW.metadata || jsonb_build_object(
+      'turn_deadline', NOW() + make_interval(secs => v_paused_ms / 1000.0)
+    );
+  ELSIF TG_OP = 'INSERT' AND NEW.metadata ? 'tournament_id' THEN
+    NEW.metadata := NEW.metadata || jsonb_build_object(
+      'turn_deadline', NOW() + tournament_start_grace()
+    );
+  ELSE
+    NEW.metadata := NEW.metadata || jsonb_build_object(
+      'turn_deadline', NOW() + turn_time_limit(NEW.game_type)
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Crear la sala de un cruce (uso interno)
+-- p_swap invierte quién sale primero (revancha tras un empate)
+CREATE OR REPLACE FUNCTION start_tournament_match(
+  p_match_id UUID,
+  p_swap BOOLEAN DEFAULT false
+)
+RETURNS game_rooms
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_match tournament_matches;
+  v_tournament tournaments;
+  v_first UUID;
+  v_second UUID;
+  v_room game_rooms;
+BEGIN
+  SELECT * INTO v_match
+  FROM tournament_matches
+  WHERE id = p_match_id
+  FOR UPDATE;
+
+  IF v_match.player1_id IS NULL OR v_match.player2_id IS NULL THEN
+    RAISE EXCEPTION 'Match players not set';
+  END IF;
+
+  SELECT * INTO v_tournament FROM tournaments WHERE id = v_match.tournament_id;
+
+  v_first := CASE WHEN p_swap THEN v_match.player2_id ELSE v_match.player1_id END;
+  v_second := CASE WHEN p_swap THEN v_match.player1_id ELSE v_match.player2_id END;
+
+  -- Sala pública en juego: cuenta para el rating y se puede mirar en vivo,
+  -- pero el matchmaking no la toma porque ya tiene a los dos jugadores
+  INSERT INTO game_rooms (
+    game_type,
+    player1_id,
+    player2_id,
+    current_turn,
+    status,
+    board,
+    is_private,
+    metadata
+  )
+  VALUES (
+    v_tournament.game_type,
+    v_first,
+    v_second,
+    v_first,
+    'playing',
+    '["", "", "", "", "", "", "", "", ""]'::jsonb,
+    false,
+    jsonb_build_object('tournament_id', v_tournament.id)
+  )
+  RETURNING * INTO v_room;
+
+  UPDATE tournament_matches
+  SET room_id = v_room.id, status = 'playing'
+  WHERE id = p_match_id;
+
+  RETURN v_room;
+END;
+$$;
+
+-- Cerrar el torneo y pagar el pozo al campeón (uso interno)
+CREATE OR REPLACE FUNCTION finish_tournament(
+  p_tournament_id UUID,
+  p_winner_id UUID
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_tournament tournaments;
+BEGIN
+  UPDATE tournaments
+  SET
+    status = 'finished',
+    winner_id = p_winner_id,
+    current_round = total_rounds,
+    finished_at = NOW()
+  WHERE id = p_tournament_id
+    AND status = 'in_progress'
+  RETURNING * INTO v_tournament;
+
+  IF v_tournament IS NULL OR p_winner_id IS NULL OR v_tournament.prize_pool <= 0 THEN
+    RETURN;
+  END IF;
+
+  PERFORM record_win(
+    p_winner_id, v_tournament.prize_pool, v_tournament.game_type,
+    'Premio del torneo ' || v_tournament.name, jsonb_build_object('tournament_id', v_tournament.id)
+  );
+END;
+$$;
+
+-- Avanzar el torneo después de cerrar un cruce (uso interno)
+CREATE OR REPLACE FUNCTION advance_tournament(p_match_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_match tournament_matches;
+  v_tournament tournaments;
+  v_next tournament_matches;
+  v_champion UUID;
+BEGIN
+  SELECT * INTO v_match FROM tournament_matches WHERE id = p_match_id;
+  SELECT * INTO v_tournament FROM tournaments WHERE id = v_match.tournament_id;
+
+  IF v_tournament.format = 'single_elimination' THEN
+    -- La final define al campeón
+    IF v_match.round >= v_tournament.total_rounds THEN
+      PERFORM finish_tournament(v_tournament.id, v_match.winner_id);
+      RETURN;
+    END IF;
+
+    -- El ganador ocupa su lugar en el cruce siguiente; si el rival ya está
+    -- definido, la sala se crea en el momento (no espera al resto de la ronda)
+    UPDATE tournament_matches
+    SET
+      player1_id = CASE WHEN v_match.position % 2 = 0 THEN v_match.winner_id ELSE player1_id END,
+      player2_id = CASE WHEN v_match.position % 2 = 1 THEN v_match.winner_id ELSE player2_id END
+    WHERE tournament_id = v_tournament.id
+      AND round = v_match.round + 1
+      AND position = v_match.position / 2
+    RETURNING * INTO v_next;
+
+    IF v_next.player1_id IS NOT NULL AND v_next.player2_id IS NOT NULL THEN
+      PERFORM start_tournament_match(v_next.id);
+    END IF;
+
+    UPDATE tournaments
+    SET current_round = COALESCE((
+      SELECT MIN(round)
+      FROM tournament_matches
+      WHERE tournament_id = v_tournament.id
+        AND status != 'finished'
+    ), current_round)
+    WHERE id = v_tournament.id;
+
+    RETURN;
+  END IF;
+
+  -- Todos contra todos: la ronda siguiente empieza cuando termina la actual
+  IF EXISTS (
+    SELECT 1
+    FROM tournament_matches
+    WHERE tournament_id = v_tournament.id
+      AND round = v_tournament.current_round
+      AND status != 'finished'
+  ) THEN
+    RETURN;
+  END IF;
+
+  IF v_tournament.current_round >= v_tournament.total_rounds THEN
+    -- Desempate: más victorias, después mejor siembra
+    SELECT user_id INTO v_champion
+    FROM tournament_players
+    WHERE tournament_id = v_tournament.id
+    ORDER BY points DESC, wins DESC, seed ASC
+    LIMIT 1;
+
+    PERFORM finish_tournament(v_tournament.id, v_champion);
+    RETURN;
+  END IF;
+
+  UPDATE tournaments
+  SET current_round = current_round + 1
+  WHERE id = v_tournament.id;
+
+  FOR v_next IN
+    SELECT *
+    FROM tournament_matches
+    WHERE tournament_id = v_tournament.id
+      AND round = v_tournament.current_round + 1
+  LOOP
+    PERFORM start_tournament_match(v_next.id);
+  END LOOP;
+END;
+$$;
+
+-- Registrar el resultado de una sala de torneo (uso interno)
+CREATE OR REPLACE FUNCTION record_tournament_result(p_room game_rooms)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_match tournament_matches;
+  v_tournament tournaments;
+  v_loser UUID;
+BEGIN
+  SELECT * INTO v_match
+  FROM tournament_matches
+  WHERE room_id = p_room.id
+  FOR UPDATE;
+
+  IF v_match IS NULL OR v_match.status = 'finished' THEN
+    RETURN;
+  END IF;
+
+  SELECT * INTO v_tournament
+  FROM tournaments
+  WHERE id = v_match.tournament_id
+  FOR UPDATE;
+
+  IF v_tournament.status != 'in_progress' THEN
+    RETURN;
+  END IF;
+
+  IF p_room.is_draw OR p_room.winner_id IS NULL THEN
+    -- En eliminación directa alguien tiene que pasar: revancha con el otro jugador saliendo
+    IF v_tournament.format = 'single_elimination' THEN
+      PERFORM start_tournament_match(v_match.id, p_room.player1_id = v_match.player1_id);
+      RETURN;
+    END IF;
+
+    UPDATE tournament_matches
+    SET status = 'finished', is_draw = true, finished_at = NOW()
+    WHERE id = v_match.id;
+
+    UPDATE tournament_players
+    SET points = points + 0.5, draws = draws + 1
+    WHERE tournament_id = v_tournament.id
+      AND user_id IN (v_match.player1_id, v_match.player2_id);
+  ELSE
+    v_loser := CASE
+      WHEN p_room.winner_id = v_match.player1_id THEN v_match.player2_id
+      ELSE v_match.player1_id
+    END;
+
+    UPDATE tournament_matches
+    SET status = 'finished', winner_id = p_room.winner_id, finished_at = NOW()
+    WHERE id = v_match.id;
+
+    UPDATE tournament_players
+    SET points = points + 1, wins = wins + 1
+    WHERE tournament_id = v_tournament.id
+      AND user_id = p_room.winner_id;
+
+    UPDATE tournament_players
+    SET losses = losses + 1, is_eliminated = v_tournament.format = 'single_elimination'
+    WHERE tournament_id = v_tournament.id
+      AND user_id = v_loser;
+  END IF;
+
+  PERFORM advance_tournament(v_match.id);
+END;
+$$;
+
+-- Uso interno (triggers y funciones del torneo): nunca expuestas a clientes
+REVOKE EXECUTE ON FUNCTION start_tournament_match(UUID, BOOLEAN) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION finish_tournament(UUID, UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION advance_tournament(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION record_tournament_result(game_rooms) FROM PUBLIC, anon, authenticated;
+
+-- Trigger: avanzar el torneo en la misma transacción en que termina la sala
+-- (no depende de que los jugadores sigan con la página abierta)
+CREATE OR REPLACE FUNCTION handle_tournament_room_result()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  PERFORM record_tournament_result(NEW);
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_game_room_tournament_result ON game_rooms;
+CREATE TRIGGER on_game_room_tournament_result
+  AFTER UPDATE ON game_rooms
+  FOR EACH ROW
+  WHEN (NEW.status = 'finished' AND OLD.status IS DISTINCT FROM 'finished')
+  EXECUTE FUNCTION handle_tournament_room_result();
+
+-- Crear un torneo (el organizador no queda inscrito: se inscribe como cualquiera)
+CREATE OR REPLACE FUNCTION create_tournament(
+  p_name TEXT,
+  p_game_type TEXT,
+  p_format TEXT DEFAULT 'single_elimination',
+  p_seeding TEXT DEFAULT 'rating',
+  p_max_players INTEGER DEFAULT 8,
+  p_buy_in DECIMAL DEFAULT 0
+)
+RETURNS tournaments
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_tournament tournaments;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  -- Solo juegos con motor en el servidor (los que se juegan online)
+  IF p_game_type NOT IN ('tic-tac-toe', 'connect-four', 'chess') THEN
+    RAISE EXCEPTION 'Game does not support online play';
+  END IF;
+
+  INSERT INTO tournaments (name, game_type, format, seeding, max_players, buy_in, created_by)
+  VALUES (
+    btrim(p_name),
+    p_game_type,
+    p_format,
+    p_seeding,
+    p_max_players,
+    COALESCE(p_buy_in, 0),
+    auth.uid()
+  )
+  RETURNING * INTO v_tournament;
+
+  RETURN v_tournament;
+END;
+$$;
+
+-- Inscribirse: descuenta el buy-in (si hay) y lo suma al pozo
+CREATE OR REPLACE FUNCTION join_tournament(p_tournament_id UUID)
+RETURNS tournaments
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_tournament tournaments;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO v_tournament
+  FROM tournaments
+  WHERE id = p_tournament_id
+  FOR UPDATE;
+
+  IF v_tournament IS NULL THEN
+    RAISE EXCEPTION 'Tournament not found';
+  END IF;
+
+  IF v_tournament.status != 'registration' THEN
+    RAISE EXCEPTION 'Registration is closed';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM tournament_players
+    WHERE tournament_id = p_tournament_id AND user_id = auth.uid()
+  ) THEN
+    RETURN v_tournament;
+  END IF;
+
+  IF (SELECT COUNT(*) FROM tournament_players WHERE tournament_id = p_tournament_id) >= v_tournament.max_players THEN
+    RAISE EXCEPTION 'Tournament is full';
+  END IF;
+
+  IF v_tournament.buy_in > 0 THEN
+    -- Falla con 'Insufficient balance' si no alcanza
+    PERFORM place_bet(
+      auth.uid(), v_tournament.buy_in, v_tournament.game_type,
+      'Inscripción al torneo ' || v_tournament.name, jsonb_build_object('tournament_id', v_tournament.id)
+    );
+
+    UPDATE tournaments
+    SET prize_pool = prize_pool + v_tournament.buy_in
+    WHERE id = p_tournament_id
+    RETURNING * INTO v_tournament;
+  END IF;
+
+  INSERT INTO tournament_players (tournament_id, user_id)
+  VALUES (p_tournament_id, auth.uid());
+
+  RETURN v_tournament;
+END;
+$$;
+
+-- Desinscribirse antes de que empiece: reembolsa el buy-in
+CREATE OR REPLACE FUNCTION leave_tournament(p_tournament_id UUID)
+RETURNS tournaments
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_tournament tournaments;
+BEGIN
+  SELECT * INTO v_tournament
+  FROM tournaments
+  WHERE id = p_tournament_id
+  FOR UPDATE;
+
+  IF v_tournament IS NULL THEN
+    RAISE EXCEPTION 'Tournament not found';
+  END IF;
+
+  IF v_tournament.status != 'registration' THEN
+    RAISE EXCEPTION 'Registration is closed';
+  END IF;
+
+  DELETE FROM tournament_players
+  WHERE tournament_id = p_tournament_id AND user_id = auth.uid();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Player not in tournament';
+  END IF;
+
+  IF v_tournament.buy_in > 0 THEN
+    PERFORM refund(
+      auth.uid(), v_tournament.buy_in, v_tournament.game_type,
+      'Reembolso del torneo ' || v_tournament.name, jsonb_build_object('tournament_id', v_tournament.id)
+    );
+
+    UPDATE tournaments
+    SET prize_pool = prize_pool - v_tournament.buy_in
+    WHERE id = p_tournament_id
+    RETURNING * INTO v_tournament;
+  END IF;
+
+  RETURN v_tournament;
+END;
+$$;
+
+-- Cancelar (solo el organizador, antes de empezar): reembolsa a todos los inscritos
+CREATE OR REPLACE FUNCTION cancel_tournament(p_tournament_id UUID)
+RETURNS tournaments
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_tournament tournaments;
+  v_player_id UUID;
+BEGIN
+  SELECT * INTO v_tournament
+  FROM tournaments
+  WHERE id = p_tournament_id
+  FOR UPDATE;
+
+  IF v_tournament IS NULL THEN
+    RAISE EXCEPTION 'Tournament not found';
+  END IF;
+
+  IF auth.uid() IS DISTINCT FROM v_tournament.created_by THEN
+    RAISE EXCEPTION 'Only the organizer can cancel the tournament';
+  END IF;
+
+  IF v_tournament.status != 'registration' THEN
+    RAISE EXCEPTION 'Tournament already started';
+  END IF;
+
+  IF v_tournament.buy_in > 0 THEN
+    FOR v_player_id IN
+      SELECT user_id FROM tournament_players WHERE tournament_id = p_tournament_id
+    LOOP
+      PERFORM refund(
+        v_player_id, v_tournament.buy_in, v_tournament.game_type,
+        'Torneo cancelado: ' || v_tournament.name, jsonb_build_object('tournament_id', v_tournament.id)
+      );
+    END LOOP;
+  END IF;
+
+  UPDATE tournaments
+  SET status = 'cancelled', prize_pool = 0, finished_at = NOW()
+  WHERE id = p_tournament_id
+  RETURNING * INTO v_tournament;
+
+  RETURN v_tournament;
+END;
+$$;
+
+-- Iniciar (solo el organizador): siembra, arma el cuadro y crea las salas de la primera ronda
+CREATE OR REPLACE FUNCTION start_tournament(p_tournament_id UUID)
+RETURNS tournaments
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_tournament tournaments;
+  v_players UUID[];
+  v_count INTEGER;
+  v_size INTEGER;
+  v_rounds INTEGER;
+  v_order INTEGER[];
+  v_next_order INTEGER[];
+  v_seed INTEGER;
+  v_round INTEGER;
+  v_i INTEGER;
+  v_home UUID;
+  v_away UUID;
+  v_match tournament_matches;
+BEGIN
+  SELECT * INTO v_tournament
+  FROM tournaments
+  WHERE id = p_tournament_id
+  FOR UPDATE;
+
+  IF v_tournament IS NULL THEN
+    RAISE EXCEPTION 'Tournament not found';
+  END IF;
+
+  IF auth.uid() IS DISTINCT FROM v_tournament.created_by THEN
+    RAISE EXCEPTION 'Only the organizer can start the tournament';
+  END IF;
+
+  IF v_tournament.status != 'registration' THEN
+    RAISE EXCEPTION 'Tournament already started';
+  END IF;
+
+  -- Siembra: por rating del juego (mayor primero) o al azar
+  UPDATE tournament_players tp
+  SET seed = ranked.seed
+  FROM (
+    SELECT
+      user_id,
+      ROW_NUMBER() OVER (
+        ORDER BY
+          CASE WHEN v_tournament.seeding = 'rating'
+            THEN player_rating(user_id, v_tournament.game_type)
+          END DESC NULLS LAST,
+          random()
+      ) AS seed
+    FROM tournament_players
+    WHERE tournament_id = p_tournament_id
+  ) ranked
+  WHERE tp.tournament_id = p_tournament_id
+    AND tp.user_id = ranked.user_id;
+
+  SELECT array_agg(user_id ORDER BY seed) INTO v_players
+  FROM tournament_players
+  WHERE tournament_id = p_tournament_id;
+
+  v_count := COALESCE(array_length(v_players, 1), 0);
+
+  IF v_count < 2 THEN
+    RAISE EXCEPTION 'Not enough players';
+  END IF;
+
+  IF v_tournament.format = 'single_elimination' THEN
+    -- Cuadro de 2^n lugares; los mejores sembrados reciben los pases libres
+    v_size := 1;
+    v_rounds := 0;
+    WHILE v_size < v_count LOOP
+      v_size := v_size * 2;
+      v_rounds := v_rounds + 1;
+    END LOOP;
+
+    -- Orden clásico de siembra: 1-8, 4-5, 2-7, 3-6 (el 1 y el 2 solo se cruzan en la final)
+    v_order := ARRAY[1];
+    WHILE array_length(v_order, 1) < v_size LOOP
+      v_next_order := ARRAY[]::INTEGER[];
+      FOREACH v_seed IN ARRAY v_order LOOP
+        v_next_order := v_next_order || v_seed || (array_length(v_order, 1) * 2 + 1 - v_seed);
+      END LOOP;
+      v_order := v_next_order;
+    END LOOP;
+
+    -- Todas las rondas quedan creadas para dibujar el cuadro completo
+    FOR v_round IN 1..v_rounds LOOP
+      FOR v_i IN 0..(v_size / (2 ^ v_round))::INTEGER - 1 LOOP
+        INSERT INTO tournament_matches (tournament_id, round, position, player1_id, player2_id)
+        VALUES (
+          p_tournament_id,
+          v_round,
+          v_i,
+          CASE WHEN v_round = 1 THEN v_players[v_order[v_i * 2 + 1]] END,
+          CASE WHEN v_round = 1 THEN v_players[v_order[v_i * 2 + 2]] END
+        );
+      END LOOP;
+    END LOOP;
+  ELSE
+    -- Todos contra todos (método del círculo); con cantidad impar uno descansa por ronda
+    v_size := v_count + v_count % 2;
+    v_rounds := v_size - 1;
+
+    FOR v_round IN 0..v_rounds - 1 LOOP
+      FOR v_i IN 0..v_size / 2 - 1 LOOP
+        -- El lugar 0 queda fijo; el resto rota una posición por ronda
+        v_home := v_players[CASE WHEN v_i = 0 THEN 1 ELSE (v_i - 1 + v_round) % (v_size - 1) + 2 END];
+        v_away := v_players[(v_size - 2 - v_i + v_round) % (v_size - 1) + 2];
+
+        IF v_home IS NOT NULL AND v_away IS NOT NULL THEN
+          -- Alternar quién sale primero en el cruce del lugar fijo
+          IF v_i = 0 AND v_round % 2 = 1 THEN
+            INSERT INTO tournament_matches (tournament_id, round, position, player1_id, player2_id)
+            VALUES (p_tournament_id, v_round + 1, v_i, v_away, v_home);
+          ELSE
+            INSERT INTO tournament_matches (tournament_id, round, position, player1_id, player2_id)
+            VALUES (p_tournament_id, v_round + 1, v_i, v_home, v_away);
+          END IF;
+        END IF;
+      END LOOP;
+    END LOOP;
+  END IF;
+
+  UPDATE tournaments
+  SET
+    status = 'in_progress',
+    current_round = 1,
+    total_rounds = v_rounds,
+    started_at = NOW()
+  WHERE id = p_tournament_id
+  RETURNING * INTO v_tournament;
+
+  -- Primera ronda: salas para los cruces completos, pases libres avanzan solos
+  FOR v_match IN
+    SELECT *
+    FROM tournament_matches
+    WHERE tournament_id = p_tournament_id
+      AND round = 1
+    ORDER BY position
+  LOOP
+    IF v_match.player1_id IS NOT NULL AND v_match.player2_id IS NOT NULL THEN
+      PERFORM start_tournament_match(v_match.id);
+    ELSE
+      UPDATE tournament_matches
+      SET status = 'finished', winner_id = COALESCE(v_match.player1_id, v_match.player2_id), finished_at = NOW()
+      WHERE id = v_match.id;
+
+      PERFORM advance_tournament(v_match.id);
+    END IF;
+  END LOOP;
+
+  SELECT * INTO v_tournament FROM tournaments WHERE id = p_tournament_id;
+
+  RETURN v_tournament;
+END;
+$$;
+
+-- Dar permisos a usuarios autenticados
+GRANT EXECUTE ON FUNCTION create_tournament(TEXT, TEXT, TEXT, TEXT, INTEGER, DECIMAL) TO authenticated;
+GRANT EXECUTE ON FUNCTION join_tournament(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION leave_tournament(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION cancel_tournament(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION start_tournament(UUID) TO authenticated;
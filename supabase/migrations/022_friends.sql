@@ -0,0 +1,410 @@
+-- Amigos y desafíos directos
+-- Las solicitudes de amistad (y los bloqueos) quedan en friendships: una fila por
+-- par de usuarios. Un desafío crea una sala privada (con apuesta opcional) y una
+-- fila en game_challenges que el amigo acepta o rechaza; al aceptar entra a la
+-- sala con el link de siempre (/games/<juego>?room=<id>). El aviso en tiempo real
+-- es un broadcast al canal inbox:<user_id>, que solo indica que hay que releer.
+
+-- Metadata de la sala del desafío con apuesta:
+-- {
+--   "negotiation_state": "agreed",   -- aceptar el desafío es aceptar la apuesta
+--   "bet_amount": number             -- el escrow (010) bloquea ambas al unirse el amigo
+-- }
+
+CREATE TABLE IF NOT EXISTS friendships (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  -- Quien envió la solicitud (o quien bloqueó)
+  requester_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  addressee_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'accepted', 'blocked')),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  CHECK (requester_id != addressee_id)
+);
+
+-- Una sola fila por par, sin importar quién la creó
+CREATE UNIQUE INDEX IF NOT EXISTS idx_friendships_pair
+ON friendships (LEAST(requester_id, addressee_id), GREATEST(requester_id, addressee_id));
+
+CREATE INDEX IF NOT EXISTS idx_friendships_addressee
+ON friendships (addressee_id);
+
+CREATE TABLE IF NOT EXISTS game_challenges (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  challenger_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  challenged_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  game_type TEXT NOT NULL,
+  -- Si el retador abandona la sala en espera, el desafío desaparece con ella
+  room_id UUID NOT NULL REFERENCES game_rooms(id) ON DELETE CASCADE,
+  bet_amount DECIMAL(15,2) CHECK (bet_amount IS NULL OR bet_amount > 0),
+  status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'accepted', 'declined', 'cancelled')),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  -- Un desafío pendiente vencido ya no se puede aceptar
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW() + INTERVAL '2 minutes',
+  responded_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS idx_game_challenges_challenged
+ON game_challenges (challenged_id, created_at DESC)
+WHERE status = 'pending';
+
+-- RLS: cada uno ve sus filas; el bloqueado no ve el bloqueo. Escrituras solo por funciones.
+ALTER TABLE friendships ENABLE ROW LEVEL SECURITY;
+ALTER TABLE game_challenges ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their friendships" ON friendships;
+CREATE POLICY "Users can view their friendships"
+ON friendships FOR SELECT
+USING (
+  auth.uid() = requester_id
+  OR (auth.uid() = addressee_id AND status != 'blocked')
+);
+
+DROP POLICY IF EXISTS "Users can view their challenges" ON game_challenges;
+CREATE POLICY "Users can view their challenges"
+ON game_challenges FOR SELECT
+USING (auth.uid() = challenger_id OR auth.uid() = challenged_id);
+
+-- Fila de amistad entre dos usuarios (en cualquier dirección)
+CREATE OR REPLACE FUNCTION friendship_between(p_user_a UUID, p_user_b UUID)
+RETURNS friendships
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+  SELECT *
+  FROM friendships
+  WHERE LEAST(requester_id, addressee_id) = LEAST(p_user_a, p_user_b)
+    AND GREATEST(requester_id, addressee_id) = GREATEST(p_user_a, p_user_b);
+$$;
+
+REVOKE EXECUTE ON FUNCTION friendship_between(UUID, UUID) FROM PUBLIC, anon, authenticated;
+
+-- Enviar solicitud por nombre de usuario
+-- Si el otro ya me había enviado una, se acepta directamente
+CREATE OR REPLACE FUNCTION send_friend_request(p_username TEXT)
+RETURNS friendships
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_target_id UUID;
+  v_friendship friendships;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT id INTO v_target_id
+  FROM profiles
+  WHERE lower(username) = lower(btrim(p_username));
+
+  IF v_target_id IS NULL THEN
+    RAISE EXCEPTION 'User not found';
+  END IF;
+
+  IF v_target_id = auth.uid() THEN
+    RAISE EXCEPTION 'Cannot add yourself';
+  END IF;
+
+  v_friendship := friendship_between(auth.uid(), v_target_id);
+
+  IF v_friendship IS NULL THEN
+    INSERT INTO friendships (requester_id, addressee_id)
+    VALUES (auth.uid(), v_target_id)
+    RETURNING * INTO v_friendship;
+
+    RETURN v_friendship;
+  END IF;
+
+  IF v_friendship.status = 'blocked' THEN
+    -- Quien fue bloqueado no se entera: el usuario "no existe"
+    IF v_friendship.requester_id = auth.uid() THEN
+      RAISE EXCEPTION 'User is blocked';
+    END IF;
+    RAISE EXCEPTION 'User not found';
+  END IF;
+
+  IF v_friendship.status = 'pending' AND v_friendship.addressee_id = auth.uid() THEN
+    UPDATE friendships
+    SET status = 'accepted', updated_at = NOW()
+    WHERE id = v_friendship.id
+    RETURNING * INTO v_friendship;
+  END IF;
+
+  RETURN v_friendship;
+END;
+$$;
+
+-- Aceptar o rechazar una solicitud recibida (rechazar la borra)
+CREATE OR REPLACE FUNCTION respond_friend_request(
+  p_friendship_id UUID,
+  p_accept BOOLEAN
+)
+RETURNS friendships
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_friendship friendships;
+BEGIN
+  SELECT * INTO v_friendship
+  FROM friendships
+  WHERE id = p_friendship_id
+  FOR UPDATE;
+
+  IF v_friendship IS NULL OR v_friendship.addressee_id IS DISTINCT FROM auth.uid() OR v_friendship.status != 'pending' THEN
+    RAISE EXCEPTION 'Request not found';
+  END IF;
+
+  IF NOT p_accept THEN
+    DELETE FROM friendships WHERE id = p_friendship_id;
+    RETURN NULL;
+  END IF;
+
+  UPDATE friendships
+  SET status = 'accepted', updated_at = NOW()
+  WHERE id = p_friendship_id
+  RETURNING * INTO v_friendship;
+
+  RETURN v_friendship;
+END;
+$$;
+
+-- Eliminar amigo, cancelar una solicitud enviada o desbloquear
+CREATE OR REPLACE FUNCTION remove_friendship(p_friendship_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_friendship friendships;
+BEGIN
+  SELECT * INTO v_friendship
+  FROM friendships
+  WHERE id = p_friendship_id
+  FOR UPDATE;
+
+  -- Un bloqueo solo lo puede levantar quien bloqueó
+  IF v_friendship IS NULL
+    OR (v_friendship.status = 'blocked' AND v_friendship.requester_id IS DISTINCT FROM auth.uid())
+    OR auth.uid() NOT IN (v_friendship.requester_id, v_friendship.addressee_id) THEN
+    RAISE EXCEPTION 'Friendship not found';
+  END IF;
+
+  DELETE FROM friendships WHERE id = p_friendship_id;
+END;
+$$;
+
+-- Bloquear: reemplaza la amistad o solicitud y cancela los desafíos pendientes
+CREATE OR REPLACE FUNCTION block_user(p_user_id UUID)
+RETURNS friendships
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_friendship friendships;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF p_user_id = auth.uid() THEN
+    RAISE EXCEPTION 'Cannot block yourself';
+  END IF;
+
+  DELETE FROM friendships
+  WHERE LEAST(requester_id, addressee_id) = LEAST(auth.uid(), p_user_id)
+    AND GREATEST(requester_id, addressee_id) = GREATEST(auth.uid(), p_user_id);
+
+  INSERT INTO friendships (requester_id, addressee_id, status)
+  VALUES (auth.uid(), p_user_id, 'blocked')
+  RETURNING * INTO v_friendship;
+
+  UPDATE game_challenges
+  SET status = 'cancelled', responded_at = NOW()
+  WHERE status = 'pending'
+    AND (
+      (challenger_id = auth.uid() AND challenged_id = p_user_id)
+      OR (challenger_id = p_user_id AND challenged_id = auth.uid())
+    );
+
+  RETURN v_friendship;
+END;
+$$;
+
+-- Desafiar a un amigo: crea la sala privada y el desafío pendiente
+-- Un desafío nuevo al mismo amigo reemplaza al anterior
+CREATE OR REPLACE FUNCTION create_challenge(
+  p_friend_id UUID,
+  p_game_type TEXT,
+  p_bet_amount DECIMAL DEFAULT NULL
+)
+RETURNS game_challenges
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_friendship friendships;
+  v_room game_rooms;
+  v_challenge game_challenges;
+  v_bet DECIMAL;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  -- Solo juegos con motor en el servidor (los que se juegan online)
+  IF p_game_type NOT IN ('tic-tac-toe', 'connect-four', 'chess') THEN
+    RAISE EXCEPTION 'Game does not support online play';
+  END IF;
+
+  v_friendship := friendship_between(auth.uid(), p_friend_id);
+
+  IF v_friendship IS NULL OR v_friendship.status != 'accepted' THEN
+    RAISE EXCEPTION 'Not friends';
+  END IF;
+
+  v_bet := CASE WHEN COALESCE(p_bet_amount, 0) > 0 THEN p_bet_amount END;
+
+  -- Mismo máximo que BET_CONFIG.MAX_BET
+  IF v_bet > 1000 THEN
+    RAISE EXCEPTION 'Bet above maximum';
+  END IF;
+
+  -- La apuesta se bloquea recién cuando el amigo entra; acá solo se valida el saldo
+  IF v_bet IS NOT NULL AND COALESCE((SELECT balance FROM wallets WHERE user_id = auth.uid()), 0) < v_bet THEN
+    RAISE EXCEPTION 'Insufficient balance';
+  END IF;
+
+  UPDATE game_challenges
+  SET status = 'cancelled', responded_at = NOW()
+  WHERE challenger_id = auth.uid()
+    AND challenged_id = p_friend_id
+    AND status = 'pending';
+
+  INSERT INTO game_rooms (
+    game_type,
+    player1_id,
+    current_turn,
+    status,
+    board,
+    is_private,
+    metadata
+  )
+  VALUES (
+    p_game_type,
+    auth.uid(),
+    auth.uid(),
+    'waiting',
+    '["", "", "", "", "", "", "", "", ""]'::jsonb,
+    true,
+    CASE
+      WHEN v_bet IS NOT NULL THEN jsonb_build_object(
+        'negotiation_state', 'agreed',
+        'bet_amount', v_bet,
+        'player1_bet_proposal', v_bet,
+        'player2_bet_proposal', v_bet
+      )
+      ELSE jsonb_build_object('negotiation_state', 'none')
+    END
+  )
+  RETURNING * INTO v_room;
+
+  INSERT INTO game_challenges (challenger_id, challenged_id, game_type, room_id, bet_amount)
+  VALUES (auth.uid(), p_friend_id, p_game_type, v_room.id, v_bet)
+  RETURNING * INTO v_challenge;
+
+  RETURN v_challenge;
+END;
+$$;
+
+-- Aceptar o rechazar un desafío recibido
+-- Al aceptar, el cliente entra a la sala con joinRoomById
+CREATE OR REPLACE FUNCTION respond_challenge(
+  p_challenge_id UUID,
+  p_accept BOOLEAN
+)
+RETURNS game_challenges
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_challenge game_challenges;
+BEGIN
+  SELECT * INTO v_challenge
+  FROM game_challenges
+  WHERE id = p_challenge_id
+  FOR UPDATE;
+
+  IF v_challenge IS NULL OR v_challenge.challenged_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Challenge not found';
+  END IF;
+
+  IF v_challenge.status != 'pending' THEN
+    RAISE EXCEPTION 'Challenge no longer available';
+  END IF;
+
+  IF p_accept AND v_challenge.expires_at < NOW() THEN
+    RAISE EXCEPTION 'Challenge expired';
+  END IF;
+
+  UPDATE game_challenges
+  SET
+    status = CASE WHEN p_accept THEN 'accepted' ELSE 'declined' END,
+    responded_at = NOW()
+  WHERE id = p_challenge_id
+  RETURNING * INTO v_challenge;
+
+  RETURN v_challenge;
+END;
+$$;
+
+-- join_room de 012: la sala de un desafío queda reservada para el amigo desafiado
+-- (si no, cualquiera con el link o el código de invitación entraba a la apuesta)
+CREATE OR REPLACE FUNCTION join_room(
+  p_room_id UUID
+)
+RETURNS game_rooms
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_room game_rooms;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM game_challenges
+    WHERE room_id = p_room_id
+      AND challenged_id != auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Room reserved for challenged player';
+  END IF;
+
+  -- Si otro jugador la ocupó primero, no devuelve nada
+  UPDATE game_rooms
+  SET
+    player2_id = auth.uid(),
+    status = 'playing',
+    updated_at = NOW()
+  WHERE id = p_room_id
+    AND status = 'waiting'
+    AND player2_id IS NULL
+    AND player1_id != auth.uid()
+  RETURNING * INTO v_room;
+
+  RETURN v_room;
+END;
+$$;
+
+-- Dar permisos a usuarios autenticados
+GRANT EXECUTE ON FUNCTION send_friend_request(TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION respond_friend_request(UUID, BOOLEAN) TO authenticated;
+GRANT EXECUTE ON FUNCTION remove_friendship(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION block_user(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION create_challenge(UUID, TEXT, DECIMAL) TO authenticated;
+GRANT EXECUTE ON FUNCTION respond_challenge(UUID, BOOLEAN) TO authenticated;
@@ -0,0 +1,101 @@
+-- Códigos de invitación para salas privadas
+-- Cada sala privada recibe al crearse un código corto (sin caracteres ambiguos
+-- como 0/O o 1/I/L) que se comparte como link /games/<juego>/join/<código> o
+-- con un QR. El código vence a los 2 minutos, lo mismo que el creador espera
+-- rival antes de cerrar la sala (WAITING_TIMEOUT_MS en el cliente).
+
+ALTER TABLE game_rooms
+ADD COLUMN IF NOT EXISTS invite_code TEXT,
+ADD COLUMN IF NOT EXISTS invite_expires_at TIMESTAMPTZ;
+
+-- Único solo entre las salas que esperan rival (los códigos viejos se reciclan)
+CREATE UNIQUE INDEX IF NOT EXISTS idx_game_rooms_invite_code
+ON game_rooms (invite_code)
+WHERE invite_code IS NOT NULL AND status = 'waiting';
+
+-- Generar un código libre de 6 caracteres
+CREATE OR REPLACE FUNCTION generate_invite_code()
+RETURNS TEXT
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_alphabet CONSTANT TEXT := 'ABCDEFGHJKMNPQRSTUVWXYZ23456789';
+  v_code TEXT;
+BEGIN
+  LOOP
+    v_code := '';
+    FOR i IN 1..6 LOOP
+      v_code := v_code || substr(v_alphabet, 1 + floor(random() * length(v_alphabet))::INTEGER, 1);
+    END LOOP;
+
+    EXIT WHEN NOT EXISTS (
+      SELECT 1 FROM game_rooms WHERE invite_code = v_code AND status = 'waiting'
+    );
+  END LOOP;
+
+  RETURN v_code;
+END;
+$$;
+
+-- Trigger: asignar código a las salas privadas nuevas (los clientes no lo eligen)
+CREATE OR REPLACE FUNCTION assign_invite_code()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.is_private AND NEW.status = 'waiting' THEN
+    NEW.invite_code := generate_invite_code();
+    NEW.invite_expires_at := NOW() + INTERVAL '2 minutes';
+  ELSE
+    NEW.invite_code := NULL;
+    NEW.invite_expires_at := NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_game_room_invite_code ON game_rooms;
+CREATE TRIGGER on_game_room_invite_code
+  BEFORE INSERT ON game_rooms
+  FOR EACH ROW EXECUTE FUNCTION assign_invite_code();
+
+-- Resolver un código de invitación a su sala (antes de iniciar sesión también,
+-- para avisar enseguida si el código venció)
+CREATE OR REPLACE FUNCTION resolve_invite_code(
+  p_code TEXT
+)
+RETURNS TABLE (room_id UUID, game_type TEXT)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_code TEXT;
+  v_room game_rooms;
+BEGIN
+  -- Aceptar el código con minúsculas, espacios o guiones
+  v_code := upper(regexp_replace(COALESCE(p_code, ''), '[^A-Za-z0-9]', '', 'g'));
+
+  SELECT * INTO v_room
+  FROM game_rooms
+  WHERE invite_code = v_code
+    AND status = 'waiting'
+    AND is_private = true;
+
+  IF v_room.id IS NULL THEN
+    RAISE EXCEPTION 'Invite not found';
+  END IF;
+
+  IF v_room.invite_expires_at < NOW() THEN
+    RAISE EXCEPTION 'Invite expired';
+  END IF;
+
+  IF v_room.player2_id IS NOT NULL THEN
+    RAISE EXCEPTION 'Room is full';
+  END IF;
+
+  RETURN QUERY SELECT v_room.id, v_room.game_type;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION resolve_invite_code(TEXT) TO anon, authenticated;
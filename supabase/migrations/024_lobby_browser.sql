@@ -0,0 +1,78 @@
+-- Lobby de salas abiertas
+-- Además del emparejamiento automático, un jugador puede elegir una sala pública
+-- en espera de la lista. Entrar desde el lobby acepta la apuesta que propuso el
+-- creador (si la hay): la sala pasa a 'agreed' y el trigger de escrow bloquea
+-- las dos apuestas.
+
+-- Índice para listar salas públicas en espera por juego
+CREATE INDEX IF NOT EXISTS idx_game_rooms_lobby
+ON game_rooms (game_type, created_at DESC)
+WHERE status = 'waiting' AND is_private = false AND player2_id IS NULL;
+
+CREATE OR REPLACE FUNCTION join_lobby_room(
+  p_room_id UUID
+)
+RETURNS game_rooms
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_room game_rooms;
+  v_bet DECIMAL;
+  v_metadata JSONB;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO v_room
+  FROM game_rooms
+  WHERE id = p_room_id
+  FOR UPDATE;
+
+  IF v_room.id IS NULL
+    OR v_room.status != 'waiting'
+    OR v_room.is_private
+    OR v_room.player2_id IS NOT NULL THEN
+    RAISE EXCEPTION 'Room not available';
+  END IF;
+
+  IF v_room.player1_id = v_user_id THEN
+    RAISE EXCEPTION 'Cannot join own room';
+  END IF;
+
+  v_metadata := COALESCE(v_room.metadata, '{}'::jsonb);
+  v_bet := COALESCE((v_metadata->>'player1_bet_proposal')::decimal, 0);
+
+  IF v_bet > 0 THEN
+    IF COALESCE((SELECT balance FROM wallets WHERE user_id = v_user_id), 0) < v_bet THEN
+      RAISE EXCEPTION 'Insufficient balance';
+    END IF;
+
+    v_metadata := v_metadata || jsonb_build_object(
+      'negotiation_state', 'agreed',
+      'bet_amount', v_bet,
+      'player2_bet_proposal', v_bet
+    );
+  ELSE
+    v_metadata := v_metadata || jsonb_build_object(
+      'negotiation_state', 'none',
+      'bet_amount', NULL
+    );
+  END IF;
+
+  UPDATE game_rooms
+  SET
+    player2_id = v_user_id,
+    status = 'playing',
+    metadata = v_metadata,
+    updated_at = NOW()
+  WHERE id = v_room.id
+  RETURNING * INTO v_room;
+
+  RETURN v_room;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION join_lobby_room(UUID) TO authenticated;
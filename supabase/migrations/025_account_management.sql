@@ -0,0 +1,242 @@
+-- Gestión de la cuenta
+-- Nombres de usuario únicos (sin distinguir mayúsculas), avatares en Storage,
+-- exportación de datos personales (RGPD) y borrado de la cuenta. Al borrar la
+-- cuenta se eliminan en cascada el perfil, la billetera, los movimientos, las
+-- estadísticas, los ratings y las amistades; las partidas y torneos jugados se
+-- conservan para los rivales, pero sin referencia al usuario (quedan en NULL).
+
+-- Nombre de usuario único sin distinguir mayúsculas
+CREATE UNIQUE INDEX IF NOT EXISTS idx_profiles_username_lower
+ON profiles (LOWER(username))
+WHERE username IS NOT NULL;
+
+-- Bucket público de avatares: cada usuario escribe solo en su carpeta <user_id>/
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES ('avatars', 'avatars', true, 2097152, ARRAY['image/png', 'image/jpeg', 'image/webp'])
+ON CONFLICT (id) DO UPDATE
+SET public = EXCLUDED.public,
+    file_size_limit = EXCLUDED.file_size_limit,
+    allowed_mime_types = EXCLUDED.allowed_mime_types;
+
+DROP POLICY IF EXISTS "Avatars are publicly readable" ON storage.objects;
+CREATE POLICY "Avatars are publicly readable"
+  ON storage.objects FOR SELECT
+  USING (bucket_id = 'avatars');
+
+DROP POLICY IF EXISTS "Users can upload their own avatar" ON storage.objects;
+CREATE POLICY "Users can upload their own avatar"
+  ON storage.objects FOR INSERT
+  TO authenticated
+  WITH CHECK (bucket_id = 'avatars' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+DROP POLICY IF EXISTS "Users can update their own avatar" ON storage.objects;
+CREATE POLICY "Users can update their own avatar"
+  ON storage.objects FOR UPDATE
+  TO authenticated
+  USING (bucket_id = 'avatars' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+DROP POLICY IF EXISTS "Users can delete their own avatar" ON storage.objects;
+CREATE POLICY "Users can delete their own avatar"
+  ON storage.objects FOR DELETE
+  TO authenticated
+  USING (bucket_id = 'avatars' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+-- El perfil se borra junto con el usuario de auth
+ALTER TABLE profiles DROP CONSTRAINT IF EXISTS profiles_id_fkey;
+ALTER TABLE profiles
+ADD CONSTRAINT profiles_id_fkey FOREIGN KEY (id) REFERENCES auth.users(id) ON DELETE CASCADE;
+
+-- Las referencias históricas al usuario pasan a NULL en lugar de bloquear el borrado.
+-- Se recrea cada FK con el mismo nombre y la misma tabla destino (profiles o auth.users).
+DO $$
+DECLARE
+  v_fk RECORD;
+BEGIN
+  FOR v_fk IN
+    SELECT c.conname, c.conrelid::regclass AS table_name, a.attname AS column_name,
+           c.confrelid::regclass AS referenced_table
+    FROM pg_constraint c
+    JOIN pg_attribute a ON a.attrelid = c.conrelid AND a.attnum = c.conkey[1]
+    WHERE c.contype = 'f'
+      AND c.confdeltype = 'a'
+      AND c.confrelid IN ('public.profiles'::regclass, 'auth.users'::regclass)
+      AND (c.conrelid::regclass::text, a.attname::text) IN (
+        ('game_rooms', 'player1_id'),
+        ('game_rooms', 'player2_id'),
+        ('game_rooms', 'current_turn'),
+        ('game_rooms', 'winner_id'),
+        ('game_room_escrows', 'player1_id'),
+        ('game_room_escrows', 'player2_id'),
+        ('game_room_escrows', 'winner_id'),
+        ('tournaments', 'created_by'),
+        ('tournaments', 'winner_id'),
+        ('tournament_matches', 'player1_id'),
+        ('tournament_matches', 'player2_id'),
+        ('tournament_matches', 'winner_id')
+      )
+  LOOP
+    EXECUTE format('ALTER TABLE %s ALTER COLUMN %I DROP NOT NULL', v_fk.table_name, v_fk.column_name);
+    EXECUTE format('ALTER TABLE %s DROP CONSTRAINT %I', v_fk.table_name, v_fk.conname);
+    EXECUTE format(
+      'ALTER TABLE %s ADD CONSTRAINT %I FOREIGN KEY (%I) REFERENCES %s(id) ON DELETE SET NULL',
+      v_fk.table_name, v_fk.conname, v_fk.column_name, v_fk.referenced_table
+    );
+  END LOOP;
+END;
+$$;
+
+-- Exportar todos los datos personales del usuario en un único JSON
+CREATE OR REPLACE FUNCTION export_my_data()
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_wallet_id UUID;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT id INTO v_wallet_id FROM wallets WHERE user_id = v_user_id;
+
+  RETURN jsonb_build_object(
+    'exported_at', NOW(),
+    'account', (
+      SELECT jsonb_build_object(
+        'id', u.id,
+        'email', u.email,
+        'created_at', u.created_at,
+        'last_sign_in_at', u.last_sign_in_at,
+        'providers', u.raw_app_meta_data -> 'providers'
+      )
+      FROM auth.users u
+      WHERE u.id = v_user_id
+    ),
+    'profile', (SELECT to_jsonb(p) FROM profiles p WHERE p.id = v_user_id),
+    'wallet', (SELECT to_jsonb(w) FROM wallets w WHERE w.id = v_wallet_id),
+    'wallet_transactions', COALESCE((
+      SELECT jsonb_agg(to_jsonb(t) ORDER BY t.created_at)
+      FROM wallet_transactions t
+      WHERE t.wallet_id = v_wallet_id
+    ), '[]'::jsonb),
+    'game_stats', COALESCE((
+      SELECT jsonb_agg(to_jsonb(s))
+      FROM game_stats s
+      WHERE s.user_id = v_user_id
+    ), '[]'::jsonb),
+    'ratings', COALESCE((
+      SELECT jsonb_agg(to_jsonb(r))
+      FROM player_ratings r
+      WHERE r.user_id = v_user_id
+    ), '[]'::jsonb),
+    'games', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'id', g.id,
+        'game_type', g.game_type,
+        'status', g.status,
+        'player1_id', g.player1_id,
+        'player2_id', g.player2_id,
+        'winner_id', g.winner_id,
+        'is_draw', g.is_draw,
+        'move_log', g.move_log,
+        'created_at', g.created_at,
+        'updated_at', g.updated_at
+      ) ORDER BY g.created_at)
+      FROM game_rooms g
+      WHERE v_user_id IN (g.player1_id, g.player2_id)
+    ), '[]'::jsonb),
+    'friendships', COALESCE((
+      SELECT jsonb_agg(to_jsonb(f))
+      FROM friendships f
+      WHERE v_user_id IN (f.requester_id, f.addressee_id)
+    ), '[]'::jsonb),
+    'tournaments', COALESCE((
+      SELECT jsonb_agg(to_jsonb(tp))
+      FROM tournament_players tp
+      WHERE tp.user_id = v_user_id
+    ), '[]'::jsonb),
+    -- Los seeds activos no se revelan: exportarlos permitiría predecir las bolas
+    'plinko_seeds', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'server_seed', CASE WHEN ps.is_active THEN NULL ELSE ps.server_seed END,
+        'server_seed_hash', ps.server_seed_hash,
+        'client_seed', ps.client_seed,
+        'nonce', ps.nonce,
+        'created_at', ps.created_at,
+        'revealed_at', ps.revealed_at
+      ) ORDER BY ps.created_at)
+      FROM plinko_seeds ps
+      WHERE ps.user_id = v_user_id
+    ), '[]'::jsonb)
+  );
+END;
+$$;
+
+-- Verificar que el usuario actual puede borrar su cuenta. Se niega si tiene
+-- dinero bloqueado en partidas o torneos en curso, para no dejar a los rivales
+-- sin poder cobrar. El cliente la llama antes de borrar los avatares de Storage
+-- (que no se pueden borrar desde SQL ni después de borrar el usuario).
+CREATE OR REPLACE FUNCTION check_account_deletable()
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM game_rooms
+    WHERE v_user_id IN (player1_id, player2_id)
+      AND status = 'playing'
+  ) OR EXISTS (
+    SELECT 1 FROM game_room_escrows
+    WHERE v_user_id IN (player1_id, player2_id)
+      AND status = 'locked'
+  ) THEN
+    RAISE EXCEPTION 'Finish your active games first';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM tournaments t
+    LEFT JOIN tournament_players tp ON tp.tournament_id = t.id AND tp.user_id = v_user_id
+    WHERE t.status IN ('registration', 'in_progress')
+      AND (tp.user_id IS NOT NULL OR t.created_by = v_user_id)
+  ) THEN
+    RAISE EXCEPTION 'Leave your active tournaments first';
+  END IF;
+END;
+$$;
+
+-- Borrar la cuenta del usuario actual (con las mismas verificaciones)
+CREATE OR REPLACE FUNCTION delete_my_account()
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+BEGIN
+  PERFORM check_account_deletable();
+
+  -- Las salas en espera no le sirven a nadie sin su creador
+  DELETE FROM game_rooms
+  WHERE player1_id = v_user_id AND status = 'waiting';
+
+  DELETE FROM game_stats WHERE user_id = v_user_id;
+
+  -- El resto (perfil, billetera, movimientos, ratings, amistades, seeds) cae en cascada
+  DELETE FROM auth.users WHERE id = v_user_id;
+END;
+$$;
+
+-- Dar permisos a usuarios autenticados
+GRANT EXECUTE ON FUNCTION export_my_data() TO authenticated;
+GRANT EXECUTE ON FUNCTION check_account_deletable() TO authenticated;
+GRANT EXECUTE ON FUNCTION delete_my_account() TO authenticated;
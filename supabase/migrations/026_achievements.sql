@@ -0,0 +1,340 @@
+-- Logros e insignias
+-- El catálogo es declarativo: cada logro tiene una regla JSON que el servidor
+-- evalúa cuando cambian sus fuentes (estadísticas, salas terminadas, ganancias
+-- en la billetera y torneos). Al desbloquearse se guarda en user_achievements
+-- (el cliente lo recibe por realtime) y, si tiene bonus, se acredita en la
+-- billetera como movimiento 'bonus'.
+
+-- Reglas soportadas (min = valor a alcanzar):
+-- { "type": "stat", "field": "games_won" | "games_played" | "total_play_time" | "best_win_streak", "min": number }
+-- { "type": "opponent_wins", "opponent": string, "min": number }     -- by_opponent de game_stats (ai_impossible...)
+-- { "type": "online_wins", "game_type"?: string, "min": number }     -- salas terminadas ganadas (con jugadas)
+-- { "type": "online_games", "min": number }                          -- salas terminadas jugadas (con jugadas)
+-- { "type": "plinko_multiplier", "min": number }                     -- mayor multiplicador en plinko_rolls
+-- { "type": "biggest_win", "min": number }                           -- mayor ganancia en un solo movimiento
+-- { "type": "tournament_wins", "min": number }
+-- { "type": "rating", "min": number }                                -- mejor rating no provisional
+
+CREATE TABLE IF NOT EXISTS achievements (
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  description TEXT NOT NULL,
+  -- Nombre del icono en el cliente (ver ACHIEVEMENT_ICONS)
+  icon TEXT NOT NULL,
+  tier VARCHAR(10) NOT NULL DEFAULT 'bronze' CHECK (tier IN ('bronze', 'silver', 'gold')),
+  rule JSONB NOT NULL,
+  bonus DECIMAL(15,2) NOT NULL DEFAULT 0 CHECK (bonus >= 0),
+  sort_order INTEGER NOT NULL DEFAULT 0
+);
+
+CREATE TABLE IF NOT EXISTS user_achievements (
+  user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  achievement_id TEXT NOT NULL REFERENCES achievements(id) ON DELETE CASCADE,
+  unlocked_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (user_id, achievement_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_achievements_recent
+ON user_achievements (user_id, unlocked_at DESC);
+
+-- RLS: las insignias son públicas (perfiles); solo el servidor las escribe
+ALTER TABLE achievements ENABLE ROW LEVEL SECURITY;
+ALTER TABLE user_achievements ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Anyone can view achievements" ON achievements;
+CREATE POLICY "Anyone can view achievements"
+  ON achievements FOR SELECT
+  TO anon, authenticated
+  USING (true);
+
+DROP POLICY IF EXISTS "Anyone can view unlocked achievements" ON user_achievements;
+CREATE POLICY "Anyone can view unlocked achievements"
+  ON user_achievements FOR SELECT
+  TO anon, authenticated
+  USING (true);
+
+-- Avisos de desbloqueo en tiempo real
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_publication WHERE pubname = 'supabase_realtime')
+    AND NOT EXISTS (
+      SELECT 1 FROM pg_publication_tables
+      WHERE pubname = 'supabase_realtime' AND tablename = 'user_achievements'
+    ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE user_achievements;
+  END IF;
+END;
+$$;
+
+-- Catálogo. Las reglas sobre game_stats no dan bonus: esas estadísticas las
+-- sincroniza el cliente, así que no deben convertirse en créditos.
+INSERT INTO achievements (id, name, description, icon, tier, rule, bonus, sort_order) VALUES
+  ('first_win', 'Primera victoria', 'Gana tu primera partida', 'trophy', 'bronze',
+    '{"type": "stat", "field": "games_won", "min": 1}', 0, 10),
+  ('veteran', 'Veterano', 'Juega 100 partidas', 'medal', 'silver',
+    '{"type": "stat", "field": "games_played", "min": 100}', 0, 20),
+  ('marathon', 'Maratón', 'Acumula 10 horas de juego', 'clock', 'silver',
+    '{"type": "stat", "field": "total_play_time", "min": 36000}', 0, 30),
+  ('unstoppable', 'Imparable', 'Encadena 10 victorias seguidas', 'flame', 'gold',
+    '{"type": "stat", "field": "best_win_streak", "min": 10}', 0, 40),
+  ('beat_impossible', 'Lo imposible', 'Vence a la IA en dificultad imposible', 'brain', 'gold',
+    '{"type": "opponent_wins", "opponent": "ai_impossible", "min": 1}', 0, 50),
+  ('online_debut', 'Debut online', 'Gana tu primera partida online', 'globe', 'bronze',
+    '{"type": "online_wins", "min": 1}', 50, 60),
+  ('checkmate', 'Jaque mate', 'Gana una partida de ajedrez online', 'crown', 'bronze',
+    '{"type": "online_wins", "game_type": "chess", "min": 1}', 50, 70),
+  ('regular', 'Habitual', 'Termina 50 partidas online', 'users', 'silver',
+    '{"type": "online_games", "min": 50}', 150, 80),
+  ('competitor', 'Competidor', 'Gana 25 partidas online', 'swords', 'silver',
+    '{"type": "online_wins", "min": 25}', 250, 90),
+  ('master', 'Maestro', 'Alcanza 1800 de rating en cualquier juego', 'star', 'gold',
+    '{"type": "rating", "min": 1800}', 300, 100),
+  ('champion', 'Campeón', 'Gana un torneo', 'award', 'gold',
+    '{"type": "tournament_wins", "min": 1}', 500, 110),
+  ('lucky_drop', 'Golpe de suerte', 'Consigue un x110 en Plinko', 'sparkles', 'gold',
+    '{"type": "plinko_multiplier", "min": 110}', 500, 120),
+  ('high_roller', 'Gran premio', 'Cobra 10.000 créditos en una sola jugada', 'gem', 'gold',
+    '{"type": "biggest_win", "min": 10000}', 0, 130)
+ON CONFLICT (id) DO UPDATE
+SET name = EXCLUDED.name,
+    description = EXCLUDED.description,
+    icon = EXCLUDED.icon,
+    tier = EXCLUDED.tier,
+    rule = EXCLUDED.rule,
+    bonus = EXCLUDED.bonus,
+    sort_order = EXCLUDED.sort_order;
+
+-- Valor actual de una regla para un usuario (se compara contra rule.min)
+CREATE OR REPLACE FUNCTION achievement_progress(p_user_id UUID, p_rule JSONB)
+RETURNS NUMERIC
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_value NUMERIC;
+BEGIN
+  CASE p_rule->>'type'
+    WHEN 'stat' THEN
+      SELECT CASE p_rule->>'field'
+          WHEN 'games_won' THEN SUM(games_won)
+          WHEN 'games_played' THEN SUM(games_played)
+          WHEN 'total_play_time' THEN SUM(total_play_time)
+          WHEN 'best_win_streak' THEN MAX(best_win_streak)
+        END
+      INTO v_value
+      FROM game_stats
+      WHERE user_id = p_user_id;
+
+    WHEN 'opponent_wins' THEN
+      SELECT SUM((by_opponent -> (p_rule->>'opponent') ->> 'won')::NUMERIC)
+      INTO v_value
+      FROM game_stats
+      WHERE user_id = p_user_id
+        AND jsonb_typeof(by_opponent -> (p_rule->>'opponent') -> 'won') = 'number';
+
+    WHEN 'online_wins' THEN
+      -- Solo partidas con rival y al menos una jugada validada por el servidor
+      -- (move_log lo escribe solo la ruta de movimientos, 015)
+      SELECT COUNT(*)
+      INTO v_value
+      FROM game_rooms
+      WHERE status = 'finished'
+        AND winner_id = p_user_id
+        AND player2_id IS NOT NULL
+        AND jsonb_array_length(move_log) > 0
+        AND (p_rule->>'game_type' IS NULL OR game_type = p_rule->>'game_type');
+
+    WHEN 'online_games' THEN
+      SELECT COUNT(*)
+      INTO v_value
+      FROM game_rooms
+      WHERE status = 'finished'
+        AND p_user_id IN (player1_id, player2_id)
+        AND player2_id IS NOT NULL
+        AND jsonb_array_length(move_log) > 0;
+
+    WHEN 'plinko_multiplier' THEN
+      -- Tiradas registradas por plinko_drop (013), no metadata de la billetera
+      SELECT MAX(multiplier)
+      INTO v_value
+      FROM plinko_rolls
+      WHERE user_id = p_user_id;
+
+    WHEN 'biggest_win' THEN
+      -- Las ganancias solo las acredita el servidor (escrow de salas y plinko_drop)
+      SELECT MAX(t.amount)
+      INTO v_value
+      FROM wallet_transactions t
+      JOIN wallets w ON w.id = t.wallet_id
+      WHERE w.user_id = p_user_id
+        AND t.type = 'win';
+
+    WHEN 'tournament_wins' THEN
+      SELECT COUNT(*)
+      INTO v_value
+      FROM tournaments
+      WHERE winner_id = p_user_id
+        AND status = 'finished';
+
+    WHEN 'rating' THEN
+      SELECT MAX(rating)
+      INTO v_value
+      FROM player_ratings
+      WHERE user_id = p_user_id
+        AND NOT is_provisional;
+
+    ELSE
+      v_value := 0;
+  END CASE;
+
+  RETURN COALESCE(v_value, 0);
+END;
+$$;
+
+-- Desbloquear los logros que el usuario ya cumple y pagar sus bonus (uso interno)
+CREATE OR REPLACE FUNCTION evaluate_achievements(p_user_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_achievement achievements;
+BEGIN
+  IF p_user_id IS NULL OR NOT EXISTS (SELECT 1 FROM profiles WHERE id = p_user_id) THEN
+    RETURN;
+  END IF;
+
+  FOR v_achievement IN
+    SELECT a.*
+    FROM achievements a
+    WHERE NOT EXISTS (
+      SELECT 1 FROM user_achievements ua
+      WHERE ua.user_id = p_user_id AND ua.achievement_id = a.id
+    )
+    ORDER BY a.sort_order
+  LOOP
+    IF achievement_progress(p_user_id, v_achievement.rule) < (v_achievement.rule->>'min')::NUMERIC THEN
+      CONTINUE;
+    END IF;
+
+    INSERT INTO user_achievements (user_id, achievement_id)
+    VALUES (p_user_id, v_achievement.id)
+    ON CONFLICT DO NOTHING;
+
+    IF FOUND
+      AND v_achievement.bonus > 0
+      AND EXISTS (SELECT 1 FROM wallets WHERE user_id = p_user_id) THEN
+      PERFORM grant_bonus(
+        p_user_id, v_achievement.bonus, 'Logro: ' || v_achievement.name,
+        jsonb_build_object('achievement_id', v_achievement.id)
+      );
+    END IF;
+  END LOOP;
+END;
+$$;
+
+-- Uso interno (triggers y get_achievements): nunca expuestas a clientes
+REVOKE EXECUTE ON FUNCTION achievement_progress(UUID, JSONB) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION evaluate_achievements(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Trigger compartido: evalúa a los usuarios afectados por el evento.
+-- Un error acá nunca debe deshacer el resultado de la partida o el pago.
+CREATE OR REPLACE FUNCTION handle_achievement_event()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_user_ids UUID[];
+  v_user_id UUID;
+BEGIN
+  v_user_ids := CASE TG_TABLE_NAME
+    WHEN 'game_stats' THEN ARRAY[NEW.user_id]
+    WHEN 'game_rooms' THEN ARRAY[NEW.player1_id, NEW.player2_id]
+    WHEN 'tournaments' THEN ARRAY[NEW.winner_id]
+    WHEN 'wallet_transactions' THEN ARRAY(SELECT user_id FROM wallets WHERE id = NEW.wallet_id)
+    ELSE ARRAY[]::UUID[]
+  END;
+
+  FOREACH v_user_id IN ARRAY v_user_ids LOOP
+    BEGIN
+      PERFORM evaluate_achievements(v_user_id);
+    EXCEPTION WHEN OTHERS THEN
+      RAISE WARNING 'Achievement evaluation failed for %: %', v_user_id, SQLERRM;
+    END;
+  END LOOP;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_game_stats_achievements ON game_stats;
+CREATE TRIGGER on_game_stats_achievements
+  AFTER INSERT OR UPDATE ON game_stats
+  FOR EACH ROW EXECUTE FUNCTION handle_achievement_event();
+
+DROP TRIGGER IF EXISTS on_game_room_achievements ON game_rooms;
+CREATE TRIGGER on_game_room_achievements
+  AFTER UPDATE ON game_rooms
+  FOR EACH ROW
+  WHEN (NEW.status = 'finished' AND OLD.status IS DISTINCT FROM 'finished')
+  EXECUTE FUNCTION handle_achievement_event();
+
+-- Solo ganancias: los bonus de los logros no disparan otra evaluación
+DROP TRIGGER IF EXISTS on_wallet_win_achievements ON wallet_transactions;
+CREATE TRIGGER on_wallet_win_achievements
+  AFTER INSERT ON wallet_transactions
+  FOR EACH ROW
+  WHEN (NEW.type = 'win')
+  EXECUTE FUNCTION handle_achievement_event();
+
+DROP TRIGGER IF EXISTS on_tournament_achievements ON tournaments;
+CREATE TRIGGER on_tournament_achievements
+  AFTER UPDATE ON tournaments
+  FOR EACH ROW
+  WHEN (NEW.status = 'finished' AND OLD.status IS DISTINCT FROM 'finished')
+  EXECUTE FUNCTION handle_achievement_event();
+
+-- Catálogo con el estado de un usuario. El progreso solo se calcula para uno
+-- mismo: en perfiles ajenos expondría ganancias y estadísticas privadas.
+CREATE OR REPLACE FUNCTION get_achievements(p_user_id UUID)
+RETURNS TABLE (
+  id TEXT,
+  name TEXT,
+  description TEXT,
+  icon TEXT,
+  tier TEXT,
+  bonus DECIMAL,
+  unlocked_at TIMESTAMP WITH TIME ZONE,
+  progress NUMERIC,
+  goal NUMERIC
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_is_self BOOLEAN := p_user_id = auth.uid();
+BEGIN
+  RETURN QUERY
+  SELECT
+    a.id,
+    a.name,
+    a.description,
+    a.icon,
+    a.tier::TEXT,
+    a.bonus,
+    ua.unlocked_at,
+    CASE
+      WHEN ua.unlocked_at IS NOT NULL THEN (a.rule->>'min')::NUMERIC
+      WHEN v_is_self THEN LEAST(achievement_progress(p_user_id, a.rule), (a.rule->>'min')::NUMERIC)
+      ELSE NULL
+    END,
+    (a.rule->>'min')::NUMERIC
+  FROM achievements a
+  LEFT JOIN user_achievements ua ON ua.achievement_id = a.id AND ua.user_id = p_user_id
+  ORDER BY a.sort_order;
+END;
+$$;
+
+-- Dar permisos: get_achievements es público
+GRANT EXECUTE ON FUNCTION get_achievements(UUID) TO anon, authenticated;
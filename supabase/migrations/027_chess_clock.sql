@@ -0,0 +1,139 @@
+-- Reloj por jugador en ajedrez online
+-- En vez de un límite fijo por turno (016), cada jugador tiene un saldo de tiempo
+-- para toda la partida guardado en metadata.clock_remaining_ms. Lo escribe solo
+-- el servidor: al terminar un turno se guarda lo que le quedó a quien movió, y el
+-- turn_deadline del siguiente es NOW() + su saldo. Así check_turn_timeout sigue
+-- decidiendo la derrota por tiempo sin cambios.
+
+-- Metadata agregada:
+-- {
+--   "clock_remaining_ms": { "player1": number, "player2": number } | null
+-- }
+
+-- Tiempo total por jugador según el juego (NULL = reloj por turno de 016)
+-- Ajedrez: mismo control que '10+0' en TIME_CONTROLS (sin incremento)
+CREATE OR REPLACE FUNCTION game_clock_initial(p_game_type TEXT)
+RETURNS INTERVAL
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE p_game_type
+    WHEN 'chess' THEN INTERVAL '10 minutes'
+    ELSE NULL
+  END;
+$$;
+
+-- Trigger de 016/021 con el saldo por jugador
+-- Las pausas por desconexión conservan el saldo; sin reloj, el turno guarda lo que
+-- le quedaba en turn_remaining_ms como en 016.
+CREATE OR REPLACE FUNCTION set_turn_deadline()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_is_turn_running BOOLEAN;
+  v_was_running BOOLEAN;
+  v_turn_started BOOLEAN;
+  v_clock_initial INTERVAL;
+  v_clock JSONB;
+  v_old_key TEXT;
+  v_paused_ms BIGINT;
+  v_turn_limit INTERVAL;
+BEGIN
+  NEW.metadata := COALESCE(NEW.metadata, '{}'::jsonb);
+
+  -- El reloj no corre mientras se negocia la apuesta ni durante el periodo de gracia
+  v_is_turn_running := NEW.status = 'playing'
+    AND NEW.current_turn IS NOT NULL
+    AND COALESCE(NEW.metadata->>'negotiation_state', 'none') != 'pending'
+    AND NOT NEW.metadata ? 'disconnected_player_id';
+
+  v_was_running := TG_OP = 'UPDATE' AND COALESCE(OLD.metadata ? 'turn_deadline', false);
+
+  v_turn_started := v_is_turn_running AND (
+    TG_OP = 'INSERT'
+    OR OLD.status IS DISTINCT FROM 'playing'
+    OR NEW.current_turn IS DISTINCT FROM OLD.current_turn
+    OR OLD.metadata->>'negotiation_state' = 'pending'
+    OR NOT v_was_running
+  );
+
+  -- Saldo por jugador: se parte del valor guardado, nunca del que manda el cliente
+  v_clock_initial := game_clock_initial(NEW.game_type);
+  NEW.metadata := NEW.metadata - 'clock_remaining_ms';
+
+  -- Reloj por turno (016): lo que le quedaba al turno pausado por desconexión
+  v_paused_ms := CASE
+    WHEN TG_OP = 'UPDATE' AND NEW.current_turn IS NOT DISTINCT FROM OLD.current_turn
+      THEN (OLD.metadata->>'turn_remaining_ms')::BIGINT
+  END;
+  NEW.metadata := NEW.metadata - 'turn_remaining_ms';
+
+  IF v_clock_initial IS NOT NULL THEN
+    v_clock := CASE WHEN TG_OP = 'UPDATE' THEN OLD.metadata->'clock_remaining_ms' END;
+    v_clock := COALESCE(v_clock, jsonb_build_object(
+      'player1', (EXTRACT(EPOCH FROM v_clock_initial) * 1000)::BIGINT,
+      'player2', (EXTRACT(EPOCH FROM v_clock_initial) * 1000)::BIGINT
+    ));
+
+    -- Terminó el turno anterior (jugada, pausa o fin): guardar lo que le quedó
+    IF v_was_running AND (NOT v_is_turn_running OR v_turn_started) THEN
+      v_old_key := CASE WHEN OLD.current_turn = OLD.player1_id THEN 'player1' ELSE 'player2' END;
+      v_clock := v_clock || jsonb_build_object(v_old_key, GREATEST(0, LEAST(
+        (v_clock->>v_old_key)::BIGINT,
+        (EXTRACT(EPOCH FROM ((OLD.metadata->>'turn_deadline')::timestamptz - NOW())) * 1000)::BIGINT
+      )));
+    END IF;
+
+    NEW.metadata := NEW.metadata || jsonb_build_object('clock_remaining_ms', v_clock);
+  ELSIF NOT v_is_turn_running AND NEW.status = 'playing' THEN
+    IF v_was_running AND NEW.metadata ? 'disconnected_player_id' THEN
+      v_paused_ms := GREATEST(0,
+        (EXTRACT(EPOCH FROM ((OLD.metadata->>'turn_deadline')::timestamptz - NOW())) * 1000)::BIGINT
+      );
+    END IF;
+
+    IF v_paused_ms IS NOT NULL THEN
+      NEW.metadata := NEW.metadata || jsonb_build_object('turn_remaining_ms', v_paused_ms);
+    END IF;
+  END IF;
+
+  IF NOT v_is_turn_running THEN
+    NEW.metadata := NEW.metadata - 'turn_deadline';
+    RETURN NEW;
+  END IF;
+
+  IF NOT v_turn_started THEN
+    NEW.metadata := NEW.metadata || jsonb_build_object(
+      'turn_deadline', OLD.metadata->'turn_deadline'
+    );
+    RETURN NEW;
+  END IF;
+
+  IF v_clock_initial IS NOT NULL THEN
+    v_turn_limit := make_interval(secs => (v_clock->>(
+      CASE WHEN NEW.current_turn = NEW.player1_id THEN 'player1' ELSE 'player2' END
+    ))::BIGINT / 1000.0);
+  ELSIF v_paused_ms IS NOT NULL THEN
+    v_turn_limit := make_interval(secs => v_paused_ms / 1000.0);
+  ELSE
+    v_turn_limit := turn_time_limit(NEW.game_type);
+  END IF;
+
+  -- Salas de torneo: margen inicial para que ambos lleguen (021)
+  IF TG_OP = 'INSERT' AND NEW.metadata ? 'tournament_id' THEN
+    v_turn_limit := GREATEST(v_turn_limit, tournament_start_grace());
+  END IF;
+
+  NEW.metadata := NEW.metadata || jsonb_build_object(
+    'turn_deadline', NOW() + v_turn_limit
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+-- Partidas de ajedrez en curso al aplicar la migración: iniciar el saldo
+UPDATE game_rooms
+SET updated_at = updated_at
+WHERE status = 'playing' AND game_type = 'chess';